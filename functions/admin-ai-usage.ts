@@ -0,0 +1,273 @@
+import { Handler } from '@netlify/functions';
+import { neon } from '@neondatabase/serverless';
+import { recordAdminAudit } from './lib/admin-audit.js';
+import { AI_FEATURES, DEFAULT_AI_QUOTAS, type AiQuotaRole } from './lib/ai-usage.js';
+import { withAuth } from './lib/auth.js';
+
+/**
+ * AI cost dashboard and per-role AI quotas (ai_usage_events / ai_quotas; see lib/ai-usage).
+ *
+ * GET    ?from=YYYY-MM-DD &to=YYYY-MM-DD (default: the last 30 days) &feature=
+ *          → { totals, by_feature, by_model, by_day, by_class, unassigned, top_students, quotas }
+ *          A student in several classes counts toward each of them.
+ * POST   → { role, daily_limit_usd, monthly_limit_usd } sets a role's budgets (null = unlimited)
+ * DELETE → { role } goes back to the default budgets
+ */
+
+const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+};
+
+const ROLES: AiQuotaRole[] = ['student', 'user', 'teacher', 'admin'];
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_LIMIT_USD = 1000;
+
+function parseLimit(value: unknown): number | null | undefined {
+  if (value === null || value === '') return null;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0 || n > MAX_LIMIT_USD) return undefined;
+  return Math.round(n * 10000) / 10000;
+}
+
+export const handler: Handler = withAuth({ roles: ['admin'], headers: corsHeaders }, async (event, _context, auth) => {
+  const databaseUrl = process.env.NEON_DATABASE_URL;
+  if (!databaseUrl) {
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: false, error: 'Database configuration error' }),
+    };
+  }
+
+  const sql = neon(databaseUrl);
+
+  try {
+    if (event.httpMethod === 'GET') {
+      const q = event.queryStringParameters || {};
+      const to = q.to && DATE_RE.test(q.to) ? q.to : new Date().toISOString().slice(0, 10);
+      const from =
+        q.from && DATE_RE.test(q.from)
+          ? q.from
+          : new Date(Date.parse(`${to}T00:00:00Z`) - 29 * 86400000).toISOString().slice(0, 10);
+      const feature = q.feature && (AI_FEATURES as string[]).includes(q.feature) ? q.feature : null;
+
+      const inRange = () => sql`
+        e.created_at >= ${from}::date
+        AND e.created_at < ${to}::date + INTERVAL '1 day'
+        ${feature ? sql`AND e.feature = ${feature}` : sql``}
+      `;
+
+      const [totalRows, featureRows, modelRows, dayRows, classRows, unassignedRows, studentRows, quotaRows] =
+        await Promise.all([
+          sql`
+            SELECT
+              COUNT(*)::int AS calls,
+              COALESCE(SUM(e.estimated_cost_usd), 0)::float8 AS cost_usd,
+              COUNT(DISTINCT e.user_id)::int AS users
+            FROM ai_usage_events e
+            WHERE ${inRange()}
+          `,
+          sql`
+            SELECT
+              e.feature,
+              COUNT(*)::int AS calls,
+              COALESCE(SUM(e.estimated_cost_usd), 0)::float8 AS cost_usd,
+              COALESCE(SUM(e.input_tokens), 0)::bigint::text AS input_tokens,
+              COALESCE(SUM(e.output_tokens), 0)::bigint::text AS output_tokens,
+              COALESCE(SUM(e.audio_seconds), 0)::float8 AS audio_seconds,
+              COALESCE(SUM(e.characters), 0)::bigint::text AS characters,
+              COALESCE(SUM(e.images), 0)::int AS images
+            FROM ai_usage_events e
+            WHERE ${inRange()}
+            GROUP BY e.feature
+            ORDER BY cost_usd DESC
+          `,
+          sql`
+            SELECT e.provider, e.model, COUNT(*)::int AS calls, COALESCE(SUM(e.estimated_cost_usd), 0)::float8 AS cost_usd
+            FROM ai_usage_events e
+            WHERE ${inRange()}
+            GROUP BY e.provider, e.model
+            ORDER BY cost_usd DESC
+          `,
+          sql`
+            SELECT
+              to_char(date_trunc('day', e.created_at AT TIME ZONE 'UTC'), 'YYYY-MM-DD') AS day,
+              COUNT(*)::int AS calls,
+              COALESCE(SUM(e.estimated_cost_usd), 0)::float8 AS cost_usd
+            FROM ai_usage_events e
+            WHERE ${inRange()}
+            GROUP BY 1
+            ORDER BY 1
+          `,
+          sql`
+            SELECT
+              c.id::text AS class_id,
+              c.name,
+              COUNT(DISTINCT e.user_id)::int AS students,
+              COUNT(*)::int AS calls,
+              COALESCE(SUM(e.estimated_cost_usd), 0)::float8 AS cost_usd
+            FROM ai_usage_events e
+            JOIN class_students cs ON cs.user_id = e.user_id
+            JOIN classes c ON c.id = cs.class_id
+            WHERE ${inRange()}
+            GROUP BY c.id, c.name
+            ORDER BY cost_usd DESC, c.name
+          `,
+          sql`
+            SELECT COUNT(*)::int AS calls, COALESCE(SUM(e.estimated_cost_usd), 0)::float8 AS cost_usd
+            FROM ai_usage_events e
+            WHERE ${inRange()}
+              AND NOT EXISTS (SELECT 1 FROM class_students cs WHERE cs.user_id = e.user_id)
+          `,
+          sql`
+            SELECT
+              e.user_id::text AS user_id,
+              COALESCE(u.school_student_id, u.username, u.email) AS label,
+              u.role,
+              COUNT(*)::int AS calls,
+              COALESCE(SUM(e.estimated_cost_usd), 0)::float8 AS cost_usd
+            FROM ai_usage_events e
+            JOIN users u ON u.id = e.user_id
+            WHERE ${inRange()}
+            GROUP BY e.user_id, u.school_student_id, u.username, u.email, u.role
+            ORDER BY cost_usd DESC
+            LIMIT 20
+          `,
+          sql`SELECT role, daily_limit_usd, monthly_limit_usd, updated_at FROM ai_quotas`,
+        ]);
+
+      const quotaByRole = new Map(quotaRows.map((r) => [r.role as string, r]));
+      const quotas = ROLES.map((role) => {
+        const row = quotaByRole.get(role);
+        return {
+          role,
+          daily_limit_usd: row
+            ? row.daily_limit_usd === null ? null : Number(row.daily_limit_usd)
+            : DEFAULT_AI_QUOTAS[role].dailyLimitUsd,
+          monthly_limit_usd: row
+            ? row.monthly_limit_usd === null ? null : Number(row.monthly_limit_usd)
+            : DEFAULT_AI_QUOTAS[role].monthlyLimitUsd,
+          is_default: !row,
+          updated_at: row?.updated_at ?? null,
+        };
+      });
+
+      return {
+        statusCode: 200,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          success: true,
+          from,
+          to,
+          feature,
+          totals: totalRows[0] || { calls: 0, cost_usd: 0, users: 0 },
+          by_feature: featureRows,
+          by_model: modelRows,
+          by_day: dayRows,
+          by_class: classRows,
+          unassigned: unassignedRows[0] || { calls: 0, cost_usd: 0 },
+          top_students: studentRows,
+          quotas,
+        }),
+      };
+    }
+
+    if (event.httpMethod !== 'POST' && event.httpMethod !== 'DELETE') {
+      return {
+        statusCode: 405,
+        headers: corsHeaders,
+        body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+      };
+    }
+
+    let body: { role?: unknown; daily_limit_usd?: unknown; monthly_limit_usd?: unknown };
+    try {
+      body = JSON.parse(event.body || '{}');
+    } catch {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({ success: false, error: 'Invalid JSON body' }),
+      };
+    }
+
+    const role = typeof body.role === 'string' ? (body.role as AiQuotaRole) : null;
+    if (!role || !ROLES.includes(role)) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({ success: false, error: `role must be one of: ${ROLES.join(', ')}` }),
+      };
+    }
+
+    const previous = await sql`SELECT daily_limit_usd, monthly_limit_usd FROM ai_quotas WHERE role = ${role}`;
+    const before = previous[0]
+      ? { daily_limit_usd: previous[0].daily_limit_usd, monthly_limit_usd: previous[0].monthly_limit_usd }
+      : { default: true };
+
+    if (event.httpMethod === 'DELETE') {
+      await sql`DELETE FROM ai_quotas WHERE role = ${role}`;
+      await recordAdminAudit(sql, auth, event, {
+        action: 'ai_quota.reset',
+        targetType: 'ai_quota',
+        targetId: role,
+        before,
+        after: { default: true },
+      });
+      return {
+        statusCode: 200,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          success: true,
+          role,
+          daily_limit_usd: DEFAULT_AI_QUOTAS[role].dailyLimitUsd,
+          monthly_limit_usd: DEFAULT_AI_QUOTAS[role].monthlyLimitUsd,
+        }),
+      };
+    }
+
+    const daily = parseLimit(body.daily_limit_usd);
+    const monthly = parseLimit(body.monthly_limit_usd);
+    if (daily === undefined || monthly === undefined) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          success: false,
+          error: `Limits must be null (unlimited) or an amount in USD from 0 to ${MAX_LIMIT_USD}`,
+        }),
+      };
+    }
+
+    await sql`
+      INSERT INTO ai_quotas (role, daily_limit_usd, monthly_limit_usd, updated_at)
+      VALUES (${role}, ${daily}, ${monthly}, NOW())
+      ON CONFLICT (role) DO UPDATE SET
+        daily_limit_usd = EXCLUDED.daily_limit_usd,
+        monthly_limit_usd = EXCLUDED.monthly_limit_usd,
+        updated_at = NOW()
+    `;
+    await recordAdminAudit(sql, auth, event, {
+      action: 'ai_quota.update',
+      targetType: 'ai_quota',
+      targetId: role,
+      before,
+      after: { daily_limit_usd: daily, monthly_limit_usd: monthly },
+    });
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: true, role, daily_limit_usd: daily, monthly_limit_usd: monthly }),
+    };
+  } catch (error) {
+    console.error('admin-ai-usage error:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: false, error: 'Internal server error' }),
+    };
+  }
+});
@@ -0,0 +1,150 @@
+import { Handler } from '@netlify/functions';
+import { neon } from '@neondatabase/serverless';
+import { withAuth } from './lib/auth';
+
+/**
+ * Admin audit log search (admin_audit_log; see lib/admin-audit).
+ *
+ * GET ?student= (school ID, username, email or name of an affected student; or the target label)
+ *     &user_id= (exact affected student id) &admin= (actor email) &action= (exact, or a prefix
+ *     ending in '.') &from=YYYY-MM-DD &to=YYYY-MM-DD &page= &limit=
+ *   → { entries, actions, admins, pagination }
+ */
+
+const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const handler: Handler = withAuth({ roles: ['admin'], headers: corsHeaders }, async (event) => {
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  const databaseUrl = process.env.NEON_DATABASE_URL;
+  if (!databaseUrl) {
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: false, error: 'Database configuration error' }),
+    };
+  }
+
+  const sql = neon(databaseUrl);
+
+  try {
+    const q = event.queryStringParameters || {};
+    const student = (q.student || '').trim() || null;
+    const userId = q.user_id && UUID_RE.test(q.user_id) ? q.user_id : null;
+    const admin = (q.admin || '').trim() || null;
+    const action = (q.action || '').trim() || null;
+    const from = q.from && DATE_RE.test(q.from) ? q.from : null;
+    const to = q.to && DATE_RE.test(q.to) ? q.to : null;
+    const page = Math.max(1, parseInt(q.page || '1', 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(q.limit || '50', 10) || 50));
+    const offset = (page - 1) * limit;
+
+    const studentLike = student ? `%${student}%` : null;
+    const fromLog = () => sql`
+      FROM admin_audit_log a
+      WHERE TRUE
+        ${userId ? sql`AND ${userId}::uuid = ANY(a.target_user_ids)` : sql``}
+        ${studentLike
+          ? sql`AND (
+              a.target_label ILIKE ${studentLike}
+              OR EXISTS (
+                SELECT 1 FROM users s
+                WHERE s.id = ANY(a.target_user_ids)
+                  AND (
+                    s.school_student_id ILIKE ${studentLike}
+                    OR s.username ILIKE ${studentLike}
+                    OR s.email ILIKE ${studentLike}
+                    OR CONCAT_WS(' ', s.first_name, s.last_name) ILIKE ${studentLike}
+                    OR s.nickname ILIKE ${studentLike}
+                  )
+              )
+            )`
+          : sql``}
+        ${admin ? sql`AND a.actor_email ILIKE ${`%${admin}%`}` : sql``}
+        ${action
+          ? action.endsWith('.')
+            ? sql`AND a.action LIKE ${`${action}%`}`
+            : sql`AND a.action = ${action}`
+          : sql``}
+        ${from ? sql`AND a.created_at >= ${from}::date` : sql``}
+        ${to ? sql`AND a.created_at < ${to}::date + INTERVAL '1 day'` : sql``}
+    `;
+
+    const [rows, countRows, actionRows, adminRows] = await Promise.all([
+      sql`
+        SELECT
+          a.id::text AS id,
+          a.created_at,
+          a.actor_user_id::text AS actor_user_id,
+          a.actor_email,
+          a.actor_role,
+          a.action,
+          a.target_type,
+          a.target_id,
+          a.target_label,
+          a.before_snapshot,
+          a.after_snapshot,
+          a.notes,
+          a.request_metadata,
+          COALESCE(
+            (
+              SELECT jsonb_agg(jsonb_build_object(
+                'id', t.id::text,
+                'label', COALESCE(t.school_student_id, t.username, t.email)
+              ))
+              FROM unnest(a.target_user_ids) AS tid
+              LEFT JOIN users t ON t.id = tid
+              WHERE t.id IS NOT NULL
+            ),
+            '[]'::jsonb
+          ) AS target_users,
+          cardinality(a.target_user_ids) AS target_user_count
+        ${fromLog()}
+        ORDER BY a.created_at DESC, a.id DESC
+        LIMIT ${limit} OFFSET ${offset}
+      `,
+      sql`SELECT COUNT(*)::int AS total ${fromLog()}`,
+      sql`SELECT DISTINCT action FROM admin_audit_log ORDER BY action`,
+      sql`
+        SELECT DISTINCT actor_email FROM admin_audit_log
+        WHERE actor_email IS NOT NULL
+        ORDER BY actor_email
+      `,
+    ]);
+
+    const total = (countRows as Array<{ total: number }>)[0]?.total || 0;
+    const totalPages = Math.max(1, Math.ceil(total / limit));
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        success: true,
+        entries: rows,
+        actions: (actionRows as Array<{ action: string }>).map((r) => r.action),
+        admins: (adminRows as Array<{ actor_email: string }>).map((r) => r.actor_email),
+        pagination: { page, limit, total, totalPages, hasNext: page < totalPages, hasPrev: page > 1 },
+      }),
+    };
+  } catch (error) {
+    console.error('admin-audit-log error:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: false, error: 'Internal server error' }),
+    };
+  }
+});
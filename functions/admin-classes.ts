@@ -0,0 +1,416 @@
+import { Handler } from '@netlify/functions'
+import { neon } from '@neondatabase/serverless'
+import { recordAdminAudit, type AdminAuditEntry } from './lib/admin-audit.js'
+import { withAuth } from './lib/auth.js'
+import {
+  buildRosterCsv,
+  canAccessClass,
+  staffClassIds,
+  staffIdentity,
+  type RosterCsvRow,
+} from './lib/classes.js'
+import { buildClassMistakeReport, syncMistakeNotebook, type ClassMistakeRow } from './lib/mistake-notebook.js'
+import { CEFR_LEVELS, parseStudentIdList, resolveStudentUsers } from './lib/platform-lesson-assignments.js'
+
+/**
+ * Classes and rosters (see lib/classes).
+ *
+ * GET                      → { classes } visible to the caller (teachers: own classes only)
+ * GET ?id=                 → { class, teachers, students, lesson_ids }
+ * GET ?id=&format=csv      → roster CSV (ID, Nick, Honorific, First name, Last name)
+ * GET ?id=&report=mistakes → { class, patterns, students } from the students' mistake notebooks
+ * POST { action, ... }
+ *   save_class     (admin)  { id?, name, school?, term?, cefr_level?, active? }
+ *   set_teachers   (admin)  { class_id, teachers: "email or username, …" } — 'user' accounts become 'teacher'
+ *   add_students            { class_id, student_ids: "52439, 52440 …" } (school IDs or user UUIDs)
+ *   remove_student          { class_id, user_id }
+ *   set_lessons             { class_id, student_lesson_ids: string[] }
+ * DELETE { id }     (admin)  removes the class; students and their progress are untouched
+ */
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Content-Type': 'application/json',
+}
+
+export const handler: Handler = withAuth({ roles: ['admin', 'teacher'], headers }, async (event, _context, auth) => {
+
+  const databaseUrl = process.env.NEON_DATABASE_URL
+  if (!databaseUrl) {
+    return { statusCode: 500, headers, body: JSON.stringify({ success: false, error: 'Database configuration error' }) } as any
+  }
+
+  const sql = neon(databaseUrl)
+  const staff = staffIdentity(auth)
+  const forbidden = (error: string) =>
+    ({ statusCode: 403, headers, body: JSON.stringify({ success: false, error, code: 'forbidden' }) }) as any
+  const badRequest = (error: string) =>
+    ({ statusCode: 400, headers, body: JSON.stringify({ success: false, error }) }) as any
+  const audit = (entry: AdminAuditEntry) => recordAdminAudit(sql, staff, event, entry)
+
+  try {
+    const scope = await staffClassIds(sql, staff)
+
+    if (event.httpMethod === 'GET') {
+      const classId = event.queryStringParameters?.id?.trim() || ''
+
+      if (!classId) {
+        const classes = await sql`
+          SELECT
+            c.id::text as id,
+            c.name,
+            c.school,
+            c.term,
+            c.cefr_level,
+            c.active,
+            (SELECT COUNT(*)::int FROM class_students cs WHERE cs.class_id = c.id) as student_count,
+            (SELECT COUNT(*)::int FROM class_student_lessons csl WHERE csl.class_id = c.id) as lesson_count,
+            COALESCE(
+              (
+                SELECT json_agg(json_build_object('id', u.id::text, 'email', u.email, 'name', TRIM(CONCAT(u.first_name, ' ', u.last_name))) ORDER BY u.email)
+                FROM class_teachers ct
+                JOIN users u ON u.id = ct.teacher_user_id
+                WHERE ct.class_id = c.id
+              ),
+              '[]'::json
+            ) as teachers
+          FROM classes c
+          WHERE ${scope === null ? sql`TRUE` : sql`c.id = ANY(${scope}::uuid[])`}
+          ORDER BY c.active DESC, c.school ASC, c.term DESC, c.name ASC
+        `
+        return {
+          statusCode: 200,
+          headers,
+          body: JSON.stringify({ success: true, role: staff.role, classes }),
+        } as any
+      }
+
+      if (!UUID_RE.test(classId)) return badRequest('Invalid class id')
+      if (!canAccessClass(scope, classId)) return forbidden('Not your class')
+
+      const classRows = await sql`
+        SELECT id::text as id, name, school, term, cefr_level, active
+        FROM classes WHERE id = ${classId}::uuid
+      `
+      if (classRows.length === 0) {
+        return { statusCode: 404, headers, body: JSON.stringify({ success: false, error: 'Class not found' }) } as any
+      }
+
+      const students = await sql`
+        SELECT
+          u.id::text as id,
+          u.school_student_id,
+          u.nickname,
+          u.honorific,
+          u.first_name,
+          u.last_name,
+          cs.added_at
+        FROM class_students cs
+        JOIN users u ON u.id = cs.user_id
+        WHERE cs.class_id = ${classId}::uuid
+        ORDER BY u.school_student_id ASC NULLS LAST, u.nickname ASC
+      `
+
+      if (event.queryStringParameters?.format === 'csv') {
+        const cls = classRows[0] as { name: string }
+        const filename = `roster-${cls.name.replace(/[^\w.-]+/g, '_')}.csv`
+        return {
+          statusCode: 200,
+          headers: {
+            ...headers,
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${filename}"`,
+          },
+          body: buildRosterCsv(students as RosterCsvRow[]),
+        } as any
+      }
+
+      if (event.queryStringParameters?.report === 'mistakes') {
+        const studentIds = (students as Array<{ id: string }>).map((s) => s.id)
+        await syncMistakeNotebook(sql, studentIds)
+        const mistakeRows = await sql`
+          SELECT user_id::text as user_id, kind, pattern_key, mistake, correction, occurrences, resolved_at
+          FROM student_mistakes
+          WHERE user_id = ANY(${studentIds}::uuid[])
+        `
+        const report = buildClassMistakeReport(mistakeRows as ClassMistakeRow[], studentIds)
+        const byId = new Map((students as Array<Record<string, unknown>>).map((s) => [s.id as string, s]))
+        return {
+          statusCode: 200,
+          headers,
+          body: JSON.stringify({
+            success: true,
+            class: classRows[0],
+            patterns: report.patterns,
+            students: report.students.map((s) => ({ ...byId.get(s.user_id), ...s })),
+          }),
+        } as any
+      }
+
+      const teachers = await sql`
+        SELECT u.id::text as id, u.email, u.username, u.first_name, u.last_name
+        FROM class_teachers ct
+        JOIN users u ON u.id = ct.teacher_user_id
+        WHERE ct.class_id = ${classId}::uuid
+        ORDER BY u.email ASC
+      `
+      const lessonRows = await sql`
+        SELECT student_lesson_id::text as id FROM class_student_lessons WHERE class_id = ${classId}::uuid
+      `
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          role: staff.role,
+          class: classRows[0],
+          teachers,
+          students,
+          lesson_ids: (lessonRows as Array<{ id: string }>).map((r) => r.id),
+        }),
+      } as any
+    }
+
+    if (event.httpMethod === 'POST') {
+      let body: Record<string, any> = {}
+      try {
+        body = event.body ? JSON.parse(event.body) : {}
+      } catch {
+        return badRequest('Invalid JSON body')
+      }
+      const action = typeof body.action === 'string' ? body.action : ''
+
+      if (action === 'save_class') {
+        if (staff.role !== 'admin') return forbidden('Only admins can edit classes')
+        const name = typeof body.name === 'string' ? body.name.trim() : ''
+        const school = typeof body.school === 'string' ? body.school.trim() : ''
+        const term = typeof body.term === 'string' ? body.term.trim() : ''
+        const cefrLevel =
+          typeof body.cefr_level === 'string' && body.cefr_level.trim() ? body.cefr_level.trim() : null
+        const active = body.active !== false
+        if (!name) return badRequest('name is required')
+        if (cefrLevel && !(CEFR_LEVELS as readonly string[]).includes(cefrLevel)) {
+          return badRequest(`cefr_level must be one of ${CEFR_LEVELS.join(', ')}`)
+        }
+
+        const id = typeof body.id === 'string' ? body.id.trim() : ''
+        if (id && !UUID_RE.test(id)) return badRequest('Invalid class id')
+        const conflict = await sql`
+          SELECT id FROM classes
+          WHERE school = ${school} AND term = ${term} AND name = ${name}
+            ${id ? sql`AND id <> ${id}::uuid` : sql``}
+          LIMIT 1
+        `
+        if (conflict.length > 0) {
+          return {
+            statusCode: 409,
+            headers,
+            body: JSON.stringify({ success: false, error: 'A class with this name already exists for that school and term' }),
+          } as any
+        }
+
+        const previous = id
+          ? await sql`SELECT id::text as id, name, school, term, cefr_level, active FROM classes WHERE id = ${id}::uuid`
+          : []
+        const saved = id
+          ? await sql`
+              UPDATE classes
+              SET name = ${name}, school = ${school}, term = ${term}, cefr_level = ${cefrLevel},
+                  active = ${active}, updated_at = NOW()
+              WHERE id = ${id}::uuid
+              RETURNING id::text as id, name, school, term, cefr_level, active
+            `
+          : await sql`
+              INSERT INTO classes (name, school, term, cefr_level, active, created_by)
+              VALUES (${name}, ${school}, ${term}, ${cefrLevel}, ${active}, ${staff.userId})
+              RETURNING id::text as id, name, school, term, cefr_level, active
+            `
+        if (saved.length === 0) {
+          return { statusCode: 404, headers, body: JSON.stringify({ success: false, error: 'Class not found' }) } as any
+        }
+        await audit({
+          action: id ? 'class.update' : 'class.create',
+          targetType: 'class',
+          targetId: saved[0].id,
+          targetLabel: name,
+          before: previous[0] ?? null,
+          after: saved[0],
+        })
+        return { statusCode: 200, headers, body: JSON.stringify({ success: true, class: saved[0] }) } as any
+      }
+
+      const classId = typeof body.class_id === 'string' ? body.class_id.trim() : ''
+      if (!UUID_RE.test(classId)) return badRequest('class_id is required')
+      if (!canAccessClass(scope, classId)) return forbidden('Not your class')
+      const exists = await sql`SELECT name FROM classes WHERE id = ${classId}::uuid`
+      if (exists.length === 0) {
+        return { statusCode: 404, headers, body: JSON.stringify({ success: false, error: 'Class not found' }) } as any
+      }
+      const classTarget = { targetType: 'class', targetId: classId, targetLabel: String(exists[0].name) }
+
+      if (action === 'set_teachers') {
+        if (staff.role !== 'admin') return forbidden('Only admins can assign teachers')
+        const tokens = parseStudentIdList(typeof body.teachers === 'string' ? body.teachers : '')
+        const teacherIds: string[] = []
+        const invalid: string[] = []
+        for (const token of tokens) {
+          const rows = await sql`
+            SELECT id::text as id, role FROM users
+            WHERE LOWER(email) = LOWER(${token}) OR username = ${token}
+            LIMIT 1
+          `
+          const user = rows[0] as { id: string; role: string } | undefined
+          if (!user || user.role === 'student') {
+            invalid.push(token)
+            continue
+          }
+          if (user.role === 'user') {
+            await sql`UPDATE users SET role = 'teacher', updated_at = NOW() WHERE id = ${user.id}::uuid`
+          }
+          teacherIds.push(user.id)
+        }
+        if (invalid.length > 0) {
+          return {
+            statusCode: 400,
+            headers,
+            body: JSON.stringify({ success: false, error: `Not a staff account: ${invalid.join(', ')}`, invalid }),
+          } as any
+        }
+        const previousTeachers = await sql`
+          SELECT teacher_user_id::text AS id FROM class_teachers WHERE class_id = ${classId}::uuid
+        `
+        await sql`
+          DELETE FROM class_teachers
+          WHERE class_id = ${classId}::uuid AND NOT (teacher_user_id = ANY(${teacherIds}::uuid[]))
+        `
+        for (const teacherId of teacherIds) {
+          await sql`
+            INSERT INTO class_teachers (class_id, teacher_user_id)
+            VALUES (${classId}::uuid, ${teacherId}::uuid)
+            ON CONFLICT DO NOTHING
+          `
+        }
+        await audit({
+          ...classTarget,
+          action: 'class.set_teachers',
+          before: { teacher_user_ids: (previousTeachers as Array<{ id: string }>).map((t) => t.id) },
+          after: { teacher_user_ids: teacherIds },
+        })
+        return { statusCode: 200, headers, body: JSON.stringify({ success: true, teacher_count: teacherIds.length }) } as any
+      }
+
+      if (action === 'add_students') {
+        const ids = parseStudentIdList(typeof body.student_ids === 'string' ? body.student_ids : '')
+        if (ids.length === 0) return badRequest('student_ids is required')
+        const { users, notFound } = await resolveStudentUsers(sql, ids)
+        let added = 0
+        for (const u of users) {
+          const inserted = await sql`
+            INSERT INTO class_students (class_id, user_id, added_by)
+            VALUES (${classId}::uuid, ${u.id}::uuid, ${staff.userId})
+            ON CONFLICT DO NOTHING
+            RETURNING user_id
+          `
+          added += inserted.length
+        }
+        if (users.length > 0) {
+          await audit({
+            ...classTarget,
+            action: 'class.add_students',
+            targetUserIds: users.map((u) => u.id),
+            after: { added, not_found: notFound },
+          })
+        }
+        return {
+          statusCode: 200,
+          headers,
+          body: JSON.stringify({ success: true, added, already_in_class: users.length - added, not_found: notFound }),
+        } as any
+      }
+
+      if (action === 'remove_student') {
+        const userId = typeof body.user_id === 'string' ? body.user_id.trim() : ''
+        if (!UUID_RE.test(userId)) return badRequest('user_id is required')
+        const removed = await sql`
+          DELETE FROM class_students WHERE class_id = ${classId}::uuid AND user_id = ${userId}::uuid
+          RETURNING user_id
+        `
+        if (removed.length > 0) {
+          await audit({ ...classTarget, action: 'class.remove_student', targetUserIds: [userId] })
+        }
+        return { statusCode: 200, headers, body: JSON.stringify({ success: true }) } as any
+      }
+
+      if (action === 'set_lessons') {
+        const lessonIds: string[] = Array.isArray(body.student_lesson_ids)
+          ? [...new Set((body.student_lesson_ids as unknown[]).filter((id): id is string => typeof id === 'string' && UUID_RE.test(id)))]
+          : []
+        const previousLessons = await sql`
+          SELECT student_lesson_id::text AS id FROM class_student_lessons WHERE class_id = ${classId}::uuid
+        `
+        await sql`
+          DELETE FROM class_student_lessons
+          WHERE class_id = ${classId}::uuid AND NOT (student_lesson_id = ANY(${lessonIds}::uuid[]))
+        `
+        for (const lessonId of lessonIds) {
+          await sql`
+            INSERT INTO class_student_lessons (class_id, student_lesson_id, assigned_by)
+            SELECT ${classId}::uuid, sl.id, ${staff.userId}
+            FROM student_lessons sl WHERE sl.id = ${lessonId}::uuid
+            ON CONFLICT DO NOTHING
+          `
+        }
+        await audit({
+          ...classTarget,
+          action: 'class.set_lessons',
+          before: { student_lesson_ids: (previousLessons as Array<{ id: string }>).map((l) => l.id) },
+          after: { student_lesson_ids: lessonIds },
+        })
+        return { statusCode: 200, headers, body: JSON.stringify({ success: true, lesson_count: lessonIds.length }) } as any
+      }
+
+      return badRequest('Unknown action')
+    }
+
+    if (event.httpMethod === 'DELETE') {
+      if (staff.role !== 'admin') return forbidden('Only admins can delete classes')
+      let body: { id?: string } = {}
+      try {
+        body = event.body ? JSON.parse(event.body) : {}
+      } catch {
+        return badRequest('Invalid JSON body')
+      }
+      const id = typeof body.id === 'string' ? body.id.trim() : ''
+      if (!UUID_RE.test(id)) return badRequest('id is required')
+      const deleted = await sql`
+        DELETE FROM classes WHERE id = ${id}::uuid
+        RETURNING id::text as id, name, school, term, cefr_level, active
+      `
+      if (deleted.length) {
+        await audit({
+          action: 'class.delete',
+          targetType: 'class',
+          targetId: id,
+          targetLabel: deleted[0].name,
+          before: deleted[0],
+          after: null,
+        })
+      }
+      return {
+        statusCode: deleted.length ? 200 : 404,
+        headers,
+        body: JSON.stringify(deleted.length ? { success: true } : { success: false, error: 'Class not found' }),
+      } as any
+    }
+
+    return { statusCode: 405, headers, body: JSON.stringify({ success: false, error: 'Method not allowed' }) } as any
+  } catch (e) {
+    console.error('admin-classes error', e)
+    return { statusCode: 500, headers, body: JSON.stringify({ success: false, error: (e as Error).message }) } as any
+  }
+})
@@ -1,74 +1,18 @@
 import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
-
-// Admin authentication middleware
-async function authenticateAdmin(event: any): Promise<boolean> {
-  try {
-    let token = null;
-
-    // Try Authorization header first
-    const authHeader = event.headers?.authorization || event.headers?.Authorization;
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      token = authHeader.substring(7);
-      console.log('Admin-delete-user auth: Token from Authorization header');
-    } else {
-      // Fall back to cookie (check both lowercase and uppercase)
-      const cookies = event.headers?.cookie || event.headers?.Cookie || '';
-      console.log('Admin-delete-user auth: Cookies received:', cookies ? 'yes' : 'no', cookies.substring(0, 100));
-      const cookieArray = cookies.split(';');
-      const tokenCookie = cookieArray.find((c: string) => c.trim().startsWith('admin_token='));
-
-      if (tokenCookie) {
-        token = tokenCookie.split('=')[1];
-        console.log('Admin-delete-user auth: Token found in cookie, length:', token?.length);
-      } else {
-        console.log('Admin-delete-user auth: No admin_token cookie found. Available cookies:', cookieArray.map((c: string) => c.trim().split('=')[0]));
-      }
-    }
-
-    if (!token) {
-      console.log('Admin-delete-user auth: No token found');
-      return false;
-    }
-
-    const jwt = await import('jsonwebtoken');
-    const jwtSecret = process.env.JWT_SECRET;
-    console.log('Admin-delete-user auth: JWT secret configured:', !!jwtSecret);
-    if (!jwtSecret) {
-      console.log('Admin-delete-user auth: No JWT secret configured');
-      return false;
-    }
-
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    const isAdmin = decoded.role === 'admin';
-    console.log('Admin-delete-user auth: User role:', decoded.role, 'Is admin:', isAdmin);
-    return isAdmin;
-  } catch (error) {
-    console.error('Admin-delete-user auth: Authentication error:', error);
-    return false;
-  }
+import { recordAdminAudit } from './lib/admin-audit.js';
+import { withAuth } from './lib/auth.js';
+
+// CORS headers
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
 }
 
-const handler: Handler = async (event, context) => {
+const handler: Handler = withAuth({ roles: ['admin'], headers }, async (event, context, auth) => {
   console.log('Admin-delete-user: Function invoked with method:', event.httpMethod);
 
-  // CORS headers
-  const headers = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  }
-
-  // Handle preflight requests
-  if (event.httpMethod === 'OPTIONS') {
-    console.log('Admin-delete-user: Handling OPTIONS preflight request');
-    return {
-      statusCode: 200,
-      headers,
-      body: '',
-    } as any;
-  }
-
   // Only allow DELETE requests
   if (event.httpMethod !== 'DELETE') {
     console.log('Admin-delete-user: Method not allowed:', event.httpMethod);
@@ -80,16 +24,6 @@ const handler: Handler = async (event, context) => {
   }
 
   console.log('Admin-delete-user: Processing DELETE request');
-  // Check admin authentication
-  const isAdmin = await authenticateAdmin(event);
-  console.log('Admin-delete-user: Authentication result:', isAdmin);
-
-  if (!isAdmin) {
-    console.log('Admin-delete-user: Authentication failed, returning 401');
-    // Removed duplicate auth check - already authenticated via cookies above
-  }
-
-  console.log('Admin-delete-user: Authentication successful, proceeding with delete');
 
   try {
     console.log('Admin-delete-user: Starting database operations');
@@ -130,7 +64,8 @@ const handler: Handler = async (event, context) => {
     // Check if user exists
     console.log('Admin-delete-user: Querying database for user:', userId);
     const userCheck = await sql`
-      SELECT id, email, username FROM users WHERE id = ${userId}
+      SELECT id, email, username, first_name, last_name, role, level, school_student_id, created_at
+      FROM users WHERE id = ${userId}
     `;
     console.log('Admin-delete-user: User query result:', userCheck.length, 'records found');
 
@@ -183,6 +118,16 @@ const handler: Handler = async (event, context) => {
 
     console.log(`Admin deleted user: ${user.email} (${user.username})`);
 
+    await recordAdminAudit(sql, auth, event, {
+      action: 'user.delete',
+      targetType: 'user',
+      targetId: user.id,
+      targetLabel: user.email,
+      targetUserIds: [user.id],
+      before: user,
+      after: null,
+    });
+
     return {
       statusCode: 200,
       headers: { ...headers, 'Content-Type': 'application/json' },
@@ -205,6 +150,6 @@ const handler: Handler = async (event, context) => {
       body: JSON.stringify({ success: false, error: 'Failed to delete user' })
     } as any;
   }
-};
+});
 
 export { handler };
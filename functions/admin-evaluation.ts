@@ -1,58 +1,21 @@
 import { Handler } from '@netlify/functions'
 import { neon } from '@neondatabase/serverless'
+import { recordAdminAudit } from './lib/admin-audit.js'
+import { withAuth } from './lib/auth.js'
+import { analyzeItems, ITEM_ANALYSIS_THRESHOLDS, type ItemAnalysisResult } from './lib/item-analysis.js'
 
-// Admin authentication middleware
-async function authenticateAdmin(event: any): Promise<boolean> {
-  try {
-    const cookies = event.headers?.cookie || '';
-    const cookieArray = cookies.split(';');
-    const tokenCookie = cookieArray.find((c: string) => c.trim().startsWith('admin_token='));
-
-    if (!tokenCookie) return false;
-
-    const token = tokenCookie.split('=')[1];
-
-    const jwt = await import('jsonwebtoken');
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) return false;
+// Most recent submissions used for item analysis
+const ITEM_ANALYSIS_MAX_RESULTS = 2000
 
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    return decoded.role === 'admin';
-  } catch (error) {
-    return false;
-  }
+// CORS headers
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
 }
 
-export const handler: Handler = async (event) => {
-  // CORS headers
-  const headers = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  }
-
-  // Handle preflight requests
-  if (event.httpMethod === 'OPTIONS') {
-    return {
-      statusCode: 200,
-      headers,
-      body: '',
-    }
-  }
-
+export const handler: Handler = withAuth({ roles: ['admin'], headers }, async (event, _context, auth) => {
   try {
-    // Check admin authentication
-    const isAdmin = await authenticateAdmin(event);
-    if (!isAdmin) {
-      return {
-        statusCode: 401,
-        headers,
-        body: JSON.stringify({
-          success: false,
-          error: 'Admin authentication required'
-        }),
-      }
-    }
 
     // Get database connection
     const databaseUrl = process.env.NEON_DATABASE_URL;
@@ -82,6 +45,65 @@ export const handler: Handler = async (event) => {
       }
     }
 
+    if (event.httpMethod === 'GET' && event.queryStringParameters?.item_analysis) {
+      const testId = event.queryStringParameters?.id || 'EVAL-1'
+      const tests = await sql`SELECT questions FROM evaluation_test WHERE id = ${testId}`
+      if (tests.length === 0) {
+        return {
+          statusCode: 404,
+          headers,
+          body: JSON.stringify({
+            success: false,
+            error: 'Evaluation test not found'
+          }),
+        }
+      }
+      const rows = await sql`
+        SELECT question_results->'answers' AS answers, overall_percentage, calculated_level
+        FROM evaluation_results
+        WHERE test_id = ${testId}
+        ORDER BY completed_at DESC NULLS LAST
+        LIMIT ${ITEM_ANALYSIS_MAX_RESULTS}
+      `
+      const questions = Array.isArray(tests[0].questions) ? tests[0].questions : []
+      const report = analyzeItems(questions, rows as ItemAnalysisResult[])
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          test_id: testId,
+          thresholds: ITEM_ANALYSIS_THRESHOLDS,
+          ...report
+        }),
+      }
+    }
+
+    if (event.httpMethod === 'GET' && event.queryStringParameters?.results) {
+      // Recent submissions with the adaptive path (question_results.adaptive) for the results page
+      const limit = Math.min(Math.max(parseInt(event.queryStringParameters?.limit || '50', 10) || 50, 1), 200)
+      const results = await sql`
+        SELECT er.id, er.user_id, er.calculated_level, er.overall_score, er.max_score,
+               er.overall_percentage, er.completed_at,
+               er.question_results->'adaptive' AS adaptive,
+               u.nickname, u.school_student_id, u.email
+        FROM evaluation_results er
+        LEFT JOIN users u ON u.id = er.user_id
+        ORDER BY er.completed_at DESC NULLS LAST
+        LIMIT ${limit}
+      `;
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          results
+        }),
+      }
+    }
+
     if (event.httpMethod === 'GET') {
       // Check if specific test ID is requested
       const testId = event.queryStringParameters?.id
@@ -143,7 +165,7 @@ export const handler: Handler = async (event) => {
         }
       }
 
-      const { id, test_name, test_type, description, passing_score, allowed_time, is_active, questions } = test
+      const { id, test_name, test_type, description, passing_score, allowed_time, is_active, adaptive, questions } = test
 
       if (!test_name || !questions) {
         return {
@@ -156,6 +178,13 @@ export const handler: Handler = async (event) => {
         }
       }
 
+      const previous = await sql`
+        SELECT id, test_name, test_type, passing_score, allowed_time, is_active, adaptive,
+               CASE WHEN jsonb_typeof(questions::jsonb) = 'array' THEN jsonb_array_length(questions::jsonb) END AS question_count
+        FROM evaluation_test
+        WHERE id = ${id || 'EVAL-1'}
+      `
+
       let result
 
       if (id) {
@@ -168,6 +197,7 @@ export const handler: Handler = async (event) => {
             passing_score = ${passing_score || 60},
             allowed_time = ${allowed_time || 45},
             is_active = ${is_active !== undefined ? is_active : true},
+            adaptive = ${adaptive === true},
             questions = ${JSON.stringify(questions)},
             updated_at = NOW()
           WHERE id = ${id}
@@ -197,6 +227,7 @@ export const handler: Handler = async (event) => {
             passing_score,
             allowed_time,
             is_active,
+            adaptive,
             questions
           ) VALUES (
             'EVAL-1',
@@ -206,6 +237,7 @@ export const handler: Handler = async (event) => {
             ${passing_score || 60},
             ${allowed_time || 45},
             ${is_active !== undefined ? is_active : true},
+            ${adaptive === true},
             ${JSON.stringify(questions)}
           )
           ON CONFLICT (id) DO UPDATE SET
@@ -215,6 +247,7 @@ export const handler: Handler = async (event) => {
             passing_score = EXCLUDED.passing_score,
             allowed_time = EXCLUDED.allowed_time,
             is_active = EXCLUDED.is_active,
+            adaptive = EXCLUDED.adaptive,
             questions = EXCLUDED.questions,
             updated_at = NOW()
           RETURNING *
@@ -223,6 +256,24 @@ export const handler: Handler = async (event) => {
         result = insertResult
       }
 
+      const saved = result[0]
+      await recordAdminAudit(sql, auth, event, {
+        action: 'evaluation_test.save',
+        targetType: 'evaluation_test',
+        targetId: saved?.id ?? id ?? null,
+        targetLabel: test_name,
+        before: previous[0] ?? null,
+        after: {
+          test_name,
+          test_type: saved?.test_type,
+          passing_score: saved?.passing_score,
+          allowed_time: saved?.allowed_time,
+          is_active: saved?.is_active,
+          adaptive: saved?.adaptive,
+          question_count: Array.isArray(questions) ? questions.length : null,
+        },
+      })
+
       return {
         statusCode: 200,
         headers,
@@ -253,4 +304,4 @@ export const handler: Handler = async (event) => {
       }),
     }
   }
-}
+})
@@ -1,20 +1,16 @@
 import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
 import { getHeaders } from './cors-headers';
+import { withAuth } from './lib/auth.js';
 import {
-  authenticateAdminPhotos,
-  classLabelForSchoolId,
   LESSON_4_SLUG,
   resolveSuperheroPhotoFromAnswers,
 } from './admin-superhero-photos-shared.js';
+import { classesByUserId } from './lib/classes.js';
 
-export const handler: Handler = async (event) => {
+export const handler: Handler = withAuth({ roles: ['admin'], headers: (event) => getHeaders(event, false) }, async (event) => {
   const headers = getHeaders(event, false);
 
-  if (event.httpMethod === 'OPTIONS') {
-    return { statusCode: 200, headers, body: '' };
-  }
-
   if (event.httpMethod !== 'GET') {
     return {
       statusCode: 405,
@@ -23,14 +19,6 @@ export const handler: Handler = async (event) => {
     };
   }
 
-  if (!(await authenticateAdminPhotos(event))) {
-    return {
-      statusCode: 401,
-      headers: { ...headers, 'Content-Type': 'application/json' },
-      body: JSON.stringify({ success: false, error: 'Admin authentication required' }),
-    };
-  }
-
   const databaseUrl = process.env.NEON_DATABASE_URL;
   if (!databaseUrl) {
     return {
@@ -58,6 +46,11 @@ export const handler: Handler = async (event) => {
       ORDER BY sar.user_id, sar.completed_at DESC NULLS LAST
     `;
 
+    const classesByUser = await classesByUserId(
+      sql,
+      (rows as Array<{ user_id: string }>).map((r) => r.user_id)
+    );
+
     const photos = (
       await Promise.all(
         (rows as Array<{
@@ -78,7 +71,7 @@ export const handler: Handler = async (event) => {
             user_id: row.user_id,
             school_student_id: sid,
             nickname: row.nickname ? String(row.nickname) : '',
-            class: classLabelForSchoolId(sid),
+            class: classesByUser.get(row.user_id)?.[0]?.name ?? null,
             ...photo,
           };
         })
@@ -107,4 +100,4 @@ export const handler: Handler = async (event) => {
       }),
     };
   }
-};
+});
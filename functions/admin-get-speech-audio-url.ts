@@ -6,46 +6,23 @@
  */
 import { Handler } from '@netlify/functions';
 import { createClient } from '@supabase/supabase-js';
+import { withAuth } from './lib/auth.js';
 
 const SUPABASE_BUCKET = 'tutorcat';
 const AUDIO_EXTENSIONS = ['.webm', '.mp4', '.ogg', '.m4a'];
 const SIGNED_URL_EXPIRES_SEC = 3600; // 1 hour
 
-async function authenticateAdmin(event: any): Promise<boolean> {
-  try {
-    const cookies = event.headers?.cookie || '';
-    const tokenCookie = cookies.split(';').find((c: string) => c.trim().startsWith('admin_token='));
-    if (!tokenCookie) return false;
-    const token = tokenCookie.split('=')[1];
-    const jwt = await import('jsonwebtoken');
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) return false;
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    return decoded.role === 'admin';
-  } catch {
-    return false;
-  }
-}
-
-export const handler: Handler = async (event) => {
-  const headers = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    'Access-Control-Allow-Methods': 'GET, OPTIONS',
-  };
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
 
-  if (event.httpMethod === 'OPTIONS') {
-    return { statusCode: 200, headers, body: '' } as any;
-  }
+export const handler: Handler = withAuth({ roles: ['admin'], headers }, async (event) => {
   if (event.httpMethod !== 'GET') {
     return { statusCode: 405, headers, body: JSON.stringify({ success: false, error: 'Method not allowed' }) } as any;
   }
 
-  const isAdmin = await authenticateAdmin(event);
-  if (!isAdmin) {
-    return { statusCode: 401, headers, body: JSON.stringify({ success: false, error: 'Admin authentication required' }) } as any;
-  }
-
   const jobId = event.queryStringParameters?.jobId?.trim();
   if (!jobId) {
     return { statusCode: 400, headers, body: JSON.stringify({ success: false, error: 'Missing jobId' }) } as any;
@@ -88,4 +65,4 @@ export const handler: Handler = async (event) => {
       body: JSON.stringify({ success: false, error: (e as Error).message }),
     } as any;
   }
-};
+});
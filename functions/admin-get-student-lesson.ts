@@ -1,31 +1,12 @@
 import { Handler } from '@netlify/functions'
 import { neon } from '@neondatabase/serverless'
 import { getHeaders } from './cors-headers'
+import { withAuth } from './lib/auth.js'
+import { validateStudentActivity } from '../src/lib/studentActivityContent.js'
 
-async function authenticateAdmin(event: any): Promise<boolean> {
-  try {
-    const cookies = event.headers?.cookie || ''
-    const tokenCookie = cookies
-      .split(';')
-      .find((c: string) => c.trim().startsWith('admin_token='))
-    if (!tokenCookie) return false
-    const token = tokenCookie.split('=')[1]
-    const jwt = await import('jsonwebtoken')
-    const jwtSecret = process.env.JWT_SECRET
-    if (!jwtSecret) return false
-    const decoded = jwt.verify(token, jwtSecret) as any
-    return decoded.role === 'admin'
-  } catch {
-    return false
-  }
-}
-
-export const handler: Handler = async (event) => {
+export const handler: Handler = withAuth({ roles: ['admin'], headers: (event) => getHeaders(event, false) }, async (event) => {
   const headers = getHeaders(event, false)
 
-  if (event.httpMethod === 'OPTIONS') {
-    return { statusCode: 200, headers, body: '' }
-  }
   if (event.httpMethod !== 'GET') {
     return {
       statusCode: 405,
@@ -34,15 +15,6 @@ export const handler: Handler = async (event) => {
     }
   }
 
-  const isAdmin = await authenticateAdmin(event)
-  if (!isAdmin) {
-    return {
-      statusCode: 401,
-      headers: { ...headers, 'Content-Type': 'application/json' },
-      body: JSON.stringify({ success: false, error: 'Admin authentication required' }),
-    }
-  }
-
   const url = new URL(event.rawUrl || `http://localhost${event.path}`)
   const lessonId = url.searchParams.get('lessonId')
   if (!lessonId) {
@@ -135,6 +107,8 @@ export const handler: Handler = async (event) => {
           }
         }
       }
+      const issues = validateStudentActivity(next as { activity_type: string; content: unknown })
+      if (issues.length) next.content_issues = issues
       return next
     })
 
@@ -159,5 +133,5 @@ export const handler: Handler = async (event) => {
       }),
     }
   }
-}
+})
 
@@ -1,19 +1,15 @@
 import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
 import { getHeaders } from './cors-headers';
+import { withAuth } from './lib/auth.js';
 import {
-  authenticateAdminPhotos,
   LESSON_4_SLUG,
   resolveSuperheroPhotoFromAnswers,
 } from './admin-superhero-photos-shared.js';
 
-export const handler: Handler = async (event) => {
+export const handler: Handler = withAuth({ roles: ['admin'], headers: (event) => getHeaders(event, false) }, async (event) => {
   const headers = getHeaders(event, false);
 
-  if (event.httpMethod === 'OPTIONS') {
-    return { statusCode: 200, headers, body: '' };
-  }
-
   if (event.httpMethod !== 'GET') {
     return {
       statusCode: 405,
@@ -22,14 +18,6 @@ export const handler: Handler = async (event) => {
     };
   }
 
-  if (!(await authenticateAdminPhotos(event))) {
-    return {
-      statusCode: 401,
-      headers: { ...headers, 'Content-Type': 'application/json' },
-      body: JSON.stringify({ success: false, error: 'Admin authentication required' }),
-    };
-  }
-
   const userId = event.queryStringParameters?.userId;
   if (!userId) {
     return {
@@ -89,4 +77,4 @@ export const handler: Handler = async (event) => {
       }),
     };
   }
-};
+});
@@ -1,88 +1,30 @@
 import { Handler } from '@netlify/functions'
 import { neon } from '@neondatabase/serverless'
 import { sumEffectiveScores } from './student-lesson-scoring.js'
-
-async function authenticateAdmin(event: any): Promise<boolean> {
-  try {
-    const cookies = event.headers?.cookie || ''
-    const tokenCookie = cookies
-      .split(';')
-      .find((c: string) => c.trim().startsWith('admin_token='))
-    if (!tokenCookie) return false
-    const token = tokenCookie.split('=')[1]
-    const jwt = await import('jsonwebtoken')
-    const jwtSecret = process.env.JWT_SECRET
-    if (!jwtSecret) return false
-    const decoded = jwt.verify(token, jwtSecret) as any
-    return decoded.role === 'admin'
-  } catch {
-    return false
-  }
-}
-
-const CLASS_1_15 = [
-  '52439',
-  '52440',
-  '52441',
-  '52442',
-  '52443',
-  '52444',
-  '52445',
-  '52446',
-  '52447',
-  '52448',
-  '52449',
-  '52450',
-  '52451',
-  '52452',
-  '52453',
-]
-
-const CLASS_1_16 = [
-  '52454',
-  '52455',
-  '52456',
-  '52457',
-  '52458',
-  '52459',
-  '52460',
-  '52461',
-  '52462',
-  '52463',
-  '52464',
-  '52465',
-  '52466',
-  '52467',
-  '52468',
-  '52469',
-  '52470',
-]
-
-function classLabelForSchoolId(sid: string | null | undefined): '1/15' | '1/16' | null {
-  if (!sid) return null
-  if (CLASS_1_15.includes(sid)) return '1/15'
-  if (CLASS_1_16.includes(sid)) return '1/16'
-  return null
+import { withAuth } from './lib/auth.js'
+import { canAccessClass, classesByUserId, staffClassIds, staffIdentity } from './lib/classes.js'
+
+/**
+ * Student track roster with per-lesson scores.
+ *
+ * ?classId= limits to one class. Teachers only ever see students in their own classes;
+ * admins without classId see every student account.
+ */
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Content-Type': 'application/json',
 }
 
-export const handler: Handler = async (event) => {
-  const headers = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    'Access-Control-Allow-Methods': 'GET, OPTIONS',
-    'Content-Type': 'application/json',
-  }
-
-  if (event.httpMethod === 'OPTIONS') return { statusCode: 200, headers, body: '' } as any
+export const handler: Handler = withAuth({ roles: ['admin', 'teacher'], headers }, async (event, _context, auth) => {
   if (event.httpMethod !== 'GET') {
     return { statusCode: 405, headers, body: JSON.stringify({ success: false, error: 'Method not allowed' }) } as any
   }
 
-  const isAdmin = await authenticateAdmin(event)
-  if (!isAdmin) {
-    return { statusCode: 401, headers, body: JSON.stringify({ success: false, error: 'Admin authentication required' }) } as any
-  }
-
   const databaseUrl = process.env.NEON_DATABASE_URL
   if (!databaseUrl) {
     return { statusCode: 500, headers, body: JSON.stringify({ success: false, error: 'Database configuration error' }) } as any
@@ -90,7 +32,17 @@ export const handler: Handler = async (event) => {
 
   try {
     const sql = neon(databaseUrl)
-    const wantedIds = [...CLASS_1_15, ...CLASS_1_16]
+    const staff = staffIdentity(auth)
+
+    const scope = await staffClassIds(sql, staff)
+    const classId = event.queryStringParameters?.classId?.trim() || ''
+    if (classId && !UUID_RE.test(classId)) {
+      return { statusCode: 400, headers, body: JSON.stringify({ success: false, error: 'Invalid classId' }) } as any
+    }
+    if (classId && !canAccessClass(scope, classId)) {
+      return { statusCode: 403, headers, body: JSON.stringify({ success: false, error: 'Not your class', code: 'forbidden' }) } as any
+    }
+    const classFilter = classId ? [classId] : scope
 
     const students = await sql`
       SELECT
@@ -99,8 +51,15 @@ export const handler: Handler = async (event) => {
         u.nickname as nickname
       FROM users u
       WHERE u.role = 'student'
-        AND u.school_student_id = ANY(${wantedIds}::text[])
-      ORDER BY u.school_student_id ASC
+        ${
+          classFilter === null
+            ? sql``
+            : sql`AND EXISTS (
+                SELECT 1 FROM class_students cs
+                WHERE cs.user_id = u.id AND cs.class_id = ANY(${classFilter}::uuid[])
+              )`
+        }
+      ORDER BY u.school_student_id ASC NULLS LAST
     `
 
     const studentIds = students.map((s: any) => s.id).filter(Boolean)
@@ -212,14 +171,19 @@ export const handler: Handler = async (event) => {
       lessonsByUser.set(userId, arr)
     }
 
+    const classesByUser = await classesByUserId(sql, studentIds)
+
     const payload = (students as any[]).map((s) => {
       const sid = s.school_student_id ? String(s.school_student_id) : null
-      const cls = classLabelForSchoolId(sid)
+      const classes = (classesByUser.get(String(s.id)) || []).filter(
+        (c) => classFilter === null || classFilter.includes(c.id)
+      )
       return {
         id: String(s.id),
         school_student_id: sid,
         nickname: s.nickname ? String(s.nickname) : '',
-        class: cls,
+        class: classes[0]?.name ?? null,
+        classes,
         speech_jobs: speechByUser.get(String(s.id)) ?? 0,
         lessons: lessonsByUser.get(String(s.id)) || [],
       }
@@ -230,5 +194,4 @@ export const handler: Handler = async (event) => {
     console.error('admin-get-students error', e)
     return { statusCode: 500, headers, body: JSON.stringify({ success: false, error: (e as Error).message }) } as any
   }
-}
-
+})
@@ -1,55 +1,15 @@
 import { Handler } from '@netlify/functions'
 import { neon } from '@neondatabase/serverless'
+import { withAuth } from './lib/auth.js'
 
-// Admin authentication middleware
-async function authenticateAdmin(event: any): Promise<boolean> {
-  try {
-    let token = null
-
-    // Try Authorization header first
-    const authHeader = event.headers?.authorization || event.headers?.Authorization
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      token = authHeader.substring(7)
-    } else {
-      // Fall back to cookie
-      const cookies = event.headers?.cookie || event.headers?.Cookie || ''
-      const cookieArray = cookies.split(';')
-      const tokenCookie = cookieArray.find((c: string) => c.trim().startsWith('admin_token='))
-
-      if (tokenCookie) {
-        token = tokenCookie.split('=')[1]
-      }
-    }
-
-    if (!token) {
-      return false
-    }
-
-    const jwt = await import('jsonwebtoken')
-    const jwtSecret = process.env.JWT_SECRET
-    if (!jwtSecret) return false
-
-    const decoded = jwt.verify(token, jwtSecret) as any
-    const isAdmin = decoded.role === 'admin'
-    return isAdmin
-  } catch (error) {
-    console.error('Admin authentication error:', error)
-    return false
-  }
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Content-Type': 'application/json',
 }
 
-const handler: Handler = async (event) => {
-  const headers = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    'Access-Control-Allow-Methods': 'GET, OPTIONS',
-    'Content-Type': 'application/json',
-  }
-
-  if (event.httpMethod === 'OPTIONS') {
-    return { statusCode: 200, headers, body: '' }
-  }
-
+const handler: Handler = withAuth({ roles: ['admin'], headers }, async (event) => {
   if (event.httpMethod !== 'GET') {
     return {
       statusCode: 405,
@@ -59,16 +19,6 @@ const handler: Handler = async (event) => {
   }
 
   try {
-    // Authenticate admin
-    const isAdmin = await authenticateAdmin(event)
-    if (!isAdmin) {
-      return {
-        statusCode: 401,
-        headers,
-        body: JSON.stringify({ success: false, error: 'Unauthorized - Admin access required' }),
-      }
-    }
-
     // Get database connection
     const databaseUrl = process.env.NEON_DATABASE_URL
     if (!databaseUrl) {
@@ -202,7 +152,7 @@ const handler: Handler = async (event) => {
       }),
     }
   }
-}
+})
 
 export { handler }
 
@@ -1,51 +1,8 @@
 import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
+import { withAuth } from './lib/auth.js';
 
-// Admin authentication middleware
-async function authenticateAdmin(event: any): Promise<boolean> {
-  try {
-    let token = null;
-
-    // Try Authorization header first
-    const authHeader = event.headers?.authorization || event.headers?.Authorization;
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      token = authHeader.substring(7);
-      console.log('Admin auth: Token from Authorization header');
-    } else {
-      // Fall back to cookie (check both lowercase and uppercase)
-      const cookies = event.headers?.cookie || event.headers?.Cookie || '';
-      console.log('Admin auth: Cookies received:', cookies ? 'yes' : 'no', cookies.substring(0, 100));
-      const cookieArray = cookies.split(';');
-      const tokenCookie = cookieArray.find((c: string) => c.trim().startsWith('admin_token='));
-
-      if (tokenCookie) {
-        token = tokenCookie.split('=')[1];
-        console.log('Admin auth: Token found in cookie, length:', token?.length);
-      } else {
-        console.log('Admin auth: No admin_token cookie found. Available cookies:', cookieArray.map((c: string) => c.trim().split('=')[0]));
-      }
-    }
-
-    if (!token) {
-      console.log('Admin auth: No token found');
-      return false;
-    }
-
-    const jwt = await import('jsonwebtoken');
-    const jwtSecret = process.env.JWT_SECRET;
-    console.log('Admin auth: JWT secret configured:', !!jwtSecret);
-    if (!jwtSecret) return false;
-
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    const isAdmin = decoded.role === 'admin';
-    return isAdmin;
-  } catch (error) {
-    console.error('Admin authentication error:', error);
-    return false;
-  }
-}
-
-const handler: Handler = async (event, context) => {
+const handler: Handler = withAuth({ roles: ['admin'] }, async (event, context) => {
   // Only allow GET requests
   if (event.httpMethod !== 'GET') {
     return {
@@ -55,16 +12,6 @@ const handler: Handler = async (event, context) => {
     } as any;
   }
 
-  // Check admin authentication
-  const isAdmin = await authenticateAdmin(event);
-  if (!isAdmin) {
-    return {
-      statusCode: 401,
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ success: false, error: 'Admin authentication required' })
-    } as any;
-  }
-
   try {
     // Get database connection
     const databaseUrl = process.env.NEON_DATABASE_URL;
@@ -203,6 +150,6 @@ const handler: Handler = async (event, context) => {
       body: JSON.stringify({ success: false, error: 'Failed to retrieve users' })
     } as any;
   }
-};
+});
 
 export { handler };
\ No newline at end of file
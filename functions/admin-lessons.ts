@@ -1,69 +1,17 @@
 import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
-
-// Admin authentication middleware
-async function authenticateAdmin(event: any): Promise<boolean> {
-  try {
-    let token = null;
-
-    // Try Authorization header first
-    const authHeader = event.headers?.authorization || event.headers?.Authorization;
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      token = authHeader.substring(7);
-    } else {
-      // Fall back to cookie (check both lowercase and uppercase)
-      const cookies = event.headers?.cookie || event.headers?.Cookie || '';
-      const cookieArray = cookies.split(';');
-      const tokenCookie = cookieArray.find((c: string) => c.trim().startsWith('admin_token='));
-
-      if (tokenCookie) {
-        token = tokenCookie.split('=')[1];
-      }
-    }
-
-    if (!token) {
-      return false;
-    }
-
-    const jwt = await import('jsonwebtoken');
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) return false;
-
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    return decoded.role === 'admin';
-  } catch (error) {
-    return false;
-  }
+import { recordAdminAudit } from './lib/admin-audit.js';
+import { withAuth } from './lib/auth.js';
+
+// CORS headers
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
 }
 
-export const handler: Handler = async (event) => {
-  // CORS headers
-  const headers = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  }
-
-  // Handle preflight requests
-  if (event.httpMethod === 'OPTIONS') {
-    return {
-      statusCode: 200,
-      headers,
-      body: '',
-    }
-  }
-
+export const handler: Handler = withAuth({ roles: ['admin'], headers }, async (event, _context, auth) => {
   try {
-    // Check admin authentication
-    const isAdmin = await authenticateAdmin(event);
-    if (!isAdmin) {
-      return {
-        statusCode: 401,
-        headers,
-        body: JSON.stringify({ success: false, error: 'Admin authentication required' })
-      }
-    }
-
     // Get database connection
     const databaseUrl = process.env.NEON_DATABASE_URL;
     if (!databaseUrl) {
@@ -323,6 +271,19 @@ export const handler: Handler = async (event) => {
         // Commit transaction
         await sql`COMMIT`;
 
+        await recordAdminAudit(sql, auth, event, {
+          action: 'lesson.create',
+          targetType: 'lesson',
+          targetId: createdLesson.id,
+          targetLabel: `${createdLesson.level} ${createdLesson.lesson_number}: ${createdLesson.topic}`,
+          after: {
+            level: createdLesson.level,
+            lesson_number: createdLesson.lesson_number,
+            topic: createdLesson.topic,
+            activities: activities.length,
+          },
+        });
+
         return {
           statusCode: 201,
           headers,
@@ -414,35 +375,6 @@ export const handler: Handler = async (event) => {
           parseInt(studentDataCheck[0].activity_results_count) > 0 ||
           parseInt(studentDataCheck[0].progress_count) > 0;
 
-        // Get admin user ID for history tracking
-        let adminUserId: string | null = null;
-        try {
-          let token = null;
-          const authHeader = event.headers?.authorization || event.headers?.Authorization;
-          if (authHeader && authHeader.startsWith('Bearer ')) {
-            token = authHeader.substring(7);
-          } else {
-            const cookies = event.headers?.cookie || event.headers?.Cookie || '';
-            const cookieArray = cookies.split(';');
-            const tokenCookie = cookieArray.find((c: string) => c.trim().startsWith('admin_token='));
-            if (tokenCookie) {
-              token = tokenCookie.split('=')[1];
-            }
-          }
-          
-          if (token) {
-            const jwt = await import('jsonwebtoken');
-            const jwtSecret = process.env.JWT_SECRET;
-            if (jwtSecret) {
-              const decoded = jwt.verify(token, jwtSecret) as any;
-              adminUserId = decoded.id || decoded.userId || null;
-            }
-          }
-        } catch (error) {
-          // If we can't get admin ID, continue without it
-          console.warn('Could not extract admin user ID for history:', error);
-        }
-
         // Create history record with changes snapshot
         const changesSnapshot = {
           before: currentLesson.length > 0 ? {
@@ -467,7 +399,7 @@ export const handler: Handler = async (event) => {
 
         await sql`
           INSERT INTO lesson_history (lesson_id, version, changed_by, changes)
-          VALUES (${lesson.id}, ${newVersion}, ${adminUserId || null}, ${JSON.stringify(changesSnapshot)}::jsonb)
+          VALUES (${lesson.id}, ${newVersion}, ${auth.userId}, ${JSON.stringify(changesSnapshot)}::jsonb)
           ON CONFLICT (lesson_id, version) DO NOTHING
         `;
 
@@ -732,6 +664,15 @@ export const handler: Handler = async (event) => {
         // Commit transaction
         await sql`COMMIT`;
 
+        await recordAdminAudit(sql, auth, event, {
+          action: 'lesson.update',
+          targetType: 'lesson',
+          targetId: lesson.id,
+          targetLabel: `${lesson.level} ${lesson.lesson_number}: ${lesson.topic}`,
+          before: changesSnapshot.before,
+          after: { ...changesSnapshot.after, activities_changed: changesSnapshot.activities_changed },
+        });
+
         return {
           statusCode: 200,
           headers,
@@ -785,10 +726,23 @@ export const handler: Handler = async (event) => {
         }
       }
 
-      await sql`
+      const deleted = await sql`
         DELETE FROM lessons WHERE id = ${lessonId}
+        RETURNING id, level, lesson_number, topic
       `;
 
+      if (deleted.length) {
+        const [removed] = deleted;
+        await recordAdminAudit(sql, auth, event, {
+          action: 'lesson.delete',
+          targetType: 'lesson',
+          targetId: lessonId,
+          targetLabel: `${removed.level} ${removed.lesson_number}: ${removed.topic}`,
+          before: removed,
+          after: null,
+        });
+      }
+
       return {
         statusCode: 200,
         headers,
@@ -813,4 +767,4 @@ export const handler: Handler = async (event) => {
       body: JSON.stringify({ success: false, error: 'Internal server error' })
     }
   }
-};
+});
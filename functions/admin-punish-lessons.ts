@@ -1,48 +1,34 @@
 import { Handler } from '@netlify/functions'
-import { neon } from '@neondatabase/serverless'
+import { neon, type NeonQueryFunction } from '@neondatabase/serverless'
 import {
   CEFR_LEVELS,
   fetchLessonsInRange,
   parseStudentIdList,
   resolveStudentUsers,
 } from './lib/platform-lesson-assignments.js'
+import { recordAdminAudit } from './lib/admin-audit.js'
+import { withAuth } from './lib/auth.js'
 
-async function authenticateAdmin(
-  event: any,
-  sql: ReturnType<typeof neon>
-): Promise<{ ok: true; adminId: string | null } | { ok: false }> {
-  try {
-    const cookies = event.headers?.cookie || ''
-    const tokenCookie = cookies.split(';').find((c: string) => c.trim().startsWith('admin_token='))
-    if (!tokenCookie) return { ok: false }
-    const token = tokenCookie.split('=')[1]
-    const jwt = await import('jsonwebtoken')
-    const jwtSecret = process.env.JWT_SECRET
-    if (!jwtSecret) return { ok: false }
-    const decoded = jwt.verify(token, jwtSecret) as { role?: string; email?: string }
-    if (decoded.role !== 'admin') return { ok: false }
-    if (decoded.email) {
-      const rows = await sql`
-        SELECT id FROM users WHERE email = ${decoded.email} AND role = 'admin' LIMIT 1
-      `
-      return { ok: true, adminId: rows[0]?.id ? String(rows[0].id) : null }
-    }
-    return { ok: true, adminId: null }
-  } catch {
-    return { ok: false }
-  }
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Content-Type': 'application/json',
 }
 
-export const handler: Handler = async (event) => {
-  const headers = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
-    'Content-Type': 'application/json',
-  }
-
-  if (event.httpMethod === 'OPTIONS') return { statusCode: 200, headers, body: '' } as any
+/** Restricted lesson ids per student, for the audit log's before/after snapshots */
+async function assignmentsByUser(sql: NeonQueryFunction<false, false>, userIds: string[]) {
+  const rows = await sql`
+    SELECT user_id::text AS user_id, array_agg(lesson_id::text ORDER BY lesson_id) AS lesson_ids
+    FROM student_platform_lesson_assignments
+    WHERE user_id = ANY(${userIds}::uuid[])
+    GROUP BY user_id
+  `
+  const byUser = new Map((rows as Array<{ user_id: string; lesson_ids: string[] }>).map((r) => [r.user_id, r.lesson_ids]))
+  return Object.fromEntries(userIds.map((id) => [id, byUser.get(id) ?? []]))
+}
 
+export const handler: Handler = withAuth({ roles: ['admin'], headers }, async (event, _context, auth) => {
   const databaseUrl = process.env.NEON_DATABASE_URL
   if (!databaseUrl) {
     return {
@@ -53,14 +39,6 @@ export const handler: Handler = async (event) => {
   }
 
   const sql = neon(databaseUrl)
-  const auth = await authenticateAdmin(event, sql)
-  if (!auth.ok) {
-    return {
-      statusCode: 401,
-      headers,
-      body: JSON.stringify({ success: false, error: 'Admin authentication required' }),
-    } as any
-  }
 
   try {
     if (event.httpMethod === 'GET') {
@@ -172,6 +150,8 @@ export const handler: Handler = async (event) => {
         } as any
       }
 
+      const userIds = users.map((u) => String(u.id))
+      const before = await assignmentsByUser(sql, userIds)
       let inserted = 0
       for (const user of users) {
         if (replace) {
@@ -180,7 +160,7 @@ export const handler: Handler = async (event) => {
         for (const lesson of lessons as Array<{ id: string }>) {
           const result = await sql`
             INSERT INTO student_platform_lesson_assignments (user_id, lesson_id, assigned_by, notes)
-            VALUES (${user.id}, ${lesson.id}, ${auth.adminId}, ${notes})
+            VALUES (${user.id}, ${lesson.id}, ${auth.userId}, ${notes})
             ON CONFLICT (user_id, lesson_id) DO UPDATE SET
               assigned_by = EXCLUDED.assigned_by,
               assigned_at = NOW(),
@@ -191,6 +171,16 @@ export const handler: Handler = async (event) => {
         }
       }
 
+      await recordAdminAudit(sql, auth, event, {
+        action: 'lessons.restrict',
+        targetType: 'student_platform_lessons',
+        targetLabel: `${level} lessons ${Math.min(lessonFrom, lessonTo)}–${Math.max(lessonFrom, lessonTo)}`,
+        targetUserIds: userIds,
+        before,
+        after: await assignmentsByUser(sql, userIds),
+        notes: [replace ? 'replace' : null, notes].filter(Boolean).join(': ') || null,
+      })
+
       return {
         statusCode: 200,
         headers,
@@ -222,6 +212,8 @@ export const handler: Handler = async (event) => {
       }
 
       const { users, notFound } = await resolveStudentUsers(sql, studentIds)
+      const userIds = users.map((u) => String(u.id))
+      const before = await assignmentsByUser(sql, userIds)
       let removed = 0
       for (const user of users) {
         const result = await sql`
@@ -231,6 +223,16 @@ export const handler: Handler = async (event) => {
         removed += result.length
       }
 
+      if (users.length) {
+        await recordAdminAudit(sql, auth, event, {
+          action: 'lessons.unrestrict',
+          targetType: 'student_platform_lessons',
+          targetUserIds: userIds,
+          before,
+          after: Object.fromEntries(userIds.map((id) => [id, []])),
+        })
+      }
+
       return {
         statusCode: 200,
         headers,
@@ -259,4 +261,4 @@ export const handler: Handler = async (event) => {
       }),
     } as any
   }
-}
+})
@@ -0,0 +1,389 @@
+import { Handler } from '@netlify/functions';
+import { neon, type NeonQueryFunction } from '@neondatabase/serverless';
+import { recordAdminAudit } from './lib/admin-audit';
+import { withAuth } from './lib/auth';
+import {
+  READ_VS_SPEAK_MODEL_KEY,
+  READ_VS_SPEAK_RECORDING_PREFIX,
+  READ_VS_SPEAK_SNAPSHOT_PREFIX,
+  addReadVsSpeakLabel,
+  extractReadVsSpeakFeatures,
+  isReadVsSpeakModelReady,
+  labelFromVotes,
+  parseReadVsSpeakModel,
+  trainReadVsSpeakModel,
+  type ReadVsSpeakLabelSource,
+  type ReadVsSpeakSample,
+} from './lib/read-vs-speak-model';
+import { labelFromDeliveryMethod } from './lib/robotic-voice-corpus';
+import { loadSpeechJobFeatures } from './lib/speech-job-features';
+
+/**
+ * Read-vs-speak model training (see lib/read-vs-speak-model).
+ *
+ * GET  → { model, ready, snapshots, label_counts }
+ * POST → { action: 'train', epochs?, holdout_fraction?, dry_run? }
+ *          Retrains over every labelled recording (teacher reviews > admin TTS check sessions >
+ *          reading/speaking votes), snapshots the previous and new model and makes the new one
+ *          active. dry_run reports holdout metrics without saving.
+ *        { action: 'rollback', version } makes a snapshot the active model again.
+ *
+ * Features come from classifier_store recording rows; missing ones are downloaded from the
+ * speech job sidecar (at most MAX_FEATURE_DOWNLOADS per run) and cached for the next run.
+ */
+
+const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const MAX_FEATURE_DOWNLOADS = 200;
+const DOWNLOAD_BATCH_SIZE = 8;
+
+type Sql = NeonQueryFunction<false, false>;
+type LabelMap = Map<string, { spoken: 0 | 1; source: ReadVsSpeakLabelSource }>;
+
+async function collectLabels(sql: Sql): Promise<LabelMap> {
+  const labels: LabelMap = new Map();
+
+  const votes = (await sql`
+    SELECT base_key, reading_count, speaking_count
+    FROM recording_button_stats
+    WHERE reading_count <> speaking_count
+  `) as Array<{ base_key: string; reading_count: string | number; speaking_count: string | number }>;
+  for (const v of votes) {
+    const spoken = labelFromVotes(Number(v.reading_count), Number(v.speaking_count));
+    if (spoken != null) addReadVsSpeakLabel(labels, v.base_key, spoken, 'recording_vote');
+  }
+
+  const sessions = (await sql`
+    SELECT delivery_method, job_ids FROM admin_tts_check_sessions
+  `) as Array<{ delivery_method: string; job_ids: unknown }>;
+  for (const s of sessions) {
+    const label = labelFromDeliveryMethod(s.delivery_method);
+    if (!label || !Array.isArray(s.job_ids)) continue;
+    for (const jobId of s.job_ids) {
+      if (typeof jobId === 'string' && jobId) {
+        addReadVsSpeakLabel(labels, jobId, label.delivery_mode === 'speaking' ? 1 : 0, 'admin_tts_check');
+      }
+    }
+  }
+
+  const reviews = (await sql`
+    SELECT key, payload->'label'->>'spoken' AS spoken
+    FROM classifier_store
+    WHERE kind = 'recording'
+      AND key LIKE ${`${READ_VS_SPEAK_RECORDING_PREFIX}%`}
+      AND payload->'label'->>'source' = 'teacher_review'
+  `) as Array<{ key: string; spoken: string | null }>;
+  for (const r of reviews) {
+    if (r.spoken !== '0' && r.spoken !== '1') continue;
+    addReadVsSpeakLabel(labels, r.key.slice(READ_VS_SPEAK_RECORDING_PREFIX.length), r.spoken === '1' ? 1 : 0, 'teacher_review');
+  }
+
+  return labels;
+}
+
+async function buildSamples(
+  sql: Sql,
+  labels: LabelMap
+): Promise<{ samples: ReadVsSpeakSample[]; downloaded: number; missing_features: number }> {
+  const keys = [...labels.keys()];
+  const storeKeys = keys.map((k) => `${READ_VS_SPEAK_RECORDING_PREFIX}${k}`);
+  const cachedRows = (storeKeys.length
+    ? await sql`
+        SELECT key, payload->'features' AS features
+        FROM classifier_store
+        WHERE kind = 'recording' AND key = ANY(${storeKeys})
+      `
+    : []) as Array<{ key: string; features: unknown }>;
+  const cached = new Map<string, unknown>();
+  for (const row of cachedRows) {
+    if (row.features) cached.set(row.key.slice(READ_VS_SPEAK_RECORDING_PREFIX.length), row.features);
+  }
+
+  const toDownload = keys.filter((k) => !cached.has(k)).slice(0, MAX_FEATURE_DOWNLOADS);
+  let downloaded = 0;
+  for (let i = 0; i < toDownload.length; i += DOWNLOAD_BATCH_SIZE) {
+    const batch = toDownload.slice(i, i + DOWNLOAD_BATCH_SIZE);
+    const results = await Promise.all(batch.map((k) => loadSpeechJobFeatures(k)));
+    for (let j = 0; j < batch.length; j++) {
+      const features = results[j];
+      if (!features) continue;
+      cached.set(batch[j], features);
+      downloaded++;
+      try {
+        await sql`
+          INSERT INTO classifier_store (key, kind, payload, updated_at)
+          VALUES (
+            ${`${READ_VS_SPEAK_RECORDING_PREFIX}${batch[j]}`},
+            'recording',
+            ${JSON.stringify({ storage_filename: `${batch[j]}.features.JSON`, features })}::jsonb,
+            NOW()
+          )
+          ON CONFLICT (key) DO UPDATE SET
+            payload = classifier_store.payload || EXCLUDED.payload,
+            updated_at = NOW()
+        `;
+      } catch (e) {
+        console.warn('admin-read-vs-speak-model: failed to cache features (ignored)', { key: batch[j], e });
+      }
+    }
+  }
+
+  const samples: ReadVsSpeakSample[] = [];
+  let missing = 0;
+  for (const [key, label] of labels) {
+    const features = extractReadVsSpeakFeatures(cached.get(key));
+    if (!features) {
+      missing++;
+      continue;
+    }
+    samples.push({ key, features, spoken: label.spoken, source: label.source });
+  }
+  return { samples, downloaded, missing_features: missing };
+}
+
+async function latestSnapshotVersion(sql: Sql): Promise<number> {
+  const rows = (await sql`
+    SELECT COALESCE(MAX((payload->>'version')::int), 0) AS max_version
+    FROM classifier_store
+    WHERE kind = 'model' AND key LIKE ${`${READ_VS_SPEAK_SNAPSHOT_PREFIX}%`}
+  `) as Array<{ max_version: number | string }>;
+  return Number(rows[0]?.max_version ?? 0);
+}
+
+export const handler: Handler = withAuth({ roles: ['admin'], headers: corsHeaders }, async (event, _context, auth) => {
+  const databaseUrl = process.env.NEON_DATABASE_URL;
+  if (!databaseUrl) {
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: false, error: 'Database configuration error' }),
+    };
+  }
+
+  const sql = neon(databaseUrl);
+
+  try {
+    if (event.httpMethod === 'GET') {
+      const modelRows = (await sql`
+        SELECT payload, updated_at FROM classifier_store
+        WHERE key = ${READ_VS_SPEAK_MODEL_KEY} AND kind = 'model'
+        LIMIT 1
+      `) as Array<{ payload: unknown; updated_at: string }>;
+      const model = parseReadVsSpeakModel(modelRows[0]?.payload);
+
+      const snapshots = await sql`
+        SELECT
+          key,
+          (payload->>'version')::int AS version,
+          payload->>'trained_at' AS trained_at,
+          (payload->>'samples_seen')::int AS samples_seen,
+          payload->'holdout' AS holdout,
+          payload->'label_sources' AS label_sources,
+          updated_at
+        FROM classifier_store
+        WHERE kind = 'model' AND key LIKE ${`${READ_VS_SPEAK_SNAPSHOT_PREFIX}%`}
+        ORDER BY (payload->>'version')::int DESC
+        LIMIT 50
+      `;
+
+      const labels = await collectLabels(sql);
+      const labelCounts: Record<string, number> = { recording_vote: 0, admin_tts_check: 0, teacher_review: 0 };
+      for (const l of labels.values()) labelCounts[l.source]++;
+
+      return {
+        statusCode: 200,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          success: true,
+          model,
+          model_updated_at: modelRows[0]?.updated_at ?? null,
+          ready: isReadVsSpeakModelReady(model),
+          snapshots,
+          label_counts: labelCounts,
+        }),
+      };
+    }
+
+    if (event.httpMethod === 'POST') {
+      const body = JSON.parse(event.body || '{}') as {
+        action?: string;
+        epochs?: number;
+        holdout_fraction?: number;
+        dry_run?: boolean;
+        version?: number;
+      };
+
+      if (body.action === 'rollback') {
+        const version = Number(body.version);
+        if (!Number.isInteger(version) || version < 0) {
+          return {
+            statusCode: 400,
+            headers: corsHeaders,
+            body: JSON.stringify({ success: false, error: 'version is required' }),
+          };
+        }
+        const rows = (await sql`
+          SELECT payload FROM classifier_store
+          WHERE key = ${`${READ_VS_SPEAK_SNAPSHOT_PREFIX}${version}`} AND kind = 'model'
+          LIMIT 1
+        `) as Array<{ payload: unknown }>;
+        const snapshot = parseReadVsSpeakModel(rows[0]?.payload);
+        if (!snapshot) {
+          return {
+            statusCode: 404,
+            headers: corsHeaders,
+            body: JSON.stringify({ success: false, error: 'Snapshot not found' }),
+          };
+        }
+        const replaced = await sql`
+          UPDATE classifier_store
+          SET payload = ${JSON.stringify({ ...snapshot, rolled_back_by: auth.userId ?? null })}::jsonb,
+              updated_at = NOW()
+          FROM (SELECT payload->'version' AS version FROM classifier_store
+                WHERE key = ${READ_VS_SPEAK_MODEL_KEY} AND kind = 'model') previous
+          WHERE key = ${READ_VS_SPEAK_MODEL_KEY} AND kind = 'model'
+          RETURNING previous.version
+        `;
+        await recordAdminAudit(sql, auth, event, {
+          action: 'read_vs_speak_model.rollback',
+          targetType: 'classifier_model',
+          targetId: READ_VS_SPEAK_MODEL_KEY,
+          before: { version: replaced[0]?.version ?? null },
+          after: { version },
+        });
+        return {
+          statusCode: 200,
+          headers: corsHeaders,
+          body: JSON.stringify({ success: true, model: snapshot, ready: isReadVsSpeakModelReady(snapshot) }),
+        };
+      }
+
+      if (body.action !== 'train') {
+        return {
+          statusCode: 400,
+          headers: corsHeaders,
+          body: JSON.stringify({ success: false, error: "action must be 'train' or 'rollback'" }),
+        };
+      }
+
+      const modelRows = (await sql`
+        SELECT payload FROM classifier_store
+        WHERE key = ${READ_VS_SPEAK_MODEL_KEY} AND kind = 'model'
+        LIMIT 1
+      `) as Array<{ payload: unknown }>;
+      const current = parseReadVsSpeakModel(modelRows[0]?.payload);
+      if (!current) {
+        return {
+          statusCode: 404,
+          headers: corsHeaders,
+          body: JSON.stringify({ success: false, error: `${READ_VS_SPEAK_MODEL_KEY} is not seeded` }),
+        };
+      }
+
+      const labels = await collectLabels(sql);
+      const { samples, downloaded, missing_features } = await buildSamples(sql, labels);
+      if (samples.length === 0) {
+        return {
+          statusCode: 400,
+          headers: corsHeaders,
+          body: JSON.stringify({ success: false, error: 'No labelled recordings with features', missing_features }),
+        };
+      }
+
+      // Numbering continues after rollbacks so a snapshot key is never reused
+      const baseVersion = Math.max(current.version ?? 0, await latestSnapshotVersion(sql));
+      const result = trainReadVsSpeakModel({ ...current, version: baseVersion }, samples, {
+        epochs: body.epochs,
+        holdout_fraction: body.holdout_fraction,
+      });
+      const next = { ...result.model, trained_by: auth.userId ?? null };
+
+      if (!body.dry_run) {
+        try {
+          await sql`BEGIN`;
+          const locked = (await sql`
+            SELECT payload FROM classifier_store
+            WHERE key = ${READ_VS_SPEAK_MODEL_KEY} AND kind = 'model'
+            FOR UPDATE
+          `) as Array<{ payload: Record<string, unknown> }>;
+          // Previous model as it is now (live votes may have moved it since the last snapshot)
+          const previous = locked[0]?.payload ?? modelRows[0]?.payload;
+          const previousVersion = Number((previous as { version?: unknown } | undefined)?.version ?? 0) || 0;
+          await sql`
+            INSERT INTO classifier_store (key, kind, payload, updated_at)
+            VALUES (${`${READ_VS_SPEAK_SNAPSHOT_PREFIX}${previousVersion}`}, 'model', ${JSON.stringify({ ...(previous as object), version: previousVersion })}::jsonb, NOW())
+            ON CONFLICT (key) DO UPDATE SET payload = EXCLUDED.payload, updated_at = NOW()
+          `;
+          await sql`
+            INSERT INTO classifier_store (key, kind, payload, updated_at)
+            VALUES (${`${READ_VS_SPEAK_SNAPSHOT_PREFIX}${next.version}`}, 'model', ${JSON.stringify(next)}::jsonb, NOW())
+            ON CONFLICT (key) DO UPDATE SET payload = EXCLUDED.payload, updated_at = NOW()
+          `;
+          await sql`
+            UPDATE classifier_store
+            SET payload = ${JSON.stringify(next)}::jsonb, updated_at = NOW()
+            WHERE key = ${READ_VS_SPEAK_MODEL_KEY} AND kind = 'model'
+          `;
+          await sql`COMMIT`;
+        } catch (e) {
+          await sql`ROLLBACK`;
+          throw e;
+        }
+      }
+
+      if (!body.dry_run) {
+        await recordAdminAudit(sql, auth, event, {
+          action: 'read_vs_speak_model.train',
+          targetType: 'classifier_model',
+          targetId: READ_VS_SPEAK_MODEL_KEY,
+          before: { version: current.version ?? null, holdout: result.holdout_before },
+          after: { version: next.version, holdout: result.holdout_after, train_count: result.train_count },
+        });
+      }
+
+      console.log('admin-read-vs-speak-model: trained', {
+        version: next.version,
+        dry_run: !!body.dry_run,
+        train_count: result.train_count,
+        holdout_before: result.holdout_before,
+        holdout_after: result.holdout_after,
+      });
+
+      return {
+        statusCode: 200,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          success: true,
+          dry_run: !!body.dry_run,
+          model: next,
+          ready: isReadVsSpeakModelReady(next),
+          train_count: result.train_count,
+          holdout_count: result.holdout_keys.length,
+          holdout_before: result.holdout_before,
+          holdout_after: result.holdout_after,
+          label_sources: next.label_sources,
+          features_downloaded: downloaded,
+          missing_features,
+        }),
+      };
+    }
+
+    return {
+      statusCode: 405,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  } catch (error) {
+    console.error('admin-read-vs-speak-model error:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Internal server error' }),
+    };
+  }
+});
@@ -1,45 +1,9 @@
 import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
+import { recordAdminAudit } from './lib/admin-audit.js';
+import { withAuth } from './lib/auth.js';
 
-// Admin authentication middleware
-async function authenticateAdmin(event: any): Promise<boolean> {
-  try {
-    let token = null;
-
-    // Try Authorization header first
-    const authHeader = event.headers?.authorization || event.headers?.Authorization;
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      token = authHeader.substring(7);
-    } else {
-      // Fall back to cookie
-      const cookies = event.headers?.cookie || '';
-      const cookieArray = cookies.split(';');
-      const tokenCookie = cookieArray.find((c: string) => c.trim().startsWith('admin_token='));
-
-      if (tokenCookie) {
-        token = tokenCookie.split('=')[1];
-      }
-    }
-
-    if (!token) {
-      return false;
-    }
-
-    const jwt = await import('jsonwebtoken');
-    const jwtSecret = process.env.JWT_SECRET;
-    console.log('Admin auth: JWT secret configured:', !!jwtSecret);
-    if (!jwtSecret) return false;
-
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    const isAdmin = decoded.role === 'admin';
-    return isAdmin;
-  } catch (error) {
-    console.error('Admin authentication error:', error);
-    return false;
-  }
-}
-
-const handler: Handler = async (event, context) => {
+const handler: Handler = withAuth({ roles: ['admin'] }, async (event, context, auth) => {
   // Only allow POST requests
   if (event.httpMethod !== 'POST') {
     return {
@@ -49,16 +13,6 @@ const handler: Handler = async (event, context) => {
     } as any;
   }
 
-  // Check admin authentication
-  const isAdmin = await authenticateAdmin(event);
-  if (!isAdmin) {
-    return {
-      statusCode: 401,
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ success: false, error: 'Admin authentication required' })
-    } as any;
-  }
-
   try {
     // Get database connection
     const databaseUrl = process.env.NEON_DATABASE_URL;
@@ -118,6 +72,16 @@ const handler: Handler = async (event, context) => {
 
     console.log(`[AUTH] Admin revoked all sessions for user: ${user.email} (${user.username}) - ${deletedCount} session(s) deleted`);
 
+    await recordAdminAudit(sql, auth, event, {
+      action: 'user.revoke_sessions',
+      targetType: 'user',
+      targetId: user.id,
+      targetLabel: user.email,
+      targetUserIds: [user.id],
+      before: { active_sessions: deletedCount },
+      after: { active_sessions: 0 },
+    });
+
     return {
       statusCode: 200,
       headers: { 'Content-Type': 'application/json' },
@@ -141,6 +105,6 @@ const handler: Handler = async (event, context) => {
       body: JSON.stringify({ success: false, error: 'Failed to revoke user sessions' })
     } as any;
   }
-};
+});
 
 export { handler };
@@ -1,33 +1,14 @@
 import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
+import { withAuth } from './lib/auth.js';
 
-async function authenticateAdmin(event: any): Promise<boolean> {
-  try {
-    const cookies = event.headers?.cookie || '';
-    const tokenCookie = cookies.split(';').find((c: string) => c.trim().startsWith('admin_token='));
-    if (!tokenCookie) return false;
-    const token = tokenCookie.split('=')[1];
-    const jwt = await import('jsonwebtoken');
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) return false;
-    const decoded = jwt.verify(token, jwtSecret) as { role?: string };
-    return decoded.role === 'admin';
-  } catch {
-    return false;
-  }
-}
-
-export const handler: Handler = async (event) => {
-  const headers = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    'Access-Control-Allow-Methods': 'GET, OPTIONS',
-  };
-
-  if (event.httpMethod === 'OPTIONS') {
-    return { statusCode: 200, headers, body: '' } as any;
-  }
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
 
+export const handler: Handler = withAuth({ roles: ['admin'], headers }, async (event) => {
   if (event.httpMethod !== 'GET') {
     return {
       statusCode: 405,
@@ -37,15 +18,6 @@ export const handler: Handler = async (event) => {
   }
 
   try {
-    const isAdmin = await authenticateAdmin(event);
-    if (!isAdmin) {
-      return {
-        statusCode: 401,
-        headers,
-        body: JSON.stringify({ success: false, error: 'Admin authentication required' }),
-      } as any;
-    }
-
     const databaseUrl = process.env.NEON_DATABASE_URL;
     if (!databaseUrl) {
       return {
@@ -61,7 +33,9 @@ export const handler: Handler = async (event) => {
     const onlyScored = (event.queryStringParameters?.onlyScored || 'true') !== 'false';
     const viewFilterRaw = (event.queryStringParameters?.viewFilter || 'all').toLowerCase();
     const viewFilter =
-      viewFilterRaw === 'would_flag' || viewFilterRaw === 'reading' ? viewFilterRaw : 'all';
+      viewFilterRaw === 'would_flag' || viewFilterRaw === 'reading' || viewFilterRaw === 'shadow_disagree'
+        ? viewFilterRaw
+        : 'all';
     // Back-compat: onlyWouldFlag=true maps to would_flag view
     const onlyWouldFlagLegacy = (event.queryStringParameters?.onlyWouldFlag || '') === 'true';
     const viewFilterEffective = onlyWouldFlagLegacy ? 'would_flag' : viewFilter;
@@ -80,7 +54,7 @@ export const handler: Handler = async (event) => {
           ? sql`ORDER BY sj.created_at DESC`
           : sql`ORDER BY sj.robotic_voice_score DESC NULLS LAST, sj.created_at DESC`;
 
-    const [rows, countRows] = await Promise.all([
+    const [rows, countRows, shadowRows] = await Promise.all([
       sql`
         SELECT
           sj.id,
@@ -100,6 +74,12 @@ export const handler: Handler = async (event) => {
           sj.robotic_voice_would_flag,
           sj.robotic_voice_flagged,
           sj.robotic_voice_rules,
+          sj.robotic_voice_scorer_version,
+          sj.robotic_voice_shadow_version,
+          sj.robotic_voice_shadow_disagrees,
+          sj.robotic_voice_shadow->>'score' AS robotic_voice_shadow_score,
+          sj.robotic_voice_shadow->'signals'->>'would_flag' AS robotic_voice_shadow_would_flag,
+          sj.robotic_voice_shadow->'signals'->>'delivery_mode' AS robotic_voice_shadow_delivery_mode,
           sj.result_json->'robotic_voice' AS robotic_voice_detail
         FROM speech_jobs sj
         LEFT JOIN users u ON sj.user_id = u.id
@@ -119,6 +99,11 @@ export const handler: Handler = async (event) => {
                 ) = 'reading'`
               : sql``
           }
+          ${
+            viewFilterEffective === 'shadow_disagree'
+              ? sql`AND sj.robotic_voice_shadow_disagrees = TRUE`
+              : sql``
+          }
           ${minScore > 0 ? sql`AND sj.robotic_voice_score >= ${minScore}` : sql``}
           ${
             userSearch
@@ -150,7 +135,12 @@ export const handler: Handler = async (event) => {
                 ) = 'reading'`
               : sql``
           }
-          ${minScore > 0 ? sql`AND sj.robotic_voice_score >= ${minScore}` : sql``
+          ${
+            viewFilterEffective === 'shadow_disagree'
+              ? sql`AND sj.robotic_voice_shadow_disagrees = TRUE`
+              : sql``
+          }
+          ${minScore > 0 ? sql`AND sj.robotic_voice_score >= ${minScore}` : sql``}
           ${
             userSearch
               ? sql`AND (
@@ -160,6 +150,27 @@ export const handler: Handler = async (event) => {
               : sql``
           }
       `,
+      // Shadow comparison per candidate version (last 30 days), for the promotion decision
+      sql`
+        SELECT
+          sj.robotic_voice_shadow_version AS shadow_version,
+          COUNT(*)::int AS compared,
+          COUNT(*) FILTER (WHERE sj.robotic_voice_shadow_disagrees)::int AS disagreements,
+          COUNT(*) FILTER (
+            WHERE sj.robotic_voice_would_flag IS TRUE
+              AND COALESCE((sj.robotic_voice_shadow->'signals'->>'would_flag')::boolean, FALSE) = FALSE
+          )::int AS active_only_flags,
+          COUNT(*) FILTER (
+            WHERE sj.robotic_voice_would_flag IS NOT TRUE
+              AND COALESCE((sj.robotic_voice_shadow->'signals'->>'would_flag')::boolean, FALSE) = TRUE
+          )::int AS shadow_only_flags,
+          MAX(sj.created_at) AS last_seen_at
+        FROM speech_jobs sj
+        WHERE sj.robotic_voice_shadow_version IS NOT NULL
+          AND sj.created_at > NOW() - INTERVAL '30 days'
+        GROUP BY sj.robotic_voice_shadow_version
+        ORDER BY MAX(sj.created_at) DESC
+      `,
     ]);
 
     const totalItems = Number(countRows[0]?.total) || 0;
@@ -183,6 +194,17 @@ export const handler: Handler = async (event) => {
       robotic_voice_would_flag: row.robotic_voice_would_flag ?? null,
       robotic_voice_flagged: row.robotic_voice_flagged ?? null,
       robotic_voice_rules: row.robotic_voice_rules ?? null,
+      robotic_voice_scorer_version: row.robotic_voice_scorer_version ?? null,
+      robotic_voice_shadow:
+        row.robotic_voice_shadow_version != null
+          ? {
+              version: row.robotic_voice_shadow_version,
+              score: row.robotic_voice_shadow_score != null ? Number(row.robotic_voice_shadow_score) : null,
+              would_flag: row.robotic_voice_shadow_would_flag === 'true',
+              delivery_mode: row.robotic_voice_shadow_delivery_mode ?? null,
+              disagrees: row.robotic_voice_shadow_disagrees === true,
+            }
+          : null,
       robotic_voice_detail: row.robotic_voice_detail ?? null,
       signals: (() => {
         const detail = row.robotic_voice_detail as { signals?: Record<string, unknown> } | null
@@ -199,6 +221,7 @@ export const handler: Handler = async (event) => {
       body: JSON.stringify({
         success: true,
         items,
+        shadowSummary: shadowRows,
         pagination: {
           page,
           limit,
@@ -217,4 +240,4 @@ export const handler: Handler = async (event) => {
       body: JSON.stringify({ success: false, error: 'Internal server error' }),
     } as any;
   }
-};
+});
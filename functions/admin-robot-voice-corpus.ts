@@ -0,0 +1,233 @@
+import { Handler } from '@netlify/functions';
+import { neon, type NeonQueryFunction } from '@neondatabase/serverless';
+import { withAuth } from './lib/auth';
+import { loadSpeechJobFeatures } from './lib/speech-job-features';
+import {
+  ROBOTIC_VOICE_CORPUS_FORMAT,
+  isDeliveryMode,
+  labelFromDeliveryMethod,
+  type RoboticVoiceCorpus,
+  type RoboticVoiceCorpusCase,
+  type RoboticVoiceCorpusLabel,
+  type RoboticVoiceCorpusSource,
+} from './lib/robotic-voice-corpus';
+
+/**
+ * Export the robotic-voice golden corpus (see lib/robotic-voice-corpus).
+ *
+ * GET  → every admin_tts_check_sessions recording, labelled by delivery_method.
+ * POST → { labels: [{ job_id, delivery_mode, would_flag?, note? }], include_tts_check_sessions? }
+ *        adds audited student speech_jobs with the admin-supplied label.
+ *
+ * The response body is the corpus file itself; save it to backups/robotic-voice-corpus.json
+ * and run `npm run test:robotic-voice-corpus`.
+ */
+
+const MAX_JOBS = 2000;
+// Supabase downloads in parallel, but not all at once
+const FEATURE_BATCH_SIZE = 8;
+
+interface PendingCase {
+  id: string;
+  source: RoboticVoiceCorpusSource;
+  label: RoboticVoiceCorpusLabel;
+  meta: RoboticVoiceCorpusCase['meta'];
+}
+
+async function attachFeatures(
+  sql: NeonQueryFunction<false, false>,
+  pending: PendingCase[]
+): Promise<{ cases: RoboticVoiceCorpusCase[]; missingFeatures: string[] }> {
+  const ids = pending.map((p) => p.id);
+  const jobRows = ids.length
+    ? ((await sql`
+        SELECT id::text AS id, prompt, prompt_id
+        FROM speech_jobs
+        WHERE id::text = ANY(${ids})
+      `) as Array<{ id: string; prompt: string | null; prompt_id: string | null }>)
+    : [];
+  const jobsById = new Map(jobRows.map((j) => [j.id, j]));
+
+  const cases: RoboticVoiceCorpusCase[] = [];
+  const missingFeatures: string[] = [];
+  for (let i = 0; i < pending.length; i += FEATURE_BATCH_SIZE) {
+    const batch = pending.slice(i, i + FEATURE_BATCH_SIZE);
+    const features = await Promise.all(batch.map((p) => loadSpeechJobFeatures(p.id)));
+    batch.forEach((p, idx) => {
+      const f = features[idx];
+      const job = jobsById.get(p.id);
+      if (!f || !job) {
+        missingFeatures.push(p.id);
+        return;
+      }
+      cases.push({
+        id: p.id,
+        source: p.source,
+        label: p.label,
+        input: {
+          ...f,
+          prompt_id: job.prompt_id,
+          prompt_text: f.prompt_text ?? job.prompt ?? null,
+        },
+        meta: p.meta,
+      });
+    });
+  }
+  return { cases, missingFeatures };
+}
+
+async function pendingFromTtsCheckSessions(sql: NeonQueryFunction<false, false>): Promise<PendingCase[]> {
+  const rows = (await sql`
+    SELECT s.id::text AS session_id, s.topic_id, s.delivery_method, s.created_at, ids.job_id
+    FROM admin_tts_check_sessions s
+    CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(s.job_ids, '[]'::jsonb)) AS ids(job_id)
+    ORDER BY s.created_at ASC
+    LIMIT ${MAX_JOBS}
+  `) as Array<{
+    session_id: string;
+    topic_id: string;
+    delivery_method: string;
+    created_at: string;
+    job_id: string;
+  }>;
+
+  const out: PendingCase[] = [];
+  for (const r of rows) {
+    const label = labelFromDeliveryMethod(r.delivery_method);
+    if (!label) continue;
+    out.push({
+      id: r.job_id,
+      source: 'admin_tts_check',
+      label,
+      meta: {
+        delivery_method: r.delivery_method,
+        topic_id: r.topic_id,
+        session_id: r.session_id,
+        created_at: r.created_at ? new Date(r.created_at).toISOString() : null,
+      },
+    });
+  }
+  return out;
+}
+
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+export const handler: Handler = withAuth({ roles: ['admin'], headers }, async (event) => {
+  if (event.httpMethod !== 'GET' && event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    } as any;
+  }
+
+  try {
+    const databaseUrl = process.env.NEON_DATABASE_URL;
+    if (!databaseUrl) {
+      return {
+        statusCode: 500,
+        headers,
+        body: JSON.stringify({ success: false, error: 'Database configuration error' }),
+      } as any;
+    }
+
+    const sql = neon(databaseUrl);
+
+    let includeSessions = true;
+    const pending: PendingCase[] = [];
+
+    if (event.httpMethod === 'POST') {
+      let body: {
+        labels?: Array<{ job_id?: string; delivery_mode?: string; would_flag?: boolean; note?: string }>;
+        include_tts_check_sessions?: boolean;
+      };
+      try {
+        body = JSON.parse(event.body || '{}');
+      } catch {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ success: false, error: 'Invalid JSON body' }),
+        } as any;
+      }
+
+      includeSessions = body.include_tts_check_sessions !== false;
+      const labels = Array.isArray(body.labels) ? body.labels : [];
+      if (labels.length > MAX_JOBS) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ success: false, error: `At most ${MAX_JOBS} labels per export` }),
+        } as any;
+      }
+      for (const l of labels) {
+        const jobId = typeof l?.job_id === 'string' ? l.job_id.trim() : '';
+        if (!jobId || !isDeliveryMode(l.delivery_mode)) {
+          return {
+            statusCode: 400,
+            headers,
+            body: JSON.stringify({
+              success: false,
+              error: 'Each label needs job_id and delivery_mode (speaking | reading | tts)',
+            }),
+          } as any;
+        }
+        pending.push({
+          id: jobId,
+          source: 'speech_job',
+          label: {
+            delivery_mode: l.delivery_mode,
+            would_flag: typeof l.would_flag === 'boolean' ? l.would_flag : l.delivery_mode === 'tts',
+          },
+          meta: { note: typeof l.note === 'string' ? l.note.trim() || null : null },
+        });
+      }
+    }
+
+    if (includeSessions) {
+      const labelled = new Set(pending.map((p) => p.id));
+      for (const p of await pendingFromTtsCheckSessions(sql)) {
+        // An explicit admin label wins over the session's delivery_method
+        if (!labelled.has(p.id)) {
+          labelled.add(p.id);
+          pending.push(p);
+        }
+      }
+    }
+
+    const { cases, missingFeatures } = await attachFeatures(sql, pending);
+    if (missingFeatures.length > 0) {
+      console.warn('admin-robot-voice-corpus: skipped jobs without features JSON', {
+        count: missingFeatures.length,
+      });
+    }
+
+    const corpus: RoboticVoiceCorpus & { skipped_job_ids: string[] } = {
+      format: ROBOTIC_VOICE_CORPUS_FORMAT,
+      exported_at: new Date().toISOString(),
+      cases,
+      skipped_job_ids: missingFeatures,
+    };
+
+    return {
+      statusCode: 200,
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="robotic-voice-corpus-${corpus.exported_at.slice(0, 10)}.json"`,
+      },
+      body: JSON.stringify(corpus),
+    } as any;
+  } catch (error) {
+    console.error('admin-robot-voice-corpus error:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({ success: false, error: 'Internal server error' }),
+    } as any;
+  }
+});
@@ -0,0 +1,276 @@
+import { Handler } from '@netlify/functions';
+import { neon } from '@neondatabase/serverless';
+import { recordAdminAudit } from './lib/admin-audit';
+import { withAuth } from './lib/auth';
+import {
+  envEnforcementMode,
+  isEnforcementMode,
+  isPolicyScope,
+  normalizeScopeValue,
+} from './lib/robotic-voice-policy';
+
+/**
+ * Robotic-voice enforcement policies (see lib/robotic-voice-policy).
+ *
+ * GET    → { policies, decisions, decision_summary, fallback_mode }; ?action= filters decisions
+ * POST   → { scope_type, scope_value, mode, enabled?, notes? } upserts on (scope_type, scope_value)
+ * DELETE → { id } removes a policy; past decisions keep scope_type / scope_value
+ *
+ * Student scope accepts a school ID (e.g. 52439) or a users.id UUID; it is stored as users.id.
+ */
+
+const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+};
+
+const DECISION_ACTIONS = new Set(['none', 'warned', 'rerecord_required', 'blocked']);
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const handler: Handler = withAuth({ roles: ['admin'], headers: corsHeaders }, async (event, _context, auth) => {
+  const databaseUrl = process.env.NEON_DATABASE_URL;
+  if (!databaseUrl) {
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: false, error: 'Database configuration error' }),
+    };
+  }
+
+  const sql = neon(databaseUrl);
+
+  try {
+    if (event.httpMethod === 'GET') {
+      const actionParam = event.queryStringParameters?.action || '';
+      const actionFilter = DECISION_ACTIONS.has(actionParam) ? actionParam : null;
+
+      const policies = await sql`
+        SELECT
+          p.id::text AS id,
+          p.scope_type,
+          p.scope_value,
+          p.mode,
+          p.enabled,
+          p.notes,
+          p.created_at,
+          p.updated_at,
+          updater.username AS updated_by_username,
+          student.username AS student_username,
+          student.school_student_id AS student_school_id
+        FROM robotic_voice_policies p
+        LEFT JOIN users updater ON updater.id = p.updated_by
+        LEFT JOIN users student ON p.scope_type = 'student' AND student.id::text = p.scope_value
+        ORDER BY
+          CASE p.scope_type
+            WHEN 'student' THEN 1 WHEN 'lesson' THEN 2 WHEN 'class' THEN 3 WHEN 'level' THEN 4 ELSE 5
+          END,
+          p.scope_value
+      `;
+
+      const decisions = await sql`
+        SELECT
+          d.id::text AS id,
+          d.job_id::text AS job_id,
+          d.user_id::text AS user_id,
+          u.username AS user_username,
+          u.school_student_id,
+          d.lesson_id,
+          d.class_label,
+          d.level,
+          d.policy_id::text AS policy_id,
+          d.scope_type,
+          d.scope_value,
+          d.mode,
+          d.action,
+          d.robotic_voice_score,
+          d.scorer_version,
+          d.created_at
+        FROM robotic_voice_enforcement_decisions d
+        LEFT JOIN users u ON u.id = d.user_id
+        WHERE ${actionFilter}::text IS NULL OR d.action = ${actionFilter}
+        ORDER BY d.created_at DESC
+        LIMIT 100
+      `;
+
+      const summary = await sql`
+        SELECT action, COUNT(*)::int AS count
+        FROM robotic_voice_enforcement_decisions
+        WHERE created_at >= NOW() - INTERVAL '30 days'
+        GROUP BY action
+      `;
+
+      return {
+        statusCode: 200,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          success: true,
+          fallback_mode: envEnforcementMode(),
+          policies,
+          decisions,
+          decision_summary: Object.fromEntries(
+            (summary as Array<{ action: string; count: number }>).map((r) => [r.action, r.count])
+          ),
+        }),
+      };
+    }
+
+    if (event.httpMethod === 'POST') {
+      let body: {
+        scope_type?: string;
+        scope_value?: string;
+        mode?: string;
+        enabled?: boolean;
+        notes?: string;
+      };
+      try {
+        body = JSON.parse(event.body || '{}');
+      } catch {
+        return {
+          statusCode: 400,
+          headers: corsHeaders,
+          body: JSON.stringify({ success: false, error: 'Invalid JSON body' }),
+        };
+      }
+
+      const scopeType = body.scope_type;
+      if (!isPolicyScope(scopeType)) {
+        return {
+          statusCode: 400,
+          headers: corsHeaders,
+          body: JSON.stringify({
+            success: false,
+            error: 'scope_type must be global, class, level, lesson or student',
+          }),
+        };
+      }
+      if (!isEnforcementMode(body.mode)) {
+        return {
+          statusCode: 400,
+          headers: corsHeaders,
+          body: JSON.stringify({
+            success: false,
+            error: 'mode must be log, warn_student, require_rerecord or block',
+          }),
+        };
+      }
+
+      let scopeValue = normalizeScopeValue(scopeType, body.scope_value);
+      if (scopeType !== 'global' && !scopeValue) {
+        return {
+          statusCode: 400,
+          headers: corsHeaders,
+          body: JSON.stringify({ success: false, error: `scope_value is required for ${scopeType} policies` }),
+        };
+      }
+      if (scopeType === 'student') {
+        const users = UUID_RE.test(scopeValue)
+          ? await sql`SELECT id::text AS id FROM users WHERE id = ${scopeValue}`
+          : await sql`SELECT id::text AS id FROM users WHERE school_student_id = ${scopeValue}`;
+        if (users.length === 0) {
+          return {
+            statusCode: 404,
+            headers: corsHeaders,
+            body: JSON.stringify({ success: false, error: `Student not found: ${scopeValue}` }),
+          };
+        }
+        scopeValue = (users[0] as { id: string }).id;
+      }
+
+      const notes = typeof body.notes === 'string' ? body.notes.trim() || null : null;
+      const enabled = body.enabled !== false;
+      const adminUserId = auth.userId || null;
+      const previous = await sql`
+        SELECT id::text AS id, scope_type, scope_value, mode, enabled, notes
+        FROM robotic_voice_policies
+        WHERE scope_type = ${scopeType} AND scope_value = ${scopeValue}
+      `;
+
+      const rows = await sql`
+        INSERT INTO robotic_voice_policies (scope_type, scope_value, mode, enabled, notes, created_by, updated_by)
+        VALUES (${scopeType}, ${scopeValue}, ${body.mode}, ${enabled}, ${notes}, ${adminUserId}, ${adminUserId})
+        ON CONFLICT (scope_type, scope_value) DO UPDATE
+        SET mode = EXCLUDED.mode,
+            enabled = EXCLUDED.enabled,
+            notes = EXCLUDED.notes,
+            updated_by = EXCLUDED.updated_by,
+            updated_at = NOW()
+        RETURNING id::text AS id, scope_type, scope_value, mode, enabled, notes, updated_at
+      `;
+
+      await recordAdminAudit(sql, auth, event, {
+        action: previous.length ? 'robot_voice_policy.update' : 'robot_voice_policy.create',
+        targetType: 'robot_voice_policy',
+        targetId: rows[0].id,
+        targetLabel: scopeValue ? `${scopeType}: ${scopeValue}` : scopeType,
+        targetUserIds: scopeType === 'student' ? [scopeValue] : [],
+        before: previous[0] ?? null,
+        after: rows[0],
+      });
+
+      return {
+        statusCode: 200,
+        headers: corsHeaders,
+        body: JSON.stringify({ success: true, policy: rows[0] }),
+      };
+    }
+
+    if (event.httpMethod === 'DELETE') {
+      let body: { id?: string };
+      try {
+        body = JSON.parse(event.body || '{}');
+      } catch {
+        return {
+          statusCode: 400,
+          headers: corsHeaders,
+          body: JSON.stringify({ success: false, error: 'Invalid JSON body' }),
+        };
+      }
+      const id = typeof body.id === 'string' ? body.id.trim() : '';
+      if (!UUID_RE.test(id)) {
+        return {
+          statusCode: 400,
+          headers: corsHeaders,
+          body: JSON.stringify({ success: false, error: 'id is required' }),
+        };
+      }
+      const rows = await sql`
+        DELETE FROM robotic_voice_policies WHERE id = ${id}
+        RETURNING id::text AS id, scope_type, scope_value, mode, enabled, notes
+      `;
+      if (rows.length > 0) {
+        const removed = rows[0];
+        await recordAdminAudit(sql, auth, event, {
+          action: 'robot_voice_policy.delete',
+          targetType: 'robot_voice_policy',
+          targetId: id,
+          targetLabel: removed.scope_value ? `${removed.scope_type}: ${removed.scope_value}` : removed.scope_type,
+          targetUserIds: removed.scope_type === 'student' ? [removed.scope_value] : [],
+          before: removed,
+          after: null,
+        });
+      }
+      return {
+        statusCode: rows.length > 0 ? 200 : 404,
+        headers: corsHeaders,
+        body: JSON.stringify(
+          rows.length > 0 ? { success: true } : { success: false, error: 'Policy not found' }
+        ),
+      };
+    }
+
+    return {
+      statusCode: 405,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  } catch (error) {
+    console.error('admin-robot-voice-policy error:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: false, error: 'Internal server error' }),
+    };
+  }
+});
@@ -0,0 +1,241 @@
+import { Handler } from '@netlify/functions'
+import { neon, type NeonQueryPromise } from '@neondatabase/serverless'
+import bcrypt from 'bcryptjs'
+import { recordAdminAudit } from './lib/admin-audit.js'
+import { withAuth } from './lib/auth.js'
+import {
+  DEFAULT_STUDENT_EMAIL_DOMAIN,
+  generateInitialPassword,
+  normalizeRosterRows,
+  planRosterImport,
+  summarizeRosterPlan,
+  type ExistingRosterUser,
+} from './lib/roster-import.js'
+
+/**
+ * Student roster import (see lib/roster-import). Admin only.
+ *
+ * POST { action: 'preview' | 'commit', rows: [{ ID, Nick, Honorific?, First name?, Last name? }],
+ *        class_id?, reset_passwords?, email_domain? }
+ *   preview → { plan, summary, errors }
+ *   commit  → { summary, credentials: [{ school_student_id, username, password, nickname, ... }] }
+ *
+ * Commit re-plans server-side and refuses (409) while any row errors or conflicts. New students
+ * get a random initial password; existing students keep theirs unless reset_passwords is set.
+ * All writes run in one sql.transaction batch and credentials are returned only after it commits;
+ * class_id also adds every imported student to that class.
+ */
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const DOMAIN_RE = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i
+/** Initial passwords are random and meant to be changed; cost 10 keeps a class import within the timeout */
+const INITIAL_PASSWORD_SALT_ROUNDS = 10
+
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Content-Type': 'application/json',
+}
+
+export const handler: Handler = withAuth({ roles: ['admin'], headers }, async (event, _context, auth) => {
+  if (event.httpMethod !== 'POST') {
+    return { statusCode: 405, headers, body: JSON.stringify({ success: false, error: 'Method not allowed' }) } as any
+  }
+
+  const databaseUrl = process.env.NEON_DATABASE_URL
+  if (!databaseUrl) {
+    return { statusCode: 500, headers, body: JSON.stringify({ success: false, error: 'Database configuration error' }) } as any
+  }
+
+  const sql = neon(databaseUrl)
+  const badRequest = (error: string) =>
+    ({ statusCode: 400, headers, body: JSON.stringify({ success: false, error }) }) as any
+
+  let body: Record<string, any> = {}
+  try {
+    body = event.body ? JSON.parse(event.body) : {}
+  } catch {
+    return badRequest('Invalid JSON body')
+  }
+
+  const action = body.action === 'commit' ? 'commit' : body.action === 'preview' ? 'preview' : ''
+  if (!action) return badRequest('action must be preview or commit')
+  if (!Array.isArray(body.rows)) return badRequest('rows must be an array')
+  const emailDomain =
+    typeof body.email_domain === 'string' && body.email_domain.trim()
+      ? body.email_domain.trim().toLowerCase()
+      : DEFAULT_STUDENT_EMAIL_DOMAIN
+  if (!DOMAIN_RE.test(emailDomain)) return badRequest('Invalid email_domain')
+  const classId = typeof body.class_id === 'string' ? body.class_id.trim() : ''
+  if (classId && !UUID_RE.test(classId)) return badRequest('Invalid class_id')
+  const resetPasswords = body.reset_passwords === true
+
+  try {
+    const { rows, errors } = normalizeRosterRows(body.rows)
+    if (rows.length === 0 && errors.length === 0) return badRequest('No rows with a student ID')
+
+    const ids = rows.map((r) => r.school_student_id)
+    const emails = ids.map((id) => `${id}@${emailDomain}`.toLowerCase())
+    const existing = (ids.length === 0
+      ? []
+      : await sql`
+          SELECT id::text as id, role, email, username, school_student_id, nickname, honorific, first_name, last_name
+          FROM users
+          WHERE school_student_id = ANY(${ids}::text[])
+             OR LOWER(username) = ANY(${ids.map((id) => id.toLowerCase())}::text[])
+             OR LOWER(email) = ANY(${emails}::text[])
+        `) as ExistingRosterUser[]
+
+    const plan = planRosterImport(rows, existing, emailDomain)
+    const summary = summarizeRosterPlan(plan)
+
+    if (classId) {
+      const cls = await sql`SELECT 1 FROM classes WHERE id = ${classId}::uuid`
+      if (cls.length === 0) return badRequest('Class not found')
+    }
+
+    if (action === 'preview') {
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({ success: true, plan, summary, errors }),
+      } as any
+    }
+
+    if (errors.length > 0 || summary.conflict > 0) {
+      return {
+        statusCode: 409,
+        headers,
+        body: JSON.stringify({
+          success: false,
+          error: 'Fix the errors and conflicts in the preview before importing',
+          plan,
+          summary,
+          errors,
+        }),
+      } as any
+    }
+
+    // Hash up front so the transaction stays short
+    const passwords = new Map<string, { password: string; hash: string }>()
+    for (const item of plan) {
+      if (item.action === 'create' || (resetPasswords && item.user_id)) {
+        const password = generateInitialPassword()
+        passwords.set(item.school_student_id, {
+          password,
+          hash: await bcrypt.hash(password, INITIAL_PASSWORD_SALT_ROUNDS),
+        })
+      }
+    }
+
+    // neon() runs each query as its own HTTP request, so the writes go out as one sql.transaction
+    // batch. A new student's class membership rides in the same statement as the INSERT because
+    // the id isn't known until then.
+    const queries: NeonQueryPromise<false, false>[] = []
+    const createQueryIndex = new Map<string, number>()
+    for (const item of plan) {
+      const secret = passwords.get(item.school_student_id)
+      if (item.action === 'create' && secret) {
+        createQueryIndex.set(item.school_student_id, queries.length)
+        queries.push(sql`
+          WITH created AS (
+            INSERT INTO users (
+              email, username, first_name, last_name, password_hash, level, role, email_verified,
+              school_student_id, honorific, nickname, current_student_lesson
+            )
+            VALUES (
+              ${item.email}, ${item.school_student_id}, ${item.first_name}, ${item.last_name}, ${secret.hash},
+              NULL, 'student', TRUE, ${item.school_student_id}, ${item.honorific}, ${item.nickname}, 1
+            )
+            RETURNING id
+          )${classId
+            ? sql`, enrolled AS (
+                INSERT INTO class_students (class_id, user_id, added_by)
+                SELECT ${classId}::uuid, id, ${auth.userId} FROM created
+                ON CONFLICT DO NOTHING
+              )`
+            : sql``}
+          SELECT id::text as id FROM created
+        `)
+        continue
+      }
+      if (!item.user_id) continue
+      if (item.action === 'update' || secret) {
+        queries.push(sql`
+          UPDATE users
+          SET nickname = ${item.nickname},
+              honorific = ${item.honorific},
+              first_name = ${item.first_name},
+              last_name = ${item.last_name},
+              password_hash = COALESCE(${secret?.hash ?? null}, password_hash),
+              updated_at = NOW()
+          WHERE id = ${item.user_id}::uuid
+        `)
+      }
+      if (classId) {
+        queries.push(sql`
+          INSERT INTO class_students (class_id, user_id, added_by)
+          VALUES (${classId}::uuid, ${item.user_id}::uuid, ${auth.userId})
+          ON CONFLICT DO NOTHING
+        `)
+      }
+    }
+
+    const results = queries.length > 0 ? await sql.transaction(queries) : []
+
+    // Committed: only now hand out the generated passwords
+    const credentials: Array<{
+      school_student_id: string
+      username: string
+      password: string
+      nickname: string | null
+      honorific: string | null
+      first_name: string | null
+      last_name: string | null
+      status: 'created' | 'password_reset'
+    }> = []
+    const importedUserIds: string[] = []
+    for (const item of plan) {
+      const secret = passwords.get(item.school_student_id)
+      const createIndex = createQueryIndex.get(item.school_student_id)
+      const userId =
+        createIndex !== undefined ? String((results[createIndex] as Array<{ id: string }>)[0].id) : item.user_id
+      if (userId) importedUserIds.push(userId)
+      if (secret) {
+        credentials.push({
+          school_student_id: item.school_student_id,
+          username: item.school_student_id,
+          password: secret.password,
+          nickname: item.nickname,
+          honorific: item.honorific,
+          first_name: item.first_name,
+          last_name: item.last_name,
+          status: item.action === 'create' ? 'created' : 'password_reset',
+        })
+      }
+    }
+
+    await recordAdminAudit(sql, auth, event, {
+      action: 'roster.import',
+      targetType: classId ? 'class' : 'roster',
+      targetId: classId || null,
+      targetUserIds: importedUserIds,
+      before: existing.filter((u) => importedUserIds.includes(u.id)),
+      after: {
+        summary,
+        reset_passwords: resetPasswords,
+        rows: plan.map(({ school_student_id, action, changes }) => ({ school_student_id, action, changes })),
+      },
+    })
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({ success: true, summary, credentials }),
+    } as any
+  } catch (e) {
+    console.error('admin-roster-import error', e)
+    return { statusCode: 500, headers, body: JSON.stringify({ success: false, error: (e as Error).message }) } as any
+  }
+})
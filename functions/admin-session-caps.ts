@@ -0,0 +1,133 @@
+import { Handler } from '@netlify/functions';
+import { neon } from '@neondatabase/serverless';
+import { recordAdminAudit } from './lib/admin-audit.js';
+import { withAuth } from './lib/auth.js';
+import { DEFAULT_SESSION_CAP } from './lib/user-sessions.js';
+
+/**
+ * Per-role caps on active login sessions (session_caps; see lib/user-sessions).
+ *
+ * GET    → { caps: [{ role, max_sessions, is_default, updated_at }], default_cap }
+ * POST   → { role, max_sessions } sets a role's cap (1–50); applies from the next sign-in, and
+ *          cleanup-sessions signs out sessions over a lowered cap
+ * DELETE → { role } goes back to the default cap
+ */
+
+const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+};
+
+const ROLES = ['student', 'user', 'teacher', 'admin'];
+
+export const handler: Handler = withAuth({ roles: ['admin'], headers: corsHeaders }, async (event, _context, auth) => {
+  const databaseUrl = process.env.NEON_DATABASE_URL;
+  if (!databaseUrl) {
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: false, error: 'Database configuration error' }),
+    };
+  }
+
+  const sql = neon(databaseUrl);
+
+  try {
+    if (event.httpMethod === 'GET') {
+      const rows = await sql`SELECT role, max_sessions, updated_at FROM session_caps`;
+      const byRole = new Map(rows.map((r) => [r.role as string, r]));
+      const caps = ROLES.map((role) => {
+        const row = byRole.get(role);
+        return {
+          role,
+          max_sessions: row ? Number(row.max_sessions) : DEFAULT_SESSION_CAP,
+          is_default: !row,
+          updated_at: row?.updated_at ?? null,
+        };
+      });
+      return {
+        statusCode: 200,
+        headers: corsHeaders,
+        body: JSON.stringify({ success: true, caps, default_cap: DEFAULT_SESSION_CAP }),
+      };
+    }
+
+    if (event.httpMethod !== 'POST' && event.httpMethod !== 'DELETE') {
+      return {
+        statusCode: 405,
+        headers: corsHeaders,
+        body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+      };
+    }
+
+    let body: { role?: unknown; max_sessions?: unknown };
+    try {
+      body = JSON.parse(event.body || '{}');
+    } catch {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({ success: false, error: 'Invalid JSON body' }),
+      };
+    }
+
+    const role = typeof body.role === 'string' ? body.role : '';
+    if (!ROLES.includes(role)) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({ success: false, error: `role must be one of: ${ROLES.join(', ')}` }),
+      };
+    }
+
+    const previous = await sql`SELECT max_sessions FROM session_caps WHERE role = ${role}`;
+    const audit = (maxSessions: number | null) =>
+      recordAdminAudit(sql, auth, event, {
+        action: maxSessions === null ? 'session_cap.reset' : 'session_cap.update',
+        targetType: 'session_cap',
+        targetId: role,
+        before: { max_sessions: previous[0] ? Number(previous[0].max_sessions) : null },
+        after: { max_sessions: maxSessions },
+      });
+
+    if (event.httpMethod === 'DELETE') {
+      await sql`DELETE FROM session_caps WHERE role = ${role}`;
+      await audit(null);
+      return {
+        statusCode: 200,
+        headers: corsHeaders,
+        body: JSON.stringify({ success: true, role, max_sessions: DEFAULT_SESSION_CAP }),
+      };
+    }
+
+    const maxSessions = Number(body.max_sessions);
+    if (!Number.isInteger(maxSessions) || maxSessions < 1 || maxSessions > 50) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({ success: false, error: 'max_sessions must be a whole number from 1 to 50' }),
+      };
+    }
+
+    await sql`
+      INSERT INTO session_caps (role, max_sessions, updated_at)
+      VALUES (${role}, ${maxSessions}, NOW())
+      ON CONFLICT (role) DO UPDATE SET max_sessions = EXCLUDED.max_sessions, updated_at = NOW()
+    `;
+    await audit(maxSessions);
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: true, role, max_sessions: maxSessions }),
+    };
+  } catch (error) {
+    console.error('admin-session-caps error:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: false, error: 'Internal server error' }),
+    };
+  }
+});
@@ -1,44 +1,14 @@
 import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
+import { withAuth } from './lib/auth.js';
 
-// Reuse the same admin auth pattern as other admin functions
-async function authenticateAdmin(event: any): Promise<boolean> {
-  try {
-    const cookies = event.headers?.cookie || '';
-    const cookieArray = cookies.split(';');
-    const tokenCookie = cookieArray.find((c: string) => c.trim().startsWith('admin_token='));
-
-    if (!tokenCookie) return false;
-
-    const token = tokenCookie.split('=')[1];
-
-    const jwt = await import('jsonwebtoken');
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) return false;
-
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    return decoded.role === 'admin';
-  } catch (error) {
-    return false;
-  }
-}
-
-export const handler: Handler = async (event) => {
-  const headers = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    'Access-Control-Allow-Methods': 'GET, OPTIONS'
-  };
-
-  // CORS preflight
-  if (event.httpMethod === 'OPTIONS') {
-    return {
-      statusCode: 200,
-      headers,
-      body: ''
-    } as any;
-  }
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS'
+};
 
+export const handler: Handler = withAuth({ roles: ['admin'], headers }, async (event) => {
   if (event.httpMethod !== 'GET') {
     return {
       statusCode: 405,
@@ -48,16 +18,6 @@ export const handler: Handler = async (event) => {
   }
 
   try {
-    // Check admin authentication
-    const isAdmin = await authenticateAdmin(event);
-    if (!isAdmin) {
-      return {
-        statusCode: 401,
-        headers,
-        body: JSON.stringify({ success: false, error: 'Admin authentication required' })
-      } as any;
-    }
-
     const databaseUrl = process.env.NEON_DATABASE_URL;
     if (!databaseUrl) {
       console.error('NEON_DATABASE_URL not configured');
@@ -191,5 +151,5 @@ export const handler: Handler = async (event) => {
       body: JSON.stringify({ success: false, error: 'Internal server error' })
     } as any;
   }
-};
+});
 
@@ -0,0 +1,427 @@
+import { Handler } from '@netlify/functions';
+import { neon, type NeonQueryFunction, type NeonQueryPromise } from '@neondatabase/serverless';
+import { recordAdminAudit } from './lib/admin-audit';
+import { withAuth } from './lib/auth';
+import { isDeliveryMode } from './lib/robotic-voice-corpus';
+import {
+  LOW_SCORE_MAX,
+  OUTLIER_DROP,
+  OUTLIER_MIN_JOBS,
+  STUDENT_SPEAKING_ACTIVITY_TYPES,
+  buildClassifierLabel,
+  isReviewReason,
+  isReviewVerdict,
+  reviewReasonsForJob,
+  speechJobActivity,
+  suggestedDeliveryMode,
+} from './lib/speech-review';
+
+/**
+ * Teacher review queue for suspicious speaking recordings (see lib/speech-review).
+ *
+ * GET  ?status=pending|confirmed|cleared|all &reason=would_flag|consecutive_repetition|low_score
+ *      &days=30 &userSearch= &page= &limit=
+ * POST { job_id, verdict: confirmed|cleared, delivery_mode?: speaking|reading|tts|null, note?, reset_activity? }
+ *
+ * reset_activity (confirmed only) fails the speech job and deletes the student's result for the
+ * activity the recording belongs to (see speechJobActivity), so that activity has to be recorded
+ * again. Other activities in the lesson keep their results.
+ */
+
+const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const RESET_ERROR_MSG = 'Your teacher asked you to record this answer again.';
+
+type Sql = NeonQueryFunction<false, false>;
+
+/** SQL side of reviewReasonsForJob; `us` is the per-student score CTE. */
+function reasonCondition(sql: Sql, reason: string | null) {
+  const wouldFlag = sql`sj.robotic_voice_would_flag = TRUE`;
+  const repetition = sql`sj.result_json->>'reason' = 'consecutive_repetition'`;
+  const lowScore = sql`(
+    sj.status = 'completed'
+    AND jsonb_typeof(sj.result_json->'overall_score') = 'number'
+    AND (
+      (sj.result_json->>'overall_score')::numeric <= ${LOW_SCORE_MAX}
+      OR (us.scored_jobs >= ${OUTLIER_MIN_JOBS} AND (sj.result_json->>'overall_score')::numeric <= us.avg_score - ${OUTLIER_DROP})
+    )
+  )`;
+  if (reason === 'would_flag') return wouldFlag;
+  if (reason === 'consecutive_repetition') return repetition;
+  if (reason === 'low_score') return lowScore;
+  return sql`(${wouldFlag} OR ${repetition} OR ${lowScore})`;
+}
+
+function statusCondition(sql: Sql, status: string) {
+  if (status === 'confirmed' || status === 'cleared') return sql`r.verdict = ${status}`;
+  if (status === 'all') return sql`TRUE`;
+  return sql`r.id IS NULL`;
+}
+
+export const handler: Handler = withAuth({ roles: ['admin'], headers: corsHeaders }, async (event, _context, auth) => {
+  const databaseUrl = process.env.NEON_DATABASE_URL;
+  if (!databaseUrl) {
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: false, error: 'Database configuration error' }),
+    };
+  }
+
+  const sql = neon(databaseUrl);
+
+  try {
+    if (event.httpMethod === 'GET') {
+      const q = event.queryStringParameters || {};
+      const status = q.status || 'pending';
+      const reason = isReviewReason(q.reason) ? q.reason : null;
+      const days = Math.min(180, Math.max(1, parseInt(q.days || '30', 10) || 30));
+      const userSearch = (q.userSearch || '').trim() || null;
+      const page = Math.max(1, parseInt(q.page || '1', 10) || 1);
+      const limit = Math.min(100, Math.max(1, parseInt(q.limit || '50', 10) || 50));
+      const offset = (page - 1) * limit;
+
+      const fromJobs = () => sql`
+        FROM speech_jobs sj
+        LEFT JOIN (
+          SELECT user_id,
+                 AVG((result_json->>'overall_score')::numeric)::float AS avg_score,
+                 COUNT(*)::int AS scored_jobs
+          FROM speech_jobs
+          WHERE status = 'completed'
+            AND jsonb_typeof(result_json->'overall_score') = 'number'
+            AND created_at >= NOW() - INTERVAL '180 days'
+          GROUP BY user_id
+        ) us ON us.user_id = sj.user_id
+        LEFT JOIN speech_job_reviews r ON r.job_id = sj.id
+        LEFT JOIN users u ON u.id = sj.user_id
+        WHERE sj.created_at >= NOW() - (${days} * INTERVAL '1 day')
+          AND ${reasonCondition(sql, reason)}
+          AND ${statusCondition(sql, status)}
+          ${userSearch ? sql`AND (u.username ILIKE ${'%' + userSearch + '%'} OR u.school_student_id ILIKE ${'%' + userSearch + '%'} OR u.email ILIKE ${'%' + userSearch + '%'})` : sql``}
+      `;
+
+      const [rows, countRows] = await Promise.all([
+        sql`
+          SELECT
+            sj.id::text AS job_id,
+            sj.user_id::text AS user_id,
+            u.username AS user_username,
+            u.school_student_id,
+            sj.lesson_id,
+            sls.topic AS student_lesson_topic,
+            sj.prompt,
+            sj.transcript,
+            sj.status,
+            sj.error,
+            sj.result_json,
+            sj.robotic_voice_score,
+            sj.robotic_voice_would_flag,
+            sj.robotic_voice_rules,
+            sj.created_at,
+            us.avg_score AS user_avg_score,
+            us.scored_jobs AS user_scored_jobs,
+            r.verdict,
+            r.delivery_mode AS review_delivery_mode,
+            r.note AS review_note,
+            r.activity_reset,
+            r.reviewed_at,
+            reviewer.username AS reviewed_by_username
+          ${fromJobs()}
+          LEFT JOIN student_lessons sls ON sls.id::text = sj.lesson_id::text
+          LEFT JOIN users reviewer ON reviewer.id = r.reviewed_by
+          ORDER BY sj.created_at DESC
+          LIMIT ${limit} OFFSET ${offset}
+        `,
+        sql`SELECT COUNT(*)::int AS total ${fromJobs()}`,
+      ]);
+
+      const items = (rows as any[]).map((row) => {
+        const resultJson = (row.result_json || null) as Record<string, any> | null;
+        const reasons = reviewReasonsForJob({
+          status: row.status,
+          robotic_voice_would_flag: row.robotic_voice_would_flag,
+          result_json: resultJson,
+          user_avg_score: row.user_avg_score,
+          user_scored_jobs: row.user_scored_jobs,
+        });
+        const signals = resultJson?.robotic_voice?.signals || null;
+        return {
+          job_id: row.job_id,
+          user_id: row.user_id,
+          user_username: row.user_username || null,
+          school_student_id: row.school_student_id || null,
+          lesson_id: row.lesson_id,
+          student_lesson_topic: row.student_lesson_topic ?? null,
+          prompt: row.prompt,
+          transcript: row.transcript,
+          status: row.status,
+          error: row.error || null,
+          created_at: row.created_at,
+          overall_score: typeof resultJson?.overall_score === 'number' ? resultJson.overall_score : null,
+          user_avg_score: row.user_avg_score != null ? Math.round(row.user_avg_score) : null,
+          robotic_voice_score: row.robotic_voice_score,
+          robotic_voice_rules: row.robotic_voice_rules || null,
+          delivery_mode: typeof signals?.delivery_mode === 'string' ? signals.delivery_mode : null,
+          repeated: resultJson?.reason === 'consecutive_repetition' ? resultJson.repeated ?? null : null,
+          reasons,
+          suggested_delivery_mode: {
+            confirmed: suggestedDeliveryMode(reasons, 'confirmed'),
+            cleared: suggestedDeliveryMode(reasons, 'cleared'),
+          },
+          review: row.verdict
+            ? {
+                verdict: row.verdict,
+                delivery_mode: row.review_delivery_mode,
+                note: row.review_note,
+                activity_reset: row.activity_reset,
+                reviewed_at: row.reviewed_at,
+                reviewed_by_username: row.reviewed_by_username,
+              }
+            : null,
+        };
+      });
+
+      const total = (countRows as Array<{ total: number }>)[0]?.total || 0;
+      const totalPages = Math.max(1, Math.ceil(total / limit));
+      return {
+        statusCode: 200,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          success: true,
+          items,
+          pagination: { page, limit, total, totalPages, hasNext: page < totalPages, hasPrev: page > 1 },
+        }),
+      };
+    }
+
+    if (event.httpMethod === 'POST') {
+      let body: {
+        job_id?: string;
+        verdict?: string;
+        delivery_mode?: string | null;
+        note?: string;
+        reset_activity?: boolean;
+      };
+      try {
+        body = JSON.parse(event.body || '{}');
+      } catch {
+        return {
+          statusCode: 400,
+          headers: corsHeaders,
+          body: JSON.stringify({ success: false, error: 'Invalid JSON body' }),
+        };
+      }
+
+      const jobId = typeof body.job_id === 'string' ? body.job_id.trim() : '';
+      if (!UUID_RE.test(jobId)) {
+        return {
+          statusCode: 400,
+          headers: corsHeaders,
+          body: JSON.stringify({ success: false, error: 'job_id is required' }),
+        };
+      }
+      const verdict = body.verdict;
+      if (!isReviewVerdict(verdict)) {
+        return {
+          statusCode: 400,
+          headers: corsHeaders,
+          body: JSON.stringify({ success: false, error: 'verdict must be confirmed or cleared' }),
+        };
+      }
+      const deliveryMode = body.delivery_mode == null || body.delivery_mode === '' ? null : body.delivery_mode;
+      if (deliveryMode !== null && !isDeliveryMode(deliveryMode)) {
+        return {
+          statusCode: 400,
+          headers: corsHeaders,
+          body: JSON.stringify({ success: false, error: 'delivery_mode must be speaking, reading or tts' }),
+        };
+      }
+      const resetActivity = body.reset_activity === true;
+      if (resetActivity && verdict !== 'confirmed') {
+        return {
+          statusCode: 400,
+          headers: corsHeaders,
+          body: JSON.stringify({ success: false, error: 'Only confirmed reviews can reset the activity' }),
+        };
+      }
+      const note = typeof body.note === 'string' ? body.note.trim() || null : null;
+
+      const jobRows = (await sql`
+        SELECT
+          sj.id::text AS id,
+          sj.user_id::text AS user_id,
+          sj.lesson_id,
+          sj.prompt_id,
+          sj.status,
+          sj.result_json,
+          sj.robotic_voice_would_flag,
+          us.avg_score,
+          us.scored_jobs
+        FROM speech_jobs sj
+        LEFT JOIN LATERAL (
+          SELECT AVG((o.result_json->>'overall_score')::numeric)::float AS avg_score, COUNT(*)::int AS scored_jobs
+          FROM speech_jobs o
+          WHERE o.user_id = sj.user_id
+            AND o.status = 'completed'
+            AND jsonb_typeof(o.result_json->'overall_score') = 'number'
+            AND o.created_at >= NOW() - INTERVAL '180 days'
+        ) us ON TRUE
+        WHERE sj.id = ${jobId}
+      `) as any[];
+      const job = jobRows[0];
+      if (!job) {
+        return {
+          statusCode: 404,
+          headers: corsHeaders,
+          body: JSON.stringify({ success: false, error: 'Speech job not found' }),
+        };
+      }
+
+      const reasons = reviewReasonsForJob({
+        status: job.status,
+        robotic_voice_would_flag: job.robotic_voice_would_flag,
+        result_json: job.result_json,
+        user_avg_score: job.avg_score,
+        user_scored_jobs: job.scored_jobs,
+      });
+      const adminUserId = auth.userId || null;
+      let activityRowsDeleted = 0;
+      const previousReview = await sql`
+        SELECT verdict, delivery_mode, note, activity_reset FROM speech_job_reviews WHERE job_id = ${jobId}
+      `;
+
+      // neon() sends each query as its own HTTP request; the review, label and reset go out as one
+      // sql.transaction batch so a reset never half-applies
+      const queries: NeonQueryPromise<false, false>[] = [
+        sql`
+          INSERT INTO speech_job_reviews (
+            job_id, user_id, reasons, verdict, delivery_mode, note, activity_reset, reviewed_by, reviewed_at
+          )
+          VALUES (
+            ${jobId}, ${job.user_id}, ${JSON.stringify(reasons)}::jsonb, ${verdict}, ${deliveryMode}, ${note},
+            ${resetActivity}, ${adminUserId}, NOW()
+          )
+          ON CONFLICT (job_id) DO UPDATE
+          SET reasons = EXCLUDED.reasons,
+              verdict = EXCLUDED.verdict,
+              delivery_mode = EXCLUDED.delivery_mode,
+              note = EXCLUDED.note,
+              activity_reset = speech_job_reviews.activity_reset OR EXCLUDED.activity_reset,
+              reviewed_by = EXCLUDED.reviewed_by,
+              reviewed_at = NOW()
+        `,
+      ];
+
+      // Teacher label → read-vs-speak training data (same key as public-track-recording)
+      const classifierKey = `read_vs_speak:recording:${jobId}`;
+      if (deliveryMode) {
+        const label = buildClassifierLabel(verdict, deliveryMode, reasons);
+        queries.push(sql`
+          INSERT INTO classifier_store (key, kind, payload, updated_at)
+          VALUES (
+            ${classifierKey},
+            'recording',
+            ${JSON.stringify({ storage_filename: `${jobId}.features.JSON`, label })}::jsonb,
+            NOW()
+          )
+          ON CONFLICT (key) DO UPDATE SET
+            payload = classifier_store.payload || jsonb_build_object('label', EXCLUDED.payload->'label'),
+            updated_at = NOW()
+        `);
+      } else {
+        queries.push(sql`
+          UPDATE classifier_store
+          SET payload = payload - 'label', updated_at = NOW()
+          WHERE key = ${classifierKey} AND payload->'label'->>'source' = 'teacher_review'
+        `);
+      }
+
+      let deleteQueryIndex = -1;
+      if (resetActivity && job.user_id) {
+        queries.push(sql`
+          UPDATE speech_jobs
+          SET status = 'failed',
+              error = ${RESET_ERROR_MSG},
+              result_json = jsonb_build_object('reason', 'teacher_review_reset', 'previous_result', result_json),
+              updated_at = NOW()
+          WHERE id = ${jobId}
+        `);
+        const activity = speechJobActivity(job.prompt_id);
+        if (job.lesson_id && activity) {
+          deleteQueryIndex = queries.length;
+          queries.push(
+            activity.track === 'student'
+              ? sql`
+                  DELETE FROM student_lesson_activity_results
+                  WHERE user_id = ${job.user_id}
+                    AND student_lesson_id::text = ${job.lesson_id}
+                    AND activity_id = ${activity.activityId}::uuid
+                    AND activity_type = ANY(${STUDENT_SPEAKING_ACTIVITY_TYPES})
+                  RETURNING id
+                `
+              : sql`
+                  DELETE FROM lesson_activity_results
+                  WHERE user_id = ${job.user_id}
+                    AND lesson_id::text = ${job.lesson_id}
+                    AND activity_type = ANY(${activity.activityTypes})
+                  RETURNING id
+                `
+          );
+        }
+      }
+
+      const results = await sql.transaction(queries);
+      if (deleteQueryIndex >= 0) activityRowsDeleted = results[deleteQueryIndex].length;
+
+      await recordAdminAudit(sql, auth, event, {
+        action: resetActivity ? 'speech_review.confirm_reset' : `speech_review.${verdict}`,
+        targetType: 'speech_job',
+        targetId: jobId,
+        targetUserIds: [job.user_id],
+        before: previousReview[0] ?? null,
+        after: {
+          verdict,
+          delivery_mode: deliveryMode,
+          reasons,
+          activity_reset: resetActivity,
+          activity_rows_deleted: activityRowsDeleted,
+        },
+        notes: note,
+      });
+
+      return {
+        statusCode: 200,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          success: true,
+          job_id: jobId,
+          verdict,
+          reasons,
+          labelled: deliveryMode !== null,
+          activity_reset: resetActivity,
+          activity_rows_deleted: activityRowsDeleted,
+        }),
+      };
+    }
+
+    return {
+      statusCode: 405,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  } catch (error) {
+    console.error('admin-speech-review-queue error:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ success: false, error: 'Internal server error' }),
+    };
+  }
+});
@@ -0,0 +1,165 @@
+import { Handler } from '@netlify/functions'
+import { neon, type NeonQueryFunction } from '@neondatabase/serverless'
+import { recordAdminAudit } from './lib/admin-audit.js'
+import { withAuth } from './lib/auth.js'
+import {
+  applyLessonPackage,
+  buildLessonPackage,
+  diffLessonPackage,
+  parseLessonPackage,
+  type LessonPackage,
+} from './lib/lesson-package.js'
+
+/**
+ * Student lesson import/export as a portable JSON package (see lib/lesson-package). Admin only.
+ *
+ * GET  ?lessonId=                  → { package }
+ * POST { action: 'preview', package } → { target, diff } or 422 { issues }
+ * POST { action: 'apply', package, expected_version } → { lesson: { id, version }, diff }
+ *
+ * The package is matched to a live lesson by slug, then lesson_number; with no match, apply
+ * creates the lesson (inactive). Apply needs the version the preview was made against and
+ * refuses (409) if the lesson changed since. Activities are updated in place by
+ * activity_order so stored results keep their activity_id; activities missing from the
+ * package are deactivated, and item lists are replaced. Every apply bumps student_lessons.version
+ * and snapshots the new version (lib/lesson-versions), so students pinned to the old version
+ * keep seeing it until their attempt ends.
+ */
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+type Sql = NeonQueryFunction<false, false>
+
+async function loadActivities(sql: Sql, lessonId: string): Promise<Record<string, unknown>[]> {
+  const rows = await sql`
+    SELECT
+      sla.activity_type,
+      sla.activity_order,
+      sla.title,
+      sla.description,
+      sla.estimated_time_seconds,
+      sla.content,
+      COALESCE(
+        (SELECT json_agg(vi ORDER BY vi.sort_order, vi.id) FROM student_vocabulary_items vi WHERE vi.activity_id = sla.id),
+        '[]'
+      ) as vocabulary_items,
+      COALESCE(
+        (SELECT json_agg(gi ORDER BY gi.sort_order, gi.id) FROM student_grammar_items gi WHERE gi.activity_id = sla.id),
+        '[]'
+      ) as grammar_items,
+      COALESCE(
+        (SELECT json_agg(pi ORDER BY pi.sort_order, pi.id) FROM student_poll_items pi WHERE pi.activity_id = sla.id),
+        '[]'
+      ) as poll_items
+    FROM student_lesson_activities sla
+    WHERE sla.student_lesson_id = ${lessonId}::uuid AND sla.active = TRUE
+    ORDER BY sla.activity_order ASC
+  `
+  return rows as Record<string, unknown>[]
+}
+
+/** Live lessons sharing the package's slug or lesson number; more than one is a conflict. */
+async function findTargets(sql: Sql, pkg: LessonPackage): Promise<Record<string, unknown>[]> {
+  const rows = await sql`
+    SELECT id::text as id, lesson_number, topic, slug, live_duration_minutes, communication_goal,
+           grammar_focus, vocabulary_list, version
+    FROM student_lessons
+    WHERE lesson_number = ${pkg.lesson.lesson_number}
+       OR (${pkg.lesson.slug}::text IS NOT NULL AND slug = ${pkg.lesson.slug})
+  `
+  return rows as Record<string, unknown>[]
+}
+
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Content-Type': 'application/json',
+}
+
+export const handler: Handler = withAuth({ roles: ['admin'], headers }, async (event, _context, auth) => {
+
+  const databaseUrl = process.env.NEON_DATABASE_URL
+  if (!databaseUrl) {
+    return { statusCode: 500, headers, body: JSON.stringify({ success: false, error: 'Database configuration error' }) } as any
+  }
+
+  const sql = neon(databaseUrl)
+  const respond = (statusCode: number, payload: Record<string, unknown>) =>
+    ({ statusCode, headers, body: JSON.stringify(payload) }) as any
+
+  try {
+    if (event.httpMethod === 'GET') {
+      const lessonId = event.queryStringParameters?.lessonId?.trim() || ''
+      if (!UUID_RE.test(lessonId)) return respond(400, { success: false, error: 'lessonId is required' })
+      const lessonRows = await sql`SELECT * FROM student_lessons WHERE id = ${lessonId}::uuid`
+      if (!lessonRows.length) return respond(404, { success: false, error: 'Lesson not found' })
+      const activities = await loadActivities(sql, lessonId)
+      return respond(200, { success: true, package: buildLessonPackage(lessonRows[0], activities) })
+    }
+
+    if (event.httpMethod !== 'POST') return respond(405, { success: false, error: 'Method not allowed' })
+
+    let body: Record<string, any> = {}
+    try {
+      body = event.body ? JSON.parse(event.body) : {}
+    } catch {
+      return respond(400, { success: false, error: 'Invalid JSON body' })
+    }
+    const action = body.action
+    if (action !== 'preview' && action !== 'apply') {
+      return respond(400, { success: false, error: "action must be 'preview' or 'apply'" })
+    }
+
+    const { package: pkg, issues } = parseLessonPackage(body.package)
+    if (!pkg) return respond(422, { success: false, error: 'Invalid lesson package', issues })
+
+    const targets = await findTargets(sql, pkg)
+    if (targets.length > 1) {
+      const taken = targets.map((t) => `lesson ${t.lesson_number} (${t.slug || 'no slug'})`).join(' and ')
+      return respond(409, {
+        success: false,
+        error: `Package lesson number and slug belong to different lessons: ${taken}`,
+      })
+    }
+    const target = targets[0] || null
+    const live = target ? buildLessonPackage(target, await loadActivities(sql, String(target.id))) : null
+    const diff = diffLessonPackage(live, pkg)
+    const targetSummary = target
+      ? { id: String(target.id), lesson_number: Number(target.lesson_number), version: Number(target.version) }
+      : null
+
+    if (action === 'preview') {
+      return respond(200, { success: true, target: targetSummary, diff })
+    }
+
+    if (!diff.has_changes) {
+      return respond(200, { success: true, applied: false, lesson: targetSummary, diff })
+    }
+    const expectedVersion = Number.isInteger(body.expected_version) ? Number(body.expected_version) : null
+    if (target && expectedVersion !== Number(target.version)) {
+      return respond(409, {
+        success: false,
+        error: 'The lesson changed since the preview; preview the package again',
+        target: targetSummary,
+      })
+    }
+
+    const applied = await applyLessonPackage(sql, pkg, target, expectedVersion)
+    if (!applied) {
+      return respond(409, { success: false, error: 'The lesson changed since the preview; preview the package again' })
+    }
+    await recordAdminAudit(sql, auth, event, {
+      action: target ? 'student_lesson.import_update' : 'student_lesson.import_create',
+      targetType: 'student_lesson',
+      targetId: applied.id,
+      targetLabel: `${pkg.lesson.lesson_number}: ${pkg.lesson.topic}`,
+      before: targetSummary,
+      after: { ...applied, diff },
+    })
+    return respond(200, { success: true, applied: true, lesson: applied, diff })
+  } catch (e) {
+    console.error('admin-student-lesson-package error', e)
+    return respond(500, { success: false, error: (e as Error).message })
+  }
+})
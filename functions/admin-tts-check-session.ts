@@ -1,25 +1,6 @@
 import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
-
-async function authenticateAdmin(event: { headers?: { cookie?: string } }): Promise<{
-  ok: boolean;
-  adminUserId?: string;
-}> {
-  try {
-    const cookies = event.headers?.cookie || '';
-    const tokenCookie = cookies.split(';').find((c: string) => c.trim().startsWith('admin_token='));
-    if (!tokenCookie) return { ok: false };
-    const token = tokenCookie.split('=')[1];
-    const jwt = await import('jsonwebtoken');
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) return { ok: false };
-    const decoded = jwt.verify(token, jwtSecret) as { role?: string; userId?: string; id?: string };
-    if (decoded.role !== 'admin') return { ok: false };
-    return { ok: true, adminUserId: decoded.userId || decoded.id };
-  } catch {
-    return { ok: false };
-  }
-}
+import { withAuth } from './lib/auth';
 
 const DELIVERY_METHODS = new Set([
   'human_mic',
@@ -35,20 +16,7 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
 };
 
-export const handler: Handler = async (event) => {
-  if (event.httpMethod === 'OPTIONS') {
-    return { statusCode: 200, headers: corsHeaders, body: '' };
-  }
-
-  const auth = await authenticateAdmin(event);
-  if (!auth.ok) {
-    return {
-      statusCode: 401,
-      headers: corsHeaders,
-      body: JSON.stringify({ success: false, error: 'Admin authentication required' }),
-    };
-  }
-
+export const handler: Handler = withAuth({ roles: ['admin'], headers: corsHeaders }, async (event, _context, auth) => {
   const databaseUrl = process.env.NEON_DATABASE_URL;
   if (!databaseUrl) {
     return {
@@ -178,7 +146,7 @@ export const handler: Handler = async (event) => {
     const adminUserId =
       typeof body.admin_user_id === 'string' && body.admin_user_id.trim()
         ? body.admin_user_id.trim()
-        : auth.adminUserId || null;
+        : auth.userId || null;
 
     const rows = await sql`
       INSERT INTO admin_tts_check_sessions (
@@ -222,4 +190,4 @@ export const handler: Handler = async (event) => {
       body: JSON.stringify({ success: false, error: 'Internal server error' }),
     };
   }
-};
+});
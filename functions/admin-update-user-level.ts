@@ -1,34 +1,10 @@
 import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
+import { recordAdminAudit } from './lib/admin-audit.js';
+import { withAuth } from './lib/auth.js';
 
 const ALLOWED_LEVELS = ['Pre-A1', 'A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const;
 
-async function authenticateAdmin(event: { headers?: Record<string, string | undefined> }): Promise<boolean> {
-  try {
-    let token: string | null = null;
-    const authHeader = event.headers?.authorization || event.headers?.Authorization;
-    if (authHeader?.startsWith('Bearer ')) {
-      token = authHeader.substring(7);
-    } else {
-      const cookies = event.headers?.cookie || '';
-      const tokenCookie = cookies.split(';').find((c) => c.trim().startsWith('admin_token='));
-      if (tokenCookie) {
-        token = tokenCookie.split('=')[1];
-      }
-    }
-    if (!token) return false;
-
-    const jwt = await import('jsonwebtoken');
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) return false;
-
-    const decoded = jwt.verify(token, jwtSecret) as { role?: string };
-    return decoded.role === 'admin';
-  } catch {
-    return false;
-  }
-}
-
 function normalizeLevel(level: unknown): string | null {
   if (level === null || level === undefined || level === '') return null;
   if (typeof level !== 'string') return null;
@@ -37,13 +13,9 @@ function normalizeLevel(level: unknown): string | null {
   return trimmed;
 }
 
-export const handler: Handler = async (event) => {
-  const jsonHeaders = { 'Content-Type': 'application/json' };
-
-  if (event.httpMethod === 'OPTIONS') {
-    return { statusCode: 200, headers: jsonHeaders, body: '' };
-  }
+const jsonHeaders = { 'Content-Type': 'application/json' };
 
+export const handler: Handler = withAuth({ roles: ['admin'], headers: jsonHeaders }, async (event, _context, auth) => {
   if (event.httpMethod !== 'POST') {
     return {
       statusCode: 405,
@@ -52,15 +24,6 @@ export const handler: Handler = async (event) => {
     };
   }
 
-  const isAdmin = await authenticateAdmin(event);
-  if (!isAdmin) {
-    return {
-      statusCode: 401,
-      headers: jsonHeaders,
-      body: JSON.stringify({ success: false, error: 'Admin authentication required' }),
-    };
-  }
-
   try {
     const body = JSON.parse(event.body || '{}');
     const { userId, level: levelInput } = body;
@@ -123,6 +86,16 @@ export const handler: Handler = async (event) => {
       `[ADMIN] Updated level for ${user.email}: ${user.level ?? 'null'} → ${level ?? 'null'}`
     );
 
+    await recordAdminAudit(sql, auth, event, {
+      action: 'user.update_level',
+      targetType: 'user',
+      targetId: user.id,
+      targetLabel: user.email,
+      targetUserIds: [user.id],
+      before: { level: user.level },
+      after: { level: row.level },
+    });
+
     return {
       statusCode: 200,
       headers: jsonHeaders,
@@ -140,4 +113,4 @@ export const handler: Handler = async (event) => {
       body: JSON.stringify({ success: false, error: 'Failed to update user level' }),
     };
   }
-};
+});
@@ -1,40 +1,10 @@
 import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
+import { recordAdminAudit } from './lib/admin-audit.js';
+import { withAuth } from './lib/auth.js';
 
-// Admin authentication middleware
-async function authenticateAdmin(event: any): Promise<boolean> {
+const handler: Handler = withAuth({ roles: ['admin'] }, async (event, context, auth) => {
   try {
-    const cookies = event.headers?.cookie || '';
-    const cookieArray = cookies.split(';');
-    const tokenCookie = cookieArray.find((c: string) => c.trim().startsWith('admin_token='));
-
-    if (!tokenCookie) return false;
-
-    const token = tokenCookie.split('=')[1];
-
-    const jwt = await import('jsonwebtoken');
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) return false;
-
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    return decoded.role === 'admin';
-  } catch (error) {
-    return false;
-  }
-}
-
-const handler: Handler = async (event, context) => {
-  try {
-    // Check admin authentication
-    const isAdmin = await authenticateAdmin(event);
-    if (!isAdmin) {
-      return {
-        statusCode: 401,
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ success: false, error: 'Admin authentication required' })
-      } as any;
-    }
-
     // Get database connection
     const databaseUrl = process.env.NEON_DATABASE_URL;
     if (!databaseUrl) {
@@ -191,6 +161,14 @@ const handler: Handler = async (event, context) => {
         RETURNING *
       `;
 
+      await recordAdminAudit(sql, auth, event, {
+        action: 'vocabulary.create',
+        targetType: 'vocabulary_item',
+        targetId: insertResult[0].id,
+        targetLabel: english_word,
+        after: insertResult[0],
+      });
+
       return {
         statusCode: 201,
         headers: { 'Content-Type': 'application/json' },
@@ -223,6 +201,8 @@ const handler: Handler = async (event, context) => {
         } as any;
       }
 
+      const previous = await sql`SELECT * FROM vocabulary_items WHERE id = ${id}`;
+
       const updateResult = await sql`
         UPDATE vocabulary_items
         SET activity_id = ${activity_id}, english_word = ${english_word},
@@ -240,6 +220,15 @@ const handler: Handler = async (event, context) => {
         } as any;
       }
 
+      await recordAdminAudit(sql, auth, event, {
+        action: 'vocabulary.update',
+        targetType: 'vocabulary_item',
+        targetId: id,
+        targetLabel: updateResult[0].english_word,
+        before: previous[0] ?? null,
+        after: updateResult[0],
+      });
+
       return {
         statusCode: 200,
         headers: { 'Content-Type': 'application/json' },
@@ -262,10 +251,22 @@ const handler: Handler = async (event, context) => {
         } as any;
       }
 
-      await sql`
+      const deleted = await sql`
         DELETE FROM vocabulary_items WHERE id = ${vocabId}
+        RETURNING *
       `;
 
+      if (deleted.length) {
+        await recordAdminAudit(sql, auth, event, {
+          action: 'vocabulary.delete',
+          targetType: 'vocabulary_item',
+          targetId: vocabId,
+          targetLabel: deleted[0].english_word,
+          before: deleted[0],
+          after: null,
+        });
+      }
+
       return {
         statusCode: 200,
         headers: { 'Content-Type': 'application/json' },
@@ -291,6 +292,6 @@ const handler: Handler = async (event, context) => {
       body: JSON.stringify({ success: false, error: 'Internal server error' })
     } as any;
   }
-};
+});
 
 export { handler };
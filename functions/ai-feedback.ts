@@ -1,5 +1,15 @@
 import { Handler } from '@netlify/functions';
 import OpenAI from 'openai';
+import { neon } from '@neondatabase/serverless';
+import { checkRouteRateLimit, createRateLimitResponse } from './rate-limit';
+import {
+  aiQuotaResponse,
+  chatCompletionUsage,
+  checkAiQuota,
+  estimateAudioSeconds,
+  recordAiUsage,
+  resolveAiCaller,
+} from './lib/ai-usage';
 
 /**
  * POST: Audio or transcript → feedback in one response.
@@ -42,6 +52,8 @@ interface RequestBody {
   // When true, backend will detect if the student mostly repeats the question instead of answering
   // and return an explicit question_repetition error instead of normal feedback.
   detect_question_repetition?: boolean
+  // Lesson, for AI usage accounting
+  lesson_id?: string
 }
 
 const handler: Handler = async (event, context) => {
@@ -106,6 +118,24 @@ const handler: Handler = async (event, context) => {
       throw new Error('OpenAI API key is required but not configured. Please set OPENAI_API_KEY in your environment.');
     }
 
+    const databaseUrl = process.env.NEON_DATABASE_URL;
+    const sql = databaseUrl ? neon(databaseUrl) : null;
+    const caller = await resolveAiCaller(event, sql);
+    const rateLimit = await checkRouteRateLimit(event, 'ai_feedback', { userId: caller?.userId });
+    if (!rateLimit.allowed) {
+      return createRateLimitResponse(rateLimit, headers) as any;
+    }
+    const quota = await checkAiQuota(sql, caller);
+    if (!quota.allowed) {
+      return aiQuotaResponse(quota, headers) as any;
+    }
+    const usageOwner = {
+      feature: 'ai_feedback' as const,
+      userId: caller?.userId,
+      role: caller?.role,
+      lessonId: typeof body.lesson_id === 'string' ? body.lesson_id : null,
+    };
+
     const detectQuestionRepetition = body.detect_question_repetition === true;
 
     // TRANSCRIBE AUDIO (only if no transcription provided)
@@ -167,12 +197,23 @@ const handler: Handler = async (event, context) => {
         file: audioFile,
         model: 'whisper-1', // Correct for offline uploads/batch transcription
         language: 'en',
-        response_format: 'json',
+        // verbose_json for the duration Whisper bills by; the client's own figure is not trusted
+        response_format: 'verbose_json',
         temperature: 0
       });
+      const durationKnown = typeof transcriptionResult.duration === 'number' && transcriptionResult.duration > 0;
+      await recordAiUsage(sql, {
+        ...usageOwner,
+        provider: 'openai',
+        model: 'whisper-1',
+        audioSeconds: durationKnown
+          ? transcriptionResult.duration
+          : estimateAudioSeconds(audioBuffer.length, body.audio_mime_type),
+        metadata: durationKnown ? undefined : { duration_estimated: true },
+      });
 
-      // Log raw Whisper API response (terminal/console)
-      console.log('ai-feedback: [Whisper raw output]', JSON.stringify(transcriptionResult, null, 2));
+      // Log Whisper output (terminal/console); segments are left out, they are not used here
+      console.log('ai-feedback: [Whisper output]', JSON.stringify({ text: transcriptionResult.text, duration: transcriptionResult.duration }));
 
       transcription = transcriptionResult.text || '';
       transcription = transcription.trim();
@@ -338,6 +379,8 @@ AI integrity (only goal: detect AI-generated content read aloud):
         ]
       });
 
+      await recordAiUsage(sql, { ...usageOwner, ...chatCompletionUsage('gpt-5-mini', feedbackResponse?.usage) });
+
       const u = feedbackResponse?.usage;
       if (u) console.log('📊 Tokens used:', { prompt_tokens: u.prompt_tokens, completion_tokens: u.completion_tokens, total_tokens: u.total_tokens });
 
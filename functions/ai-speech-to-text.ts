@@ -2,6 +2,7 @@ import { Handler } from '@netlify/functions';
 import * as crypto from 'crypto';
 import OpenAI from 'openai';
 import { createClient } from '@supabase/supabase-js';
+import { getTranscriptionProvider } from './lib/transcription-provider';
 
 // Supabase client is optional here: if not configured, we fall back to a default prompt.
 const supabaseUrl = process.env.SUPABASE_URL;
@@ -9,14 +10,12 @@ const supabaseServiceKey = process.env.SUPABASE_SECRET_KEY || process.env.SUPABA
 const supabase = supabaseUrl && supabaseServiceKey ? createClient(supabaseUrl, supabaseServiceKey) : null;
 
 /**
- * POST: Audio → transcribe (AssemblyAI or Whisper) and optionally feedback in one response.
+ * POST: Audio → transcribe (AssemblyAI or Whisper, see TRANSCRIPTION_PROVIDER) and optionally feedback in one response.
  * Used by: SpeakingTest, lessons page, SpeakingImprovement.
  * For lesson speaking activity the preferred flow is speech-job + analysis-result (one request, then poll).
  */
 
-// Environment variables
-const ASSEMBLYAI_API_KEY = process.env.ASSEMBLYAI_API_KEY;
-const ASSEMBLYAI_BASE_URL = process.env.ASSEMBLYAI_BASE_URL || 'https://api.assemblyai.com';
+// Environment variables (transcription provider keys are read in lib/transcription-provider)
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 
 // Level-based minimum word count: A1/A2 = 20, B1/B2 = 40, C1/C2 = 60, 0 = no minimum (e.g. warmup)
@@ -78,181 +77,27 @@ function generateAudioHash(audioBlob: string) {
   return crypto.createHash('md5').update(sample).digest('hex');
 }
 
-async function transcribeAudioWithAssemblyAI(audioBlob: string, audioMimeType: string, context: any = null) {
-  if (!ASSEMBLYAI_API_KEY) {
-    throw new Error('AssemblyAI API key not configured');
-  }
-
+/**
+ * Transcribe with the configured provider (AssemblyAI unless TRANSCRIPTION_PROVIDER says otherwise).
+ */
+async function transcribeAudio(audioBlob: string, audioMimeType: string, context: any = null) {
+  const transcriber = getTranscriptionProvider('assemblyai');
   try {
-    // Convert base64 to buffer
-    const audioBuffer = Buffer.from(audioBlob, 'base64');
-    const bufferSizeMB = (audioBuffer.length / (1024 * 1024)).toFixed(2);
-    console.log(`Uploading audio to AssemblyAI: ${bufferSizeMB}MB (${audioBuffer.length} bytes), mime type: ${audioMimeType || 'auto-detect'}`);
-
-    // Determine Content-Type for upload
-    // AssemblyAI can auto-detect, but providing the correct type helps with metadata parsing
-    let contentType = 'application/octet-stream';
-    if (audioMimeType) {
-      // Normalize mime type
-      const normalizedMime = audioMimeType.toLowerCase().split(';')[0].trim();
-      if (normalizedMime === 'audio/webm' || normalizedMime.includes('webm')) {
-        contentType = 'audio/webm';
-      } else if (normalizedMime === 'audio/wav' || normalizedMime === 'audio/wave' || normalizedMime === 'audio/x-wav') {
-        contentType = 'audio/wav';
-      } else if (normalizedMime === 'audio/mp3' || normalizedMime === 'audio/mpeg') {
-        contentType = 'audio/mpeg';
-      }
-    }
-
-    // Upload audio to AssemblyAI
-    const uploadResponse = await fetch(`${ASSEMBLYAI_BASE_URL}/v2/upload`, {
-      method: 'POST',
-      headers: {
-        'Authorization': ASSEMBLYAI_API_KEY!,
-        'Content-Type': contentType
-      } as any,
-      body: audioBuffer
+    const result = await transcriber.transcribe({
+      audio: Buffer.from(audioBlob, 'base64'),
+      mimeType: audioMimeType,
+      context,
     });
-
-    if (!uploadResponse.ok) {
-      throw new Error(`Upload failed: ${uploadResponse.status}`);
-    }
-
-    const uploadResult = await uploadResponse.json();
-    const audioUrl = uploadResult.upload_url;
-    console.log('Audio uploaded to AssemblyAI:', audioUrl);
-
-    // Disable language_detection for WebM to avoid metadata issues
-    // WebM files can have incomplete metadata causing "no spoken audio" errors
-    // Always use English for all transcriptions
-    const isWebM = audioMimeType && (audioMimeType.toLowerCase().includes('webm') || contentType === 'audio/webm');
-
-    // Start transcription
-    const transcriptionResponse = await fetch(`${ASSEMBLYAI_BASE_URL}/v2/transcript`, {
-      method: 'POST',
-      headers: {
-        'Authorization': ASSEMBLYAI_API_KEY!,
-        'Content-Type': 'application/json'
-      } as any,
-      body: JSON.stringify({
-        audio_url: audioUrl,
-        // Disable language_detection to avoid metadata issues (especially for WebM)
-        language_detection: false, // Always disabled to prevent issues
-        language_code: 'en', // Always use English
-        punctuate: true,
-        format_text: true
-      })
-    });
-
-    if (!transcriptionResponse.ok) {
-      throw new Error(`Transcription request failed: ${transcriptionResponse.status}`);
-    }
-
-    const transcriptResult = await transcriptionResponse.json();
-    const transcriptId = transcriptResult.id;
-    console.log('Transcription started, ID:', transcriptId);
-
-    // Poll for completion with adaptive polling intervals
-    // Use longer intervals when queued, shorter when processing
-    let attempts = 0;
-    const minRemainingTime = 2000; // Leave 2 seconds buffer for response
-    const queuedPollInterval = 4000; // 4 seconds when queued (wait patiently for queue, no need to poll frequently)
-    const processingPollInterval = 1000; // 1 second when processing (check more often once it starts)
-    let currentStatus = 'queued';
-    let pollInterval = queuedPollInterval;
-
-    // Calculate max attempts based on remaining time (if available)
-    let maxAttempts = 20; // Default fallback
-    if (typeof context !== 'undefined' && context.getRemainingTimeInMillis) {
-      const initialTime = context.getRemainingTimeInMillis();
-      // Calculate max attempts: (remaining time - buffer) / average poll interval
-      // Use average of queued and processing intervals for calculation
-      const avgInterval = (queuedPollInterval + processingPollInterval) / 2;
-      maxAttempts = Math.floor((initialTime - minRemainingTime) / avgInterval);
-      maxAttempts = Math.max(10, Math.min(maxAttempts, 30)); // Between 10 and 30 attempts
-      console.log(`Calculated max attempts: ${maxAttempts} based on ${initialTime}ms remaining time`);
-    }
-
-    while (attempts < maxAttempts) {
-      // Check remaining time if context is available
-      let remainingTime = null;
-      if (typeof context !== 'undefined' && context.getRemainingTimeInMillis) {
-        remainingTime = context.getRemainingTimeInMillis();
-        if (remainingTime < minRemainingTime) {
-          console.log(`Insufficient time remaining: ${remainingTime}ms, need at least ${minRemainingTime}ms`);
-          throw new Error(`Transcription timeout: Insufficient time remaining (${remainingTime}ms)`);
-        }
-      }
-
-      const statusResponse = await fetch(`${ASSEMBLYAI_BASE_URL}/v2/transcript/${transcriptId}`, {
-        headers: {
-          'Authorization': ASSEMBLYAI_API_KEY!
-        } as any
-      });
-
-      if (!statusResponse.ok) {
-        throw new Error(`Status check failed: ${statusResponse.status}`);
-      }
-
-      const statusResult = await statusResponse.json();
-      const status = statusResult.status;
-      console.log(`Transcription status: ${status} (attempt ${attempts + 1})${remainingTime ? `, remaining: ${remainingTime}ms` : ''}`);
-
-      // Adapt polling interval based on status
-      if (status !== currentStatus) {
-        currentStatus = status;
-        if (status === 'queued') {
-          pollInterval = queuedPollInterval; // Longer interval when queued - wait for queue
-          console.log(`Status changed to queued, using ${pollInterval}ms polling interval (waiting for queue)`);
-        } else if (status === 'processing') {
-          pollInterval = processingPollInterval; // Shorter interval when processing - check more often
-          console.log(`Status changed to processing, using ${pollInterval}ms polling interval (actively processing)`);
-        }
-      } else if (status === 'queued' && pollInterval !== queuedPollInterval) {
-        // Ensure we're using the correct interval if still queued
-        pollInterval = queuedPollInterval;
-      } else if (status === 'processing' && pollInterval !== processingPollInterval) {
-        // Ensure we're using the correct interval if processing
-        pollInterval = processingPollInterval;
-      }
-
-      if (status === 'completed') {
-        return {
-          text: statusResult.text,
-          transcript_id: transcriptId
-        };
-      } else if (status === 'error') {
-        const errorMessage = statusResult.error || 'Unknown error';
-        // Check for the specific "no spoken audio" error related to language_detection
-        if (errorMessage.includes('language_detection') || errorMessage.includes('no spoken audio')) {
-          console.warn('Language detection error detected, this may be due to WebM metadata issues:', errorMessage);
-        }
-        throw new Error(`Transcription failed: ${errorMessage}`);
-      }
-
-      // Wait before next poll (use current adaptive interval)
-      await new Promise(resolve => setTimeout(resolve, pollInterval));
-      attempts++;
-    }
-
-    throw new Error('Transcription timeout');
-
+    return {
+      text: result.text,
+      transcript_id: result.transcript_id ?? null
+    };
   } catch (error: any) {
-    console.error('AssemblyAI error:', error);
-
-    // Since we always disable language_detection now, these errors shouldn't occur
-    // But if they do, log them for debugging
-    const isLanguageDetectionError = error.message && (
-      error.message.includes('language_detection') ||
-      error.message.includes('no spoken audio')
-    );
-
-    if (isLanguageDetectionError) {
+    console.error(`Transcription error (${transcriber.name}):`, error);
+    if (error.message && (error.message.includes('language_detection') || error.message.includes('no spoken audio'))) {
       console.warn('Language detection error occurred despite being disabled:', error.message);
-      console.warn('This suggests a configuration or API issue. Check AssemblyAI settings.');
     }
-
-    throw new Error(`Transcription failed: ${error.message}`);
+    throw new Error(error.message?.startsWith('Transcription failed') ? error.message : `Transcription failed: ${error.message}`);
   }
 }
 
@@ -610,9 +455,8 @@ const handler: Handler = async (event, context) => {
       };
     }
 
-    // Process audio with AssemblyAI for transcription
-    console.log('Processing audio with AssemblyAI...');
-    const transcriptionResult = await transcribeAudioWithAssemblyAI(audio_blob, audio_mime_type, context);
+    console.log('Processing audio for transcription...');
+    const transcriptionResult = await transcribeAudio(audio_blob, audio_mime_type, context);
     console.log('Transcription result:', transcriptionResult);
 
     if (!transcriptionResult.text || transcriptionResult.text.trim().length === 0) {
@@ -897,24 +741,6 @@ async function streamTranscribeAndAnalyze(
     const bufferSizeMB = (audioBuffer.length / (1024 * 1024)).toFixed(2);
     console.log(`🎤 Starting streaming transcription: ${bufferSizeMB}MB audio`);
 
-    // Determine file extension (prioritize M4A/AAC for better performance)
-    let fileExtension = 'm4a'; // Default to M4A (AAC) - better compression & speed
-    if (audioMimeType) {
-      const normalizedMime = audioMimeType.toLowerCase().split(';')[0].trim();
-      if (normalizedMime === 'audio/mp4' || normalizedMime.includes('mp4') || normalizedMime.includes('m4a')) {
-        fileExtension = 'm4a'; // M4A/AAC format (optimized)
-      } else if (normalizedMime === 'audio/webm' || normalizedMime.includes('webm')) {
-        fileExtension = 'webm'; // fallback
-      } else if (normalizedMime === 'audio/wav' || normalizedMime === 'audio/wave' || normalizedMime === 'audio/x-wav') {
-        fileExtension = 'wav';
-      } else if (normalizedMime === 'audio/mp3' || normalizedMime === 'audio/mpeg') {
-        fileExtension = 'mp3';
-      }
-    }
-
-    // Create audio file for OpenAI
-    const audioFile = new File([audioBuffer], `audio.${fileExtension}`, { type: audioMimeType || 'audio/webm' });
-
     // Progress callback: Starting transcription
     if (onProgress) {
       onProgress({
@@ -930,19 +756,13 @@ async function streamTranscribeAndAnalyze(
     // START TRANSCRIPTION (in background)
     const transcriptionPromise = (async () => {
       console.time('🎤 Transcription Time');
-      console.log('🎤 Transcribing with OpenAI Whisper...');
-
-      // Use correct model based on context - whisper-1 for offline/batch
-      const transcription = await openai.audio.transcriptions.create({
-        file: audioFile,
-        model: 'whisper-1', // Correct for offline uploads/batch transcription
-        language: 'en',
-        response_format: 'json',
-        temperature: 0
-      });
+      const transcriber = getTranscriptionProvider('openai');
+      console.log(`🎤 Transcribing with ${transcriber.name}...`);
 
-      // Log raw Whisper API response (terminal/console)
-      console.log('ai-speech-to-text: [Whisper raw output]', JSON.stringify(transcription, null, 2));
+      const transcription = await transcriber.transcribe({
+        audio: audioBuffer,
+        mimeType: audioMimeType || 'audio/webm'
+      });
 
       finalTranscript = transcription.text || '';
       transcriptionCompleted = true;
@@ -2,17 +2,9 @@ import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
 import bcrypt from 'bcryptjs';
 import * as jwt from 'jsonwebtoken';
-import { checkFailedAttemptsRateLimit, createRateLimitResponse, recordFailedAttempt } from './rate-limit';
+import { checkRouteRateLimit, createRateLimitResponse, getClientIdentifier, recordRateLimitFailure } from './rate-limit';
 import { getHeaders } from './cors-headers';
-
-// Helper to get client identifier (duplicated from rate-limit for use in logging)
-function getClientIdentifier(event: any): string {
-  const forwarded = event.headers?.['x-forwarded-for'] || event.headers?.['X-Forwarded-For'];
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
-  }
-  return event.headers?.['x-real-ip'] || event.headers?.['X-Real-Ip'] || event.clientContext?.identity?.sourceIp || 'unknown';
-}
+import { createUserSession } from './lib/user-sessions.js';
 
 const handler: Handler = async (event, context) => {
   // Only log in development
@@ -48,20 +40,11 @@ const handler: Handler = async (event, context) => {
 
   // Check rate limit for failed attempts (10 failed attempts per 15 minutes)
   // This prevents brute force attacks while allowing unlimited successful logins
-  const rateLimitResult = await checkFailedAttemptsRateLimit(event, {
-    maxAttempts: 10,
-    windowMs: 900000 // 15 minutes for failed attempts
-  });
+  const rateLimitResult = await checkRouteRateLimit(event, 'login');
 
   if (!rateLimitResult.allowed) {
-    console.log(`Auth-login: Rate limit exceeded for failed attempts from ${getClientIdentifier(event)}`);
-    return {
-      ...createRateLimitResponse(rateLimitResult),
-      headers: {
-        ...headers,
-        ...createRateLimitResponse(rateLimitResult).headers
-      }
-    } as any;
+    console.log(`Auth-login: Rate limit exceeded for failed attempts from ${getClientIdentifier(event) || 'unknown'}`);
+    return createRateLimitResponse(rateLimitResult, headers);
   }
 
   try {
@@ -152,10 +135,8 @@ const handler: Handler = async (event, context) => {
 
     if (!userResult || userResult.length === 0) {
       console.log('[AUTH] Login failed: User not found:', loginIdentifier);
-      // Record failed attempt (non-blocking)
-      recordFailedAttempt(event, { maxAttempts: 10, windowMs: 900000 }).catch(err => {
-        console.error('Failed to record failed attempt:', err);
-      });
+      // Counts toward the failed-login limit
+      await recordRateLimitFailure(event, 'login');
       return {
         statusCode: 401,
         headers: {
@@ -178,10 +159,8 @@ const handler: Handler = async (event, context) => {
     }
     if (!isValidPassword) {
       console.log('[AUTH] Login failed: Invalid password for user:', user.id);
-      // Record failed attempt (non-blocking)
-      recordFailedAttempt(event, { maxAttempts: 10, windowMs: 900000 }).catch(err => {
-        console.error('Failed to record failed attempt:', err);
-      });
+      // Counts toward the failed-login limit
+      await recordRateLimitFailure(event, 'login');
       return {
         statusCode: 401,
         headers: {
@@ -206,64 +185,39 @@ const handler: Handler = async (event, context) => {
       };
     }
 
-    const token = jwt.sign(
+    // Create session; the access token carries its id (sid) so signing the device out
+    // from "My devices" takes effect immediately
+    const sessionToken = jwt.sign(
       {
         userId: user.id,
-        email: user.email,
-        role: user.role,
-        type: 'access'
+        type: 'session'
       },
       jwtSecret,
-      { expiresIn: '24h' }
+      { expiresIn: '7d' }
     );
 
-    // Create session
-    const sessionToken = jwt.sign(
+    const { sessionId, signedOutDevices } = await createUserSession(sql, {
+      userId: user.id,
+      role: user.role,
+      sessionToken,
+      headers: event.headers
+    });
+    if (signedOutDevices > 0) {
+      console.log(`[Sessions] Signed out ${signedOutDevices} device(s) over the session cap for user ${user.id}`);
+    }
+
+    const token = jwt.sign(
       {
         userId: user.id,
-        type: 'session'
+        email: user.email,
+        role: user.role,
+        type: 'access',
+        sid: sessionId
       },
       jwtSecret,
-      { expiresIn: '7d' }
+      { expiresIn: '24h' }
     );
 
-    const sessionExpires = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-
-    // Create new session
-    await sql`
-      INSERT INTO user_sessions (user_id, session_token, expires_at)
-      VALUES (${user.id}, ${sessionToken}, ${sessionExpires.toISOString()})
-    `;
-
-    // Revoke old sessions in background (non-blocking)
-    // Keep only 3 most recent sessions per user (including the one we just created)
-    // This runs asynchronously and won't block the login response
-    sql`
-      WITH ranked_sessions AS (
-        SELECT
-          id,
-          ROW_NUMBER() OVER (
-            PARTITION BY user_id
-            ORDER BY created_at DESC
-          ) as session_rank
-        FROM user_sessions
-        WHERE user_id = ${user.id} AND expires_at >= NOW()
-      )
-      DELETE FROM user_sessions
-      WHERE id IN (
-        SELECT id FROM ranked_sessions WHERE session_rank > 3
-      )
-      RETURNING id
-    `.then((result) => {
-      const deletedCount = result?.length || 0;
-      if (deletedCount > 0) {
-        console.log(`[Cleanup] Deleted ${deletedCount} excess session(s) for user ${user.id}`);
-      }
-    }).catch((error) => {
-      // Log error but don't fail login
-      console.error('[Cleanup] Session revocation error:', error);
-    });
-
     // Update last login
     await sql`
       UPDATE users
@@ -291,12 +245,15 @@ const handler: Handler = async (event, context) => {
     // For admin users, generate admin token and set as cookie
     let adminToken = null;
     let adminCookie = '';
-    if (user.role === 'admin') {
+    // Teachers get the same staff cookie with role 'teacher' (scoped to their classes)
+    if (user.role === 'admin' || user.role === 'teacher') {
       adminToken = jwt.sign(
         {
+          userId: user.id,
           email: user.email,
-          role: 'admin',
-          type: 'admin'
+          role: user.role,
+          type: 'admin',
+          sid: sessionId
         },
         jwtSecret,
         { expiresIn: '8h' }
@@ -339,7 +296,8 @@ const handler: Handler = async (event, context) => {
           currentStudentLesson: user.current_student_lesson ?? 1
         },
         token: token,
-        sessionToken: sessionToken
+        sessionToken: sessionToken,
+        signedOutDevices
         // Admin token is now in cookie, not in response body
       })
     } as any;
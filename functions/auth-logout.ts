@@ -12,11 +12,11 @@ const handler: Handler = async (event, context) => {
   }
 
   try {
-    // Get refresh token from cookie
+    // Get session token from cookie (set by auth-login / auth-verify-otp)
     const cookies = event.headers?.cookie || '';
-    const refreshToken = getCookieValue(cookies, 'refresh_token');
+    const sessionToken = getCookieValue(cookies, 'session_token');
 
-    if (refreshToken) {
+    if (sessionToken) {
       // Get database connection
       const databaseUrl = process.env.NEON_DATABASE_URL;
       if (databaseUrl) {
@@ -26,8 +26,8 @@ const handler: Handler = async (event, context) => {
           // Find and invalidate the session in database
           await sql`
             UPDATE user_sessions
-            SET expires_at = NOW()
-            WHERE session_token = ${refreshToken}
+            SET expires_at = NOW(), revoked_reason = 'logout'
+            WHERE session_token = ${sessionToken}
               AND expires_at > NOW()
           `;
         } catch (dbError) {
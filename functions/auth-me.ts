@@ -1,7 +1,7 @@
 import { Handler } from '@netlify/functions';
-import * as jwt from 'jsonwebtoken'
 import { neon } from '@neondatabase/serverless'
 import { getHeaders } from './cors-headers';
+import { ALL_ROLES, authFailureResponse, verifyAuthToken } from './lib/auth.js';
 
 const handler: Handler = async (event, context) => {
   // Get security headers (no credentials needed for GET endpoint)
@@ -44,50 +44,38 @@ const handler: Handler = async (event, context) => {
       } as any;
     }
 
-    // Get JWT secret
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      console.error('JWT_SECRET not configured');
+    // Get database connection
+    const databaseUrl = process.env.NEON_DATABASE_URL;
+    if (!databaseUrl) {
+      console.error('NEON_DATABASE_URL not configured');
       return {
         statusCode: 500,
         headers: {
           ...headers,
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ success: false, error: 'JWT configuration error' })
+        body: JSON.stringify({ success: false, error: 'Database configuration error' })
       } as any;
     }
 
-    try {
-      // Verify JWT token
-      const decoded = jwt.verify(accessToken, jwtSecret) as any;
+    const sql = neon(databaseUrl);
 
-      // Get database connection
-      const databaseUrl = process.env.NEON_DATABASE_URL;
-      if (!databaseUrl) {
-        console.error('NEON_DATABASE_URL not configured');
-        return {
-          statusCode: 500,
-          headers: {
-            ...headers,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({ success: false, error: 'Database configuration error' })
-        } as any;
-      }
-
-      const sql = neon(databaseUrl);
+    // Signature, revocation and signed-out session checks (code tells the client why)
+    const auth = await verifyAuthToken(accessToken, { roles: ALL_ROLES }, sql);
+    if (!auth.ok) {
+      return authFailureResponse(auth, headers) as any;
+    }
 
-      // Get user from database
-      const userResult = await sql`
-        SELECT id, email, username, first_name, last_name, level, role, current_lesson, total_stars,
-               created_at, last_login, email_verified, eval_test_result,
-               school_student_id, honorific, nickname, current_student_lesson
-        FROM users
-        WHERE id = ${decoded.userId}
-      `;
+    // Get user from database
+    const userResult = await sql`
+      SELECT id, email, username, first_name, last_name, level, role, current_lesson, total_stars,
+             created_at, last_login, email_verified, eval_test_result,
+             school_student_id, honorific, nickname, current_student_lesson
+      FROM users
+      WHERE id = ${auth.identity.userId}
+    `;
 
-      if (!userResult || userResult.length === 0) {
+    if (!userResult || userResult.length === 0) {
       return {
         statusCode: 404,
         headers: {
@@ -96,51 +84,39 @@ const handler: Handler = async (event, context) => {
         },
         body: JSON.stringify({ success: false, error: 'User not found' })
       } as any;
-      }
+    }
 
-      const user = userResult[0];
+    const user = userResult[0];
 
-      return {
-        statusCode: 200,
-        headers: {
-          ...headers,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          success: true,
-          user: {
-            id: user.id,
-            email: user.email,
-            username: user.username,
-            firstName: user.first_name,
-            lastName: user.last_name,
-            level: user.level,
-            role: user.role,
-            currentLesson: user.current_lesson || 1,
-            totalStars: user.total_stars || 0,
-            createdAt: user.created_at,
-            lastLogin: user.last_login,
-            emailVerified: user.email_verified,
-            evalTestResult: user.eval_test_result,
-            schoolStudentId: user.school_student_id,
-            honorific: user.honorific,
-            nickname: user.nickname,
-            currentStudentLesson: user.current_student_lesson ?? 1
-          }
-        })
-      } as any;
-
-    } catch (jwtError) {
-      console.error('JWT verification error:', jwtError);
-      return {
-        statusCode: 401,
-        headers: {
-          ...headers,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ success: false, error: 'Invalid or expired token' })
-      } as any;
-    }
+    return {
+      statusCode: 200,
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        success: true,
+        user: {
+          id: user.id,
+          email: user.email,
+          username: user.username,
+          firstName: user.first_name,
+          lastName: user.last_name,
+          level: user.level,
+          role: user.role,
+          currentLesson: user.current_lesson || 1,
+          totalStars: user.total_stars || 0,
+          createdAt: user.created_at,
+          lastLogin: user.last_login,
+          emailVerified: user.email_verified,
+          evalTestResult: user.eval_test_result,
+          schoolStudentId: user.school_student_id,
+          honorific: user.honorific,
+          nickname: user.nickname,
+          currentStudentLesson: user.current_student_lesson ?? 1
+        }
+      })
+    } as any;
 
   } catch (error) {
     console.error('Auth check error:', error);
@@ -0,0 +1,178 @@
+import { Handler } from '@netlify/functions';
+import * as jwt from 'jsonwebtoken';
+import { neon } from '@neondatabase/serverless';
+import { getHeaders } from './cors-headers';
+import { extractTokenFromCookies, validateJWT } from './auth-validate-jwt.js';
+import {
+  listUserSessions,
+  revokeUserSessions,
+  sessionCapForRole,
+} from './lib/user-sessions.js';
+
+interface SessionsBody {
+  action?: unknown;
+  session_id?: unknown;
+}
+
+function clearAuthCookies(): string[] {
+  // Same options as auth-logout so the cookies match
+  const isProduction = process.env.NODE_ENV === 'production';
+  const isLocalhost = !isProduction && (!process.env.COOKIE_DOMAIN || process.env.COOKIE_DOMAIN === 'localhost');
+  const cookieDomain = process.env.COOKIE_DOMAIN;
+  const cookieOptions = [
+    `HttpOnly`,
+    isProduction ? `Secure` : null,
+    `SameSite=${isLocalhost ? 'Lax' : (isProduction ? 'Strict' : 'Lax')}`,
+    `Path=/`,
+    `Max-Age=0`,
+    (cookieDomain && !isLocalhost) ? `Domain=${cookieDomain}` : null
+  ].filter(Boolean).join('; ');
+  return [
+    `access_token=; ${cookieOptions}`,
+    `session_token=; ${cookieOptions}`,
+    `admin_token=; ${cookieOptions}`
+  ];
+}
+
+/**
+ * "My devices" for the signed-in user (any role).
+ *
+ * GET  → { sessions: [{ id, device, ip_region, created_at, last_seen_at, current }], session_cap }
+ * POST → { action: 'sign_out', session_id } signs out one of the user's other devices
+ *        { action: 'sign_out_everywhere' } signs out every device, this one included, and also
+ *        invalidates access tokens issued before sessions carried an id (users.session_revoked_at)
+ */
+const handler: Handler = async (event) => {
+  const headers = getHeaders(event, true);
+
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  if (event.httpMethod !== 'GET' && event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const token = extractTokenFromCookies(event.headers?.cookie || '');
+    if (!token) {
+      return {
+        statusCode: 401,
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ success: false, error: 'Authentication required' }),
+      };
+    }
+
+    const validation = await validateJWT(token);
+    if (!validation.isValid || !validation.user) {
+      return {
+        statusCode: 401,
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ success: false, error: validation.error, code: validation.code }),
+      };
+    }
+
+    const databaseUrl = process.env.NEON_DATABASE_URL;
+    if (!databaseUrl) {
+      return {
+        statusCode: 500,
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ success: false, error: 'Database configuration error' }),
+      };
+    }
+
+    const sql = neon(databaseUrl);
+    const userId = validation.user.id;
+    const decoded = jwt.decode(token) as { sid?: string } | null;
+    const currentSessionId = decoded?.sid ? String(decoded.sid) : null;
+
+    if (event.httpMethod === 'GET') {
+      const roleRows = await sql`SELECT role FROM users WHERE id = ${userId}`;
+      const [sessions, sessionCap] = await Promise.all([
+        listUserSessions(sql, userId, currentSessionId),
+        sessionCapForRole(sql, String(roleRows[0]?.role || '')),
+      ]);
+      return {
+        statusCode: 200,
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ success: true, sessions, session_cap: sessionCap }),
+      };
+    }
+
+    let body: SessionsBody;
+    try {
+      body = JSON.parse(event.body || '{}') as SessionsBody;
+    } catch {
+      return {
+        statusCode: 400,
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ success: false, error: 'Invalid JSON body' }),
+      };
+    }
+
+    if (body.action === 'sign_out') {
+      const sessionId = typeof body.session_id === 'string' ? body.session_id.trim() : '';
+      if (!sessionId) {
+        return {
+          statusCode: 400,
+          headers: { ...headers, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ success: false, error: 'session_id is required' }),
+        };
+      }
+      if (sessionId === currentSessionId) {
+        return {
+          statusCode: 400,
+          headers: { ...headers, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ success: false, error: 'Use Log out to sign out of this device' }),
+        };
+      }
+      const signedOut = await revokeUserSessions(sql, userId, sessionId, 'signed_out');
+      if (!signedOut) {
+        return {
+          statusCode: 404,
+          headers: { ...headers, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ success: false, error: 'Session not found or already signed out' }),
+        };
+      }
+      return {
+        statusCode: 200,
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          success: true,
+          signed_out: signedOut,
+          sessions: await listUserSessions(sql, userId, currentSessionId),
+        }),
+      };
+    }
+
+    if (body.action === 'sign_out_everywhere') {
+      const signedOut = await revokeUserSessions(sql, userId, null, 'signed_out_everywhere');
+      await sql`UPDATE users SET session_revoked_at = NOW() WHERE id = ${userId}`;
+      return {
+        statusCode: 200,
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        multiValueHeaders: { 'Set-Cookie': clearAuthCookies() },
+        body: JSON.stringify({ success: true, signed_out: signedOut }),
+      };
+    }
+
+    return {
+      statusCode: 400,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: false, error: "action must be 'sign_out' or 'sign_out_everywhere'" }),
+    };
+  } catch (error) {
+    console.error('auth-sessions error:', error);
+    return {
+      statusCode: 500,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: false, error: 'Internal server error' }),
+    };
+  }
+};
+
+export { handler };
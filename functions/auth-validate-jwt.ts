@@ -1,6 +1,6 @@
 import { Handler } from '@netlify/functions';
-import * as jwt from 'jsonwebtoken';
 import { neon } from '@neondatabase/serverless';
+import { ALL_ROLES, verifyAuthToken } from './lib/auth.js';
 
 export interface ValidatedUser {
   id: string;
@@ -20,6 +20,8 @@ export interface JWTValidationResult {
   isValid: boolean;
   user?: ValidatedUser;
   error?: string;
+  /** AuthErrorCode from lib/auth, e.g. SESSION_SIGNED_OUT_CODE when this device's session was signed out */
+  code?: string;
 }
 
 /**
@@ -27,16 +29,6 @@ export interface JWTValidationResult {
  */
 export async function validateJWT(token: string): Promise<JWTValidationResult> {
   try {
-    // Get JWT secret
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      console.error('JWT_SECRET not configured');
-      return { isValid: false, error: 'JWT configuration error' };
-    }
-
-    // Verify JWT token
-    const decoded = jwt.verify(token, jwtSecret) as any;
-
     // Get database connection
     const databaseUrl = process.env.NEON_DATABASE_URL;
     if (!databaseUrl) {
@@ -46,11 +38,17 @@ export async function validateJWT(token: string): Promise<JWTValidationResult> {
 
     const sql = neon(databaseUrl);
 
+    // Signature, session and revocation checks are shared with every other function (lib/auth)
+    const auth = await verifyAuthToken(token, { roles: ALL_ROLES }, sql);
+    if (!auth.ok) {
+      return { isValid: false, error: auth.error, code: auth.code };
+    }
+
     // Get user from database
     const userResult = await sql`
-      SELECT id, email, username, first_name, last_name, level, current_lesson, total_stars, created_at, last_login, email_verified, session_revoked_at
+      SELECT id, email, username, first_name, last_name, level, current_lesson, total_stars, created_at, last_login, email_verified
       FROM users
-      WHERE id = ${decoded.userId}
+      WHERE id = ${auth.identity.userId}
     `;
 
     if (!userResult || userResult.length === 0) {
@@ -59,17 +57,6 @@ export async function validateJWT(token: string): Promise<JWTValidationResult> {
 
     const user = userResult[0];
 
-    // Check if user's sessions have been revoked
-    if (user.session_revoked_at) {
-      const tokenIssuedAt = new Date(decoded.iat * 1000); // Convert JWT iat to Date
-      const sessionRevokedAt = new Date(user.session_revoked_at);
-
-      if (tokenIssuedAt < sessionRevokedAt) {
-        console.log('Token issued before session revocation, invalidating');
-        return { isValid: false, error: 'Session has been revoked' };
-      }
-    }
-
     return {
       isValid: true,
       user: {
@@ -152,7 +139,7 @@ const handler: Handler = async (event, context) => {
       return {
         statusCode: 401,
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ success: false, error: validation.error })
+        body: JSON.stringify({ success: false, error: validation.error, code: validation.code })
       } as any;
     }
 
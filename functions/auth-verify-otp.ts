@@ -3,8 +3,9 @@ import * as jwt from 'jsonwebtoken'
 import { neon } from '@neondatabase/serverless'
 import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
-import { checkFailedAttemptsRateLimit, createRateLimitResponse, recordFailedAttempt } from './rate-limit';
+import { checkRouteRateLimit, createRateLimitResponse, recordRateLimitFailure } from './rate-limit';
 import { getHeaders } from './cors-headers';
+import { createUserSession } from './lib/user-sessions.js';
 
 interface Env {
   NEON_DATABASE_URL: string
@@ -79,20 +80,11 @@ const handler: Handler = async (event, context) => {
 
   // Check rate limit for failed attempts (10 failed attempts per 15 minutes)
   // This prevents brute force attacks on OTP codes
-  const rateLimitResult = await checkFailedAttemptsRateLimit(event, {
-    maxAttempts: 10,
-    windowMs: 900000 // 15 minutes for failed attempts
-  });
+  const rateLimitResult = await checkRouteRateLimit(event, 'otp_verify');
 
   if (!rateLimitResult.allowed) {
     console.log(`Auth-verify-otp: Rate limit exceeded for failed attempts`);
-    return {
-      ...createRateLimitResponse(rateLimitResult),
-      headers: {
-        ...headers,
-        ...createRateLimitResponse(rateLimitResult).headers
-      }
-    } as any;
+    return createRateLimitResponse(rateLimitResult, headers) as any;
   }
 
   try {
@@ -202,10 +194,7 @@ const handler: Handler = async (event, context) => {
     // Check if OTP matches
     if (providedOtpHash !== otpRecord.otp_hash) {
       console.log('verify-otp: OTP hash mismatch');
-      // Record failed attempt (non-blocking)
-      recordFailedAttempt(event, { maxAttempts: 10, windowMs: 900000 }).catch(err => {
-        console.error('Failed to record failed OTP attempt:', err);
-      });
+      await recordRateLimitFailure(event, 'otp_verify');
       const remainingAttempts = otpRecord.max_attempts - otpRecord.attempts - 1;
       return {
         statusCode: 400,
@@ -335,67 +324,42 @@ const handler: Handler = async (event, context) => {
       } as any;
     }
 
-    const token = jwt.sign(
+    // Create session; the access token carries its id (sid) so signing the device out
+    // from "My devices" takes effect immediately
+    const sessionToken = jwt.sign(
       {
         userId: user.id,
-        email: user.email,
-        role: user.role,
-        type: 'access'
+        type: 'session'
       },
       jwtSecret,
-      { expiresIn: '24h' }
+      { expiresIn: '7d' }
     );
 
-    console.log('verify-otp: JWT token generated for user:', user.id, 'role:', isAdmin ? 'admin' : 'user');
+    const { sessionId, signedOutDevices } = await createUserSession(sql, {
+      userId: user.id,
+      role: user.role,
+      sessionToken,
+      headers: event.headers
+    });
+    if (signedOutDevices > 0) {
+      console.log(`[Sessions] Signed out ${signedOutDevices} device(s) over the session cap for user ${user.id}`);
+    }
 
-    // Create session
-    const sessionToken = jwt.sign(
+    console.log('verify-otp: Session created');
+
+    const token = jwt.sign(
       {
         userId: user.id,
-        type: 'session'
+        email: user.email,
+        role: user.role,
+        type: 'access',
+        sid: sessionId
       },
       jwtSecret,
-      { expiresIn: '7d' }
+      { expiresIn: '24h' }
     );
 
-    const sessionExpires = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-
-    // Create new session
-    await sql`
-      INSERT INTO user_sessions (user_id, session_token, expires_at)
-      VALUES (${user.id}, ${sessionToken}, ${sessionExpires.toISOString()})
-    `;
-
-    console.log('verify-otp: Session created');
-
-    // Revoke old sessions in background (non-blocking)
-    // Keep only 3 most recent sessions per user (including the one we just created)
-    // This runs asynchronously and won't block the login response
-    sql`
-      WITH ranked_sessions AS (
-        SELECT 
-          id,
-          ROW_NUMBER() OVER (
-            PARTITION BY user_id 
-            ORDER BY created_at DESC
-          ) as session_rank
-        FROM user_sessions
-        WHERE user_id = ${user.id} AND expires_at >= NOW()
-      )
-      DELETE FROM user_sessions
-      WHERE id IN (
-        SELECT id FROM ranked_sessions WHERE session_rank > 3
-      )
-      RETURNING id
-    `.then((result) => {
-      const deletedCount = result?.length || 0;
-      if (deletedCount > 0) {
-        console.log(`[Cleanup] Deleted ${deletedCount} excess session(s) for user ${user.id}`);
-      }
-    }).catch((error) => {
-      // Log error but don't fail login
-      console.error('[Cleanup] Session revocation error:', error);
-    });
+    console.log('verify-otp: JWT token generated for user:', user.id, 'role:', isAdmin ? 'admin' : 'user');
 
     // Set HTTP-only cookies
     const isProduction = process.env.NODE_ENV === 'production';
@@ -420,12 +384,15 @@ const handler: Handler = async (event, context) => {
     // For admin users, generate admin token and set as cookie
     let adminToken = null;
     let adminCookie = '';
-    if (user.role === 'admin') {
+    // Teachers get the same staff cookie with role 'teacher' (scoped to their classes)
+    if (user.role === 'admin' || user.role === 'teacher') {
       adminToken = jwt.sign(
         {
+          userId: user.id,
           email: user.email,
-          role: 'admin',
-          type: 'admin'
+          role: user.role,
+          type: 'admin',
+          sid: sessionId
         },
         jwtSecret,
         { expiresIn: '8h' }
@@ -472,7 +439,8 @@ const handler: Handler = async (event, context) => {
           evalTestResult: user.eval_test_result
         },
         token: token,
-        sessionToken: sessionToken
+        sessionToken: sessionToken,
+        signedOutDevices
         // Admin token is now in cookie, not in response body
       })
     } as any;
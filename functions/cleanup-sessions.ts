@@ -1,8 +1,10 @@
 import { Handler, schedule } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
+import { authenticate, authFailureResponse } from './lib/auth.js';
+import { DEFAULT_SESSION_CAP } from './lib/user-sessions.js';
 
 /**
- * Cleanup function to remove expired sessions and old OTP verifications
+ * Cleanup function to remove expired sessions, old OTP verifications and expired idempotency keys
  * Can be called manually (with admin auth) or scheduled via Netlify scheduled functions
  * 
  * Scheduled to run daily at 3 AM UTC automatically (0 3 * * *)
@@ -34,59 +36,8 @@ async function cleanupHandler(event: any, context: any) {
 
   // For manual calls, require admin authentication
   if (!isScheduled) {
-    // Check admin authentication
-    let token = null;
-    const authHeader = event.headers?.authorization || event.headers?.Authorization;
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      token = authHeader.substring(7);
-    } else {
-      const cookies = event.headers?.cookie || event.headers?.Cookie || '';
-      const cookieArray = cookies.split(';');
-      const tokenCookie = cookieArray.find((c: string) => c.trim().startsWith('admin_token='));
-      if (tokenCookie) {
-        token = tokenCookie.split('=')[1];
-      }
-    }
-
-    if (!token) {
-      return {
-        statusCode: 401,
-        headers,
-        body: JSON.stringify({ 
-          success: false, 
-          error: 'Unauthorized - Admin access required for manual cleanup' 
-        }),
-      };
-    }
-
-    // Verify admin token
-    try {
-      const jwt = await import('jsonwebtoken');
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) {
-        return {
-          statusCode: 500,
-          headers,
-          body: JSON.stringify({ success: false, error: 'JWT configuration error' }),
-        };
-      }
-
-      const decoded = jwt.verify(token, jwtSecret) as any;
-      if (decoded.role !== 'admin') {
-        return {
-          statusCode: 403,
-          headers,
-          body: JSON.stringify({ success: false, error: 'Forbidden - Admin access required' }),
-        };
-      }
-    } catch (error) {
-      console.error('Admin authentication error:', error);
-      return {
-        statusCode: 401,
-        headers,
-        body: JSON.stringify({ success: false, error: 'Invalid admin token' }),
-      };
-    }
+    const auth = await authenticate(event, { roles: ['admin'] });
+    if (!auth.ok) return authFailureResponse(auth, headers);
   }
 
   const startTime = Date.now();
@@ -128,31 +79,36 @@ async function cleanupHandler(event: any, context: any) {
     const oldSessionsCount = oldSessionsResult.length || 0;
     console.log(`[Cleanup] Deleted ${oldSessionsCount} old sessions (older than 7 days)`);
 
-    // Clean up excess active sessions - keep only the 3 most recent active sessions per user
-    // This prevents session buildup when users log in multiple times
-    // Idempotent: Safe to run multiple times (will only delete if >3 exist)
-    console.log('[Cleanup] Step 3: Cleaning up excess active sessions (keeping max 3 per user)...');
+    // Clean up excess active sessions - keep only the most recent active sessions per user,
+    // up to the role's cap (session_caps, default 3 - see lib/user-sessions.ts)
+    // Logins already apply the cap; this catches sessions left over when a cap is lowered.
+    // They are expired with a reason rather than deleted so the device is told why (Step 1
+    // deletes them on the next run)
+    // Idempotent: Safe to run multiple times (will only expire if more than the cap exist)
+    console.log('[Cleanup] Step 3: Cleaning up excess active sessions (per-role session cap)...');
     const excessSessionsResult = await sql`
       WITH ranked_sessions AS (
         SELECT 
-          id,
-          user_id,
-          created_at,
+          s.id,
+          COALESCE(c.max_sessions, ${DEFAULT_SESSION_CAP}) AS max_sessions,
           ROW_NUMBER() OVER (
-            PARTITION BY user_id 
-            ORDER BY created_at DESC
+            PARTITION BY s.user_id 
+            ORDER BY s.created_at DESC
           ) as session_rank
-        FROM user_sessions
-        WHERE expires_at >= NOW()
+        FROM user_sessions s
+        JOIN users u ON u.id = s.user_id
+        LEFT JOIN session_caps c ON c.role = u.role
+        WHERE s.expires_at >= NOW()
       )
-      DELETE FROM user_sessions
+      UPDATE user_sessions
+      SET expires_at = NOW(), revoked_reason = 'session_cap'
       WHERE id IN (
-        SELECT id FROM ranked_sessions WHERE session_rank > 3
+        SELECT id FROM ranked_sessions WHERE session_rank > max_sessions
       )
       RETURNING id, user_id, created_at
     `;
     const excessSessionsCount = excessSessionsResult.length || 0;
-    console.log(`[Cleanup] Deleted ${excessSessionsCount} excess active sessions (kept 3 most recent per user)`);
+    console.log(`[Cleanup] Signed out ${excessSessionsCount} excess active sessions (kept the most recent per user, up to the role's cap)`);
 
     // Clean up old OTP verifications (expired and used)
     // Keep OTPs for 24 hours after expiration for audit purposes, then delete
@@ -167,6 +123,34 @@ async function cleanupHandler(event: any, context: any) {
     const oldOtpsCount = oldOtpsResult.length || 0;
     console.log(`[Cleanup] Deleted ${oldOtpsCount} old OTP verifications`);
 
+    // Clean up expired idempotency keys (24h TTL, see idempotency.ts)
+    // Idempotent: Safe to run multiple times
+    console.log('[Cleanup] Step 5: Cleaning up expired idempotency keys...');
+    const expiredIdempotencyResult = await sql`
+      DELETE FROM idempotency_keys
+      WHERE expires_at < NOW()
+      RETURNING id
+    `;
+    const expiredIdempotencyCount = expiredIdempotencyResult.length || 0;
+    console.log(`[Cleanup] Deleted ${expiredIdempotencyCount} expired idempotency keys`);
+
+    // Clean up Postgres rate limit counters (rate-limit.ts windows are at most an hour; a bucket
+    // idle for a day has refilled). Empty when the Redis store is in use.
+    // Idempotent: Safe to run multiple times
+    console.log('[Cleanup] Step 6: Cleaning up old rate limit counters...');
+    const oldRateLimitHits = await sql`
+      DELETE FROM rate_limit_hits
+      WHERE hit_at < NOW() - INTERVAL '1 day'
+      RETURNING id
+    `;
+    const oldRateLimitBuckets = await sql`
+      DELETE FROM rate_limit_buckets
+      WHERE updated_at < NOW() - INTERVAL '1 day'
+      RETURNING key
+    `;
+    const oldRateLimitCount = (oldRateLimitHits.length || 0) + (oldRateLimitBuckets.length || 0);
+    console.log(`[Cleanup] Deleted ${oldRateLimitCount} old rate limit counters`);
+
     // Get current session count for reporting
     const activeSessionsResult = await sql`
       SELECT COUNT(*) as count
@@ -190,6 +174,8 @@ async function cleanupHandler(event: any, context: any) {
           oldSessionsDeleted: oldSessionsCount,
           excessSessionsDeleted: excessSessionsCount,
           oldOtpsDeleted: oldOtpsCount,
+          expiredIdempotencyKeysDeleted: expiredIdempotencyCount,
+          rateLimitCountersDeleted: oldRateLimitCount,
           activeSessionsRemaining: activeSessionsCount,
           executionTimeMs: executionTime,
           cleanupTime: new Date().toISOString(),
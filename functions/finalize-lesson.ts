@@ -1,6 +1,7 @@
 import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
 import { validateJWT } from './auth-validate-jwt.js';
+import { startIdempotentRequest, type IdempotentRequest } from './idempotency.js';
 
 interface FinalizeLessonRequest {
   lessonId: string;
@@ -16,6 +17,8 @@ const handler: Handler = async (event, context) => {
     } as any;
   }
 
+  let idem: IdempotentRequest | null = null;
+
   try {
     // Validate authentication
     const cookies = event.headers?.cookie || '';
@@ -73,6 +76,10 @@ const handler: Handler = async (event, context) => {
       } as any;
     }
 
+    // The completion modal finalizes on open and again on Continue; only the first one counts
+    idem = await startIdempotentRequest(sql, event, userId, 'finalize-lesson', {});
+    if (idem.replay) return idem.replay as any;
+
     // Query all activity results for this lesson and user
     const activityResults = await sql`
       SELECT 
@@ -123,7 +130,7 @@ const handler: Handler = async (event, context) => {
 
         await sql`COMMIT`;
 
-        return {
+        return idem.finish({
           statusCode: 200,
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -141,7 +148,7 @@ const handler: Handler = async (event, context) => {
               newlyEarnedAchievements: []
             }
           })
-        } as any;
+        }) as any;
       }
 
       // Passed: upsert progress and award stars
@@ -187,7 +194,7 @@ const handler: Handler = async (event, context) => {
         console.error('Error checking achievements:', achievementError);
       }
 
-      return {
+      return idem.finish({
         statusCode: 200,
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -209,7 +216,7 @@ const handler: Handler = async (event, context) => {
             }))
           }
         })
-      } as any;
+      }) as any;
 
     } catch (dbError) {
       // Rollback transaction on error
@@ -219,6 +226,7 @@ const handler: Handler = async (event, context) => {
 
   } catch (error) {
     console.error('Finalize lesson error:', error);
+    await idem?.release();
     return {
       statusCode: 500,
       headers: { 'Content-Type': 'application/json' },
@@ -3,6 +3,7 @@ import { neon } from '@neondatabase/serverless';
 import { getHeaders } from './cors-headers';
 import { requireStudentAuth } from './student-auth.js';
 import { sumEffectiveScores } from './student-lesson-scoring.js';
+import { startIdempotentRequest, type IdempotentRequest } from './idempotency.js';
 
 const handler: Handler = async (event) => {
   const headers = getHeaders(event, true);
@@ -19,6 +20,8 @@ const handler: Handler = async (event) => {
     };
   }
 
+  let idem: IdempotentRequest | null = null;
+
   try {
     const auth = await requireStudentAuth(event);
     if (!auth.ok) {
@@ -61,6 +64,10 @@ const handler: Handler = async (event) => {
     const userId = auth.user.id;
     const studentLessonId = body.studentLessonId;
 
+    // A replayed finalize must not bump attempts or re-run the below-60% reset
+    idem = await startIdempotentRequest(sql, event, userId, 'finalize-student-lesson', headers);
+    if (idem.replay) return idem.replay;
+
     const activityResults = await sql`
       SELECT id, activity_type, score, max_score, activity_order, answers, feedback
       FROM student_lesson_activity_results
@@ -97,7 +104,7 @@ const handler: Handler = async (event) => {
         `;
         await sql`COMMIT`;
 
-        return {
+        return idem.finish({
           statusCode: 200,
           headers: { ...headers, 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -112,7 +119,7 @@ const handler: Handler = async (event) => {
               completedAt: new Date().toISOString(),
             },
           }),
-        };
+        });
       }
 
       const existing = await sql`
@@ -146,7 +153,7 @@ const handler: Handler = async (event) => {
 
       await sql`COMMIT`;
 
-      return {
+      return idem.finish({
         statusCode: 200,
         headers: { ...headers, 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -161,13 +168,14 @@ const handler: Handler = async (event) => {
             completedAt: new Date().toISOString(),
           },
         }),
-      };
+      });
     } catch (txError) {
       await sql`ROLLBACK`;
       throw txError;
     }
   } catch (error) {
     console.error('finalize-student-lesson error:', error);
+    await idem?.release();
     return {
       statusCode: 500,
       headers: { ...headers, 'Content-Type': 'application/json' },
@@ -1,5 +1,18 @@
 import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
+import {
+  ADAPTIVE_DEFAULTS,
+  AdaptiveSequenceError,
+  replayAdaptivePlacement,
+  splitAdaptiveQuestions,
+  type AdaptiveResponse,
+} from './lib/adaptive-placement.js';
+
+// Adaptive items are served one at a time, so the student copy never carries their answers
+function withoutAnswer(question: any) {
+  const { correct_answer: _omit, ...rest } = question;
+  return rest;
+}
 
 export const handler: Handler = async (event) => {
   // CORS headers
@@ -13,7 +26,7 @@ export const handler: Handler = async (event) => {
     return { statusCode: 200, headers, body: '' };
   }
 
-  if (event.httpMethod !== 'GET') {
+  if (event.httpMethod !== 'GET' && event.httpMethod !== 'POST') {
     return {
       statusCode: 405,
       headers,
@@ -22,8 +35,22 @@ export const handler: Handler = async (event) => {
   }
 
   try {
+    // POST { test_id, responses: [{ question_id, answer }] } asks for the next adaptive item
+    let postBody: any = null;
+    if (event.httpMethod === 'POST') {
+      try {
+        postBody = JSON.parse(event.body || '{}');
+      } catch {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ success: false, message: 'Invalid JSON payload' }),
+        };
+      }
+    }
+
     // Get test ID from query parameter (support both 'id' and 'test_id' for compatibility)
-    const testId = event.queryStringParameters?.id || event.queryStringParameters?.test_id || 'EVAL-1';
+    const testId = postBody?.test_id || event.queryStringParameters?.id || event.queryStringParameters?.test_id || 'EVAL-1';
 
     // Get database connection
     const databaseUrl = process.env.NEON_DATABASE_URL;
@@ -53,8 +80,52 @@ export const handler: Handler = async (event) => {
     }
 
     const testData = testResult[0];
+    const allQuestions: any[] = Array.isArray(testData.questions) ? testData.questions : [];
+    const { pool, fixed } = splitAdaptiveQuestions(allQuestions);
+    const adaptive = testData.adaptive === true && pool.length > 0;
+
+    if (postBody) {
+      if (!adaptive) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ success: false, message: 'Test is not in adaptive mode' }),
+        };
+      }
+      const responses: AdaptiveResponse[] = Array.isArray(postBody.responses)
+        ? postBody.responses.map((r: any) => ({ question_id: String(r?.question_id ?? ''), answer: r?.answer }))
+        : [];
+      try {
+        const state = replayAdaptivePlacement(allQuestions, responses);
+        const next = state.next_question_id ? pool.find((q) => q.id === state.next_question_id) : null;
+        return {
+          statusCode: 200,
+          headers,
+          body: JSON.stringify({
+            success: true,
+            done: state.done,
+            stop_reason: state.stop_reason,
+            answered: state.path.length,
+            max_items: ADAPTIVE_DEFAULTS.maxItems,
+            estimate: { level: state.level, estimate: state.estimate, step: state.step },
+            next: next ? withoutAnswer(next) : null,
+          }),
+        };
+      } catch (error) {
+        if (error instanceof AdaptiveSequenceError) {
+          return {
+            statusCode: 409,
+            headers,
+            body: JSON.stringify({ success: false, message: error.message }),
+          };
+        }
+        throw error;
+      }
+    }
 
-    // Return in format expected by frontend (result.test for admin editor, result.data for student view)
+    // This endpoint is public, so neither copy may carry the adaptive pool; the admin editor loads
+    // the full test through admin-evaluation?id=
+    const studentQuestions = adaptive ? fixed : testData.questions;
     const result = {
       success: true,
       test: {
@@ -65,7 +136,8 @@ export const handler: Handler = async (event) => {
         passing_score: testData.passing_score,
         allowed_time: testData.allowed_time,
         is_active: testData.is_active,
-        questions: testData.questions, // Questions are already stored as JSONB array
+        adaptive: testData.adaptive === true,
+        questions: studentQuestions,
         created_at: testData.created_at,
         updated_at: testData.updated_at,
       },
@@ -77,7 +149,9 @@ export const handler: Handler = async (event) => {
         description: testData.description,
         passing_score: testData.passing_score,
         allowed_time: testData.allowed_time,
-        questions: testData.questions,
+        // In adaptive mode the pool is fetched item by item via POST; only the fixed part ships here
+        questions: studentQuestions,
+        adaptive: adaptive ? { max_items: ADAPTIVE_DEFAULTS.maxItems, pool_size: pool.length } : null,
       },
     };
 
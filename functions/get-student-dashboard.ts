@@ -1,5 +1,5 @@
 import { Handler } from '@netlify/functions';
-import { neon } from '@neondatabase/serverless';
+import { neon, NeonQueryFunction } from '@neondatabase/serverless';
 import { getHeaders } from './cors-headers';
 import { requireStudentAuth } from './student-auth.js';
 import { sumEffectiveScores } from './student-lesson-scoring.js';
@@ -8,6 +8,21 @@ import {
   pickCurrentPlatformLesson,
   studentPlatformAssignmentCount,
 } from './lib/platform-lesson-assignments.js';
+import { reviewSummary, syncReviewDeck } from './lib/vocab-review.js';
+
+// Due counts for the "Review words" card; the dashboard still loads without them
+async function loadVocabReview(
+  sql: NeonQueryFunction<false, false>,
+  userId: string
+): Promise<{ due: number; total: number } | null> {
+  try {
+    await syncReviewDeck(sql, userId);
+    return await reviewSummary(sql, userId);
+  } catch (error) {
+    console.warn('get-student-dashboard: vocab review summary failed:', error);
+    return null;
+  }
+}
 
 const handler: Handler = async (event) => {
   const headers = getHeaders(event, false);
@@ -47,6 +62,7 @@ const handler: Handler = async (event) => {
     const userId = auth.user.id;
 
     const platformAssignmentCount = await studentPlatformAssignmentCount(sql, userId);
+    const vocabReview = await loadVocabReview(sql, userId);
 
     if (platformAssignmentCount > 0) {
       const assignedLessons = await fetchStudentPlatformAssignmentLessons(sql, userId)
@@ -95,6 +111,7 @@ const handler: Handler = async (event) => {
             totalLessons: assignedLessons.length,
           },
           lessons: lessonList,
+          vocabReview,
         }),
       };
     }
@@ -133,9 +150,16 @@ const handler: Handler = async (event) => {
           WHERE sar.user_id = ${userId}
             AND sar.student_lesson_id = sl.id
         ) as max_score_total,
-        (
-          SELECT COUNT(*)::int FROM student_lesson_activities sla
-          WHERE sla.student_lesson_id = sl.id AND sla.active = TRUE
+        -- Pinned attempts count the activities of their version's snapshot
+        COALESCE(
+          (
+            SELECT jsonb_array_length(slv.activities) FROM student_lesson_versions slv
+            WHERE slv.student_lesson_id = sl.id AND slv.version = sup.lesson_version
+          ),
+          (
+            SELECT COUNT(*)::int FROM student_lesson_activities sla
+            WHERE sla.student_lesson_id = sl.id AND sla.active = TRUE
+          )
         ) as activity_count,
         (
           SELECT COUNT(DISTINCT sar.activity_order)::int
@@ -147,6 +171,19 @@ const handler: Handler = async (event) => {
       LEFT JOIN student_user_progress sup
         ON sup.student_lesson_id = sl.id AND sup.user_id = ${userId}
       WHERE sl.active = TRUE
+        -- Classes with assigned lessons see only those; otherwise every active lesson
+        AND (
+          NOT EXISTS (
+            SELECT 1 FROM class_students cs
+            JOIN class_student_lessons csl ON csl.class_id = cs.class_id
+            WHERE cs.user_id = ${userId}
+          )
+          OR EXISTS (
+            SELECT 1 FROM class_students cs
+            JOIN class_student_lessons csl ON csl.class_id = cs.class_id
+            WHERE cs.user_id = ${userId} AND csl.student_lesson_id = sl.id
+          )
+        )
       ORDER BY sl.lesson_number ASC
     `;
 
@@ -199,6 +236,7 @@ const handler: Handler = async (event) => {
           totalLessons: lessonList.length,
         },
         lessons: lessonList,
+        vocabReview,
         restricted_to_platform_lessons: false,
       }),
     };
@@ -3,6 +3,8 @@ import { neon } from '@neondatabase/serverless';
 import { getHeaders } from './cors-headers';
 import { requireStudentAuth } from './student-auth.js';
 import { sumEffectiveScores } from './student-lesson-scoring.js';
+import { validateStudentActivity } from '../src/lib/studentActivityContent.js';
+import { loadLessonVersion } from './lib/lesson-versions.js';
 
 const handler: Handler = async (event) => {
   const headers = getHeaders(event, false);
@@ -130,8 +132,24 @@ const handler: Handler = async (event) => {
       };
     }
 
-    const lesson = lessonRows[0];
-    const activities = (activitiesResult as Record<string, unknown>[]).map((row) => {
+    const latestVersion = Number(lessonRows[0].version);
+    let lesson: Record<string, unknown> = lessonRows[0];
+    let activityRows = activitiesResult as Record<string, unknown>[];
+
+    // An attempt stays on the version it started until it is reset (lib/lesson-versions)
+    const pinnedVersion =
+      progressResult[0]?.lesson_version == null ? null : Number(progressResult[0].lesson_version);
+    if (pinnedVersion !== null && pinnedVersion !== latestVersion) {
+      const snapshot = await loadLessonVersion(sql, lessonId, pinnedVersion);
+      if (snapshot) {
+        lesson = { ...lesson, ...snapshot.lesson, version: snapshot.version };
+        activityRows = snapshot.activities;
+      } else {
+        console.warn('get-student-lesson: no snapshot for pinned version', lessonId, pinnedVersion);
+      }
+    }
+
+    const activities = activityRows.map((row) => {
       const next = { ...row };
       for (const key of ['vocabulary_items', 'grammar_items', 'poll_items'] as const) {
         const raw = next[key];
@@ -143,6 +161,11 @@ const handler: Handler = async (event) => {
           }
         }
       }
+      const issues = validateStudentActivity(next as { activity_type: string; content: unknown });
+      if (issues.length) {
+        console.warn('get-student-lesson: invalid activity content', next.id, next.activity_type, issues);
+        next.content_issues = issues;
+      }
       return next;
     });
     const totalActivities = activities.length;
@@ -211,6 +234,7 @@ const handler: Handler = async (event) => {
         activityResults,
         completedActivityCount,
         totalActivities,
+        latestVersion,
       }),
     };
   } catch (error) {
@@ -0,0 +1,205 @@
+/**
+ * Idempotency-Key support for submit/finalize Netlify Functions
+ *
+ * Clients (BackgroundSaveQueue, StudentActivityOutbox, lesson completion screens)
+ * send an `Idempotency-Key` header that stays the same across retries of one
+ * logical request. The first request with a key is processed normally and its
+ * response is stored in `idempotency_keys`; any replay with the same key returns
+ * the stored response instead of writing again.
+ *
+ * Contract:
+ * - Keys are scoped per user + endpoint and kept for 24 hours
+ *   (expired rows are removed by cleanup-sessions).
+ * - Reusing a key with a different request body returns 422.
+ * - A replay that arrives while the first request is still running returns 409.
+ * - 5xx responses and thrown errors are not stored, so the client may retry with the same key.
+ * - Requests without the header behave exactly as before.
+ */
+
+import { createHash } from 'crypto';
+import type { HandlerResponse } from '@netlify/functions';
+import type { NeonQueryFunction } from '@neondatabase/serverless';
+
+type Sql = NeonQueryFunction<false, false>;
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+// A request still "in progress" after this long crashed or timed out; let a retry take over
+const STALE_IN_PROGRESS_SECONDS = 120;
+
+export interface IdempotentRequest {
+  /** Stored response for a replayed key (or a 409/422 conflict); return it as-is when set. */
+  replay: HandlerResponse | null;
+  /** Store the response for future replays (skipped for 5xx) and return it. */
+  finish(response: HandlerResponse): Promise<HandlerResponse>;
+  /** Forget the claim after an unexpected error so the client can retry. */
+  release(): Promise<void>;
+}
+
+/**
+ * Read and validate the Idempotency-Key header (Netlify lowercases header names)
+ */
+export function getIdempotencyKey(event: { headers?: Record<string, string | undefined> }): string | null {
+  const raw = event.headers?.['idempotency-key'] || event.headers?.['Idempotency-Key'];
+  if (!raw) return null;
+  const key = raw.trim();
+  return KEY_PATTERN.test(key) ? key : null;
+}
+
+function hashRequestBody(body: string | null | undefined): string {
+  return createHash('sha256').update(body || '').digest('hex');
+}
+
+function jsonResponse(
+  statusCode: number,
+  headers: Record<string, string>,
+  body: Record<string, unknown>
+): HandlerResponse {
+  return {
+    statusCode,
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
+
+const passthrough: IdempotentRequest = {
+  replay: null,
+  finish: async (response) => response,
+  release: async () => {},
+};
+
+/**
+ * Claim the request's Idempotency-Key before doing any writes.
+ *
+ * @param sql - Neon query function
+ * @param event - Netlify function event (reads the header and body)
+ * @param userId - Authenticated user the key belongs to
+ * @param endpoint - Function name, e.g. 'finalize-lesson'
+ * @param headers - Response headers to use for replays and conflicts
+ */
+export async function startIdempotentRequest(
+  sql: Sql,
+  event: { headers?: Record<string, string | undefined>; body?: string | null },
+  userId: string,
+  endpoint: string,
+  headers: Record<string, string> = {}
+): Promise<IdempotentRequest> {
+  const key = getIdempotencyKey(event);
+  if (!key) return passthrough;
+
+  const requestHash = hashRequestBody(event.body);
+
+  const claimed = await sql`
+    INSERT INTO idempotency_keys (user_id, endpoint, idempotency_key, request_hash, status)
+    VALUES (${userId}, ${endpoint}, ${key}, ${requestHash}, 'in_progress')
+    ON CONFLICT (user_id, endpoint, idempotency_key) DO NOTHING
+    RETURNING id
+  `;
+
+  let claimId = (claimed as Array<{ id: string }>)[0]?.id ?? null;
+
+  if (!claimId) {
+    const rows = (await sql`
+      SELECT id, request_hash, status, response_status, response_body,
+             expires_at < NOW() AS expired
+      FROM idempotency_keys
+      WHERE user_id = ${userId} AND endpoint = ${endpoint} AND idempotency_key = ${key}
+      LIMIT 1
+    `) as Array<{
+      id: string;
+      request_hash: string;
+      status: 'in_progress' | 'completed';
+      response_status: number | null;
+      response_body: string | null;
+      expired: boolean;
+    }>;
+    const existing = rows[0];
+
+    if (existing && existing.request_hash !== requestHash && !existing.expired) {
+      return {
+        ...passthrough,
+        replay: jsonResponse(422, headers, {
+          success: false,
+          error: 'Idempotency-Key was already used with a different request body',
+        }),
+      };
+    }
+
+    if (existing && existing.status === 'completed' && !existing.expired) {
+      console.log(`[idempotency] Replaying ${endpoint} response for key ${key}`);
+      return {
+        ...passthrough,
+        replay: {
+          statusCode: existing.response_status ?? 200,
+          headers: { ...headers, 'Content-Type': 'application/json', 'Idempotent-Replayed': 'true' },
+          body: existing.response_body ?? '',
+        },
+      };
+    }
+
+    // Expired, abandoned or vanished row: take it over for this attempt
+    const takeover = await sql`
+      UPDATE idempotency_keys
+      SET request_hash = ${requestHash},
+          status = 'in_progress',
+          response_status = NULL,
+          response_body = NULL,
+          created_at = NOW(),
+          completed_at = NULL,
+          expires_at = NOW() + INTERVAL '24 hours'
+      WHERE user_id = ${userId} AND endpoint = ${endpoint} AND idempotency_key = ${key}
+        AND (
+          expires_at < NOW()
+          OR (status = 'in_progress' AND created_at < NOW() - (${STALE_IN_PROGRESS_SECONDS} * INTERVAL '1 second'))
+        )
+      RETURNING id
+    `;
+    claimId = (takeover as Array<{ id: string }>)[0]?.id ?? null;
+
+    if (!claimId) {
+      return {
+        ...passthrough,
+        replay: {
+          ...jsonResponse(409, headers, {
+            success: false,
+            error: 'A request with this Idempotency-Key is still being processed',
+            retryAfter: 2,
+          }),
+          headers: { ...headers, 'Content-Type': 'application/json', 'Retry-After': '2' },
+        },
+      };
+    }
+  }
+
+  const id = claimId;
+
+  return {
+    replay: null,
+    async finish(response) {
+      try {
+        if (response.statusCode >= 500) {
+          await sql`DELETE FROM idempotency_keys WHERE id = ${id}`;
+        } else {
+          await sql`
+            UPDATE idempotency_keys
+            SET status = 'completed',
+                response_status = ${response.statusCode},
+                response_body = ${response.body ?? ''},
+                completed_at = NOW()
+            WHERE id = ${id}
+          `;
+        }
+      } catch (error) {
+        // The write itself succeeded; a failed bookkeeping update must not fail the request
+        console.error(`[idempotency] Failed to store ${endpoint} response:`, error);
+      }
+      return response;
+    },
+    async release() {
+      try {
+        await sql`DELETE FROM idempotency_keys WHERE id = ${id}`;
+      } catch (error) {
+        console.error(`[idempotency] Failed to release ${endpoint} key:`, error);
+      }
+    },
+  };
+}
@@ -1,5 +1,8 @@
 import { Handler } from '@netlify/functions';
 import OpenAI from 'openai';
+import { neon } from '@neondatabase/serverless';
+import { checkRouteRateLimit, createRateLimitResponse } from './rate-limit';
+import { aiQuotaResponse, chatCompletionUsage, checkAiQuota, recordAiUsage, resolveAiCaller } from './lib/ai-usage';
 
 // Initialize OpenAI client
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
@@ -43,6 +46,7 @@ interface RequestBody {
   maxWords?: number;
   minWords?: number;
   segmentCount?: number;
+  lesson_id?: string;
 }
 
 const handler: Handler = async (event, context) => {
@@ -96,6 +100,18 @@ const handler: Handler = async (event, context) => {
       throw new Error('OpenAI API key is required but not configured. Please set OPENAI_API_KEY in your environment.');
     }
 
+    const databaseUrl = process.env.NEON_DATABASE_URL;
+    const sql = databaseUrl ? neon(databaseUrl) : null;
+    const caller = await resolveAiCaller(event, sql);
+    const rateLimit = await checkRouteRateLimit(event, 'improve_transcription', { userId: caller?.userId });
+    if (!rateLimit.allowed) {
+      return createRateLimitResponse(rateLimit, headers) as any;
+    }
+    const quota = await checkAiQuota(sql, caller);
+    if (!quota.allowed) {
+      return aiQuotaResponse(quota, headers) as any;
+    }
+
     console.log('✨ Improving transcription text...');
 
     const level = (body.level || '').trim();
@@ -145,7 +161,7 @@ Output (one paragraph only, ${minWordsForImproved}-${maxWordsForImproved} words)
         systemPreview: systemPrompt.slice(0, 300),
         userPreview: makeUserPrompt(inputText).slice(0, 300),
       });
-      return await openai.chat.completions.create({
+      const response = await openai.chat.completions.create({
         model: 'gpt-4o-mini',
         max_completion_tokens: 250,
         messages: [
@@ -153,6 +169,15 @@ Output (one paragraph only, ${minWordsForImproved}-${maxWordsForImproved} words)
           { role: 'user', content: makeUserPrompt(inputText) },
         ],
       });
+      await recordAiUsage(sql, {
+        ...chatCompletionUsage('gpt-4o-mini', response.usage),
+        feature: 'improve_transcription',
+        userId: caller?.userId,
+        role: caller?.role,
+        lessonId: typeof body.lesson_id === 'string' ? body.lesson_id : null,
+        metadata: { attempt: attemptLabel },
+      });
+      return response;
     };
 
     // Single attempt (stable model) with shrunk input
@@ -0,0 +1,201 @@
+/**
+ * Computer-adaptive selection for the placement test (evaluation_test.adaptive).
+ *
+ * Ability is a position on the CEFR scale (0 = Pre-A1 … 6 = C2). Each answer moves it up or down
+ * by the current step; the step halves whenever the direction reverses, and the test stops once
+ * it falls to ADAPTIVE_DEFAULTS.minStep (converged), the item cap is hit, or the bank runs out.
+ * The estimate is the mean of the last two reversal points (a staircase estimate), i.e. the
+ * boundary between the highest level the student passes and the next one up.
+ * Selection is deterministic, so the server can replay a submitted path and reject answers to
+ * items it would not have served.
+ */
+
+export const PLACEMENT_LEVELS = ['Pre-A1', 'A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const
+export type PlacementLevel = (typeof PLACEMENT_LEVELS)[number]
+
+/** Auto-scored types whose answer is compared with correct_answer; others stay in the fixed part */
+export const ADAPTIVE_QUESTION_TYPES = ['multiple_choice', 'fill_blank', 'dropdown', 'drag_fill'] as const
+
+export const ADAPTIVE_DEFAULTS = {
+  startLevel: 'A2' as PlacementLevel,
+  initialStep: 1,
+  minStep: 0.25,
+  minItems: 5,
+  maxItems: 15,
+}
+
+/** Band midpoints on the 0–100 scale used by CEFR_MAPPING (src/lib/evaluationConfig.ts) */
+const LEVEL_PERCENTAGES = [10, 30, 50, 65, 75, 85, 95]
+
+export interface AdaptiveQuestion {
+  id: string
+  question_type: string
+  level?: string | null
+  correct_answer?: string | null
+  points?: number
+}
+
+export interface AdaptiveResponse {
+  question_id: string
+  answer: unknown
+}
+
+export interface AdaptivePathStep {
+  question_id: string
+  level: PlacementLevel
+  correct: boolean
+  ability_before: number
+  ability_after: number
+  step: number
+}
+
+export type AdaptiveStopReason = 'converged' | 'max_items' | 'exhausted'
+
+export interface AdaptiveState {
+  /** Current staircase position */
+  ability: number
+  /** Boundary estimate the level is read from */
+  estimate: number
+  level: PlacementLevel
+  step: number
+  path: AdaptivePathStep[]
+  done: boolean
+  stop_reason: AdaptiveStopReason | null
+  /** Next item to serve; null once done */
+  next_question_id: string | null
+}
+
+export class AdaptiveSequenceError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AdaptiveSequenceError'
+  }
+}
+
+export function levelIndex(level: unknown): number {
+  return PLACEMENT_LEVELS.indexOf(level as PlacementLevel)
+}
+
+export function isAdaptiveQuestion(q: AdaptiveQuestion): boolean {
+  return (
+    (ADAPTIVE_QUESTION_TYPES as readonly string[]).includes(q.question_type) &&
+    levelIndex(q.level) >= 0 &&
+    typeof q.correct_answer === 'string' &&
+    q.correct_answer.trim() !== ''
+  )
+}
+
+/** Split a test into the adaptive pool and the fixed items (speaking, writing, untagged) served after it. */
+export function splitAdaptiveQuestions<T extends AdaptiveQuestion>(questions: T[]): { pool: T[]; fixed: T[] } {
+  const pool: T[] = []
+  const fixed: T[] = []
+  for (const q of questions) (isAdaptiveQuestion(q) ? pool : fixed).push(q)
+  return { pool, fixed }
+}
+
+export function isCorrectAdaptiveAnswer(question: AdaptiveQuestion, answer: unknown): boolean {
+  if (typeof answer !== 'string') return false
+  const normalize = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase()
+  return normalize(answer) === normalize(String(question.correct_answer ?? ''))
+}
+
+/** Closest level to the current ability; ties go to the earlier item in the bank. */
+export function selectNextQuestion<T extends AdaptiveQuestion>(pool: T[], ability: number, usedIds: Set<string>): T | null {
+  let best: T | null = null
+  let bestDistance = Infinity
+  for (const q of pool) {
+    if (usedIds.has(q.id)) continue
+    const distance = Math.abs(levelIndex(q.level) - ability)
+    if (distance < bestDistance) {
+      best = q
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+/** Highest level below the estimated boundary */
+export function estimateToLevel(estimate: number): PlacementLevel {
+  const i = Math.max(0, Math.min(PLACEMENT_LEVELS.length - 1, Math.floor(estimate)))
+  return PLACEMENT_LEVELS[i]
+}
+
+/**
+ * Estimate as a 0–100 score so it can stand in for the test percentage in the level formula.
+ * A boundary of n + 0.5 (passes level n, fails n + 1) lands on level n's band midpoint.
+ */
+export function estimateToPercentage(estimate: number): number {
+  const clamped = Math.max(0, Math.min(LEVEL_PERCENTAGES.length - 1, estimate - 0.5))
+  const lower = Math.floor(clamped)
+  const upper = Math.min(lower + 1, LEVEL_PERCENTAGES.length - 1)
+  const pct = LEVEL_PERCENTAGES[lower] + (LEVEL_PERCENTAGES[upper] - LEVEL_PERCENTAGES[lower]) * (clamped - lower)
+  return Math.round(pct)
+}
+
+/**
+ * Replay responses in order and return the resulting estimate plus the next item. Throws
+ * AdaptiveSequenceError when a response is not for the item the algorithm would have served
+ * at that point, or arrives after the test has already stopped.
+ */
+export function replayAdaptivePlacement(
+  questions: AdaptiveQuestion[],
+  responses: AdaptiveResponse[],
+  options: Partial<typeof ADAPTIVE_DEFAULTS> = {}
+): AdaptiveState {
+  const opts = { ...ADAPTIVE_DEFAULTS, ...options }
+  const { pool } = splitAdaptiveQuestions(questions)
+  const used = new Set<string>()
+  const path: AdaptivePathStep[] = []
+  let ability = levelIndex(opts.startLevel)
+  let step = opts.initialStep
+  let lastDirection = 0
+  const reversals: number[] = []
+
+  const stopReason = (): AdaptiveStopReason | null => {
+    if (path.length >= opts.maxItems) return 'max_items'
+    if (path.length >= opts.minItems && step <= opts.minStep) return 'converged'
+    if (!selectNextQuestion(pool, ability, used)) return 'exhausted'
+    return null
+  }
+
+  for (const response of responses) {
+    if (stopReason()) throw new AdaptiveSequenceError('Adaptive section already finished')
+    const expected = selectNextQuestion(pool, ability, used)
+    if (!expected || expected.id !== response.question_id) {
+      throw new AdaptiveSequenceError(`Unexpected question ${response.question_id}`)
+    }
+    const correct = isCorrectAdaptiveAnswer(expected, response.answer)
+    const direction = correct ? 1 : -1
+    if (lastDirection !== 0 && direction !== lastDirection) {
+      step = Math.max(step / 2, opts.minStep)
+      reversals.push(ability)
+    }
+    const before = ability
+    ability = Math.max(0, Math.min(PLACEMENT_LEVELS.length - 1, ability + direction * step))
+    lastDirection = direction
+    used.add(expected.id)
+    path.push({
+      question_id: expected.id,
+      level: PLACEMENT_LEVELS[levelIndex(expected.level)],
+      correct,
+      ability_before: before,
+      ability_after: ability,
+      step,
+    })
+  }
+
+  const reason = stopReason()
+  const estimate = reversals.length >= 2
+    ? (reversals[reversals.length - 1] + reversals[reversals.length - 2]) / 2
+    : ability
+  return {
+    ability,
+    estimate,
+    level: estimateToLevel(estimate),
+    step,
+    path,
+    done: reason !== null,
+    stop_reason: reason,
+    next_question_id: reason ? null : selectNextQuestion(pool, ability, used)?.id ?? null,
+  }
+}
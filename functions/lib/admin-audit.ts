@@ -0,0 +1,126 @@
+/**
+ * Admin audit log (admin_audit_log): an append-only record of every admin and teacher mutation.
+ *
+ * Functions call recordAdminAudit after the change succeeds, with the caller from withAuth, a
+ * dotted action ('user.delete', 'lessons.restrict', ...), the target and the students it
+ * affected, and before/after snapshots. Snapshots go through auditSnapshot so
+ * credentials never land in the log. A failed audit write is logged and does not fail the
+ * action it describes. admin-audit-log searches the table for /admin/audit.
+ */
+
+import type { NeonQueryFunction } from '@neondatabase/serverless'
+import { clientIpFromHeaders, describeUserAgent, regionFromHeaders } from './user-sessions.js'
+
+type Sql = NeonQueryFunction<false, false>
+
+export interface AuditActor {
+  userId: string | null
+  role: string
+}
+
+export interface AdminAuditEntry {
+  /** Dotted verb, e.g. 'user.update_level' */
+  action: string
+  /** 'user', 'lesson', 'class', ... */
+  targetType: string
+  targetId?: string | null
+  /** Readable name of the target (email, lesson title) that survives its deletion */
+  targetLabel?: string | null
+  /** Students affected, for filtering the log by student */
+  targetUserIds?: Array<string | null | undefined>
+  before?: unknown
+  after?: unknown
+  notes?: string | null
+}
+
+export interface AuditRequestMetadata {
+  method: string | null
+  path: string | null
+  ip: string | null
+  region: string | null
+  device: string | null
+}
+
+interface AuditEvent {
+  httpMethod?: string
+  path?: string
+  headers?: Record<string, string | undefined>
+}
+
+const SECRET_KEY = /password|token|secret|otp|api_?key/i
+const MAX_STRING = 2000
+const MAX_ARRAY = 200
+
+export function auditRequestMetadata(event: AuditEvent): AuditRequestMetadata {
+  const userAgent = event.headers?.['user-agent']
+  return {
+    method: event.httpMethod || null,
+    path: event.path || null,
+    ip: clientIpFromHeaders(event.headers),
+    region: regionFromHeaders(event.headers),
+    device: userAgent ? describeUserAgent(userAgent) : null,
+  }
+}
+
+/**
+ * JSON-safe copy of a row or payload for the log: credential-like keys are redacted, dates
+ * become ISO strings, long strings and arrays are cut so one snapshot cannot bloat the table.
+ */
+export function auditSnapshot(value: unknown): unknown {
+  if (value === undefined) return null
+  if (value === null || typeof value === 'number' || typeof value === 'boolean') return value
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING ? `${value.slice(0, MAX_STRING)}…` : value
+  }
+  if (value instanceof Date) return value.toISOString()
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY).map(auditSnapshot)
+    return value.length > MAX_ARRAY ? [...items, `… ${value.length - MAX_ARRAY} more`] : items
+  }
+  if (typeof value === 'object') {
+    const out: Record<string, unknown> = {}
+    for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+      if (v === undefined) continue
+      out[key] = SECRET_KEY.test(key) ? '[redacted]' : auditSnapshot(v)
+    }
+    return out
+  }
+  return String(value)
+}
+
+export async function recordAdminAudit(
+  sql: Sql,
+  actor: AuditActor,
+  event: AuditEvent,
+  entry: AdminAuditEntry
+): Promise<void> {
+  const targetUserIds = Array.from(
+    new Set((entry.targetUserIds || []).filter((id): id is string => typeof id === 'string' && id !== ''))
+  )
+  const before = entry.before === undefined ? null : JSON.stringify(auditSnapshot(entry.before))
+  const after = entry.after === undefined ? null : JSON.stringify(auditSnapshot(entry.after))
+  try {
+    await sql`
+      INSERT INTO admin_audit_log (
+        actor_user_id, actor_email, actor_role, action, target_type, target_id, target_label,
+        target_user_ids, before_snapshot, after_snapshot, notes, request_metadata
+      )
+      VALUES (
+        ${actor.userId},
+        (SELECT email FROM users WHERE id = ${actor.userId}),
+        ${actor.role},
+        ${entry.action},
+        ${entry.targetType},
+        ${entry.targetId ?? null},
+        ${entry.targetLabel ?? null},
+        ${targetUserIds}::uuid[],
+        ${before}::jsonb,
+        ${after}::jsonb,
+        ${entry.notes ?? null},
+        ${JSON.stringify(auditRequestMetadata(event))}::jsonb
+      )
+    `
+  } catch (error) {
+    console.error(`[admin-audit] could not record ${entry.action}:`, error)
+  }
+}
@@ -0,0 +1,330 @@
+/**
+ * AI usage accounting and per-role quotas (ai_usage_events / ai_quotas).
+ *
+ * Every paid provider call (Whisper / AssemblyAI transcription, chat completions, image
+ * generation, TTS) is recorded with recordAiUsage against the user and lesson it was made for,
+ * with its size (tokens, audio seconds, characters, images) and an estimated cost from
+ * AI_MODEL_PRICES. Before starting the work, functions call checkAiQuota for the signed-in
+ * caller: each role has a daily and a monthly budget in USD (DEFAULT_AI_QUOTAS, overridden per
+ * role in ai_quotas; null = unlimited), counted over UTC days and months. A caller over budget
+ * gets aiQuotaResponse, a 429 telling them when to try again. Accounting never fails the request:
+ * database errors are logged, and the quota check then allows the call. admin-ai-usage reports
+ * the spend by feature, class and student.
+ */
+
+import type { NeonQueryFunction } from '@neondatabase/serverless'
+import { ALL_ROLES, authenticate } from './auth.js'
+import type { TranscriptionResult } from './transcription-provider.js'
+
+type Sql = NeonQueryFunction<false, false>
+
+export type AiFeature = 'speech_job' | 'ai_feedback' | 'improve_transcription' | 'superhero_image' | 'tts'
+
+export const AI_FEATURES: AiFeature[] = ['speech_job', 'ai_feedback', 'improve_transcription', 'superhero_image', 'tts']
+
+export interface AiUsage {
+  provider: 'openai' | 'assemblyai'
+  model: string
+  inputTokens?: number
+  outputTokens?: number
+  audioSeconds?: number
+  characters?: number
+  images?: number
+}
+
+/** Collects usage from helpers that make several provider calls (see superhero-image-worker). */
+export type AiUsageSink = (usage: AiUsage) => void
+
+export interface AiUsageEntry extends AiUsage {
+  feature: AiFeature
+  userId?: string | null
+  role?: string | null
+  /** lessons.id or student_lessons.id */
+  lessonId?: string | null
+  metadata?: Record<string, unknown>
+}
+
+interface ModelPrice {
+  inputPerMillionTokens?: number
+  outputPerMillionTokens?: number
+  perAudioMinute?: number
+  perMillionCharacters?: number
+  perImage?: number
+}
+
+/** List prices in USD; estimates, not invoices. */
+export const AI_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-5-mini': { inputPerMillionTokens: 0.25, outputPerMillionTokens: 2 },
+  'gpt-4o-mini': { inputPerMillionTokens: 0.15, outputPerMillionTokens: 0.6 },
+  'whisper-1': { perAudioMinute: 0.006 },
+  // AssemblyAI default (Universal) model, $0.37 per hour
+  universal: { perAudioMinute: 0.37 / 60 },
+  'tts-1': { perMillionCharacters: 15 },
+  // High quality 1024x1536 portrait; input tokens are the prompt and the selfie
+  'gpt-image-1': { perImage: 0.25, inputPerMillionTokens: 10 },
+  'dall-e-3': { perImage: 0.04 },
+}
+
+export type AiQuotaRole = 'student' | 'user' | 'teacher' | 'admin'
+
+export interface AiQuotaLimits {
+  dailyLimitUsd: number | null
+  monthlyLimitUsd: number | null
+}
+
+export const DEFAULT_AI_QUOTAS: Record<AiQuotaRole, AiQuotaLimits> = {
+  student: { dailyLimitUsd: 0.5, monthlyLimitUsd: 5 },
+  user: { dailyLimitUsd: 0.5, monthlyLimitUsd: 5 },
+  teacher: { dailyLimitUsd: null, monthlyLimitUsd: null },
+  admin: { dailyLimitUsd: null, monthlyLimitUsd: null },
+}
+
+export interface AiQuotaStatus extends AiQuotaLimits {
+  allowed: boolean
+  exceeded: 'daily' | 'monthly' | null
+  usedTodayUsd: number
+  usedThisMonthUsd: number
+  /** When the exceeded budget starts over (ISO) */
+  resetsAt: string | null
+}
+
+export interface AiCaller {
+  userId: string
+  role: string
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function round6(value: number): number {
+  return Math.round(value * 1e6) / 1e6
+}
+
+export function estimateAiCostUsd(usage: AiUsage): number {
+  const price = AI_MODEL_PRICES[usage.model]
+  if (!price) return 0
+  const cost =
+    ((usage.inputTokens || 0) * (price.inputPerMillionTokens || 0)) / 1e6 +
+    ((usage.outputTokens || 0) * (price.outputPerMillionTokens || 0)) / 1e6 +
+    ((usage.audioSeconds || 0) / 60) * (price.perAudioMinute || 0) +
+    ((usage.characters || 0) * (price.perMillionCharacters || 0)) / 1e6 +
+    (usage.images || 0) * (price.perImage || 0)
+  return round6(cost)
+}
+
+/** Usage of one chat completion, from the response's `usage` block. */
+export function chatCompletionUsage(
+  model: string,
+  usage: { prompt_tokens?: number; completion_tokens?: number } | null | undefined
+): AiUsage {
+  return {
+    provider: 'openai',
+    model,
+    inputTokens: usage?.prompt_tokens || 0,
+    outputTokens: usage?.completion_tokens || 0,
+  }
+}
+
+/**
+ * Audio length guessed from the upload size, for when the provider reports no duration. Compressed
+ * uploads are taken to be at the 64 kbps our recorders ask for, WAV at 16 kHz 16-bit mono.
+ */
+export function estimateAudioSeconds(bytes: number, mimeType?: string | null): number {
+  const isWav = /wav|wave/i.test(mimeType || '')
+  return Math.max(1, Math.round(bytes / (isWav ? 32_000 : 8_000)))
+}
+
+/** Usage of one transcription; null for the local fixture provider, which costs nothing. */
+export function transcriptionUsage(result: TranscriptionResult, fallbackSeconds?: number | null): AiUsage | null {
+  if (result.provider === 'local') return null
+  const duration = result.whisper_verbose?.duration
+  return {
+    provider: result.provider,
+    model: result.provider === 'assemblyai' ? 'universal' : 'whisper-1',
+    audioSeconds: typeof duration === 'number' && duration > 0 ? duration : fallbackSeconds || 0,
+  }
+}
+
+/** The signed-in caller, for attributing usage and applying their role's quota. */
+export async function resolveAiCaller(
+  event: { headers?: Record<string, string | undefined> },
+  sql?: Sql | null
+): Promise<AiCaller | null> {
+  try {
+    const result = await authenticate(event, { roles: ALL_ROLES, requireDbCheck: false }, sql || undefined)
+    if (!result.ok || !result.identity.userId) return null
+    return { userId: result.identity.userId, role: result.identity.role }
+  } catch (error) {
+    console.error('[ai-usage] could not resolve caller:', error)
+    return null
+  }
+}
+
+/** Start of the current UTC day and month, and of the next ones. */
+export function aiQuotaPeriods(now: Date): { dayStart: Date; monthStart: Date; nextDay: Date; nextMonth: Date } {
+  const y = now.getUTCFullYear()
+  const m = now.getUTCMonth()
+  const d = now.getUTCDate()
+  return {
+    dayStart: new Date(Date.UTC(y, m, d)),
+    monthStart: new Date(Date.UTC(y, m, 1)),
+    nextDay: new Date(Date.UTC(y, m, d + 1)),
+    nextMonth: new Date(Date.UTC(y, m + 1, 1)),
+  }
+}
+
+export function aiQuotaDecision(
+  used: { todayUsd: number; thisMonthUsd: number },
+  limits: AiQuotaLimits,
+  now: Date
+): AiQuotaStatus {
+  const periods = aiQuotaPeriods(now)
+  // Monthly first: when both are spent, tomorrow would not help
+  const exceeded =
+    limits.monthlyLimitUsd !== null && used.thisMonthUsd >= limits.monthlyLimitUsd
+      ? 'monthly'
+      : limits.dailyLimitUsd !== null && used.todayUsd >= limits.dailyLimitUsd
+        ? 'daily'
+        : null
+  return {
+    allowed: exceeded === null,
+    exceeded,
+    usedTodayUsd: round6(used.todayUsd),
+    usedThisMonthUsd: round6(used.thisMonthUsd),
+    dailyLimitUsd: limits.dailyLimitUsd,
+    monthlyLimitUsd: limits.monthlyLimitUsd,
+    resetsAt:
+      exceeded === 'monthly'
+        ? periods.nextMonth.toISOString()
+        : exceeded === 'daily'
+          ? periods.nextDay.toISOString()
+          : null,
+  }
+}
+
+function defaultLimits(role: string): AiQuotaLimits {
+  return DEFAULT_AI_QUOTAS[role as AiQuotaRole] || DEFAULT_AI_QUOTAS.user
+}
+
+function toLimit(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value)
+}
+
+export async function loadAiQuotaLimits(sql: Sql, role: string): Promise<AiQuotaLimits> {
+  const rows = await sql`SELECT daily_limit_usd, monthly_limit_usd FROM ai_quotas WHERE role = ${role}`
+  const row = rows[0] as { daily_limit_usd: unknown; monthly_limit_usd: unknown } | undefined
+  if (!row) return defaultLimits(role)
+  return { dailyLimitUsd: toLimit(row.daily_limit_usd), monthlyLimitUsd: toLimit(row.monthly_limit_usd) }
+}
+
+/**
+ * Whether the caller may start another AI call. Anonymous callers have no quota; the AI endpoints
+ * hold them to the per-IP buckets in RATE_LIMIT_POLICIES instead.
+ */
+export async function checkAiQuota(sql: Sql | null, caller: AiCaller | null, now = new Date()): Promise<AiQuotaStatus> {
+  const unlimited: AiQuotaStatus = {
+    allowed: true,
+    exceeded: null,
+    usedTodayUsd: 0,
+    usedThisMonthUsd: 0,
+    dailyLimitUsd: null,
+    monthlyLimitUsd: null,
+    resetsAt: null,
+  }
+  if (!sql || !caller) return unlimited
+  try {
+    const limits = await loadAiQuotaLimits(sql, caller.role)
+    if (limits.dailyLimitUsd === null && limits.monthlyLimitUsd === null) return unlimited
+    const { dayStart, monthStart } = aiQuotaPeriods(now)
+    const rows = await sql`
+      SELECT
+        COALESCE(SUM(estimated_cost_usd) FILTER (WHERE created_at >= ${dayStart.toISOString()}::timestamptz), 0)::float8
+          AS today_usd,
+        COALESCE(SUM(estimated_cost_usd), 0)::float8 AS month_usd
+      FROM ai_usage_events
+      WHERE user_id = ${caller.userId} AND created_at >= ${monthStart.toISOString()}::timestamptz
+    `
+    const row = rows[0] as { today_usd: number; month_usd: number } | undefined
+    return aiQuotaDecision({ todayUsd: row?.today_usd || 0, thisMonthUsd: row?.month_usd || 0 }, limits, now)
+  } catch (error) {
+    console.error('[ai-usage] quota check failed, allowing the call:', error)
+    return unlimited
+  }
+}
+
+export function aiQuotaMessage(status: AiQuotaStatus): string {
+  return status.exceeded === 'monthly'
+    ? "You've used this month's AI practice allowance. Please try again next month."
+    : "You've used today's AI practice allowance. Please try again tomorrow."
+}
+
+/** 429 for a caller over budget, merged over the function's own (CORS) headers. */
+export function aiQuotaResponse(
+  status: AiQuotaStatus,
+  headers: Record<string, string> = {},
+  now = new Date()
+): { statusCode: number; headers: Record<string, string>; body: string } {
+  const retryAfter = status.resetsAt
+    ? Math.max(1, Math.ceil((new Date(status.resetsAt).getTime() - now.getTime()) / 1000))
+    : null
+  return {
+    statusCode: 429,
+    headers: {
+      ...headers,
+      'Content-Type': 'application/json',
+      ...(retryAfter ? { 'Retry-After': String(retryAfter) } : {}),
+    },
+    body: JSON.stringify({
+      success: false,
+      error: aiQuotaMessage(status),
+      code: 'ai_quota_exceeded',
+      quota: {
+        period: status.exceeded,
+        used_today_usd: status.usedTodayUsd,
+        used_this_month_usd: status.usedThisMonthUsd,
+        daily_limit_usd: status.dailyLimitUsd,
+        monthly_limit_usd: status.monthlyLimitUsd,
+        resets_at: status.resetsAt,
+      },
+      retryAfter,
+    }),
+  }
+}
+
+export async function recordAiUsage(sql: Sql | null, entry: AiUsageEntry): Promise<void> {
+  if (!sql) return
+  const priced = Boolean(AI_MODEL_PRICES[entry.model])
+  if (!priced) console.warn(`[ai-usage] no price for model ${entry.model}; recording it at $0`)
+  // Anything that isn't a users.id stays out of the foreign key (and is kept in metadata)
+  const userId = entry.userId && UUID_RE.test(entry.userId) ? entry.userId : null
+  const metadata = {
+    ...(entry.metadata || {}),
+    ...(priced ? {} : { unpriced: true }),
+    ...(entry.userId && !userId ? { claimed_user_id: entry.userId } : {}),
+  }
+  try {
+    await sql`
+      INSERT INTO ai_usage_events (
+        user_id, role, feature, provider, model, lesson_id,
+        input_tokens, output_tokens, audio_seconds, characters, images,
+        estimated_cost_usd, metadata
+      )
+      VALUES (
+        ${userId},
+        ${entry.role || null},
+        ${entry.feature},
+        ${entry.provider},
+        ${entry.model},
+        ${entry.lessonId || null},
+        ${Math.round(entry.inputTokens || 0)},
+        ${Math.round(entry.outputTokens || 0)},
+        ${entry.audioSeconds || 0},
+        ${Math.round(entry.characters || 0)},
+        ${Math.round(entry.images || 0)},
+        ${estimateAiCostUsd(entry)},
+        ${Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : null}::jsonb
+      )
+    `
+  } catch (error) {
+    console.error(`[ai-usage] could not record ${entry.feature} usage:`, error)
+  }
+}
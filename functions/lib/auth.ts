@@ -0,0 +1,208 @@
+/**
+ * Shared authentication for the Netlify functions.
+ *
+ * Staff (admin / teacher) call with the admin_token cookie; everyone else with access_token.
+ * Either may also come as `Authorization: Bearer`. authenticate() verifies the JWT, checks the
+ * role, the login session named by the token's `sid` (user_sessions, see user-sessions.ts) and,
+ * with requireDbCheck, that the user still exists with an allowed role and has not been revoked
+ * since the token was issued (users.session_revoked_at, set by admin-revoke-session and
+ * "sign out everywhere"). withAuth() wraps a handler with it and answers failures with uniform
+ * bodies: 401 `{ success: false, error, code }` when the caller is not (or no longer) signed
+ * in, 403 when signed in with a role the function does not allow.
+ */
+
+import type { Handler, HandlerContext, HandlerEvent, HandlerResponse } from '@netlify/functions'
+import type { NeonQueryFunction } from '@neondatabase/serverless'
+import * as jwt from 'jsonwebtoken'
+import { checkUserSession, SESSION_SIGNED_OUT_CODE } from './user-sessions.js'
+
+type Sql = NeonQueryFunction<false, false>
+
+export type AuthRole = 'admin' | 'teacher' | 'student' | 'user'
+
+export const ALL_ROLES: AuthRole[] = ['admin', 'teacher', 'student', 'user']
+const STAFF_ROLES: AuthRole[] = ['admin', 'teacher']
+
+export type AuthErrorCode =
+  | 'auth_required'
+  | 'invalid_token'
+  | 'session_revoked'
+  | typeof SESSION_SIGNED_OUT_CODE
+  | 'forbidden'
+  | 'server_config'
+
+export interface AuthIdentity {
+  /** users.id; null only for tokens without userId when requireDbCheck is off */
+  userId: string | null
+  email: string | null
+  role: AuthRole
+  /** user_sessions.id from the token's sid claim; null for tokens issued before sessions had one */
+  sessionId: string | null
+}
+
+export interface AuthOptions {
+  roles: AuthRole[]
+  /**
+   * Re-read the users row: it must still exist with an allowed role, and the token must be newer
+   * than users.session_revoked_at. Defaults to true.
+   */
+  requireDbCheck?: boolean
+}
+
+export type AuthResult =
+  | { ok: true; identity: AuthIdentity }
+  | { ok: false; statusCode: 401 | 403 | 500; error: string; code: AuthErrorCode }
+
+interface TokenClaims {
+  userId?: string
+  id?: string
+  email?: string
+  role?: string
+  type?: string
+  sid?: string
+  iat?: number
+}
+
+export function readCookie(cookies: string, name: string): string | null {
+  for (const cookie of cookies.split(';')) {
+    const [cookieName, ...rest] = cookie.trim().split('=')
+    if (cookieName === name) return rest.join('=') || null
+  }
+  return null
+}
+
+function failure(statusCode: 401 | 403 | 500, code: AuthErrorCode, error: string): AuthResult {
+  return { ok: false, statusCode, error, code }
+}
+
+function isRole(role: unknown): role is AuthRole {
+  return typeof role === 'string' && (ALL_ROLES as string[]).includes(role)
+}
+
+/** Verifies a token already taken from the request (see authenticate for where it is read). */
+export async function verifyAuthToken(
+  token: string,
+  options: AuthOptions,
+  sql?: Sql
+): Promise<AuthResult> {
+  const jwtSecret = process.env.JWT_SECRET
+  if (!jwtSecret) return failure(500, 'server_config', 'JWT configuration error')
+
+  let claims: TokenClaims
+  try {
+    claims = jwt.verify(token, jwtSecret) as TokenClaims
+  } catch {
+    return failure(401, 'invalid_token', 'Invalid or expired token')
+  }
+  // Session tokens only identify the login session; they are not credentials for functions
+  if (claims.type === 'session' || !isRole(claims.role)) {
+    return failure(401, 'invalid_token', 'Invalid or expired token')
+  }
+  if (!options.roles.includes(claims.role)) {
+    return failure(403, 'forbidden', 'You do not have access to this resource')
+  }
+
+  const identity: AuthIdentity = {
+    userId: claims.userId || claims.id || null,
+    email: claims.email || null,
+    role: claims.role,
+    sessionId: claims.sid ? String(claims.sid) : null,
+  }
+  const requireDbCheck = options.requireDbCheck !== false
+  if (!requireDbCheck && !identity.sessionId) return { ok: true, identity }
+
+  if (!sql) {
+    const databaseUrl = process.env.NEON_DATABASE_URL
+    if (!databaseUrl) return failure(500, 'server_config', 'Database configuration error')
+    const { neon } = await import('@neondatabase/serverless')
+    sql = neon(databaseUrl)
+  }
+
+  if (identity.sessionId) {
+    const session = await checkUserSession(sql, identity.sessionId)
+    if (!session.ok) return failure(401, SESSION_SIGNED_OUT_CODE, session.error)
+  }
+  if (!requireDbCheck) return { ok: true, identity }
+
+  // Staff tokens issued before they carried userId identify the user by email
+  const rows = identity.userId
+    ? await sql`SELECT id, email, role, session_revoked_at FROM users WHERE id = ${identity.userId}`
+    : identity.email
+      ? await sql`
+          SELECT id, email, role, session_revoked_at FROM users
+          WHERE email = ${identity.email} AND role = ${identity.role}
+          LIMIT 1
+        `
+      : []
+  const user = rows[0] as { id: string; email: string; role: string; session_revoked_at: string | null } | undefined
+  if (!user) return failure(401, 'invalid_token', 'Account not found')
+  if (!isRole(user.role) || !options.roles.includes(user.role)) {
+    return failure(403, 'forbidden', 'You do not have access to this resource')
+  }
+  if (user.session_revoked_at && claims.iat && claims.iat * 1000 < new Date(user.session_revoked_at).getTime()) {
+    return failure(401, 'session_revoked', 'Session has been revoked')
+  }
+
+  return {
+    ok: true,
+    identity: { ...identity, userId: String(user.id), email: user.email, role: user.role },
+  }
+}
+
+/**
+ * Reads the caller's token (admin_token when a staff role is allowed, else access_token, then a
+ * Bearer header) and verifies it with verifyAuthToken.
+ */
+export async function authenticate(
+  event: { headers?: Record<string, string | undefined> },
+  options: AuthOptions,
+  sql?: Sql
+): Promise<AuthResult> {
+  const cookies = event.headers?.cookie || event.headers?.Cookie || ''
+  const authHeader = event.headers?.authorization || event.headers?.Authorization || ''
+  const token =
+    (options.roles.some((r) => STAFF_ROLES.includes(r)) ? readCookie(cookies, 'admin_token') : null) ||
+    (options.roles.some((r) => !STAFF_ROLES.includes(r)) ? readCookie(cookies, 'access_token') : null) ||
+    (authHeader.startsWith('Bearer ') ? authHeader.slice(7).trim() : null)
+
+  if (!token) return failure(401, 'auth_required', 'Authentication required')
+  return verifyAuthToken(token, options, sql)
+}
+
+const JSON_HEADERS = { 'Content-Type': 'application/json' }
+
+export function authFailureResponse(
+  result: Extract<AuthResult, { ok: false }>,
+  headers: Record<string, string> = JSON_HEADERS
+): HandlerResponse {
+  return {
+    statusCode: result.statusCode,
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ success: false, error: result.error, code: result.code }),
+  }
+}
+
+export interface WithAuthOptions extends AuthOptions {
+  /** Response headers (CORS) for the preflight and auth failure responses */
+  headers?: Record<string, string> | ((event: HandlerEvent) => Record<string, string>)
+}
+
+export type AuthedHandler = (
+  event: HandlerEvent,
+  context: HandlerContext,
+  auth: AuthIdentity
+) => Promise<HandlerResponse>
+
+/** Answers CORS preflight, authenticates, then runs the handler with the caller's identity. */
+export function withAuth(options: WithAuthOptions, handler: AuthedHandler): Handler {
+  return async (event, context) => {
+    const headers =
+      typeof options.headers === 'function' ? options.headers(event) : options.headers || JSON_HEADERS
+    if (event.httpMethod === 'OPTIONS') {
+      return { statusCode: 200, headers, body: '' }
+    }
+    const result = await authenticate(event, options)
+    if (!result.ok) return authFailureResponse(result, headers)
+    return handler(event, context, result.identity)
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Classes (classes / class_teachers / class_students / class_student_lessons) and the staff
+ * identity behind the admin_token cookie.
+ *
+ * Admins see every class. Teachers carry the same admin_token cookie with role 'teacher' and are
+ * scoped to the classes they are assigned to in class_teachers; admin-only functions use
+ * withAuth with roles ['admin'] and so answer them 403.
+ */
+
+import type { NeonQueryFunction } from '@neondatabase/serverless'
+import type { AuthIdentity } from './auth.js'
+
+export type StaffRole = 'admin' | 'teacher'
+
+export interface StaffIdentity {
+  role: StaffRole
+  /** users.id */
+  userId: string
+}
+
+export interface ClassSummary {
+  id: string
+  name: string
+}
+
+/** Staff identity of a caller that withAuth (see lib/auth) let through with roles ['admin', 'teacher']. */
+export function staffIdentity(auth: AuthIdentity): StaffIdentity {
+  // withAuth re-reads the users row, so userId is always set here
+  return { role: auth.role as StaffRole, userId: String(auth.userId) }
+}
+
+/** Class ids this staff member may see; null means every class (admin). */
+export async function staffClassIds(
+  sql: NeonQueryFunction<false, false>,
+  staff: StaffIdentity
+): Promise<string[] | null> {
+  if (staff.role === 'admin') return null
+  const rows = await sql`
+    SELECT class_id::text AS class_id FROM class_teachers WHERE teacher_user_id = ${staff.userId}
+  `
+  return (rows as Array<{ class_id: string }>).map((r) => r.class_id)
+}
+
+export function canAccessClass(scope: string[] | null, classId: string): boolean {
+  return scope === null || scope.includes(classId)
+}
+
+/** Active classes per student, ordered by name (first one is the display label). */
+export async function classesByUserId(
+  sql: NeonQueryFunction<false, false>,
+  userIds: string[]
+): Promise<Map<string, ClassSummary[]>> {
+  const byUser = new Map<string, ClassSummary[]>()
+  if (userIds.length === 0) return byUser
+  const rows = await sql`
+    SELECT cs.user_id::text AS user_id, c.id::text AS id, c.name
+    FROM class_students cs
+    JOIN classes c ON c.id = cs.class_id
+    WHERE cs.user_id = ANY(${userIds}::uuid[]) AND c.active = TRUE
+    ORDER BY c.name ASC
+  `
+  for (const r of rows as Array<{ user_id: string; id: string; name: string }>) {
+    const list = byUser.get(r.user_id) || []
+    list.push({ id: r.id, name: r.name })
+    byUser.set(r.user_id, list)
+  }
+  return byUser
+}
+
+export interface RosterCsvRow {
+  school_student_id: string | null
+  nickname: string | null
+  honorific: string | null
+  first_name: string | null
+  last_name: string | null
+}
+
+function csvCell(value: string | null | undefined): string {
+  const s = value ?? ''
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+/** Roster export; ID / Nick lead like the scores workbook so the file can be re-imported. */
+export function buildRosterCsv(rows: RosterCsvRow[]): string {
+  const lines = [['ID', 'Nick', 'Honorific', 'First name', 'Last name'].join(',')]
+  for (const r of rows) {
+    lines.push(
+      [r.school_student_id, r.nickname, r.honorific, r.first_name, r.last_name].map(csvCell).join(',')
+    )
+  }
+  return `${lines.join('\r\n')}\r\n`
+}
@@ -0,0 +1,215 @@
+/**
+ * Classical item analysis for evaluation_test questions, computed from stored evaluation_results
+ * (question_results.answers). Served by admin-evaluation (?item_analysis=1).
+ *
+ * - difficulty: p-value, the mean fraction of points earned (1 = everyone right)
+ * - discrimination: upper-minus-lower index, p in the top 27% by overall percentage minus p in
+ *   the bottom 27%
+ * - distractors: how often each option was picked, for multiple_choice / dropdown
+ * - inverted: students placed at higher CEFR levels get the item right less often than students
+ *   placed lower, which usually means a mis-keyed or ambiguous item
+ */
+
+export const ITEM_ANALYSIS_LEVELS = ['Pre-A1', 'A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const
+export const DISTRACTOR_QUESTION_TYPES = ['multiple_choice', 'dropdown'] as const
+
+export const ITEM_ANALYSIS_THRESHOLDS = {
+  /** Fewer responses than this and no flags are raised */
+  minResponses: 10,
+  /** Share of students in each of the upper and lower groups */
+  groupFraction: 0.27,
+  tooEasy: 0.9,
+  tooHard: 0.2,
+  lowDiscrimination: 0.2,
+  /** Minimum responses for a level group to count towards the inversion check */
+  minLevelGroup: 3,
+  /** Top-level p must trail bottom-level p by at least this much to flag an inversion */
+  inversionMargin: 0.1,
+}
+
+export type ItemFlag =
+  | 'too_easy'
+  | 'too_hard'
+  | 'low_discrimination'
+  | 'negative_discrimination'
+  | 'distractor_beats_key'
+  | 'inverted'
+
+export interface ItemAnalysisQuestion {
+  id: string
+  question_type: string
+  prompt?: string
+  content?: any
+  correct_answer?: string | null
+  level?: string | null
+}
+
+export interface ItemAnalysisResult {
+  answers: Record<string, any> | null
+  overall_percentage: number | null
+  calculated_level: string | null
+}
+
+export interface DistractorRate {
+  option: string
+  count: number
+  rate: number
+  is_key: boolean
+}
+
+export interface ItemReport {
+  question_id: string
+  question_type: string
+  prompt: string
+  level: string | null
+  responses: number
+  difficulty: number | null
+  discrimination: number | null
+  distractors: DistractorRate[] | null
+  /** p-value per placed level, for levels with any responses */
+  level_rates: Array<{ level: string; responses: number; difficulty: number }>
+  inverted: boolean
+  flags: ItemFlag[]
+}
+
+export interface ItemAnalysisReport {
+  results_analyzed: number
+  items: ItemReport[]
+}
+
+interface ItemResponse {
+  fraction: number
+  answer: unknown
+  overall: number
+  level: string | null
+}
+
+/** submit-evaluation stores answers under ids with non-word characters replaced by "_" */
+function findAnswer(answers: Record<string, any>, questionId: string): any {
+  return answers[questionId] ?? answers[questionId.replace(/[^a-zA-Z0-9_]/g, '_')]
+}
+
+function responseFraction(answer: any): number | null {
+  if (!answer || typeof answer !== 'object') return null
+  if (answer.pending_grading === true) return null
+  const max = Number(answer.maxScore)
+  const score = Number(answer.score)
+  if (!Number.isFinite(max) || max <= 0 || !Number.isFinite(score)) return null
+  return Math.max(0, Math.min(1, score / max))
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+function normalizeOption(value: unknown): string {
+  return String(value ?? '').trim().toLowerCase()
+}
+
+function distractorRates(question: ItemAnalysisQuestion, responses: ItemResponse[]): DistractorRate[] | null {
+  if (!(DISTRACTOR_QUESTION_TYPES as readonly string[]).includes(question.question_type)) return null
+  const options: string[] = Array.isArray(question.content?.options)
+    ? question.content.options.filter((o: unknown) => typeof o === 'string' && o.trim() !== '')
+    : []
+  if (options.length === 0) return null
+  const counts = new Map<string, number>(options.map((o) => [normalizeOption(o), 0]))
+  let other = 0
+  for (const r of responses) {
+    const key = normalizeOption(r.answer)
+    if (counts.has(key)) counts.set(key, (counts.get(key) || 0) + 1)
+    else other += 1
+  }
+  const total = responses.length || 1
+  const key = normalizeOption(question.correct_answer)
+  const rates = options.map((option) => {
+    const count = counts.get(normalizeOption(option)) || 0
+    return { option, count, rate: round(count / total), is_key: normalizeOption(option) === key }
+  })
+  if (other > 0) rates.push({ option: '(other / blank)', count: other, rate: round(other / total), is_key: false })
+  return rates
+}
+
+export function analyzeItem(
+  question: ItemAnalysisQuestion,
+  results: ItemAnalysisResult[],
+  thresholds = ITEM_ANALYSIS_THRESHOLDS
+): ItemReport {
+  const responses: ItemResponse[] = []
+  for (const result of results) {
+    if (!result.answers) continue
+    const answer = findAnswer(result.answers, question.id)
+    const fraction = responseFraction(answer)
+    if (fraction === null) continue
+    responses.push({
+      fraction,
+      answer: answer.answer,
+      overall: Number(result.overall_percentage) || 0,
+      level: result.calculated_level,
+    })
+  }
+
+  const n = responses.length
+  const difficulty = n > 0 ? round(mean(responses.map((r) => r.fraction))) : null
+
+  let discrimination: number | null = null
+  const groupSize = Math.floor(n * thresholds.groupFraction)
+  if (groupSize >= 1) {
+    const sorted = [...responses].sort((a, b) => b.overall - a.overall)
+    const upper = sorted.slice(0, groupSize)
+    const lower = sorted.slice(-groupSize)
+    discrimination = round(mean(upper.map((r) => r.fraction)) - mean(lower.map((r) => r.fraction)))
+  }
+
+  const level_rates = ITEM_ANALYSIS_LEVELS.flatMap((level) => {
+    const group = responses.filter((r) => r.level === level)
+    return group.length > 0 ? [{ level, responses: group.length, difficulty: round(mean(group.map((r) => r.fraction))) }] : []
+  })
+  const comparable = level_rates.filter((g) => g.responses >= thresholds.minLevelGroup)
+  const inverted =
+    comparable.length >= 2 &&
+    comparable[comparable.length - 1].difficulty < comparable[0].difficulty - thresholds.inversionMargin
+
+  const distractors = distractorRates(question, responses)
+
+  const flags: ItemFlag[] = []
+  if (n >= thresholds.minResponses && difficulty !== null) {
+    if (difficulty > thresholds.tooEasy) flags.push('too_easy')
+    if (difficulty < thresholds.tooHard) flags.push('too_hard')
+    if (discrimination !== null && discrimination < 0) flags.push('negative_discrimination')
+    else if (discrimination !== null && discrimination < thresholds.lowDiscrimination) flags.push('low_discrimination')
+    const keyRate = distractors?.find((d) => d.is_key)?.rate ?? null
+    if (distractors && keyRate !== null && distractors.some((d) => !d.is_key && d.rate > keyRate)) {
+      flags.push('distractor_beats_key')
+    }
+    if (inverted) flags.push('inverted')
+  }
+
+  return {
+    question_id: question.id,
+    question_type: question.question_type,
+    prompt: question.prompt || '',
+    level: question.level || null,
+    responses: n,
+    difficulty,
+    discrimination,
+    distractors,
+    level_rates,
+    inverted,
+    flags,
+  }
+}
+
+export function analyzeItems(
+  questions: ItemAnalysisQuestion[],
+  results: ItemAnalysisResult[],
+  thresholds = ITEM_ANALYSIS_THRESHOLDS
+): ItemAnalysisReport {
+  return {
+    results_analyzed: results.length,
+    items: questions.map((q) => analyzeItem(q, results, thresholds)),
+  }
+}
@@ -0,0 +1,602 @@
+/**
+ * Portable JSON packages for student-track lessons (admin-student-lesson-package).
+ *
+ * A package holds one student_lessons row with its active student_lesson_activities and their
+ * vocabulary / grammar / poll items, without database ids, so it can be exported from one
+ * environment, edited, and imported into another instead of writing a seed or fix migration.
+ * Activities are keyed by activity_order and items by their position in each list.
+ */
+
+import { randomUUID } from 'crypto'
+import type { NeonQueryFunction, NeonQueryPromise } from '@neondatabase/serverless'
+import { validateStudentActivity } from '../../src/lib/studentActivityContent.js'
+import { snapshotLessonVersion } from './lesson-versions.js'
+
+type Sql = NeonQueryFunction<false, false>
+
+export const LESSON_PACKAGE_FORMAT = 'student-lesson-package'
+export const LESSON_PACKAGE_FORMAT_VERSION = 1
+
+/** student_grammar_items_kind_check */
+export const GRAMMAR_ITEM_KINDS = [
+  'drag_order',
+  'mcq',
+  'frequency_select',
+  'free_completion',
+  'error_correction',
+  'make_question',
+] as const
+
+const SLUG_RE = /^[a-z0-9]+(-[a-z0-9]+)*$/
+
+export interface PackageVocabularyItem {
+  english_word: string
+  thai_translation: string | null
+  audio_url: string | null
+  image_url: string | null
+  emoji: string | null
+  category: string | null
+}
+
+export interface PackageGrammarItem {
+  item_kind: string
+  original_sentence: string | null
+  correct_sentence: string
+  words_array: string[] | null
+  options: unknown
+  hint: string | null
+}
+
+export interface PackagePollItem {
+  question: string
+  options: Array<{ id: string; label: string }>
+  allow_multiple: boolean
+  correct_option_id: string | null
+}
+
+export interface PackageActivity {
+  activity_order: number
+  activity_type: string
+  title: string | null
+  description: string | null
+  estimated_time_seconds: number | null
+  content: Record<string, unknown>
+  vocabulary_items: PackageVocabularyItem[]
+  grammar_items: PackageGrammarItem[]
+  poll_items: PackagePollItem[]
+}
+
+/** Lesson fields carried by a package; active (visibility) stays an environment setting. */
+export interface PackageLesson {
+  lesson_number: number
+  topic: string
+  slug: string | null
+  live_duration_minutes: number | null
+  communication_goal: string | null
+  grammar_focus: Record<string, unknown>
+  vocabulary_list: unknown[]
+}
+
+export interface LessonPackage {
+  format: typeof LESSON_PACKAGE_FORMAT
+  format_version: number
+  exported_at: string
+  /** student_lessons.version the package was exported from; informational only */
+  source_version: number | null
+  lesson: PackageLesson
+  activities: PackageActivity[]
+}
+
+export interface LessonPackageIssue {
+  /** JSON path into the package, e.g. activities[3].poll_items[0].options */
+  path: string
+  message: string
+}
+
+export type LessonFieldChange = { field: keyof PackageLesson; before: unknown; after: unknown }
+
+export interface ActivityDiff {
+  activity_order: number
+  status: 'added' | 'removed' | 'changed'
+  activity_type: string
+  title: string | null
+  /** Changed fields for status 'changed' */
+  fields: Array<keyof PackageActivity>
+}
+
+export interface LessonPackageDiff {
+  /** True when there is no live lesson and the import creates one */
+  created: boolean
+  lesson_fields: LessonFieldChange[]
+  activities: ActivityDiff[]
+  has_changes: boolean
+}
+
+const LESSON_FIELDS: Array<keyof PackageLesson> = [
+  'lesson_number',
+  'topic',
+  'slug',
+  'live_duration_minutes',
+  'communication_goal',
+  'grammar_focus',
+  'vocabulary_list',
+]
+
+const ACTIVITY_FIELDS: Array<keyof PackageActivity> = [
+  'activity_type',
+  'title',
+  'description',
+  'estimated_time_seconds',
+  'content',
+  'vocabulary_items',
+  'grammar_items',
+  'poll_items',
+]
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** json_agg columns arrive as strings from some drivers */
+function parseJsonValue(value: unknown, fallback: unknown): unknown {
+  if (typeof value !== 'string') return value ?? fallback
+  try {
+    return JSON.parse(value)
+  } catch {
+    return fallback
+  }
+}
+
+function textOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value !== '' ? value : null
+}
+
+function intOrNull(value: unknown): number | null {
+  return value === null || value === undefined || value === '' ? null : Number(value)
+}
+
+function rowList(value: unknown): Record<string, unknown>[] {
+  const parsed = parseJsonValue(value, [])
+  return Array.isArray(parsed) ? parsed.filter(isPlainObject) : []
+}
+
+function bySortOrder(a: Record<string, unknown>, b: Record<string, unknown>): number {
+  return (Number(a.sort_order) || 0) - (Number(b.sort_order) || 0)
+}
+
+/**
+ * Package a lesson row and its activity rows as admin-get-student-lesson returns them (items
+ * aggregated per activity). Pass active activities only.
+ */
+export function buildLessonPackage(
+  lesson: Record<string, unknown>,
+  activities: Record<string, unknown>[],
+  exportedAt: Date = new Date()
+): LessonPackage {
+  const grammarFocus = parseJsonValue(lesson.grammar_focus, {})
+  const vocabularyList = parseJsonValue(lesson.vocabulary_list, [])
+  return {
+    format: LESSON_PACKAGE_FORMAT,
+    format_version: LESSON_PACKAGE_FORMAT_VERSION,
+    exported_at: exportedAt.toISOString(),
+    source_version: intOrNull(lesson.version),
+    lesson: {
+      lesson_number: Number(lesson.lesson_number),
+      topic: String(lesson.topic ?? ''),
+      slug: textOrNull(lesson.slug),
+      live_duration_minutes: intOrNull(lesson.live_duration_minutes),
+      communication_goal: textOrNull(lesson.communication_goal),
+      grammar_focus: isPlainObject(grammarFocus) ? grammarFocus : {},
+      vocabulary_list: Array.isArray(vocabularyList) ? vocabularyList : [],
+    },
+    activities: [...activities]
+      .sort((a, b) => Number(a.activity_order) - Number(b.activity_order))
+      .map((a) => {
+        const content = parseJsonValue(a.content, {})
+        return {
+          activity_order: Number(a.activity_order),
+          activity_type: String(a.activity_type),
+          title: textOrNull(a.title),
+          description: textOrNull(a.description),
+          estimated_time_seconds: intOrNull(a.estimated_time_seconds),
+          content: isPlainObject(content) ? content : {},
+          vocabulary_items: rowList(a.vocabulary_items)
+            .sort(bySortOrder)
+            .map((v) => ({
+              english_word: String(v.english_word ?? ''),
+              thai_translation: textOrNull(v.thai_translation),
+              audio_url: textOrNull(v.audio_url),
+              image_url: textOrNull(v.image_url),
+              emoji: textOrNull(v.emoji),
+              category: textOrNull(v.category),
+            })),
+          grammar_items: rowList(a.grammar_items)
+            .sort(bySortOrder)
+            .map((g) => {
+              const words = parseJsonValue(g.words_array, null)
+              return {
+                item_kind: String(g.item_kind ?? ''),
+                original_sentence: textOrNull(g.original_sentence),
+                correct_sentence: String(g.correct_sentence ?? ''),
+                words_array: Array.isArray(words) ? words.map(String) : null,
+                options: parseJsonValue(g.options, null),
+                hint: textOrNull(g.hint),
+              }
+            }),
+          poll_items: rowList(a.poll_items)
+            .sort(bySortOrder)
+            .map((p) => {
+              const options = parseJsonValue(p.options, [])
+              return {
+                question: String(p.question ?? ''),
+                options: Array.isArray(options)
+                  ? options.filter(isPlainObject).map((o) => ({ id: String(o.id ?? ''), label: String(o.label ?? '') }))
+                  : [],
+                allow_multiple: Boolean(p.allow_multiple),
+                correct_option_id: textOrNull(p.correct_option_id),
+              }
+            }),
+        }
+      }),
+  }
+}
+
+function checkNullableText(value: unknown, path: string, issues: LessonPackageIssue[]): void {
+  if (value !== null && value !== undefined && typeof value !== 'string') {
+    issues.push({ path, message: 'must be a string or null' })
+  }
+}
+
+function checkRequiredText(value: unknown, path: string, issues: LessonPackageIssue[]): void {
+  if (typeof value !== 'string' || value.trim() === '') issues.push({ path, message: 'is required' })
+}
+
+function checkNullableInt(value: unknown, path: string, issues: LessonPackageIssue[], min = 0): void {
+  if (value === null || value === undefined) return
+  if (!Number.isInteger(value) || (value as number) < min) {
+    issues.push({ path, message: `must be an integer ≥ ${min} or null` })
+  }
+}
+
+function checkItemList(value: unknown, path: string, issues: LessonPackageIssue[]): Record<string, unknown>[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'must be an array' })
+    return []
+  }
+  value.forEach((item, i) => {
+    if (!isPlainObject(item)) issues.push({ path: `${path}[${i}]`, message: 'must be an object' })
+  })
+  return value.filter(isPlainObject)
+}
+
+function validatePollItem(item: Record<string, unknown>, path: string, issues: LessonPackageIssue[]): void {
+  checkRequiredText(item.question, `${path}.question`, issues)
+  if (!Array.isArray(item.options) || item.options.length === 0) {
+    issues.push({ path: `${path}.options`, message: 'must be a non-empty array of { id, label }' })
+    return
+  }
+  const ids = new Set<string>()
+  item.options.forEach((option, i) => {
+    if (!isPlainObject(option) || typeof option.id !== 'string' || option.id === '' || typeof option.label !== 'string') {
+      issues.push({ path: `${path}.options[${i}]`, message: 'must be { id, label } with string values' })
+      return
+    }
+    if (ids.has(option.id)) issues.push({ path: `${path}.options[${i}].id`, message: `duplicate option id "${option.id}"` })
+    ids.add(option.id)
+  })
+  if (item.allow_multiple !== undefined && typeof item.allow_multiple !== 'boolean') {
+    issues.push({ path: `${path}.allow_multiple`, message: 'must be a boolean' })
+  }
+  const correct = item.correct_option_id
+  if (correct !== null && correct !== undefined && (typeof correct !== 'string' || !ids.has(correct))) {
+    issues.push({ path: `${path}.correct_option_id`, message: 'must be one of the option ids or null' })
+  }
+}
+
+function validateGrammarItem(item: Record<string, unknown>, path: string, issues: LessonPackageIssue[]): void {
+  if (!(GRAMMAR_ITEM_KINDS as readonly string[]).includes(item.item_kind as string)) {
+    issues.push({ path: `${path}.item_kind`, message: `must be one of ${GRAMMAR_ITEM_KINDS.join(', ')}` })
+  }
+  checkRequiredText(item.correct_sentence, `${path}.correct_sentence`, issues)
+  checkNullableText(item.original_sentence, `${path}.original_sentence`, issues)
+  checkNullableText(item.hint, `${path}.hint`, issues)
+  const words = item.words_array
+  if (words !== null && words !== undefined && (!Array.isArray(words) || words.some((w) => typeof w !== 'string'))) {
+    issues.push({ path: `${path}.words_array`, message: 'must be an array of strings or null' })
+  }
+}
+
+function validateVocabularyItem(item: Record<string, unknown>, path: string, issues: LessonPackageIssue[]): void {
+  checkRequiredText(item.english_word, `${path}.english_word`, issues)
+  for (const key of ['thai_translation', 'audio_url', 'image_url', 'emoji', 'category']) {
+    checkNullableText(item[key], `${path}.${key}`, issues)
+  }
+}
+
+/**
+ * Validate an uploaded package. Returns every issue found; the package is only returned
+ * (normalised through buildLessonPackage) when there are none.
+ */
+export function parseLessonPackage(raw: unknown): { package: LessonPackage | null; issues: LessonPackageIssue[] } {
+  const issues: LessonPackageIssue[] = []
+  if (!isPlainObject(raw)) return { package: null, issues: [{ path: '', message: 'Package must be a JSON object' }] }
+  if (raw.format !== LESSON_PACKAGE_FORMAT) {
+    issues.push({ path: 'format', message: `must be "${LESSON_PACKAGE_FORMAT}"` })
+  }
+  if (raw.format_version !== LESSON_PACKAGE_FORMAT_VERSION) {
+    issues.push({ path: 'format_version', message: `unsupported version; expected ${LESSON_PACKAGE_FORMAT_VERSION}` })
+  }
+
+  const lesson = raw.lesson
+  if (!isPlainObject(lesson)) {
+    issues.push({ path: 'lesson', message: 'must be an object' })
+  } else {
+    if (!Number.isInteger(lesson.lesson_number) || (lesson.lesson_number as number) < 1) {
+      issues.push({ path: 'lesson.lesson_number', message: 'must be a positive integer' })
+    }
+    checkRequiredText(lesson.topic, 'lesson.topic', issues)
+    if (lesson.slug !== null && lesson.slug !== undefined && (typeof lesson.slug !== 'string' || !SLUG_RE.test(lesson.slug))) {
+      issues.push({ path: 'lesson.slug', message: 'must be lowercase words joined by hyphens, or null' })
+    }
+    checkNullableInt(lesson.live_duration_minutes, 'lesson.live_duration_minutes', issues, 1)
+    checkNullableText(lesson.communication_goal, 'lesson.communication_goal', issues)
+    if (lesson.grammar_focus !== undefined && !isPlainObject(lesson.grammar_focus)) {
+      issues.push({ path: 'lesson.grammar_focus', message: 'must be an object' })
+    }
+    if (lesson.vocabulary_list !== undefined && !Array.isArray(lesson.vocabulary_list)) {
+      issues.push({ path: 'lesson.vocabulary_list', message: 'must be an array' })
+    }
+  }
+
+  const activities = raw.activities
+  if (!Array.isArray(activities) || activities.length === 0) {
+    issues.push({ path: 'activities', message: 'must be a non-empty array' })
+  } else {
+    const orders = new Set<number>()
+    activities.forEach((activity, i) => {
+      const path = `activities[${i}]`
+      if (!isPlainObject(activity)) {
+        issues.push({ path, message: 'must be an object' })
+        return
+      }
+      const order = activity.activity_order
+      if (!Number.isInteger(order) || (order as number) < 1) {
+        issues.push({ path: `${path}.activity_order`, message: 'must be a positive integer' })
+      } else if (orders.has(order as number)) {
+        issues.push({ path: `${path}.activity_order`, message: `duplicate activity_order ${order}` })
+      } else {
+        orders.add(order as number)
+      }
+      // Content schema per activity type, including the item rows the activity needs
+      for (const issue of validateStudentActivity(activity as { activity_type: string; content: unknown })) {
+        issues.push({ path: `${path}.${issue.path}`, message: issue.message })
+      }
+      checkNullableText(activity.title, `${path}.title`, issues)
+      checkNullableText(activity.description, `${path}.description`, issues)
+      checkNullableInt(activity.estimated_time_seconds, `${path}.estimated_time_seconds`, issues)
+      checkItemList(activity.vocabulary_items, `${path}.vocabulary_items`, issues).forEach((item, j) =>
+        validateVocabularyItem(item, `${path}.vocabulary_items[${j}]`, issues)
+      )
+      checkItemList(activity.grammar_items, `${path}.grammar_items`, issues).forEach((item, j) =>
+        validateGrammarItem(item, `${path}.grammar_items[${j}]`, issues)
+      )
+      checkItemList(activity.poll_items, `${path}.poll_items`, issues).forEach((item, j) =>
+        validatePollItem(item, `${path}.poll_items[${j}]`, issues)
+      )
+    })
+  }
+
+  if (issues.length > 0) return { package: null, issues }
+  const exportedAt = typeof raw.exported_at === 'string' ? new Date(raw.exported_at) : new Date()
+  const pkg = buildLessonPackage(
+    { ...(lesson as Record<string, unknown>), version: raw.source_version ?? null },
+    activities as Record<string, unknown>[],
+    Number.isNaN(exportedAt.getTime()) ? new Date() : exportedAt
+  )
+  return { package: pkg, issues }
+}
+
+/** JSON with sorted object keys, so jsonb round-trips compare equal */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value)
+      .filter((k) => value[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonical(value[k])}`)
+      .join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+/** What applying `next` would change, compared with the live lesson (null when it does not exist yet). */
+export function diffLessonPackage(live: LessonPackage | null, next: LessonPackage): LessonPackageDiff {
+  const lesson_fields: LessonFieldChange[] = []
+  for (const field of LESSON_FIELDS) {
+    const before = live ? live.lesson[field] : null
+    const after = next.lesson[field]
+    if (!live || canonical(before) !== canonical(after)) lesson_fields.push({ field, before, after })
+  }
+
+  const liveByOrder = new Map((live?.activities || []).map((a) => [a.activity_order, a]))
+  const nextOrders = new Set(next.activities.map((a) => a.activity_order))
+  const activities: ActivityDiff[] = []
+  for (const activity of next.activities) {
+    const current = liveByOrder.get(activity.activity_order)
+    const base = { activity_order: activity.activity_order, activity_type: activity.activity_type, title: activity.title }
+    if (!current) {
+      activities.push({ ...base, status: 'added', fields: [] })
+      continue
+    }
+    const fields = ACTIVITY_FIELDS.filter((f) => canonical(current[f]) !== canonical(activity[f]))
+    if (fields.length > 0) activities.push({ ...base, status: 'changed', fields })
+  }
+  for (const activity of live?.activities || []) {
+    if (!nextOrders.has(activity.activity_order)) {
+      activities.push({
+        activity_order: activity.activity_order,
+        status: 'removed',
+        activity_type: activity.activity_type,
+        title: activity.title,
+        fields: [],
+      })
+    }
+  }
+  activities.sort((a, b) => a.activity_order - b.activity_order)
+
+  return {
+    created: !live,
+    lesson_fields,
+    activities,
+    has_changes: lesson_fields.length > 0 || activities.length > 0,
+  }
+}
+
+/** Transaction-local setting the claim statement sets; every later write in the batch checks it */
+const CLAIM_SETTING = 'lesson_package.claimed'
+
+/**
+ * Write a package to the database as one sql.transaction batch and publish the new version's
+ * snapshot. `target` is the live lesson it replaces (null creates one, inactive) and
+ * `expectedVersion` the version the preview was made against. Returns null when the lesson
+ * moved past that version, in which case nothing was written.
+ *
+ * neon() sends each query as its own HTTP request and a batch can't branch on an earlier
+ * result, so the claim (the conditional UPDATE, or the INSERT for a new lesson) sets
+ * CLAIM_SETTING for the rest of the transaction, and every later statement only writes when it
+ * is set. New lessons get their id up front and activities are looked up by (lesson,
+ * activity_order).
+ */
+export async function applyLessonPackage(
+  sql: Sql,
+  pkg: LessonPackage,
+  target: Record<string, unknown> | null,
+  expectedVersion: number | null
+): Promise<{ id: string; version: number } | null> {
+  const { lesson } = pkg
+  const lessonId = target ? String(target.id) : randomUUID()
+  const claimed = () => sql`current_setting(${CLAIM_SETTING}, true) = ${lessonId}`
+  const queries: NeonQueryPromise<false, false>[] = []
+
+  if (target) {
+    // Attempts pinned to the outgoing version are served from its snapshot. Snapshots are
+    // write-once, so this is harmless even when the claim below loses.
+    queries.push(snapshotLessonVersion(sql, lessonId))
+  }
+  const claimIndex = queries.length
+  if (target) {
+    queries.push(sql`
+      WITH updated AS (
+        UPDATE student_lessons
+        SET lesson_number = ${lesson.lesson_number},
+            topic = ${lesson.topic},
+            slug = ${lesson.slug},
+            live_duration_minutes = ${lesson.live_duration_minutes},
+            communication_goal = ${lesson.communication_goal},
+            grammar_focus = ${JSON.stringify(lesson.grammar_focus)}::jsonb,
+            vocabulary_list = ${JSON.stringify(lesson.vocabulary_list)}::jsonb,
+            version = version + 1,
+            updated_at = NOW(),
+            last_modified_at = NOW()
+        WHERE id = ${lessonId}::uuid AND version = ${expectedVersion}
+        RETURNING id, version
+      )
+      SELECT id::text AS id, version, set_config(${CLAIM_SETTING}, ${lessonId}, true) FROM updated
+    `)
+  } else {
+    queries.push(sql`
+      WITH inserted AS (
+        INSERT INTO student_lessons (
+          id, lesson_number, topic, slug, live_duration_minutes, communication_goal,
+          grammar_focus, vocabulary_list, active, version
+        )
+        VALUES (
+          ${lessonId}::uuid, ${lesson.lesson_number}, ${lesson.topic}, ${lesson.slug}, ${lesson.live_duration_minutes},
+          ${lesson.communication_goal}, ${JSON.stringify(lesson.grammar_focus)}::jsonb,
+          ${JSON.stringify(lesson.vocabulary_list)}::jsonb, FALSE, 1
+        )
+        RETURNING id, version
+      )
+      SELECT id::text AS id, version, set_config(${CLAIM_SETTING}, ${lessonId}, true) FROM inserted
+    `)
+  }
+
+  const orders = pkg.activities.map((a) => a.activity_order)
+  queries.push(sql`
+    UPDATE student_lesson_activities
+    SET active = FALSE, updated_at = NOW()
+    WHERE student_lesson_id = ${lessonId}::uuid AND active = TRUE AND NOT (activity_order = ANY(${orders}::int[]))
+      AND ${claimed()}
+  `)
+
+  // INSERT ... SELECT so the claim can gate the row; the casts stand in for VALUES' column typing
+  for (const activity of pkg.activities) {
+    queries.push(sql`
+      INSERT INTO student_lesson_activities (
+        student_lesson_id, activity_type, activity_order, title, description, estimated_time_seconds, content, active
+      )
+      SELECT
+        ${lessonId}::uuid, ${activity.activity_type}::text, ${activity.activity_order}::int, ${activity.title}::text,
+        ${activity.description}::text, ${activity.estimated_time_seconds}::int, ${JSON.stringify(activity.content)}::jsonb, TRUE
+      WHERE ${claimed()}
+      ON CONFLICT (student_lesson_id, activity_order) DO UPDATE
+      SET activity_type = EXCLUDED.activity_type,
+          title = EXCLUDED.title,
+          description = EXCLUDED.description,
+          estimated_time_seconds = EXCLUDED.estimated_time_seconds,
+          content = EXCLUDED.content,
+          active = TRUE,
+          updated_at = NOW()
+    `)
+    const activityId = () => sql`(
+      SELECT id FROM student_lesson_activities
+      WHERE student_lesson_id = ${lessonId}::uuid AND activity_order = ${activity.activity_order}
+    )`
+
+    queries.push(sql`DELETE FROM student_vocabulary_items WHERE activity_id = ${activityId()} AND ${claimed()}`)
+    queries.push(sql`DELETE FROM student_grammar_items WHERE activity_id = ${activityId()} AND ${claimed()}`)
+    queries.push(sql`DELETE FROM student_poll_items WHERE activity_id = ${activityId()} AND ${claimed()}`)
+
+    for (const [i, v] of activity.vocabulary_items.entries()) {
+      queries.push(sql`
+        INSERT INTO student_vocabulary_items (
+          activity_id, english_word, thai_translation, audio_url, image_url, emoji, category, sort_order
+        )
+        SELECT
+          ${activityId()}, ${v.english_word}::text, ${v.thai_translation}::text, ${v.audio_url}::text,
+          ${v.image_url}::text, ${v.emoji}::text, ${v.category}::text, ${i + 1}::int
+        WHERE ${claimed()}
+      `)
+    }
+    for (const [i, g] of activity.grammar_items.entries()) {
+      queries.push(sql`
+        INSERT INTO student_grammar_items (
+          activity_id, item_kind, original_sentence, correct_sentence, words_array, options, hint, sort_order
+        )
+        SELECT
+          ${activityId()}, ${g.item_kind}::text, ${g.original_sentence}::text, ${g.correct_sentence}::text,
+          ${g.words_array === null ? null : JSON.stringify(g.words_array)}::jsonb,
+          ${g.options === null ? null : JSON.stringify(g.options)}::jsonb, ${g.hint}::text, ${i + 1}::int
+        WHERE ${claimed()}
+      `)
+    }
+    for (const [i, p] of activity.poll_items.entries()) {
+      queries.push(sql`
+        INSERT INTO student_poll_items (
+          activity_id, question, options, allow_multiple, correct_option_id, sort_order
+        )
+        SELECT
+          ${activityId()}, ${p.question}::text, ${JSON.stringify(p.options)}::jsonb, ${p.allow_multiple}::boolean,
+          ${p.correct_option_id}::text, ${i + 1}::int
+        WHERE ${claimed()}
+      `)
+    }
+  }
+  // Unguarded like the outgoing snapshot: with no claim it finds the winner's snapshot and writes nothing
+  queries.push(snapshotLessonVersion(sql, lessonId))
+
+  const results = await sql.transaction(queries)
+  const claim = (results[claimIndex] as Array<{ id: string; version: number }>)[0]
+  return claim ? { id: claim.id, version: Number(claim.version) } : null
+}
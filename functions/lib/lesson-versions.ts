@@ -0,0 +1,213 @@
+/**
+ * Published versions of student-track lessons (student_lesson_versions).
+ *
+ * Each student_lessons.version has one immutable snapshot of the lesson fields and its active
+ * activities with their items, shaped like get-student-lesson's response (activity ids
+ * included, so results still link to student_lesson_activities). Snapshots are written when a
+ * version is published (admin-student-lesson-package apply) and, for lessons changed by a
+ * migration, the first time a student submits against a version without one; rows are never
+ * updated. Student attempts are pinned to the version they started
+ * (student_user_progress.lesson_version) and get-student-lesson serves that snapshot until the
+ * attempt is reset.
+ */
+
+import type { NeonQueryFunction, NeonQueryPromise } from '@neondatabase/serverless'
+import { effectiveActivityScore, sumEffectiveScores } from '../student-lesson-scoring.js'
+
+type Sql = NeonQueryFunction<false, false>
+
+export interface LessonVersionSnapshot {
+  version: number
+  lesson: Record<string, unknown>
+  activities: Record<string, unknown>[]
+  created_at: string
+}
+
+/**
+ * Snapshots the lesson's current version unless it already has one. The query is returned
+ * unawaited so a publisher can put it last in its sql.transaction batch, and the snapshot
+ * matches the rows just written.
+ */
+export function snapshotLessonVersion(sql: Sql, lessonId: string): NeonQueryPromise<false, false> {
+  return sql`
+    INSERT INTO student_lesson_versions (student_lesson_id, version, lesson, activities)
+    SELECT
+      sl.id,
+      sl.version,
+      jsonb_build_object(
+        'lesson_number', sl.lesson_number,
+        'topic', sl.topic,
+        'slug', sl.slug,
+        'live_duration_minutes', sl.live_duration_minutes,
+        'communication_goal', sl.communication_goal,
+        'grammar_focus', sl.grammar_focus,
+        'vocabulary_list', sl.vocabulary_list
+      ),
+      COALESCE(
+        (
+          SELECT jsonb_agg(
+            jsonb_build_object(
+              'id', sla.id,
+              'student_lesson_id', sla.student_lesson_id,
+              'activity_type', sla.activity_type,
+              'activity_order', sla.activity_order,
+              'title', sla.title,
+              'description', sla.description,
+              'estimated_time_seconds', sla.estimated_time_seconds,
+              'content', sla.content,
+              'vocabulary_items', COALESCE(
+                (SELECT jsonb_agg(to_jsonb(vi) ORDER BY vi.sort_order, vi.id) FROM student_vocabulary_items vi WHERE vi.activity_id = sla.id),
+                '[]'::jsonb
+              ),
+              'grammar_items', COALESCE(
+                (SELECT jsonb_agg(to_jsonb(gi) ORDER BY gi.sort_order, gi.id) FROM student_grammar_items gi WHERE gi.activity_id = sla.id),
+                '[]'::jsonb
+              ),
+              'poll_items', COALESCE(
+                (SELECT jsonb_agg(to_jsonb(pi) ORDER BY pi.sort_order, pi.id) FROM student_poll_items pi WHERE pi.activity_id = sla.id),
+                '[]'::jsonb
+              )
+            )
+            ORDER BY sla.activity_order
+          )
+          FROM student_lesson_activities sla
+          WHERE sla.student_lesson_id = sl.id AND sla.active = TRUE
+        ),
+        '[]'::jsonb
+      )
+    FROM student_lessons sl
+    WHERE sl.id = ${lessonId}::uuid
+      AND NOT EXISTS (
+        SELECT 1 FROM student_lesson_versions v
+        WHERE v.student_lesson_id = sl.id AND v.version = sl.version
+      )
+    ON CONFLICT (student_lesson_id, version) DO NOTHING
+  `
+}
+
+export async function loadLessonVersion(
+  sql: Sql,
+  lessonId: string,
+  version: number
+): Promise<LessonVersionSnapshot | null> {
+  const rows = await sql`
+    SELECT version, lesson, activities, created_at
+    FROM student_lesson_versions
+    WHERE student_lesson_id = ${lessonId}::uuid AND version = ${version}
+  `
+  const row = rows[0]
+  if (!row) return null
+  return {
+    version: Number(row.version),
+    lesson: row.lesson as Record<string, unknown>,
+    activities: (row.activities as Record<string, unknown>[]) || [],
+    created_at: new Date(row.created_at as string).toISOString(),
+  }
+}
+
+export interface VersionActivity {
+  activity_order: number
+  activity_type: string
+  title: string | null
+}
+
+export interface VersionResultRow {
+  user_id: string
+  lesson_version: number | null
+  activity_order: number
+  activity_type: string
+  score: number | string
+  max_score: number | string
+  answers?: unknown
+  feedback?: unknown
+}
+
+export interface VersionProgressRow {
+  user_id: string
+  lesson_version: number | null
+  completed: boolean
+}
+
+export interface VersionActivityReport extends VersionActivity {
+  responses: number
+  /** Mean of per-response percentages over scored responses; null when none were scored */
+  average_percentage: number | null
+}
+
+export interface LessonVersionReport {
+  /** null groups results stored before attempts were pinned to a version */
+  version: number | null
+  published_at: string | null
+  activity_count: number | null
+  students: number
+  completed: number
+  /** Mean of per-student lesson percentages (sumEffectiveScores) */
+  average_percentage: number | null
+  activities: VersionActivityReport[]
+}
+
+function mean(values: number[]): number | null {
+  if (!values.length) return null
+  return Math.round(values.reduce((a, b) => a + b, 0) / values.length)
+}
+
+/**
+ * Scores per published version of one lesson, newest first. Activities are listed from the
+ * version's snapshot so a result is read against the activity the student actually saw.
+ */
+export function buildLessonVersionReport(
+  versions: Array<{ version: number; created_at: string; activities: VersionActivity[] }>,
+  results: VersionResultRow[],
+  progress: VersionProgressRow[]
+): LessonVersionReport[] {
+  const keys = new Set<number | null>(versions.map((v) => v.version))
+  for (const row of [...results, ...progress]) keys.add(row.lesson_version ?? null)
+
+  return [...keys]
+    .sort((a, b) => (b ?? 0) - (a ?? 0))
+    .map((version) => {
+      const snapshot = versions.find((v) => v.version === version)
+      const rows = results.filter((r) => (r.lesson_version ?? null) === version)
+      const attempts = progress.filter((p) => (p.lesson_version ?? null) === version)
+
+      const byStudent = new Map<string, VersionResultRow[]>()
+      for (const row of rows) byStudent.set(row.user_id, [...(byStudent.get(row.user_id) || []), row])
+      const students = new Set([...byStudent.keys(), ...attempts.map((p) => p.user_id)])
+
+      const studentPercentages: number[] = []
+      for (const list of byStudent.values()) {
+        const sum = sumEffectiveScores(list)
+        if (sum.maxScore > 0) studentPercentages.push(sum.percentage)
+      }
+
+      const orders = new Map<number, VersionActivity>()
+      for (const a of snapshot?.activities || []) orders.set(a.activity_order, a)
+      for (const r of rows) {
+        if (!orders.has(r.activity_order)) {
+          orders.set(r.activity_order, { activity_order: r.activity_order, activity_type: r.activity_type, title: null })
+        }
+      }
+
+      const activities = [...orders.values()]
+        .sort((a, b) => a.activity_order - b.activity_order)
+        .map((activity) => {
+          const responses = rows.filter((r) => r.activity_order === activity.activity_order)
+          const percentages: number[] = []
+          for (const r of responses) {
+            const { score, maxScore } = effectiveActivityScore(r)
+            if (maxScore > 0) percentages.push((score / maxScore) * 100)
+          }
+          return { ...activity, responses: responses.length, average_percentage: mean(percentages) }
+        })
+
+      return {
+        version,
+        published_at: snapshot?.created_at ?? null,
+        activity_count: snapshot ? snapshot.activities.length : null,
+        students: students.size,
+        completed: attempts.filter((p) => p.completed).length,
+        average_percentage: mean(studentPercentages),
+        activities,
+      }
+    })
+}
@@ -0,0 +1,46 @@
+/**
+ * Disk stand-in for the Supabase `{jobId}.features.JSON` sidecar.
+ *
+ * Only active when LOCAL_SPEECH_FEATURES_DIR is set and Supabase is not configured, so
+ * speech-job → run-speech-analysis-background can run on an offline dev box or in tests
+ * (together with TRANSCRIPTION_PROVIDER=local).
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import path from 'path'
+
+const FEATURES_FILE_SUFFIX = '.features.JSON'
+
+function featuresDir(): string | null {
+  const dir = process.env.LOCAL_SPEECH_FEATURES_DIR?.trim()
+  return dir ? path.resolve(dir) : null
+}
+
+function featuresFile(dir: string, jobId: string): string {
+  // jobId is a UUID; strip anything else so it can never escape the directory
+  return path.join(dir, `${jobId.replace(/[^A-Za-z0-9_-]/g, '')}${FEATURES_FILE_SUFFIX}`)
+}
+
+export function saveLocalSpeechFeatures(jobId: string, payload: Record<string, unknown>): void {
+  const dir = featuresDir()
+  if (!dir) return
+  try {
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(featuresFile(dir, jobId), JSON.stringify(payload), 'utf-8')
+  } catch (e) {
+    console.error('local-speech-features: failed to write features JSON', { jobId, e })
+  }
+}
+
+export function loadLocalSpeechFeatures(jobId: string): Record<string, unknown> | null {
+  const dir = featuresDir()
+  if (!dir) return null
+  const file = featuresFile(dir, jobId)
+  if (!existsSync(file)) return null
+  try {
+    return JSON.parse(readFileSync(file, 'utf-8')) as Record<string, unknown>
+  } catch (e) {
+    console.warn('local-speech-features: failed to read features JSON', { jobId, e })
+    return null
+  }
+}
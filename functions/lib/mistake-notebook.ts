@@ -0,0 +1,191 @@
+/**
+ * Per-student mistake notebook (student_mistakes).
+ *
+ * Results are read into the notebook lazily: submit-student-lesson-activity clears
+ * student_lesson_activity_results.mistakes_recorded_at, and the next notebook or class report
+ * load claims the pending rows, extracts their mistakes (extractResultMistakes in
+ * src/lib/mistakeNotebook.ts) and upserts them by mistake_key. Practice answers from the
+ * notebook's re-practice mode move practice_streak and resolve a mistake after
+ * RESOLVE_AFTER_STREAK right-first-time answers in a row.
+ */
+
+import type { NeonQueryFunction } from '@neondatabase/serverless'
+import {
+  extractResultMistakes,
+  mistakeKey,
+  mistakePattern,
+  type MistakeEntry,
+  type MistakeKind,
+} from '../../src/lib/mistakeNotebook.js'
+
+type Sql = NeonQueryFunction<false, false>
+
+export const RESOLVE_AFTER_STREAK = 2
+
+async function recordMistakes(
+  sql: Sql,
+  userId: string,
+  studentLessonId: string | null,
+  entries: MistakeEntry[],
+  seenAt: string
+): Promise<void> {
+  for (const entry of entries) {
+    await sql`
+      INSERT INTO student_mistakes (
+        user_id, source, kind, mistake, correction, context, mistake_key, pattern_key,
+        student_lesson_id, first_seen_at, last_seen_at
+      ) VALUES (
+        ${userId}, ${entry.source}, ${entry.kind}, ${entry.mistake}, ${entry.correction},
+        ${entry.context}, ${mistakeKey(entry.mistake, entry.correction)},
+        ${mistakePattern(entry.mistake, entry.correction)}, ${studentLessonId},
+        ${seenAt}::timestamptz, ${seenAt}::timestamptz
+      )
+      ON CONFLICT (user_id, mistake_key) DO UPDATE SET
+        occurrences = student_mistakes.occurrences + 1,
+        last_seen_at = GREATEST(student_mistakes.last_seen_at, EXCLUDED.last_seen_at),
+        context = COALESCE(EXCLUDED.context, student_mistakes.context),
+        student_lesson_id = COALESCE(EXCLUDED.student_lesson_id, student_mistakes.student_lesson_id),
+        practice_streak = 0,
+        resolved_at = NULL
+    `
+  }
+}
+
+/**
+ * Reads the pending results of these students into their notebooks. Rows are claimed with one
+ * UPDATE so concurrent loads don't count a mistake twice; on failure the claim is released.
+ */
+export async function syncMistakeNotebook(sql: Sql, userIds: string[]): Promise<void> {
+  if (!userIds.length) return
+  const claimed = await sql`
+    UPDATE student_lesson_activity_results
+    SET mistakes_recorded_at = NOW()
+    WHERE user_id = ANY(${userIds}::uuid[]) AND mistakes_recorded_at IS NULL
+    RETURNING id, user_id::text AS user_id, student_lesson_id::text AS student_lesson_id,
+              activity_type, answers, feedback, completed_at
+  `
+  try {
+    for (const row of claimed) {
+      const entries = extractResultMistakes({
+        activity_type: String(row.activity_type),
+        answers: row.answers,
+        feedback: row.feedback,
+      })
+      if (!entries.length) continue
+      await recordMistakes(
+        sql,
+        String(row.user_id),
+        (row.student_lesson_id as string | null) ?? null,
+        entries,
+        row.completed_at ? new Date(row.completed_at as string).toISOString() : new Date().toISOString()
+      )
+    }
+  } catch (error) {
+    const ids = claimed.map((r) => String(r.id))
+    await sql`
+      UPDATE student_lesson_activity_results SET mistakes_recorded_at = NULL
+      WHERE id = ANY(${ids}::uuid[])
+    `
+    throw error
+  }
+}
+
+/** Records re-practice answers (true = right first time). Returns how many mistakes matched. */
+export async function applyPracticeResults(
+  sql: Sql,
+  userId: string,
+  outcomes: Map<string, boolean>
+): Promise<number> {
+  let updated = 0
+  for (const [id, correct] of outcomes) {
+    const rows = await sql`
+      UPDATE student_mistakes
+      SET
+        practice_attempts = practice_attempts + 1,
+        practice_correct = practice_correct + ${correct ? 1 : 0},
+        practice_streak = ${correct ? sql`practice_streak + 1` : sql`0`},
+        resolved_at = ${
+          correct
+            ? sql`CASE WHEN practice_streak + 1 >= ${RESOLVE_AFTER_STREAK} THEN COALESCE(resolved_at, NOW()) ELSE NULL END`
+            : sql`NULL`
+        }
+      WHERE id = ${id}::uuid AND user_id = ${userId}
+      RETURNING id
+    `
+    updated += rows.length
+  }
+  return updated
+}
+
+export interface ClassMistakeRow {
+  user_id: string
+  kind: MistakeKind
+  pattern_key: string
+  mistake: string
+  correction: string
+  occurrences: number
+  resolved_at: string | null
+}
+
+export interface ClassMistakePattern {
+  pattern_key: string
+  kind: MistakeKind
+  /** Students who made this error at least once */
+  students: number
+  occurrences: number
+  /** Students with an unresolved mistake in this pattern */
+  open_students: number
+  examples: Array<{ mistake: string; correction: string }>
+}
+
+export interface ClassMistakeStudent {
+  user_id: string
+  open: number
+  resolved: number
+  occurrences: number
+  /** Most frequent unresolved pattern */
+  top_pattern: string | null
+}
+
+const MAX_EXAMPLES = 3
+
+/** Patterns shared across the class (most widespread first) and per-student totals. */
+export function buildClassMistakeReport(
+  rows: ClassMistakeRow[],
+  studentIds: string[]
+): { patterns: ClassMistakePattern[]; students: ClassMistakeStudent[] } {
+  const byPattern = new Map<string, ClassMistakeRow[]>()
+  for (const row of rows) byPattern.set(row.pattern_key, [...(byPattern.get(row.pattern_key) || []), row])
+
+  const patterns = [...byPattern.entries()]
+    .map(([pattern_key, list]) => ({
+      pattern_key,
+      kind: list[0].kind,
+      students: new Set(list.map((r) => r.user_id)).size,
+      occurrences: list.reduce((sum, r) => sum + Number(r.occurrences), 0),
+      open_students: new Set(list.filter((r) => !r.resolved_at).map((r) => r.user_id)).size,
+      examples: [...list]
+        .sort((a, b) => Number(b.occurrences) - Number(a.occurrences))
+        .slice(0, MAX_EXAMPLES)
+        .map((r) => ({ mistake: r.mistake, correction: r.correction })),
+    }))
+    .sort((a, b) => b.students - a.students || b.occurrences - a.occurrences || a.pattern_key.localeCompare(b.pattern_key))
+
+  const students = studentIds.map((user_id) => {
+    const list = rows.filter((r) => r.user_id === user_id)
+    const openCounts = new Map<string, number>()
+    for (const r of list) {
+      if (!r.resolved_at) openCounts.set(r.pattern_key, (openCounts.get(r.pattern_key) || 0) + Number(r.occurrences))
+    }
+    const top = [...openCounts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0]
+    return {
+      user_id,
+      open: list.filter((r) => !r.resolved_at).length,
+      resolved: list.filter((r) => r.resolved_at).length,
+      occurrences: list.reduce((sum, r) => sum + Number(r.occurrences), 0),
+      top_pattern: top ? top[0] : null,
+    }
+  })
+
+  return { patterns, students }
+}
@@ -1,4 +1,4 @@
-import { neon } from '@neondatabase/serverless'
+import type { NeonQueryFunction } from '@neondatabase/serverless'
 
 export const CEFR_LEVELS = ['Pre-A1', 'A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const
 export type CefrLevel = (typeof CEFR_LEVELS)[number]
@@ -8,7 +8,7 @@ export function parseStudentIdList(raw: string): string[] {
 }
 
 export async function resolveStudentUsers(
-  sql: ReturnType<typeof neon>,
+  sql: NeonQueryFunction<false, false>,
   ids: string[]
 ): Promise<{
   users: Array<{
@@ -66,7 +66,7 @@ export async function resolveStudentUsers(
 }
 
 export async function fetchLessonsInRange(
-  sql: ReturnType<typeof neon>,
+  sql: NeonQueryFunction<false, false>,
   level: string,
   lessonFrom: number,
   lessonTo: number
@@ -84,7 +84,7 @@ export async function fetchLessonsInRange(
 }
 
 export async function studentPlatformAssignmentCount(
-  sql: ReturnType<typeof neon>,
+  sql: NeonQueryFunction<false, false>,
   userId: string
 ): Promise<number> {
   const rows = await sql`
@@ -108,7 +108,7 @@ export type PlatformAssignmentLesson = {
 
 /** Assigned platform lessons in sequence (level, then lesson number). */
 export async function fetchStudentPlatformAssignmentLessons(
-  sql: ReturnType<typeof neon>,
+  sql: NeonQueryFunction<false, false>,
   userId: string
 ): Promise<PlatformAssignmentLesson[]> {
   const platformRows = await sql`
@@ -170,7 +170,7 @@ export function pickCurrentPlatformLesson(
 
 /** Current lesson or any completed lesson (review). Blocks skipping ahead. */
 export async function studentCanAccessAssignedPlatformLesson(
-  sql: ReturnType<typeof neon>,
+  sql: NeonQueryFunction<false, false>,
   userId: string,
   lessonId: string
 ): Promise<boolean> {
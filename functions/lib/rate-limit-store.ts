@@ -0,0 +1,278 @@
+/**
+ * Rate limit storage (see functions/rate-limit.ts for the per-route policies).
+ *
+ * A RateLimitStore keeps the two kinds of counters the policies use: a sliding-window log
+ * (requests in the last windowMs) and a token bucket (capacity tokens, refilled continuously).
+ * Three backends share the same arithmetic:
+ *   - redis: Upstash, when UPSTASH_REDIS_REST_URL / _TOKEN are set (production)
+ *   - postgres: rate_limit_hits / rate_limit_buckets, when only NEON_DATABASE_URL is set
+ *   - memory: per-instance Map, for local runs with no database and for tests
+ * RATE_LIMIT_STORE=redis|postgres|memory forces one. Backends are created lazily so importing
+ * this module never opens a connection.
+ */
+
+import type { NeonQueryFunction } from '@neondatabase/serverless'
+import type { Redis } from '@upstash/redis'
+
+type Sql = NeonQueryFunction<false, false>
+
+export type RateLimitStoreKind = 'redis' | 'postgres' | 'memory'
+
+/**
+ * 'if_allowed' counts the request only when it fits in the window (throttling a route),
+ * 'always' counts it regardless (recording a failure), 'never' only reads (checking failures).
+ */
+export type SlidingWindowConsume = 'if_allowed' | 'always' | 'never'
+
+export interface SlidingWindowOptions {
+  limit: number
+  windowMs: number
+  now: number
+  consume: SlidingWindowConsume
+}
+
+export interface SlidingWindowState {
+  /** Requests in the window before this one */
+  count: number
+  /** Timestamp (ms) of the oldest request still in the window */
+  oldest: number | null
+  consumed: boolean
+}
+
+export interface TokenBucketOptions {
+  capacity: number
+  /** Tokens added per millisecond */
+  refillPerMs: number
+  /** Tokens this request takes; 0 only reads the bucket */
+  cost: number
+  now: number
+}
+
+export interface TokenBucketState {
+  /** Tokens left after this request */
+  tokens: number
+  consumed: boolean
+}
+
+export interface RateLimitStore {
+  readonly kind: RateLimitStoreKind
+  hitSlidingWindow(key: string, options: SlidingWindowOptions): Promise<SlidingWindowState>
+  takeTokens(key: string, options: TokenBucketOptions): Promise<TokenBucketState>
+}
+
+export function shouldConsume(consume: SlidingWindowConsume, count: number, limit: number): boolean {
+  if (consume === 'always') return true
+  if (consume === 'never') return false
+  return count < limit
+}
+
+/** Bucket level at `now`, starting from `tokens` at `updatedAt` and capped at capacity. */
+export function refillTokens(
+  tokens: number,
+  updatedAt: number,
+  now: number,
+  capacity: number,
+  refillPerMs: number
+): number {
+  return Math.min(capacity, tokens + Math.max(0, now - updatedAt) * refillPerMs)
+}
+
+export function takeFromBucket(
+  bucket: { tokens: number; updatedAt: number } | null,
+  options: TokenBucketOptions
+): TokenBucketState {
+  const { capacity, refillPerMs, cost, now } = options
+  const available = bucket
+    ? refillTokens(bucket.tokens, bucket.updatedAt, now, capacity, refillPerMs)
+    : capacity
+  if (available >= cost) return { tokens: available - cost, consumed: true }
+  return { tokens: available, consumed: false }
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly kind = 'memory' as const
+  private hits = new Map<string, number[]>()
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>()
+
+  async hitSlidingWindow(key: string, options: SlidingWindowOptions): Promise<SlidingWindowState> {
+    const { limit, windowMs, now, consume } = options
+    const hits = (this.hits.get(key) || []).filter((at) => at > now - windowMs)
+    const count = hits.length
+    const oldest = count > 0 ? hits[0] : null
+    const consumed = shouldConsume(consume, count, limit)
+    if (consumed) hits.push(now)
+    if (hits.length > 0) this.hits.set(key, hits)
+    else this.hits.delete(key)
+    return { count, oldest, consumed }
+  }
+
+  async takeTokens(key: string, options: TokenBucketOptions): Promise<TokenBucketState> {
+    const state = takeFromBucket(this.buckets.get(key) || null, options)
+    this.buckets.set(key, { tokens: state.tokens, updatedAt: options.now })
+    return state
+  }
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly kind = 'postgres' as const
+
+  constructor(private sql: Sql) {}
+
+  async hitSlidingWindow(key: string, options: SlidingWindowOptions): Promise<SlidingWindowState> {
+    const { limit, windowMs, now, consume } = options
+    const nowAt = new Date(now).toISOString()
+    const windowStart = new Date(now - windowMs).toISOString()
+    const rows = (await this.sql`
+      WITH recent AS (
+        SELECT COUNT(*)::int AS count, MIN(hit_at) AS oldest
+        FROM rate_limit_hits
+        WHERE key = ${key} AND hit_at > ${windowStart}::timestamptz
+      ),
+      ins AS (
+        INSERT INTO rate_limit_hits (key, hit_at)
+        SELECT ${key}, ${nowAt}::timestamptz
+        FROM recent
+        WHERE ${consume} = 'always' OR (${consume} = 'if_allowed' AND recent.count < ${limit})
+        RETURNING 1
+      )
+      SELECT recent.count, recent.oldest, (SELECT COUNT(*) FROM ins)::int AS inserted
+      FROM recent
+    `) as Array<{ count: number; oldest: string | Date | null; inserted: number }>
+    const row = rows[0]
+    return {
+      count: row?.count || 0,
+      oldest: row?.oldest ? new Date(row.oldest).getTime() : null,
+      consumed: (row?.inserted || 0) > 0,
+    }
+  }
+
+  async takeTokens(key: string, options: TokenBucketOptions): Promise<TokenBucketState> {
+    const { capacity, refillPerMs, cost, now } = options
+    const nowAt = new Date(now).toISOString()
+    const refilled = () => this.sql`
+      LEAST(
+        ${capacity}::double precision,
+        rate_limit_buckets.tokens
+          + ${refillPerMs}::double precision
+          * GREATEST(0, EXTRACT(EPOCH FROM (${nowAt}::timestamptz - rate_limit_buckets.updated_at)) * 1000)
+      )
+    `
+    const rows = (await this.sql`
+      INSERT INTO rate_limit_buckets (key, tokens, last_allowed, updated_at)
+      VALUES (
+        ${key},
+        CASE WHEN ${capacity}::double precision >= ${cost}::double precision
+          THEN ${capacity}::double precision - ${cost}::double precision
+          ELSE ${capacity}::double precision END,
+        ${capacity}::double precision >= ${cost}::double precision,
+        ${nowAt}::timestamptz
+      )
+      ON CONFLICT (key) DO UPDATE SET
+        tokens = CASE WHEN ${refilled()} >= ${cost}::double precision
+          THEN ${refilled()} - ${cost}::double precision
+          ELSE ${refilled()} END,
+        last_allowed = ${refilled()} >= ${cost}::double precision,
+        updated_at = ${nowAt}::timestamptz
+      RETURNING tokens, last_allowed
+    `) as Array<{ tokens: number; last_allowed: boolean }>
+    const row = rows[0]
+    return { tokens: Number(row?.tokens ?? capacity), consumed: row?.last_allowed !== false }
+  }
+}
+
+// Refill, take and store one bucket atomically. Returns {consumed, tokens}.
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+local ttl = tonumber(ARGV[5])
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(bucket[1]) or capacity
+local ts = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+local consumed = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  consumed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], ttl)
+return {consumed, tostring(tokens)}
+`
+
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly kind = 'redis' as const
+
+  constructor(private redis: Redis) {}
+
+  async hitSlidingWindow(key: string, options: SlidingWindowOptions): Promise<SlidingWindowState> {
+    const { limit, windowMs, now, consume } = options
+    await this.redis.zremrangebyscore(key, 0, now - windowMs)
+    const count = (await this.redis.zcard(key)) || 0
+    const consumed = shouldConsume(consume, count, limit)
+    if (consumed) {
+      await this.redis.zadd(key, { score: now, member: `${now}-${Math.random()}` })
+      await this.redis.expire(key, Math.ceil((windowMs * 2) / 1000))
+    }
+    let oldest: number | null = null
+    if (count > 0) {
+      const first = (await this.redis.zrange(key, 0, 0, { withScores: true })) as unknown[]
+      // Upstash returns [member, score] flattened; older clients returned { member, score }
+      const head = first?.[0]
+      const score =
+        head && typeof head === 'object' && 'score' in head
+          ? Number((head as { score: unknown }).score)
+          : Number(first?.[1])
+      if (Number.isFinite(score)) oldest = score
+    }
+    return { count, oldest, consumed }
+  }
+
+  async takeTokens(key: string, options: TokenBucketOptions): Promise<TokenBucketState> {
+    const { capacity, refillPerMs, cost, now } = options
+    const fullAfterMs = Math.ceil(capacity / refillPerMs)
+    const [consumed, tokens] = (await this.redis.eval(
+      TOKEN_BUCKET_SCRIPT,
+      [key],
+      [capacity, refillPerMs, now, cost, fullAfterMs * 2]
+    )) as [number, string]
+    return { tokens: Number(tokens), consumed: consumed === 1 }
+  }
+}
+
+let store: RateLimitStore | null = null
+
+function configuredKind(): RateLimitStoreKind {
+  const forced = process.env.RATE_LIMIT_STORE
+  if (forced === 'redis' || forced === 'postgres' || forced === 'memory') return forced
+  if (process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN) return 'redis'
+  if (process.env.NEON_DATABASE_URL) return 'postgres'
+  return 'memory'
+}
+
+/** The store for this environment; falls back to memory when the configured backend is missing. */
+export async function getRateLimitStore(): Promise<RateLimitStore> {
+  if (store) return store
+  const kind = configuredKind()
+  if (kind === 'redis' && process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN) {
+    const { Redis } = await import('@upstash/redis')
+    store = new RedisRateLimitStore(
+      new Redis({ url: process.env.UPSTASH_REDIS_REST_URL, token: process.env.UPSTASH_REDIS_REST_TOKEN })
+    )
+  } else if (kind === 'postgres' && process.env.NEON_DATABASE_URL) {
+    const { neon } = await import('@neondatabase/serverless')
+    store = new PostgresRateLimitStore(neon(process.env.NEON_DATABASE_URL))
+  } else {
+    if (kind !== 'memory') {
+      console.warn(`Rate limit: ${kind} store is not configured, counting in memory for this instance only`)
+    }
+    store = new MemoryRateLimitStore()
+  }
+  return store
+}
+
+/** Replace the process-wide store (tests). */
+export function setRateLimitStore(next: RateLimitStore | null): void {
+  store = next
+}
@@ -0,0 +1,308 @@
+/**
+ * Read-vs-speak online logistic regression stored in classifier_store (read_vs_speak:model:v1).
+ *
+ * p(spoken) = sigmoid(intercept + Σ w_i x_i) over five recording features. public-track-recording
+ * takes one SGD step per teacher vote; admin-read-vs-speak-model retrains over every labelled
+ * recording, reports holdout accuracy and keeps a snapshot per version
+ * (read_vs_speak:model:v1:snapshot:<version>) so a bad run can be rolled back.
+ *
+ * Once the model is ready (enough samples, holdout accuracy above READY_MIN_HOLDOUT_ACCURACY)
+ * run-speech-analysis-background passes its probability to the robotic-voice scorer as
+ * learned_spoken_probability.
+ */
+
+import type { NeonQueryFunction } from '@neondatabase/serverless'
+
+export const READ_VS_SPEAK_MODEL_KEY = 'read_vs_speak:model:v1'
+export const READ_VS_SPEAK_SNAPSHOT_PREFIX = `${READ_VS_SPEAK_MODEL_KEY}:snapshot:`
+export const READ_VS_SPEAK_RECORDING_PREFIX = 'read_vs_speak:recording:'
+
+export const READ_VS_SPEAK_FEATURES = ['pause_ratio', 'filler_ratio', 'wps', 'voiced_ratio', 'pause_entropy'] as const
+
+export type ReadVsSpeakFeatureName = (typeof READ_VS_SPEAK_FEATURES)[number]
+export type ReadVsSpeakFeatures = Record<ReadVsSpeakFeatureName, number>
+
+export const READY_MIN_SAMPLES = 30
+export const READY_MIN_HOLDOUT = 10
+export const READY_MIN_HOLDOUT_ACCURACY = 0.7
+
+export interface ReadVsSpeakMetrics {
+  n: number
+  /** Share classified correctly at p = 0.5; null when n = 0 */
+  accuracy: number | null
+  log_loss: number | null
+}
+
+export interface ReadVsSpeakModel {
+  feature_names: string[]
+  weights: Record<string, number>
+  intercept: number
+  learning_rate: number
+  l2: number
+  samples_seen: number
+  /** Bumped by every batch training run / rollback; absent on the seeded model */
+  version?: number
+  trained_at?: string
+  holdout?: ReadVsSpeakMetrics
+  train_count?: number
+  label_sources?: Record<string, number>
+}
+
+export type ReadVsSpeakLabelSource = 'teacher_review' | 'admin_tts_check' | 'recording_vote'
+
+export interface ReadVsSpeakSample {
+  /** Recording base key (speech_jobs.id) */
+  key: string
+  features: ReadVsSpeakFeatures
+  /** 1 = spoken, 0 = reading (or TTS playback) */
+  spoken: 0 | 1
+  source: ReadVsSpeakLabelSource
+}
+
+export interface ReadVsSpeakTrainingOptions {
+  epochs?: number
+  /** Share of samples held out, by key hash (stable across runs) */
+  holdout_fraction?: number
+  /** Shuffle seed */
+  seed?: number
+}
+
+export interface ReadVsSpeakTrainingResult {
+  model: ReadVsSpeakModel
+  train_count: number
+  holdout_keys: string[]
+  /** Previous model and new model on the same holdout */
+  holdout_before: ReadVsSpeakMetrics
+  holdout_after: ReadVsSpeakMetrics
+}
+
+const DEFAULT_LEARNING_RATE = 0.15
+const DEFAULT_L2 = 0.001
+const FILLER_WORDS = new Set(['um', 'uh', 'er', 'ah', 'like'])
+
+function finiteOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback
+}
+
+function clamp01(n: number): number {
+  if (!Number.isFinite(n)) return 0
+  return Math.min(1, Math.max(0, n))
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x))
+}
+
+/**
+ * Model features from a `{jobId}.features.JSON` payload (whisper_verbose + browser_rhythm);
+ * null when there is no usable transcript / duration.
+ */
+export function extractReadVsSpeakFeatures(payload: unknown): ReadVsSpeakFeatures | null {
+  const obj = payload && typeof payload === 'object' ? (payload as Record<string, any>) : {}
+  const whisper = obj.whisper_verbose
+  const rhythm = obj.browser_rhythm
+  const text: string = typeof whisper?.text === 'string' ? whisper.text : ''
+  const duration: number = typeof whisper?.duration === 'number' ? whisper.duration : NaN
+  const segments: any[] = Array.isArray(whisper?.segments) ? whisper.segments : []
+
+  const words = text.trim().split(/\s+/).filter(Boolean)
+  const wordCount = words.length
+  if (!Number.isFinite(duration) || duration <= 0 || wordCount <= 0) return null
+
+  let pauseSum = 0
+  for (let i = 0; i < segments.length - 1; i++) {
+    const end = Number(segments[i]?.end)
+    const startNext = Number(segments[i + 1]?.start)
+    if (Number.isFinite(end) && Number.isFinite(startNext)) {
+      const gap = startNext - end
+      if (gap > 0) pauseSum += gap
+    }
+  }
+
+  let fillerCount = 0
+  for (const w of words) {
+    if (FILLER_WORDS.has(w.toLowerCase().replace(/[^a-z']/g, ''))) fillerCount++
+  }
+
+  return {
+    pause_ratio: pauseSum / duration,
+    filler_ratio: fillerCount / wordCount,
+    wps: wordCount / duration,
+    voiced_ratio: finiteOr(rhythm?.voiced_ratio, 0.55),
+    pause_entropy: finiteOr(rhythm?.pause_entropy, 2.0),
+  }
+}
+
+/** Normalise a classifier_store model payload; null when it is not a model at all. */
+export function parseReadVsSpeakModel(raw: unknown): ReadVsSpeakModel | null {
+  if (!raw || typeof raw !== 'object') return null
+  const obj = raw as Record<string, any>
+  const featureNames = Array.isArray(obj.feature_names)
+    ? obj.feature_names.filter((n: unknown): n is string => typeof n === 'string')
+    : []
+  if (featureNames.length === 0) return null
+  const weights: Record<string, number> = {}
+  for (const name of featureNames) weights[name] = finiteOr(obj.weights?.[name], 0)
+  return {
+    ...obj,
+    feature_names: featureNames,
+    weights,
+    intercept: finiteOr(obj.intercept, 0),
+    learning_rate: finiteOr(obj.learning_rate, DEFAULT_LEARNING_RATE),
+    l2: finiteOr(obj.l2, DEFAULT_L2),
+    samples_seen: finiteOr(obj.samples_seen, 0),
+  }
+}
+
+export function predictSpokenProbability(model: ReadVsSpeakModel, features: ReadVsSpeakFeatures): number {
+  let z = model.intercept
+  for (const name of model.feature_names) {
+    z += (model.weights[name] ?? 0) * ((features as Record<string, number>)[name] ?? 0)
+  }
+  return clamp01(sigmoid(z))
+}
+
+/** One L2-regularised SGD step towards `spoken`; returns a new model. */
+export function sgdStep(model: ReadVsSpeakModel, features: ReadVsSpeakFeatures, spoken: 0 | 1): ReadVsSpeakModel {
+  const err = predictSpokenProbability(model, features) - spoken
+  const weights: Record<string, number> = { ...model.weights }
+  for (const name of model.feature_names) {
+    const w = model.weights[name] ?? 0
+    const xi = (features as Record<string, number>)[name] ?? 0
+    weights[name] = w - model.learning_rate * (err * xi + model.l2 * w)
+  }
+  return {
+    ...model,
+    weights,
+    intercept: model.intercept - model.learning_rate * err,
+    samples_seen: model.samples_seen + 1,
+  }
+}
+
+export function evaluateReadVsSpeakModel(model: ReadVsSpeakModel, samples: ReadVsSpeakSample[]): ReadVsSpeakMetrics {
+  if (samples.length === 0) return { n: 0, accuracy: null, log_loss: null }
+  let correct = 0
+  let loss = 0
+  for (const s of samples) {
+    const p = Math.min(1 - 1e-7, Math.max(1e-7, predictSpokenProbability(model, s.features)))
+    if ((p >= 0.5 ? 1 : 0) === s.spoken) correct++
+    loss += -(s.spoken * Math.log(p) + (1 - s.spoken) * Math.log(1 - p))
+  }
+  return { n: samples.length, accuracy: correct / samples.length, log_loss: loss / samples.length }
+}
+
+/** FNV-1a; decides holdout membership so the same recording stays held out across runs. */
+function hashKey(key: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+export function isHoldoutKey(key: string, fraction: number): boolean {
+  return hashKey(key) % 1000 < Math.round(fraction * 1000)
+}
+
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Retrain from zero weights (same hyper-parameters as `current`) over the non-holdout samples
+ * and score both models on the holdout. Deterministic for a given sample set and seed.
+ */
+export function trainReadVsSpeakModel(
+  current: ReadVsSpeakModel,
+  samples: ReadVsSpeakSample[],
+  options: ReadVsSpeakTrainingOptions = {}
+): ReadVsSpeakTrainingResult {
+  const epochs = Math.max(1, Math.floor(options.epochs ?? 20))
+  const fraction = Math.min(0.5, Math.max(0, options.holdout_fraction ?? 0.2))
+  const random = seededRandom(options.seed ?? 1)
+
+  const holdout = samples.filter((s) => isHoldoutKey(s.key, fraction))
+  const train = samples.filter((s) => !isHoldoutKey(s.key, fraction))
+
+  let model: ReadVsSpeakModel = {
+    ...current,
+    weights: Object.fromEntries(current.feature_names.map((n) => [n, 0])),
+    intercept: 0,
+    samples_seen: 0,
+  }
+  const order = train.map((_, i) => i)
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1))
+      ;[order[i], order[j]] = [order[j], order[i]]
+    }
+    for (const idx of order) model = sgdStep(model, train[idx].features, train[idx].spoken)
+  }
+
+  const labelSources: Record<string, number> = {}
+  for (const s of samples) labelSources[s.source] = (labelSources[s.source] ?? 0) + 1
+
+  const holdoutAfter = evaluateReadVsSpeakModel(model, holdout)
+  return {
+    model: {
+      ...model,
+      // samples_seen counts distinct training recordings, not SGD steps
+      samples_seen: train.length,
+      version: (current.version ?? 0) + 1,
+      trained_at: new Date().toISOString(),
+      holdout: holdoutAfter,
+      train_count: train.length,
+      label_sources: labelSources,
+    },
+    train_count: train.length,
+    holdout_keys: holdout.map((s) => s.key),
+    holdout_before: evaluateReadVsSpeakModel(current, holdout),
+    holdout_after: holdoutAfter,
+  }
+}
+
+/** Trained on enough labels and good enough on its holdout to be used as a scorer signal. */
+export function isReadVsSpeakModelReady(model: ReadVsSpeakModel | null): model is ReadVsSpeakModel {
+  if (!model || model.samples_seen < READY_MIN_SAMPLES) return false
+  const h = model.holdout
+  return !!h && h.n >= READY_MIN_HOLDOUT && h.accuracy != null && h.accuracy >= READY_MIN_HOLDOUT_ACCURACY
+}
+
+/** Later sources override earlier ones for the same recording (a teacher outranks votes). */
+export const LABEL_SOURCE_PRIORITY: Record<ReadVsSpeakLabelSource, number> = {
+  recording_vote: 1,
+  admin_tts_check: 2,
+  teacher_review: 3,
+}
+
+/** Majority of reading/speaking votes; null on a tie or no votes. */
+export function labelFromVotes(readingCount: number, speakingCount: number): 0 | 1 | null {
+  if (readingCount === speakingCount) return null
+  return speakingCount > readingCount ? 1 : 0
+}
+
+export function addReadVsSpeakLabel(
+  labels: Map<string, { spoken: 0 | 1; source: ReadVsSpeakLabelSource }>,
+  key: string,
+  spoken: 0 | 1,
+  source: ReadVsSpeakLabelSource
+): void {
+  const existing = labels.get(key)
+  if (existing && LABEL_SOURCE_PRIORITY[existing.source] >= LABEL_SOURCE_PRIORITY[source]) return
+  labels.set(key, { spoken, source })
+}
+
+export async function loadReadVsSpeakModel(sql: NeonQueryFunction<false, false>): Promise<ReadVsSpeakModel | null> {
+  const rows = (await sql`
+    SELECT payload FROM classifier_store WHERE key = ${READ_VS_SPEAK_MODEL_KEY} AND kind = 'model' LIMIT 1
+  `) as Array<{ payload: unknown }>
+  return parseReadVsSpeakModel(rows[0]?.payload)
+}
@@ -0,0 +1,314 @@
+/**
+ * Golden corpus for the robotic-voice scorer.
+ *
+ * A corpus is a list of labelled cases (scorer input + expected delivery_mode / would_flag),
+ * exported by admin-robot-voice-corpus from admin_tts_check_sessions (label = delivery_method)
+ * and audited speech_jobs (label supplied by the admin). evaluateRoboticVoiceCorpus re-scores
+ * every case and reports precision / recall / confusion per scorer version; diffing two reports
+ * shows exactly which recordings a threshold change flips before it is deployed.
+ */
+
+import {
+  computeRoboticVoiceScore,
+  getActiveScorerVersion,
+  type RoboticVoiceFeaturesInput,
+  type RoboticVoiceResult,
+  type SpeechDeliveryMode,
+} from '../robotic-voice.js'
+
+export const ROBOTIC_VOICE_CORPUS_FORMAT = 'robotic-voice-corpus/v1'
+
+export const DELIVERY_MODES: SpeechDeliveryMode[] = ['speaking', 'reading', 'tts']
+
+export type RoboticVoiceCorpusSource = 'admin_tts_check' | 'speech_job'
+
+export interface RoboticVoiceCorpusLabel {
+  delivery_mode: SpeechDeliveryMode
+  would_flag: boolean
+}
+
+export interface RoboticVoiceCorpusCase {
+  /** speech_jobs.id */
+  id: string
+  source: RoboticVoiceCorpusSource
+  label: RoboticVoiceCorpusLabel
+  input: RoboticVoiceFeaturesInput
+  meta?: {
+    delivery_method?: string | null
+    topic_id?: string | null
+    session_id?: string | null
+    note?: string | null
+    created_at?: string | null
+  }
+}
+
+export interface RoboticVoiceCorpus {
+  format: typeof ROBOTIC_VOICE_CORPUS_FORMAT
+  exported_at: string
+  cases: RoboticVoiceCorpusCase[]
+}
+
+export interface RoboticVoiceCaseOutcome {
+  id: string
+  source: RoboticVoiceCorpusSource
+  expected: RoboticVoiceCorpusLabel
+  predicted: RoboticVoiceCorpusLabel & { score: number; rules_hit: string[] }
+  correct: boolean
+}
+
+export interface BinaryMetrics {
+  tp: number
+  fp: number
+  fn: number
+  tn: number
+  /** null when nothing was predicted / expected positive */
+  precision: number | null
+  recall: number | null
+  f1: number | null
+  accuracy: number | null
+}
+
+export interface RoboticVoiceCorpusReport {
+  scorer_version: string
+  evaluated_at: string
+  total: number
+  would_flag: BinaryMetrics
+  /** confusion[expected][predicted] */
+  delivery_mode: {
+    confusion: Record<SpeechDeliveryMode, Record<SpeechDeliveryMode, number>>
+    accuracy: number | null
+  }
+  by_source: Partial<Record<RoboticVoiceCorpusSource, BinaryMetrics>>
+  cases: RoboticVoiceCaseOutcome[]
+}
+
+export interface RoboticVoiceCorpusDiff {
+  from_version: string
+  to_version: string
+  /** Cases whose prediction changed; fixed = now correct, broken = now wrong */
+  changed: Array<{
+    id: string
+    expected: RoboticVoiceCorpusLabel
+    before: RoboticVoiceCaseOutcome['predicted']
+    after: RoboticVoiceCaseOutcome['predicted']
+    effect: 'fixed' | 'broken' | 'still_wrong' | 'still_correct'
+  }>
+  fixed: number
+  broken: number
+  /** Cases only present in one of the reports */
+  missing_in_from: string[]
+  missing_in_to: string[]
+}
+
+/**
+ * Label for an admin calibration recording from how it was produced
+ * (admin_tts_check_sessions.delivery_method).
+ */
+export function labelFromDeliveryMethod(method: string | null | undefined): RoboticVoiceCorpusLabel | null {
+  switch (method) {
+    case 'human_mic':
+      return { delivery_mode: 'speaking', would_flag: false }
+    case 'google_translate_tts':
+    case 'ai_voice_tts':
+    case 'speaker_playback':
+      return { delivery_mode: 'tts', would_flag: true }
+    default:
+      return null
+  }
+}
+
+export function isDeliveryMode(value: unknown): value is SpeechDeliveryMode {
+  return typeof value === 'string' && (DELIVERY_MODES as string[]).includes(value)
+}
+
+/**
+ * Validate a parsed corpus file; drops malformed cases instead of failing the whole run.
+ */
+export function parseRoboticVoiceCorpus(raw: unknown): RoboticVoiceCorpus {
+  const obj = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {}
+  if (obj.format !== ROBOTIC_VOICE_CORPUS_FORMAT) {
+    throw new Error(`Unsupported corpus format: ${String(obj.format)} (expected ${ROBOTIC_VOICE_CORPUS_FORMAT})`)
+  }
+  const cases = (Array.isArray(obj.cases) ? obj.cases : []).filter((c): c is RoboticVoiceCorpusCase => {
+    if (!c || typeof c !== 'object') return false
+    const rec = c as Partial<RoboticVoiceCorpusCase>
+    return (
+      typeof rec.id === 'string' &&
+      !!rec.label &&
+      isDeliveryMode(rec.label.delivery_mode) &&
+      typeof rec.label.would_flag === 'boolean' &&
+      !!rec.input &&
+      typeof rec.input === 'object'
+    )
+  })
+  return {
+    format: ROBOTIC_VOICE_CORPUS_FORMAT,
+    exported_at: typeof obj.exported_at === 'string' ? obj.exported_at : '',
+    cases,
+  }
+}
+
+function ratio(num: number, den: number): number | null {
+  return den > 0 ? num / den : null
+}
+
+function binaryMetrics(outcomes: RoboticVoiceCaseOutcome[]): BinaryMetrics {
+  let tp = 0
+  let fp = 0
+  let fn = 0
+  let tn = 0
+  for (const o of outcomes) {
+    if (o.expected.would_flag && o.predicted.would_flag) tp++
+    else if (!o.expected.would_flag && o.predicted.would_flag) fp++
+    else if (o.expected.would_flag && !o.predicted.would_flag) fn++
+    else tn++
+  }
+  const precision = ratio(tp, tp + fp)
+  const recall = ratio(tp, tp + fn)
+  const f1 =
+    precision != null && recall != null && precision + recall > 0
+      ? (2 * precision * recall) / (precision + recall)
+      : null
+  return { tp, fp, fn, tn, precision, recall, f1, accuracy: ratio(tp + tn, outcomes.length) }
+}
+
+function emptyConfusion(): Record<SpeechDeliveryMode, Record<SpeechDeliveryMode, number>> {
+  const row = () => ({ speaking: 0, reading: 0, tts: 0 })
+  return { speaking: row(), reading: row(), tts: row() }
+}
+
+function predictedLabel(result: RoboticVoiceResult): RoboticVoiceCaseOutcome['predicted'] {
+  const mode = result.signals.delivery_mode
+  const rules = result.signals.rules_hit
+  return {
+    delivery_mode: isDeliveryMode(mode) ? mode : 'speaking',
+    would_flag: result.signals.would_flag === true,
+    score: result.score,
+    rules_hit: Array.isArray(rules) ? rules.filter((r): r is string => typeof r === 'string') : [],
+  }
+}
+
+/**
+ * Score every case and summarise against its label.
+ * `scorer` defaults to the active version; pass `(input) => computeRoboticVoiceScore(input, v)`
+ * with `v` as `scorerVersion` to evaluate another registered version.
+ */
+export function evaluateRoboticVoiceCorpus(
+  cases: RoboticVoiceCorpusCase[],
+  scorer: (input: RoboticVoiceFeaturesInput) => RoboticVoiceResult = computeRoboticVoiceScore,
+  scorerVersion: string = getActiveScorerVersion()
+): RoboticVoiceCorpusReport {
+  const outcomes: RoboticVoiceCaseOutcome[] = cases.map((c) => {
+    const predicted = predictedLabel(scorer(c.input))
+    return {
+      id: c.id,
+      source: c.source,
+      expected: c.label,
+      predicted,
+      correct:
+        predicted.would_flag === c.label.would_flag && predicted.delivery_mode === c.label.delivery_mode,
+    }
+  })
+
+  const confusion = emptyConfusion()
+  let modeCorrect = 0
+  for (const o of outcomes) {
+    confusion[o.expected.delivery_mode][o.predicted.delivery_mode]++
+    if (o.expected.delivery_mode === o.predicted.delivery_mode) modeCorrect++
+  }
+
+  const bySource: RoboticVoiceCorpusReport['by_source'] = {}
+  for (const source of ['admin_tts_check', 'speech_job'] as const) {
+    const subset = outcomes.filter((o) => o.source === source)
+    if (subset.length > 0) bySource[source] = binaryMetrics(subset)
+  }
+
+  return {
+    scorer_version: scorerVersion,
+    evaluated_at: new Date().toISOString(),
+    total: outcomes.length,
+    would_flag: binaryMetrics(outcomes),
+    delivery_mode: { confusion, accuracy: ratio(modeCorrect, outcomes.length) },
+    by_source: bySource,
+    cases: outcomes,
+  }
+}
+
+/**
+ * Per-case difference between two reports over the same corpus (e.g. deployed vs candidate).
+ */
+export function diffRoboticVoiceReports(
+  from: RoboticVoiceCorpusReport,
+  to: RoboticVoiceCorpusReport
+): RoboticVoiceCorpusDiff {
+  const fromById = new Map(from.cases.map((c) => [c.id, c]))
+  const toById = new Map(to.cases.map((c) => [c.id, c]))
+  const changed: RoboticVoiceCorpusDiff['changed'] = []
+
+  for (const after of to.cases) {
+    const before = fromById.get(after.id)
+    if (!before) continue
+    if (
+      before.predicted.would_flag === after.predicted.would_flag &&
+      before.predicted.delivery_mode === after.predicted.delivery_mode
+    ) {
+      continue
+    }
+    const effect =
+      !before.correct && after.correct
+        ? 'fixed'
+        : before.correct && !after.correct
+          ? 'broken'
+          : after.correct
+            ? 'still_correct'
+            : 'still_wrong'
+    changed.push({ id: after.id, expected: after.expected, before: before.predicted, after: after.predicted, effect })
+  }
+
+  return {
+    from_version: from.scorer_version,
+    to_version: to.scorer_version,
+    changed,
+    fixed: changed.filter((c) => c.effect === 'fixed').length,
+    broken: changed.filter((c) => c.effect === 'broken').length,
+    missing_in_from: to.cases.filter((c) => !fromById.has(c.id)).map((c) => c.id),
+    missing_in_to: from.cases.filter((c) => !toById.has(c.id)).map((c) => c.id),
+  }
+}
+
+function pct(v: number | null): string {
+  return v == null ? '  n/a' : `${(v * 100).toFixed(1).padStart(5)}%`
+}
+
+/** Plain-text summary for the console / PR descriptions. */
+export function formatRoboticVoiceReport(report: RoboticVoiceCorpusReport, diff?: RoboticVoiceCorpusDiff | null): string {
+  const m = report.would_flag
+  const lines = [
+    `Robotic-voice corpus — scorer ${report.scorer_version} — ${report.total} cases`,
+    '',
+    `would_flag  precision ${pct(m.precision)}  recall ${pct(m.recall)}  f1 ${pct(m.f1)}  accuracy ${pct(m.accuracy)}`,
+    `            tp ${m.tp}  fp ${m.fp}  fn ${m.fn}  tn ${m.tn}`,
+  ]
+  for (const [source, sm] of Object.entries(report.by_source)) {
+    if (!sm) continue
+    lines.push(`  ${source.padEnd(16)} precision ${pct(sm.precision)}  recall ${pct(sm.recall)}  (fp ${sm.fp}, fn ${sm.fn})`)
+  }
+  lines.push('', `delivery_mode accuracy ${pct(report.delivery_mode.accuracy)}  (rows = expected, cols = predicted)`)
+  lines.push(`${''.padEnd(10)}${DELIVERY_MODES.map((d) => d.padStart(10)).join('')}`)
+  for (const expected of DELIVERY_MODES) {
+    const row = report.delivery_mode.confusion[expected]
+    lines.push(`${expected.padEnd(10)}${DELIVERY_MODES.map((d) => String(row[d]).padStart(10)).join('')}`)
+  }
+
+  if (diff) {
+    lines.push('', `Diff ${diff.from_version} → ${diff.to_version}: ${diff.changed.length} changed, ${diff.fixed} fixed, ${diff.broken} broken`)
+    for (const c of diff.changed) {
+      lines.push(
+        `  [${c.effect}] ${c.id}  expected ${c.expected.delivery_mode}/${c.expected.would_flag}  ` +
+          `${c.before.delivery_mode}/${c.before.would_flag} (${c.before.score}) → ` +
+          `${c.after.delivery_mode}/${c.after.would_flag} (${c.after.score})`
+      )
+    }
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,269 @@
+/**
+ * Robotic-voice enforcement policy.
+ *
+ * The scorer only decides whether a recording *would* be flagged; what happens next is a
+ * policy decision resolved per job from robotic_voice_policies. The most specific enabled
+ * policy wins: student > lesson > class > level > global. Without a match, ROBOTIC_VOICE_MODE
+ * is the fallback (log when unset), so deployments without policies behave as before.
+ *
+ * Modes:
+ *  - log               record only; the student never sees anything
+ *  - warn_student      job completes, feedback carries robotic_voice_warning
+ *  - require_rerecord  job fails with reason robotic_voice_rerecord; student records again
+ *  - block             job fails with reason robotic_voice (the old ROBOTIC_VOICE_MODE=block)
+ *
+ * Every decision on a would-flag recording is written to robotic_voice_enforcement_decisions.
+ */
+
+import type { NeonQueryFunction } from '@neondatabase/serverless'
+import type { RoboticVoiceResult } from '../robotic-voice.js'
+
+export type RoboticVoiceEnforcementMode = 'log' | 'warn_student' | 'require_rerecord' | 'block'
+
+export type RoboticVoicePolicyScope = 'global' | 'class' | 'level' | 'lesson' | 'student'
+
+export type RoboticVoiceEnforcementAction = 'none' | 'warned' | 'rerecord_required' | 'blocked'
+
+export const ENFORCEMENT_MODES: RoboticVoiceEnforcementMode[] = ['log', 'warn_student', 'require_rerecord', 'block']
+
+/** Most specific first; resolution walks this list and stops at the first enabled match. */
+export const POLICY_SCOPE_PRECEDENCE: RoboticVoicePolicyScope[] = ['student', 'lesson', 'class', 'level', 'global']
+
+export interface RoboticVoicePolicy {
+  id: string
+  scope_type: RoboticVoicePolicyScope
+  scope_value: string
+  mode: RoboticVoiceEnforcementMode
+  enabled: boolean
+  notes?: string | null
+  updated_at?: string | null
+}
+
+/** What a speech job is matched on. */
+export interface RoboticVoicePolicyContext {
+  user_id: string | null
+  lesson_id: string | null
+  class_label: string | null
+  level: string | null
+}
+
+export interface RoboticVoiceEnforcementDecision {
+  mode: RoboticVoiceEnforcementMode
+  action: RoboticVoiceEnforcementAction
+  policy_id: string | null
+  /** 'env' when ROBOTIC_VOICE_MODE decided */
+  scope_type: RoboticVoicePolicyScope | 'env'
+  scope_value: string | null
+  /** Student-facing text; empty for log / no action */
+  message: string
+}
+
+export const ROBOTIC_VOICE_WARNING_MESSAGE =
+  'Your recording sounded like a computer voice. Next time, please record yourself speaking.'
+export const ROBOTIC_VOICE_RERECORD_MESSAGE =
+  'This sounds like a computer voice. Please record your answer again using your own voice.'
+export const ROBOTIC_VOICE_BLOCK_MESSAGE = 'This sounds like a computer voice. Please record yourself speaking.'
+
+export function isEnforcementMode(value: unknown): value is RoboticVoiceEnforcementMode {
+  return typeof value === 'string' && (ENFORCEMENT_MODES as string[]).includes(value)
+}
+
+export function isPolicyScope(value: unknown): value is RoboticVoicePolicyScope {
+  return typeof value === 'string' && (POLICY_SCOPE_PRECEDENCE as string[]).includes(value)
+}
+
+/**
+ * Canonical scope_value for storage and matching: global has none, levels are
+ * case-insensitive (A1 / a1), everything else is trimmed as-is.
+ */
+export function normalizeScopeValue(scope: RoboticVoicePolicyScope, value: string | null | undefined): string {
+  if (scope === 'global') return ''
+  const trimmed = (value ?? '').trim()
+  return scope === 'level' ? trimmed.toUpperCase() : trimmed
+}
+
+/** ROBOTIC_VOICE_MODE as a fallback policy; accepts every enforcement mode, log otherwise. */
+export function envEnforcementMode(): RoboticVoiceEnforcementMode {
+  const raw = process.env.ROBOTIC_VOICE_MODE?.trim()
+  return isEnforcementMode(raw) ? raw : 'log'
+}
+
+function contextValue(scope: RoboticVoicePolicyScope, ctx: RoboticVoicePolicyContext): string | null {
+  switch (scope) {
+    case 'student':
+      return ctx.user_id
+    case 'lesson':
+      return ctx.lesson_id
+    case 'class':
+      return ctx.class_label
+    case 'level':
+      return ctx.level
+    case 'global':
+      return ''
+  }
+}
+
+export function actionForMode(mode: RoboticVoiceEnforcementMode, wouldFlag: boolean): RoboticVoiceEnforcementAction {
+  if (!wouldFlag) return 'none'
+  switch (mode) {
+    case 'warn_student':
+      return 'warned'
+    case 'require_rerecord':
+      return 'rerecord_required'
+    case 'block':
+      return 'blocked'
+    default:
+      return 'none'
+  }
+}
+
+function messageForAction(action: RoboticVoiceEnforcementAction): string {
+  switch (action) {
+    case 'warned':
+      return ROBOTIC_VOICE_WARNING_MESSAGE
+    case 'rerecord_required':
+      return ROBOTIC_VOICE_RERECORD_MESSAGE
+    case 'blocked':
+      return ROBOTIC_VOICE_BLOCK_MESSAGE
+    default:
+      return ''
+  }
+}
+
+/**
+ * Pick the policy for a job and the action it implies for this recording.
+ * Disabled policies are skipped (not treated as "log"), so disabling a class policy
+ * falls back to the level / global one.
+ */
+export function resolveRoboticVoiceEnforcement(
+  policies: RoboticVoicePolicy[],
+  ctx: RoboticVoicePolicyContext,
+  wouldFlag: boolean,
+  fallbackMode: RoboticVoiceEnforcementMode = envEnforcementMode()
+): RoboticVoiceEnforcementDecision {
+  for (const scope of POLICY_SCOPE_PRECEDENCE) {
+    const raw = contextValue(scope, ctx)
+    if (raw == null) continue
+    const value = normalizeScopeValue(scope, raw)
+    if (scope !== 'global' && !value) continue
+    const match = policies.find(
+      (p) => p.enabled && p.scope_type === scope && normalizeScopeValue(scope, p.scope_value) === value
+    )
+    if (match) {
+      const action = actionForMode(match.mode, wouldFlag)
+      return {
+        mode: match.mode,
+        action,
+        policy_id: match.id,
+        scope_type: scope,
+        scope_value: value || null,
+        message: messageForAction(action),
+      }
+    }
+  }
+  const action = actionForMode(fallbackMode, wouldFlag)
+  return {
+    mode: fallbackMode,
+    action,
+    policy_id: null,
+    scope_type: 'env',
+    scope_value: null,
+    message: messageForAction(action),
+  }
+}
+
+/** True when the decision fails the job instead of returning feedback. */
+export function enforcementFailsJob(decision: RoboticVoiceEnforcementDecision): boolean {
+  return decision.action === 'blocked' || decision.action === 'rerecord_required'
+}
+
+/**
+ * Scorer result with the policy applied: `flagged` / `message` / `_mode` now reflect the
+ * policy instead of ROBOTIC_VOICE_MODE, and `_enforcement` records why.
+ */
+export function applyRoboticVoiceEnforcement(
+  result: RoboticVoiceResult,
+  decision: RoboticVoiceEnforcementDecision
+): RoboticVoiceResult & { _enforcement: RoboticVoiceEnforcementDecision } {
+  const fails = enforcementFailsJob(decision)
+  return {
+    ...result,
+    flagged: fails,
+    message: decision.message || (result.signals.would_flag === true ? '[log] Would flag robotic voice' : ''),
+    _mode: fails ? 'block' : 'log',
+    _enforcement: decision,
+  }
+}
+
+/** Student / lesson / class / level for a speech job; class is the student's first active class by name. */
+export async function loadRoboticVoicePolicyContext(
+  sql: NeonQueryFunction<false, false>,
+  job: { user_id: string | null; lesson_id: string | null; cefr_level: string | null }
+): Promise<RoboticVoicePolicyContext> {
+  let classLabel: string | null = null
+  let userLevel: string | null = null
+  if (job.user_id) {
+    const rows = (await sql`
+      SELECT
+        u.level,
+        (
+          SELECT c.name FROM class_students cs
+          JOIN classes c ON c.id = cs.class_id
+          WHERE cs.user_id = u.id AND c.active = TRUE
+          ORDER BY c.name ASC
+          LIMIT 1
+        ) AS class_label
+      FROM users u WHERE u.id = ${job.user_id}
+    `) as Array<{ level: string | null; class_label: string | null }>
+    classLabel = rows[0]?.class_label ?? null
+    userLevel = rows[0]?.level ?? null
+  }
+  return {
+    user_id: job.user_id,
+    lesson_id: job.lesson_id,
+    class_label: classLabel,
+    level: job.cefr_level || userLevel,
+  }
+}
+
+/** Enabled policies that could match this context (global + one per scope at most). */
+export async function loadApplicableRoboticVoicePolicies(
+  sql: NeonQueryFunction<false, false>,
+  ctx: RoboticVoicePolicyContext
+): Promise<RoboticVoicePolicy[]> {
+  const rows = (await sql`
+    SELECT id::text AS id, scope_type, scope_value, mode, enabled
+    FROM robotic_voice_policies
+    WHERE enabled = TRUE
+      AND (
+        scope_type = 'global'
+        OR (scope_type = 'student' AND scope_value = ${ctx.user_id ?? ''})
+        OR (scope_type = 'lesson' AND scope_value = ${ctx.lesson_id ?? ''})
+        OR (scope_type = 'class' AND scope_value = ${ctx.class_label ?? ''})
+        OR (scope_type = 'level' AND scope_value = ${normalizeScopeValue('level', ctx.level)})
+      )
+  `) as Array<{ id: string; scope_type: string; scope_value: string; mode: string; enabled: boolean }>
+  return rows.filter(
+    (r): r is RoboticVoicePolicy => isPolicyScope(r.scope_type) && isEnforcementMode(r.mode)
+  )
+}
+
+export async function recordRoboticVoiceEnforcement(
+  sql: NeonQueryFunction<false, false>,
+  jobId: string,
+  ctx: RoboticVoicePolicyContext,
+  result: RoboticVoiceResult,
+  decision: RoboticVoiceEnforcementDecision
+): Promise<void> {
+  await sql`
+    INSERT INTO robotic_voice_enforcement_decisions (
+      job_id, user_id, lesson_id, class_label, level, policy_id, scope_type, scope_value,
+      mode, action, robotic_voice_score, scorer_version
+    )
+    VALUES (
+      ${jobId}, ${ctx.user_id}, ${ctx.lesson_id}, ${ctx.class_label}, ${ctx.level}, ${decision.policy_id},
+      ${decision.scope_type}, ${decision.scope_value}, ${decision.mode}, ${decision.action},
+      ${result.score}, ${result._scorer_version}
+    )
+  `
+}
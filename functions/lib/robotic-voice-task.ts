@@ -20,6 +20,8 @@ export interface RoboticVoiceTaskContext {
   prompt_text?: string | null
   /** Script the student should read aloud (improvement target text, etc.) */
   reference_text?: string | null
+  /** Read-vs-speak model p(spoken) (lib/read-vs-speak-model), only when the model is ready */
+  learned_spoken_probability?: number | null
 }
 
 export interface ResolvedTaskContext {
@@ -32,8 +34,15 @@ export interface ResolvedTaskContext {
   prompt_overlap: number | null
   /** Fraction of reference tokens found in transcript (0–1) */
   reference_overlap: number | null
+  /** Learned p(spoken), 0–1; null when the model was not consulted */
+  learned_spoken_probability: number | null
 }
 
+/** Learned p(spoken) at or above this counts as live speaking when the task is unknown. */
+export const LEARNED_SPONTANEOUS_MIN_P = 0.85
+/** Learned p(spoken) at or below this counts as reading (or playback) delivery. */
+export const LEARNED_READING_MAX_P = 0.15
+
 const READING_ACTIVITY_TYPES = new Set([
   'speaking_improvement',
   'language_improvement_reading',
@@ -89,6 +98,10 @@ export function resolveTaskContext(
 
   const promptOverlap = promptText ? tokenOverlapRatio(transcript, promptText) : null
   const referenceOverlap = referenceText ? tokenOverlapRatio(transcript, referenceText) : null
+  const learnedP =
+    typeof task.learned_spoken_probability === 'number' && Number.isFinite(task.learned_spoken_probability)
+      ? Math.min(1, Math.max(0, task.learned_spoken_probability))
+      : null
 
   if (promptId === 'improvement' || READING_ACTIVITY_TYPES.has(activityType)) {
     return {
@@ -97,6 +110,7 @@ export function resolveTaskContext(
       task_reason: 'improvement_or_reading_activity',
       prompt_overlap: promptOverlap,
       reference_overlap: referenceOverlap,
+      learned_spoken_probability: learnedP,
     }
   }
 
@@ -107,6 +121,7 @@ export function resolveTaskContext(
       task_reason: 'spontaneous_activity_type',
       prompt_overlap: promptOverlap,
       reference_overlap: referenceOverlap,
+      learned_spoken_probability: learnedP,
     }
   }
 
@@ -117,6 +132,19 @@ export function resolveTaskContext(
       task_reason: 'wheel_topic_prompt',
       prompt_overlap: promptOverlap,
       reference_overlap: referenceOverlap,
+      learned_spoken_probability: learnedP,
+    }
+  }
+
+  // No task signal, but the trained read-vs-speak model is confident this was spoken live.
+  if (learnedP != null && learnedP >= LEARNED_SPONTANEOUS_MIN_P) {
+    return {
+      expectation: 'spontaneous',
+      skip_tts_would_flag: false,
+      task_reason: 'learned_spontaneous_delivery',
+      prompt_overlap: promptOverlap,
+      reference_overlap: referenceOverlap,
+      learned_spoken_probability: learnedP,
     }
   }
 
@@ -127,6 +155,7 @@ export function resolveTaskContext(
     task_reason: 'unknown_task_context',
     prompt_overlap: promptOverlap,
     reference_overlap: referenceOverlap,
+    learned_spoken_probability: learnedP,
   }
 }
 
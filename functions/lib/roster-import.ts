@@ -0,0 +1,233 @@
+/**
+ * Roster import for student accounts (admin-roster-import).
+ *
+ * Accepts the layout exportStudentScoresXlsx writes (ID, Nick, lesson columns) plus optional
+ * Honorific / First name / Last name columns, so a scores export or a roster CSV from
+ * admin-classes can be edited and fed back in. Lesson columns are ignored.
+ *
+ * Students log in with username = school ID; new accounts get a random initial password
+ * that is returned once in the credentials sheet and only stored as a bcrypt hash.
+ */
+
+import { randomInt } from 'crypto'
+
+/** Keeps bcrypt hashing of new accounts inside the function timeout */
+export const ROSTER_IMPORT_MAX_ROWS = 200
+export const DEFAULT_STUDENT_EMAIL_DOMAIN = 'mws.ac.th'
+export const INITIAL_PASSWORD_LENGTH = 8
+
+/** No 0/O, 1/l/I — passwords are read off a printed sheet */
+const PASSWORD_ALPHABET = 'abcdefghjkmnpqrstuvwxyzACDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+const SCHOOL_ID_RE = /^[A-Za-z0-9_-]{1,32}$/
+
+export interface RosterImportRow {
+  /** 1-based spreadsheet row (header is row 1) */
+  row: number
+  school_student_id: string
+  nickname: string | null
+  honorific: string | null
+  first_name: string | null
+  last_name: string | null
+}
+
+export interface RosterRowError {
+  row: number
+  message: string
+}
+
+/** Existing users that share a school ID, username or email with an imported row. */
+export interface ExistingRosterUser {
+  id: string
+  role: string
+  email: string | null
+  username: string | null
+  school_student_id: string | null
+  nickname: string | null
+  honorific: string | null
+  first_name: string | null
+  last_name: string | null
+}
+
+export type RosterPlanAction = 'create' | 'update' | 'unchanged' | 'conflict'
+
+export interface RosterPlanItem {
+  row: number
+  action: RosterPlanAction
+  school_student_id: string
+  email: string
+  nickname: string | null
+  honorific: string | null
+  first_name: string | null
+  last_name: string | null
+  /** Existing users.id for update / unchanged */
+  user_id: string | null
+  /** Changed field names for update */
+  changes: string[]
+  /** Why the row cannot be imported, for conflict */
+  reason: string | null
+}
+
+export interface RosterPlanSummary {
+  create: number
+  update: number
+  unchanged: number
+  conflict: number
+}
+
+const HEADER_ALIASES: Record<keyof Omit<RosterImportRow, 'row'>, string[]> = {
+  school_student_id: ['id', 'student id', 'school id', 'school_student_id'],
+  nickname: ['nick', 'nickname'],
+  honorific: ['honorific', 'title'],
+  first_name: ['first name', 'first_name', 'firstname'],
+  last_name: ['last name', 'last_name', 'lastname', 'surname'],
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+function cellText(value: unknown): string | null {
+  if (value === null || value === undefined) return null
+  const text = String(value).trim()
+  return text ? text : null
+}
+
+/**
+ * Map spreadsheet rows (objects keyed by header, e.g. XLSX sheet_to_json output) onto roster rows.
+ * Rows without an ID are skipped silently; malformed IDs and in-file duplicates become errors.
+ */
+export function normalizeRosterRows(raw: Array<Record<string, unknown>>): {
+  rows: RosterImportRow[]
+  errors: RosterRowError[]
+} {
+  const rows: RosterImportRow[] = []
+  const errors: RosterRowError[] = []
+  const firstRowById = new Map<string, number>()
+
+  raw.forEach((record, index) => {
+    const row = index + 2
+    const byHeader = new Map<string, unknown>()
+    for (const [key, value] of Object.entries(record || {})) byHeader.set(normalizeHeader(key), value)
+    const pick = (field: keyof typeof HEADER_ALIASES) => {
+      for (const alias of HEADER_ALIASES[field]) {
+        if (byHeader.has(alias)) return cellText(byHeader.get(alias))
+      }
+      return null
+    }
+
+    const id = pick('school_student_id')
+    if (!id) return
+    if (!SCHOOL_ID_RE.test(id)) {
+      errors.push({ row, message: `Invalid student ID "${id}"` })
+      return
+    }
+    const firstRow = firstRowById.get(id)
+    if (firstRow !== undefined) {
+      errors.push({ row, message: `Duplicate student ID ${id} (first seen on row ${firstRow})` })
+      return
+    }
+    firstRowById.set(id, row)
+    rows.push({
+      row,
+      school_student_id: id,
+      nickname: pick('nickname'),
+      honorific: pick('honorific'),
+      first_name: pick('first_name'),
+      last_name: pick('last_name'),
+    })
+  })
+
+  if (rows.length > ROSTER_IMPORT_MAX_ROWS) {
+    errors.push({ row: 0, message: `At most ${ROSTER_IMPORT_MAX_ROWS} students per import` })
+  }
+  return { rows, errors }
+}
+
+export function studentEmail(schoolStudentId: string, domain: string = DEFAULT_STUDENT_EMAIL_DOMAIN): string {
+  return `${schoolStudentId}@${domain}`.toLowerCase()
+}
+
+/**
+ * Decide per row whether it creates a student, updates one, or conflicts with a non-student
+ * account that already holds the ID, username or email. Blank cells never clear stored values.
+ */
+export function planRosterImport(
+  rows: RosterImportRow[],
+  existing: ExistingRosterUser[],
+  emailDomain: string = DEFAULT_STUDENT_EMAIL_DOMAIN
+): RosterPlanItem[] {
+  const bySchoolId = new Map<string, ExistingRosterUser>()
+  const byUsername = new Map<string, ExistingRosterUser>()
+  const byEmail = new Map<string, ExistingRosterUser>()
+  for (const u of existing) {
+    if (u.school_student_id) bySchoolId.set(u.school_student_id, u)
+    if (u.username) byUsername.set(u.username.toLowerCase(), u)
+    if (u.email) byEmail.set(u.email.toLowerCase(), u)
+  }
+
+  return rows.map((r) => {
+    const email = studentEmail(r.school_student_id, emailDomain)
+    const base: RosterPlanItem = {
+      row: r.row,
+      action: 'create',
+      school_student_id: r.school_student_id,
+      email,
+      nickname: r.nickname,
+      honorific: r.honorific,
+      first_name: r.first_name,
+      last_name: r.last_name,
+      user_id: null,
+      changes: [],
+      reason: null,
+    }
+    const conflict = (reason: string, userId: string | null = null): RosterPlanItem => ({
+      ...base,
+      action: 'conflict',
+      user_id: userId,
+      reason,
+    })
+
+    const current = bySchoolId.get(r.school_student_id)
+    if (current) {
+      if (current.role !== 'student') {
+        return conflict(`ID ${r.school_student_id} belongs to a ${current.role} account`, current.id)
+      }
+      const changes = (['nickname', 'honorific', 'first_name', 'last_name'] as const).filter(
+        (field) => r[field] !== null && r[field] !== current[field]
+      )
+      return {
+        ...base,
+        action: changes.length ? 'update' : 'unchanged',
+        email: current.email || email,
+        nickname: r.nickname ?? current.nickname,
+        honorific: r.honorific ?? current.honorific,
+        first_name: r.first_name ?? current.first_name,
+        last_name: r.last_name ?? current.last_name,
+        user_id: current.id,
+        changes,
+      }
+    }
+
+    const usernameOwner = byUsername.get(r.school_student_id.toLowerCase())
+    if (usernameOwner) return conflict(`Username ${r.school_student_id} is already taken`, usernameOwner.id)
+    const emailOwner = byEmail.get(email)
+    if (emailOwner) return conflict(`Email ${email} is already registered`, emailOwner.id)
+    return base
+  })
+}
+
+export function summarizeRosterPlan(items: RosterPlanItem[]): RosterPlanSummary {
+  const summary: RosterPlanSummary = { create: 0, update: 0, unchanged: 0, conflict: 0 }
+  for (const item of items) summary[item.action] += 1
+  return summary
+}
+
+export function generateInitialPassword(
+  length: number = INITIAL_PASSWORD_LENGTH,
+  nextInt: (max: number) => number = randomInt
+): string {
+  let password = ''
+  for (let i = 0; i < length; i++) password += PASSWORD_ALPHABET[nextInt(PASSWORD_ALPHABET.length)]
+  return password
+}
@@ -0,0 +1,49 @@
+/**
+ * Load the `{jobId}.features.JSON` sidecar written by speech-job (Whisper verbose + browser
+ * rhythm + task context) as robotic-voice scorer input.
+ *
+ * Reads from Supabase Storage; when Supabase is not configured it falls back to
+ * LOCAL_SPEECH_FEATURES_DIR (offline dev / tests).
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import type { RoboticVoiceFeaturesInput } from '../robotic-voice.js'
+import { loadLocalSpeechFeatures } from './local-speech-features.js'
+
+const SUPABASE_BUCKET = 'tutorcat'
+const FEATURES_PATH_SUFFIX = '.features.JSON'
+
+export function toRoboticVoiceFeaturesInput(raw: Record<string, unknown>): RoboticVoiceFeaturesInput {
+  const parsed = raw as RoboticVoiceFeaturesInput
+  return {
+    whisper_verbose: parsed.whisper_verbose ?? null,
+    browser_rhythm: parsed.browser_rhythm ?? null,
+    activity_type: parsed.activity_type ?? null,
+    reference_text: parsed.reference_text ?? null,
+    prompt_text: parsed.prompt_text ?? null,
+  }
+}
+
+export async function loadSpeechJobFeatures(jobId: string): Promise<RoboticVoiceFeaturesInput | null> {
+  const url = process.env.SUPABASE_URL?.trim()
+  const key = process.env.SUPABASE_SECRET_KEY?.trim()
+  if (!url || !key) {
+    // Offline / test setups: speech-job wrote the sidecar to LOCAL_SPEECH_FEATURES_DIR instead
+    const local = loadLocalSpeechFeatures(jobId)
+    return local ? toRoboticVoiceFeaturesInput(local) : null
+  }
+  try {
+    const supabase = createClient(url, key)
+    const path = `${jobId}${FEATURES_PATH_SUFFIX}`
+    const { data, error } = await supabase.storage.from(SUPABASE_BUCKET).download(path)
+    if (error || !data) {
+      console.warn('speech-job-features: features JSON not found', { jobId, error: error?.message })
+      return null
+    }
+    const text = await (data as Blob).text()
+    return toRoboticVoiceFeaturesInput(JSON.parse(text) as Record<string, unknown>)
+  } catch (e) {
+    console.warn('speech-job-features: failed to load features JSON', { jobId, e })
+    return null
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Teacher review queue for speaking recordings (admin-speech-review-queue).
+ *
+ * A speech job is queued when any of these hold:
+ *  - would_flag               robotic-voice scorer would flag it (whatever the enforcement policy did)
+ *  - consecutive_repetition   failed for padding the answer with repeated words
+ *  - low_score                completed with overall_score <= LOW_SCORE_MAX, or at least
+ *                             OUTLIER_DROP below the student's own average over OUTLIER_MIN_JOBS+ jobs
+ *
+ * A teacher's verdict with a delivery_mode label becomes training data in classifier_store
+ * under the same read_vs_speak:recording:<jobId> key public-track-recording uses.
+ */
+
+import type { SpeechDeliveryMode } from '../robotic-voice.js'
+
+export type SpeechReviewReason = 'would_flag' | 'consecutive_repetition' | 'low_score'
+
+export type SpeechReviewVerdict = 'confirmed' | 'cleared'
+
+export const REVIEW_REASONS: SpeechReviewReason[] = ['would_flag', 'consecutive_repetition', 'low_score']
+
+export const LOW_SCORE_MAX = 20
+export const OUTLIER_DROP = 30
+export const OUTLIER_MIN_JOBS = 3
+
+/** Student-track activity types a review reset may remove results for. */
+export const STUDENT_SPEAKING_ACTIVITY_TYPES = [
+  'student_speaking_cards',
+  'student_challenge_wheel',
+  'student_character_story',
+  'student_speaking_improvement',
+]
+
+/** The one activity a reset removes results for, worked out from the speech job's prompt_id. */
+export type SpeechJobActivity =
+  | { track: 'student'; activityId: string }
+  | { track: 'classic'; activityTypes: string[] }
+
+const STUDENT_PROMPT_RE = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})-(card|wheel)-/i
+
+/**
+ * Student-track recorders use `<activity id>-card-<n>` / `<activity id>-wheel-<topic>`; classic
+ * lessons use fixed ids for the warm-up and improvement steps and the prompt's own id for the
+ * speaking practice prompts. Null when the prompt can't be tied to an activity.
+ */
+export function speechJobActivity(promptId: string | null | undefined): SpeechJobActivity | null {
+  const id = typeof promptId === 'string' ? promptId.trim() : ''
+  if (!id) return null
+  const student = STUDENT_PROMPT_RE.exec(id)
+  if (student) return { track: 'student', activityId: student[1].toLowerCase() }
+  if (id === 'warmup') return { track: 'classic', activityTypes: ['warm_up_speaking'] }
+  if (id === 'improvement') return { track: 'classic', activityTypes: ['speaking_improvement'] }
+  if (id === 'reading-improvement') return { track: 'classic', activityTypes: ['reading_improvement'] }
+  return { track: 'classic', activityTypes: ['speaking_practice', 'speaking_with_feedback'] }
+}
+
+export interface SpeechReviewCandidate {
+  status: string
+  robotic_voice_would_flag: boolean | null
+  result_json: Record<string, unknown> | null
+  /** Student's mean overall_score across completed jobs (null when unknown) */
+  user_avg_score: number | null
+  user_scored_jobs: number | null
+}
+
+export interface SpeechReviewLabel {
+  source: 'teacher_review'
+  verdict: SpeechReviewVerdict
+  delivery_mode: SpeechDeliveryMode
+  /** Target for the read-vs-speak model: 1 = spoken, 0 = reading / TTS */
+  spoken: 0 | 1
+  reasons: SpeechReviewReason[]
+  reviewed_at: string
+}
+
+export function isReviewVerdict(value: unknown): value is SpeechReviewVerdict {
+  return value === 'confirmed' || value === 'cleared'
+}
+
+export function isReviewReason(value: unknown): value is SpeechReviewReason {
+  return typeof value === 'string' && (REVIEW_REASONS as string[]).includes(value)
+}
+
+function overallScore(resultJson: Record<string, unknown> | null): number | null {
+  const score = resultJson?.overall_score
+  return typeof score === 'number' && Number.isFinite(score) ? score : null
+}
+
+/** Why a job belongs in the queue; empty when it does not (mirrors the SQL pre-filter). */
+export function reviewReasonsForJob(job: SpeechReviewCandidate): SpeechReviewReason[] {
+  const reasons: SpeechReviewReason[] = []
+  if (job.robotic_voice_would_flag === true) reasons.push('would_flag')
+  if (job.result_json?.reason === 'consecutive_repetition') reasons.push('consecutive_repetition')
+
+  const score = job.status === 'completed' ? overallScore(job.result_json) : null
+  if (score != null) {
+    const isOutlier =
+      job.user_avg_score != null &&
+      (job.user_scored_jobs ?? 0) >= OUTLIER_MIN_JOBS &&
+      score <= job.user_avg_score - OUTLIER_DROP
+    if (score <= LOW_SCORE_MAX || isOutlier) reasons.push('low_score')
+  }
+  return reasons
+}
+
+/**
+ * Delivery label the UI pre-selects: a confirmed robotic-voice flag is TTS, a cleared one
+ * is normal speaking; repetition / low score say nothing about delivery.
+ */
+export function suggestedDeliveryMode(
+  reasons: SpeechReviewReason[],
+  verdict: SpeechReviewVerdict
+): SpeechDeliveryMode | null {
+  if (!reasons.includes('would_flag')) return null
+  return verdict === 'confirmed' ? 'tts' : 'speaking'
+}
+
+export function buildClassifierLabel(
+  verdict: SpeechReviewVerdict,
+  deliveryMode: SpeechDeliveryMode,
+  reasons: SpeechReviewReason[],
+  reviewedAt: Date = new Date()
+): SpeechReviewLabel {
+  return {
+    source: 'teacher_review',
+    verdict,
+    delivery_mode: deliveryMode,
+    spoken: deliveryMode === 'speaking' ? 1 : 0,
+    reasons,
+    reviewed_at: reviewedAt.toISOString(),
+  }
+}
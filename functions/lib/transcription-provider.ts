@@ -0,0 +1,399 @@
+/**
+ * Speech-to-text providers for the speaking pipeline.
+ *
+ * Every provider returns Whisper verbose_json-shaped output (segments + word timings /
+ * probabilities) so the robotic-voice scorer and read-vs-speak features work the same
+ * regardless of where the transcript came from.
+ *
+ * Selected with TRANSCRIPTION_PROVIDER=openai | assemblyai | local (callers pass their
+ * historical default). The local provider reads fixtures from disk and never touches the
+ * network — see createLocalFixtureProvider.
+ */
+
+import { createHash } from 'crypto'
+import { existsSync, readFileSync, statSync } from 'fs'
+import path from 'path'
+import OpenAI from 'openai'
+import type { WhisperSegment, WhisperVerboseInput } from '../robotic-voice.js'
+
+export type TranscriptionProviderName = 'openai' | 'assemblyai' | 'local'
+
+export interface WhisperWord {
+  word?: string
+  start?: number
+  end?: number
+  probability?: number
+}
+
+/** Minimal Whisper verbose_json kept in the speech-job features sidecar. */
+export interface WhisperVerboseTranscript extends WhisperVerboseInput {
+  words?: WhisperWord[]
+}
+
+export interface TranscriptionRequest {
+  audio: Buffer
+  mimeType: string
+  /** Netlify function context; AssemblyAI uses it to stop polling before the function times out */
+  context?: { getRemainingTimeInMillis?: () => number } | null
+}
+
+export interface TranscriptionResult {
+  provider: TranscriptionProviderName
+  text: string
+  whisper_verbose: WhisperVerboseTranscript
+  /** Provider-side id (AssemblyAI transcript id), when there is one */
+  transcript_id?: string | null
+}
+
+export interface TranscriptionProvider {
+  readonly name: TranscriptionProviderName
+  /** False when the provider's credentials / fixture path are missing */
+  isConfigured(): boolean
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>
+}
+
+/** Gap (seconds) between AssemblyAI words that starts a new pseudo-segment. */
+const ASSEMBLYAI_SEGMENT_GAP_S = 0.8
+const ASSEMBLYAI_MAX_SEGMENT_WORDS = 30
+
+export function audioFileExtension(mimeType: string | null | undefined): string {
+  const normalizedMime = (mimeType || '').toLowerCase().split(';')[0].trim()
+  if (normalizedMime.includes('mp4') || normalizedMime.includes('m4a')) return 'm4a'
+  if (normalizedMime.includes('wav')) return 'wav'
+  if (normalizedMime.includes('mp3') || normalizedMime.includes('mpeg')) return 'mp3'
+  return 'webm'
+}
+
+function pickWords(raw: unknown): WhisperWord[] | undefined {
+  if (!Array.isArray(raw)) return undefined
+  return raw.map((w: any) => ({
+    word: w?.word,
+    start: w?.start,
+    end: w?.end,
+    probability: w?.probability,
+  }))
+}
+
+/**
+ * Trim a Whisper verbose_json response (or a fixture / stored features file) to the fields
+ * used for read-vs-speak and robotic-voice scoring.
+ */
+export function buildMinimalWhisperVerbose(raw: any): WhisperVerboseTranscript | null {
+  if (!raw || typeof raw !== 'object') return null
+  const segments: WhisperSegment[] | undefined = Array.isArray(raw.segments)
+    ? raw.segments.map((s: any) => ({
+        start: s.start,
+        end: s.end,
+        text: s.text,
+        avg_logprob: s.avg_logprob,
+        no_speech_prob: s.no_speech_prob,
+        compression_ratio: s.compression_ratio,
+        words: pickWords(s.words),
+      }))
+    : undefined
+  return {
+    text: raw.text,
+    duration: raw.duration,
+    language: raw.language,
+    segments,
+    words: pickWords(raw.words),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI Whisper
+// ---------------------------------------------------------------------------
+
+export function createOpenAIProvider(apiKey = process.env.OPENAI_API_KEY): TranscriptionProvider {
+  let client: OpenAI | null = null
+  return {
+    name: 'openai',
+    isConfigured: () => Boolean(apiKey?.trim()),
+    async transcribe({ audio, mimeType }) {
+      if (!apiKey?.trim()) throw new Error('OpenAI API key not configured')
+      client = client || new OpenAI({ apiKey })
+      const audioFile = new File([new Uint8Array(audio)], `audio.${audioFileExtension(mimeType)}`, {
+        type: mimeType,
+      })
+      const result = await client.audio.transcriptions.create({
+        file: audioFile,
+        model: 'whisper-1',
+        language: 'en',
+        // verbose_json: segments, timing and confidence signals for read-vs-speak and delivery analysis
+        response_format: 'verbose_json',
+        temperature: 0,
+      })
+      console.log('transcription-provider: [Whisper raw output]', JSON.stringify(result, null, 2))
+      const whisperVerbose = buildMinimalWhisperVerbose(result) || {}
+      return {
+        provider: 'openai',
+        text: (result as { text?: string }).text?.trim() || '',
+        whisper_verbose: whisperVerbose,
+        transcript_id: null,
+      }
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// AssemblyAI
+// ---------------------------------------------------------------------------
+
+interface AssemblyAIWord {
+  text?: string
+  start?: number
+  end?: number
+  confidence?: number
+}
+
+interface AssemblyAITranscript {
+  id?: string
+  text?: string | null
+  audio_duration?: number | null
+  language_code?: string | null
+  words?: AssemblyAIWord[] | null
+}
+
+function assemblyContentType(mimeType: string): string {
+  const normalizedMime = (mimeType || '').toLowerCase().split(';')[0].trim()
+  if (normalizedMime.includes('webm')) return 'audio/webm'
+  if (normalizedMime === 'audio/wav' || normalizedMime === 'audio/wave' || normalizedMime === 'audio/x-wav') {
+    return 'audio/wav'
+  }
+  if (normalizedMime === 'audio/mp3' || normalizedMime === 'audio/mpeg') return 'audio/mpeg'
+  return 'application/octet-stream'
+}
+
+/**
+ * Map a completed AssemblyAI transcript to Whisper verbose shape.
+ * Words (ms, confidence) become Whisper words (s, probability); segments are split on
+ * pauses / sentence ends, with avg_logprob = mean ln(confidence). AssemblyAI has no
+ * no_speech_prob or compression_ratio, so those stay undefined.
+ */
+export function assemblyAIToWhisperVerbose(transcript: AssemblyAITranscript): WhisperVerboseTranscript {
+  const words: WhisperWord[] = (transcript.words || [])
+    .filter((w) => typeof w?.text === 'string' && w.text.trim())
+    .map((w) => ({
+      word: ` ${w.text!.trim()}`,
+      start: typeof w.start === 'number' ? w.start / 1000 : undefined,
+      end: typeof w.end === 'number' ? w.end / 1000 : undefined,
+      probability: typeof w.confidence === 'number' ? w.confidence : undefined,
+    }))
+
+  const segments: WhisperSegment[] = []
+  let current: WhisperWord[] = []
+  const flush = () => {
+    if (current.length === 0) return
+    const logprobs = current
+      .map((w) => w.probability)
+      .filter((p): p is number => typeof p === 'number' && p > 0)
+      .map((p) => Math.log(p))
+    segments.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      text: current.map((w) => w.word).join(''),
+      avg_logprob: logprobs.length > 0 ? logprobs.reduce((a, b) => a + b, 0) / logprobs.length : undefined,
+      words: current,
+    })
+    current = []
+  }
+
+  for (const w of words) {
+    const prev = current[current.length - 1]
+    if (
+      prev &&
+      typeof prev.end === 'number' &&
+      typeof w.start === 'number' &&
+      w.start - prev.end >= ASSEMBLYAI_SEGMENT_GAP_S
+    ) {
+      flush()
+    }
+    current.push(w)
+    if (/[.!?]$/.test(w.word || '') || current.length >= ASSEMBLYAI_MAX_SEGMENT_WORDS) flush()
+  }
+  flush()
+
+  const lastEnd = words.length > 0 ? words[words.length - 1].end : undefined
+  return {
+    text: transcript.text || '',
+    duration: typeof transcript.audio_duration === 'number' ? transcript.audio_duration : lastEnd,
+    language: transcript.language_code || 'en',
+    segments,
+    words,
+  }
+}
+
+export function createAssemblyAIProvider(
+  apiKey = process.env.ASSEMBLYAI_API_KEY,
+  baseUrl = process.env.ASSEMBLYAI_BASE_URL || 'https://api.assemblyai.com'
+): TranscriptionProvider {
+  return {
+    name: 'assemblyai',
+    isConfigured: () => Boolean(apiKey?.trim()),
+    async transcribe({ audio, mimeType, context }) {
+      if (!apiKey?.trim()) throw new Error('AssemblyAI API key not configured')
+
+      const contentType = assemblyContentType(mimeType)
+      const bufferSizeMB = (audio.length / (1024 * 1024)).toFixed(2)
+      console.log(`Uploading audio to AssemblyAI: ${bufferSizeMB}MB (${audio.length} bytes), mime type: ${mimeType || 'auto-detect'}`)
+
+      const uploadResponse = await fetch(`${baseUrl}/v2/upload`, {
+        method: 'POST',
+        headers: { Authorization: apiKey, 'Content-Type': contentType },
+        body: new Uint8Array(audio),
+      })
+      if (!uploadResponse.ok) {
+        throw new Error(`Upload failed: ${uploadResponse.status}`)
+      }
+      const { upload_url: audioUrl } = (await uploadResponse.json()) as { upload_url: string }
+      console.log('Audio uploaded to AssemblyAI:', audioUrl)
+
+      const transcriptionResponse = await fetch(`${baseUrl}/v2/transcript`, {
+        method: 'POST',
+        headers: { Authorization: apiKey, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          audio_url: audioUrl,
+          // language_detection stays off: WebM files with incomplete metadata cause "no spoken audio" errors
+          language_detection: false,
+          language_code: 'en',
+          punctuate: true,
+          format_text: true,
+        }),
+      })
+      if (!transcriptionResponse.ok) {
+        throw new Error(`Transcription request failed: ${transcriptionResponse.status}`)
+      }
+      const { id: transcriptId } = (await transcriptionResponse.json()) as { id: string }
+      console.log('Transcription started, ID:', transcriptId)
+
+      // Adaptive polling: patient while queued, frequent once processing
+      const minRemainingTime = 2000
+      const queuedPollInterval = 4000
+      const processingPollInterval = 1000
+      let maxAttempts = 20
+      if (context?.getRemainingTimeInMillis) {
+        const initialTime = context.getRemainingTimeInMillis()
+        const avgInterval = (queuedPollInterval + processingPollInterval) / 2
+        maxAttempts = Math.floor((initialTime - minRemainingTime) / avgInterval)
+        maxAttempts = Math.max(10, Math.min(maxAttempts, 30))
+      }
+
+      for (let attempts = 0; attempts < maxAttempts; attempts++) {
+        const remainingTime = context?.getRemainingTimeInMillis ? context.getRemainingTimeInMillis() : null
+        if (remainingTime != null && remainingTime < minRemainingTime) {
+          throw new Error(`Transcription timeout: Insufficient time remaining (${remainingTime}ms)`)
+        }
+
+        const statusResponse = await fetch(`${baseUrl}/v2/transcript/${transcriptId}`, {
+          headers: { Authorization: apiKey },
+        })
+        if (!statusResponse.ok) {
+          throw new Error(`Status check failed: ${statusResponse.status}`)
+        }
+        const statusResult = (await statusResponse.json()) as AssemblyAITranscript & {
+          status?: string
+          error?: string
+        }
+        const status = statusResult.status
+        console.log(`Transcription status: ${status} (attempt ${attempts + 1})${remainingTime ? `, remaining: ${remainingTime}ms` : ''}`)
+
+        if (status === 'completed') {
+          return {
+            provider: 'assemblyai',
+            text: (statusResult.text || '').trim(),
+            whisper_verbose: assemblyAIToWhisperVerbose(statusResult),
+            transcript_id: transcriptId,
+          }
+        }
+        if (status === 'error') {
+          throw new Error(`Transcription failed: ${statusResult.error || 'Unknown error'}`)
+        }
+
+        const pollInterval = status === 'processing' ? processingPollInterval : queuedPollInterval
+        await new Promise((resolve) => setTimeout(resolve, pollInterval))
+      }
+
+      throw new Error('Transcription timeout')
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Local fixtures (tests / offline dev)
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads transcripts from TRANSCRIPTION_FIXTURES (a JSON file, or a directory).
+ * In a directory the fixture is `<sha256 of audio>.json`, falling back to `default.json`,
+ * so a dev box can map specific recordings to specific transcripts.
+ *
+ * A fixture may be a raw Whisper verbose_json response or a speech-job features sidecar
+ * (`{ whisper_verbose: ... }`), so production `{jobId}.features.JSON` files can be replayed as-is.
+ */
+export function createLocalFixtureProvider(
+  fixturePath = process.env.TRANSCRIPTION_FIXTURES
+): TranscriptionProvider {
+  const resolveFixtureFile = (audio: Buffer): string => {
+    if (!fixturePath?.trim()) throw new Error('TRANSCRIPTION_FIXTURES not configured')
+    const root = path.resolve(fixturePath.trim())
+    if (!existsSync(root)) throw new Error(`Transcription fixture not found: ${root}`)
+    if (!statSync(root).isDirectory()) return root
+
+    const audioHash = createHash('sha256').update(audio).digest('hex')
+    for (const name of [`${audioHash}.json`, 'default.json']) {
+      const candidate = path.join(root, name)
+      if (existsSync(candidate)) return candidate
+    }
+    throw new Error(`No transcription fixture for audio ${audioHash} in ${root}`)
+  }
+
+  return {
+    name: 'local',
+    isConfigured: () => Boolean(fixturePath?.trim()),
+    async transcribe({ audio }) {
+      const file = resolveFixtureFile(audio)
+      const parsed = JSON.parse(readFileSync(file, 'utf-8')) as Record<string, unknown>
+      const raw = parsed.whisper_verbose && typeof parsed.whisper_verbose === 'object' ? parsed.whisper_verbose : parsed
+      const whisperVerbose = buildMinimalWhisperVerbose(raw) || {}
+      console.log('transcription-provider: [local fixture]', file)
+      return {
+        provider: 'local',
+        text: (typeof whisperVerbose.text === 'string' ? whisperVerbose.text : '').trim(),
+        whisper_verbose: whisperVerbose,
+        transcript_id: null,
+      }
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+function parseProviderName(raw: string | undefined): TranscriptionProviderName | null {
+  const name = raw?.trim().toLowerCase()
+  return name === 'openai' || name === 'assemblyai' || name === 'local' ? name : null
+}
+
+/**
+ * Provider chosen by TRANSCRIPTION_PROVIDER, or `fallback` when unset / unknown.
+ * Each call site passes the provider it has always used, so production is unchanged
+ * until the env var is set.
+ */
+export function getTranscriptionProvider(
+  fallback: TranscriptionProviderName = 'openai'
+): TranscriptionProvider {
+  const raw = process.env.TRANSCRIPTION_PROVIDER
+  const name = parseProviderName(raw) ?? fallback
+  if (raw?.trim() && !parseProviderName(raw)) {
+    console.warn(`transcription-provider: unknown TRANSCRIPTION_PROVIDER "${raw}", using ${fallback}`)
+  }
+  switch (name) {
+    case 'assemblyai':
+      return createAssemblyAIProvider()
+    case 'local':
+      return createLocalFixtureProvider()
+    default:
+      return createOpenAIProvider()
+  }
+}
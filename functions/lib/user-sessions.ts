@@ -0,0 +1,240 @@
+/**
+ * Login sessions (user_sessions) with device metadata, per-role session caps and revocation.
+ *
+ * auth-login / auth-verify-otp create a session per sign-in and put its id in the access token
+ * as `sid`; validateJWT, requireStudentAuth and auth-me call checkUserSession so a session that
+ * was signed out (from "My devices", or by the cap when the account signed in elsewhere) stops
+ * working on that device with an explanation. Access tokens issued before sessions carried an
+ * id have no `sid` and are only checked against users.session_revoked_at as before.
+ */
+
+import type { NeonQueryFunction } from '@neondatabase/serverless'
+
+type Sql = NeonQueryFunction<false, false>
+
+type Headers = Record<string, string | undefined> | undefined
+
+/** Active sessions kept per user when session_caps has no row for the role */
+export const DEFAULT_SESSION_CAP = 3
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+/** last_seen_at is written at most this often per session */
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000
+
+export type SessionRevokedReason = 'session_cap' | 'signed_out' | 'signed_out_everywhere' | 'logout'
+
+export const SESSION_SIGNED_OUT_CODE = 'session_signed_out'
+
+export interface UserSessionSummary {
+  id: string
+  device: string
+  ip_region: string | null
+  created_at: string
+  last_seen_at: string | null
+  current: boolean
+}
+
+/** Netlify passes header names lower-cased */
+function header(headers: Headers, name: string): string | undefined {
+  return headers?.[name]
+}
+
+/** "Chrome on Windows", "Safari on iPhone"; "Unknown device" when the header says nothing useful */
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  const ua = userAgent || ''
+  const browser = /Edg(e|A|iOS)?\//.test(ua)
+    ? 'Edge'
+    : /OPR\/|Opera/.test(ua)
+      ? 'Opera'
+      : /SamsungBrowser\//.test(ua)
+        ? 'Samsung Internet'
+        : /CriOS\/|Chrome\//.test(ua)
+          ? 'Chrome'
+          : /FxiOS\/|Firefox\//.test(ua)
+            ? 'Firefox'
+            : /Safari\//.test(ua)
+              ? 'Safari'
+              : null
+  const os = /iPad/.test(ua)
+    ? 'iPad'
+    : /iPhone|iPod/.test(ua)
+      ? 'iPhone'
+      : /Android/.test(ua)
+        ? 'Android'
+        : /CrOS/.test(ua)
+          ? 'Chromebook'
+          : /Windows/.test(ua)
+            ? 'Windows'
+            : /Mac OS X|Macintosh/.test(ua)
+              ? 'Mac'
+              : /Linux/.test(ua)
+                ? 'Linux'
+                : null
+  if (browser && os) return `${browser} on ${os}`
+  return browser || os || 'Unknown device'
+}
+
+/**
+ * "Bangkok, Bangkok, TH" from Netlify's x-nf-geo header (base64 or plain JSON with city,
+ * subdivision and country), falling back to x-country. Null when neither is present.
+ */
+export function regionFromHeaders(headers: Headers): string | null {
+  const geoHeader = header(headers, 'x-nf-geo')
+  if (geoHeader) {
+    for (const raw of [geoHeader, Buffer.from(geoHeader, 'base64').toString('utf8')]) {
+      try {
+        const geo = JSON.parse(raw) as {
+          city?: string
+          subdivision?: { name?: string }
+          country?: { code?: string; name?: string }
+        }
+        const parts = [geo.city, geo.subdivision?.name, geo.country?.code || geo.country?.name]
+          .filter((part): part is string => typeof part === 'string' && part.trim() !== '')
+          .filter((part, i, all) => all.indexOf(part) === i)
+        if (parts.length) return parts.join(', ')
+      } catch {
+        // not this encoding
+      }
+    }
+  }
+  const country = header(headers, 'x-country')
+  return country && country.trim() ? country.trim() : null
+}
+
+export function clientIpFromHeaders(headers: Headers): string | null {
+  const forwarded = header(headers, 'x-nf-client-connection-ip') || header(headers, 'x-forwarded-for')
+  const ip = forwarded?.split(',')[0].trim() || header(headers, 'x-real-ip')
+  return ip || null
+}
+
+/** Shown on the device that was signed out, in place of a bare "Invalid or expired token" */
+export function signedOutMessage(reason: string | null): string {
+  if (reason === 'session_cap') {
+    return 'You were signed out on this device because your account signed in on another device. Please log in again.'
+  }
+  if (reason === 'signed_out' || reason === 'signed_out_everywhere') {
+    return 'This device was signed out from your account’s device list. Please log in again.'
+  }
+  return 'Your session has ended. Please log in again.'
+}
+
+export async function sessionCapForRole(sql: Sql, role: string): Promise<number> {
+  const rows = await sql`SELECT max_sessions FROM session_caps WHERE role = ${role}`
+  const cap = Number(rows[0]?.max_sessions)
+  return Number.isInteger(cap) && cap > 0 ? cap : DEFAULT_SESSION_CAP
+}
+
+/**
+ * Stores a new session and signs out the oldest active ones over the role's cap.
+ * Returns the new session id (the access token's sid) and how many devices were signed out.
+ */
+export async function createUserSession(
+  sql: Sql,
+  params: { userId: string; role: string; sessionToken: string; headers: Headers }
+): Promise<{ sessionId: string; signedOutDevices: number }> {
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString()
+  const rows = await sql`
+    INSERT INTO user_sessions (
+      user_id, session_token, expires_at, user_agent, ip_address, ip_region, last_seen_at
+    ) VALUES (
+      ${params.userId}, ${params.sessionToken}, ${expiresAt},
+      ${header(params.headers, 'user-agent')?.slice(0, 512) ?? null},
+      ${clientIpFromHeaders(params.headers)}, ${regionFromHeaders(params.headers)}, NOW()
+    )
+    RETURNING id
+  `
+  const sessionId = String(rows[0].id)
+
+  let signedOutDevices = 0
+  try {
+    const cap = await sessionCapForRole(sql, params.role)
+    const revoked = await sql`
+      WITH ranked_sessions AS (
+        SELECT
+          id,
+          ROW_NUMBER() OVER (ORDER BY created_at DESC, id DESC) AS session_rank
+        FROM user_sessions
+        WHERE user_id = ${params.userId} AND expires_at >= NOW()
+      )
+      UPDATE user_sessions
+      SET expires_at = NOW(), revoked_reason = 'session_cap'
+      WHERE id IN (SELECT id FROM ranked_sessions WHERE session_rank > ${cap})
+      RETURNING id
+    `
+    signedOutDevices = revoked.length
+  } catch (error) {
+    // Login still succeeds; cleanup-sessions applies the cap later
+    console.error('[Sessions] Session cap error:', error)
+  }
+
+  return { sessionId, signedOutDevices }
+}
+
+/** Whether the access token's session is still active; touches last_seen_at when it is. */
+export async function checkUserSession(
+  sql: Sql,
+  sessionId: string
+): Promise<{ ok: true } | { ok: false; error: string; reason: string | null }> {
+  const rows = await sql`
+    SELECT expires_at, revoked_reason, last_seen_at
+    FROM user_sessions
+    WHERE id = ${sessionId}
+  `
+  const row = rows[0] as { expires_at: string; revoked_reason: string | null; last_seen_at: string | null } | undefined
+  if (!row || new Date(row.expires_at).getTime() <= Date.now()) {
+    const reason = row?.revoked_reason ?? null
+    return { ok: false, error: signedOutMessage(reason), reason }
+  }
+
+  if (!row.last_seen_at || Date.now() - new Date(row.last_seen_at).getTime() > LAST_SEEN_INTERVAL_MS) {
+    try {
+      await sql`UPDATE user_sessions SET last_seen_at = NOW() WHERE id = ${sessionId}`
+    } catch (error) {
+      console.error('[Sessions] last_seen_at update failed:', error)
+    }
+  }
+  return { ok: true }
+}
+
+export async function listUserSessions(
+  sql: Sql,
+  userId: string,
+  currentSessionId: string | null
+): Promise<UserSessionSummary[]> {
+  const rows = await sql`
+    SELECT id, user_agent, ip_region, created_at, last_seen_at
+    FROM user_sessions
+    WHERE user_id = ${userId} AND expires_at > NOW()
+    ORDER BY COALESCE(last_seen_at, created_at) DESC
+  `
+  return rows.map((row) => ({
+    id: String(row.id),
+    device: describeUserAgent(row.user_agent as string | null),
+    ip_region: (row.ip_region as string | null) ?? null,
+    created_at: row.created_at as string,
+    last_seen_at: (row.last_seen_at as string | null) ?? null,
+    current: currentSessionId !== null && String(row.id) === currentSessionId,
+  }))
+}
+
+/** Expires the user's active sessions (one, or all when sessionId is null); returns how many */
+export async function revokeUserSessions(
+  sql: Sql,
+  userId: string,
+  sessionId: string | null,
+  reason: SessionRevokedReason
+): Promise<number> {
+  const rows = sessionId
+    ? await sql`
+        UPDATE user_sessions
+        SET expires_at = NOW(), revoked_reason = ${reason}
+        WHERE user_id = ${userId} AND id = ${sessionId} AND expires_at > NOW()
+        RETURNING id
+      `
+    : await sql`
+        UPDATE user_sessions
+        SET expires_at = NOW(), revoked_reason = ${reason}
+        WHERE user_id = ${userId} AND expires_at > NOW()
+        RETURNING id
+      `
+  return rows.length
+}
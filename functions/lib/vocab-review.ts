@@ -0,0 +1,212 @@
+/**
+ * Per-student vocabulary review deck (student_vocab_cards) with SM-2 scheduling.
+ *
+ * The deck is synced from the vocabulary items of every activity the student has a result for
+ * (student track and legacy lessons) and from words in vocab game content as results come in
+ * (submit-student-lesson-activity). Each graded encounter — an in-lesson vocab game or the daily
+ * review session — reschedules the card with an SM-2 quality from src/lib/vocabReview.ts.
+ */
+
+import type { NeonQueryFunction } from '@neondatabase/serverless'
+import {
+  activityReviewQualities,
+  normalizeWordKey,
+  practicedWords,
+  type ReviewQuality,
+  type ReviewWord,
+} from '../../src/lib/vocabReview.js'
+
+type Sql = NeonQueryFunction<false, false>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MIN_EASE_FACTOR = 1.3
+
+export interface CardSchedule {
+  ease_factor: number
+  interval_days: number
+  repetitions: number
+  lapses: number
+  due_at: string
+}
+
+/**
+ * SM-2: a failed recall (quality < 3) restarts the card at one day and counts a lapse; a
+ * successful one steps the interval 1 → 6 → interval × ease. Ease moves with every quality and
+ * never drops below 1.3. Correct answers on a card that is not due yet (a word met again in
+ * another lesson) leave the schedule alone so a long interval isn't cut short.
+ */
+export function scheduleCard(card: CardSchedule, quality: ReviewQuality, now: Date): CardSchedule {
+  if (quality >= 3 && new Date(card.due_at).getTime() > now.getTime()) return card
+
+  const ease = Math.max(
+    MIN_EASE_FACTOR,
+    Math.round((card.ease_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))) * 100) / 100
+  )
+
+  let repetitions: number
+  let interval: number
+  let lapses = card.lapses
+  if (quality < 3) {
+    repetitions = 0
+    interval = 1
+    lapses += 1
+  } else {
+    repetitions = card.repetitions + 1
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval_days * ease)
+  }
+
+  return {
+    ease_factor: ease,
+    interval_days: interval,
+    repetitions,
+    lapses,
+    due_at: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+  }
+}
+
+/**
+ * Adds cards for every vocabulary item of an activity the student has a result for. Existing
+ * cards keep their schedule.
+ */
+export async function syncReviewDeck(sql: Sql, userId: string): Promise<void> {
+  await sql`
+    INSERT INTO student_vocab_cards (
+      user_id, word_key, english_word, thai_translation, image_url, emoji, audio_url, source
+    )
+    SELECT DISTINCT ON (word_key)
+      ${userId}::uuid, word_key, english_word, thai_translation, image_url, emoji, audio_url, 'student'
+    FROM (
+      SELECT
+        lower(regexp_replace(btrim(vi.english_word), '\\s+', ' ', 'g')) AS word_key,
+        btrim(vi.english_word) AS english_word,
+        vi.thai_translation, vi.image_url, vi.emoji, vi.audio_url
+      FROM student_vocabulary_items vi
+      JOIN student_lesson_activity_results r ON r.activity_id = vi.activity_id
+      WHERE r.user_id = ${userId}::uuid AND btrim(vi.english_word) <> ''
+    ) words
+    ORDER BY word_key, (image_url IS NULL), (thai_translation IS NULL)
+    ON CONFLICT (user_id, word_key) DO NOTHING
+  `
+
+  await sql`
+    INSERT INTO student_vocab_cards (
+      user_id, word_key, english_word, thai_translation, audio_url, source
+    )
+    SELECT DISTINCT ON (word_key)
+      ${userId}::uuid, word_key, english_word, thai_translation, audio_url, 'legacy'
+    FROM (
+      SELECT
+        lower(regexp_replace(btrim(vi.english_word), '\\s+', ' ', 'g')) AS word_key,
+        btrim(vi.english_word) AS english_word,
+        vi.thai_translation, vi.audio_url
+      FROM vocabulary_items vi
+      JOIN lesson_activity_results r ON r.activity_id = vi.activity_id
+      WHERE r.user_id = ${userId}::uuid AND btrim(vi.english_word) <> ''
+    ) words
+    ORDER BY word_key, (thai_translation IS NULL)
+    ON CONFLICT (user_id, word_key) DO NOTHING
+  `
+}
+
+/** Adds cards for words that are not in the deck yet (e.g. speed-tap targets). */
+export async function addReviewWords(sql: Sql, userId: string, words: ReviewWord[]): Promise<void> {
+  for (const word of words) {
+    const key = normalizeWordKey(word.english_word)
+    if (!key) continue
+    await sql`
+      INSERT INTO student_vocab_cards (
+        user_id, word_key, english_word, thai_translation, image_url, emoji, audio_url, source
+      ) VALUES (
+        ${userId}, ${key}, ${word.english_word.trim()}, ${word.thai_translation ?? null},
+        ${word.image_url ?? null}, ${word.emoji ?? null}, ${word.audio_url ?? null}, 'student'
+      )
+      ON CONFLICT (user_id, word_key) DO NOTHING
+    `
+  }
+}
+
+/**
+ * Reschedules the student's cards by word key. Returns how many cards were found; keys without
+ * a card are skipped, as are early correct reviews (see scheduleCard).
+ */
+export async function applyReviewQualities(
+  sql: Sql,
+  userId: string,
+  qualities: Map<string, ReviewQuality>,
+  now: Date = new Date()
+): Promise<number> {
+  const keys = [...qualities.keys()]
+  if (!keys.length) return 0
+
+  const rows = await sql`
+    SELECT id, word_key, ease_factor, interval_days, repetitions, lapses, due_at
+    FROM student_vocab_cards
+    WHERE user_id = ${userId} AND word_key = ANY(${keys})
+  `
+
+  for (const row of rows) {
+    const card: CardSchedule = {
+      ease_factor: Number(row.ease_factor),
+      interval_days: Number(row.interval_days),
+      repetitions: Number(row.repetitions),
+      lapses: Number(row.lapses),
+      due_at: new Date(row.due_at as string).toISOString(),
+    }
+    const next = scheduleCard(card, qualities.get(row.word_key as string)!, now)
+    if (next === card) continue
+    await sql`
+      UPDATE student_vocab_cards
+      SET
+        ease_factor = ${next.ease_factor},
+        interval_days = ${next.interval_days},
+        repetitions = ${next.repetitions},
+        lapses = ${next.lapses},
+        due_at = ${next.due_at}::timestamptz,
+        last_reviewed_at = ${now.toISOString()}::timestamptz
+      WHERE id = ${row.id}
+    `
+  }
+  return rows.length
+}
+
+/**
+ * Adds the words of a completed student-track vocab game to the deck and grades them from the
+ * result (missed_words in the answers, else the attempt count).
+ */
+export async function recordActivityReview(
+  sql: Sql,
+  userId: string,
+  activityId: string,
+  answers: unknown,
+  attempts: number
+): Promise<void> {
+  const rows = await sql`
+    SELECT
+      sla.activity_type,
+      sla.content,
+      COALESCE(
+        (SELECT json_agg(vi ORDER BY vi.sort_order) FROM student_vocabulary_items vi WHERE vi.activity_id = sla.id),
+        '[]'::json
+      ) AS vocabulary_items
+    FROM student_lesson_activities sla
+    WHERE sla.id = ${activityId}
+  `
+  const activity = rows[0] as
+    | { activity_type: string; content: unknown; vocabulary_items: ReviewWord[] }
+    | undefined
+  if (!activity) return
+
+  await addReviewWords(sql, userId, practicedWords(activity))
+  await applyReviewQualities(sql, userId, activityReviewQualities(activity, answers, attempts))
+}
+
+export async function reviewSummary(sql: Sql, userId: string): Promise<{ due: number; total: number }> {
+  const rows = await sql`
+    SELECT
+      COUNT(*) FILTER (WHERE due_at <= NOW())::int AS due,
+      COUNT(*)::int AS total
+    FROM student_vocab_cards
+    WHERE user_id = ${userId}
+  `
+  return { due: Number(rows[0]?.due ?? 0), total: Number(rows[0]?.total ?? 0) }
+}
@@ -0,0 +1,184 @@
+/**
+ * Server-side grader for placement writing answers (submit-evaluation).
+ *
+ * The model scores four rubric criteria 0–10 and estimates a CEFR band; the percentage is
+ * derived here, not taken from the model, and capped for off-topic or too-short answers so
+ * pasting unrelated words no longer earns full marks. Prompt wording follows ai-feedback.ts
+ * (level-aware word targets, short JSON, "only real errors" corrections).
+ */
+
+import OpenAI from 'openai'
+
+export const WRITING_RUBRIC_CRITERIA = ['task_achievement', 'grammar', 'vocabulary_range', 'coherence'] as const
+export type WritingCriterion = (typeof WRITING_RUBRIC_CRITERIA)[number]
+export type WritingRubric = Record<WritingCriterion, number>
+
+export const WRITING_CEFR_LEVELS = ['Pre-A1', 'A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const
+export type WritingCefrLevel = (typeof WRITING_CEFR_LEVELS)[number]
+
+export const WRITING_GRADER_MODEL = 'gpt-5-mini'
+export const DEFAULT_WRITING_MIN_WORDS = 50
+/** Longest answer sent to the model; placement prompts ask for 50–60 words */
+export const WRITING_MAX_CHARS = 4000
+const OFF_TOPIC_MAX_PERCENT = 10
+
+export interface WritingGradeInput {
+  prompt: string
+  text: string
+  min_words?: number | null
+  /** Level the prompt targets, when known */
+  cefr_level?: string | null
+}
+
+export interface WritingGrade {
+  rubric: WritingRubric
+  estimated_cefr: WritingCefrLevel
+  /** 0–100, from the rubric after caps */
+  percentage: number
+  word_count: number
+  min_words: number
+  off_topic: boolean
+  feedback: string
+  corrections: Array<{ mistake: string; correction: string }>
+  model: string
+}
+
+export function countWords(text: string): number {
+  if (!text || !text.trim()) return 0
+  return text.trim().split(/\s+/).filter((word) => word.length > 0).length
+}
+
+function clampScore(value: unknown): number {
+  const n = typeof value === 'number' ? value : Number(value)
+  if (!Number.isFinite(n)) return 0
+  return Math.max(0, Math.min(10, Math.round(n * 2) / 2))
+}
+
+function isCefrLevel(value: unknown): value is WritingCefrLevel {
+  return typeof value === 'string' && (WRITING_CEFR_LEVELS as readonly string[]).includes(value)
+}
+
+export function buildWritingGraderMessages(input: WritingGradeInput): Array<{ role: 'system' | 'user'; content: string }> {
+  const minWords = input.min_words ?? DEFAULT_WRITING_MIN_WORDS
+  const system = `Grade a short written answer from an English placement test. Return concise JSON only:
+{
+  "task_achievement": number (0-10, does it answer THIS prompt fully and relevantly),
+  "grammar": number (0-10, accuracy and range of structures),
+  "vocabulary_range": number (0-10, range and precision of words for the topic),
+  "coherence": number (0-10, organisation, linking, readable sentences),
+  "estimated_cefr": "Pre-A1" | "A1" | "A2" | "B1" | "B2" | "C1" | "C2",
+  "off_topic": boolean (true if the text does not address the prompt, is a random word list, or copies the prompt),
+  "feedback": "1-2 sentence summary for the student",
+  "corrections": [{"mistake": "text", "correction": "text"}]
+}
+Use standard CEFR writing descriptors. A list of unrelated words, repeated phrases or copied prompt text is off_topic with task_achievement 0-1 and coherence 0-2, whatever its length.
+Short simple sentences are normal for A1/A2; do not punish them in coherence if they answer the prompt.
+The expected length is at least ${minWords} words${input.cefr_level ? ` at about ${input.cefr_level} level` : ''}; answers well below it cannot score above 5 for task_achievement.
+corrections lists only ACTUAL errors (not stylistic alternatives), at most 3.`
+  const text = input.text.slice(0, WRITING_MAX_CHARS)
+  const user = `Prompt: "${input.prompt}"\n\nStudent's written answer (${countWords(text)} words): "${text}"`
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: user },
+  ]
+}
+
+/** Rubric average as a percentage, capped for off-topic and short answers. */
+export function writingPercentage(
+  rubric: WritingRubric,
+  opts: { off_topic: boolean; word_count: number; min_words: number }
+): number {
+  const mean = WRITING_RUBRIC_CRITERIA.reduce((sum, c) => sum + rubric[c], 0) / WRITING_RUBRIC_CRITERIA.length
+  let pct = mean * 10
+  if (opts.off_topic) pct = Math.min(pct, OFF_TOPIC_MAX_PERCENT)
+  if (opts.min_words > 0 && opts.word_count < opts.min_words) {
+    pct *= Math.max(0, opts.word_count / opts.min_words)
+  }
+  return Math.round(pct)
+}
+
+/**
+ * Validate the model's JSON. Returns null when required fields are missing so the caller can
+ * fall back instead of trusting partial output.
+ */
+export function parseWritingGrade(raw: string, input: WritingGradeInput, model = WRITING_GRADER_MODEL): WritingGrade | null {
+  let data: any
+  try {
+    data = JSON.parse(raw)
+  } catch {
+    return null
+  }
+  if (!data || typeof data !== 'object') return null
+  if (!WRITING_RUBRIC_CRITERIA.every((c) => data[c] !== undefined && Number.isFinite(Number(data[c])))) return null
+
+  const wordCount = countWords(input.text)
+  const minWords = input.min_words ?? DEFAULT_WRITING_MIN_WORDS
+  const offTopic = data.off_topic === true || wordCount === 0
+  const rubric = Object.fromEntries(WRITING_RUBRIC_CRITERIA.map((c) => [c, clampScore(data[c])])) as WritingRubric
+
+  return {
+    rubric,
+    estimated_cefr: isCefrLevel(data.estimated_cefr) ? data.estimated_cefr : offTopic ? 'Pre-A1' : 'A1',
+    percentage: writingPercentage(rubric, { off_topic: offTopic, word_count: wordCount, min_words: minWords }),
+    word_count: wordCount,
+    min_words: minWords,
+    off_topic: offTopic,
+    feedback: typeof data.feedback === 'string' ? data.feedback.slice(0, 500) : '',
+    corrections: Array.isArray(data.corrections)
+      ? data.corrections
+          .filter((c: any) => c && typeof c.mistake === 'string' && typeof c.correction === 'string')
+          .slice(0, 3)
+          .map((c: any) => ({ mistake: c.mistake, correction: c.correction }))
+      : [],
+    model,
+  }
+}
+
+export type WritingCompletion = (
+  messages: Array<{ role: 'system' | 'user'; content: string }>
+) => Promise<string | null>
+
+export function createOpenAIWritingCompletion(apiKey = process.env.OPENAI_API_KEY): WritingCompletion {
+  let client: OpenAI | null = null
+  return async (messages) => {
+    if (!apiKey?.trim()) throw new Error('OpenAI API key not configured')
+    client = client || new OpenAI({ apiKey })
+    const response = await client.chat.completions.create({
+      model: WRITING_GRADER_MODEL,
+      max_completion_tokens: 1500,
+      response_format: { type: 'json_object' },
+      messages,
+    })
+    const content = response?.choices?.[0]?.message?.content
+    return typeof content === 'string' ? content : null
+  }
+}
+
+/** Empty answers are graded locally; everything else goes to the model. Null when the model fails. */
+export async function gradeWriting(
+  input: WritingGradeInput,
+  complete: WritingCompletion = createOpenAIWritingCompletion()
+): Promise<WritingGrade | null> {
+  const minWords = input.min_words ?? DEFAULT_WRITING_MIN_WORDS
+  if (countWords(input.text) === 0) {
+    const rubric = Object.fromEntries(WRITING_RUBRIC_CRITERIA.map((c) => [c, 0])) as WritingRubric
+    return {
+      rubric,
+      estimated_cefr: 'Pre-A1',
+      percentage: 0,
+      word_count: 0,
+      min_words: minWords,
+      off_topic: true,
+      feedback: '',
+      corrections: [],
+      model: 'none',
+    }
+  }
+  try {
+    const raw = await complete(buildWritingGraderMessages(input))
+    return raw ? parseWritingGrade(raw, input) : null
+  } catch (e) {
+    console.error('writing-grader: grading failed', (e as Error).message)
+    return null
+  }
+}
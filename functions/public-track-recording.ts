@@ -2,6 +2,15 @@ import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
 import { createClient } from '@supabase/supabase-js';
 import { getHeaders } from './cors-headers';
+import { checkRouteRateLimit, createRateLimitResponse } from './rate-limit';
+import {
+  READ_VS_SPEAK_MODEL_KEY,
+  READ_VS_SPEAK_RECORDING_PREFIX,
+  extractReadVsSpeakFeatures,
+  parseReadVsSpeakModel,
+  predictSpokenProbability,
+  sgdStep,
+} from './lib/read-vs-speak-model.js';
 
 type Group = 'mode' | 'suspect';
 
@@ -24,55 +33,6 @@ function normalizeChoice(group: Group, choiceRaw: string): string | null {
   return null;
 }
 
-function clamp01(n: number): number {
-  if (!Number.isFinite(n)) return 0;
-  if (n < 0) return 0;
-  if (n > 1) return 1;
-  return n;
-}
-
-function sigmoid(x: number): number {
-  return 1 / (1 + Math.exp(-x));
-}
-
-function extractLiveFeatures(payload: any): { pause_ratio: number; filler_ratio: number; wps: number; voiced_ratio: number; pause_entropy: number } | null {
-  const whisper = payload?.whisper_verbose;
-  const rhythm = payload?.browser_rhythm;
-  const text: string = typeof whisper?.text === 'string' ? whisper.text : '';
-  const duration: number = typeof whisper?.duration === 'number' ? whisper.duration : NaN;
-  const segments: any[] = Array.isArray(whisper?.segments) ? whisper.segments : [];
-
-  const words = text.trim().split(/\s+/).filter(Boolean);
-  const wordCount = words.length;
-  if (!Number.isFinite(duration) || duration <= 0 || wordCount <= 0) return null;
-
-  const wps = wordCount / duration;
-
-  let pauseSum = 0;
-  for (let i = 0; i < segments.length - 1; i++) {
-    const end = Number(segments[i]?.end);
-    const startNext = Number(segments[i + 1]?.start);
-    if (Number.isFinite(end) && Number.isFinite(startNext)) {
-      const gap = startNext - end;
-      if (gap > 0) pauseSum += gap;
-    }
-  }
-  const pause_ratio = pauseSum / duration;
-
-  const fillerSet = new Set(['um', 'uh', 'er', 'ah', 'like']);
-  let fillerCount = 0;
-  for (const w of words) {
-    const cleaned = w.toLowerCase().replace(/[^a-z']/g, '');
-    if (fillerSet.has(cleaned)) fillerCount++;
-  }
-  const filler_ratio = wordCount > 0 ? fillerCount / wordCount : 0;
-
-  const voiced_ratio: number = typeof rhythm?.voiced_ratio === 'number' ? rhythm.voiced_ratio : 0.55;
-  const pause_entropy: number = typeof rhythm?.pause_entropy === 'number' ? rhythm.pause_entropy : 2.0;
-
-  return { pause_ratio, filler_ratio, wps, voiced_ratio, pause_entropy };
-}
-
 async function downloadFeaturesFromSupabase(baseKey: string): Promise<any | null> {
   const supabaseUrl = process.env.SUPABASE_URL?.trim();
   const supabaseKey = (process.env.SUPABASE_SECRET_KEY || process.env.SUPABASE_SERVICE_KEY)?.trim();
@@ -123,6 +83,11 @@ export const handler: Handler = async (event) => {
     return { statusCode: 400, headers, body: JSON.stringify({ success: false, error: 'Invalid choice' }) } as any;
   }
 
+  const rateLimit = await checkRouteRateLimit(event, 'recording_vote');
+  if (!rateLimit.allowed) {
+    return createRateLimitResponse(rateLimit, headers) as any;
+  }
+
   const databaseUrl = process.env.NEON_DATABASE_URL;
   if (!databaseUrl) {
     return { statusCode: 500, headers, body: JSON.stringify({ success: false, error: 'Database configuration error' }) } as any;
@@ -180,14 +145,14 @@ export const handler: Handler = async (event) => {
         const featureRows = await sql`
           SELECT payload
           FROM classifier_store
-          WHERE key = ${`read_vs_speak:recording:${baseKey}`} AND kind = 'recording'
+          WHERE key = ${`${READ_VS_SPEAK_RECORDING_PREFIX}${baseKey}`} AND kind = 'recording'
           LIMIT 1
         `;
         const recordingPayload = (featureRows as any[])[0]?.payload;
         const hadCachedFeatures = !!recordingPayload?.features;
         const features = recordingPayload?.features || (await downloadFeaturesFromSupabase(baseKey));
         console.log('[LIVE-TRAIN] features', { baseKey, source: hadCachedFeatures ? 'classifier_store' : 'supabase_or_missing', ok: !!features });
-        const feats = extractLiveFeatures(features);
+        const feats = extractReadVsSpeakFeatures(features);
         if (feats) {
           console.log('[LIVE-TRAIN] extracted features', { baseKey, ...feats });
           // Best-effort cache so future votes don't need another download
@@ -196,13 +161,13 @@ export const handler: Handler = async (event) => {
               await sql`
                 INSERT INTO classifier_store (key, kind, payload, updated_at)
                 VALUES (
-                  ${`read_vs_speak:recording:${baseKey}`},
+                  ${`${READ_VS_SPEAK_RECORDING_PREFIX}${baseKey}`},
                   'recording',
                   ${JSON.stringify({ storage_filename: `${baseKey}.features.JSON`, features })}::jsonb,
                   NOW()
                 )
                 ON CONFLICT (key) DO UPDATE SET
-                  payload = EXCLUDED.payload,
+                  payload = classifier_store.payload || EXCLUDED.payload,
                   updated_at = NOW()
               `;
               console.log('[LIVE-TRAIN] cached features into classifier_store', { baseKey });
@@ -217,63 +182,36 @@ export const handler: Handler = async (event) => {
           const modelRows = await sql`
             SELECT payload
             FROM classifier_store
-            WHERE key = 'read_vs_speak:model:v1' AND kind = 'model'
+            WHERE key = ${READ_VS_SPEAK_MODEL_KEY} AND kind = 'model'
             FOR UPDATE
           `;
           const modelRow = (modelRows as any[])[0]?.payload;
-          if (modelRow && typeof modelRow === 'object') {
-            const featureNames: string[] = Array.isArray((modelRow as any).feature_names) ? (modelRow as any).feature_names : [];
-            const weightsObj: Record<string, number> =
-              (modelRow as any).weights && typeof (modelRow as any).weights === 'object'
-                ? ((modelRow as any).weights as Record<string, number>)
-                : {};
-            const intercept: number = typeof (modelRow as any).intercept === 'number' ? (modelRow as any).intercept : 0;
-            const lr: number = typeof (modelRow as any).learning_rate === 'number' ? (modelRow as any).learning_rate : 0.15;
-            const l2: number = typeof (modelRow as any).l2 === 'number' ? (modelRow as any).l2 : 0.001;
-            const samplesSeen: number = typeof (modelRow as any).samples_seen === 'number' ? (modelRow as any).samples_seen : 0;
-            console.log('[LIVE-TRAIN] model loaded', { samplesSeen, lr, l2, featureNames });
-
-            // Build x vector in fixed order
-            const x: Record<string, number> = {
-              pause_ratio: feats.pause_ratio,
-              filler_ratio: feats.filler_ratio,
-              wps: feats.wps,
-              voiced_ratio: feats.voiced_ratio,
-              pause_entropy: feats.pause_entropy,
-            };
-
-            let z = intercept;
-            for (const name of featureNames) {
-              const w = typeof weightsObj[name] === 'number' ? weightsObj[name] : 0;
-              const xi = typeof x[name] === 'number' ? x[name] : 0;
-              z += w * xi;
-            }
-            const p = clamp01(sigmoid(z)); // p(spoken)
+          const model = parseReadVsSpeakModel(modelRow);
+          if (model) {
+            console.log('[LIVE-TRAIN] model loaded', {
+              samplesSeen: model.samples_seen,
+              lr: model.learning_rate,
+              l2: model.l2,
+              featureNames: model.feature_names,
+            });
+
+            const p = predictSpokenProbability(model, feats); // p(spoken)
             const y = choice === 'speaking' ? 1 : 0;
-            const err = p - y;
-            console.log('[LIVE-TRAIN] step', { baseKey, y, p: Number(p.toFixed(4)), err: Number(err.toFixed(4)) });
-
-            const nextWeights: Record<string, number> = { ...weightsObj };
-            for (const name of featureNames) {
-              const w = typeof weightsObj[name] === 'number' ? weightsObj[name] : 0;
-              const xi = typeof x[name] === 'number' ? x[name] : 0;
-              const grad = err * xi + l2 * w;
-              nextWeights[name] = w - lr * grad;
-            }
-            const nextIntercept = intercept - lr * err;
+            console.log('[LIVE-TRAIN] step', { baseKey, y, p: Number(p.toFixed(4)), err: Number((p - y).toFixed(4)) });
 
+            const next = sgdStep(model, feats, y);
             await sql`
               UPDATE classifier_store
               SET payload = ${JSON.stringify({
                 ...modelRow,
-                weights: nextWeights,
-                intercept: nextIntercept,
-                samples_seen: samplesSeen + 1,
+                weights: next.weights,
+                intercept: next.intercept,
+                samples_seen: next.samples_seen,
               })}::jsonb,
                   updated_at = NOW()
-              WHERE key = 'read_vs_speak:model:v1' AND kind = 'model'
+              WHERE key = ${READ_VS_SPEAK_MODEL_KEY} AND kind = 'model'
             `;
-            console.log('[LIVE-TRAIN] model updated', { samplesSeenAfter: samplesSeen + 1 });
+            console.log('[LIVE-TRAIN] model updated', { samplesSeenAfter: next.samples_seen });
           }
           await sql`COMMIT`;
         }
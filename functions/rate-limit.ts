@@ -1,170 +1,149 @@
 /**
- * Rate Limiting Utility for Netlify Functions using Upstash Redis
- * 
- * Implements rate limiting using Upstash Redis (serverless Redis)
- * Limits: 10 attempts per hour per IP address
- * 
- * Setup:
- * 1. Create an Upstash Redis database at https://upstash.com
- * 2. Get your REST API URL and token
- * 3. Set environment variables:
- *    - UPSTASH_REDIS_REST_URL
- *    - UPSTASH_REDIS_REST_TOKEN
+ * Per-route rate limiting for Netlify Functions.
+ *
+ * Each throttled route has a policy in RATE_LIMIT_POLICIES: a sliding window (at most `limit`
+ * requests in `windowMs`) or a token bucket (bursts up to `capacity`, one token back every
+ * `refillMs`), keyed by client IP or by signed-in user. Policies with `failuresOnly` are only
+ * charged by recordRateLimitFailure (wrong password, wrong code), so successful logins are never
+ * blocked. Counters live in the RateLimitStore from lib/rate-limit-store: Upstash Redis when
+ * UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN are set, otherwise Postgres
+ * (rate_limit_hits / rate_limit_buckets), otherwise memory. If the store fails the request is
+ * allowed and the error logged.
+ *
+ * Usage:
+ *   const limit = await checkRouteRateLimit(event, 'superhero_image', { userId });
+ *   if (!limit.allowed) return createRateLimitResponse(limit, headers);
  */
 
-import { Redis } from '@upstash/redis';
-
-interface RateLimitResult {
-  allowed: boolean;
-  remaining: number;
-  resetTime: number; // Unix timestamp when limit resets
-  retryAfter?: number; // Seconds until retry is allowed
+import { getRateLimitStore } from './lib/rate-limit-store.js';
+
+export type RateLimitRoute =
+  | 'login'
+  | 'otp_send'
+  | 'otp_verify'
+  | 'speech_job_upload'
+  | 'superhero_image'
+  | 'recording_vote'
+  | 'ai_feedback'
+  | 'improve_transcription'
+  | 'tts_generate';
+
+interface PolicyBase {
+  /** 'user' falls back to the IP when the caller is not signed in */
+  keyBy: 'ip' | 'user';
+  /** Only recordRateLimitFailure counts; checkRouteRateLimit just reads */
+  failuresOnly?: boolean;
+  /** First sentence of the 429 error; the retry time is appended */
+  message: string;
 }
 
-interface RateLimitOptions {
-  maxAttempts?: number; // Default: 10
-  windowMs?: number; // Default: 3600000 (1 hour)
-  identifier?: string; // IP address or user identifier
+interface SlidingWindowPolicy extends PolicyBase {
+  algorithm: 'sliding_window';
+  limit: number;
+  windowMs: number;
 }
 
-// Initialize Redis client (lazy initialization)
-let redisClient: Redis | null = null;
-
-function getRedisClient(): Redis | null {
-  if (redisClient) {
-    return redisClient;
-  }
-
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-
-  if (!url || !token) {
-    console.warn('Rate limit: Upstash Redis not configured. Set UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN');
-    return null;
-  }
-
-  try {
-    redisClient = new Redis({
-      url,
-      token,
-    });
-    return redisClient;
-  } catch (error) {
-    console.error('Rate limit: Failed to initialize Redis client:', error);
-    return null;
-  }
+interface TokenBucketPolicy extends PolicyBase {
+  algorithm: 'token_bucket';
+  capacity: number;
+  /** Milliseconds to earn back one token */
+  refillMs: number;
 }
 
-/**
- * Check if request should be rate limited
- * @param event - Netlify function event
- * @param options - Rate limit options
- * @returns Rate limit result
- */
-export async function checkRateLimit(
-  event: any,
-  options: RateLimitOptions = {}
-): Promise<RateLimitResult> {
-  const {
-    maxAttempts = 10,
-    windowMs = 3600000, // 1 hour
-    identifier
-  } = options;
-
-  // Get identifier (IP address or provided identifier)
-  const clientId = identifier || getClientIdentifier(event);
-  
-  if (!clientId) {
-    // If we can't identify the client, allow the request but log it
-    console.warn('Rate limit: Could not identify client');
-    return {
-      allowed: true,
-      remaining: maxAttempts,
-      resetTime: Date.now() + windowMs
-    };
-  }
-
-  const redis = getRedisClient();
-  
-  if (!redis) {
-    // If Redis is not configured, allow the request but log it
-    console.warn('Rate limit: Redis not configured, allowing request');
-    return {
-      allowed: true,
-      remaining: maxAttempts,
-      resetTime: Date.now() + windowMs
-    };
-  }
-
-  try {
-    // Create a unique key for this identifier and time window
-    // Using a sliding window approach with Redis
-    const key = `rate_limit:${clientId}`;
-    const now = Date.now();
-    const windowStart = now - windowMs;
-
-    // Remove old entries (outside the window) - score 0 to windowStart
-    await redis.zremrangebyscore(key, 0, windowStart);
-
-    // Count current attempts in the window
-    const currentCount = await redis.zcard(key) || 0;
-    
-    // Check if we should allow this request
-    const allowed = currentCount < maxAttempts;
-    
-    // Calculate remaining before adding new attempt
-    const remaining = Math.max(0, maxAttempts - currentCount - (allowed ? 1 : 0));
-    
-    // If allowed, add current attempt
-    if (allowed) {
-      // Add current attempt with current timestamp as score
-      await redis.zadd(key, { score: now, member: `${now}-${Math.random()}` });
-      
-      // Set expiration on the key (windowMs * 2 to be safe)
-      await redis.expire(key, Math.ceil((windowMs * 2) / 1000));
-    }
-
-    // Calculate reset time (1 hour from now, or from first attempt if we're rate limited)
-    let resetTime = now + windowMs;
-    if (!allowed && currentCount > 0) {
-      // Get the oldest entry in the window to calculate when it expires
-      const oldest = await redis.zrange(key, 0, 0, { withScores: true });
-      if (oldest && Array.isArray(oldest) && oldest.length > 0) {
-        // Upstash returns objects with score property
-        const firstEntry = oldest[0];
-        if (firstEntry && typeof firstEntry === 'object' && 'score' in firstEntry) {
-          const oldestScore = firstEntry.score as number;
-          if (oldestScore) {
-            resetTime = oldestScore + windowMs;
-          }
-        }
-      }
-    }
-
-    const retryAfter = allowed ? undefined : Math.ceil((resetTime - now) / 1000);
-
-    return {
-      allowed,
-      remaining,
-      resetTime,
-      retryAfter
-    };
+export type RateLimitPolicy = SlidingWindowPolicy | TokenBucketPolicy;
+
+export const RATE_LIMIT_POLICIES: Record<RateLimitRoute, RateLimitPolicy> = {
+  login: {
+    algorithm: 'sliding_window',
+    limit: 10,
+    windowMs: 15 * 60 * 1000,
+    keyBy: 'ip',
+    failuresOnly: true,
+    message: 'Too many failed login attempts.',
+  },
+  otp_send: {
+    algorithm: 'sliding_window',
+    limit: 10,
+    windowMs: 15 * 60 * 1000,
+    keyBy: 'ip',
+    message: 'Too many verification codes requested.',
+  },
+  otp_verify: {
+    algorithm: 'sliding_window',
+    limit: 10,
+    windowMs: 15 * 60 * 1000,
+    keyBy: 'ip',
+    failuresOnly: true,
+    message: 'Too many incorrect verification codes.',
+  },
+  // Each upload is a Whisper transcription plus scoring: a lesson's worth of bursts, then ~2 a minute
+  speech_job_upload: {
+    algorithm: 'token_bucket',
+    capacity: 20,
+    refillMs: 30 * 1000,
+    keyBy: 'user',
+    message: 'You are sending recordings too quickly.',
+  },
+  // Image generation is the most expensive call we make
+  superhero_image: {
+    algorithm: 'token_bucket',
+    capacity: 5,
+    refillMs: 10 * 60 * 1000,
+    keyBy: 'user',
+    message: 'Too many superhero images requested.',
+  },
+  recording_vote: {
+    algorithm: 'sliding_window',
+    limit: 60,
+    windowMs: 10 * 60 * 1000,
+    keyBy: 'ip',
+    message: 'Too many votes.',
+  },
+  // The AI quota only covers signed-in callers, so these buckets are what stop an anonymous client
+  ai_feedback: {
+    algorithm: 'token_bucket',
+    capacity: 20,
+    refillMs: 30 * 1000,
+    keyBy: 'user',
+    message: 'Too many feedback requests.',
+  },
+  improve_transcription: {
+    algorithm: 'token_bucket',
+    capacity: 20,
+    refillMs: 30 * 1000,
+    keyBy: 'user',
+    message: 'Too many transcription requests.',
+  },
+  // Lesson authoring generates audio for a whole word list at once
+  tts_generate: {
+    algorithm: 'token_bucket',
+    capacity: 60,
+    refillMs: 5 * 1000,
+    keyBy: 'user',
+    message: 'Too many audio requests.',
+  },
+};
+
+export interface RateLimitResult {
+  route: RateLimitRoute;
+  allowed: boolean;
+  /** Requests (or whole tokens) left */
+  remaining: number;
+  /** Requests per window, or bucket capacity */
+  limit: number;
+  resetTime: number; // Unix timestamp (ms) when the window clears or the bucket is full again
+  retryAfter?: number; // Seconds until retry is allowed
+}
 
-  } catch (error) {
-    console.error('Rate limit check failed:', error);
-    // On error, allow the request but log it
-    return {
-      allowed: true,
-      remaining: maxAttempts,
-      resetTime: Date.now() + windowMs
-    };
-  }
+export interface RateLimitSubject {
+  /** Signed-in user, for policies keyed by user */
+  userId?: string | null;
 }
 
 /**
  * Get client identifier from request (IP address)
  */
-function getClientIdentifier(event: any): string | null {
+export function getClientIdentifier(event: any): string | null {
   // Try various headers for IP address
   const forwarded = event.headers?.['x-forwarded-for'] || event.headers?.['X-Forwarded-For'];
   if (forwarded) {
@@ -190,182 +169,167 @@ function getClientIdentifier(event: any): string | null {
   return null;
 }
 
-/**
- * Record a failed login attempt (for rate limiting failed attempts only)
- * This should be called when a login attempt fails
- */
-export async function recordFailedAttempt(
-  event: any,
-  options: RateLimitOptions = {}
-): Promise<void> {
-  const {
-    maxAttempts = 10,
-    windowMs = 900000, // 15 minutes for failed attempts (more restrictive)
-    identifier
-  } = options;
-
-  const clientId = identifier || getClientIdentifier(event);
-  
-  if (!clientId) {
-    return; // Can't track without identifier
-  }
-
-  const redis = getRedisClient();
-  if (!redis) {
-    return; // Can't track without Redis
+export function rateLimitKey(event: any, route: RateLimitRoute, subject: RateLimitSubject = {}): string | null {
+  const policy = RATE_LIMIT_POLICIES[route];
+  if (policy.keyBy === 'user' && subject.userId) {
+    return `rl:${route}:user:${subject.userId}`;
   }
+  const ip = getClientIdentifier(event);
+  return ip ? `rl:${route}:ip:${ip}` : null;
+}
 
-  try {
-    // Use a separate key for failed attempts
-    const key = `rate_limit:failed:${clientId}`;
-    const now = Date.now();
-    const windowStart = now - windowMs;
-
-    // Remove old entries (outside the window)
-    await redis.zremrangebyscore(key, 0, windowStart);
+function policyLimit(policy: RateLimitPolicy): number {
+  return policy.algorithm === 'sliding_window' ? policy.limit : policy.capacity;
+}
 
-    // Add current failed attempt
-    await redis.zadd(key, { score: now, member: `${now}-${Math.random()}` });
-    
-    // Set expiration on the key
-    await redis.expire(key, Math.ceil((windowMs * 2) / 1000));
-  } catch (error) {
-    console.error('Failed to record failed attempt:', error);
-    // Don't throw - this is non-critical
-  }
+function allowAll(route: RateLimitRoute, now: number): RateLimitResult {
+  const policy = RATE_LIMIT_POLICIES[route];
+  const limit = policyLimit(policy);
+  return {
+    route,
+    allowed: true,
+    remaining: limit,
+    limit,
+    resetTime: now + (policy.algorithm === 'sliding_window' ? policy.windowMs : policy.refillMs),
+  };
 }
 
-/**
- * Check rate limit for failed login attempts
- * This should be checked BEFORE processing login to prevent brute force
- */
-export async function checkFailedAttemptsRateLimit(
+async function applyPolicy(
   event: any,
-  options: RateLimitOptions = {}
+  route: RateLimitRoute,
+  subject: RateLimitSubject,
+  mode: 'check' | 'failure'
 ): Promise<RateLimitResult> {
-  const {
-    maxAttempts = 10,
-    windowMs = 900000, // 15 minutes for failed attempts
-    identifier
-  } = options;
-
-  const clientId = identifier || getClientIdentifier(event);
-  
-  if (!clientId) {
+  const policy = RATE_LIMIT_POLICIES[route];
+  const now = Date.now();
+  const key = rateLimitKey(event, route, subject);
+  if (!key) {
     // If we can't identify the client, allow the request but log it
-    return {
-      allowed: true,
-      remaining: maxAttempts,
-      resetTime: Date.now() + windowMs
-    };
+    console.warn(`Rate limit: Could not identify client for ${route}`);
+    return allowAll(route, now);
   }
 
-  const redis = getRedisClient();
-  
-  if (!redis) {
-    // If Redis is not configured, allow the request but log it
-    return {
-      allowed: true,
-      remaining: maxAttempts,
-      resetTime: Date.now() + windowMs
-    };
-  }
+  // Failure-only policies read on check and are charged on failure; the rest are charged on check
+  const charge = mode === 'failure' || !policy.failuresOnly;
 
   try {
-    // Use a separate key for failed attempts
-    const key = `rate_limit:failed:${clientId}`;
-    const now = Date.now();
-    const windowStart = now - windowMs;
-
-    // Remove old entries (outside the window)
-    await redis.zremrangebyscore(key, 0, windowStart);
-
-    // Count current failed attempts in the window
-    const currentCount = await redis.zcard(key) || 0;
-    
-    // Check if we should allow this request
-    const allowed = currentCount < maxAttempts;
-    
-    // Calculate remaining
-    const remaining = Math.max(0, maxAttempts - currentCount);
-
-    // Calculate reset time
-    let resetTime = now + windowMs;
-    if (!allowed && currentCount > 0) {
-      // Get the oldest entry in the window to calculate when it expires
-      const oldest = await redis.zrange(key, 0, 0, { withScores: true });
-      if (oldest && Array.isArray(oldest) && oldest.length > 0) {
-        const firstEntry = oldest[0];
-        if (firstEntry && typeof firstEntry === 'object' && 'score' in firstEntry) {
-          const oldestScore = firstEntry.score as number;
-          if (oldestScore) {
-            resetTime = oldestScore + windowMs;
-          }
-        }
-      }
+    const store = await getRateLimitStore();
+
+    if (policy.algorithm === 'sliding_window') {
+      const state = await store.hitSlidingWindow(key, {
+        limit: policy.limit,
+        windowMs: policy.windowMs,
+        now,
+        consume: mode === 'failure' ? 'always' : charge ? 'if_allowed' : 'never',
+      });
+      const allowed = state.count < policy.limit;
+      const used = state.count + (state.consumed ? 1 : 0);
+      const resetTime = state.oldest !== null ? state.oldest + policy.windowMs : now + policy.windowMs;
+      return {
+        route,
+        allowed,
+        remaining: Math.max(0, policy.limit - used),
+        limit: policy.limit,
+        resetTime,
+        retryAfter: allowed ? undefined : Math.max(1, Math.ceil((resetTime - now) / 1000)),
+      };
     }
 
-    const retryAfter = allowed ? undefined : Math.ceil((resetTime - now) / 1000);
-
+    const refillPerMs = 1 / policy.refillMs;
+    const state = await store.takeTokens(key, {
+      capacity: policy.capacity,
+      refillPerMs,
+      cost: charge ? 1 : 0,
+      now,
+    });
+    // A read-only check still needs a whole token to be let through
+    const allowed = charge ? state.consumed : state.tokens >= 1;
+    const msUntilToken = Math.ceil((1 - state.tokens) * policy.refillMs);
     return {
+      route,
       allowed,
-      remaining,
-      resetTime,
-      retryAfter
+      remaining: Math.floor(state.tokens),
+      limit: policy.capacity,
+      resetTime: now + Math.ceil((policy.capacity - state.tokens) * policy.refillMs),
+      retryAfter: allowed ? undefined : Math.max(1, Math.ceil(msUntilToken / 1000)),
     };
-
   } catch (error) {
-    console.error('Rate limit check failed:', error);
+    console.error(`Rate limit check failed for ${route}:`, error);
     // On error, allow the request but log it
-    return {
-      allowed: true,
-      remaining: maxAttempts,
-      resetTime: Date.now() + windowMs
-    };
+    return allowAll(route, now);
   }
 }
 
 /**
- * Create rate limit response
+ * Check (and, unless the policy is failures-only, count) a request to a throttled route.
+ * Call before doing the expensive or sensitive work.
  */
-export function createRateLimitResponse(result: RateLimitResult): any {
-  const headers: Record<string, string> = {
+export function checkRouteRateLimit(
+  event: any,
+  route: RateLimitRoute,
+  subject: RateLimitSubject = {}
+): Promise<RateLimitResult> {
+  return applyPolicy(event, route, subject, 'check');
+}
+
+/**
+ * Record a failed attempt against a failures-only route (wrong password, wrong code).
+ * Never throws.
+ */
+export async function recordRateLimitFailure(
+  event: any,
+  route: RateLimitRoute,
+  subject: RateLimitSubject = {}
+): Promise<void> {
+  await applyPolicy(event, route, subject, 'failure');
+}
+
+export function rateLimitMessage(result: RateLimitResult): string {
+  const prefix = RATE_LIMIT_POLICIES[result.route].message;
+  const retryAfter = result.retryAfter;
+  if (retryAfter && retryAfter < 60) {
+    return `${prefix} Please try again in ${retryAfter} seconds.`;
+  }
+  const minutes = retryAfter ? Math.ceil(retryAfter / 60) : 15;
+  return `${prefix} Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+}
+
+/**
+ * 429 response for a blocked request, merged over the function's own (CORS) headers.
+ */
+export function createRateLimitResponse(
+  result: RateLimitResult,
+  headers: Record<string, string> = {}
+): { statusCode: number; headers: Record<string, string>; body: string } {
+  const policy = RATE_LIMIT_POLICIES[result.route];
+  const responseHeaders: Record<string, string> = {
+    ...headers,
     'Content-Type': 'application/json',
-    'X-RateLimit-Limit': '10',
+    'X-RateLimit-Limit': result.limit.toString(),
     'X-RateLimit-Remaining': result.remaining.toString(),
     'X-RateLimit-Reset': new Date(result.resetTime).toISOString(),
   };
 
   if (result.retryAfter) {
-    headers['Retry-After'] = result.retryAfter.toString();
+    responseHeaders['Retry-After'] = result.retryAfter.toString();
   }
 
-  // Calculate minutes until retry
-  const minutesUntilRetry = result.retryAfter ? Math.ceil(result.retryAfter / 60) : 15;
-  
-  // Create a simple, user-friendly error message
-  let errorMessage;
-  if (minutesUntilRetry > 1) {
-    errorMessage = `Too many failed login attempts. Please try again in ${minutesUntilRetry} minutes.`;
-  } else if (result.retryAfter && result.retryAfter < 60) {
-    errorMessage = `Too many failed login attempts. Please try again in ${result.retryAfter} seconds.`;
-  } else {
-    errorMessage = `Too many failed login attempts. Please try again in ${minutesUntilRetry} minute.`;
-  }
-  
   return {
     statusCode: 429,
-    headers,
+    headers: responseHeaders,
     body: JSON.stringify({
       success: false,
-      error: errorMessage,
+      error: rateLimitMessage(result),
+      code: 'rate_limited',
       retryAfter: result.retryAfter,
       resetTime: new Date(result.resetTime).toISOString(),
       rateLimited: true,
-      maxAttempts: 10,
-      windowMinutes: 15,
+      maxAttempts: result.limit,
+      windowMinutes: Math.round(
+        (policy.algorithm === 'sliding_window' ? policy.windowMs : policy.capacity * policy.refillMs) / 60000
+      ),
       remainingAttempts: result.remaining,
-      retryAfterSeconds: result.retryAfter
-    })
+      retryAfterSeconds: result.retryAfter,
+    }),
   };
 }
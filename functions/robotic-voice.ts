@@ -60,12 +60,24 @@
  *
  * v2.3.3: single-segment easy ASR, filler list fix, ultra-flat pitch bonus.
  *
- * Log-only by default; blocking requires ROBOTIC_VOICE_MODE=block.
+ * Log-only by default; blocking requires ROBOTIC_VOICE_MODE=block. In run-speech-analysis-background
+ * the mode comes from robotic_voice_policies (lib/robotic-voice-policy) with ROBOTIC_VOICE_MODE as fallback.
+ *
+ * v2.5.0 (candidate, not the default): v2.4.2 plus the trained read-vs-speak model
+ * (lib/read-vs-speak-model) as an extra signal — learned_spoken_probability can mark an unknown
+ * task as spontaneous (resolveTaskContext) and settle rehearsed-band read-aloud when pacing rules
+ * are inconclusive (inferLikelyReadingAloud). Without the probability it scores like v2.4.2.
+ *
+ * Versions: each scorer release is registered under its version string (see SCORERS).
+ * ROBOTIC_VOICE_ACTIVE_VERSION picks the one that decides (default: ROBOTIC_VOICE_SCORER_VERSION);
+ * ROBOTIC_VOICE_SHADOW_VERSION runs a candidate alongside it in log-only mode so it can be
+ * compared on real traffic (admin/robot-detect → Shadow disagreements) before promotion.
  */
 
 import {
   resolveTaskContext,
   isTaskInappropriateReading,
+  LEARNED_READING_MAX_P,
   type RoboticVoiceTaskContext,
 } from './lib/robotic-voice-task.js'
 import {
@@ -75,6 +87,8 @@ import {
 } from './lib/robotic-voice-word-asr.js'
 
 export const ROBOTIC_VOICE_SCORER_VERSION = 'v2.4.2'
+/** Candidate that consults the read-vs-speak model; run it via ROBOTIC_VOICE_SHADOW_VERSION first. */
+export const ROBOTIC_VOICE_LEARNED_SCORER_VERSION = 'v2.5.0'
 
 /** Below this word count, prefer word-level ASR + task gate over segment logprob stats. */
 const V24_SHORT_CLIP_WORD_MAX = 28
@@ -125,6 +139,8 @@ export interface RoboticVoiceFeaturesInput {
   activity_type?: string | null
   /** Script for read-aloud activities (improvement target text) */
   reference_text?: string | null
+  /** Read-vs-speak model p(spoken); only versions from v2.5.0 consult it */
+  learned_spoken_probability?: number | null
 }
 
 export type { RoboticVoiceTaskContext }
@@ -536,10 +552,14 @@ function hasRehearsedTwoSegmentPacing(w: ReturnType<typeof whisperDerived>): boo
  * Single-segment path (v2.4.2): mic voicing + moderate energy (isMicRehearsedReading) was already
  * used to *exclude* TTS corroboration but never to earn reading — so short answers defaulted to
  * speaking. Wire that same cue into reading inference for segment_count === 1.
+ *
+ * v2.5.0: once playback is ruled out in the rehearsed band, a confident learned "read" from the
+ * read-vs-speak model counts as read-aloud even when segment pacing is inconclusive.
  */
 function inferLikelyReadingAloud(
   w: ReturnType<typeof whisperDerived>,
-  rhythm: BrowserRhythmInput | null
+  rhythm: BrowserRhythmInput | null,
+  learnedSpokenProbability: number | null = null
 ): boolean {
   if (w.mean_logprob == null) return false
 
@@ -579,6 +599,7 @@ function inferLikelyReadingAloud(
   if (w.mean_logprob < -0.52) return false
 
   if (isMicRehearsedReading(w, rhythm)) return true
+  if (learnedSpokenProbability != null && learnedSpokenProbability <= LEARNED_READING_MAX_P) return true
   if (w.segment_count === 2) return hasRehearsedTwoSegmentPacing(w)
   return hasHumanPacing(w)
 }
@@ -900,7 +921,12 @@ export function roboticVoiceToDbColumns(rv: RoboticVoiceResult | null): RoboticV
   }
 }
 
-export function computeRoboticVoiceScore(input: RoboticVoiceFeaturesInput): RoboticVoiceResult {
+interface ScorerOptions {
+  /** v2.5.0+: consult input.learned_spoken_probability */
+  useLearnedReadVsSpeak?: boolean
+}
+
+function scoreV242(input: RoboticVoiceFeaturesInput, options: ScorerOptions = {}): RoboticVoiceResult {
   const mode = getMode()
   const rhythm = input.browser_rhythm || null
   const transcript = typeof input.whisper_verbose?.text === 'string' ? input.whisper_verbose.text : ''
@@ -914,6 +940,7 @@ export function computeRoboticVoiceScore(input: RoboticVoiceFeaturesInput): Robo
       activity_type: input.activity_type,
       prompt_text: input.prompt_text,
       reference_text: input.reference_text,
+      learned_spoken_probability: options.useLearnedReadVsSpeak ? input.learned_spoken_probability : null,
     },
     transcript
   )
@@ -927,7 +954,7 @@ export function computeRoboticVoiceScore(input: RoboticVoiceFeaturesInput): Robo
   const likelyReadingAloud =
     !isImprovementReadAloud &&
     !taskInappropriateReading &&
-    inferLikelyReadingAloud(w, rhythm)
+    inferLikelyReadingAloud(w, rhythm, taskCtx.learned_spoken_probability)
   const likelyEasyBandHuman =
     !isImprovementReadAloud && !likelyReadingAloud && inferLikelyEasyBandHuman(w, rhythm)
   const suppressArtifactTts =
@@ -1103,6 +1130,7 @@ export function computeRoboticVoiceScore(input: RoboticVoiceFeaturesInput): Robo
       task_inappropriate_reading: taskInappropriateReading,
       prompt_overlap: taskCtx.prompt_overlap ?? -1,
       reference_overlap: taskCtx.reference_overlap ?? -1,
+      learned_spoken_probability: taskCtx.learned_spoken_probability ?? -1,
       word_prob_count: wordAsr.word_prob_count,
       mean_word_prob: wordAsr.mean_word_prob ?? -1,
       min_word_prob: wordAsr.min_word_prob ?? -1,
@@ -1150,3 +1178,107 @@ export function computeRoboticVoiceScore(input: RoboticVoiceFeaturesInput): Robo
     _scorer_version: ROBOTIC_VOICE_SCORER_VERSION,
   }
 }
+
+// ---------------------------------------------------------------------------
+// Scorer versions (active + shadow)
+// ---------------------------------------------------------------------------
+
+export type RoboticVoiceScorer = (input: RoboticVoiceFeaturesInput) => RoboticVoiceResult
+
+/** Registered scorer versions. Add a candidate here (or via registerRoboticVoiceScorer) to shadow it. */
+const SCORERS = new Map<string, RoboticVoiceScorer>([
+  [ROBOTIC_VOICE_SCORER_VERSION, (input) => scoreV242(input)],
+  [ROBOTIC_VOICE_LEARNED_SCORER_VERSION, (input) => scoreV242(input, { useLearnedReadVsSpeak: true })],
+])
+
+export function registerRoboticVoiceScorer(version: string, scorer: RoboticVoiceScorer): void {
+  SCORERS.set(version, scorer)
+}
+
+export function listRoboticVoiceScorerVersions(): string[] {
+  return [...SCORERS.keys()]
+}
+
+/** ROBOTIC_VOICE_ACTIVE_VERSION when registered; otherwise the built-in version. */
+export function getActiveScorerVersion(): string {
+  const requested = process.env.ROBOTIC_VOICE_ACTIVE_VERSION?.trim()
+  if (requested && SCORERS.has(requested)) return requested
+  if (requested) {
+    console.warn(`robotic-voice: unknown ROBOTIC_VOICE_ACTIVE_VERSION "${requested}", using ${ROBOTIC_VOICE_SCORER_VERSION}`)
+  }
+  return ROBOTIC_VOICE_SCORER_VERSION
+}
+
+/** ROBOTIC_VOICE_SHADOW_VERSION when registered and different from the active version. */
+export function getShadowScorerVersion(): string | null {
+  const requested = process.env.ROBOTIC_VOICE_SHADOW_VERSION?.trim()
+  if (!requested || requested === getActiveScorerVersion()) return null
+  if (!SCORERS.has(requested)) {
+    console.warn(`robotic-voice: unknown ROBOTIC_VOICE_SHADOW_VERSION "${requested}", shadow disabled`)
+    return null
+  }
+  return requested
+}
+
+function stampVersion(result: RoboticVoiceResult, version: string): RoboticVoiceResult {
+  return {
+    ...result,
+    signals: { ...result.signals, scorer_version: version },
+    _scorer_version: version,
+  }
+}
+
+/**
+ * Score with the active version (or an explicit registered `version`, e.g. for corpus runs).
+ */
+export function computeRoboticVoiceScore(
+  input: RoboticVoiceFeaturesInput,
+  version: string = getActiveScorerVersion()
+): RoboticVoiceResult {
+  const scorer = SCORERS.get(version)
+  if (!scorer) throw new Error(`Unknown robotic voice scorer version: ${version}`)
+  return stampVersion(scorer(input), version)
+}
+
+/**
+ * Score with a shadow version. Always log-only: a shadow result never blocks a student.
+ */
+export function computeShadowRoboticVoiceScore(
+  input: RoboticVoiceFeaturesInput,
+  version: string
+): RoboticVoiceResult {
+  const result = computeRoboticVoiceScore(input, version)
+  return {
+    ...result,
+    flagged: false,
+    message: result.signals.would_flag === true ? '[log] Would flag robotic voice' : '',
+    _mode: 'log',
+  }
+}
+
+/** Active and shadow disagree when they differ on would_flag or delivery_mode. */
+export function roboticVoiceShadowDisagrees(active: RoboticVoiceResult, shadow: RoboticVoiceResult): boolean {
+  return (
+    Boolean(active.signals.would_flag) !== Boolean(shadow.signals.would_flag) ||
+    String(active.signals.delivery_mode || '') !== String(shadow.signals.delivery_mode || '')
+  )
+}
+
+export interface RoboticVoiceShadowDbColumns {
+  scorer_version: string | null
+  shadow_version: string | null
+  shadow: RoboticVoiceResult | null
+  shadow_disagrees: boolean | null
+}
+
+export function roboticVoiceShadowToDbColumns(
+  active: RoboticVoiceResult | null,
+  shadow: RoboticVoiceResult | null
+): RoboticVoiceShadowDbColumns {
+  return {
+    scorer_version: active?._scorer_version ?? null,
+    shadow_version: shadow?._scorer_version ?? null,
+    shadow,
+    shadow_disagrees: active && shadow ? roboticVoiceShadowDisagrees(active, shadow) : null,
+  }
+}
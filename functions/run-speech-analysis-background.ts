@@ -13,13 +13,53 @@ import {
 } from './speech-consecutive-repetition';
 import {
   computeRoboticVoiceScore,
+  computeShadowRoboticVoiceScore,
+  getShadowScorerVersion,
+  roboticVoiceShadowToDbColumns,
   roboticVoiceToDbColumns,
-  type RoboticVoiceFeaturesInput,
   type RoboticVoiceResult,
 } from './robotic-voice';
+import { loadSpeechJobFeatures } from './lib/speech-job-features';
+import { chatCompletionUsage, recordAiUsage, type AiUsage } from './lib/ai-usage';
+import {
+  extractReadVsSpeakFeatures,
+  isReadVsSpeakModelReady,
+  loadReadVsSpeakModel,
+  predictSpokenProbability,
+} from './lib/read-vs-speak-model';
+import {
+  applyRoboticVoiceEnforcement,
+  loadApplicableRoboticVoicePolicies,
+  loadRoboticVoicePolicyContext,
+  recordRoboticVoiceEnforcement,
+  resolveRoboticVoiceEnforcement,
+  type RoboticVoiceEnforcementDecision,
+  type RoboticVoicePolicyContext,
+} from './lib/robotic-voice-policy';
+import { resolveTaskContext } from './lib/robotic-voice-task';
+import { collectWhisperWords } from './lib/robotic-voice-word-asr';
+import { assessPronunciation, type PronunciationAssessment } from '../src/lib/pronunciation.js';
 
 const SUPABASE_BUCKET = 'tutorcat';
-const FEATURES_PATH_SUFFIX = '.features.JSON';
+
+/**
+ * Per-word pronunciation scores for read-aloud tasks (improvement / reading activities with a
+ * reference_text); null for spontaneous answers or when the features sidecar is missing.
+ */
+function readAloudPronunciation(
+  featuresInput: Awaited<ReturnType<typeof loadSpeechJobFeatures>>,
+  promptId: string | null,
+  transcript: string
+): PronunciationAssessment | null {
+  const referenceText = featuresInput?.reference_text?.trim();
+  if (!featuresInput || !referenceText) return null;
+  const task = resolveTaskContext(
+    { prompt_id: promptId, activity_type: featuresInput.activity_type, reference_text: referenceText },
+    transcript
+  );
+  if (task.expectation !== 'reading') return null;
+  return assessPronunciation(referenceText, collectWhisperWords(featuresInput.whisper_verbose), transcript);
+}
 
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 const openai = OPENAI_API_KEY ? new OpenAI({ apiKey: OPENAI_API_KEY }) : null;
@@ -127,7 +167,7 @@ async function runFeedbackAnalysis(
   transcription: string,
   prompt: string,
   cefrLevel: string | null,
-  options?: { skipQuestionRepetition?: boolean }
+  options?: { skipQuestionRepetition?: boolean; onUsage?: (usage: AiUsage) => Promise<void> }
 ): Promise<{ success: true; feedback: Record<string, unknown> } | { success: false; error: string }> {
   if (!openai) return { success: false, error: 'OpenAI not configured' };
 
@@ -153,6 +193,7 @@ Please analyze their speaking performance. Focus on how well they spoke about th
       },
     ],
   });
+  await options?.onUsage?.(chatCompletionUsage('gpt-5-mini', feedbackResponse?.usage));
 
   const choice = feedbackResponse?.choices?.[0];
   const content = choice?.message?.content;
@@ -210,37 +251,6 @@ function dbCols(rv: RoboticVoiceResult | null) {
   return roboticVoiceToDbColumns(rv)
 }
 
-async function downloadJobFeatures(jobId: string): Promise<RoboticVoiceFeaturesInput | null> {
-  const url = process.env.SUPABASE_URL?.trim();
-  const key = process.env.SUPABASE_SECRET_KEY?.trim();
-  if (!url || !key) return null;
-  try {
-    const supabase = createClient(url, key);
-    const path = `${jobId}${FEATURES_PATH_SUFFIX}`;
-    const { data, error } = await supabase.storage.from(SUPABASE_BUCKET).download(path);
-    if (error || !data) {
-      console.warn('run-speech-analysis-background: features JSON not found', { jobId, error: error?.message });
-      return null;
-    }
-    const text = await (data as Blob).text();
-    const parsed = JSON.parse(text) as RoboticVoiceFeaturesInput & {
-      activity_type?: string | null
-      reference_text?: string | null
-      prompt_text?: string | null
-    }
-    return {
-      whisper_verbose: parsed.whisper_verbose ?? null,
-      browser_rhythm: parsed.browser_rhythm ?? null,
-      activity_type: parsed.activity_type ?? null,
-      reference_text: parsed.reference_text ?? null,
-      prompt_text: parsed.prompt_text ?? null,
-    }
-  } catch (e) {
-    console.warn('run-speech-analysis-background: failed to load features JSON', { jobId, e });
-    return null;
-  }
-}
-
 /** Upload result JSON to Supabase Storage (tutorcat bucket) as {jobId}.JSON, same base name as the audio file. */
 async function uploadResultToSupabase(
   jobId: string,
@@ -294,12 +304,17 @@ export default async (req: Request, _context?: unknown): Promise<void> => {
   const sql = neon(databaseUrl);
 
   const jobRows = await sql`
-    SELECT id, transcript, status, prompt, prompt_id, cefr_level, min_words
+    SELECT id, user_id, caller_user_id::text AS caller_user_id, caller_role, lesson_id, transcript, status, prompt,
+      prompt_id, cefr_level, min_words
     FROM speech_jobs
     WHERE id = ${jobId}
   `;
   const job = jobRows[0] as {
     id: string;
+    user_id: string | null;
+    caller_user_id: string | null;
+    caller_role: string | null;
+    lesson_id: string | null;
     transcript: string;
     status: string;
     prompt: string | null;
@@ -367,29 +382,118 @@ export default async (req: Request, _context?: unknown): Promise<void> => {
     return;
   }
 
-  const featuresInput = await downloadJobFeatures(jobId);
+  const featuresInput = await loadSpeechJobFeatures(jobId);
   let roboticVoice: RoboticVoiceResult | null = null;
+  let enforcement: RoboticVoiceEnforcementDecision | null = null;
   if (featuresInput) {
-    roboticVoice = computeRoboticVoiceScore({
+    // Trained read-vs-speak model as an extra scorer signal (v2.5.0+), once it is ready
+    let learnedSpokenProbability: number | null = null;
+    try {
+      const model = await loadReadVsSpeakModel(sql);
+      const feats = extractReadVsSpeakFeatures(featuresInput);
+      if (isReadVsSpeakModelReady(model) && feats) {
+        learnedSpokenProbability = predictSpokenProbability(model, feats);
+      }
+    } catch (e) {
+      console.error('run-speech-analysis-background: read-vs-speak model unavailable', { jobId, e });
+    }
+    const scorerInput = {
       ...featuresInput,
       prompt_id: job.prompt_id,
       prompt_text: featuresInput.prompt_text ?? job.prompt ?? null,
-    });
+      learned_spoken_probability: learnedSpokenProbability,
+    };
+    roboticVoice = computeRoboticVoiceScore(scorerInput);
     console.log('run-speech-analysis-background: [robotic_voice]', {
       jobId,
+      version: roboticVoice._scorer_version,
       score: roboticVoice.score,
       flagged: roboticVoice.flagged,
       would_flag: roboticVoice.signals.would_flag,
       mode: roboticVoice._mode,
       rules_hit: roboticVoice.signals.rules_hit,
     });
+
+    // Shadow candidate: stored for comparison only, never affects the student's result
+    let shadowVoice: RoboticVoiceResult | null = null;
+    const shadowVersion = getShadowScorerVersion();
+    if (shadowVersion) {
+      try {
+        shadowVoice = computeShadowRoboticVoiceScore(scorerInput, shadowVersion);
+      } catch (e) {
+        console.error('run-speech-analysis-background: shadow scorer failed', { jobId, shadowVersion, e });
+      }
+    }
+    const shadowCols = roboticVoiceShadowToDbColumns(roboticVoice, shadowVoice);
+    if (shadowCols.shadow_disagrees) {
+      console.log('run-speech-analysis-background: [robotic_voice] shadow disagrees', {
+        jobId,
+        active: {
+          version: roboticVoice._scorer_version,
+          would_flag: roboticVoice.signals.would_flag,
+          delivery_mode: roboticVoice.signals.delivery_mode,
+        },
+        shadow: {
+          version: shadowVoice?._scorer_version,
+          would_flag: shadowVoice?.signals.would_flag,
+          delivery_mode: shadowVoice?.signals.delivery_mode,
+        },
+      });
+    }
+
+    // Enforcement: robotic_voice_policies (student > lesson > class > level > global), else ROBOTIC_VOICE_MODE
+    const wouldFlag = roboticVoice.signals.would_flag === true;
+    let policyContext: RoboticVoicePolicyContext = {
+      user_id: job.user_id,
+      lesson_id: job.lesson_id,
+      class_label: null,
+      level: job.cefr_level,
+    };
+    try {
+      policyContext = await loadRoboticVoicePolicyContext(sql, job);
+      const policies = await loadApplicableRoboticVoicePolicies(sql, policyContext);
+      enforcement = resolveRoboticVoiceEnforcement(policies, policyContext, wouldFlag);
+    } catch (e) {
+      console.error('run-speech-analysis-background: failed to load robotic-voice policies, using ROBOTIC_VOICE_MODE', {
+        jobId,
+        e,
+      });
+      enforcement = resolveRoboticVoiceEnforcement([], policyContext, wouldFlag);
+    }
+    roboticVoice = applyRoboticVoiceEnforcement(roboticVoice, enforcement);
+    if (wouldFlag) {
+      console.log('run-speech-analysis-background: [robotic_voice] enforcement', { jobId, ...enforcement });
+      try {
+        await recordRoboticVoiceEnforcement(sql, jobId, policyContext, roboticVoice, enforcement);
+      } catch (e) {
+        console.error('run-speech-analysis-background: failed to record enforcement decision', { jobId, e });
+      }
+    }
+
+    try {
+      await sql`
+        UPDATE speech_jobs
+        SET robotic_voice_scorer_version = ${shadowCols.scorer_version},
+            robotic_voice_shadow_version = ${shadowCols.shadow_version},
+            robotic_voice_shadow = ${shadowCols.shadow ? JSON.stringify(shadowCols.shadow) : null}::jsonb,
+            robotic_voice_shadow_disagrees = ${shadowCols.shadow_disagrees},
+            robotic_voice_enforcement = ${enforcement.action}
+        WHERE id = ${jobId}
+      `;
+    } catch (e) {
+      // Columns missing until the migrations run; scoring itself must not fail
+      console.error('run-speech-analysis-background: failed to store scorer version / shadow / enforcement', { jobId, e });
+    }
   } else {
     console.log('run-speech-analysis-background: [robotic_voice] skipped — no features JSON', { jobId });
   }
 
   if (roboticVoice?.flagged === true) {
     const errorMsg = roboticVoice.message;
-    const resultPayload = { reason: 'robotic_voice', robotic_voice: roboticVoice };
+    const resultPayload = {
+      reason: enforcement?.action === 'rerecord_required' ? 'robotic_voice_rerecord' : 'robotic_voice',
+      robotic_voice: roboticVoice,
+    };
     const rv = dbCols(roboticVoice);
     await sql`
       UPDATE speech_jobs
@@ -412,7 +516,19 @@ export default async (req: Request, _context?: unknown): Promise<void> => {
       job.transcript,
       job.prompt || 'Please respond to the speaking question.',
       job.cefr_level,
-      { skipQuestionRepetition: isWheelTopic || isImprovementRead }
+      {
+        skipQuestionRepetition: isWheelTopic || isImprovementRead,
+        onUsage: (usage) =>
+          recordAiUsage(sql, {
+            ...usage,
+            feature: 'speech_job',
+            // Charged to whoever uploaded, never to the client-supplied user_id
+            userId: job.caller_user_id,
+            role: job.caller_role,
+            lessonId: job.lesson_id,
+            metadata: { speech_job_id: jobId },
+          }),
+      }
     );
     if (result.success) {
       const feedback = result.feedback as any;
@@ -484,6 +600,15 @@ export default async (req: Request, _context?: unknown): Promise<void> => {
         if (roboticVoice) {
           feedback.robotic_voice = roboticVoice;
         }
+        try {
+          const pronunciation = readAloudPronunciation(featuresInput, job.prompt_id, job.transcript);
+          if (pronunciation) feedback.pronunciation = pronunciation;
+        } catch (e) {
+          console.error('run-speech-analysis-background: pronunciation assessment failed', { jobId, e });
+        }
+        if (enforcement?.action === 'warned') {
+          feedback.robotic_voice_warning = enforcement.message;
+        }
         const rv = dbCols(roboticVoice);
         await sql`
           UPDATE speech_jobs
@@ -1,13 +1,24 @@
 import { Handler } from '@netlify/functions';
-import OpenAI from 'openai';
 import { neon } from '@neondatabase/serverless';
 import { createClient } from '@supabase/supabase-js';
+import {
+  audioFileExtension,
+  getTranscriptionProvider,
+  type WhisperVerboseTranscript,
+} from './lib/transcription-provider';
+import { saveLocalSpeechFeatures } from './lib/local-speech-features';
+import {
+  aiQuotaResponse,
+  checkAiQuota,
+  estimateAudioSeconds,
+  recordAiUsage,
+  resolveAiCaller,
+  transcriptionUsage,
+} from './lib/ai-usage';
+import { checkRouteRateLimit, createRateLimitResponse } from './rate-limit';
 
 const SUPABASE_BUCKET = 'tutorcat';
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-
 const MAX_AUDIO_SIZE_BYTES = 20 * 1024 * 1024; // 20 MB
 const MAX_DURATION_SECONDS = 120; // 2 min
 
@@ -123,8 +134,24 @@ export const handler: Handler = async (event) => {
     };
   }
 
-  if (!OPENAI_API_KEY?.trim()) {
-    console.error('OPENAI_API_KEY missing');
+  const databaseUrl = process.env.NEON_DATABASE_URL;
+  const sql = databaseUrl ? neon(databaseUrl) : null;
+  const lessonId = typeof body.lesson_id === 'string' && body.lesson_id.trim() ? body.lesson_id.trim() : null;
+
+  // Throttle and charge the signed-in user (body.user_id is client-supplied); anonymous callers by IP
+  const caller = await resolveAiCaller(event, sql);
+  const rateLimit = await checkRouteRateLimit(event, 'speech_job_upload', { userId: caller?.userId });
+  if (!rateLimit.allowed) {
+    return createRateLimitResponse(rateLimit, corsHeaders);
+  }
+  const quota = await checkAiQuota(sql, caller);
+  if (!quota.allowed) {
+    return aiQuotaResponse(quota, corsHeaders);
+  }
+
+  const transcriber = getTranscriptionProvider('openai');
+  if (!transcriber.isConfigured()) {
+    console.error(`speech-job: ${transcriber.name} transcription provider not configured`);
     return {
       statusCode: 500,
       headers: corsHeaders,
@@ -133,33 +160,27 @@ export const handler: Handler = async (event) => {
   }
 
   const mimeType = body.audio_mime_type || 'audio/webm';
-  let fileExtension = 'webm';
-  const normalizedMime = mimeType.toLowerCase().split(';')[0].trim();
-  if (normalizedMime.includes('mp4') || normalizedMime.includes('m4a')) fileExtension = 'm4a';
-  else if (normalizedMime.includes('wav')) fileExtension = 'wav';
-  else if (normalizedMime.includes('mp3') || normalizedMime.includes('mpeg')) fileExtension = 'mp3';
-
-  const audioFile = new File([new Uint8Array(audioBuffer)], `audio.${fileExtension}`, { type: mimeType });
+  const fileExtension = audioFileExtension(mimeType);
 
   let transcript: string;
-  let whisperVerboseRaw: any | null = null;
+  let whisperVerbose: WhisperVerboseTranscript | null = null;
   try {
-    const result = await openai.audio.transcriptions.create({
-      file: audioFile,
-      model: 'whisper-1',
-      language: 'en',
-      // Use verbose_json so we can later use segments, timing, and confidence signals
-      // for read-vs-speak and delivery analysis.
-      response_format: 'verbose_json',
-      temperature: 0,
-    });
-    // Log raw Whisper API response (terminal/console)
-    console.log('speech-job: [Whisper raw output]', JSON.stringify(result, null, 2));
-    whisperVerboseRaw = result;
-    transcript = (result as { text?: string }).text?.trim() || '';
+    const result = await transcriber.transcribe({ audio: audioBuffer, mimeType });
+    const usage = transcriptionUsage(result, estimateAudioSeconds(audioBuffer.length, mimeType));
+    if (usage) {
+      await recordAiUsage(sql, {
+        ...usage,
+        feature: 'speech_job',
+        userId: caller?.userId ?? null,
+        role: caller?.role ?? null,
+        lessonId,
+      });
+    }
+    whisperVerbose = result.whisper_verbose;
+    transcript = result.text;
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : 'Transcription failed';
-    console.error('Whisper error:', err);
+    console.error(`Transcription error (${transcriber.name}):`, err);
     return {
       statusCode: 500,
       headers: corsHeaders,
@@ -181,8 +202,7 @@ export const handler: Handler = async (event) => {
     };
   }
 
-  const databaseUrl = process.env.NEON_DATABASE_URL;
-  if (!databaseUrl) {
+  if (!sql) {
     console.error('NEON_DATABASE_URL not configured');
     return {
       statusCode: 500,
@@ -191,13 +211,16 @@ export const handler: Handler = async (event) => {
     };
   }
 
-  const sql = neon(databaseUrl);
   const minWords = typeof body.min_words === 'number' ? body.min_words : null;
-  const lessonId = typeof body.lesson_id === 'string' && body.lesson_id.trim() ? body.lesson_id.trim() : null;
 
   const rows = await sql`
-    INSERT INTO speech_jobs (user_id, lesson_id, transcript, status, prompt, prompt_id, cefr_level, min_words, updated_at)
-    VALUES (${body.user_id || null}, ${lessonId}, ${transcript}, 'processing', ${body.prompt.trim()}, ${body.prompt_id || null}, ${body.cefr_level || null}, ${minWords}, NOW())
+    INSERT INTO speech_jobs (
+      user_id, caller_user_id, caller_role, lesson_id, transcript, status, prompt, prompt_id, cefr_level, min_words, updated_at
+    )
+    VALUES (
+      ${body.user_id || null}, ${caller?.userId ?? null}, ${caller?.role ?? null}, ${lessonId}, ${transcript}, 'processing',
+      ${body.prompt.trim()}, ${body.prompt_id || null}, ${body.cefr_level || null}, ${minWords}, NOW()
+    )
     RETURNING id
   `;
 
@@ -213,42 +236,15 @@ export const handler: Handler = async (event) => {
 
   const jobId = row.id;
 
-  // Helper: trim Whisper verbose_json to minimal structure for read-vs-speak and analysis.
-  const buildMinimalWhisperVerbose = (raw: any) => {
-    if (!raw || typeof raw !== 'object') return null;
-    const segments = Array.isArray(raw.segments)
-      ? raw.segments.map((s: any) => ({
-          start: s.start,
-          end: s.end,
-          text: s.text,
-          avg_logprob: s.avg_logprob,
-          no_speech_prob: s.no_speech_prob,
-          compression_ratio: s.compression_ratio,
-          words: Array.isArray(s.words)
-            ? s.words.map((w: any) => ({
-                word: w.word,
-                start: w.start,
-                end: w.end,
-                probability: w.probability,
-              }))
-            : undefined,
-        }))
-      : undefined;
-    const topWords = Array.isArray(raw.words)
-      ? raw.words.map((w: any) => ({
-          word: w.word,
-          start: w.start,
-          end: w.end,
-          probability: w.probability,
-        }))
-      : undefined;
-    return {
-      text: (raw as any).text,
-      duration: (raw as any).duration,
-      language: (raw as any).language,
-      segments,
-      words: topWords,
-    };
+  // Sidecar JSON with Whisper minimal verbose output + browser rhythm features for this job.
+  const featuresPayload = {
+    jobId,
+    whisper_verbose: whisperVerbose,
+    browser_rhythm: body.browser_rhythm || null,
+    activity_type: body.activity_type || null,
+    reference_text: body.reference_text || null,
+    prompt_text: body.prompt.trim(),
+    created_at: new Date().toISOString(),
   };
 
   // Upload audio (and sidecar JSON with Whisper + browser rhythm features) to Supabase Storage.
@@ -264,17 +260,6 @@ export const handler: Handler = async (event) => {
       });
       if (error) console.error('speech-job: Supabase audio upload failed', error);
 
-       // Sidecar JSON with Whisper minimal verbose output + browser rhythm features for this job.
-       const minimalWhisper = buildMinimalWhisperVerbose(whisperVerboseRaw);
-       const featuresPayload = {
-         jobId,
-         whisper_verbose: minimalWhisper,
-         browser_rhythm: body.browser_rhythm || null,
-         activity_type: body.activity_type || null,
-         reference_text: body.reference_text || null,
-         prompt_text: body.prompt.trim(),
-         created_at: new Date().toISOString(),
-       };
        const featuresPath = `${jobId}.features.JSON`;
        const { error: featuresError } = await supabase.storage
          .from(SUPABASE_BUCKET)
@@ -286,6 +271,9 @@ export const handler: Handler = async (event) => {
     } catch (e) {
       console.error('speech-job: Supabase audio upload error', e);
     }
+  } else {
+    // Offline / test setups: keep the sidecar on disk so the background analysis can still score it
+    saveLocalSpeechFeatures(jobId, featuresPayload);
   }
 
   // Do NOT trigger background here. Client triggers it after getting jobId so it works
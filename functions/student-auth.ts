@@ -1,6 +1,5 @@
-import * as jwt from 'jsonwebtoken';
 import { neon } from '@neondatabase/serverless';
-import { extractTokenFromCookies } from './auth-validate-jwt.js';
+import { authenticate } from './lib/auth.js';
 
 export interface StudentAuthUser {
   id: string;
@@ -17,37 +16,25 @@ export interface StudentAuthUser {
 
 export async function requireStudentAuth(event: {
   headers?: Record<string, string | undefined>;
-}): Promise<{ ok: true; user: StudentAuthUser } | { ok: false; statusCode: number; error: string }> {
-  const cookies = event.headers?.cookie || '';
-  const token = extractTokenFromCookies(cookies);
-
-  if (!token) {
-    return { ok: false, statusCode: 401, error: 'Authentication required' };
-  }
-
-  const jwtSecret = process.env.JWT_SECRET;
-  if (!jwtSecret) {
-    return { ok: false, statusCode: 500, error: 'JWT configuration error' };
-  }
-
-  let decoded: { userId?: string; role?: string };
-  try {
-    decoded = jwt.verify(token, jwtSecret) as { userId?: string; role?: string };
-  } catch {
-    return { ok: false, statusCode: 401, error: 'Invalid or expired token' };
-  }
-
+}): Promise<
+  { ok: true; user: StudentAuthUser } | { ok: false; statusCode: number; error: string; code?: string }
+> {
   const databaseUrl = process.env.NEON_DATABASE_URL;
   if (!databaseUrl) {
     return { ok: false, statusCode: 500, error: 'Database configuration error' };
   }
 
   const sql = neon(databaseUrl);
+  const auth = await authenticate(event, { roles: ['student'] }, sql);
+  if (!auth.ok) {
+    return { ok: false, statusCode: auth.statusCode, error: auth.error, code: auth.code };
+  }
+
   const rows = await sql`
     SELECT id, email, username, first_name, last_name, role,
-           school_student_id, honorific, nickname, current_student_lesson, session_revoked_at
+           school_student_id, honorific, nickname, current_student_lesson
     FROM users
-    WHERE id = ${decoded.userId}
+    WHERE id = ${auth.identity.userId}
   `;
 
   if (!rows.length) {
@@ -65,20 +52,8 @@ export async function requireStudentAuth(event: {
     honorific: string | null;
     nickname: string | null;
     current_student_lesson: number | null;
-    session_revoked_at: string | null;
   };
 
-  if (row.session_revoked_at && decoded && 'iat' in decoded) {
-    const tokenIssuedAt = new Date((decoded as { iat: number }).iat * 1000);
-    if (tokenIssuedAt < new Date(row.session_revoked_at)) {
-      return { ok: false, statusCode: 401, error: 'Session has been revoked' };
-    }
-  }
-
-  if (row.role !== 'student') {
-    return { ok: false, statusCode: 403, error: 'Student access only' };
-  }
-
   return {
     ok: true,
     user: {
@@ -0,0 +1,148 @@
+import { Handler } from '@netlify/functions';
+import { neon, type NeonQueryFunction } from '@neondatabase/serverless';
+import { getHeaders } from './cors-headers';
+import { requireStudentAuth } from './student-auth.js';
+import { startIdempotentRequest, type IdempotentRequest } from './idempotency.js';
+import { applyPracticeResults, syncMistakeNotebook } from './lib/mistake-notebook.js';
+
+interface PracticeBody {
+  results?: Array<{ mistake_id?: unknown; correct?: unknown }>;
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+async function loadMistakes(sql: NeonQueryFunction<false, false>, userId: string) {
+  const rows = (await sql`
+    SELECT id, source, kind, mistake, correction, context, pattern_key, occurrences,
+           practice_attempts, practice_correct, first_seen_at, last_seen_at, resolved_at
+    FROM student_mistakes
+    WHERE user_id = ${userId}
+    ORDER BY last_seen_at DESC
+  `) as Record<string, unknown>[];
+  return rows.map((m) => ({
+    ...m,
+    first_seen_at: new Date(m.first_seen_at as string).toISOString(),
+    last_seen_at: new Date(m.last_seen_at as string).toISOString(),
+    resolved_at: m.resolved_at ? new Date(m.resolved_at as string).toISOString() : null,
+  }));
+}
+
+/**
+ * GET  — reads the student's new activity results into their mistake notebook and returns it.
+ * POST — { results: [{ mistake_id, correct }] } from a finished re-practice session; updates the
+ *        practice streaks (two right-first-time answers in a row resolve a mistake) and returns the
+ *        notebook.
+ */
+const handler: Handler = async (event) => {
+  const headers = getHeaders(event, true);
+
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  if (event.httpMethod !== 'GET' && event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  let idem: IdempotentRequest | null = null;
+
+  try {
+    const auth = await requireStudentAuth(event);
+    if (!auth.ok) {
+      return {
+        statusCode: auth.statusCode,
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ success: false, error: auth.error }),
+      };
+    }
+
+    const databaseUrl = process.env.NEON_DATABASE_URL;
+    if (!databaseUrl) {
+      return {
+        statusCode: 500,
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ success: false, error: 'Database configuration error' }),
+      };
+    }
+
+    const sql = neon(databaseUrl);
+    const userId = auth.user.id;
+
+    if (event.httpMethod === 'GET') {
+      await syncMistakeNotebook(sql, [userId]);
+      return {
+        statusCode: 200,
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ success: true, mistakes: await loadMistakes(sql, userId) }),
+      };
+    }
+
+    let body: PracticeBody;
+    try {
+      body = JSON.parse(event.body || '{}');
+    } catch {
+      return {
+        statusCode: 400,
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ success: false, error: 'Invalid JSON payload' }),
+      };
+    }
+
+    const outcomes = new Map<string, boolean>();
+    for (const result of Array.isArray(body.results) ? body.results : []) {
+      if (
+        typeof result?.mistake_id !== 'string' ||
+        !UUID_RE.test(result.mistake_id) ||
+        typeof result.correct !== 'boolean'
+      ) {
+        return {
+          statusCode: 400,
+          headers: { ...headers, 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            success: false,
+            error: 'Each result needs a mistake_id and a boolean correct',
+          }),
+        };
+      }
+      outcomes.set(result.mistake_id, result.correct);
+    }
+
+    if (outcomes.size === 0) {
+      return {
+        statusCode: 400,
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ success: false, error: 'results is required' }),
+      };
+    }
+
+    // A replayed session must not count twice toward a mistake's practice streak
+    idem = await startIdempotentRequest(sql, event, userId, 'student-mistakes', headers);
+    if (idem.replay) return idem.replay;
+
+    const practiced = await applyPracticeResults(sql, userId, outcomes);
+
+    return idem.finish({
+      statusCode: 200,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: true, practiced, mistakes: await loadMistakes(sql, userId) }),
+    });
+  } catch (error) {
+    console.error('student-mistakes error:', error);
+    await idem?.release();
+    return {
+      statusCode: 500,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
+
+export { handler };
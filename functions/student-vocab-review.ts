@@ -0,0 +1,158 @@
+import { Handler } from '@netlify/functions';
+import { neon } from '@neondatabase/serverless';
+import { getHeaders } from './cors-headers';
+import { requireStudentAuth } from './student-auth.js';
+import { startIdempotentRequest, type IdempotentRequest } from './idempotency.js';
+import { applyReviewQualities, reviewSummary, syncReviewDeck } from './lib/vocab-review.js';
+import type { ReviewQuality } from '../src/lib/vocabReview.js';
+
+/** Cards per daily session; the rest stay due for the next one */
+const SESSION_SIZE = 20;
+const DISTRACTOR_COUNT = 12;
+
+interface ReviewBody {
+  reviews?: Array<{ word_key?: unknown; quality?: unknown }>;
+}
+
+/**
+ * GET  — syncs the student's deck and returns today's due cards plus other deck words to use as
+ *        distractors.
+ * POST — { reviews: [{ word_key, quality }] } from a finished review session; reschedules the
+ *        cards (SM-2) and returns the new due counts.
+ */
+const handler: Handler = async (event) => {
+  const headers = getHeaders(event, true);
+
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  if (event.httpMethod !== 'GET' && event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  let idem: IdempotentRequest | null = null;
+
+  try {
+    const auth = await requireStudentAuth(event);
+    if (!auth.ok) {
+      return {
+        statusCode: auth.statusCode,
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ success: false, error: auth.error }),
+      };
+    }
+
+    const databaseUrl = process.env.NEON_DATABASE_URL;
+    if (!databaseUrl) {
+      return {
+        statusCode: 500,
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ success: false, error: 'Database configuration error' }),
+      };
+    }
+
+    const sql = neon(databaseUrl);
+    const userId = auth.user.id;
+
+    if (event.httpMethod === 'GET') {
+      await syncReviewDeck(sql, userId);
+
+      const [cards, distractors, summary] = await Promise.all([
+        sql`
+          SELECT id, word_key, english_word, thai_translation, image_url, emoji, audio_url,
+                 repetitions, interval_days, lapses, due_at
+          FROM student_vocab_cards
+          WHERE user_id = ${userId} AND due_at <= NOW()
+          ORDER BY due_at, created_at
+          LIMIT ${SESSION_SIZE}
+        `,
+        sql`
+          SELECT english_word
+          FROM student_vocab_cards
+          WHERE user_id = ${userId} AND due_at > NOW()
+          ORDER BY random()
+          LIMIT ${DISTRACTOR_COUNT}
+        `,
+        reviewSummary(sql, userId),
+      ]);
+
+      return {
+        statusCode: 200,
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          success: true,
+          cards: cards.map((c) => ({ ...c, due_at: new Date(c.due_at as string).toISOString() })),
+          distractors: distractors.map((d) => d.english_word),
+          ...summary,
+        }),
+      };
+    }
+
+    let body: ReviewBody;
+    try {
+      body = JSON.parse(event.body || '{}');
+    } catch {
+      return {
+        statusCode: 400,
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ success: false, error: 'Invalid JSON payload' }),
+      };
+    }
+
+    const qualities = new Map<string, ReviewQuality>();
+    for (const review of Array.isArray(body.reviews) ? body.reviews : []) {
+      const quality = Number(review?.quality);
+      if (typeof review?.word_key !== 'string' || !Number.isInteger(quality) || quality < 0 || quality > 5) {
+        return {
+          statusCode: 400,
+          headers: { ...headers, 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            success: false,
+            error: 'Each review needs a word_key and an integer quality from 0 to 5',
+          }),
+        };
+      }
+      qualities.set(review.word_key, quality as ReviewQuality);
+    }
+
+    if (qualities.size === 0) {
+      return {
+        statusCode: 400,
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ success: false, error: 'reviews is required' }),
+      };
+    }
+
+    // A replayed session must not count as a second review of the same cards
+    idem = await startIdempotentRequest(sql, event, userId, 'student-vocab-review', headers);
+    if (idem.replay) return idem.replay;
+
+    const reviewed = await applyReviewQualities(sql, userId, qualities);
+    const summary = await reviewSummary(sql, userId);
+
+    return idem.finish({
+      statusCode: 200,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ success: true, reviewed, ...summary }),
+    });
+  } catch (error) {
+    console.error('student-vocab-review error:', error);
+    await idem?.release();
+    return {
+      statusCode: 500,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
+
+export { handler };
@@ -1,6 +1,15 @@
 import { Handler } from '@netlify/functions';
-import { neon } from '@neondatabase/serverless';
+import { neon, type NeonQueryFunction } from '@neondatabase/serverless';
 import { validateJWT } from './auth-validate-jwt.js';
+import { gradeWriting, type WritingGrade } from './lib/writing-grader.js';
+import {
+  AdaptiveSequenceError,
+  estimateToPercentage,
+  replayAdaptivePlacement,
+  splitAdaptiveQuestions,
+  type AdaptiveResponse,
+  type AdaptiveState,
+} from './lib/adaptive-placement.js';
 
 interface EvaluationSubmission {
   results: any;
@@ -62,6 +71,104 @@ function sanitizeForDatabase(obj: any): any {
   return obj;
 }
 
+const EVALUATION_TEST_ID = 'EVAL-1';
+const DEFAULT_WRITING_POINTS = 10;
+
+interface GradedWritingAnswer extends WritingGrade {
+  questionId: string;
+  prompt: string;
+  score: number;
+  maxScore: number;
+}
+
+// Mirrors CEFR_MAPPING / calculateLevelFromScores in src/lib/evaluationConfig.ts (speaking 70%, test 30%)
+const CEFR_BANDS: Array<{ min: number; level: string }> = [
+  { min: 90, level: 'C2' },
+  { min: 80, level: 'C1' },
+  { min: 70, level: 'B2' },
+  { min: 60, level: 'B1' },
+  { min: 40, level: 'A2' },
+  { min: 20, level: 'A1' },
+  { min: 0, level: 'Pre-A1' }
+];
+
+function levelFromScores(speakingPercentage: number, testPercentage: number): string {
+  const overall = speakingPercentage * 0.7 + testPercentage * 0.3;
+  return CEFR_BANDS.find(band => overall >= band.min)?.level || 'A1';
+}
+
+function averageSpeakingPercentage(answers: Record<string, any>): number {
+  const scores: number[] = [];
+  Object.values(answers).forEach((answer: any) => {
+    if (answer?.feedback?.overall_score !== undefined) scores.push(Number(answer.feedback.overall_score) || 0);
+    if (answer?.result?.feedback?.overall_score !== undefined) scores.push(Number(answer.result.feedback.overall_score) || 0);
+  });
+  return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+}
+
+// Answers are keyed by question id after sanitizeForDatabase, so ids are normalised the same way
+function answerKey(questionId: unknown): string {
+  return String(questionId).replace(/[^a-zA-Z0-9_]/g, '_');
+}
+
+// Scoring depends on the stored questions, so a failed load fails the submission rather than
+// falling back to the client's scores
+async function loadEvaluationTest(sql: NeonQueryFunction<false, false>): Promise<{ questions: any[]; adaptive: boolean }> {
+  const rows = (await sql`
+    SELECT questions, adaptive FROM evaluation_test WHERE id = ${EVALUATION_TEST_ID}
+  `) as Array<{ questions: any; adaptive: boolean | null }>;
+  return {
+    questions: Array.isArray(rows[0]?.questions) ? rows[0].questions : [],
+    adaptive: rows[0]?.adaptive === true
+  };
+}
+
+/** Grade every writing answer against the prompts stored on the evaluation test, ignoring client scores and flags. */
+async function gradeWritingAnswers(questions: any[], answers: Record<string, any>): Promise<GradedWritingAnswer[]> {
+  const writingQuestions = questions.filter(q => q?.question_type === 'writing');
+  const graded = await Promise.all(writingQuestions.map(async (question): Promise<GradedWritingAnswer | null> => {
+    const key = answerKey(question.id);
+    const answer = answers[key];
+    if (!answer || typeof answer !== 'object') return null;
+    const grade = await gradeWriting({
+      prompt: String(question.prompt || ''),
+      text: typeof answer.answer === 'string' ? answer.answer : '',
+      min_words: Number(question.content?.min_words) || null,
+    });
+    if (!grade) {
+      // Whatever score the client attached never counts; the answer stays out of the totals
+      answers[key] = { answer: answer.answer, pending_grading: true };
+      return null;
+    }
+    const maxScore = Number(question.points) || DEFAULT_WRITING_POINTS;
+    const score = Math.round((grade.percentage / 100) * maxScore);
+    answers[key] = { ...answer, score, maxScore, pending_grading: false, writing_grade: grade };
+    return { ...grade, questionId: String(question.id), prompt: String(question.prompt || ''), score, maxScore };
+  }));
+  return graded.filter((g): g is GradedWritingAnswer => g !== null);
+}
+
+/**
+ * Re-score the adaptive items from the replayed path (the server decides correctness) and return
+ * the points the adaptive section was worth.
+ */
+function scoreAdaptiveAnswers(questions: any[], state: AdaptiveState, answers: Record<string, any>): number {
+  // Pool items that were never served carry no score, whatever the client sent for them
+  const served = new Set(state.path.map(step => step.question_id));
+  for (const question of splitAdaptiveQuestions(questions).pool) {
+    if (!served.has(question.id)) delete answers[answerKey(question.id)];
+  }
+  let adaptiveMax = 0;
+  for (const step of state.path) {
+    const question = questions.find(q => q?.id === step.question_id);
+    const maxScore = Number(question?.points) || 1;
+    const key = answerKey(step.question_id);
+    answers[key] = { ...(answers[key] || {}), score: step.correct ? maxScore : 0, maxScore, adaptive: true };
+    adaptiveMax += maxScore;
+  }
+  return adaptiveMax;
+}
+
 const handler: Handler = async (event, context) => {
   // Only allow POST requests
   if (event.httpMethod !== 'POST') {
@@ -149,13 +256,96 @@ const handler: Handler = async (event, context) => {
       timeSpent = evaluationResult.timeSpent || 0;
     }
 
+    // Writing answers (whatever the client says about them) and adaptive answers (which must follow
+    // the served path) are re-scored here. Writing answers that could not be graded are left out of
+    // the totals.
+    let writingGrades: GradedWritingAnswer[] = [];
+    let adaptiveState: AdaptiveState | null = null;
+    let calculatedLevel = submission.calculatedLevel;
+    let answers = evaluationResult?.answers && typeof evaluationResult.answers === 'object'
+      ? evaluationResult.answers as Record<string, any>
+      : null;
+    const rawResponses = evaluationResult?.adaptive?.responses;
+    const adaptiveResponses: AdaptiveResponse[] | null =
+      Array.isArray(rawResponses) &&
+      rawResponses.every((r: any) =>
+        r && typeof r === 'object' &&
+        (typeof r.question_id === 'string' || typeof r.question_id === 'number') &&
+        String(r.question_id) !== '')
+        ? rawResponses.map((r: any) => ({ question_id: String(r.question_id), answer: r.answer }))
+        : null;
+    const test = await loadEvaluationTest(sql);
+    // An adaptive test is only ever scored from the replayed path, never from the client's totals
+    if (test.adaptive && !adaptiveResponses) {
+      return {
+        statusCode: 400,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ success: false, error: 'Adaptive answers missing or malformed' })
+      } as any;
+    }
+    if (test.adaptive && !answers) {
+      answers = {};
+      evaluationResult.answers = answers;
+    }
+    const hasWriting = test.questions.some(q => q?.question_type === 'writing');
+    if (answers && (hasWriting || test.adaptive)) {
+      let adaptiveMax = 0;
+      if (test.adaptive && adaptiveResponses) {
+        try {
+          adaptiveState = replayAdaptivePlacement(test.questions, adaptiveResponses);
+        } catch (error) {
+          if (error instanceof AdaptiveSequenceError) {
+            return {
+              statusCode: 400,
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ success: false, error: `Adaptive answers out of sequence: ${error.message}` })
+            } as any;
+          }
+          throw error;
+        }
+        // A path cut short would otherwise be scored as a (cheaper) finished placement
+        if (!adaptiveState.done) {
+          return {
+            statusCode: 400,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ success: false, error: 'Adaptive section not finished' })
+          } as any;
+        }
+        adaptiveMax = scoreAdaptiveAnswers(test.questions, adaptiveState, answers);
+      }
+      if (hasWriting) {
+        writingGrades = await gradeWritingAnswers(test.questions, answers);
+      }
+
+      totalScore = 0;
+      maxScore = 0;
+      let adaptiveScore = 0;
+      Object.values(answers).forEach((answer: any) => {
+        if (!answer || typeof answer !== 'object' || answer.pending_grading === true) return;
+        totalScore += Number(answer.score) || 0;
+        maxScore += Number(answer.maxScore) || 0;
+        if (answer.adaptive === true) adaptiveScore += Number(answer.score) || 0;
+      });
+      const testPercentage = maxScore > 0 ? Math.round((totalScore / maxScore) * 100) : 0;
+      evaluationResult.score = totalScore;
+      evaluationResult.maxScore = maxScore;
+      evaluationResult.percentage = testPercentage;
+
+      // Adaptive items converge on ~50% correct by design, so for the level the adaptive section
+      // counts at the ability estimate rather than its raw score
+      const levelPercentage = adaptiveState && maxScore > 0
+        ? Math.round(((totalScore - adaptiveScore + (estimateToPercentage(adaptiveState.estimate) / 100) * adaptiveMax) / maxScore) * 100)
+        : testPercentage;
+      calculatedLevel = levelFromScores(averageSpeakingPercentage(answers), levelPercentage);
+    }
+
     // Debug: Log what we're about to write to DB
     console.log('📊 Evaluation submission data:', {
       userId,
       totalScore,
       maxScore,
       timeSpent,
-      calculatedLevel: submission.calculatedLevel,
+      calculatedLevel: calculatedLevel,
       evaluationResult: JSON.stringify(evaluationResult, null, 2).substring(0, 500)
     });
 
@@ -165,7 +355,16 @@ const handler: Handler = async (event, context) => {
     // Prepare question_results - store the full evaluation results
     const questionResults = {
       evaluation: evaluationResult,
-      answers: evaluationResult?.answers || {}
+      answers: evaluationResult?.answers || {},
+      adaptive: adaptiveState
+        ? {
+            ability: adaptiveState.ability,
+            estimate: adaptiveState.estimate,
+            level: adaptiveState.level,
+            stop_reason: adaptiveState.stop_reason,
+            path: adaptiveState.path
+          }
+        : null
     };
 
     console.log('💾 Writing to evaluation_results table:', {
@@ -176,7 +375,7 @@ const handler: Handler = async (event, context) => {
       overall_percentage: overallPercentage,
       passed,
       time_spent: timeSpent || null,
-      calculated_level: submission.calculatedLevel,
+      calculated_level: calculatedLevel,
       question_results_keys: Object.keys(questionResults),
       completed_at: submission.completedAt
     });
@@ -203,7 +402,7 @@ const handler: Handler = async (event, context) => {
         ${overallPercentage}, 
         ${passed},
         ${timeSpent || null},
-        ${submission.calculatedLevel}, 
+        ${calculatedLevel}, 
         ${JSON.stringify(questionResults)}, 
         ${submission.completedAt}
       )
@@ -221,7 +420,7 @@ const handler: Handler = async (event, context) => {
     // Update user level and evaluation test result in users table
     const evalTestResult = {
       evaluationId: insertedResult[0].id,
-      calculatedLevel: submission.calculatedLevel,
+      calculatedLevel: calculatedLevel,
       overallScore: totalScore,
       maxScore: maxScore,
       overallPercentage,
@@ -232,7 +431,7 @@ const handler: Handler = async (event, context) => {
     try {
       await sql`
         UPDATE users
-        SET level = ${submission.calculatedLevel},
+        SET level = ${calculatedLevel},
             eval_test_result = ${JSON.stringify(evalTestResult)}
         WHERE id = ${userId}
       `;
@@ -247,10 +446,12 @@ const handler: Handler = async (event, context) => {
       body: JSON.stringify({
         success: true,
         evaluationId: insertedResult[0].id,
-        calculatedLevel: submission.calculatedLevel,
+        calculatedLevel: calculatedLevel,
         overallScore: totalScore,
         maxScore: maxScore,
-        overallPercentage
+        overallPercentage,
+        writingGrades,
+        adaptive: questionResults.adaptive
       })
     } as any;
 
@@ -1,6 +1,7 @@
 import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
 import { validateJWT } from './auth-validate-jwt.js';
+import { startIdempotentRequest, type IdempotentRequest } from './idempotency.js';
 
 interface LessonActivitySubmission {
   lessonId: string;
@@ -27,6 +28,8 @@ const handler: Handler = async (event, context) => {
     } as any;
   }
 
+  let idem: IdempotentRequest | null = null;
+
   try {
     // Validate authentication
     const cookies = event.headers?.cookie || '';
@@ -84,6 +87,10 @@ const handler: Handler = async (event, context) => {
       } as any;
     }
 
+    // Retries from BackgroundSaveQueue reuse the key: replay instead of adding the score again
+    idem = await startIdempotentRequest(sql, event, userId, 'submit-lesson-activity', {});
+    if (idem.replay) return idem.replay as any;
+
     // Store submission for error logging
     const submissionForLogging = {
       lessonId: submission.lessonId,
@@ -222,17 +229,18 @@ const handler: Handler = async (event, context) => {
       `;
     }
 
-    return {
+    return idem.finish({
       statusCode: 200,
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         success: true,
         message: 'Lesson activity submitted successfully'
       })
-    } as any;
+    }) as any;
 
   } catch (error) {
     console.error('Lesson activity submission error:', error);
+    await idem?.release();
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     const errorStack = error instanceof Error ? error.stack : undefined;
     
@@ -15,6 +15,7 @@
 import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
 import { validateJWT } from './auth-validate-jwt.js';
+import { startIdempotentRequest, type IdempotentRequest } from './idempotency.js';
 
 interface LessonSubmission {
   lessonId: string;
@@ -47,6 +48,8 @@ const handler: Handler = async (event, context) => {
   // Log deprecation warning
   console.warn('[DEPRECATED] submit-lesson-results endpoint is deprecated. Use finalize-lesson instead.');
 
+  let idem: IdempotentRequest | null = null;
+
   try {
     // Validate authentication
     const cookies = event.headers?.cookie || '';
@@ -95,6 +98,10 @@ const handler: Handler = async (event, context) => {
 
     const sql = neon(databaseUrl);
 
+    // A replay must not add attempts or stars a second time
+    idem = await startIdempotentRequest(sql, event, userId, 'submit-lesson-results', {});
+    if (idem.replay) return idem.replay as any;
+
     // Calculate final results
     const totalScore = submission.results.reduce((sum, result) => sum + result.score, 0);
     const maxScore = submission.results.reduce((sum, result) => sum + result.maxScore, 0);
@@ -132,7 +139,7 @@ const handler: Handler = async (event, context) => {
       // Commit transaction
       await sql`COMMIT`;
 
-      return {
+      return idem.finish({
         statusCode: 200,
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -149,7 +156,7 @@ const handler: Handler = async (event, context) => {
             totalActivities: submission.totalActivities
           }
         })
-      } as any;
+      }) as any;
 
     } catch (dbError) {
       // Rollback transaction on error
@@ -159,6 +166,7 @@ const handler: Handler = async (event, context) => {
 
   } catch (error) {
     console.error('Lesson submission error:', error);
+    await idem?.release();
     return {
       statusCode: 500,
       headers: { 'Content-Type': 'application/json' },
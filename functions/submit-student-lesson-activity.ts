@@ -2,12 +2,18 @@ import { Handler } from '@netlify/functions';
 import { neon, NeonQueryFunction } from '@neondatabase/serverless';
 import { getHeaders } from './cors-headers';
 import { requireStudentAuth } from './student-auth.js';
+import { getIdempotencyKey, startIdempotentRequest, type IdempotentRequest } from './idempotency.js';
+import { snapshotLessonVersion } from './lib/lesson-versions.js';
+import { recordActivityReview } from './lib/vocab-review.js';
+import { isVocabReviewActivity } from '../src/lib/vocabReview.js';
 
 interface Submission {
   studentLessonId: string;
   activityId?: string;
   activityType: string;
   activityOrder: number;
+  /** student_lessons.version the client rendered; informational, the pinned or latest version is used */
+  lessonVersion?: number;
   score?: number;
   maxScore?: number;
   attempts?: number;
@@ -38,6 +44,7 @@ async function upsertActivityResult(
     activityId: string | null;
     activityType: string;
     activityOrder: number;
+    lessonVersion: number | null;
     activityScore: number;
     activityMaxScore: number;
     attempts: number;
@@ -45,6 +52,7 @@ async function upsertActivityResult(
     completedAt: string;
     answersJson: string;
     feedbackJson: string;
+    clientSubmissionId: string | null;
   }
 ): Promise<void> {
   const {
@@ -53,6 +61,7 @@ async function upsertActivityResult(
     activityId,
     activityType,
     activityOrder,
+    lessonVersion,
     activityScore,
     activityMaxScore,
     attempts,
@@ -60,6 +69,7 @@ async function upsertActivityResult(
     completedAt,
     answersJson,
     feedbackJson,
+    clientSubmissionId,
   } = params;
 
   // Match by activity_id when present, else by activity_order (works without partial-index ON CONFLICT)
@@ -92,13 +102,16 @@ async function upsertActivityResult(
         activity_id = ${activityId},
         activity_type = ${activityType},
         activity_order = ${activityOrder},
+        lesson_version = ${lessonVersion},
         score = ${activityScore},
         max_score = ${activityMaxScore},
         attempts = ${attempts},
         time_spent = ${timeSpent},
         completed_at = ${completedAt}::timestamp,
         answers = ${answersJson}::jsonb,
-        feedback = ${feedbackJson}::jsonb
+        feedback = ${feedbackJson}::jsonb,
+        client_submission_id = ${clientSubmissionId},
+        mistakes_recorded_at = NULL
       WHERE id = ${existingId}
     `;
     return;
@@ -106,12 +119,14 @@ async function upsertActivityResult(
 
   await sql`
     INSERT INTO student_lesson_activity_results (
-      user_id, student_lesson_id, activity_id, activity_type, activity_order,
-      score, max_score, attempts, time_spent, completed_at, answers, feedback
+      user_id, student_lesson_id, activity_id, activity_type, activity_order, lesson_version,
+      score, max_score, attempts, time_spent, completed_at, answers, feedback,
+      client_submission_id
     ) VALUES (
-      ${userId}, ${studentLessonId}, ${activityId}, ${activityType}, ${activityOrder},
+      ${userId}, ${studentLessonId}, ${activityId}, ${activityType}, ${activityOrder}, ${lessonVersion},
       ${activityScore}, ${activityMaxScore}, ${attempts}, ${timeSpent},
-      ${completedAt}::timestamp, ${answersJson}::jsonb, ${feedbackJson}::jsonb
+      ${completedAt}::timestamp, ${answersJson}::jsonb, ${feedbackJson}::jsonb,
+      ${clientSubmissionId}
     )
   `;
 }
@@ -131,6 +146,8 @@ const handler: Handler = async (event) => {
     };
   }
 
+  let idem: IdempotentRequest | null = null;
+
   try {
     const auth = await requireStudentAuth(event);
     if (!auth.ok) {
@@ -174,6 +191,37 @@ const handler: Handler = async (event) => {
 
     const sql = neon(databaseUrl);
     const userId = auth.user.id;
+    const clientSubmissionId = getIdempotencyKey(event);
+
+    idem = await startIdempotentRequest(sql, event, userId, 'submit-student-lesson-activity', headers);
+    if (idem.replay) return idem.replay;
+
+    // Outbox entries can be replayed days later, after the idempotency_keys row expired
+    if (clientSubmissionId) {
+      const replayed = await sql`
+        SELECT activity_order FROM student_lesson_activity_results
+        WHERE user_id = ${userId} AND client_submission_id = ${clientSubmissionId}
+        LIMIT 1
+      `;
+      if (replayed.length > 0) {
+        const countRows = await sql`
+          SELECT COUNT(*)::int AS completed_count
+          FROM student_lesson_activity_results
+          WHERE user_id = ${userId} AND student_lesson_id = ${submission.studentLessonId}
+        `;
+        return idem.finish({
+          statusCode: 200,
+          headers: { ...headers, 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            success: true,
+            message: 'Activity already submitted',
+            duplicate: true,
+            completedActivityCount: countRows[0]?.completed_count ?? 0,
+            activityOrder: submission.activityOrder,
+          }),
+        });
+      }
+    }
 
     let activityId: string | null = isValidUUID(submission.activityId) ? submission.activityId! : null;
 
@@ -189,6 +237,28 @@ const handler: Handler = async (event) => {
       if (foundRow?.id) activityId = foundRow.id;
     }
 
+    // Results record the version they were made against; the first one pins the attempt to it
+    const versionRows = await sql`
+      SELECT sl.version, sup.lesson_version AS pinned_version
+      FROM student_lessons sl
+      LEFT JOIN student_user_progress sup
+        ON sup.student_lesson_id = sl.id AND sup.user_id = ${userId}
+      WHERE sl.id = ${submission.studentLessonId}
+    `;
+    const latestVersion = versionRows[0]?.version == null ? null : Number(versionRows[0].version);
+    const pinnedVersion = versionRows[0]?.pinned_version == null ? null : Number(versionRows[0].pinned_version);
+    // The server decides the version; a client's own value is only logged when it disagrees
+    const lessonVersion = pinnedVersion ?? latestVersion;
+    if (Number.isInteger(submission.lessonVersion) && submission.lessonVersion !== lessonVersion) {
+      console.warn(
+        `Ignoring client lessonVersion ${submission.lessonVersion} for ${submission.studentLessonId}; using ${lessonVersion}`
+      );
+    }
+    if (lessonVersion !== null && lessonVersion === latestVersion) {
+      // No-op when the version was published through the editor; covers lessons changed by a migration
+      await snapshotLessonVersion(sql, submission.studentLessonId);
+    }
+
     const activityScore = submission.score ?? 0;
     const activityMaxScore = submission.maxScore ?? 0;
     const completedAt = submission.completedAt || new Date().toISOString();
@@ -203,6 +273,7 @@ const handler: Handler = async (event) => {
       activityId,
       activityType: submission.activityType,
       activityOrder: submission.activityOrder,
+      lessonVersion,
       activityScore,
       activityMaxScore,
       attempts: submission.attempts ?? 1,
@@ -210,13 +281,17 @@ const handler: Handler = async (event) => {
       completedAt,
       answersJson,
       feedbackJson,
+      clientSubmissionId,
     });
 
     await sql`
-      INSERT INTO student_user_progress (user_id, student_lesson_id, score, completed, completed_at, attempts)
+      INSERT INTO student_user_progress (
+        user_id, student_lesson_id, lesson_version, score, completed, completed_at, attempts
+      )
       VALUES (
         ${userId},
         ${submission.studentLessonId},
+        ${lessonVersion},
         (
           SELECT COALESCE(SUM(score), 0)::int
           FROM student_lesson_activity_results
@@ -233,16 +308,26 @@ const handler: Handler = async (event) => {
           FROM student_lesson_activity_results
           WHERE user_id = ${userId} AND student_lesson_id = ${submission.studentLessonId}
         ),
-        attempts = GREATEST(student_user_progress.attempts, ${submission.attempts ?? 1})
+        attempts = GREATEST(student_user_progress.attempts, ${submission.attempts ?? 1}),
+        lesson_version = COALESCE(student_user_progress.lesson_version, ${lessonVersion})
     `;
 
+    if (activityId && isVocabReviewActivity(submission.activityType)) {
+      // The review deck is secondary: a failure here must not lose the result
+      try {
+        await recordActivityReview(sql, userId, activityId, submission.answers, submission.attempts ?? 1);
+      } catch (reviewError) {
+        console.warn('submit-student-lesson-activity: review deck update failed:', reviewError);
+      }
+    }
+
     const countRows = await sql`
       SELECT COUNT(*)::int AS completed_count
       FROM student_lesson_activity_results
       WHERE user_id = ${userId} AND student_lesson_id = ${submission.studentLessonId}
     `;
 
-    return {
+    return idem.finish({
       statusCode: 200,
       headers: { ...headers, 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -251,9 +336,10 @@ const handler: Handler = async (event) => {
         completedActivityCount: countRows[0]?.completed_count ?? 0,
         activityOrder: submission.activityOrder,
       }),
-    };
+    });
   } catch (error) {
     console.error('submit-student-lesson-activity error:', error);
+    await idem?.release();
     return {
       statusCode: 500,
       headers: { ...headers, 'Content-Type': 'application/json' },
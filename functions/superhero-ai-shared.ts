@@ -1,7 +1,8 @@
-import * as jwt from 'jsonwebtoken';
 import OpenAI from 'openai';
 import { neon, NeonQueryFunction } from '@neondatabase/serverless';
 import { requireStudentAuth } from './student-auth.js';
+import { authenticate } from './lib/auth.js';
+import { chatCompletionUsage, type AiUsageSink } from './lib/ai-usage.js';
 
 export const LESSON_4_SLUG = 'create-your-superhero';
 
@@ -30,21 +31,11 @@ const TRADEMARK_BLOCK =
   /\b(spider-?man|batman|superman|wonder woman|supergirl|aquaman|joker|harley quinn|marvel|dc comics|iron man|captain america|avengers|catwoman|batgirl|peacemaker)\b/i;
 
 export async function requireAdminAuth(event: {
-  headers?: { cookie?: string };
+  headers?: Record<string, string | undefined>;
 }): Promise<{ ok: true; adminUserId?: string } | { ok: false }> {
-  try {
-    const cookies = event.headers?.cookie || '';
-    const tokenCookie = cookies.split(';').find((c: string) => c.trim().startsWith('admin_token='));
-    if (!tokenCookie) return { ok: false };
-    const token = tokenCookie.split('=')[1];
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) return { ok: false };
-    const decoded = jwt.verify(token, jwtSecret) as { role?: string; userId?: string; id?: string };
-    if (decoded.role !== 'admin') return { ok: false };
-    return { ok: true, adminUserId: decoded.userId || decoded.id };
-  } catch {
-    return { ok: false };
-  }
+  const result = await authenticate(event, { roles: ['admin'] });
+  if (!result.ok) return { ok: false };
+  return { ok: true, adminUserId: result.identity.userId ?? undefined };
 }
 
 export function parseBundleInput(raw: unknown): SuperheroAiBundle | null {
@@ -298,7 +289,8 @@ export interface SuperheroLookRationale {
 
 export async function buildSuperheroLookRationale(
   openai: OpenAI,
-  bundle: SuperheroAiBundle
+  bundle: SuperheroAiBundle,
+  onUsage?: AiUsageSink
 ): Promise<SuperheroLookRationale> {
   const payload = {
     profile_sentences: bundle.profile_sentences,
@@ -328,6 +320,7 @@ ${JSON.stringify(payload, null, 2)}`,
     ],
     max_tokens: 320,
   });
+  onUsage?.(chatCompletionUsage('gpt-4o-mini', response.usage));
 
   const raw = response.choices[0]?.message?.content?.trim() || '{}';
   const parsed = JSON.parse(raw) as Record<string, unknown>;
@@ -396,7 +389,8 @@ export function getOpenAIClient(): OpenAI {
 
 export async function describeSelfieFacialFeatures(
   openai: OpenAI,
-  dataUrl: string
+  dataUrl: string,
+  onUsage?: AiUsageSink
 ): Promise<string> {
   const response = await openai.chat.completions.create({
     model: 'gpt-4o-mini',
@@ -415,6 +409,7 @@ export async function describeSelfieFacialFeatures(
     ],
     max_tokens: 120,
   });
+  onUsage?.(chatCompletionUsage('gpt-4o-mini', response.usage));
   const text = response.choices[0]?.message?.content?.trim();
   if (!text) {
     throw new Error('Could not read facial features from your photo.');
@@ -1,6 +1,7 @@
 import { neon } from '@neondatabase/serverless';
 import { loadBundleForSuperheroImageJob, type SuperheroImageJobInput } from './superhero-ai-shared.js';
 import { runSuperheroImagePipeline } from './superhero-image-worker.js';
+import { recordAiUsage, type AiUsage } from './lib/ai-usage.js';
 import {
   superheroPortraitPath,
   uploadSuperheroDataUrl,
@@ -59,10 +60,12 @@ export async function processSuperheroImageJob(jobId: string): Promise<Superhero
     return 'lost_race';
   }
 
+  // Provider calls are paid for even when the job fails later, so they are recorded either way
+  const usage: AiUsage[] = [];
   try {
     console.log('superhero-image-job-runner: starting pipeline', { jobId });
     const bundle = await loadBundleForSuperheroImageJob(sql, job);
-    const result = await runSuperheroImagePipeline(bundle);
+    const result = await runSuperheroImagePipeline(bundle, (u) => usage.push(u));
 
     const input = (job.input_json || {}) as Partial<SuperheroImageJobInput>;
     const selfieStoragePath =
@@ -114,6 +117,17 @@ export async function processSuperheroImageJob(jobId: string): Promise<Superhero
       WHERE id = ${jobId}
     `;
     return 'failed';
+  } finally {
+    for (const u of usage) {
+      await recordAiUsage(sql, {
+        ...u,
+        feature: 'superhero_image',
+        userId: job.user_id,
+        role: job.user_id ? 'student' : 'admin',
+        lessonId: job.student_lesson_id,
+        metadata: { superhero_image_job_id: jobId },
+      });
+    }
   }
 }
 
@@ -1,6 +1,8 @@
 import { Handler } from '@netlify/functions';
 import { neon } from '@neondatabase/serverless';
 import { getHeaders } from './cors-headers';
+import { checkRouteRateLimit, createRateLimitResponse } from './rate-limit';
+import { aiQuotaResponse, checkAiQuota } from './lib/ai-usage';
 import {
   assertSelfiePresent,
   resolveSuperheroAiBundle,
@@ -42,17 +44,30 @@ const handler: Handler = async (event) => {
     const resolved = await resolveSuperheroAiBundle(event, body);
     assertSelfiePresent(resolved.bundle);
 
+    // Admin test bundles have no student; they fall back to the caller's IP
+    const rateLimit = await checkRouteRateLimit(event, 'superhero_image', { userId: resolved.userId });
+    if (!rateLimit.allowed) {
+      return createRateLimitResponse(rateLimit, headers);
+    }
+
     const databaseUrl = process.env.NEON_DATABASE_URL;
     if (!databaseUrl) {
       throw new Error('Database configuration error');
     }
 
+    const sql = neon(databaseUrl);
+
+    // Usage is recorded by the job runner; students' quota is checked before the job exists
+    const quota = await checkAiQuota(sql, resolved.userId ? { userId: resolved.userId, role: 'student' } : null);
+    if (!quota.allowed) {
+      return aiQuotaResponse(quota, headers);
+    }
+
     const inputJson: SuperheroImageJobInput = {
       mode: resolved.mode,
       bundle: resolved.mode === 'admin' ? resolved.bundle : null,
     };
 
-    const sql = neon(databaseUrl);
     const rows = await sql`
       INSERT INTO superhero_image_jobs (
         user_id,
@@ -11,6 +11,7 @@ import {
   supportsSelfieEditHighFidelity,
   type SuperheroAiBundle,
 } from './superhero-ai-shared.js';
+import type { AiUsageSink } from './lib/ai-usage.js';
 
 const IMAGE_MODEL = process.env.SUPERHERO_IMAGE_MODEL || 'gpt-image-1';
 
@@ -54,7 +55,15 @@ async function imageItemToDataUrl(item: {
   throw new Error('Image provider returned no image data');
 }
 
-async function generateImageFromPrompt(openai: ReturnType<typeof getOpenAIClient>, prompt: string) {
+function imageUsage(model: string, usage: { input_tokens?: number } | null | undefined) {
+  return { provider: 'openai' as const, model, images: 1, inputTokens: usage?.input_tokens || 0 };
+}
+
+async function generateImageFromPrompt(
+  openai: ReturnType<typeof getOpenAIClient>,
+  prompt: string,
+  onUsage?: AiUsageSink
+) {
   assertPromptSafe(prompt);
 
   const gpt = isGptImageModel(IMAGE_MODEL);
@@ -65,6 +74,7 @@ async function generateImageFromPrompt(openai: ReturnType<typeof getOpenAIClient
     size: gpt ? '1024x1536' : '1024x1024',
     quality: gpt ? 'high' : 'standard',
   });
+  onUsage?.(imageUsage(IMAGE_MODEL, response.usage));
 
   const item = response.data?.[0];
   if (!item) {
@@ -82,7 +92,8 @@ async function generateImageFromPrompt(openai: ReturnType<typeof getOpenAIClient
 async function editPortraitFromSelfie(
   openai: ReturnType<typeof getOpenAIClient>,
   selfieDataUrl: string,
-  prompt: string
+  prompt: string,
+  onUsage?: AiUsageSink
 ) {
   assertPromptSafe(prompt);
 
@@ -96,6 +107,7 @@ async function editPortraitFromSelfie(
     size: '1024x1536',
     n: 1,
   });
+  onUsage?.(imageUsage(editModel, response.usage));
 
   const item = response.data?.[0];
   if (!item) {
@@ -110,16 +122,18 @@ async function editPortraitFromSelfie(
   };
 }
 
+/** onUsage receives every provider call the pipeline makes, for AI usage accounting. */
 export async function runSuperheroImagePipeline(
-  bundle: SuperheroAiBundle
+  bundle: SuperheroAiBundle,
+  onUsage?: AiUsageSink
 ): Promise<SuperheroImagePipelineResult> {
   assertSelfiePresent(bundle);
   const openai = getOpenAIClient();
   const selfieDataUrl = bundle.selfie_data_url!;
 
   const [lookRationale, facialFeatures] = await Promise.all([
-    buildSuperheroLookRationale(openai, bundle),
-    describeSelfieFacialFeatures(openai, selfieDataUrl).catch((e) => {
+    buildSuperheroLookRationale(openai, bundle, onUsage),
+    describeSelfieFacialFeatures(openai, selfieDataUrl, onUsage).catch((e) => {
       console.warn('Selfie facial feature read failed:', e);
       return 'Match the student photo identity exactly.';
     }),
@@ -135,16 +149,16 @@ export async function runSuperheroImagePipeline(
   if (supportsSelfieEditHighFidelity(IMAGE_MODEL)) {
     try {
       console.log('superhero-image-worker: starting image edit');
-      imageResult = await editPortraitFromSelfie(openai, selfieDataUrl, editPrompt);
+      imageResult = await editPortraitFromSelfie(openai, selfieDataUrl, editPrompt, onUsage);
       promptUsed = editPrompt;
       console.log('superhero-image-worker: image edit finished');
     } catch (editError) {
       console.warn('Selfie edit failed, falling back to text generate:', editError);
-      imageResult = await generateImageFromPrompt(openai, textPrompt);
+      imageResult = await generateImageFromPrompt(openai, textPrompt, onUsage);
       promptUsed = textPrompt;
     }
   } else {
-    imageResult = await generateImageFromPrompt(openai, textPrompt);
+    imageResult = await generateImageFromPrompt(openai, textPrompt, onUsage);
     promptUsed = textPrompt;
   }
 
@@ -1,5 +1,14 @@
 import { Handler } from '@netlify/functions'
+import { createHash } from 'crypto'
 import { createClient } from '@supabase/supabase-js'
+import { neon } from '@neondatabase/serverless'
+import { checkRouteRateLimit, createRateLimitResponse } from './rate-limit'
+import { aiQuotaResponse, checkAiQuota, recordAiUsage, resolveAiCaller } from './lib/ai-usage'
+
+/** Same text and voice → same file, so repeated requests (e.g. replaying a word) reuse the audio */
+function ttsFileName(text: string, voice: string): string {
+  return `tts-${createHash('sha256').update(`${voice}\n${text}`).digest('hex').slice(0, 32)}.mp3`
+}
 
 export const handler: Handler = async (event) => {
   // CORS headers
@@ -55,6 +64,60 @@ export const handler: Handler = async (event) => {
       }
     }
 
+    // Initialize Supabase client for file upload
+    const supabaseUrl = process.env.SUPABASE_URL
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return {
+        statusCode: 500,
+        headers,
+        body: JSON.stringify({
+          success: false,
+          error: 'Supabase configuration missing'
+        }),
+      }
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const fileName = ttsFileName(String(text), String(voice))
+
+    // Already generated: return the stored file without another TTS call
+    const { data: existing } = await supabase.storage
+      .from('audio-files')
+      .list('', { search: fileName, limit: 1 })
+    if (existing?.some((f) => f.name === fileName)) {
+      const { data: urlData } = supabase.storage.from('audio-files').getPublicUrl(fileName)
+      return {
+        statusCode: 200,
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          success: true,
+          message: 'TTS audio already generated',
+          file_path: fileName,
+          public_url: urlData.publicUrl,
+          file_name: fileName,
+          cached: true
+        }),
+      }
+    }
+
+    // Only new audio costs anything, so the quota applies after the cache lookup
+    const databaseUrl = process.env.NEON_DATABASE_URL
+    const sql = databaseUrl ? neon(databaseUrl) : null
+    const caller = await resolveAiCaller(event, sql)
+    const rateLimit = await checkRouteRateLimit(event, 'tts_generate', { userId: caller?.userId })
+    if (!rateLimit.allowed) {
+      return createRateLimitResponse(rateLimit, headers)
+    }
+    const quota = await checkAiQuota(sql, caller)
+    if (!quota.allowed) {
+      return aiQuotaResponse(quota, headers)
+    }
+
     // Call OpenAI TTS API
     const response = await fetch('https://api.openai.com/v1/audio/speech', {
       method: 'POST',
@@ -83,37 +146,25 @@ export const handler: Handler = async (event) => {
       }
     }
 
+    await recordAiUsage(sql, {
+      feature: 'tts',
+      provider: 'openai',
+      model: 'tts-1',
+      characters: String(text).length,
+      userId: caller?.userId,
+      role: caller?.role,
+    })
+
     // Get the audio data
     const audioBuffer = await response.arrayBuffer()
 
-    // Initialize Supabase client for file upload
-    const supabaseUrl = process.env.SUPABASE_URL
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY
-
-    if (!supabaseUrl || !supabaseServiceKey) {
-      return {
-        statusCode: 500,
-        headers,
-        body: JSON.stringify({
-          success: false,
-          error: 'Supabase configuration missing'
-        }),
-      }
-    }
-
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
-
-    // Generate unique filename
-    const timestamp = Date.now()
-    const fileName = `tts-${timestamp}.mp3`
-
     // Upload to Supabase Storage
     const { data, error: uploadError } = await supabase.storage
       .from('audio-files')
       .upload(fileName, Buffer.from(audioBuffer), {
         contentType: 'audio/mpeg',
         cacheControl: '3600',
-        upsert: false
+        upsert: true
       })
 
     if (uploadError) {
@@ -0,0 +1,12 @@
+-- Offline outbox: student activity results carry the client's idempotency key so
+-- replays from the browser outbox (after a Wi-Fi drop or reload) are not written twice.
+
+ALTER TABLE student_lesson_activity_results
+  ADD COLUMN IF NOT EXISTS client_submission_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS student_lesson_activity_results_client_submission
+  ON student_lesson_activity_results (user_id, client_submission_id)
+  WHERE client_submission_id IS NOT NULL;
+
+COMMENT ON COLUMN student_lesson_activity_results.client_submission_id IS
+  'Idempotency-Key of the submission that last wrote this row (StudentActivityOutbox entry id).';
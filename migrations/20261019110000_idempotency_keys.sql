@@ -0,0 +1,27 @@
+-- Idempotency-Key contract for submit-* / finalize-* functions.
+-- The first request with a key stores its response; replays (BackgroundSaveQueue retries,
+-- outbox replays, double taps) get the stored response instead of writing again.
+-- Rows expire after 24 hours and are deleted by cleanup-sessions.
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL,
+  idempotency_key TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'in_progress',
+  response_status INTEGER,
+  response_body TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '24 hours',
+  CONSTRAINT idempotency_keys_status_check CHECK (status IN ('in_progress', 'completed')),
+  CONSTRAINT idempotency_keys_unique UNIQUE (user_id, endpoint, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires
+  ON idempotency_keys (expires_at);
+
+COMMENT ON TABLE idempotency_keys IS
+  'Processed Idempotency-Key headers per user + endpoint; replays return response_status/response_body.';
+COMMENT ON COLUMN idempotency_keys.request_hash IS 'sha256 of the request body; a reused key with a different body is rejected (422).';
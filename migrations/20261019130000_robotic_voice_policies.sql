@@ -0,0 +1,58 @@
+-- Robotic-voice enforcement policies (replaces the single global ROBOTIC_VOICE_MODE switch).
+-- The most specific enabled policy wins: student > lesson > class > level > global.
+-- With no matching policy, ROBOTIC_VOICE_MODE is the fallback (log when unset).
+-- Every enforcement decision on a would-flag recording is kept in robotic_voice_enforcement_decisions.
+
+CREATE TABLE IF NOT EXISTS robotic_voice_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope_type TEXT NOT NULL,
+  scope_value TEXT NOT NULL DEFAULT '',
+  mode TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT robotic_voice_policies_scope_check CHECK (scope_type IN ('global', 'class', 'level', 'lesson', 'student')),
+  CONSTRAINT robotic_voice_policies_mode_check CHECK (mode IN ('log', 'warn_student', 'require_rerecord', 'block')),
+  CONSTRAINT robotic_voice_policies_unique UNIQUE (scope_type, scope_value)
+);
+
+COMMENT ON TABLE robotic_voice_policies IS 'Per-scope robotic-voice enforcement mode; most specific enabled row wins.';
+COMMENT ON COLUMN robotic_voice_policies.scope_value IS 'global: empty; class: class label (e.g. 1/15); level: CEFR level; lesson: speech_jobs.lesson_id; student: users.id.';
+COMMENT ON COLUMN robotic_voice_policies.mode IS 'log | warn_student (complete + warning) | require_rerecord (fail, ask to re-record) | block (fail).';
+
+CREATE TABLE IF NOT EXISTS robotic_voice_enforcement_decisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  lesson_id TEXT,
+  class_label TEXT,
+  level TEXT,
+  policy_id UUID REFERENCES robotic_voice_policies(id) ON DELETE SET NULL,
+  scope_type TEXT NOT NULL,
+  scope_value TEXT,
+  mode TEXT NOT NULL,
+  action TEXT NOT NULL,
+  robotic_voice_score SMALLINT,
+  scorer_version TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT robotic_voice_enforcement_decisions_action_check
+    CHECK (action IN ('none', 'warned', 'rerecord_required', 'blocked'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_robotic_voice_enforcement_decisions_created
+  ON robotic_voice_enforcement_decisions (created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_robotic_voice_enforcement_decisions_job
+  ON robotic_voice_enforcement_decisions (job_id);
+
+COMMENT ON TABLE robotic_voice_enforcement_decisions IS 'Audit trail: which policy (or env fallback) decided each would-flag recording and what happened.';
+COMMENT ON COLUMN robotic_voice_enforcement_decisions.scope_type IS 'Scope of the matching policy, or env when ROBOTIC_VOICE_MODE decided.';
+COMMENT ON COLUMN robotic_voice_enforcement_decisions.policy_id IS 'NULL when the env fallback decided (or the policy was deleted since).';
+
+ALTER TABLE IF EXISTS speech_jobs
+  ADD COLUMN IF NOT EXISTS robotic_voice_enforcement TEXT;
+
+COMMENT ON COLUMN speech_jobs.robotic_voice_enforcement IS 'Enforcement action taken: none | warned | rerecord_required | blocked; NULL when not scored.';
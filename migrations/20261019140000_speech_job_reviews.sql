@@ -0,0 +1,33 @@
+-- Teacher review queue for suspicious speaking recordings (admin/review).
+-- The queue itself is a query over speech_jobs (would-flag robotic voice, consecutive-repetition
+-- failures, low-score outliers); a row here means a teacher has adjudicated the job.
+-- Labelled verdicts are also written to classifier_store (read_vs_speak:recording:<job_id>).
+
+CREATE TABLE IF NOT EXISTS speech_job_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  reasons JSONB NOT NULL DEFAULT '[]'::jsonb,
+  verdict TEXT NOT NULL,
+  delivery_mode TEXT,
+  note TEXT,
+  activity_reset BOOLEAN NOT NULL DEFAULT FALSE,
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT speech_job_reviews_verdict_check CHECK (verdict IN ('confirmed', 'cleared')),
+  CONSTRAINT speech_job_reviews_delivery_mode_check
+    CHECK (delivery_mode IS NULL OR delivery_mode IN ('speaking', 'reading', 'tts')),
+  CONSTRAINT speech_job_reviews_job_unique UNIQUE (job_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_speech_job_reviews_reviewed_at
+  ON speech_job_reviews (reviewed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_speech_job_reviews_user
+  ON speech_job_reviews (user_id, reviewed_at DESC);
+
+COMMENT ON TABLE speech_job_reviews IS 'Teacher verdicts on queued speech_jobs; absent row = still pending.';
+COMMENT ON COLUMN speech_job_reviews.reasons IS 'Why the job was queued: would_flag | consecutive_repetition | low_score.';
+COMMENT ON COLUMN speech_job_reviews.verdict IS 'confirmed = the suspicion was right; cleared = false alarm.';
+COMMENT ON COLUMN speech_job_reviews.delivery_mode IS 'Teacher label (speaking | reading | tts) fed to classifier_store; NULL = no label.';
+COMMENT ON COLUMN speech_job_reviews.activity_reset IS 'True when the review also reset the student''s speaking activity.';
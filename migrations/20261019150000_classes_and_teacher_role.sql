@@ -0,0 +1,106 @@
+-- Classes: named student groups with a teacher role scoped to its own classes.
+-- Replaces the hardcoded 1/15 / 1/16 school ID lists (admin-get-students, admin-superhero-photos-shared).
+--
+-- A class with rows in class_student_lessons restricts its students' dashboard to those student
+-- track lessons; a class without assignments keeps showing every active lesson.
+
+BEGIN;
+
+-- ---------------------------------------------------------------------------
+-- users.role: allow 'teacher'
+-- ---------------------------------------------------------------------------
+ALTER TABLE users DROP CONSTRAINT IF EXISTS chk_users_role;
+
+ALTER TABLE users ADD CONSTRAINT chk_users_role
+  CHECK (role IN ('user', 'admin', 'student', 'teacher'));
+
+-- ---------------------------------------------------------------------------
+-- classes
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS classes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  school TEXT NOT NULL DEFAULT '',
+  term TEXT NOT NULL DEFAULT '',
+  cefr_level TEXT,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT classes_cefr_level_check CHECK (
+    cefr_level IS NULL OR cefr_level IN ('Pre-A1', 'A1', 'A2', 'B1', 'B2', 'C1', 'C2')
+  ),
+  CONSTRAINT classes_school_term_name_unique UNIQUE (school, term, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_classes_active
+  ON classes (active, school, term, name);
+
+COMMENT ON TABLE classes IS 'Student groups (e.g. 1/15). Teachers see only classes they are assigned to.';
+COMMENT ON COLUMN classes.term IS 'Free-form term label, e.g. 2026-T1; empty when not tracked';
+
+-- ---------------------------------------------------------------------------
+-- class_teachers
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS class_teachers (
+  class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  teacher_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  assigned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (class_id, teacher_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_class_teachers_teacher
+  ON class_teachers (teacher_user_id);
+
+-- ---------------------------------------------------------------------------
+-- class_students (roster)
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS class_students (
+  class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  added_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (class_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_class_students_user
+  ON class_students (user_id);
+
+-- ---------------------------------------------------------------------------
+-- class_student_lessons (assigned student track lessons)
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS class_student_lessons (
+  class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  student_lesson_id UUID NOT NULL REFERENCES student_lessons(id) ON DELETE CASCADE,
+  assigned_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  assigned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (class_id, student_lesson_id)
+);
+
+COMMENT ON TABLE class_student_lessons IS
+  'Student track lessons assigned to a class. Non-empty set restricts the class dashboard to these lessons.';
+
+-- ---------------------------------------------------------------------------
+-- Seed: MWS 1/15 (52439–52453) and 1/16 (52454–52470)
+-- ---------------------------------------------------------------------------
+INSERT INTO classes (name, school, term)
+VALUES ('1/15', 'MWS', ''), ('1/16', 'MWS', '')
+ON CONFLICT (school, term, name) DO NOTHING;
+
+INSERT INTO class_students (class_id, user_id)
+SELECT c.id, u.id
+FROM users u
+JOIN classes c ON c.school = 'MWS' AND c.term = '' AND c.name = '1/15'
+WHERE u.role = 'student'
+  AND u.school_student_id BETWEEN '52439' AND '52453'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO class_students (class_id, user_id)
+SELECT c.id, u.id
+FROM users u
+JOIN classes c ON c.school = 'MWS' AND c.term = '' AND c.name = '1/16'
+WHERE u.role = 'student'
+  AND u.school_student_id BETWEEN '52454' AND '52470'
+ON CONFLICT DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,10 @@
+-- Adaptive placement mode for evaluation_test.
+-- When adaptive is on, auto-scored questions tagged with a CEFR `level` in the questions JSONB are
+-- served one at a time by get-evaluation-test (functions/lib/adaptive-placement.ts); untagged,
+-- speaking and writing questions are asked afterwards in their stored order. The item-level path
+-- is stored in evaluation_results.question_results.adaptive.
+
+ALTER TABLE evaluation_test
+  ADD COLUMN IF NOT EXISTS adaptive BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN evaluation_test.adaptive IS 'Serve level-tagged auto-scored questions adaptively; see get-evaluation-test POST.';
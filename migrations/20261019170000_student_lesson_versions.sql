@@ -0,0 +1,85 @@
+-- Published student lesson versions and version-pinned attempts.
+--
+-- student_lesson_versions holds one immutable snapshot per student_lessons.version (lesson fields
+-- plus active activities with their items, as get-student-lesson returns them). Rows are only
+-- ever inserted (functions/lib/lesson-versions.ts); content changes go through the lesson package
+-- import, which bumps the version and snapshots it in the same transaction.
+--
+-- student_user_progress.lesson_version pins an attempt to the version it started on, so
+-- get-student-lesson keeps serving that snapshot after a newer version is published.
+-- student_lesson_activity_results.lesson_version records the version each result was made
+-- against. Existing rows stay NULL: which version they were made against is not known.
+
+CREATE TABLE IF NOT EXISTS student_lesson_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_lesson_id UUID NOT NULL REFERENCES student_lessons (id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  lesson JSONB NOT NULL,
+  activities JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT student_lesson_versions_lesson_version_unique
+    UNIQUE (student_lesson_id, version)
+);
+
+ALTER TABLE student_user_progress
+  ADD COLUMN IF NOT EXISTS lesson_version INTEGER;
+
+ALTER TABLE student_lesson_activity_results
+  ADD COLUMN IF NOT EXISTS lesson_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_student_lesson_activity_results_lesson_version
+  ON student_lesson_activity_results (student_lesson_id, lesson_version);
+
+COMMENT ON COLUMN student_user_progress.lesson_version IS
+  'student_lesson_versions.version this attempt is pinned to; NULL until the first result is submitted.';
+COMMENT ON COLUMN student_lesson_activity_results.lesson_version IS
+  'Lesson version the result was made against; NULL for results stored before versioning.';
+
+-- Snapshot every lesson as it is now (same shape as snapshotLessonVersion)
+INSERT INTO student_lesson_versions (student_lesson_id, version, lesson, activities)
+SELECT
+  sl.id,
+  sl.version,
+  jsonb_build_object(
+    'lesson_number', sl.lesson_number,
+    'topic', sl.topic,
+    'slug', sl.slug,
+    'live_duration_minutes', sl.live_duration_minutes,
+    'communication_goal', sl.communication_goal,
+    'grammar_focus', sl.grammar_focus,
+    'vocabulary_list', sl.vocabulary_list
+  ),
+  COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', sla.id,
+          'student_lesson_id', sla.student_lesson_id,
+          'activity_type', sla.activity_type,
+          'activity_order', sla.activity_order,
+          'title', sla.title,
+          'description', sla.description,
+          'estimated_time_seconds', sla.estimated_time_seconds,
+          'content', sla.content,
+          'vocabulary_items', COALESCE(
+            (SELECT jsonb_agg(to_jsonb(vi) ORDER BY vi.sort_order, vi.id) FROM student_vocabulary_items vi WHERE vi.activity_id = sla.id),
+            '[]'::jsonb
+          ),
+          'grammar_items', COALESCE(
+            (SELECT jsonb_agg(to_jsonb(gi) ORDER BY gi.sort_order, gi.id) FROM student_grammar_items gi WHERE gi.activity_id = sla.id),
+            '[]'::jsonb
+          ),
+          'poll_items', COALESCE(
+            (SELECT jsonb_agg(to_jsonb(pi) ORDER BY pi.sort_order, pi.id) FROM student_poll_items pi WHERE pi.activity_id = sla.id),
+            '[]'::jsonb
+          )
+        )
+        ORDER BY sla.activity_order
+      )
+      FROM student_lesson_activities sla
+      WHERE sla.student_lesson_id = sl.id AND sla.active = TRUE
+    ),
+    '[]'::jsonb
+  )
+FROM student_lessons sl
+ON CONFLICT (student_lesson_id, version) DO NOTHING;
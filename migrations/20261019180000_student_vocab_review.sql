@@ -0,0 +1,38 @@
+-- Spaced-repetition vocabulary review deck, one card per student and word.
+--
+-- Cards are added for every word a student has met in a lesson: student_vocabulary_items and
+-- legacy vocabulary_items of activities they have a result for (syncReviewDeck), plus words
+-- from vocab game content such as speed-tap targets and missing-letters answers (added when the
+-- result is submitted). Scheduling is SM-2 (functions/lib/vocab-review.ts): quality comes from
+-- the in-lesson games (missed_words in the result answers) and from the daily review session.
+-- word_key is the normalized word (normalizeWordKey in src/lib/vocabReview.ts), so a word met in
+-- several lessons is one card.
+
+CREATE TABLE IF NOT EXISTS student_vocab_cards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  word_key TEXT NOT NULL,
+  english_word TEXT NOT NULL,
+  thai_translation TEXT,
+  image_url TEXT,
+  emoji TEXT,
+  audio_url TEXT,
+  source TEXT NOT NULL DEFAULT 'student',
+  ease_factor NUMERIC(4, 2) NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  due_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT student_vocab_cards_user_word_unique UNIQUE (user_id, word_key),
+  CONSTRAINT student_vocab_cards_source_check CHECK (source IN ('student', 'legacy'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_vocab_cards_user_due
+  ON student_vocab_cards (user_id, due_at);
+
+COMMENT ON TABLE student_vocab_cards IS 'Per-student vocabulary review deck (SM-2); one row per normalized word.';
+COMMENT ON COLUMN student_vocab_cards.word_key IS 'lower(trim(english_word)) with whitespace collapsed; see normalizeWordKey.';
+COMMENT ON COLUMN student_vocab_cards.source IS 'student = student track lessons; legacy = vocabulary_items of platform lessons.';
+COMMENT ON COLUMN student_vocab_cards.due_at IS 'Next review; new cards are due immediately.';
@@ -0,0 +1,52 @@
+-- Personal mistake notebook (student_mistakes).
+--
+-- One row per student and distinct mistake (mistake_key = normalized mistake → correction),
+-- collected from student_lesson_activity_results by functions/lib/mistake-notebook.ts: AI
+-- speaking corrections kept in feedback, and wrong answers of the grammar error-fix and MCQ
+-- activities (answers.mistakes). pattern_key is the changed words ("goes → go") so the same
+-- error in different sentences groups as one recurring error (mistakePattern in
+-- src/lib/mistakeNotebook.ts).
+--
+-- A mistake is resolved after two right-first-time practice answers in a row; making it again
+-- reopens it. student_lesson_activity_results.mistakes_recorded_at marks results already read
+-- into the notebook; existing results start NULL and are read on the student's next visit.
+
+CREATE TABLE IF NOT EXISTS student_mistakes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  source TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  mistake TEXT NOT NULL,
+  correction TEXT NOT NULL,
+  context TEXT,
+  mistake_key TEXT NOT NULL,
+  pattern_key TEXT NOT NULL,
+  student_lesson_id UUID REFERENCES student_lessons (id) ON DELETE SET NULL,
+  occurrences INTEGER NOT NULL DEFAULT 1,
+  practice_attempts INTEGER NOT NULL DEFAULT 0,
+  practice_correct INTEGER NOT NULL DEFAULT 0,
+  practice_streak INTEGER NOT NULL DEFAULT 0,
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ,
+  CONSTRAINT student_mistakes_user_key_unique UNIQUE (user_id, mistake_key),
+  CONSTRAINT student_mistakes_source_check
+    CHECK (source IN ('speaking', 'grammar_error_fix', 'grammar_mcq')),
+  CONSTRAINT student_mistakes_kind_check CHECK (kind IN ('grammar', 'vocabulary'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_mistakes_user_pattern
+  ON student_mistakes (user_id, pattern_key);
+
+ALTER TABLE student_lesson_activity_results
+  ADD COLUMN IF NOT EXISTS mistakes_recorded_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_student_lesson_activity_results_mistakes_pending
+  ON student_lesson_activity_results (user_id)
+  WHERE mistakes_recorded_at IS NULL;
+
+COMMENT ON TABLE student_mistakes IS 'Per-student mistake notebook; one row per normalized mistake → correction.';
+COMMENT ON COLUMN student_mistakes.pattern_key IS 'Changed words, e.g. "goes → go"; groups recurring errors across sentences.';
+COMMENT ON COLUMN student_mistakes.practice_streak IS 'Right-first-time practice answers in a row; 2 resolves the mistake.';
+COMMENT ON COLUMN student_lesson_activity_results.mistakes_recorded_at IS
+  'When the result was read into student_mistakes; NULL = pending (reset when the result is resubmitted).';
@@ -0,0 +1,27 @@
+-- Device metadata on user_sessions for the "My devices" list, and per-role session caps.
+--
+-- auth-login / auth-verify-otp record the signing-in browser (user_agent), client IP and the
+-- Netlify geo header's region, and put the session id in the access token (sid claim) so a
+-- signed-out session stops working straight away. Sessions are no longer deleted when the cap
+-- is exceeded: they are expired with revoked_reason set, so the signed-out device can be told
+-- why ('session_cap', 'signed_out', 'signed_out_everywhere'). cleanup-sessions deletes them
+-- with the other expired rows.
+--
+-- session_caps overrides the default of 3 active sessions per user for a role
+-- (functions/lib/user-sessions.ts DEFAULT_SESSION_CAP).
+
+ALTER TABLE user_sessions
+  ADD COLUMN IF NOT EXISTS user_agent TEXT,
+  ADD COLUMN IF NOT EXISTS ip_address TEXT,
+  ADD COLUMN IF NOT EXISTS ip_region TEXT,
+  ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS revoked_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_active
+  ON user_sessions (user_id, expires_at);
+
+CREATE TABLE IF NOT EXISTS session_caps (
+  role TEXT PRIMARY KEY,
+  max_sessions INTEGER NOT NULL CHECK (max_sessions BETWEEN 1 AND 50),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
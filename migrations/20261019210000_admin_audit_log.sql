@@ -0,0 +1,50 @@
+-- Admin audit log (admin_audit_log).
+--
+-- One row per admin or teacher mutation, written by functions/lib/admin-audit.ts: who did it
+-- (actor_user_id, with the actor's email and role at the time), what (action, e.g.
+-- 'user.delete' or 'lessons.restrict'), to what (target_type / target_id / target_label, and
+-- target_user_ids for the students affected), before/after snapshots and request metadata
+-- (method, path, IP, region, device). Searched from /admin/audit via admin-audit-log.
+--
+-- Append-only: there are no foreign keys (deleting a user must not touch their history) and a
+-- trigger rejects UPDATE and DELETE.
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  actor_user_id UUID,
+  actor_email TEXT,
+  actor_role TEXT NOT NULL,
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id TEXT,
+  target_label TEXT,
+  target_user_ids UUID[] NOT NULL DEFAULT '{}',
+  before_snapshot JSONB,
+  after_snapshot JSONB,
+  notes TEXT,
+  request_metadata JSONB NOT NULL DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at
+  ON admin_audit_log (created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor
+  ON admin_audit_log (actor_user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_action
+  ON admin_audit_log (action, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target_users
+  ON admin_audit_log USING GIN (target_user_ids);
+
+CREATE OR REPLACE FUNCTION admin_audit_log_append_only() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'admin_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS admin_audit_log_no_change ON admin_audit_log;
+CREATE TRIGGER admin_audit_log_no_change
+  BEFORE UPDATE OR DELETE ON admin_audit_log
+  FOR EACH ROW EXECUTE FUNCTION admin_audit_log_append_only();
@@ -0,0 +1,22 @@
+-- Postgres rate limit store (functions/lib/rate-limit-store.ts).
+--
+-- Used when Upstash Redis is not configured, so dev and test databases enforce the same per-route
+-- policies as production (functions/rate-limit.ts). rate_limit_hits is the sliding-window log
+-- (one row per counted request); rate_limit_buckets holds token-bucket state. Keys look like
+-- 'rl:superhero_image:user:<uuid>'. cleanup-sessions deletes hits older than a day.
+
+CREATE TABLE IF NOT EXISTS rate_limit_hits (
+  id BIGSERIAL PRIMARY KEY,
+  key TEXT NOT NULL,
+  hit_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_key_hit_at
+  ON rate_limit_hits (key, hit_at);
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  last_allowed BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,42 @@
+-- AI usage accounting and per-role quotas (functions/lib/ai-usage.ts).
+--
+-- ai_usage_events gets one row per paid provider call (transcription, chat completion, image,
+-- TTS) with its size and estimated cost in USD, attributed to the user and lesson it was made for.
+-- ai_quotas overrides DEFAULT_AI_QUOTAS for a role: daily / monthly budgets in USD over UTC days
+-- and months, NULL meaning unlimited. admin-ai-usage reports on both.
+
+CREATE TABLE IF NOT EXISTS ai_usage_events (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  role TEXT,
+  -- 'speech_job', 'ai_feedback', 'improve_transcription', 'superhero_image', 'tts'
+  feature TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  -- lessons.id or student_lessons.id
+  lesson_id TEXT,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  audio_seconds NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  characters INTEGER NOT NULL DEFAULT 0,
+  images INTEGER NOT NULL DEFAULT 0,
+  estimated_cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  metadata JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_user_created
+  ON ai_usage_events (user_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_created
+  ON ai_usage_events (created_at);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_feature_created
+  ON ai_usage_events (feature, created_at);
+
+CREATE TABLE IF NOT EXISTS ai_quotas (
+  role TEXT PRIMARY KEY,
+  daily_limit_usd NUMERIC(10, 4) CHECK (daily_limit_usd IS NULL OR daily_limit_usd >= 0),
+  monthly_limit_usd NUMERIC(10, 4) CHECK (monthly_limit_usd IS NULL OR monthly_limit_usd >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
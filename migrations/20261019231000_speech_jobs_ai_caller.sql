@@ -0,0 +1,9 @@
+-- Who AI usage for a speech job is charged to: the authenticated caller at upload time.
+-- speech_jobs.user_id is client-supplied and must not be used for quotas.
+
+ALTER TABLE IF EXISTS speech_jobs
+  ADD COLUMN IF NOT EXISTS caller_user_id UUID,
+  ADD COLUMN IF NOT EXISTS caller_role TEXT;
+
+COMMENT ON COLUMN speech_jobs.caller_user_id IS 'Signed-in user who created the job; NULL for anonymous uploads. AI usage is charged here.';
+COMMENT ON COLUMN speech_jobs.caller_role IS 'Role of caller_user_id at upload time, for AI quota accounting.';
@@ -0,0 +1,455 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import AdminProtectedRoute from '@/components/auth/AdminProtectedRoute'
+import { Button, Card, Input, Select, Table, Header, Body, Row, Head, Cell } from '@/components/ui'
+import { useNotification } from '@/contexts/NotificationContext'
+import { adminApiRequest } from '@/utils/adminApi'
+
+const FEATURE_LABELS: Record<string, string> = {
+  speech_job: 'Speaking (transcription + analysis)',
+  ai_feedback: 'AI feedback',
+  improve_transcription: 'Improved transcript',
+  superhero_image: 'Superhero portrait',
+  tts: 'Text to speech',
+}
+
+interface FeatureUsage {
+  feature: string
+  calls: number
+  cost_usd: number
+  input_tokens: string
+  output_tokens: string
+  audio_seconds: number
+  characters: string
+  images: number
+}
+
+interface ModelUsage {
+  provider: string
+  model: string
+  calls: number
+  cost_usd: number
+}
+
+interface DayUsage {
+  day: string
+  calls: number
+  cost_usd: number
+}
+
+interface ClassUsage {
+  class_id: string
+  name: string
+  students: number
+  calls: number
+  cost_usd: number
+}
+
+interface StudentUsage {
+  user_id: string
+  label: string | null
+  role: string
+  calls: number
+  cost_usd: number
+}
+
+interface RoleQuota {
+  role: string
+  daily_limit_usd: number | null
+  monthly_limit_usd: number | null
+  is_default: boolean
+  updated_at: string | null
+}
+
+interface UsageReport {
+  totals: { calls: number; cost_usd: number; users: number }
+  by_feature: FeatureUsage[]
+  by_model: ModelUsage[]
+  by_day: DayUsage[]
+  by_class: ClassUsage[]
+  unassigned: { calls: number; cost_usd: number }
+  top_students: StudentUsage[]
+  quotas: RoleQuota[]
+}
+
+function usd(value: number): string {
+  return value >= 1 ? `$${value.toFixed(2)}` : `$${value.toFixed(4)}`
+}
+
+function featureDetail(f: FeatureUsage): string {
+  const parts: string[] = []
+  if (Number(f.input_tokens) || Number(f.output_tokens)) {
+    parts.push(`${Number(f.input_tokens).toLocaleString()} in / ${Number(f.output_tokens).toLocaleString()} out tokens`)
+  }
+  if (f.audio_seconds > 0) parts.push(`${(f.audio_seconds / 60).toFixed(1)} audio min`)
+  if (Number(f.characters)) parts.push(`${Number(f.characters).toLocaleString()} chars`)
+  if (f.images) parts.push(`${f.images} images`)
+  return parts.join(' · ') || '—'
+}
+
+function QuotaRow({
+  quota,
+  disabled,
+  onSave,
+  onReset,
+}: {
+  quota: RoleQuota
+  disabled: boolean
+  onSave: (role: string, daily: string, monthly: string) => void
+  onReset: (role: string) => void
+}) {
+  const [daily, setDaily] = useState(quota.daily_limit_usd === null ? '' : String(quota.daily_limit_usd))
+  const [monthly, setMonthly] = useState(quota.monthly_limit_usd === null ? '' : String(quota.monthly_limit_usd))
+
+  useEffect(() => {
+    setDaily(quota.daily_limit_usd === null ? '' : String(quota.daily_limit_usd))
+    setMonthly(quota.monthly_limit_usd === null ? '' : String(quota.monthly_limit_usd))
+  }, [quota.daily_limit_usd, quota.monthly_limit_usd])
+
+  return (
+    <Row>
+      <Cell className="capitalize">{quota.role}</Cell>
+      <Cell>
+        <Input
+          type="number"
+          min={0}
+          step="0.05"
+          value={daily}
+          onChange={(e) => setDaily(e.target.value)}
+          placeholder="Unlimited"
+          className="w-32"
+        />
+      </Cell>
+      <Cell>
+        <Input
+          type="number"
+          min={0}
+          step="0.5"
+          value={monthly}
+          onChange={(e) => setMonthly(e.target.value)}
+          placeholder="Unlimited"
+          className="w-32"
+        />
+      </Cell>
+      <Cell className="text-xs text-slate-500">
+        {quota.is_default ? 'Default' : quota.updated_at ? new Date(quota.updated_at).toLocaleString() : '—'}
+      </Cell>
+      <Cell>
+        <div className="flex gap-2">
+          <Button size="sm" disabled={disabled} onClick={() => onSave(quota.role, daily, monthly)}>
+            Save
+          </Button>
+          {!quota.is_default && (
+            <Button variant="secondary" size="sm" disabled={disabled} onClick={() => onReset(quota.role)}>
+              Reset
+            </Button>
+          )}
+        </div>
+      </Cell>
+    </Row>
+  )
+}
+
+export default function AdminAiUsagePage() {
+  const router = useRouter()
+  const { showNotification } = useNotification()
+
+  const [report, setReport] = useState<UsageReport | null>(null)
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [feature, setFeature] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams()
+      if (from) params.set('from', from)
+      if (to) params.set('to', to)
+      if (feature) params.set('feature', feature)
+      const res = await adminApiRequest(`/.netlify/functions/admin-ai-usage?${params.toString()}`, { method: 'GET' })
+      const data = await res.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to load AI usage')
+      setReport(data)
+      if (!from) setFrom(data.from)
+      if (!to) setTo(data.to)
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to load', 'error')
+    } finally {
+      setIsLoading(false)
+    }
+    // from/to are filled in from the first response; reloading for that would be a no-op
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [feature, showNotification])
+
+  useEffect(() => {
+    loadReport()
+  }, [loadReport])
+
+  const saveQuota = async (role: string, daily: string, monthly: string) => {
+    setIsSaving(true)
+    try {
+      const res = await adminApiRequest('/.netlify/functions/admin-ai-usage', {
+        method: 'POST',
+        body: JSON.stringify({
+          role,
+          daily_limit_usd: daily.trim() === '' ? null : Number(daily),
+          monthly_limit_usd: monthly.trim() === '' ? null : Number(monthly),
+        }),
+      })
+      const data = await res.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to save quota')
+      showNotification(`Saved AI quota for ${role}`, 'success')
+      await loadReport()
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to save', 'error')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const resetQuota = async (role: string) => {
+    setIsSaving(true)
+    try {
+      const res = await adminApiRequest('/.netlify/functions/admin-ai-usage', {
+        method: 'DELETE',
+        body: JSON.stringify({ role }),
+      })
+      const data = await res.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to reset quota')
+      showNotification(`${role} back to the default AI quota`, 'success')
+      await loadReport()
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to reset', 'error')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const maxDayCost = Math.max(0, ...(report?.by_day || []).map((d) => d.cost_usd))
+
+  return (
+    <AdminProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-purple-50 p-6">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <Button variant="secondary" size="sm" onClick={() => router.push('/admin/dashboard')}>
+              ← Dashboard
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-slate-800">AI usage &amp; costs</h1>
+              <p className="text-slate-600 text-sm">
+                Estimated spend on transcription, feedback, images and speech, from list prices. Days and months are
+                UTC.
+              </p>
+            </div>
+          </div>
+
+          <Card className="border-slate-200 bg-white">
+            <Card.Body>
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  From
+                  <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-40" />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  To
+                  <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-40" />
+                </label>
+                <Select value={feature} onChange={(e) => setFeature(e.target.value)} className="w-64">
+                  <option value="">All features</option>
+                  {Object.entries(FEATURE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </Select>
+                <Button size="sm" disabled={isLoading} onClick={() => loadReport()}>
+                  {isLoading ? 'Loading…' : 'Apply'}
+                </Button>
+              </div>
+            </Card.Body>
+          </Card>
+
+          {!report ? (
+            <p className="text-slate-500 text-sm">{isLoading ? 'Loading…' : 'No data.'}</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <Card className="border-slate-200 bg-white">
+                  <Card.Body>
+                    <p className="text-xs text-slate-500">Estimated cost</p>
+                    <p className="text-2xl font-bold text-slate-800">{usd(report.totals.cost_usd)}</p>
+                  </Card.Body>
+                </Card>
+                <Card className="border-slate-200 bg-white">
+                  <Card.Body>
+                    <p className="text-xs text-slate-500">AI calls</p>
+                    <p className="text-2xl font-bold text-slate-800">{report.totals.calls.toLocaleString()}</p>
+                  </Card.Body>
+                </Card>
+                <Card className="border-slate-200 bg-white">
+                  <Card.Body>
+                    <p className="text-xs text-slate-500">Users</p>
+                    <p className="text-2xl font-bold text-slate-800">{report.totals.users.toLocaleString()}</p>
+                  </Card.Body>
+                </Card>
+              </div>
+
+              <Card className="border-slate-200 bg-white">
+                <Card.Body className="space-y-3">
+                  <h2 className="font-semibold text-slate-800">By feature</h2>
+                  <Table>
+                    <Header>
+                      <Row>
+                        <Head>Feature</Head>
+                        <Head>Calls</Head>
+                        <Head>Usage</Head>
+                        <Head>Cost</Head>
+                      </Row>
+                    </Header>
+                    <Body>
+                      {report.by_feature.map((f) => (
+                        <Row key={f.feature}>
+                          <Cell>{FEATURE_LABELS[f.feature] || f.feature}</Cell>
+                          <Cell>{f.calls.toLocaleString()}</Cell>
+                          <Cell className="text-xs text-slate-600">{featureDetail(f)}</Cell>
+                          <Cell className="font-semibold">{usd(f.cost_usd)}</Cell>
+                        </Row>
+                      ))}
+                    </Body>
+                  </Table>
+                  {report.by_model.length > 0 && (
+                    <p className="text-xs text-slate-500">
+                      {report.by_model.map((m) => `${m.model} (${m.provider}) ${usd(m.cost_usd)}`).join(' · ')}
+                    </p>
+                  )}
+                </Card.Body>
+              </Card>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card className="border-slate-200 bg-white">
+                  <Card.Body className="space-y-3">
+                    <h2 className="font-semibold text-slate-800">By class</h2>
+                    <Table>
+                      <Header>
+                        <Row>
+                          <Head>Class</Head>
+                          <Head>Students</Head>
+                          <Head>Calls</Head>
+                          <Head>Cost</Head>
+                        </Row>
+                      </Header>
+                      <Body>
+                        {report.by_class.map((c) => (
+                          <Row key={c.class_id}>
+                            <Cell>{c.name}</Cell>
+                            <Cell>{c.students}</Cell>
+                            <Cell>{c.calls.toLocaleString()}</Cell>
+                            <Cell className="font-semibold">{usd(c.cost_usd)}</Cell>
+                          </Row>
+                        ))}
+                        <Row>
+                          <Cell className="text-slate-500">No class / anonymous</Cell>
+                          <Cell>—</Cell>
+                          <Cell>{report.unassigned.calls.toLocaleString()}</Cell>
+                          <Cell className="font-semibold">{usd(report.unassigned.cost_usd)}</Cell>
+                        </Row>
+                      </Body>
+                    </Table>
+                    <p className="text-xs text-slate-500">A student in several classes counts toward each.</p>
+                  </Card.Body>
+                </Card>
+
+                <Card className="border-slate-200 bg-white">
+                  <Card.Body className="space-y-3">
+                    <h2 className="font-semibold text-slate-800">Top users</h2>
+                    <Table>
+                      <Header>
+                        <Row>
+                          <Head>User</Head>
+                          <Head>Role</Head>
+                          <Head>Calls</Head>
+                          <Head>Cost</Head>
+                        </Row>
+                      </Header>
+                      <Body>
+                        {report.top_students.map((s) => (
+                          <Row key={s.user_id}>
+                            <Cell className="font-mono text-sm">{s.label || s.user_id}</Cell>
+                            <Cell className="capitalize">{s.role}</Cell>
+                            <Cell>{s.calls.toLocaleString()}</Cell>
+                            <Cell className="font-semibold">{usd(s.cost_usd)}</Cell>
+                          </Row>
+                        ))}
+                      </Body>
+                    </Table>
+                  </Card.Body>
+                </Card>
+              </div>
+
+              <Card className="border-slate-200 bg-white">
+                <Card.Body className="space-y-2">
+                  <h2 className="font-semibold text-slate-800">Daily spend</h2>
+                  {report.by_day.length === 0 ? (
+                    <p className="text-slate-500 text-sm">No AI calls in this range.</p>
+                  ) : (
+                    report.by_day.map((d) => (
+                      <div key={d.day} className="flex items-center gap-3 text-xs">
+                        <span className="w-24 text-slate-500">{d.day}</span>
+                        <div className="flex-1 bg-slate-100 rounded h-3">
+                          <div
+                            className="bg-purple-400 h-3 rounded"
+                            style={{ width: `${maxDayCost > 0 ? (d.cost_usd / maxDayCost) * 100 : 0}%` }}
+                          />
+                        </div>
+                        <span className="w-20 text-right text-slate-700">{usd(d.cost_usd)}</span>
+                      </div>
+                    ))
+                  )}
+                </Card.Body>
+              </Card>
+
+              <Card className="border-slate-200 bg-white">
+                <Card.Body className="space-y-3">
+                  <div>
+                    <h2 className="font-semibold text-slate-800">Quotas per role</h2>
+                    <p className="text-xs text-slate-500">
+                      Budgets in USD per user. Leave empty for unlimited. Users over a budget are told to try again
+                      tomorrow (or next month) until it resets.
+                    </p>
+                  </div>
+                  <Table>
+                    <Header>
+                      <Row>
+                        <Head>Role</Head>
+                        <Head>Daily (USD)</Head>
+                        <Head>Monthly (USD)</Head>
+                        <Head>Updated</Head>
+                        <Head>Actions</Head>
+                      </Row>
+                    </Header>
+                    <Body>
+                      {report.quotas.map((q) => (
+                        <QuotaRow
+                          key={q.role}
+                          quota={q}
+                          disabled={isSaving}
+                          onSave={saveQuota}
+                          onReset={resetQuota}
+                        />
+                      ))}
+                    </Body>
+                  </Table>
+                </Card.Body>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </AdminProtectedRoute>
+  )
+}
@@ -0,0 +1,277 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import AdminProtectedRoute from '@/components/auth/AdminProtectedRoute'
+import { Button, Card, Input, Select } from '@/components/ui'
+import { useNotification } from '@/contexts/NotificationContext'
+import { adminApiRequest } from '@/utils/adminApi'
+
+interface AuditEntry {
+  id: string
+  created_at: string
+  actor_user_id: string | null
+  actor_email: string | null
+  actor_role: string
+  action: string
+  target_type: string
+  target_id: string | null
+  target_label: string | null
+  before_snapshot: unknown
+  after_snapshot: unknown
+  notes: string | null
+  request_metadata: {
+    method?: string | null
+    path?: string | null
+    ip?: string | null
+    region?: string | null
+    device?: string | null
+  }
+  target_users: Array<{ id: string; label: string | null }>
+  target_user_count: number
+}
+
+function actionClass(action: string): string {
+  if (/\.(delete|revoke_sessions|confirm_reset|unrestrict|remove_student)$/.test(action)) return 'bg-red-100 text-red-800'
+  if (action.startsWith('lessons.') || action.startsWith('speech_review.')) return 'bg-amber-100 text-amber-900'
+  return 'bg-slate-100 text-slate-700'
+}
+
+function Snapshot({ title, value }: { title: string; value: unknown }) {
+  return (
+    <div className="min-w-0 flex-1">
+      <p className="text-xs font-semibold text-slate-500 mb-1">{title}</p>
+      <pre className="text-xs bg-slate-50 border border-slate-200 rounded p-2 overflow-auto max-h-64 whitespace-pre-wrap break-all">
+        {value === null || value === undefined ? '—' : JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  )
+}
+
+export default function AdminAuditLogPage() {
+  const router = useRouter()
+  const { showNotification } = useNotification()
+
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [actions, setActions] = useState<string[]>([])
+  const [admins, setAdmins] = useState<string[]>([])
+  const [student, setStudent] = useState('')
+  const [admin, setAdmin] = useState('')
+  const [action, setAction] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: '50' })
+      if (student.trim()) params.set('student', student.trim())
+      if (admin) params.set('admin', admin)
+      if (action) params.set('action', action)
+      if (from) params.set('from', from)
+      if (to) params.set('to', to)
+      const res = await adminApiRequest(`/.netlify/functions/admin-audit-log?${params.toString()}`, {
+        method: 'GET',
+      })
+      const data = await res.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to load audit log')
+      setEntries(data.entries || [])
+      setActions(data.actions || [])
+      setAdmins(data.admins || [])
+      setTotalPages(data.pagination?.totalPages || 1)
+      setTotal(data.pagination?.total || 0)
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to load', 'error')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [student, admin, action, from, to, page, showNotification])
+
+  useEffect(() => {
+    loadEntries()
+  }, [loadEntries])
+
+  return (
+    <AdminProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-purple-50 p-6">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <Button variant="secondary" size="sm" onClick={() => router.push('/admin/dashboard')}>
+              ← Dashboard
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-slate-800">Audit log</h1>
+              <p className="text-slate-600 text-sm">
+                Every admin and teacher change: who made it, to which students, and what it looked like before and
+                after. Entries cannot be edited or removed.
+              </p>
+            </div>
+          </div>
+
+          <Card className="border-slate-200 bg-white">
+            <Card.Body>
+              <div className="flex flex-wrap items-center gap-3">
+                <Input
+                  value={student}
+                  onChange={(e) => {
+                    setStudent(e.target.value)
+                    setPage(1)
+                  }}
+                  placeholder="Student ID / name / email"
+                  className="w-56"
+                />
+                <Select
+                  value={admin}
+                  onChange={(e) => {
+                    setAdmin(e.target.value)
+                    setPage(1)
+                  }}
+                  className="w-56"
+                >
+                  <option value="">All admins</option>
+                  {admins.map((email) => (
+                    <option key={email} value={email}>
+                      {email}
+                    </option>
+                  ))}
+                </Select>
+                <Select
+                  value={action}
+                  onChange={(e) => {
+                    setAction(e.target.value)
+                    setPage(1)
+                  }}
+                  className="w-56"
+                >
+                  <option value="">All actions</option>
+                  {actions.map((a) => (
+                    <option key={a} value={a}>
+                      {a}
+                    </option>
+                  ))}
+                </Select>
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  From
+                  <Input
+                    type="date"
+                    value={from}
+                    onChange={(e) => {
+                      setFrom(e.target.value)
+                      setPage(1)
+                    }}
+                    className="w-40"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  To
+                  <Input
+                    type="date"
+                    value={to}
+                    onChange={(e) => {
+                      setTo(e.target.value)
+                      setPage(1)
+                    }}
+                    className="w-40"
+                  />
+                </label>
+                <div className="flex items-center gap-3 text-sm text-slate-600 ml-auto">
+                  <span>
+                    {total} total · page {page}/{totalPages}
+                  </span>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={page <= 1 || isLoading}
+                    onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  >
+                    Prev
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={page >= totalPages || isLoading}
+                    onClick={() => setPage((p) => p + 1)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            </Card.Body>
+          </Card>
+
+          {isLoading && entries.length === 0 ? (
+            <p className="text-slate-500 text-sm">Loading…</p>
+          ) : entries.length === 0 ? (
+            <p className="text-slate-500 text-sm">No matching entries.</p>
+          ) : (
+            <div className="space-y-3">
+              {entries.map((entry) => {
+                const expanded = expandedId === entry.id
+                const meta = entry.request_metadata || {}
+                const hiddenUsers = entry.target_user_count - entry.target_users.length
+                return (
+                  <Card key={entry.id} className="border-slate-200 bg-white">
+                    <Card.Body className="space-y-2">
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="text-slate-400">{new Date(entry.created_at).toLocaleString()}</span>
+                        <span className={`px-2 py-0.5 rounded text-xs font-semibold font-mono ${actionClass(entry.action)}`}>
+                          {entry.action}
+                        </span>
+                        <span className="font-semibold text-slate-800">
+                          {entry.target_label || `${entry.target_type}${entry.target_id ? ` ${entry.target_id}` : ''}`}
+                        </span>
+                        <span className="text-slate-500">
+                          by {entry.actor_email || entry.actor_user_id || 'unknown'} ({entry.actor_role})
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => setExpandedId(expanded ? null : entry.id)}
+                          className="ml-auto text-xs text-purple-700 hover:underline"
+                        >
+                          {expanded ? 'Hide details' : 'Details'}
+                        </button>
+                      </div>
+
+                      {(entry.target_users.length > 0 || hiddenUsers > 0) && (
+                        <p className="text-xs text-slate-600">
+                          Students:{' '}
+                          {entry.target_users.map((u) => u.label || u.id).join(', ')}
+                          {hiddenUsers > 0 ? ` (+${hiddenUsers} deleted)` : ''}
+                        </p>
+                      )}
+                      {entry.notes && <p className="text-xs text-slate-600">Notes: {entry.notes}</p>}
+
+                      {expanded && (
+                        <div className="space-y-2 pt-2 border-t border-slate-100">
+                          <div className="flex flex-col md:flex-row gap-3">
+                            <Snapshot title="Before" value={entry.before_snapshot} />
+                            <Snapshot title="After" value={entry.after_snapshot} />
+                          </div>
+                          <p className="text-xs text-slate-500">
+                            {[
+                              meta.method && meta.path ? `${meta.method} ${meta.path}` : null,
+                              meta.ip,
+                              meta.region,
+                              meta.device,
+                            ]
+                              .filter(Boolean)
+                              .join(' · ')}
+                          </p>
+                        </div>
+                      )}
+                    </Card.Body>
+                  </Card>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </AdminProtectedRoute>
+  )
+}
@@ -0,0 +1,244 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Button, Card, Input, Select, Table, Header, Body, Row, Head, Cell } from '@/components/ui'
+import { useNotification } from '@/contexts/NotificationContext'
+import { adminApiRequest } from '@/utils/adminApi'
+import type { RosterCredential } from '@/lib/rosterImportXlsx'
+
+type PlanAction = 'create' | 'update' | 'unchanged' | 'conflict'
+
+type PlanItem = {
+  row: number
+  action: PlanAction
+  school_student_id: string
+  email: string
+  nickname: string | null
+  honorific: string | null
+  first_name: string | null
+  last_name: string | null
+  changes: string[]
+  reason: string | null
+}
+
+type Preview = {
+  plan: PlanItem[]
+  summary: Record<PlanAction, number>
+  errors: Array<{ row: number; message: string }>
+}
+
+const ACTION_CLASS: Record<PlanAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  unchanged: 'bg-slate-100 text-slate-600',
+  conflict: 'bg-red-100 text-red-800 font-semibold',
+}
+
+/** Admin-only roster import: upload → preview (creates / updates / conflicts) → commit → credentials sheet. */
+export default function RosterImportCard({
+  classes,
+  defaultClassId,
+  onImported,
+}: {
+  classes: Array<{ id: string; name: string }>
+  defaultClassId: string | null
+  onImported: () => void
+}) {
+  const { showNotification } = useNotification()
+  const [fileName, setFileName] = useState('')
+  const [rows, setRows] = useState<Array<Record<string, unknown>>>([])
+  const [classId, setClassId] = useState(defaultClassId || '')
+  const [resetPasswords, setResetPasswords] = useState(false)
+  const [emailDomain, setEmailDomain] = useState('')
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [credentials, setCredentials] = useState<RosterCredential[]>([])
+
+  const request = async (action: 'preview' | 'commit', sourceRows = rows) => {
+    const res = await adminApiRequest('/.netlify/functions/admin-roster-import', {
+      method: 'POST',
+      body: JSON.stringify({
+        action,
+        rows: sourceRows,
+        class_id: classId || undefined,
+        reset_passwords: resetPasswords,
+        email_domain: emailDomain.trim() || undefined,
+      }),
+    })
+    return res.json()
+  }
+
+  const runPreview = async (sourceRows = rows) => {
+    setBusy(true)
+    try {
+      const data = await request('preview', sourceRows)
+      if (!data?.success) throw new Error(data?.error || 'Preview failed')
+      setPreview({ plan: data.plan || [], summary: data.summary, errors: data.errors || [] })
+    } catch (e) {
+      showNotification((e as Error).message || 'Preview failed', 'error')
+      setPreview(null)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setCredentials([])
+    setPreview(null)
+    try {
+      const { readRosterFile } = await import('@/lib/rosterImportXlsx')
+      const parsed = await readRosterFile(file)
+      setFileName(file.name)
+      setRows(parsed)
+      await runPreview(parsed)
+    } catch (e) {
+      showNotification((e as Error).message || 'Could not read the file', 'error')
+    }
+  }
+
+  const commit = async () => {
+    if (!preview) return
+    setBusy(true)
+    try {
+      const data = await request('commit')
+      if (!data?.success) {
+        if (data?.plan) setPreview({ plan: data.plan, summary: data.summary, errors: data.errors || [] })
+        throw new Error(data?.error || 'Import failed')
+      }
+      const issued: RosterCredential[] = data.credentials || []
+      setCredentials(issued)
+      setPreview(null)
+      setRows([])
+      showNotification(
+        `Imported: ${data.summary.create} created, ${data.summary.update} updated, ${data.summary.unchanged} unchanged`,
+        'success'
+      )
+      if (issued.length) await downloadCredentials(issued)
+      onImported()
+    } catch (e) {
+      showNotification((e as Error).message || 'Import failed', 'error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const downloadCredentials = async (list = credentials) => {
+    const { exportCredentialsWorkbook } = await import('@/lib/rosterImportXlsx')
+    exportCredentialsWorkbook(list)
+  }
+
+  const blocked = !preview || preview.errors.length > 0 || preview.summary.conflict > 0
+
+  return (
+    <Card className="p-5 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-800">Import students</h2>
+        <p className="text-sm text-slate-600 mt-0.5">
+          XLSX or CSV with columns <strong>ID</strong>, <strong>Nick</strong> and optionally Honorific, First name,
+          Last name (first sheet only; the scores export works). New students log in with their ID as username and
+          get a random password listed in the credentials sheet — download it right away, it is not stored.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">File</label>
+          <input
+            type="file"
+            accept=".xlsx,.xls,.csv"
+            className="block w-full text-sm text-slate-700"
+            onChange={(e) => {
+              void handleFile(e.target.files?.[0])
+              e.target.value = ''
+            }}
+          />
+          {fileName ? <p className="text-xs text-slate-500 mt-1">{fileName} · {rows.length} rows</p> : null}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Add to class</label>
+          <Select value={classId} onChange={(e) => setClassId(e.target.value)}>
+            <option value="">— none —</option>
+            {classes.map((c) => (
+              <option key={c.id} value={c.id}>
+                Class {c.name}
+              </option>
+            ))}
+          </Select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Email domain</label>
+          <Input value={emailDomain} onChange={(e) => setEmailDomain(e.target.value)} placeholder="mws.ac.th" />
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-slate-700">
+        <input type="checkbox" checked={resetPasswords} onChange={(e) => setResetPasswords(e.target.checked)} />
+        Also issue new passwords for students that already exist
+      </label>
+
+      {preview ? (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            {(Object.keys(ACTION_CLASS) as PlanAction[]).map((a) => (
+              <span key={a} className={`rounded px-2 py-0.5 ${ACTION_CLASS[a]}`}>
+                {preview.summary[a]} {a}
+              </span>
+            ))}
+            <Button size="sm" variant="ghost" onClick={() => runPreview()} disabled={busy || !rows.length}>
+              Re-check
+            </Button>
+          </div>
+          {preview.errors.length ? (
+            <ul className="text-sm text-red-700 list-disc pl-5">
+              {preview.errors.map((err, i) => (
+                <li key={i}>{err.row ? `Row ${err.row}: ${err.message}` : err.message}</li>
+              ))}
+            </ul>
+          ) : null}
+          <Table>
+            <Header>
+              <Row>
+                <Head>Row</Head>
+                <Head>ID</Head>
+                <Head>Nick</Head>
+                <Head>Name</Head>
+                <Head>Result</Head>
+              </Row>
+            </Header>
+            <Body>
+              {preview.plan.map((item) => (
+                <Row key={item.row}>
+                  <Cell className="text-xs text-slate-500 tabular-nums">{item.row}</Cell>
+                  <Cell className="text-sm font-semibold text-slate-800 tabular-nums">{item.school_student_id}</Cell>
+                  <Cell className="text-sm text-slate-700">{item.nickname || '—'}</Cell>
+                  <Cell className="text-sm text-slate-700">
+                    {[item.honorific, item.first_name, item.last_name].filter(Boolean).join(' ') || '—'}
+                  </Cell>
+                  <Cell className="text-xs">
+                    <span className={`rounded px-2 py-0.5 ${ACTION_CLASS[item.action]}`}>{item.action}</span>
+                    {item.action === 'update' ? (
+                      <span className="ml-2 text-slate-500">{item.changes.join(', ')}</span>
+                    ) : null}
+                    {item.reason ? <span className="ml-2 text-red-700">{item.reason}</span> : null}
+                  </Cell>
+                </Row>
+              ))}
+            </Body>
+          </Table>
+          <Button size="sm" onClick={commit} disabled={busy || blocked}>
+            {busy ? 'Importing…' : 'Import'}
+          </Button>
+        </div>
+      ) : null}
+
+      {credentials.length ? (
+        <div className="flex items-center gap-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+          {credentials.length} password(s) issued.
+          <Button size="sm" variant="secondary" onClick={() => downloadCredentials()}>
+            Download credentials again
+          </Button>
+        </div>
+      ) : null}
+    </Card>
+  )
+}
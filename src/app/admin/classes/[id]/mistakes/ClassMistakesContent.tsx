@@ -0,0 +1,172 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { Button, Card, Table, Header, Body, Row, Head, Cell } from '@/components/ui'
+import { useNotification } from '@/contexts/NotificationContext'
+import { adminApiRequest } from '@/utils/adminApi'
+
+/** buildClassMistakeReport (functions/lib/mistake-notebook.ts) */
+type MistakePattern = {
+  pattern_key: string
+  kind: 'grammar' | 'vocabulary'
+  students: number
+  occurrences: number
+  open_students: number
+  examples: Array<{ mistake: string; correction: string }>
+}
+
+type MistakeStudent = {
+  user_id: string
+  school_student_id: string | null
+  nickname: string | null
+  first_name: string | null
+  last_name: string | null
+  open: number
+  resolved: number
+  occurrences: number
+  top_pattern: string | null
+}
+
+type ReportResponse = {
+  class: { id: string; name: string; school: string; term: string }
+  patterns: MistakePattern[]
+  students: MistakeStudent[]
+}
+
+function studentName(s: MistakeStudent): string {
+  const name = [s.first_name, s.last_name].filter(Boolean).join(' ')
+  return [s.school_student_id, s.nickname || name].filter(Boolean).join(' · ') || s.user_id
+}
+
+/** Recurring errors across a class's mistake notebooks, and each student's open mistakes. */
+export default function ClassMistakesContent() {
+  const router = useRouter()
+  const params = useParams()
+  const classId = params.id as string
+  const { showNotification } = useNotification()
+  const [report, setReport] = useState<ReportResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await adminApiRequest(
+        `/.netlify/functions/admin-classes?id=${encodeURIComponent(classId)}&report=mistakes`
+      )
+      const data = await response.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to load class mistakes')
+      setReport(data)
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to load class mistakes', 'error')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [classId, showNotification])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const patterns = report?.patterns || []
+  const students = report?.students || []
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-purple-50">
+      <div className="bg-white border-b border-purple-200 px-6 py-4 shadow-sm">
+        <div className="flex items-center space-x-4">
+          <Button variant="secondary" size="sm" onClick={() => router.push('/admin/classes')}>
+            ← Back to Classes
+          </Button>
+          <div>
+            <h1 className="text-xl font-bold text-slate-800">
+              Mistakes{report ? `: ${report.class.name}` : ''}
+            </h1>
+            <p className="text-slate-600 text-sm">
+              Speaking corrections and wrong grammar answers from the students&apos; mistake notebooks
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <Card className="bg-white border-purple-200 shadow-lg">
+          <Card.Body>
+            <h3 className="text-lg font-semibold text-slate-800 mb-1">Common errors</h3>
+            <p className="text-sm text-slate-600 mb-4">
+              Errors grouped by the words that changed, most widespread first. Open counts students who have not yet
+              ticked the error off in practice.
+            </p>
+            {isLoading ? (
+              <p className="text-sm text-slate-600">Loading…</p>
+            ) : patterns.length === 0 ? (
+              <p className="text-sm text-slate-600">No mistakes recorded for this class yet.</p>
+            ) : (
+              <Table>
+                <Header>
+                  <Row>
+                    <Head>Error</Head>
+                    <Head>Type</Head>
+                    <Head>Students</Head>
+                    <Head>Open</Head>
+                    <Head>Times made</Head>
+                    <Head>Examples</Head>
+                  </Row>
+                </Header>
+                <Body>
+                  {patterns.map((p) => (
+                    <Row key={p.pattern_key}>
+                      <Cell className="text-sm font-medium text-slate-800">{p.pattern_key}</Cell>
+                      <Cell className="text-sm text-slate-600">{p.kind === 'grammar' ? 'Grammar' : 'Vocabulary'}</Cell>
+                      <Cell className="text-sm tabular-nums">{p.students}</Cell>
+                      <Cell className="text-sm tabular-nums">{p.open_students}</Cell>
+                      <Cell className="text-sm tabular-nums">{p.occurrences}</Cell>
+                      <Cell className="text-xs text-slate-600">
+                        {p.examples.map((e, i) => (
+                          <div key={i} className="max-w-[24rem]">
+                            <span className="text-red-700 line-through">{e.mistake}</span>{' '}
+                            <span className="text-green-700">{e.correction}</span>
+                          </div>
+                        ))}
+                      </Cell>
+                    </Row>
+                  ))}
+                </Body>
+              </Table>
+            )}
+          </Card.Body>
+        </Card>
+
+        {students.length ? (
+          <Card className="bg-white border-purple-200 shadow-lg">
+            <Card.Body>
+              <h3 className="text-lg font-semibold text-slate-800 mb-4">By student</h3>
+              <Table>
+                <Header>
+                  <Row>
+                    <Head>Student</Head>
+                    <Head>Open</Head>
+                    <Head>Ticked off</Head>
+                    <Head>Times made</Head>
+                    <Head>Most frequent open error</Head>
+                  </Row>
+                </Header>
+                <Body>
+                  {students.map((s) => (
+                    <Row key={s.user_id}>
+                      <Cell className="text-sm text-slate-800">{studentName(s)}</Cell>
+                      <Cell className="text-sm tabular-nums">{s.open}</Cell>
+                      <Cell className="text-sm tabular-nums">{s.resolved}</Cell>
+                      <Cell className="text-sm tabular-nums">{s.occurrences}</Cell>
+                      <Cell className="text-sm text-slate-600">{s.top_pattern || '—'}</Cell>
+                    </Row>
+                  ))}
+                </Body>
+              </Table>
+            </Card.Body>
+          </Card>
+        ) : null}
+      </div>
+    </div>
+  )
+}
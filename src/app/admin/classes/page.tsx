@@ -0,0 +1,601 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import AdminProtectedRoute from '@/components/auth/AdminProtectedRoute'
+import { Button, Card, Input, Select, Textarea, Table, Header, Body, Row, Head, Cell } from '@/components/ui'
+import { useAuth } from '@/contexts/AuthContext'
+import { useNotification } from '@/contexts/NotificationContext'
+import { adminApiRequest } from '@/utils/adminApi'
+import { downloadDataUrl } from '@/lib/downloadDataUrl'
+import { studentLessonListTitle } from '@/lib/studentTrack'
+import RosterImportCard from './RosterImportCard'
+
+const CEFR_LEVELS = ['Pre-A1', 'A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const
+
+type ClassTeacher = {
+  id: string
+  email: string | null
+  name?: string | null
+  username?: string | null
+  first_name?: string | null
+  last_name?: string | null
+}
+
+type ClassRow = {
+  id: string
+  name: string
+  school: string
+  term: string
+  cefr_level: string | null
+  active: boolean
+  student_count: number
+  lesson_count: number
+  teachers: ClassTeacher[]
+}
+
+type RosterStudent = {
+  id: string
+  school_student_id: string | null
+  nickname: string | null
+  honorific: string | null
+  first_name: string | null
+  last_name: string | null
+  added_at: string
+}
+
+type ClassDetail = {
+  class: Omit<ClassRow, 'student_count' | 'lesson_count' | 'teachers'>
+  teachers: ClassTeacher[]
+  students: RosterStudent[]
+  lesson_ids: string[]
+}
+
+type TrackLesson = {
+  id: string
+  lesson_number: number
+  topic: string
+  slug: string | null
+  active: boolean
+}
+
+type ClassForm = {
+  id: string | null
+  name: string
+  school: string
+  term: string
+  cefr_level: string
+  active: boolean
+}
+
+const EMPTY_FORM: ClassForm = { id: null, name: '', school: '', term: '', cefr_level: '', active: true }
+
+function teacherLabel(t: ClassTeacher): string {
+  const name = t.name || [t.first_name, t.last_name].filter(Boolean).join(' ')
+  return name ? `${name} (${t.email || t.username || '—'})` : t.email || t.username || t.id.slice(0, 8)
+}
+
+export default function AdminClassesPage() {
+  const router = useRouter()
+  const { showNotification } = useNotification()
+  const { user, logout } = useAuth()
+  const isAdmin = user?.role === 'admin'
+
+  const [classes, setClasses] = useState<ClassRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<ClassForm | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [importOpen, setImportOpen] = useState(false)
+
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [detail, setDetail] = useState<ClassDetail | null>(null)
+  const [loadingDetail, setLoadingDetail] = useState(false)
+  const [teachersInput, setTeachersInput] = useState('')
+  const [studentIdsInput, setStudentIdsInput] = useState('')
+  const [trackLessons, setTrackLessons] = useState<TrackLesson[]>([])
+  const [lessonIds, setLessonIds] = useState<Set<string>>(new Set())
+
+  const loadClasses = useCallback(async () => {
+    try {
+      setLoading(true)
+      const res = await adminApiRequest('/.netlify/functions/admin-classes', { method: 'GET' })
+      const data = await res.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to load classes')
+      setClasses(Array.isArray(data.classes) ? data.classes : [])
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to load classes', 'error')
+      setClasses([])
+    } finally {
+      setLoading(false)
+    }
+  }, [showNotification])
+
+  const loadDetail = useCallback(
+    async (classId: string) => {
+      try {
+        setLoadingDetail(true)
+        const [detailRes, lessonsRes] = await Promise.all([
+          adminApiRequest(`/.netlify/functions/admin-classes?id=${encodeURIComponent(classId)}`, { method: 'GET' }),
+          adminApiRequest('/.netlify/functions/admin-student-lessons', { method: 'GET' }),
+        ])
+        const data = await detailRes.json()
+        const lessonsData = await lessonsRes.json()
+        if (!data?.success) throw new Error(data?.error || 'Failed to load class')
+        setDetail(data as ClassDetail)
+        setTeachersInput((data.teachers || []).map((t: ClassTeacher) => t.email || t.username).filter(Boolean).join(', '))
+        setLessonIds(new Set(data.lesson_ids || []))
+        setTrackLessons(lessonsData?.success && Array.isArray(lessonsData.lessons) ? lessonsData.lessons : [])
+      } catch (e) {
+        showNotification((e as Error).message || 'Failed to load class', 'error')
+        setDetail(null)
+      } finally {
+        setLoadingDetail(false)
+      }
+    },
+    [showNotification]
+  )
+
+  useEffect(() => {
+    loadClasses()
+  }, [loadClasses])
+
+  useEffect(() => {
+    if (selectedId) loadDetail(selectedId)
+  }, [selectedId, loadDetail])
+
+  const post = async (payload: Record<string, unknown>) => {
+    const res = await adminApiRequest('/.netlify/functions/admin-classes', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    })
+    const data = await res.json()
+    if (!data?.success) throw new Error(data?.error || 'Request failed')
+    return data
+  }
+
+  const saveClass = async () => {
+    if (!form) return
+    if (!form.name.trim()) {
+      showNotification('Class name is required', 'error')
+      return
+    }
+    setSaving(true)
+    try {
+      const data = await post({
+        action: 'save_class',
+        id: form.id || undefined,
+        name: form.name,
+        school: form.school,
+        term: form.term,
+        cefr_level: form.cefr_level || null,
+        active: form.active,
+      })
+      showNotification(form.id ? 'Class updated' : 'Class created', 'success')
+      setForm(null)
+      await loadClasses()
+      if (data.class?.id) setSelectedId(data.class.id)
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to save class', 'error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteClass = async (cls: ClassRow) => {
+    if (!confirm(`Delete class ${cls.name}? Students and their progress are kept.`)) return
+    try {
+      const res = await adminApiRequest('/.netlify/functions/admin-classes', {
+        method: 'DELETE',
+        body: JSON.stringify({ id: cls.id }),
+      })
+      const data = await res.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to delete class')
+      showNotification('Class deleted', 'success')
+      if (selectedId === cls.id) {
+        setSelectedId(null)
+        setDetail(null)
+      }
+      await loadClasses()
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to delete class', 'error')
+    }
+  }
+
+  const runDetailAction = async (payload: Record<string, unknown>, success: (data: any) => string) => {
+    if (!selectedId) return
+    setSaving(true)
+    try {
+      const data = await post({ ...payload, class_id: selectedId })
+      showNotification(success(data), 'success')
+      await Promise.all([loadDetail(selectedId), loadClasses()])
+    } catch (e) {
+      showNotification((e as Error).message || 'Request failed', 'error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const addStudents = async () => {
+    if (!studentIdsInput.trim()) return
+    await runDetailAction({ action: 'add_students', student_ids: studentIdsInput }, (data) => {
+      setStudentIdsInput('')
+      const parts = [`${data.added} added`]
+      if (data.already_in_class) parts.push(`${data.already_in_class} already in class`)
+      if (data.not_found?.length) parts.push(`not found: ${data.not_found.join(', ')}`)
+      return parts.join(' · ')
+    })
+  }
+
+  const exportRoster = async () => {
+    if (!detail) return
+    try {
+      const res = await adminApiRequest(
+        `/.netlify/functions/admin-classes?id=${encodeURIComponent(detail.class.id)}&format=csv`,
+        { method: 'GET' }
+      )
+      if (!res.ok) throw new Error('Failed to export roster')
+      const url = URL.createObjectURL(await res.blob())
+      downloadDataUrl(url, `roster-${detail.class.name.replace(/[^\w.-]+/g, '_')}.csv`)
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to export roster', 'error')
+    }
+  }
+
+  const toggleLesson = (lessonId: string) => {
+    setLessonIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(lessonId)) next.delete(lessonId)
+      else next.add(lessonId)
+      return next
+    })
+  }
+
+  const handleLogout = async () => {
+    await logout()
+    window.location.href = '/'
+  }
+
+  return (
+    <AdminProtectedRoute allowTeacher>
+      <main className="min-h-screen bg-slate-900 p-4 sm:p-6">
+        <div className="max-w-6xl mx-auto space-y-4">
+          <div className="flex items-center justify-between gap-3">
+            {isAdmin ? (
+              <Button variant="secondary" size="sm" onClick={() => router.push('/admin/dashboard')}>
+                ← Back to Dashboard
+              </Button>
+            ) : (
+              <Button variant="secondary" size="sm" onClick={handleLogout}>
+                Logout
+              </Button>
+            )}
+            <div className="flex items-center gap-2">
+              <Button variant="secondary" size="sm" onClick={() => router.push('/admin/students')}>
+                Students & scores
+              </Button>
+              {isAdmin ? (
+                <>
+                  <Button variant="secondary" size="sm" onClick={() => setImportOpen((open) => !open)}>
+                    {importOpen ? 'Hide import' : 'Import students'}
+                  </Button>
+                  <Button variant="secondary" size="sm" onClick={() => setForm({ ...EMPTY_FORM })}>
+                    New class
+                  </Button>
+                </>
+              ) : null}
+              <Button variant="ghost" size="sm" onClick={loadClasses} disabled={loading}>
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          <Card className="p-5 bg-gradient-to-br from-white to-purple-50 border-purple-200">
+            <h1 className="text-2xl font-bold text-slate-900">Classes</h1>
+            <p className="text-sm text-slate-600 mt-1">
+              {isAdmin
+                ? 'Create classes, assign teachers and manage rosters. Teachers only see the classes assigned to them.'
+                : 'Your classes. Add students by school ID and choose which student lessons each class sees.'}
+            </p>
+          </Card>
+
+          {isAdmin && importOpen ? (
+            <RosterImportCard
+              classes={classes}
+              defaultClassId={selectedId}
+              onImported={() => {
+                loadClasses()
+                if (selectedId) loadDetail(selectedId)
+              }}
+            />
+          ) : null}
+
+          {form ? (
+            <Card className="p-5 space-y-4">
+              <h2 className="text-lg font-semibold text-slate-800">{form.id ? 'Edit class' : 'New class'}</h2>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+                  <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="1/15" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">School</label>
+                  <Input value={form.school} onChange={(e) => setForm({ ...form, school: e.target.value })} placeholder="MWS" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Term</label>
+                  <Input value={form.term} onChange={(e) => setForm({ ...form, term: e.target.value })} placeholder="2026-T1" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Level</label>
+                  <Select value={form.cefr_level} onChange={(e) => setForm({ ...form, cefr_level: e.target.value })}>
+                    <option value="">—</option>
+                    {CEFR_LEVELS.map((lv) => (
+                      <option key={lv} value={lv}>
+                        {lv}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={form.active}
+                  onChange={(e) => setForm({ ...form, active: e.target.checked })}
+                />
+                Active
+              </label>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={saveClass} disabled={saving}>
+                  {saving ? 'Saving…' : 'Save'}
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setForm(null)} disabled={saving}>
+                  Cancel
+                </Button>
+              </div>
+            </Card>
+          ) : null}
+
+          <Card className="p-5">
+            {loading ? (
+              <p className="text-sm text-slate-500">Loading…</p>
+            ) : classes.length === 0 ? (
+              <p className="text-sm text-slate-500">
+                {isAdmin ? 'No classes yet.' : 'You are not assigned to any class yet. Ask an admin to add you.'}
+              </p>
+            ) : (
+              <Table>
+                <Header>
+                  <Row>
+                    <Head>Class</Head>
+                    <Head>School / term</Head>
+                    <Head>Level</Head>
+                    <Head>Students</Head>
+                    <Head>Lessons</Head>
+                    <Head>Teachers</Head>
+                    <Head>Actions</Head>
+                  </Row>
+                </Header>
+                <Body>
+                  {classes.map((c) => (
+                    <Row key={c.id} className={selectedId === c.id ? 'bg-purple-50' : 'hover:bg-slate-50'}>
+                      <Cell className="text-sm font-semibold text-slate-800">
+                        {c.name}
+                        {!c.active ? <span className="ml-2 text-xs font-normal text-slate-400">inactive</span> : null}
+                      </Cell>
+                      <Cell className="text-sm text-slate-700">{[c.school, c.term].filter(Boolean).join(' · ') || '—'}</Cell>
+                      <Cell className="text-sm text-slate-700">{c.cefr_level || '—'}</Cell>
+                      <Cell className="text-sm text-slate-700 tabular-nums">{c.student_count}</Cell>
+                      <Cell className="text-sm text-slate-700 tabular-nums">{c.lesson_count || 'all'}</Cell>
+                      <Cell className="text-xs text-slate-600">
+                        {c.teachers.length ? c.teachers.map(teacherLabel).join(', ') : '—'}
+                      </Cell>
+                      <Cell>
+                        <div className="flex flex-wrap gap-2">
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            onClick={() => setSelectedId(selectedId === c.id ? null : c.id)}
+                          >
+                            {selectedId === c.id ? 'Close' : 'Open'}
+                          </Button>
+                          {isAdmin ? (
+                            <>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() =>
+                                  setForm({
+                                    id: c.id,
+                                    name: c.name,
+                                    school: c.school,
+                                    term: c.term,
+                                    cefr_level: c.cefr_level || '',
+                                    active: c.active,
+                                  })
+                                }
+                              >
+                                Edit
+                              </Button>
+                              <Button size="sm" variant="ghost" onClick={() => deleteClass(c)}>
+                                Delete
+                              </Button>
+                            </>
+                          ) : null}
+                        </div>
+                      </Cell>
+                    </Row>
+                  ))}
+                </Body>
+              </Table>
+            )}
+          </Card>
+
+          {selectedId ? (
+            loadingDetail && !detail ? (
+              <Card className="p-6 text-slate-700">Loading class…</Card>
+            ) : detail ? (
+              <>
+                <Card className="p-5 space-y-4">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <h2 className="text-lg font-semibold text-slate-800">
+                      Class {detail.class.name} — {detail.students.length} students
+                    </h2>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => router.push(`/admin/students?classId=${encodeURIComponent(detail.class.id)}`)}
+                      >
+                        Scores
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => router.push(`/admin/classes/${encodeURIComponent(detail.class.id)}/mistakes`)}
+                      >
+                        Mistakes
+                      </Button>
+                      <Button size="sm" variant="secondary" onClick={exportRoster} disabled={!detail.students.length}>
+                        Export roster CSV
+                      </Button>
+                    </div>
+                  </div>
+
+                  {isAdmin ? (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-1">
+                        Teachers (emails or usernames, comma-separated)
+                      </label>
+                      <div className="flex gap-2">
+                        <Input value={teachersInput} onChange={(e) => setTeachersInput(e.target.value)} />
+                        <Button
+                          size="sm"
+                          disabled={saving}
+                          onClick={() =>
+                            runDetailAction(
+                              { action: 'set_teachers', teachers: teachersInput },
+                              (data) => `${data.teacher_count} teacher(s) assigned`
+                            )
+                          }
+                        >
+                          Save
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-slate-600">
+                      Teachers: {detail.teachers.length ? detail.teachers.map(teacherLabel).join(', ') : '—'}
+                    </p>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                      Add students (school IDs, separated by commas, spaces or new lines)
+                    </label>
+                    <Textarea
+                      rows={3}
+                      value={studentIdsInput}
+                      onChange={(e) => setStudentIdsInput(e.target.value)}
+                      placeholder="52439, 52440"
+                    />
+                    <Button size="sm" className="mt-2" onClick={addStudents} disabled={saving || !studentIdsInput.trim()}>
+                      Add to class
+                    </Button>
+                  </div>
+
+                  {detail.students.length ? (
+                    <Table>
+                      <Header>
+                        <Row>
+                          <Head>ID</Head>
+                          <Head>Nickname</Head>
+                          <Head>Name</Head>
+                          <Head>Actions</Head>
+                        </Row>
+                      </Header>
+                      <Body>
+                        {detail.students.map((s) => (
+                          <Row key={s.id}>
+                            <Cell className="text-sm font-semibold text-slate-800 tabular-nums">
+                              {s.school_student_id || '—'}
+                            </Cell>
+                            <Cell className="text-sm text-slate-700">{s.nickname || '—'}</Cell>
+                            <Cell className="text-sm text-slate-700">
+                              {[s.honorific, s.first_name, s.last_name].filter(Boolean).join(' ') || '—'}
+                            </Cell>
+                            <Cell>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                disabled={saving}
+                                onClick={() =>
+                                  runDetailAction(
+                                    { action: 'remove_student', user_id: s.id },
+                                    () => `Removed ${s.school_student_id || s.nickname || 'student'} from the class`
+                                  )
+                                }
+                              >
+                                Remove
+                              </Button>
+                            </Cell>
+                          </Row>
+                        ))}
+                      </Body>
+                    </Table>
+                  ) : (
+                    <p className="text-sm text-slate-500">No students in this class yet.</p>
+                  )}
+                </Card>
+
+                <Card className="p-5 space-y-3">
+                  <div>
+                    <h2 className="text-lg font-semibold text-slate-800">Assigned student lessons</h2>
+                    <p className="text-sm text-slate-600 mt-0.5">
+                      With none selected the class sees every active lesson. Selecting lessons limits the class
+                      dashboard to those lessons (inactive lessons stay hidden).
+                    </p>
+                  </div>
+                  {trackLessons.length === 0 ? (
+                    <p className="text-sm text-slate-500">No student lessons in the database yet.</p>
+                  ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      {trackLessons.map((lesson) => (
+                        <label
+                          key={lesson.id}
+                          className="flex items-center gap-2 rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={lessonIds.has(lesson.id)}
+                            onChange={() => toggleLesson(lesson.id)}
+                          />
+                          <span className="min-w-0 flex-1">{studentLessonListTitle(lesson)}</span>
+                          {!lesson.active ? <span className="text-xs text-slate-400">inactive</span> : null}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                  <Button
+                    size="sm"
+                    disabled={saving}
+                    onClick={() =>
+                      runDetailAction(
+                        { action: 'set_lessons', student_lesson_ids: [...lessonIds] },
+                        (data) =>
+                          data.lesson_count ? `${data.lesson_count} lesson(s) assigned` : 'Class now sees every active lesson'
+                      )
+                    }
+                  >
+                    Save lessons
+                  </Button>
+                </Card>
+              </>
+            ) : null
+          ) : null}
+        </div>
+      </main>
+    </AdminProtectedRoute>
+  )
+}
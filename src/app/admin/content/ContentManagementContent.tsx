@@ -394,13 +394,19 @@ export default function ContentManagementContent() {
         )}
 
         {activeTab === 'evaluation' && (
-          <div className="mb-6">
+          <div className="mb-6 flex gap-3">
             <Button
               onClick={() => router.push('/admin/content/evaluation/new')}
               className="bg-purple-600 hover:bg-purple-700"
             >
               ➕ New Evaluation Test
             </Button>
+            <Button
+              variant="secondary"
+              onClick={() => router.push('/admin/content/evaluation/results')}
+            >
+              Results
+            </Button>
           </div>
         )}
 
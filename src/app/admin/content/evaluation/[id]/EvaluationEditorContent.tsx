@@ -6,16 +6,23 @@ import { useTranslation } from 'react-i18next'
 import { motion } from 'framer-motion'
 import { Card, Button, Input, Select, Textarea } from '@/components/ui'
 import { useNotification } from '@/contexts/NotificationContext'
+import { ITEM_FLAG_LABELS, ITEM_FLAG_SEVERE, itemAnalysisPath, type ItemReport } from '@/lib/itemAnalysis'
 
 interface Question {
   id: string
-  question_type: 'multiple_choice' | 'drag_match' | 'fill_blank' | 'dropdown' | 'drag_fill' | 'speaking'
+  question_type: 'multiple_choice' | 'drag_match' | 'fill_blank' | 'dropdown' | 'drag_fill' | 'speaking' | 'writing'
   prompt: string
   content: any
   correct_answer: string | null
   points: number
+  /** CEFR band used by adaptive mode to pick the next item */
+  level?: string
 }
 
+const ADAPTIVE_LEVELS = ['Pre-A1', 'A1', 'A2', 'B1', 'B2', 'C1', 'C2']
+// Types the adaptive engine can score by exact match (functions/lib/adaptive-placement.ts)
+const ADAPTIVE_TYPES: Question['question_type'][] = ['multiple_choice', 'fill_blank', 'dropdown', 'drag_fill']
+
 interface EvaluationTest {
   id: string
   test_name: string
@@ -24,6 +31,7 @@ interface EvaluationTest {
   passing_score: number
   allowed_time: number
   is_active: boolean
+  adaptive?: boolean
   questions: Question[]
   created_at: string
   updated_at: string
@@ -41,6 +49,7 @@ export default function EvaluationEditorContent() {
   const [isLoading, setIsLoading] = useState(true)
   const [isSaving, setIsSaving] = useState(false)
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
+  const [itemReports, setItemReports] = useState<Record<string, ItemReport>>({})
 
   // Local storage key for drafts - memoized to prevent recreation
   const storageKey = React.useMemo(() => `evaluation-edit-${testId}`, [testId])
@@ -75,7 +84,7 @@ export default function EvaluationEditorContent() {
       // If no localStorage data, load from API
       const { adminApiRequest } = await import('@/utils/adminApi')
       
-      const response = await adminApiRequest(`/.netlify/functions/get-evaluation-test?id=${testId}`, {
+      const response = await adminApiRequest(`/.netlify/functions/admin-evaluation?id=${encodeURIComponent(testId)}`, {
         method: 'GET'
       })
 
@@ -104,6 +113,26 @@ export default function EvaluationEditorContent() {
     }
   }, [testId, loadTest])
 
+  // Per-question stats from stored results; the editor only shows a summary and links to the report
+  useEffect(() => {
+    if (!testId) return
+    let cancelled = false
+    ;(async () => {
+      try {
+        const { adminApiRequest } = await import('@/utils/adminApi')
+        const response = await adminApiRequest(`/.netlify/functions/admin-evaluation?item_analysis=1&id=${encodeURIComponent(testId)}`)
+        const result = await response.json()
+        if (cancelled || !result?.success) return
+        setItemReports(Object.fromEntries((result.items as ItemReport[]).map(item => [item.question_id, item])))
+      } catch (error) {
+        console.warn('Failed to load item analysis:', error)
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [testId])
+
   // Auto-save to localStorage when test changes
   useEffect(() => {
     if (test && hasUnsavedChanges && !isLoading) {
@@ -173,6 +202,12 @@ export default function EvaluationEditorContent() {
           updated.correct_answer = null
           updated.points = 0
         }
+        // Writing is AI-graded against content.min_words; there is no correct answer
+        if (updates.question_type === 'writing') {
+          updated.correct_answer = null
+          updated.content = { min_words: updated.content?.min_words ?? 50 }
+          updated.points = q.question_type === 'speaking' || !q.points ? 10 : q.points
+        }
         // If changing to drag_match type, initialize pairs if not present
         if (updates.question_type === 'drag_match' && !updated.content?.pairs) {
           updated.content = { ...updated.content, pairs: [{ word: '', match: '' }] }
@@ -264,6 +299,12 @@ export default function EvaluationEditorContent() {
                 Unsaved changes (auto-saved locally)
               </span>
             )}
+            <Button
+              variant="secondary"
+              onClick={() => router.push(itemAnalysisPath(testId))}
+            >
+              Item analysis
+            </Button>
             <Button
               onClick={handleSave}
               disabled={isSaving}
@@ -354,6 +395,25 @@ export default function EvaluationEditorContent() {
                 Test is active and available to users
               </label>
             </div>
+
+            <div className="flex items-start space-x-2">
+              <input
+                type="checkbox"
+                id="adaptive"
+                checked={test.adaptive === true}
+                onChange={(e) => updateTestInfo('adaptive', e.target.checked)}
+                className="mt-0.5 rounded border-purple-200 bg-white text-purple-600 focus:ring-purple-500"
+              />
+              <label htmlFor="adaptive" className="text-sm text-slate-700">
+                Adaptive mode — serve level-tagged multiple choice, fill blank, dropdown and drag fill questions
+                one at a time by estimated ability, stopping when the estimate settles. Other questions follow in order.
+                {test.adaptive && (
+                  <span className="block text-xs text-slate-500 mt-1">
+                    {test.questions.filter(q => ADAPTIVE_TYPES.includes(q.question_type) && q.level).length} questions tagged with a level
+                  </span>
+                )}
+              </label>
+            </div>
           </Card.Body>
         </Card>
 
@@ -392,12 +452,45 @@ export default function EvaluationEditorContent() {
                         <option value="dropdown">Dropdown</option>
                         <option value="drag_fill">Drag & Fill</option>
                         <option value="speaking">Speaking</option>
+                        <option value="writing">Writing</option>
                       </Select>
+                      {ADAPTIVE_TYPES.includes(question.question_type) && (
+                        <Select
+                          value={question.level || ''}
+                          onChange={(e) => updateQuestion(question.id, { level: e.target.value || undefined })}
+                          className="bg-white border-purple-200 text-slate-800 text-sm focus:border-purple-400"
+                        >
+                          <option value="">No level</option>
+                          {ADAPTIVE_LEVELS.map(level => (
+                            <option key={level} value={level}>{level}</option>
+                          ))}
+                        </Select>
+                      )}
                       {question.question_type !== 'speaking' && (
                         <span className="text-sm text-slate-700">
                           {question.points || 1} point{(question.points || 1) !== 1 ? 's' : ''}
                         </span>
                       )}
+                      {itemReports[question.id]?.responses ? (
+                        <button
+                          type="button"
+                          onClick={() => router.push(itemAnalysisPath(testId, question.id))}
+                          className="text-xs text-slate-600 hover:text-purple-700 space-x-1"
+                          title="Open item analysis"
+                        >
+                          <span className="tabular-nums">
+                            p {itemReports[question.id].difficulty?.toFixed(2) ?? '—'} · D {itemReports[question.id].discrimination?.toFixed(2) ?? '—'}
+                          </span>
+                          {itemReports[question.id].flags.map(flag => (
+                            <span
+                              key={flag}
+                              className={`rounded px-1.5 py-0.5 ${ITEM_FLAG_SEVERE.includes(flag) ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'}`}
+                            >
+                              {ITEM_FLAG_LABELS[flag]}
+                            </span>
+                          ))}
+                        </button>
+                      ) : null}
                     </div>
                     <Button
                       onClick={() => removeQuestion(question.id)}
@@ -582,8 +675,27 @@ export default function EvaluationEditorContent() {
                       </div>
                     )}
 
+                    {question.question_type === 'writing' && (
+                      <div className="space-y-2">
+                        <label className="block text-sm font-medium text-slate-700">
+                          Minimum Words
+                        </label>
+                        <Input
+                          type="number"
+                          value={question.content?.min_words ?? 50}
+                          onChange={(e) => updateQuestion(question.id, { content: { ...question.content, min_words: parseInt(e.target.value) || 0 } })}
+                          className="bg-white border-purple-200 text-slate-800 focus:border-purple-400 w-24"
+                          min="0"
+                        />
+                        <div className="text-sm text-slate-600 p-4 bg-purple-50 rounded border border-purple-200">
+                          Writing answers are AI-graded on task achievement, grammar, vocabulary range and coherence, with an estimated CEFR band. Answers shorter than the minimum or off-topic are capped.
+                        </div>
+                      </div>
+                    )}
+
                     {question.question_type !== 'speaking' && (
                       <>
+                        {question.question_type !== 'writing' && (
                         <div>
                           <label className="block text-sm font-medium text-slate-700 mb-2">
                             Correct Answer
@@ -595,6 +707,7 @@ export default function EvaluationEditorContent() {
                             placeholder="Enter the correct answer..."
                           />
                         </div>
+                        )}
 
                         <div>
                           <label className="block text-sm font-medium text-slate-700 mb-2">
@@ -0,0 +1,238 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { Button, Card, Table, Header, Body, Row, Head, Cell } from '@/components/ui'
+import { useNotification } from '@/contexts/NotificationContext'
+import { adminApiRequest } from '@/utils/adminApi'
+import {
+  ITEM_FLAG_LABELS,
+  ITEM_FLAG_SEVERE,
+  type ItemAnalysisResponse,
+  type ItemFlag,
+  type ItemReport,
+} from '@/lib/itemAnalysis'
+
+type SortKey = 'order' | 'difficulty' | 'discrimination' | 'flags'
+
+function formatRate(value: number | null): string {
+  return value === null ? '—' : value.toFixed(2)
+}
+
+function FlagChip({ flag }: { flag: ItemFlag }) {
+  const severe = ITEM_FLAG_SEVERE.includes(flag)
+  return (
+    <span
+      className={`inline-block rounded px-2 py-0.5 text-xs ${
+        severe ? 'bg-red-100 text-red-800 font-semibold' : 'bg-amber-100 text-amber-800'
+      }`}
+    >
+      {ITEM_FLAG_LABELS[flag]}
+    </span>
+  )
+}
+
+/** Item analysis for one evaluation test: difficulty, discrimination, distractors and level inversions. */
+export default function ItemAnalysisContent() {
+  const router = useRouter()
+  const params = useParams()
+  const testId = params.id as string
+  const { showNotification } = useNotification()
+  const [report, setReport] = useState<ItemAnalysisResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [sortKey, setSortKey] = useState<SortKey>('order')
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await adminApiRequest(
+        `/.netlify/functions/admin-evaluation?item_analysis=1&id=${encodeURIComponent(testId)}`
+      )
+      const data = await response.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to load item analysis')
+      setReport(data)
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to load item analysis', 'error')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [testId, showNotification])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  // Drill-down from the editor links to #item-<questionId>
+  useEffect(() => {
+    if (!report || typeof window === 'undefined') return
+    const hash = window.location.hash
+    if (!hash.startsWith('#item-')) return
+    const questionId = decodeURIComponent(hash.slice('#item-'.length))
+    setExpanded(questionId)
+    requestAnimationFrame(() => document.getElementById(`item-${questionId}`)?.scrollIntoView({ block: 'center' }))
+  }, [report])
+
+  const items: Array<ItemReport & { index: number }> = (report?.items || []).map((item, index) => ({ ...item, index }))
+  const sorted = [...items].sort((a, b) => {
+    if (sortKey === 'difficulty') return (a.difficulty ?? 2) - (b.difficulty ?? 2)
+    if (sortKey === 'discrimination') return (a.discrimination ?? 2) - (b.discrimination ?? 2)
+    if (sortKey === 'flags') return b.flags.length - a.flags.length || a.index - b.index
+    return a.index - b.index
+  })
+  const flagged = items.filter((item) => item.flags.length > 0).length
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-purple-50">
+      <div className="bg-white border-b border-purple-200 px-6 py-4 shadow-sm">
+        <div className="flex items-center space-x-4">
+          <Button variant="secondary" size="sm" onClick={() => router.push(`/admin/content/evaluation/${testId}`)}>
+            ← Back to Editor
+          </Button>
+          <div>
+            <h1 className="text-xl font-bold text-slate-800">Item Analysis</h1>
+            <p className="text-slate-600 text-sm">
+              {report
+                ? `${report.results_analyzed} submissions · ${flagged} of ${items.length} questions flagged`
+                : 'Difficulty, discrimination and distractors from stored results'}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <Card className="bg-white border-purple-200">
+          <Card.Body className="text-sm text-slate-600 space-y-1">
+            <p>
+              <strong>Difficulty (p)</strong> is the share of points earned; <strong>discrimination (D)</strong> is p in
+              the top 27% of students by overall score minus p in the bottom 27%.
+            </p>
+            {report ? (
+              <p>
+                Flags need at least {report.thresholds.minResponses} responses: too easy above{' '}
+                {report.thresholds.tooEasy}, too hard below {report.thresholds.tooHard}, low discrimination below{' '}
+                {report.thresholds.lowDiscrimination}. Red flags usually mean a mis-keyed or ambiguous item.
+              </p>
+            ) : null}
+          </Card.Body>
+        </Card>
+
+        <Card className="bg-white border-purple-200 shadow-lg">
+          <Card.Body>
+            <div className="flex items-center gap-2 mb-4 text-sm">
+              <span className="text-slate-600">Sort by</span>
+              {(['order', 'flags', 'difficulty', 'discrimination'] as SortKey[]).map((key) => (
+                <Button key={key} size="sm" variant={sortKey === key ? 'primary' : 'ghost'} onClick={() => setSortKey(key)}>
+                  {key}
+                </Button>
+              ))}
+            </div>
+            {isLoading ? (
+              <p className="text-sm text-slate-600">Loading…</p>
+            ) : items.length === 0 ? (
+              <p className="text-sm text-slate-600">This test has no questions.</p>
+            ) : (
+              <Table>
+                <Header>
+                  <Row>
+                    <Head>#</Head>
+                    <Head>Question</Head>
+                    <Head>N</Head>
+                    <Head>p</Head>
+                    <Head>D</Head>
+                    <Head>Flags</Head>
+                  </Row>
+                </Header>
+                <Body>
+                  {sorted.map((item) => (
+                    <React.Fragment key={item.question_id}>
+                      <Row
+                        id={`item-${item.question_id}`}
+                        className="cursor-pointer hover:bg-purple-50"
+                        onClick={() => setExpanded(expanded === item.question_id ? null : item.question_id)}
+                      >
+                        <Cell className="text-xs text-slate-500 tabular-nums">{item.index + 1}</Cell>
+                        <Cell className="text-sm text-slate-800 max-w-md">
+                          <div className="truncate">{item.prompt || item.question_id}</div>
+                          <div className="text-xs text-slate-500">
+                            {item.question_type}
+                            {item.level ? ` · ${item.level}` : ''}
+                          </div>
+                        </Cell>
+                        <Cell className="text-sm tabular-nums">{item.responses}</Cell>
+                        <Cell className="text-sm tabular-nums">{formatRate(item.difficulty)}</Cell>
+                        <Cell className="text-sm tabular-nums">{formatRate(item.discrimination)}</Cell>
+                        <Cell className="space-x-1 space-y-1">
+                          {item.flags.map((flag) => (
+                            <FlagChip key={flag} flag={flag} />
+                          ))}
+                        </Cell>
+                      </Row>
+                      {expanded === item.question_id ? (
+                        <Row>
+                          <Cell colSpan={6} className="bg-purple-50">
+                            <ItemDetail item={item} />
+                          </Cell>
+                        </Row>
+                      ) : null}
+                    </React.Fragment>
+                  ))}
+                </Body>
+              </Table>
+            )}
+          </Card.Body>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+function ItemDetail({ item }: { item: ItemReport }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 py-2">
+      <div>
+        <h4 className="text-sm font-semibold text-slate-700 mb-2">Correct rate by placed level</h4>
+        {item.level_rates.length === 0 ? (
+          <p className="text-xs text-slate-500">No responses yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {item.level_rates.map((g) => (
+              <li key={g.level} className="flex items-center gap-2 text-xs">
+                <span className="w-12 font-medium text-slate-700">{g.level}</span>
+                <div className="flex-1 h-2 rounded bg-slate-200">
+                  <div className="h-2 rounded bg-purple-500" style={{ width: `${Math.round(g.difficulty * 100)}%` }} />
+                </div>
+                <span className="w-24 text-right text-slate-600 tabular-nums">
+                  {g.difficulty.toFixed(2)} (n={g.responses})
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {item.inverted ? (
+          <p className="text-xs text-red-700 mt-2">Higher-placed students answer this less often correctly than lower-placed ones.</p>
+        ) : null}
+      </div>
+      <div>
+        <h4 className="text-sm font-semibold text-slate-700 mb-2">Option selection</h4>
+        {item.distractors ? (
+          <ul className="space-y-1">
+            {item.distractors.map((d) => (
+              <li key={d.option} className="flex items-center gap-2 text-xs">
+                <span className={`flex-1 truncate ${d.is_key ? 'font-semibold text-green-700' : 'text-slate-700'}`}>
+                  {d.option}
+                  {d.is_key ? ' ✓' : ''}
+                </span>
+                <span className="w-20 text-right text-slate-600 tabular-nums">
+                  {Math.round(d.rate * 100)}% ({d.count})
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-slate-500">Only reported for multiple choice and dropdown questions.</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -11,7 +11,7 @@ import { Plus, Trash2, Save, X, Eye, EyeOff, FileText, CheckCircle } from 'lucid
 
 interface Question {
   id: string
-  question_type: 'multiple_choice' | 'drag_match' | 'fill_blank' | 'dropdown' | 'drag_fill' | 'speaking'
+  question_type: 'multiple_choice' | 'drag_match' | 'fill_blank' | 'dropdown' | 'drag_fill' | 'speaking' | 'writing'
   prompt: string
   content: any
   correct_answer: string
@@ -429,6 +429,7 @@ export default function EvaluationCreatorContent() {
                               <option value="dropdown">📊 Dropdown</option>
                               <option value="drag_fill">🔀 Drag Fill</option>
                               <option value="speaking">🎤 Speaking</option>
+                              <option value="writing">✍️ Writing</option>
                             </Select>
                           </div>
 
@@ -474,6 +475,25 @@ export default function EvaluationCreatorContent() {
                               />
                             </div>
 
+                            {question.question_type === 'writing' ? (
+                              <div>
+                                <label className="block text-sm font-semibold text-slate-700 mb-2">
+                                  Minimum Words
+                                </label>
+                                <Input
+                                  type="number"
+                                  value={question.content?.min_words ?? 50}
+                                  onChange={(e) => updateQuestion(question.id, {
+                                    content: { ...question.content, min_words: parseInt(e.target.value) || 0 }
+                                  })}
+                                  min="0"
+                                  className="w-24 bg-white border-purple-200 focus:border-purple-400"
+                                />
+                                <p className="text-xs text-slate-500 mt-1">
+                                  Graded by AI on task achievement, grammar, vocabulary range and coherence.
+                                </p>
+                              </div>
+                            ) : (
                             <div>
                               <label className="block text-sm font-semibold text-slate-700 mb-2 flex items-center">
                                 <CheckCircle className="w-4 h-4 text-green-500 mr-1" />
@@ -488,6 +508,7 @@ export default function EvaluationCreatorContent() {
                                 className="bg-white border-purple-200 focus:border-purple-400 focus:ring-2 focus:ring-green-100"
                               />
                             </div>
+                            )}
                           </div>
 
                           <div className="bg-gradient-to-br from-purple-50 to-pink-50 p-4 rounded-lg border border-purple-100">
@@ -0,0 +1,165 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button, Card, Table, Header, Body, Row, Head, Cell } from '@/components/ui'
+import { useNotification } from '@/contexts/NotificationContext'
+import { adminApiRequest } from '@/utils/adminApi'
+
+type AdaptiveStep = {
+  question_id: string
+  level: string
+  correct: boolean
+  ability_before: number
+  ability_after: number
+  step: number
+}
+
+type EvaluationResultRow = {
+  id: string
+  user_id: string
+  calculated_level: string
+  overall_score: number
+  max_score: number
+  overall_percentage: number
+  completed_at: string | null
+  nickname: string | null
+  school_student_id: string | null
+  email: string | null
+  adaptive: {
+    ability: number
+    estimate: number
+    level: string
+    stop_reason: string | null
+    path: AdaptiveStep[]
+  } | null
+}
+
+/** Recent placement results; adaptive runs expand to the item-by-item path behind the level. */
+export default function EvaluationResultsContent() {
+  const router = useRouter()
+  const { showNotification } = useNotification()
+  const [results, setResults] = useState<EvaluationResultRow[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await adminApiRequest('/.netlify/functions/admin-evaluation?results=1&limit=100')
+      const data = await response.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to load results')
+      setResults(data.results || [])
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to load results', 'error')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [showNotification])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-purple-50">
+      <div className="bg-white border-b border-purple-200 px-6 py-4 shadow-sm">
+        <div className="flex items-center space-x-4">
+          <Button variant="secondary" size="sm" onClick={() => router.push('/admin/content')}>
+            ← Back to Content
+          </Button>
+          <div>
+            <h1 className="text-xl font-bold text-slate-800">Evaluation Results</h1>
+            <p className="text-slate-600 text-sm">Latest placement submissions and how adaptive runs reached their level</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6">
+        <Card className="bg-white border-purple-200 shadow-lg">
+          <Card.Body>
+            {isLoading ? (
+              <p className="text-sm text-slate-600">Loading…</p>
+            ) : results.length === 0 ? (
+              <p className="text-sm text-slate-600">No evaluation results yet.</p>
+            ) : (
+              <Table>
+                <Header>
+                  <Row>
+                    <Head>Student</Head>
+                    <Head>Completed</Head>
+                    <Head>Score</Head>
+                    <Head>Level</Head>
+                    <Head>Adaptive</Head>
+                  </Row>
+                </Header>
+                <Body>
+                  {results.map((r) => (
+                    <React.Fragment key={r.id}>
+                      <Row>
+                        <Cell className="text-sm text-slate-800">
+                          {r.nickname || r.email || r.user_id}
+                          {r.school_student_id ? <span className="ml-2 text-xs text-slate-500">{r.school_student_id}</span> : null}
+                        </Cell>
+                        <Cell className="text-xs text-slate-500">
+                          {r.completed_at ? new Date(r.completed_at).toLocaleString() : '—'}
+                        </Cell>
+                        <Cell className="text-sm tabular-nums">
+                          {r.overall_score}/{r.max_score} ({r.overall_percentage}%)
+                        </Cell>
+                        <Cell className="text-sm font-semibold text-purple-700">{r.calculated_level}</Cell>
+                        <Cell className="text-sm">
+                          {r.adaptive ? (
+                            <Button size="sm" variant="ghost" onClick={() => setExpanded(expanded === r.id ? null : r.id)}>
+                              {r.adaptive.path.length} items · {r.adaptive.level} {expanded === r.id ? '▲' : '▼'}
+                            </Button>
+                          ) : (
+                            <span className="text-slate-400">—</span>
+                          )}
+                        </Cell>
+                      </Row>
+                      {expanded === r.id && r.adaptive ? (
+                        <Row>
+                          <Cell colSpan={5} className="bg-purple-50">
+                            <AdaptivePath adaptive={r.adaptive} />
+                          </Cell>
+                        </Row>
+                      ) : null}
+                    </React.Fragment>
+                  ))}
+                </Body>
+              </Table>
+            )}
+          </Card.Body>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+function AdaptivePath({ adaptive }: { adaptive: NonNullable<EvaluationResultRow['adaptive']> }) {
+  return (
+    <div className="space-y-2 py-2">
+      <p className="text-xs text-slate-600">
+        Estimate {(adaptive.estimate ?? adaptive.ability).toFixed(2)} (mean of the last two reversals) → {adaptive.level}
+        {adaptive.stop_reason ? ` · stopped: ${adaptive.stop_reason.replace('_', ' ')}` : ''}
+      </p>
+      <ol className="space-y-1">
+        {adaptive.path.map((step, i) => (
+          <li key={step.question_id} className="flex items-center gap-3 text-xs">
+            <span className="w-6 text-right text-slate-500 tabular-nums">{i + 1}.</span>
+            <span className="w-14 font-medium text-slate-700">{step.level}</span>
+            <span className={step.correct ? 'w-16 text-green-700' : 'w-16 text-red-700'}>
+              {step.correct ? 'correct' : 'wrong'}
+            </span>
+            <span className="text-slate-600 tabular-nums">
+              ability {step.ability_before.toFixed(2)} → {step.ability_after.toFixed(2)}
+            </span>
+            <span className="text-slate-400">step {step.step}</span>
+            <span className="text-slate-400 truncate">{step.question_id}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,307 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Button, Input, Select, Textarea } from '@/components/ui'
+import { STUDENT_ACTIVITY_SCHEMAS, type FieldSpec } from '@/lib/studentActivityContent'
+import { blankContent, moveListItem } from '@/lib/studentLessonDraft'
+import type { StudentActivityType } from '@/types/student'
+
+export function fieldLabel(key: string): string {
+  const words = key.replace(/_/g, ' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+export function FieldLabel({ children, hint }: { children: React.ReactNode; hint?: string }) {
+  return (
+    <label className="block text-sm font-medium text-slate-700 mb-1">
+      {children}
+      {hint ? <span className="ml-1 font-normal text-xs text-slate-500">{hint}</span> : null}
+    </label>
+  )
+}
+
+/**
+ * Textarea whose text is parsed into a value. The text is kept while it does not parse, and is
+ * replaced only when the value changes from outside (another activity selected, item reordered).
+ */
+export function TextValueField<T>({
+  value,
+  format,
+  parse,
+  onChange,
+  rows = 3,
+  placeholder,
+}: {
+  value: T
+  format: (value: T) => string
+  /** Returns the parsed value, or throws with a message shown under the field */
+  parse: (text: string) => T
+  onChange: (value: T) => void
+  rows?: number
+  placeholder?: string
+}) {
+  const [text, setText] = useState(() => format(value))
+  const [seen, setSeen] = useState(value)
+  const [error, setError] = useState('')
+
+  if (value !== seen) {
+    setSeen(value)
+    setText(format(value))
+    setError('')
+  }
+
+  return (
+    <div>
+      <Textarea
+        rows={rows}
+        value={text}
+        placeholder={placeholder}
+        className={`text-sm ${error ? 'border-red-400' : ''}`}
+        onChange={(e) => {
+          setText(e.target.value)
+          try {
+            const next = parse(e.target.value)
+            setError('')
+            setSeen(next)
+            onChange(next)
+          } catch (err) {
+            setError((err as Error).message)
+          }
+        }}
+      />
+      {error ? <p className="text-xs text-red-600 mt-0.5">{error}</p> : null}
+    </div>
+  )
+}
+
+export function JsonField({
+  value,
+  onChange,
+  rows = 4,
+}: {
+  value: unknown
+  onChange: (value: unknown) => void
+  rows?: number
+}) {
+  return (
+    <TextValueField
+      value={value}
+      rows={rows}
+      format={(v) => (v === undefined || v === null ? '' : JSON.stringify(v, null, 2))}
+      parse={(text) => {
+        if (!text.trim()) return undefined
+        try {
+          return JSON.parse(text)
+        } catch {
+          throw new Error('Not valid JSON yet')
+        }
+      }}
+      onChange={onChange}
+    />
+  )
+}
+
+export function LinesField({
+  value,
+  onChange,
+  rows = 3,
+  placeholder = 'One per line',
+}: {
+  value: string[] | undefined
+  onChange: (value: string[] | undefined) => void
+  rows?: number
+  placeholder?: string
+}) {
+  return (
+    <TextValueField
+      value={value}
+      rows={rows}
+      placeholder={placeholder}
+      format={(v) => (Array.isArray(v) ? v.join('\n') : '')}
+      parse={(text) => {
+        const lines = text.split('\n').map((line) => line.trim()).filter(Boolean)
+        return lines.length ? lines : undefined
+      }}
+      onChange={onChange}
+    />
+  )
+}
+
+function ContentField({
+  name,
+  spec,
+  value,
+  onChange,
+}: {
+  name: string
+  spec: FieldSpec
+  value: unknown
+  onChange: (value: unknown) => void
+}) {
+  const label = `${fieldLabel(name)}${'required' in spec && spec.required ? ' *' : ''}`
+
+  switch (spec.kind) {
+    case 'string':
+      return (
+        <div>
+          <FieldLabel>{label}</FieldLabel>
+          <Input
+            size="sm"
+            fullWidth
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(e.target.value || (spec.required ? '' : undefined))}
+          />
+        </div>
+      )
+    case 'boolean':
+      // Unset keeps the component's own default, which is not always false
+      return (
+        <div>
+          <FieldLabel>{label}</FieldLabel>
+          <Select
+            className="text-sm"
+            value={value === true ? 'yes' : value === false ? 'no' : ''}
+            onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value === 'yes')}
+          >
+            <option value="">Default</option>
+            <option value="yes">Yes</option>
+            <option value="no">No</option>
+          </Select>
+        </div>
+      )
+    case 'number':
+      return (
+        <div>
+          <FieldLabel>{label}</FieldLabel>
+          <Input
+            size="sm"
+            type="number"
+            min={spec.min}
+            step={spec.integer ? 1 : 'any'}
+            value={typeof value === 'number' ? value : ''}
+            onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+          />
+        </div>
+      )
+    case 'string_list':
+      return (
+        <div>
+          <FieldLabel hint="one per line">{label}</FieldLabel>
+          <LinesField
+            value={Array.isArray(value) ? (value as string[]) : undefined}
+            onChange={(next) => onChange(next ?? (spec.required ? [] : undefined))}
+          />
+        </div>
+      )
+    case 'object_list': {
+      const rows = Array.isArray(value) ? (value as Record<string, unknown>[]) : []
+      const setRows = (next: Record<string, unknown>[]) => onChange(next.length || spec.required ? next : undefined)
+      return (
+        <div>
+          <FieldLabel>{label}</FieldLabel>
+          <div className="space-y-2">
+            {rows.map((row, i) => (
+              <div key={i} className="rounded-lg border border-slate-200 bg-slate-50 p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-semibold text-slate-500">#{i + 1}</span>
+                  <div className="flex gap-1">
+                    <Button size="sm" variant="ghost" disabled={i === 0} onClick={() => setRows(moveListItem(rows, i, i - 1))}>
+                      ↑
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={i === rows.length - 1}
+                      onClick={() => setRows(moveListItem(rows, i, i + 1))}
+                    >
+                      ↓
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setRows(rows.filter((_, j) => j !== i))}>
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+                <ContentFields
+                  fields={spec.fields}
+                  value={row && typeof row === 'object' ? row : {}}
+                  onChange={(next) => setRows(rows.map((r, j) => (j === i ? next : r)))}
+                />
+              </div>
+            ))}
+            <Button size="sm" variant="secondary" onClick={() => setRows([...rows, blankContent(spec.fields)])}>
+              + Add {fieldLabel(name).toLowerCase().replace(/s$/, '')}
+            </Button>
+          </div>
+        </div>
+      )
+    }
+    case 'object':
+      return (
+        <div>
+          <FieldLabel hint="JSON">{label}</FieldLabel>
+          <JsonField value={value} onChange={onChange} rows={6} />
+        </div>
+      )
+  }
+}
+
+function ContentFields({
+  fields,
+  value,
+  onChange,
+}: {
+  fields: Record<string, FieldSpec>
+  value: Record<string, unknown>
+  onChange: (value: Record<string, unknown>) => void
+}) {
+  const setField = (key: string, next: unknown) => {
+    const updated = { ...value }
+    if (next === undefined) delete updated[key]
+    else updated[key] = next
+    onChange(updated)
+  }
+
+  return (
+    <div className="space-y-3">
+      {Object.entries(fields).map(([key, spec]) => (
+        <ContentField key={key} name={key} spec={spec} value={value[key]} onChange={(next) => setField(key, next)} />
+      ))}
+    </div>
+  )
+}
+
+/** Per-type settings form generated from STUDENT_ACTIVITY_SCHEMAS, with a raw JSON fallback. */
+export default function ActivityContentForm({
+  type,
+  content,
+  onChange,
+}: {
+  type: StudentActivityType
+  content: Record<string, unknown>
+  onChange: (content: Record<string, unknown>) => void
+}) {
+  const [raw, setRaw] = useState(false)
+  const fields = STUDENT_ACTIVITY_SCHEMAS[type].content
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-slate-800">Settings</h4>
+        <Button size="sm" variant="ghost" onClick={() => setRaw(!raw)}>
+          {raw ? 'Form' : 'Edit as JSON'}
+        </Button>
+      </div>
+      {raw ? (
+        <JsonField
+          value={content}
+          rows={12}
+          onChange={(next) => onChange(next && typeof next === 'object' && !Array.isArray(next) ? (next as Record<string, unknown>) : {})}
+        />
+      ) : Object.keys(fields).length ? (
+        <ContentFields fields={fields} value={content} onChange={onChange} />
+      ) : (
+        <p className="text-sm text-slate-500">This activity has no settings; it is driven by its items or the student&apos;s earlier answers.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,270 @@
+'use client'
+
+import React from 'react'
+import { Button, Input, Select } from '@/components/ui'
+import type { ItemList } from '@/lib/studentActivityContent'
+import {
+  blankGrammarItem,
+  blankPollItem,
+  blankVocabularyItem,
+  GRAMMAR_ITEM_KINDS,
+  moveListItem,
+  type DraftActivity,
+  type DraftGrammarItem,
+  type DraftPollItem,
+  type DraftVocabularyItem,
+} from '@/lib/studentLessonDraft'
+import { FieldLabel, JsonField, LinesField } from './ActivityContentForm'
+
+const LIST_TITLES: Record<ItemList, string> = {
+  vocabulary_items: 'Vocabulary items',
+  grammar_items: 'Grammar items',
+  poll_items: 'Poll items',
+}
+
+function orNull(value: string): string | null {
+  return value === '' ? null : value
+}
+
+function TextInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string
+  value: string | null
+  onChange: (value: string) => void
+}) {
+  return (
+    <div>
+      <FieldLabel>{label}</FieldLabel>
+      <Input size="sm" fullWidth value={value ?? ''} onChange={(e) => onChange(e.target.value)} />
+    </div>
+  )
+}
+
+/** Add / reorder / remove frame shared by the three item lists. */
+function ItemRows<T>({
+  items,
+  onChange,
+  create,
+  render,
+}: {
+  items: T[]
+  onChange: (items: T[]) => void
+  create: () => T
+  render: (item: T, update: (patch: Partial<T>) => void) => React.ReactNode
+}) {
+  return (
+    <div className="space-y-2">
+      {items.map((item, i) => (
+        <div key={i} className="rounded-lg border border-slate-200 bg-slate-50 p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-semibold text-slate-500">#{i + 1}</span>
+            <div className="flex gap-1">
+              <Button size="sm" variant="ghost" disabled={i === 0} onClick={() => onChange(moveListItem(items, i, i - 1))}>
+                ↑
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={i === items.length - 1}
+                onClick={() => onChange(moveListItem(items, i, i + 1))}
+              >
+                ↓
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => onChange(items.filter((_, j) => j !== i))}>
+                Remove
+              </Button>
+            </div>
+          </div>
+          {render(item, (patch) => onChange(items.map((it, j) => (j === i ? { ...it, ...patch } : it))))}
+        </div>
+      ))}
+      <Button size="sm" variant="secondary" onClick={() => onChange([...items, create()])}>
+        + Add item
+      </Button>
+    </div>
+  )
+}
+
+function VocabularyFields({
+  item,
+  update,
+}: {
+  item: DraftVocabularyItem
+  update: (patch: Partial<DraftVocabularyItem>) => void
+}) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+      <TextInput label="English word *" value={item.english_word} onChange={(v) => update({ english_word: v })} />
+      <TextInput label="Thai translation" value={item.thai_translation} onChange={(v) => update({ thai_translation: orNull(v) })} />
+      <TextInput label="Category" value={item.category} onChange={(v) => update({ category: orNull(v) })} />
+      <TextInput label="Emoji" value={item.emoji} onChange={(v) => update({ emoji: orNull(v) })} />
+      <TextInput label="Image URL" value={item.image_url} onChange={(v) => update({ image_url: orNull(v) })} />
+      <TextInput label="Audio URL" value={item.audio_url} onChange={(v) => update({ audio_url: orNull(v) })} />
+    </div>
+  )
+}
+
+function GrammarFields({ item, update }: { item: DraftGrammarItem; update: (patch: Partial<DraftGrammarItem>) => void }) {
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <div>
+          <FieldLabel>Kind</FieldLabel>
+          <Select className="text-sm" value={item.item_kind} onChange={(e) => update({ item_kind: e.target.value })}>
+            {GRAMMAR_ITEM_KINDS.map((kind) => (
+              <option key={kind} value={kind}>
+                {kind}
+              </option>
+            ))}
+          </Select>
+        </div>
+        <TextInput label="Correct sentence *" value={item.correct_sentence} onChange={(v) => update({ correct_sentence: v })} />
+        <TextInput
+          label="Original sentence"
+          value={item.original_sentence}
+          onChange={(v) => update({ original_sentence: orNull(v) })}
+        />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <div>
+          <FieldLabel hint="one word or chunk per line">Words</FieldLabel>
+          <LinesField value={item.words_array ?? undefined} onChange={(v) => update({ words_array: v ?? null })} />
+        </div>
+        <div>
+          <FieldLabel hint="JSON">Options</FieldLabel>
+          <JsonField value={item.options ?? undefined} onChange={(v) => update({ options: v ?? null })} />
+        </div>
+      </div>
+      <TextInput label="Hint" value={item.hint} onChange={(v) => update({ hint: orNull(v) })} />
+    </div>
+  )
+}
+
+function nextOptionId(options: DraftPollItem['options']): string {
+  const used = new Set(options.map((o) => o.id))
+  for (let code = 97; code <= 122; code++) {
+    const id = String.fromCharCode(code)
+    if (!used.has(id)) return id
+  }
+  return `o${options.length + 1}`
+}
+
+function PollFields({ item, update }: { item: DraftPollItem; update: (patch: Partial<DraftPollItem>) => void }) {
+  const setOptions = (options: DraftPollItem['options']) =>
+    update({
+      options,
+      correct_option_id: options.some((o) => o.id === item.correct_option_id) ? item.correct_option_id : null,
+    })
+
+  return (
+    <div className="space-y-2">
+      <TextInput label="Question *" value={item.question} onChange={(v) => update({ question: v })} />
+      <div>
+        <FieldLabel hint="id and label">Options</FieldLabel>
+        <div className="space-y-1">
+          {item.options.map((option, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <Input
+                size="sm"
+                className="w-16"
+                value={option.id}
+                onChange={(e) => setOptions(item.options.map((o, j) => (j === i ? { ...o, id: e.target.value } : o)))}
+              />
+              <Input
+                size="sm"
+                fullWidth
+                value={option.label}
+                onChange={(e) => setOptions(item.options.map((o, j) => (j === i ? { ...o, label: e.target.value } : o)))}
+              />
+              <Button size="sm" variant="ghost" onClick={() => setOptions(item.options.filter((_, j) => j !== i))}>
+                ✕
+              </Button>
+            </div>
+          ))}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setOptions([...item.options, { id: nextOptionId(item.options), label: '' }])}
+          >
+            + Option
+          </Button>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={item.allow_multiple}
+            onChange={(e) => update({ allow_multiple: e.target.checked })}
+          />
+          Allow multiple answers
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          Correct option
+          <Select
+            className="text-sm w-auto"
+            value={item.correct_option_id ?? ''}
+            onChange={(e) => update({ correct_option_id: orNull(e.target.value) })}
+          >
+            <option value="">None (opinion poll)</option>
+            {item.options.map((o) => (
+              <option key={o.id} value={o.id}>
+                {o.id}: {o.label}
+              </option>
+            ))}
+          </Select>
+        </label>
+      </div>
+    </div>
+  )
+}
+
+/** Vocabulary / grammar / poll item editors for the lists an activity type reads. */
+export default function ActivityItemsEditor({
+  activity,
+  lists,
+  onChange,
+}: {
+  activity: DraftActivity
+  lists: ItemList[]
+  onChange: (patch: Partial<DraftActivity>) => void
+}) {
+  if (!lists.length) return null
+
+  return (
+    <div className="space-y-4">
+      {lists.map((list) => (
+        <div key={list} className="space-y-2">
+          <h4 className="text-sm font-semibold text-slate-800">
+            {LIST_TITLES[list]} <span className="font-normal text-slate-500">({activity[list].length})</span>
+          </h4>
+          {list === 'vocabulary_items' ? (
+            <ItemRows
+              items={activity.vocabulary_items}
+              onChange={(items) => onChange({ vocabulary_items: items })}
+              create={blankVocabularyItem}
+              render={(item, update) => <VocabularyFields item={item} update={update} />}
+            />
+          ) : list === 'grammar_items' ? (
+            <ItemRows
+              items={activity.grammar_items}
+              onChange={(items) => onChange({ grammar_items: items })}
+              create={() => blankGrammarItem(activity.activity_type)}
+              render={(item, update) => <GrammarFields item={item} update={update} />}
+            />
+          ) : (
+            <ItemRows
+              items={activity.poll_items}
+              onChange={(items) => onChange({ poll_items: items })}
+              create={blankPollItem}
+              render={(item, update) => <PollFields item={item} update={update} />}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,611 @@
+'use client'
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { Button, Card, Input, Modal, Select, Textarea } from '@/components/ui'
+import { useNotification } from '@/contexts/NotificationContext'
+import { adminApiRequest } from '@/utils/adminApi'
+import StudentActivityRenderer from '@/components/student/StudentActivityRenderer'
+import LessonPackageDiff, { type PackagePreview } from '@/components/admin/LessonPackageDiff'
+import { UserContext } from '@/components/auth/ProtectedRoute'
+import type { User } from '@/types'
+import type { StudentActivityType } from '@/types/student'
+import { activityItemLists, isStudentActivityType, STUDENT_ACTIVITY_TYPES } from '@/lib/studentActivityContent'
+import {
+  blankActivity,
+  blankLessonPackage,
+  draftIssues,
+  insertActivity,
+  moveActivity,
+  previewActivity,
+  previewLesson,
+  removeActivity,
+  type DraftActivity,
+  type DraftLesson,
+  type StudentLessonPackage,
+} from '@/lib/studentLessonDraft'
+import ActivityContentForm, { FieldLabel, JsonField } from './ActivityContentForm'
+import ActivityItemsEditor from './ActivityItemsEditor'
+
+const PREVIEW_USER: User = {
+  id: 'admin-test',
+  email: 'admin-test@local',
+  username: 'admin-test',
+  firstName: 'Admin',
+  lastName: 'Test',
+  level: 'A1',
+  role: 'admin',
+}
+
+type Issue = { path: string; message: string }
+
+/**
+ * Student-track lesson editor. Works on a lesson package (see src/lib/studentLessonDraft.ts),
+ * auto-saved to localStorage, and publishes it through admin-student-lesson-package, which
+ * validates it, shows the diff and stores it as the next lesson version. Students part-way
+ * through keep the version they started (functions/lib/lesson-versions.ts).
+ */
+export default function StudentLessonEditorContent() {
+  const router = useRouter()
+  const params = useParams()
+  const { showNotification } = useNotification()
+
+  const lessonId = params.id as string
+  const isNew = lessonId === 'new'
+  const storageKey = useMemo(() => `student-lesson-edit-${lessonId}`, [lessonId])
+
+  const [pkg, setPkg] = useState<StudentLessonPackage | null>(null)
+  const [loadError, setLoadError] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
+  const [selected, setSelected] = useState(0)
+  const [addType, setAddType] = useState<StudentActivityType>('student_warmup_poll')
+  const [previewRun, setPreviewRun] = useState(0)
+  const [publishOpen, setPublishOpen] = useState(false)
+  const [publishPreview, setPublishPreview] = useState<PackagePreview | null>(null)
+  const [publishIssues, setPublishIssues] = useState<Issue[]>([])
+  const [busy, setBusy] = useState(false)
+
+  const loadFromServer = useCallback(async () => {
+    if (isNew) {
+      const res = await adminApiRequest('/.netlify/functions/admin-student-lessons', { method: 'GET' })
+      const data = await res.json()
+      const numbers: number[] = data?.success ? data.lessons.map((l: { lesson_number: number }) => l.lesson_number) : []
+      return blankLessonPackage(numbers.length ? Math.max(...numbers) + 1 : 1)
+    }
+    const res = await adminApiRequest(
+      `/.netlify/functions/admin-student-lesson-package?lessonId=${encodeURIComponent(lessonId)}`,
+      { method: 'GET' }
+    )
+    const data = await res.json()
+    if (!data?.success) throw new Error(data?.error || 'Failed to load lesson')
+    return data.package as StudentLessonPackage
+  }, [isNew, lessonId])
+
+  const loadLesson = useCallback(async () => {
+    setIsLoading(true)
+    setLoadError('')
+    try {
+      const savedData = localStorage.getItem(storageKey)
+      if (savedData) {
+        try {
+          setPkg(JSON.parse(savedData).pkg)
+          setHasUnsavedChanges(true)
+          showNotification('Loaded unsaved changes from previous session', 'info')
+          return
+        } catch (error) {
+          console.warn('Failed to parse saved student lesson draft:', error)
+          localStorage.removeItem(storageKey)
+        }
+      }
+      setPkg(await loadFromServer())
+      setHasUnsavedChanges(false)
+    } catch (error) {
+      setLoadError((error as Error).message || 'Failed to load lesson')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [storageKey, loadFromServer, showNotification])
+
+  useEffect(() => {
+    ;(window as any).__ADMIN_LESSON_TEST_MODE = true
+    loadLesson()
+  }, [loadLesson])
+
+  // Auto-save to localStorage while there are unpublished changes
+  useEffect(() => {
+    if (pkg && hasUnsavedChanges && !isLoading) {
+      localStorage.setItem(storageKey, JSON.stringify({ pkg, savedAt: new Date().toISOString() }))
+    }
+  }, [pkg, hasUnsavedChanges, isLoading, storageKey])
+
+  const issues = useMemo(() => (pkg ? draftIssues(pkg) : new Map<number, Issue[]>()), [pkg])
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-purple-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin w-8 h-8 border-4 border-purple-500 border-t-transparent rounded-full mx-auto mb-4"></div>
+          <p className="text-slate-700">Loading lesson editor...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!pkg) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-purple-50 flex items-center justify-center">
+        <div className="text-center">
+          <h3 className="text-xl font-semibold text-slate-800 mb-2">Could not load the lesson</h3>
+          <p className="text-slate-600 mb-4">{loadError}</p>
+          <Button onClick={() => router.push('/admin/students')}>Back to Students</Button>
+        </div>
+      </div>
+    )
+  }
+
+  const update = (next: StudentLessonPackage) => {
+    setPkg(next)
+    setHasUnsavedChanges(true)
+  }
+  const updateLesson = (patch: Partial<DraftLesson>) => update({ ...pkg, lesson: { ...pkg.lesson, ...patch } })
+  const setActivities = (activities: DraftActivity[]) => update({ ...pkg, activities })
+  const updateActivity = (index: number, patch: Partial<DraftActivity>) =>
+    setActivities(pkg.activities.map((a, i) => (i === index ? { ...a, ...patch } : a)))
+
+  const current = pkg.activities[selected] as DraftActivity | undefined
+  const currentType = current && isStudentActivityType(current.activity_type) ? current.activity_type : null
+
+  const changeType = (type: StudentActivityType) => {
+    if (!current) return
+    const blank = blankActivity(type, current.activity_order)
+    // Items carry over when the new type reads the same list; settings are per type
+    const lists = activityItemLists(type)
+    updateActivity(selected, {
+      activity_type: type,
+      content: blank.content,
+      vocabulary_items: lists.includes('vocabulary_items') && current.vocabulary_items.length ? current.vocabulary_items : blank.vocabulary_items,
+      grammar_items: lists.includes('grammar_items') && current.grammar_items.length ? current.grammar_items : blank.grammar_items,
+      poll_items: lists.includes('poll_items') && current.poll_items.length ? current.poll_items : blank.poll_items,
+    })
+  }
+
+  const discardDraft = async () => {
+    if (!confirm('Discard unpublished changes and reload the lesson?')) return
+    localStorage.removeItem(storageKey)
+    setSelected(0)
+    await loadLesson()
+  }
+
+  const packageRequest = async (action: 'preview' | 'apply', expectedVersion?: number | null) => {
+    const res = await adminApiRequest('/.netlify/functions/admin-student-lesson-package', {
+      method: 'POST',
+      body: JSON.stringify({ action, package: pkg, expected_version: expectedVersion }),
+    })
+    return res.json()
+  }
+
+  const openPublish = async () => {
+    if (issues.size) {
+      const [first] = issues.keys()
+      setSelected(first)
+      showNotification(`Fix the content issues in ${issues.size} activit${issues.size === 1 ? 'y' : 'ies'} first`, 'error')
+      return
+    }
+    setBusy(true)
+    setPublishIssues([])
+    setPublishPreview(null)
+    setPublishOpen(true)
+    try {
+      const data = await packageRequest('preview')
+      if (!data?.success) {
+        setPublishIssues(data?.issues || [])
+        throw new Error(data?.error || 'Preview failed')
+      }
+      setPublishPreview({ target: data.target, diff: data.diff })
+    } catch (e) {
+      showNotification((e as Error).message || 'Preview failed', 'error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const target = publishPreview?.target
+  // The package is matched by slug / lesson number, so an edit can point at a different lesson
+  const targetMismatch = isNew ? null : !target || target.id !== lessonId ? 'The lesson number or slug now matches a different lesson (or none); change it back or create a new lesson instead.' : null
+  const staleDraft = !isNew && target && target.version !== pkg.source_version
+    ? `The lesson was changed by someone else (now version ${target.version}, your draft started from ${pkg.source_version}). Discard your draft to load the latest version.`
+    : null
+
+  const publish = async () => {
+    if (!publishPreview) return
+    setBusy(true)
+    try {
+      const data = await packageRequest('apply', isNew ? (target?.version ?? null) : pkg.source_version)
+      if (!data?.success) throw new Error(data?.error || 'Publish failed')
+      localStorage.removeItem(storageKey)
+      setHasUnsavedChanges(false)
+      setPublishOpen(false)
+      showNotification(
+        data.applied ? `Published as version ${data.lesson.version}` : 'Nothing to publish; the lesson already matches',
+        'success'
+      )
+      if (isNew && data.applied) {
+        router.replace(`/admin/content/student-lessons/${data.lesson.id}`)
+      } else {
+        await loadLesson()
+      }
+    } catch (e) {
+      showNotification((e as Error).message || 'Publish failed', 'error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const lesson = pkg.lesson
+  const currentIssues = issues.get(selected) || []
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-purple-50">
+      {/* Header */}
+      <div className="bg-white border-b border-purple-200 px-6 py-4 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center space-x-4">
+            <Button variant="secondary" size="sm" onClick={() => router.push('/admin/students')}>
+              ← Back to Students
+            </Button>
+            <div>
+              <h1 className="text-xl font-bold text-slate-800">
+                {isNew ? 'New student lesson' : `Edit L${lesson.lesson_number} · ${lesson.topic || 'Untitled'}`}
+              </h1>
+              <p className="text-slate-600 text-sm">
+                {isNew ? 'Created inactive; make it visible from Students' : `Live version ${pkg.source_version ?? '—'}`}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            {hasUnsavedChanges && (
+              <span className="text-yellow-600 text-sm flex items-center">
+                <span className="w-2 h-2 bg-yellow-500 rounded-full mr-2"></span>
+                Unpublished changes (auto-saved locally)
+              </span>
+            )}
+            {isNew ? null : (
+              <Button variant="secondary" size="sm" onClick={() => router.push(`/admin/content/student-lessons/${lessonId}/versions`)}>
+                Versions
+              </Button>
+            )}
+            {hasUnsavedChanges ? (
+              <Button variant="ghost" size="sm" onClick={discardDraft} disabled={busy}>
+                Discard
+              </Button>
+            ) : null}
+            <Button onClick={openPublish} disabled={busy || !hasUnsavedChanges}>
+              Review &amp; publish
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <Card className="p-5 space-y-4">
+          <h3 className="text-lg font-semibold text-slate-800">Lesson</h3>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <FieldLabel>Lesson number *</FieldLabel>
+              <Input
+                size="sm"
+                type="number"
+                min={1}
+                fullWidth
+                value={lesson.lesson_number}
+                onChange={(e) => updateLesson({ lesson_number: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <FieldLabel>Topic *</FieldLabel>
+              <Input size="sm" fullWidth value={lesson.topic} onChange={(e) => updateLesson({ topic: e.target.value })} />
+            </div>
+            <div>
+              <FieldLabel hint="lowercase-with-dashes">Slug</FieldLabel>
+              <Input
+                size="sm"
+                fullWidth
+                value={lesson.slug ?? ''}
+                onChange={(e) => updateLesson({ slug: e.target.value || null })}
+              />
+            </div>
+            <div>
+              <FieldLabel>Live duration (min)</FieldLabel>
+              <Input
+                size="sm"
+                type="number"
+                min={1}
+                fullWidth
+                value={lesson.live_duration_minutes ?? ''}
+                onChange={(e) => updateLesson({ live_duration_minutes: e.target.value ? parseInt(e.target.value) : null })}
+              />
+            </div>
+            <div className="md:col-span-3">
+              <FieldLabel>Communication goal</FieldLabel>
+              <Textarea
+                rows={2}
+                className="text-sm"
+                value={lesson.communication_goal ?? ''}
+                onChange={(e) => updateLesson({ communication_goal: e.target.value || null })}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <FieldLabel hint="JSON object">Grammar focus</FieldLabel>
+              <JsonField
+                value={lesson.grammar_focus}
+                onChange={(v) => updateLesson({ grammar_focus: v && typeof v === 'object' && !Array.isArray(v) ? (v as Record<string, unknown>) : {} })}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <FieldLabel hint="JSON array">Vocabulary list</FieldLabel>
+              <JsonField
+                value={lesson.vocabulary_list}
+                onChange={(v) => updateLesson({ vocabulary_list: Array.isArray(v) ? v : [] })}
+              />
+            </div>
+          </div>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="p-4 space-y-3 self-start">
+            <h3 className="text-lg font-semibold text-slate-800">Activities</h3>
+            {pkg.activities.length ? (
+              <ol className="space-y-1">
+                {pkg.activities.map((activity, i) => (
+                  <li
+                    key={i}
+                    className={`flex items-center gap-2 rounded-lg border px-2 py-1.5 cursor-pointer ${
+                      i === selected ? 'border-purple-400 bg-purple-50' : 'border-slate-200 bg-white hover:bg-slate-50'
+                    }`}
+                    onClick={() => setSelected(i)}
+                  >
+                    <span className="text-xs text-slate-500 tabular-nums w-5">{activity.activity_order}</span>
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm text-slate-800 truncate">{activity.title || '—'}</div>
+                      <div className="text-xs text-slate-500 truncate">{activity.activity_type}</div>
+                    </div>
+                    {issues.has(i) ? (
+                      <span className="rounded bg-red-100 px-1.5 text-xs text-red-700">{issues.get(i)!.length}</span>
+                    ) : null}
+                    <div className="flex" onClick={(e) => e.stopPropagation()}>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={i === 0}
+                        onClick={() => {
+                          setActivities(moveActivity(pkg.activities, i, i - 1))
+                          setSelected(i - 1)
+                        }}
+                      >
+                        ↑
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={i === pkg.activities.length - 1}
+                        onClick={() => {
+                          setActivities(moveActivity(pkg.activities, i, i + 1))
+                          setSelected(i + 1)
+                        }}
+                      >
+                        ↓
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="text-sm text-slate-500">No activities yet.</p>
+            )}
+            <div className="flex gap-2 pt-2 border-t border-slate-100">
+              <Select
+                className="text-sm"
+                value={addType}
+                onChange={(e) => setAddType(e.target.value as StudentActivityType)}
+              >
+                {STUDENT_ACTIVITY_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </Select>
+              <Button
+                size="sm"
+                onClick={() => {
+                  const index = pkg.activities.length ? selected + 1 : 0
+                  setActivities(insertActivity(pkg.activities, addType, index))
+                  setSelected(index)
+                }}
+              >
+                Add
+              </Button>
+            </div>
+            <p className="text-xs text-slate-500">New activities are added after the selected one.</p>
+          </Card>
+
+          <div className="lg:col-span-2 space-y-6">
+            {current ? (
+              <Card className="p-5 space-y-5" key={selected}>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <h3 className="text-lg font-semibold text-slate-800">Activity {current.activity_order}</h3>
+                  <Button
+                    size="sm"
+                    variant="danger"
+                    onClick={() => {
+                      if (!confirm('Remove this activity? Published lessons keep past results.')) return
+                      setActivities(removeActivity(pkg.activities, selected))
+                      setSelected(Math.max(0, selected - 1))
+                    }}
+                  >
+                    Remove
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <FieldLabel>Type</FieldLabel>
+                    <Select
+                      className="text-sm"
+                      value={current.activity_type}
+                      onChange={(e) => changeType(e.target.value as StudentActivityType)}
+                    >
+                      {currentType ? null : <option value={current.activity_type}>{current.activity_type}</option>}
+                      {STUDENT_ACTIVITY_TYPES.map((type) => (
+                        <option key={type} value={type}>
+                          {type}
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
+                  <div>
+                    <FieldLabel>Estimated time (seconds)</FieldLabel>
+                    <Input
+                      size="sm"
+                      type="number"
+                      min={0}
+                      fullWidth
+                      value={current.estimated_time_seconds ?? ''}
+                      onChange={(e) =>
+                        updateActivity(selected, {
+                          estimated_time_seconds: e.target.value ? parseInt(e.target.value) : null,
+                        })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <FieldLabel>Title</FieldLabel>
+                    <Input
+                      size="sm"
+                      fullWidth
+                      value={current.title ?? ''}
+                      onChange={(e) => updateActivity(selected, { title: e.target.value || null })}
+                    />
+                  </div>
+                  <div>
+                    <FieldLabel>Description</FieldLabel>
+                    <Input
+                      size="sm"
+                      fullWidth
+                      value={current.description ?? ''}
+                      onChange={(e) => updateActivity(selected, { description: e.target.value || null })}
+                    />
+                  </div>
+                </div>
+
+                {currentType ? (
+                  <>
+                    <ActivityContentForm
+                      key={currentType}
+                      type={currentType}
+                      content={current.content}
+                      onChange={(content) => updateActivity(selected, { content })}
+                    />
+                    <ActivityItemsEditor
+                      activity={current}
+                      lists={activityItemLists(currentType)}
+                      onChange={(patch) => updateActivity(selected, patch)}
+                    />
+                  </>
+                ) : (
+                  <p className="text-sm text-red-700">Pick a supported activity type to edit this activity.</p>
+                )}
+
+                {currentIssues.length ? (
+                  <ul className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700 list-disc pl-8 space-y-0.5">
+                    {currentIssues.map((issue, i) => (
+                      <li key={i}>
+                        <code className="text-xs">{issue.path}</code> {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                ) : null}
+              </Card>
+            ) : (
+              <Card className="p-6 text-sm text-slate-600">Add an activity to start building the lesson.</Card>
+            )}
+
+            {current && currentType && !currentIssues.length ? (
+              <div className="rounded-xl bg-slate-900 p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="text-xs font-semibold text-slate-300 uppercase tracking-wide">
+                    Student preview · nothing is saved
+                  </div>
+                  <Button size="sm" variant="secondary" onClick={() => setPreviewRun(previewRun + 1)}>
+                    Restart
+                  </Button>
+                </div>
+                <UserContext.Provider value={{ user: PREVIEW_USER, checkAuthStatus: async () => {} }}>
+                  <StudentActivityRenderer
+                    key={`${previewRun}:${JSON.stringify(current)}`}
+                    lesson={previewLesson(pkg, isNew ? 'preview' : lessonId)}
+                    activity={previewActivity(pkg, isNew ? 'preview' : lessonId, selected)}
+                    activities={pkg.activities.map((_, i) => previewActivity(pkg, isNew ? 'preview' : lessonId, i))}
+                    activityResults={[]}
+                    onComplete={(result) =>
+                      showNotification(`Preview finished: ${result.score}/${result.maxScore}`, 'info')
+                    }
+                  />
+                </UserContext.Provider>
+              </div>
+            ) : null}
+          </div>
+        </div>
+      </div>
+
+      <Modal isOpen={publishOpen} onClose={() => setPublishOpen(false)} title="Review & publish" size="lg">
+        <div className="space-y-4">
+          {busy && !publishPreview ? <p className="text-sm text-slate-600">Checking the lesson…</p> : null}
+
+          {publishIssues.length ? (
+            <ul className="text-sm text-red-700 list-disc pl-5 space-y-0.5">
+              {publishIssues.map((issue, i) => (
+                <li key={i}>
+                  <code className="text-xs">{issue.path || '(package)'}</code> {issue.message}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+
+          {publishPreview ? (
+            <>
+              <p className="text-sm text-slate-700">
+                {target
+                  ? `Updates lesson ${target.lesson_number} (version ${target.version} → ${target.version + 1})`
+                  : 'Creates a new, inactive lesson'}
+                {publishPreview.diff.has_changes ? '' : ' · no changes'}
+              </p>
+              {isNew && target ? (
+                <p className="text-sm text-amber-700">
+                  A lesson with this number or slug already exists; publishing will replace its content.
+                </p>
+              ) : null}
+              {targetMismatch || staleDraft ? (
+                <p className="text-sm text-red-700">{targetMismatch || staleDraft}</p>
+              ) : null}
+              <LessonPackageDiff diff={publishPreview.diff} />
+            </>
+          ) : null}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={() => setPublishOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={publish}
+              disabled={busy || !publishPreview?.diff.has_changes || Boolean(targetMismatch || staleDraft)}
+            >
+              {busy && publishPreview ? 'Publishing…' : 'Publish'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  )
+}
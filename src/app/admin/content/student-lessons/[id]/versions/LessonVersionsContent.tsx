@@ -0,0 +1,191 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { Button, Card, Table, Header, Body, Row, Head, Cell } from '@/components/ui'
+import { useNotification } from '@/contexts/NotificationContext'
+import { adminApiRequest } from '@/utils/adminApi'
+
+/** buildLessonVersionReport (functions/lib/lesson-versions.ts) */
+type VersionActivity = {
+  activity_order: number
+  activity_type: string
+  title: string | null
+  responses: number
+  average_percentage: number | null
+}
+
+type VersionReport = {
+  version: number | null
+  published_at: string | null
+  activity_count: number | null
+  students: number
+  completed: number
+  average_percentage: number | null
+  activities: VersionActivity[]
+}
+
+type ReportResponse = {
+  lesson: { id: string; lesson_number: number; topic: string; version: number; active: boolean }
+  versions: VersionReport[]
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${value}%`
+}
+
+function versionLabel(version: number | null): string {
+  return version === null ? 'Before versioning' : `v${version}`
+}
+
+/** Scores per published version of one student lesson, with a per-activity comparison. */
+export default function LessonVersionsContent() {
+  const router = useRouter()
+  const params = useParams()
+  const lessonId = params.id as string
+  const { showNotification } = useNotification()
+  const [report, setReport] = useState<ReportResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await adminApiRequest(
+        `/.netlify/functions/admin-student-lessons?report=versions&lessonId=${encodeURIComponent(lessonId)}`
+      )
+      const data = await response.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to load version report')
+      setReport(data)
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to load version report', 'error')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [lessonId, showNotification])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const versions = report?.versions || []
+  const orders = [...new Set(versions.flatMap((v) => v.activities.map((a) => a.activity_order)))].sort((a, b) => a - b)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-purple-50">
+      <div className="bg-white border-b border-purple-200 px-6 py-4 shadow-sm">
+        <div className="flex items-center space-x-4">
+          <Button variant="secondary" size="sm" onClick={() => router.push(`/admin/content/student-lessons/${lessonId}`)}>
+            ← Back to Editor
+          </Button>
+          <div>
+            <h1 className="text-xl font-bold text-slate-800">
+              Versions{report ? `: L${report.lesson.lesson_number} · ${report.lesson.topic}` : ''}
+            </h1>
+            <p className="text-slate-600 text-sm">
+              {report
+                ? `Live version ${report.lesson.version} · students stay on the version they started until their attempt is reset`
+                : 'Scores per published version'}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <Card className="bg-white border-purple-200 shadow-lg">
+          <Card.Body>
+            {isLoading ? (
+              <p className="text-sm text-slate-600">Loading…</p>
+            ) : versions.length === 0 ? (
+              <p className="text-sm text-slate-600">This lesson has no published versions yet.</p>
+            ) : (
+              <Table>
+                <Header>
+                  <Row>
+                    <Head>Version</Head>
+                    <Head>Published</Head>
+                    <Head>Activities</Head>
+                    <Head>Students</Head>
+                    <Head>Completed</Head>
+                    <Head>Average score</Head>
+                  </Row>
+                </Header>
+                <Body>
+                  {versions.map((v) => (
+                    <Row key={String(v.version)}>
+                      <Cell className="text-sm font-medium text-slate-800">
+                        {versionLabel(v.version)}
+                        {v.version === report?.lesson.version ? (
+                          <span className="ml-2 rounded bg-green-100 px-2 py-0.5 text-xs text-green-800">live</span>
+                        ) : null}
+                      </Cell>
+                      <Cell className="text-sm text-slate-600">
+                        {v.published_at ? new Date(v.published_at).toLocaleString() : '—'}
+                      </Cell>
+                      <Cell className="text-sm tabular-nums">{v.activity_count ?? '—'}</Cell>
+                      <Cell className="text-sm tabular-nums">{v.students}</Cell>
+                      <Cell className="text-sm tabular-nums">{v.completed}</Cell>
+                      <Cell className="text-sm tabular-nums">{formatPercent(v.average_percentage)}</Cell>
+                    </Row>
+                  ))}
+                </Body>
+              </Table>
+            )}
+          </Card.Body>
+        </Card>
+
+        {orders.length ? (
+          <Card className="bg-white border-purple-200 shadow-lg">
+            <Card.Body>
+              <h3 className="text-lg font-semibold text-slate-800 mb-1">By activity</h3>
+              <p className="text-sm text-slate-600 mb-4">
+                Average score and number of responses per activity, read against each version&apos;s own activities.
+                Highlighted cells hold a different activity than the previous version at that position.
+              </p>
+              <Table>
+                <Header>
+                  <Row>
+                    <Head>#</Head>
+                    {versions.map((v) => (
+                      <Head key={String(v.version)}>{versionLabel(v.version)}</Head>
+                    ))}
+                  </Row>
+                </Header>
+                <Body>
+                  {orders.map((order) => (
+                    <Row key={order}>
+                      <Cell className="text-xs text-slate-500 tabular-nums">{order}</Cell>
+                      {versions.map((v, i) => {
+                        const activity = v.activities.find((a) => a.activity_order === order)
+                        const older = versions[i + 1]?.activities.find((a) => a.activity_order === order)
+                        const changed =
+                          activity && older && v.version !== null &&
+                          (activity.activity_type !== older.activity_type || activity.title !== older.title)
+                        return (
+                          <Cell key={String(v.version)} className={`text-sm ${changed ? 'bg-amber-50' : ''}`}>
+                            {activity ? (
+                              <>
+                                <div className="tabular-nums text-slate-800">
+                                  {formatPercent(activity.average_percentage)}{' '}
+                                  <span className="text-xs text-slate-500">n={activity.responses}</span>
+                                </div>
+                                <div className="text-xs text-slate-500 truncate max-w-[12rem]">
+                                  {activity.title || activity.activity_type}
+                                </div>
+                              </>
+                            ) : (
+                              <span className="text-slate-400">—</span>
+                            )}
+                          </Cell>
+                        )
+                      })}
+                    </Row>
+                  ))}
+                </Body>
+              </Table>
+            </Card.Body>
+          </Card>
+        ) : null}
+      </div>
+    </div>
+  )
+}
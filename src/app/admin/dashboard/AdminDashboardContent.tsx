@@ -940,6 +940,14 @@ export default function AdminDashboardContent() {
                 >
                   Robot Detect
                 </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => router.push('/admin/review')}
+                  className="bg-amber-50 text-amber-800 border border-amber-200 hover:bg-amber-100"
+                >
+                  Review Queue
+                </Button>
                 <Button
                   variant="secondary"
                   size="sm"
@@ -956,6 +964,14 @@ export default function AdminDashboardContent() {
                 >
                   Students
                 </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => router.push('/admin/classes')}
+                  className="bg-purple-50 text-purple-800 border border-purple-200 hover:bg-purple-100"
+                >
+                  Classes
+                </Button>
                 <Button
                   variant="secondary"
                   size="sm"
@@ -964,6 +980,22 @@ export default function AdminDashboardContent() {
                 >
                   Punish
                 </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => router.push('/admin/audit')}
+                  className="bg-slate-50 text-slate-700 border border-slate-200 hover:bg-slate-100"
+                >
+                  Audit Log
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => router.push('/admin/ai-usage')}
+                  className="bg-slate-50 text-slate-700 border border-slate-200 hover:bg-slate-100"
+                >
+                  AI Costs
+                </Button>
                 <Input
                   placeholder={t('searchUsers', 'Search users...')}
                   value={searchTerm}
@@ -46,6 +46,7 @@ export default function AdminPunishPage() {
   const [restrictedStudents, setRestrictedStudents] = useState<RestrictedStudent[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
+  const [classOptions, setClassOptions] = useState<Array<{ id: string; name: string }>>([])
 
   const loadData = useCallback(async () => {
     setIsLoading(true)
@@ -75,6 +76,30 @@ export default function AdminPunishPage() {
     loadData()
   }, [loadData])
 
+  useEffect(() => {
+    adminApiRequest('/.netlify/functions/admin-classes', { method: 'GET' })
+      .then((res) => res.json())
+      .then((data) => setClassOptions(data?.success && Array.isArray(data.classes) ? data.classes : []))
+      .catch(() => setClassOptions([]))
+  }, [])
+
+  const fillFromClass = async (classId: string) => {
+    if (!classId) return
+    try {
+      const res = await adminApiRequest(`/.netlify/functions/admin-classes?id=${encodeURIComponent(classId)}`, {
+        method: 'GET',
+      })
+      const data = await res.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to load class')
+      const ids = (data.students || []).map(
+        (s: { id: string; school_student_id: string | null }) => s.school_student_id || s.id
+      )
+      setStudentIds(ids.join(', '))
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to load class', 'error')
+    }
+  }
+
   const previewLabel = useMemo(() => {
     const from = parseInt(lessonFrom, 10)
     const to = parseInt(lessonTo, 10)
@@ -203,9 +228,26 @@ export default function AdminPunishPage() {
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">
-                  Student IDs (school ID or user UUID, comma / newline separated)
-                </label>
+                <div className="flex items-center justify-between gap-3 mb-1">
+                  <label className="block text-sm font-medium text-slate-700">
+                    Student IDs (school ID or user UUID, comma / newline separated)
+                  </label>
+                  {classOptions.length ? (
+                    <Select
+                      value=""
+                      onChange={(e) => fillFromClass(e.target.value)}
+                      className="w-auto py-1 text-sm"
+                      aria-label="Fill from class"
+                    >
+                      <option value="">Fill from class…</option>
+                      {classOptions.map((c) => (
+                        <option key={c.id} value={c.id}>
+                          Class {c.name}
+                        </option>
+                      ))}
+                    </Select>
+                  ) : null}
+                </div>
                 <textarea
                   className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm min-h-[5rem] font-mono"
                   placeholder="52448, 52470&#10;or paste UUIDs"
@@ -0,0 +1,422 @@
+'use client'
+
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Play, Pause } from 'lucide-react'
+import AdminProtectedRoute from '@/components/auth/AdminProtectedRoute'
+import { Button, Card, Input, Select } from '@/components/ui'
+import { useNotification } from '@/contexts/NotificationContext'
+import { adminApiRequest } from '@/utils/adminApi'
+
+type ReviewReason = 'would_flag' | 'consecutive_repetition' | 'low_score'
+type ReviewVerdict = 'confirmed' | 'cleared'
+type DeliveryMode = 'speaking' | 'reading' | 'tts'
+type StatusFilter = 'pending' | 'confirmed' | 'cleared' | 'all'
+
+interface ReviewItem {
+  job_id: string
+  user_id: string | null
+  user_username: string | null
+  school_student_id: string | null
+  lesson_id: string | null
+  student_lesson_topic: string | null
+  prompt: string | null
+  transcript: string
+  status: string
+  error: string | null
+  created_at: string
+  overall_score: number | null
+  user_avg_score: number | null
+  robotic_voice_score: number | null
+  robotic_voice_rules: string[] | null
+  delivery_mode: string | null
+  repeated: string | null
+  reasons: ReviewReason[]
+  suggested_delivery_mode: Record<ReviewVerdict, DeliveryMode | null>
+  review: {
+    verdict: ReviewVerdict
+    delivery_mode: DeliveryMode | null
+    note: string | null
+    activity_reset: boolean
+    reviewed_at: string
+    reviewed_by_username: string | null
+  } | null
+}
+
+interface ReviewDraft {
+  delivery_mode: DeliveryMode | ''
+  note: string
+  reset_activity: boolean
+}
+
+const REASON_LABELS: Record<ReviewReason, string> = {
+  would_flag: 'Robotic voice',
+  consecutive_repetition: 'Repetition',
+  low_score: 'Low score',
+}
+
+const REASON_CLASSES: Record<ReviewReason, string> = {
+  would_flag: 'bg-purple-100 text-purple-800',
+  consecutive_repetition: 'bg-amber-100 text-amber-900',
+  low_score: 'bg-red-100 text-red-800',
+}
+
+function emptyDraft(item: ReviewItem): ReviewDraft {
+  return {
+    delivery_mode: item.review?.delivery_mode ?? '',
+    note: item.review?.note ?? '',
+    reset_activity: false,
+  }
+}
+
+export default function AdminReviewQueuePage() {
+  const router = useRouter()
+  const { showNotification } = useNotification()
+
+  const [items, setItems] = useState<ReviewItem[]>([])
+  const [drafts, setDrafts] = useState<Record<string, ReviewDraft>>({})
+  const [status, setStatus] = useState<StatusFilter>('pending')
+  const [reason, setReason] = useState<'' | ReviewReason>('')
+  const [days, setDays] = useState('30')
+  const [userSearch, setUserSearch] = useState('')
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(false)
+  const [savingJobId, setSavingJobId] = useState<string | null>(null)
+  const [playingJobId, setPlayingJobId] = useState<string | null>(null)
+  const [loadingAudioJobId, setLoadingAudioJobId] = useState<string | null>(null)
+  const audioRef = useRef<HTMLAudioElement | null>(null)
+
+  const loadItems = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ status, days, page: String(page), limit: '25' })
+      if (reason) params.set('reason', reason)
+      if (userSearch.trim()) params.set('userSearch', userSearch.trim())
+      const res = await adminApiRequest(`/.netlify/functions/admin-speech-review-queue?${params.toString()}`, {
+        method: 'GET',
+      })
+      const data = await res.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to load review queue')
+      const nextItems: ReviewItem[] = data.items || []
+      setItems(nextItems)
+      setDrafts(Object.fromEntries(nextItems.map((item) => [item.job_id, emptyDraft(item)])))
+      setTotalPages(data.pagination?.totalPages || 1)
+      setTotal(data.pagination?.total || 0)
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to load', 'error')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [status, reason, days, userSearch, page, showNotification])
+
+  useEffect(() => {
+    loadItems()
+  }, [loadItems])
+
+  const updateDraft = (jobId: string, patch: Partial<ReviewDraft>) => {
+    setDrafts((prev) => ({ ...prev, [jobId]: { ...prev[jobId], ...patch } }))
+  }
+
+  const handlePlay = async (jobId: string) => {
+    const audio = audioRef.current
+    if (playingJobId === jobId && audio) {
+      audio.pause()
+      audio.src = ''
+      setPlayingJobId(null)
+      return
+    }
+    if (audio) {
+      audio.pause()
+      audio.src = ''
+    }
+    setLoadingAudioJobId(jobId)
+    try {
+      const res = await adminApiRequest(
+        `/.netlify/functions/admin-get-speech-audio-url?jobId=${encodeURIComponent(jobId)}`,
+        { method: 'GET' }
+      )
+      const data = await res.json()
+      if (!data?.success || !data?.url) throw new Error(data?.error || 'Audio not found')
+      if (!audio) return
+      audio.src = data.url
+      await audio.play()
+      setPlayingJobId(jobId)
+    } catch (e) {
+      showNotification((e as Error).message || 'Playback failed', 'error')
+      setPlayingJobId(null)
+    } finally {
+      setLoadingAudioJobId(null)
+    }
+  }
+
+  const submitReview = async (item: ReviewItem, verdict: ReviewVerdict) => {
+    const draft = drafts[item.job_id] ?? emptyDraft(item)
+    if (draft.reset_activity && verdict === 'confirmed') {
+      const who = item.school_student_id || item.user_username || 'this student'
+      if (!window.confirm(`Reset the speaking activity for ${who}? They will have to record it again.`)) return
+    }
+    // An untouched delivery select takes the suggestion for this verdict (robotic-voice flags only)
+    const deliveryMode = draft.delivery_mode || item.suggested_delivery_mode[verdict] || null
+    setSavingJobId(item.job_id)
+    try {
+      const res = await adminApiRequest('/.netlify/functions/admin-speech-review-queue', {
+        method: 'POST',
+        body: JSON.stringify({
+          job_id: item.job_id,
+          verdict,
+          delivery_mode: deliveryMode,
+          note: draft.note.trim() || undefined,
+          reset_activity: verdict === 'confirmed' && draft.reset_activity,
+        }),
+      })
+      const data = await res.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to save review')
+      showNotification(
+        data.activity_reset
+          ? `Confirmed and reset (${data.activity_rows_deleted} activity result(s) removed)`
+          : verdict === 'confirmed'
+            ? 'Marked as confirmed'
+            : 'Marked as cleared',
+        'success'
+      )
+      await loadItems()
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to save review', 'error')
+    } finally {
+      setSavingJobId(null)
+    }
+  }
+
+  return (
+    <AdminProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-purple-50 p-6">
+        <audio ref={audioRef} className="hidden" onEnded={() => setPlayingJobId(null)} />
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <Button variant="secondary" size="sm" onClick={() => router.push('/admin/dashboard')}>
+              ← Dashboard
+            </Button>
+            <Button variant="secondary" size="sm" onClick={() => router.push('/admin/robot-detect')}>
+              Robot Detect
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-slate-800">Speaking review queue</h1>
+              <p className="text-slate-600 text-sm">
+                Recordings that would be flagged as robotic voice, repetition failures and low-score outliers.
+                Confirm or clear each one; labelled verdicts train the read-vs-speak classifier.
+              </p>
+            </div>
+          </div>
+
+          <Card className="border-slate-200 bg-white">
+            <Card.Body>
+              <div className="flex flex-wrap items-center gap-3">
+                <Select
+                  value={status}
+                  onChange={(e) => {
+                    setStatus(e.target.value as StatusFilter)
+                    setPage(1)
+                  }}
+                  className="w-40"
+                >
+                  <option value="pending">Pending</option>
+                  <option value="confirmed">Confirmed</option>
+                  <option value="cleared">Cleared</option>
+                  <option value="all">All</option>
+                </Select>
+                <Select
+                  value={reason}
+                  onChange={(e) => {
+                    setReason(e.target.value as '' | ReviewReason)
+                    setPage(1)
+                  }}
+                  className="w-44"
+                >
+                  <option value="">All reasons</option>
+                  {(Object.keys(REASON_LABELS) as ReviewReason[]).map((r) => (
+                    <option key={r} value={r}>
+                      {REASON_LABELS[r]}
+                    </option>
+                  ))}
+                </Select>
+                <Select
+                  value={days}
+                  onChange={(e) => {
+                    setDays(e.target.value)
+                    setPage(1)
+                  }}
+                  className="w-36"
+                >
+                  <option value="7">Last 7 days</option>
+                  <option value="30">Last 30 days</option>
+                  <option value="90">Last 90 days</option>
+                </Select>
+                <Input
+                  value={userSearch}
+                  onChange={(e) => {
+                    setUserSearch(e.target.value)
+                    setPage(1)
+                  }}
+                  placeholder="Student ID / username"
+                  className="w-52"
+                />
+                <div className="flex items-center gap-3 text-sm text-slate-600 ml-auto">
+                  <span>
+                    {total} total · page {page}/{totalPages}
+                  </span>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={page <= 1 || isLoading}
+                    onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  >
+                    Prev
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={page >= totalPages || isLoading}
+                    onClick={() => setPage((p) => p + 1)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            </Card.Body>
+          </Card>
+
+          {isLoading && items.length === 0 ? (
+            <p className="text-slate-500 text-sm">Loading…</p>
+          ) : items.length === 0 ? (
+            <p className="text-slate-500 text-sm">Nothing to review.</p>
+          ) : (
+            <div className="space-y-4">
+              {items.map((item) => {
+                const draft = drafts[item.job_id] ?? emptyDraft(item)
+                const isSaving = savingJobId === item.job_id
+                return (
+                  <Card key={item.job_id} className="border-slate-200 bg-white">
+                    <Card.Body className="space-y-3">
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <button
+                          type="button"
+                          onClick={() => handlePlay(item.job_id)}
+                          disabled={loadingAudioJobId === item.job_id}
+                          className="p-1.5 rounded-full bg-slate-100 hover:bg-slate-200 disabled:opacity-50"
+                          title={playingJobId === item.job_id ? 'Pause' : 'Play recording'}
+                        >
+                          {playingJobId === item.job_id ? <Pause size={16} /> : <Play size={16} />}
+                        </button>
+                        <span className="font-semibold text-slate-800">
+                          {item.school_student_id || item.user_username || 'Unknown student'}
+                        </span>
+                        <span className="text-slate-400">{new Date(item.created_at).toLocaleString()}</span>
+                        {item.student_lesson_topic && (
+                          <span className="text-slate-500">· {item.student_lesson_topic}</span>
+                        )}
+                        {item.reasons.map((r) => (
+                          <span key={r} className={`px-2 py-0.5 rounded text-xs font-semibold ${REASON_CLASSES[r]}`}>
+                            {REASON_LABELS[r]}
+                          </span>
+                        ))}
+                        {item.review && (
+                          <span
+                            className={`px-2 py-0.5 rounded text-xs font-semibold ${
+                              item.review.verdict === 'confirmed' ? 'bg-red-600 text-white' : 'bg-green-600 text-white'
+                            }`}
+                          >
+                            {item.review.verdict}
+                            {item.review.activity_reset ? ' · reset' : ''}
+                          </span>
+                        )}
+                      </div>
+
+                      {item.prompt && <p className="text-xs text-slate-500">Q: {item.prompt}</p>}
+                      <p className="text-sm text-slate-800 italic">&ldquo;{item.transcript}&rdquo;</p>
+
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-600">
+                        {item.robotic_voice_score != null && (
+                          <span>
+                            Robotic score <strong>{item.robotic_voice_score}</strong>
+                            {item.delivery_mode ? ` (${item.delivery_mode})` : ''}
+                          </span>
+                        )}
+                        {item.robotic_voice_rules && item.robotic_voice_rules.length > 0 && (
+                          <span className="font-mono">{item.robotic_voice_rules.join(', ')}</span>
+                        )}
+                        {item.overall_score != null && (
+                          <span>
+                            Score <strong>{item.overall_score}</strong>
+                            {item.user_avg_score != null ? ` (student avg ${item.user_avg_score})` : ''}
+                          </span>
+                        )}
+                        {item.repeated && <span>Repeated: &ldquo;{item.repeated}&rdquo;</span>}
+                        {item.status === 'failed' && item.error && <span className="text-red-600">{item.error}</span>}
+                      </div>
+
+                      {item.review && (
+                        <p className="text-xs text-slate-500">
+                          Reviewed {new Date(item.review.reviewed_at).toLocaleString()}
+                          {item.review.reviewed_by_username ? ` by ${item.review.reviewed_by_username}` : ''}
+                          {item.review.delivery_mode ? ` · label ${item.review.delivery_mode}` : ''}
+                          {item.review.note ? ` · ${item.review.note}` : ''}
+                        </p>
+                      )}
+
+                      <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-slate-100">
+                        <Select
+                          value={draft.delivery_mode}
+                          onChange={(e) =>
+                            updateDraft(item.job_id, { delivery_mode: e.target.value as DeliveryMode | '' })
+                          }
+                          className="w-48 text-sm"
+                        >
+                          <option value="">Label: suggested</option>
+                          <option value="speaking">Label: speaking</option>
+                          <option value="reading">Label: reading</option>
+                          <option value="tts">Label: TTS / playback</option>
+                        </Select>
+                        <Input
+                          value={draft.note}
+                          onChange={(e) => updateDraft(item.job_id, { note: e.target.value })}
+                          placeholder="Note (optional)"
+                          className="w-64"
+                        />
+                        <label className="flex items-center gap-2 text-sm text-slate-700">
+                          <input
+                            type="checkbox"
+                            checked={draft.reset_activity}
+                            onChange={(e) => updateDraft(item.job_id, { reset_activity: e.target.checked })}
+                          />
+                          Reset activity
+                        </label>
+                        <Button
+                          size="sm"
+                          disabled={isSaving}
+                          onClick={() => submitReview(item, 'confirmed')}
+                          className="bg-red-600 hover:bg-red-700"
+                        >
+                          Confirm
+                        </Button>
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          disabled={isSaving || draft.reset_activity}
+                          onClick={() => submitReview(item, 'cleared')}
+                        >
+                          Clear
+                        </Button>
+                      </div>
+                    </Card.Body>
+                  </Card>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </AdminProtectedRoute>
+  )
+}
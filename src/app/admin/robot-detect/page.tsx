@@ -26,10 +26,29 @@ interface RobotDetectItem {
   robotic_voice_would_flag: boolean | null
   robotic_voice_flagged: boolean | null
   robotic_voice_rules: string[] | null
+  robotic_voice_scorer_version?: string | null
+  robotic_voice_shadow?: {
+    version: string
+    score: number | null
+    would_flag: boolean
+    delivery_mode: string | null
+    disagrees: boolean
+  } | null
   robotic_voice_detail?: Record<string, unknown> | null
   signals?: Record<string, unknown> | null
 }
 
+interface ShadowSummary {
+  shadow_version: string
+  compared: number
+  disagreements: number
+  active_only_flags: number
+  shadow_only_flags: number
+  last_seen_at: string
+}
+
+type ViewFilter = 'all' | 'would_flag' | 'reading' | 'shadow_disagree'
+
 function scoreBadgeClass(score: number | null): string {
   if (score == null) return 'bg-slate-100 text-slate-600'
   if (score >= 75) return 'bg-red-100 text-red-800 font-bold'
@@ -71,9 +90,10 @@ export default function AdminRobotDetectPage() {
   const [page, setPage] = useState(1)
   const [totalPages, setTotalPages] = useState(1)
   const [total, setTotal] = useState(0)
+  const [shadowSummary, setShadowSummary] = useState<ShadowSummary[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [userSearch, setUserSearch] = useState('')
-  const [viewFilter, setViewFilter] = useState<'all' | 'would_flag' | 'reading'>('all')
+  const [viewFilter, setViewFilter] = useState<ViewFilter>('all')
   const [onlyScored, setOnlyScored] = useState(true)
   const [minScore, setMinScore] = useState('0')
   // Default to newest-first so fresh recordings are visible (v2.2 often scores 0).
@@ -81,6 +101,7 @@ export default function AdminRobotDetectPage() {
   const [expandedJobId, setExpandedJobId] = useState<string | null>(null)
   const [playingJobId, setPlayingJobId] = useState<string | null>(null)
   const [loadingAudioJobId, setLoadingAudioJobId] = useState<string | null>(null)
+  const [isExportingCorpus, setIsExportingCorpus] = useState(false)
   const audioRef = useRef<HTMLAudioElement | null>(null)
 
   const loadItems = useCallback(async () => {
@@ -103,6 +124,7 @@ export default function AdminRobotDetectPage() {
       if (!data?.success) throw new Error(data?.error || 'Failed to load robot detect data')
 
       setItems(data.items || [])
+      setShadowSummary(Array.isArray(data.shadowSummary) ? data.shadowSummary : [])
       setTotalPages(data.pagination?.totalPages || 1)
       setTotal(data.pagination?.total || 0)
     } catch (e) {
@@ -148,6 +170,30 @@ export default function AdminRobotDetectPage() {
     }
   }
 
+  // Labelled TTS-check recordings for the scorer regression corpus (tests/robotic-voice-corpus.test.ts)
+  const handleExportCorpus = async () => {
+    if (isExportingCorpus) return
+    setIsExportingCorpus(true)
+    try {
+      const res = await adminApiRequest('/.netlify/functions/admin-robot-voice-corpus', { method: 'GET' })
+      const data = await res.json()
+      if (!Array.isArray(data?.cases)) throw new Error(data?.error || 'Corpus export failed')
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+      const objectUrl = URL.createObjectURL(blob)
+      const filename = `robotic-voice-corpus-${String(data.exported_at || '').slice(0, 10) || 'export'}.json`
+      const a = document.createElement('a')
+      a.href = objectUrl
+      a.download = filename
+      a.click()
+      URL.revokeObjectURL(objectUrl)
+      showNotification(`Exported ${data.cases.length} labelled recordings`, 'success')
+    } catch (e) {
+      showNotification((e as Error).message || 'Corpus export failed', 'error')
+    } finally {
+      setIsExportingCorpus(false)
+    }
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-purple-50 p-6">
       <audio ref={audioRef} className="hidden" onEnded={() => setPlayingJobId(null)} />
@@ -163,15 +209,58 @@ export default function AdminRobotDetectPage() {
             <Button variant="primary" size="sm" onClick={() => router.push('/admin/robot-detect/check-tts')}>
               Check TTS
             </Button>
+            <Button variant="secondary" size="sm" onClick={() => router.push('/admin/review')}>
+              Review queue
+            </Button>
+            <Button variant="secondary" size="sm" onClick={() => router.push('/admin/robot-detect/policies')}>
+              Policies
+            </Button>
+            <Button variant="secondary" size="sm" onClick={handleExportCorpus} disabled={isExportingCorpus}>
+              {isExportingCorpus ? 'Exporting…' : 'Export corpus'}
+            </Button>
             <div>
               <h1 className="text-2xl font-bold text-slate-800">Robot Detect</h1>
               <p className="text-slate-600 text-sm">
-                Speech submissions with robotic / TTS voice scores (log mode — not blocking students).
+                Speech submissions with robotic / TTS voice scores. What happens to flagged recordings is set in
+                Policies.
               </p>
             </div>
           </div>
         </div>
 
+        {shadowSummary.length > 0 && (
+          <Card className="border-indigo-200 bg-white">
+            <Card.Body>
+              <p className="font-semibold text-slate-700 mb-2">Shadow scorers (last 30 days)</p>
+              <div className="space-y-1 text-sm text-slate-600">
+                {shadowSummary.map((summary) => (
+                  <div key={summary.shadow_version} className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                    <span className="font-mono font-semibold text-indigo-700">{summary.shadow_version}</span>
+                    <span>{summary.compared} compared</span>
+                    <span className={summary.disagreements > 0 ? 'text-amber-700 font-semibold' : undefined}>
+                      {summary.disagreements} disagreements (
+                      {summary.compared > 0 ? ((summary.disagreements / summary.compared) * 100).toFixed(1) : '0.0'}%)
+                    </span>
+                    <span>{summary.shadow_only_flags} flagged only by shadow</span>
+                    <span>{summary.active_only_flags} flagged only by active</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setViewFilter('shadow_disagree')
+                        setOnlyScored(false)
+                        setPage(1)
+                      }}
+                    >
+                      Review
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </Card.Body>
+          </Card>
+        )}
+
         <Card className="border-purple-200 shadow-lg bg-white">
           <Card.Header>
             <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
@@ -188,7 +277,7 @@ export default function AdminRobotDetectPage() {
                 <Select
                   value={viewFilter}
                   onChange={(e) => {
-                    const next = e.target.value as 'all' | 'would_flag' | 'reading'
+                    const next = e.target.value as ViewFilter
                     setViewFilter(next)
                     if (next === 'reading') setOnlyScored(false)
                     setPage(1)
@@ -198,6 +287,7 @@ export default function AdminRobotDetectPage() {
                   <option value="all">All scores</option>
                   <option value="would_flag">Would flag only</option>
                   <option value="reading">Reading only</option>
+                  <option value="shadow_disagree">Shadow disagreements</option>
                 </Select>
                 <Select
                   value={onlyScored ? 'scored' : 'all'}
@@ -275,6 +365,7 @@ export default function AdminRobotDetectPage() {
                     <Head>Score</Head>
                     <Head title="Reading (R) or Speaking (S)">R/S</Head>
                     <Head>Would flag</Head>
+                    <Head title="Shadow scorer version: score / would flag / delivery mode">Shadow</Head>
                     <Head>Student</Head>
                     <Head>Lesson</Head>
                     <Head>Status</Head>
@@ -324,6 +415,24 @@ export default function AdminRobotDetectPage() {
                               '—'
                             )}
                           </Cell>
+                          <Cell className="text-xs whitespace-nowrap">
+                            {item.robotic_voice_shadow ? (
+                              <span
+                                className={
+                                  item.robotic_voice_shadow.disagrees
+                                    ? 'px-1.5 py-0.5 rounded bg-amber-100 text-amber-900 font-semibold'
+                                    : 'text-slate-500'
+                                }
+                                title={`${item.robotic_voice_shadow.version} (active ${item.robotic_voice_scorer_version || '—'})`}
+                              >
+                                {item.robotic_voice_shadow.score ?? '—'} ·{' '}
+                                {item.robotic_voice_shadow.would_flag ? 'flag' : 'ok'} ·{' '}
+                                {item.robotic_voice_shadow.delivery_mode || '—'}
+                              </span>
+                            ) : (
+                              <span className="text-slate-400">—</span>
+                            )}
+                          </Cell>
                           <Cell className="text-sm">{userLabel}</Cell>
                           <Cell className="text-sm max-w-[10rem] truncate" title={lessonLabel}>
                             {lessonLabel}
@@ -363,7 +472,7 @@ export default function AdminRobotDetectPage() {
                         </Row>
                         {expanded && (
                           <Row>
-                            <Cell colSpan={9} className="bg-slate-50 text-sm">
+                            <Cell colSpan={10} className="bg-slate-50 text-sm">
                               <p className="font-semibold text-slate-700 mb-1">Prompt</p>
                               <p className="text-slate-600 mb-3">{item.prompt || '—'}</p>
                               <p className="font-semibold text-slate-700 mb-1">Transcript</p>
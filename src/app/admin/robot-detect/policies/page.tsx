@@ -0,0 +1,462 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import AdminProtectedRoute from '@/components/auth/AdminProtectedRoute'
+import { Button, Card, Input, Select, Table, Header, Body, Row, Head, Cell } from '@/components/ui'
+import { useNotification } from '@/contexts/NotificationContext'
+import { adminApiRequest } from '@/utils/adminApi'
+
+const CEFR_LEVELS = ['Pre-A1', 'A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const
+
+type PolicyScope = 'global' | 'class' | 'level' | 'lesson' | 'student'
+type EnforcementMode = 'log' | 'warn_student' | 'require_rerecord' | 'block'
+type EnforcementAction = 'none' | 'warned' | 'rerecord_required' | 'blocked'
+
+const MODE_LABELS: Record<EnforcementMode, string> = {
+  log: 'Log only',
+  warn_student: 'Warn student',
+  require_rerecord: 'Require re-record',
+  block: 'Block',
+}
+
+const ACTION_LABELS: Record<EnforcementAction, string> = {
+  none: 'Logged',
+  warned: 'Warned',
+  rerecord_required: 'Re-record',
+  blocked: 'Blocked',
+}
+
+type Policy = {
+  id: string
+  scope_type: PolicyScope
+  scope_value: string
+  mode: EnforcementMode
+  enabled: boolean
+  notes: string | null
+  updated_at: string
+  updated_by_username: string | null
+  student_username: string | null
+  student_school_id: string | null
+}
+
+type Decision = {
+  id: string
+  job_id: string
+  user_id: string | null
+  user_username: string | null
+  school_student_id: string | null
+  lesson_id: string | null
+  class_label: string | null
+  level: string | null
+  policy_id: string | null
+  scope_type: PolicyScope | 'env'
+  scope_value: string | null
+  mode: EnforcementMode
+  action: EnforcementAction
+  robotic_voice_score: number | null
+  scorer_version: string | null
+  created_at: string
+}
+
+function modeBadgeClass(mode: EnforcementMode): string {
+  if (mode === 'block') return 'bg-red-100 text-red-800 font-semibold'
+  if (mode === 'require_rerecord') return 'bg-amber-100 text-amber-900 font-semibold'
+  if (mode === 'warn_student') return 'bg-yellow-50 text-yellow-800'
+  return 'bg-slate-100 text-slate-600'
+}
+
+function scopeLabel(policy: Pick<Policy, 'scope_type' | 'scope_value' | 'student_username' | 'student_school_id'>): string {
+  if (policy.scope_type === 'global') return 'Everyone'
+  if (policy.scope_type === 'student') {
+    return policy.student_school_id || policy.student_username || policy.scope_value.slice(0, 8)
+  }
+  return policy.scope_value
+}
+
+export default function RobotVoicePoliciesPage() {
+  const router = useRouter()
+  const { showNotification } = useNotification()
+
+  const [policies, setPolicies] = useState<Policy[]>([])
+  const [decisions, setDecisions] = useState<Decision[]>([])
+  const [decisionSummary, setDecisionSummary] = useState<Partial<Record<EnforcementAction, number>>>({})
+  const [fallbackMode, setFallbackMode] = useState<EnforcementMode>('log')
+  const [actionFilter, setActionFilter] = useState<'' | EnforcementAction>('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const [scopeType, setScopeType] = useState<PolicyScope>('class')
+  const [scopeValue, setScopeValue] = useState<string>('')
+  const [classNames, setClassNames] = useState<string[]>([])
+  const [mode, setMode] = useState<EnforcementMode>('warn_student')
+  const [notes, setNotes] = useState('')
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams()
+      if (actionFilter) params.set('action', actionFilter)
+      const res = await adminApiRequest(`/.netlify/functions/admin-robot-voice-policy?${params.toString()}`, {
+        method: 'GET',
+      })
+      const data = await res.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to load')
+      setPolicies(data.policies || [])
+      setDecisions(data.decisions || [])
+      setDecisionSummary(data.decision_summary || {})
+      setFallbackMode(data.fallback_mode || 'log')
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to load policies', 'error')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [actionFilter, showNotification])
+
+  useEffect(() => {
+    loadData()
+  }, [loadData])
+
+  // Class policies match on the class name (first active class of the student)
+  useEffect(() => {
+    let cancelled = false
+    ;(async () => {
+      try {
+        const res = await adminApiRequest('/.netlify/functions/admin-classes', { method: 'GET' })
+        const data = await res.json()
+        if (!data?.success) throw new Error(data?.error || 'Failed to load classes')
+        const names = [
+          ...new Set<string>((data.classes || []).filter((c: { active: boolean }) => c.active).map((c: { name: string }) => c.name)),
+        ]
+        if (cancelled) return
+        setClassNames(names)
+      } catch (e) {
+        if (!cancelled) showNotification((e as Error).message || 'Failed to load classes', 'error')
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [showNotification])
+
+  useEffect(() => {
+    if (scopeType === 'class' && !scopeValue && classNames.length) setScopeValue(classNames[0])
+  }, [scopeType, scopeValue, classNames])
+
+  const changeScopeType = (next: PolicyScope) => {
+    setScopeType(next)
+    setScopeValue(next === 'class' ? classNames[0] || '' : next === 'level' ? 'A1' : '')
+  }
+
+  const savePolicy = async (policy: {
+    scope_type: PolicyScope
+    scope_value: string
+    mode: EnforcementMode
+    enabled: boolean
+    notes: string | null
+  }) => {
+    setIsSaving(true)
+    try {
+      const res = await adminApiRequest('/.netlify/functions/admin-robot-voice-policy', {
+        method: 'POST',
+        body: JSON.stringify(policy),
+      })
+      const data = await res.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to save policy')
+      showNotification('Policy saved', 'success')
+      await loadData()
+      return true
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to save policy', 'error')
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleAdd = async () => {
+    const saved = await savePolicy({
+      scope_type: scopeType,
+      scope_value: scopeValue,
+      mode,
+      enabled: true,
+      notes: notes.trim() || null,
+    })
+    if (saved) setNotes('')
+  }
+
+  const deletePolicy = async (policy: Policy) => {
+    if (!window.confirm(`Delete the ${policy.scope_type} policy for ${scopeLabel(policy)}?`)) return
+    setIsSaving(true)
+    try {
+      const res = await adminApiRequest('/.netlify/functions/admin-robot-voice-policy', {
+        method: 'DELETE',
+        body: JSON.stringify({ id: policy.id }),
+      })
+      const data = await res.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to delete policy')
+      showNotification('Policy deleted', 'success')
+      await loadData()
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to delete policy', 'error')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <AdminProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-purple-50 p-6">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <Button variant="secondary" size="sm" onClick={() => router.push('/admin/robot-detect')}>
+              ← Robot Detect
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-slate-800">Robotic-voice policies</h1>
+              <p className="text-slate-600 text-sm">
+                What happens when a recording would be flagged. The most specific enabled policy wins: student →
+                lesson → class → level → everyone. Without a match: <strong>{MODE_LABELS[fallbackMode]}</strong>{' '}
+                (ROBOTIC_VOICE_MODE).
+              </p>
+            </div>
+          </div>
+
+          <Card className="border-purple-200 bg-white shadow-lg">
+            <Card.Header>
+              <h2 className="text-lg font-semibold text-slate-800">Add / update policy</h2>
+            </Card.Header>
+            <Card.Body className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Applies to</label>
+                  <Select
+                    value={scopeType}
+                    onChange={(e) => changeScopeType(e.target.value as PolicyScope)}
+                    className="w-full"
+                  >
+                    <option value="global">Everyone</option>
+                    <option value="class">Class</option>
+                    <option value="level">Level</option>
+                    <option value="lesson">Lesson</option>
+                    <option value="student">Student</option>
+                  </Select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    {scopeType === 'student' ? 'Student ID (school ID or UUID)' : scopeType === 'lesson' ? 'Lesson ID' : 'Value'}
+                  </label>
+                  {scopeType === 'class' ? (
+                    <Select value={scopeValue} onChange={(e) => setScopeValue(e.target.value)} className="w-full">
+                      {classNames.map((c) => (
+                        <option key={c} value={c}>
+                          {c}
+                        </option>
+                      ))}
+                    </Select>
+                  ) : scopeType === 'level' ? (
+                    <Select value={scopeValue} onChange={(e) => setScopeValue(e.target.value)} className="w-full">
+                      {CEFR_LEVELS.map((lv) => (
+                        <option key={lv} value={lv}>
+                          {lv}
+                        </option>
+                      ))}
+                    </Select>
+                  ) : (
+                    <Input
+                      value={scopeType === 'global' ? '' : scopeValue}
+                      disabled={scopeType === 'global'}
+                      onChange={(e) => setScopeValue(e.target.value)}
+                      placeholder={scopeType === 'student' ? '52448' : scopeType === 'lesson' ? 'lesson id' : ''}
+                    />
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Mode</label>
+                  <Select value={mode} onChange={(e) => setMode(e.target.value as EnforcementMode)} className="w-full">
+                    {(Object.keys(MODE_LABELS) as EnforcementMode[]).map((m) => (
+                      <option key={m} value={m}>
+                        {MODE_LABELS[m]}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Notes (optional)</label>
+                <Input
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="e.g. TTS playback reported by teacher, week 14"
+                />
+              </div>
+              <Button
+                onClick={handleAdd}
+                disabled={isSaving || (scopeType !== 'global' && !scopeValue.trim())}
+              >
+                Save policy
+              </Button>
+            </Card.Body>
+          </Card>
+
+          <Card className="border-slate-200 bg-white">
+            <Card.Header>
+              <div className="flex items-center justify-between gap-2">
+                <h2 className="text-lg font-semibold text-slate-800">Policies</h2>
+                <Button variant="ghost" size="sm" disabled={isLoading} onClick={loadData}>
+                  Refresh
+                </Button>
+              </div>
+            </Card.Header>
+            <Card.Body>
+              {policies.length === 0 ? (
+                <p className="text-slate-500 text-sm">
+                  {isLoading ? 'Loading…' : 'No policies — every recording uses the ROBOTIC_VOICE_MODE fallback.'}
+                </p>
+              ) : (
+                <Table>
+                  <Header>
+                    <Row>
+                      <Head>Scope</Head>
+                      <Head>Applies to</Head>
+                      <Head>Mode</Head>
+                      <Head>Notes</Head>
+                      <Head>Updated</Head>
+                      <Head>Actions</Head>
+                    </Row>
+                  </Header>
+                  <Body>
+                    {policies.map((p) => (
+                      <Row key={p.id} className={p.enabled ? undefined : 'opacity-50'}>
+                        <Cell className="capitalize">{p.scope_type}</Cell>
+                        <Cell className="font-mono text-sm">{scopeLabel(p)}</Cell>
+                        <Cell>
+                          <Select
+                            value={p.mode}
+                            disabled={isSaving}
+                            onChange={(e) =>
+                              savePolicy({ ...p, mode: e.target.value as EnforcementMode })
+                            }
+                            className={`w-44 text-sm ${modeBadgeClass(p.mode)}`}
+                          >
+                            {(Object.keys(MODE_LABELS) as EnforcementMode[]).map((m) => (
+                              <option key={m} value={m}>
+                                {MODE_LABELS[m]}
+                              </option>
+                            ))}
+                          </Select>
+                        </Cell>
+                        <Cell className="text-sm text-slate-600 max-w-xs">{p.notes || '—'}</Cell>
+                        <Cell className="text-xs text-slate-500">
+                          {new Date(p.updated_at).toLocaleString()}
+                          {p.updated_by_username ? ` · ${p.updated_by_username}` : ''}
+                        </Cell>
+                        <Cell>
+                          <div className="flex gap-2">
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              disabled={isSaving}
+                              onClick={() => savePolicy({ ...p, enabled: !p.enabled })}
+                            >
+                              {p.enabled ? 'Disable' : 'Enable'}
+                            </Button>
+                            <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => deletePolicy(p)}>
+                              Delete
+                            </Button>
+                          </div>
+                        </Cell>
+                      </Row>
+                    ))}
+                  </Body>
+                </Table>
+              )}
+            </Card.Body>
+          </Card>
+
+          <Card className="border-slate-200 bg-white">
+            <Card.Header>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <h2 className="text-lg font-semibold text-slate-800">Enforcement decisions</h2>
+                  <p className="text-sm text-slate-500">
+                    Last 30 days:{' '}
+                    {(Object.keys(ACTION_LABELS) as EnforcementAction[])
+                      .map((a) => `${decisionSummary[a] ?? 0} ${ACTION_LABELS[a].toLowerCase()}`)
+                      .join(' · ')}
+                  </p>
+                </div>
+                <Select
+                  value={actionFilter}
+                  onChange={(e) => setActionFilter(e.target.value as '' | EnforcementAction)}
+                  className="w-44"
+                >
+                  <option value="">All decisions</option>
+                  {(Object.keys(ACTION_LABELS) as EnforcementAction[]).map((a) => (
+                    <option key={a} value={a}>
+                      {ACTION_LABELS[a]}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+            </Card.Header>
+            <Card.Body>
+              {decisions.length === 0 ? (
+                <p className="text-slate-500 text-sm">{isLoading ? 'Loading…' : 'No decisions yet.'}</p>
+              ) : (
+                <Table>
+                  <Header>
+                    <Row>
+                      <Head>When</Head>
+                      <Head>Student</Head>
+                      <Head>Score</Head>
+                      <Head>Decided by</Head>
+                      <Head>Mode</Head>
+                      <Head>Action</Head>
+                      <Head>Job</Head>
+                    </Row>
+                  </Header>
+                  <Body>
+                    {decisions.map((d) => (
+                      <Row key={d.id}>
+                        <Cell className="text-xs text-slate-500">{new Date(d.created_at).toLocaleString()}</Cell>
+                        <Cell className="text-sm">
+                          {d.school_student_id || d.user_username || '—'}
+                          {d.class_label ? <span className="text-slate-400 ml-1">({d.class_label})</span> : null}
+                        </Cell>
+                        <Cell className="text-sm">
+                          {d.robotic_voice_score ?? '—'}
+                          {d.scorer_version ? (
+                            <span className="text-xs text-slate-400 ml-1 font-mono">{d.scorer_version}</span>
+                          ) : null}
+                        </Cell>
+                        <Cell className="text-sm">
+                          {d.scope_type === 'env' ? (
+                            <span className="text-slate-500">ROBOTIC_VOICE_MODE</span>
+                          ) : (
+                            <span>
+                              {d.scope_type}
+                              {d.scope_value && d.scope_type !== 'student' ? `: ${d.scope_value}` : ''}
+                              {!d.policy_id ? <span className="text-slate-400"> (deleted)</span> : null}
+                            </span>
+                          )}
+                        </Cell>
+                        <Cell>
+                          <span className={`px-2 py-0.5 rounded text-xs ${modeBadgeClass(d.mode)}`}>
+                            {MODE_LABELS[d.mode] ?? d.mode}
+                          </span>
+                        </Cell>
+                        <Cell className="text-sm font-medium">{ACTION_LABELS[d.action] ?? d.action}</Cell>
+                        <Cell className="font-mono text-xs text-slate-500">{d.job_id.slice(0, 8)}</Cell>
+                      </Row>
+                    ))}
+                  </Body>
+                </Table>
+              )}
+            </Card.Body>
+          </Card>
+        </div>
+      </div>
+    </AdminProtectedRoute>
+  )
+}
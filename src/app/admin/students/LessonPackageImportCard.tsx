@@ -0,0 +1,138 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Button, Card } from '@/components/ui'
+import LessonPackageDiff, { type PackagePreview } from '@/components/admin/LessonPackageDiff'
+import { useNotification } from '@/contexts/NotificationContext'
+import { adminApiRequest } from '@/utils/adminApi'
+
+/** Admin-only lesson package import: upload JSON → validate + diff against the live lesson → apply (version bump). */
+export default function LessonPackageImportCard({ onImported }: { onImported: () => void }) {
+  const { showNotification } = useNotification()
+  const [fileName, setFileName] = useState('')
+  const [pkg, setPkg] = useState<unknown>(null)
+  const [preview, setPreview] = useState<PackagePreview | null>(null)
+  const [issues, setIssues] = useState<Array<{ path: string; message: string }>>([])
+  const [busy, setBusy] = useState(false)
+
+  const request = async (action: 'preview' | 'apply', source: unknown) => {
+    const res = await adminApiRequest('/.netlify/functions/admin-student-lesson-package', {
+      method: 'POST',
+      body: JSON.stringify({ action, package: source, expected_version: preview?.target?.version }),
+    })
+    return res.json()
+  }
+
+  const runPreview = async (source = pkg) => {
+    setBusy(true)
+    setIssues([])
+    try {
+      const data = await request('preview', source)
+      if (!data?.success) {
+        setIssues(data?.issues || [])
+        throw new Error(data?.error || 'Preview failed')
+      }
+      setPreview({ target: data.target, diff: data.diff })
+    } catch (e) {
+      showNotification((e as Error).message || 'Preview failed', 'error')
+      setPreview(null)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setPreview(null)
+    setIssues([])
+    try {
+      const parsed = JSON.parse(await file.text())
+      setFileName(file.name)
+      setPkg(parsed)
+      await runPreview(parsed)
+    } catch (e) {
+      showNotification(e instanceof SyntaxError ? 'The file is not valid JSON' : (e as Error).message, 'error')
+    }
+  }
+
+  const apply = async () => {
+    if (!preview) return
+    setBusy(true)
+    try {
+      const data = await request('apply', pkg)
+      if (!data?.success) throw new Error(data?.error || 'Import failed')
+      showNotification(
+        data.applied
+          ? `Lesson saved as version ${data.lesson.version}`
+          : 'Nothing to apply; the lesson already matches the package',
+        'success'
+      )
+      setPreview(null)
+      setPkg(null)
+      setFileName('')
+      onImported()
+    } catch (e) {
+      showNotification((e as Error).message || 'Import failed', 'error')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const diff = preview?.diff
+
+  return (
+    <Card className="p-5 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-800">Import lesson package</h2>
+        <p className="text-sm text-slate-600 mt-0.5">
+          Upload a JSON package made with <strong>Export</strong>. It is matched to a lesson by slug, then lesson
+          number; a new lesson is created inactive. Activities missing from the package are hidden, not deleted, so
+          past results stay linked.
+        </p>
+      </div>
+
+      <div>
+        <input
+          type="file"
+          accept=".json,application/json"
+          className="block w-full text-sm text-slate-700"
+          onChange={(e) => {
+            void handleFile(e.target.files?.[0])
+            e.target.value = ''
+          }}
+        />
+        {fileName ? <p className="text-xs text-slate-500 mt-1">{fileName}</p> : null}
+      </div>
+
+      {issues.length ? (
+        <ul className="text-sm text-red-700 list-disc pl-5 space-y-0.5">
+          {issues.map((issue, i) => (
+            <li key={i}>
+              <code className="text-xs">{issue.path || '(package)'}</code> {issue.message}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {preview && diff ? (
+        <div className="space-y-3">
+          <p className="text-sm text-slate-700">
+            {preview.target
+              ? `Updates lesson ${preview.target.lesson_number} (version ${preview.target.version} → ${preview.target.version + 1})`
+              : 'Creates a new lesson'}
+            {diff.has_changes ? '' : ' · no changes'}
+            <Button size="sm" variant="ghost" className="ml-3" onClick={() => runPreview()} disabled={busy}>
+              Re-check
+            </Button>
+          </p>
+
+          <LessonPackageDiff diff={diff} />
+
+          <Button size="sm" onClick={apply} disabled={busy || !diff.has_changes}>
+            {busy ? 'Applying…' : 'Apply'}
+          </Button>
+        </div>
+      ) : null}
+    </Card>
+  )
+}
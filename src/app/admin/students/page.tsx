@@ -3,11 +3,13 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import AdminProtectedRoute from '@/components/auth/AdminProtectedRoute'
-import { Button, Card, Table, Header, Body, Row, Head, Cell } from '@/components/ui'
+import { Button, Card, Select, Table, Header, Body, Row, Head, Cell } from '@/components/ui'
+import { useAuth } from '@/contexts/AuthContext'
 import { useNotification } from '@/contexts/NotificationContext'
 import { adminApiRequest } from '@/utils/adminApi'
 import { downloadDataUrl } from '@/lib/downloadDataUrl'
 import { studentLessonListTitle } from '@/lib/studentTrack'
+import LessonPackageImportCard from './LessonPackageImportCard'
 
 type StudentLessonScore = {
   lesson_id: string
@@ -28,13 +30,34 @@ type StudentTrackLesson = {
   slug: string | null
   active: boolean
   activity_count: number
+  /** Only present when filtered by class */
+  assigned_to_class?: boolean
+}
+
+type BrokenActivity = {
+  lesson_id: string
+  lesson_number: number
+  topic: string
+  lesson_active: boolean
+  activity_id: string
+  activity_order: number
+  activity_type: string
+  title: string | null
+  issues: Array<{ path: string; message: string }>
+}
+
+type ClassOption = {
+  id: string
+  name: string
 }
 
 type AdminStudent = {
   id: string
   school_student_id: string | null
   nickname: string
-  class: '1/15' | '1/16' | null
+  /** First class by name; null when the student is in no class */
+  class: string | null
+  classes: ClassOption[]
   speech_jobs: number
   lessons: StudentLessonScore[]
 }
@@ -52,7 +75,7 @@ type SuperheroPhotoEntry = {
   user_id: string
   school_student_id: string | null
   nickname: string
-  class: '1/15' | '1/16' | null
+  class: string | null
   completed_at: string
   image_url: string
   selfie_url: string | null
@@ -64,14 +87,33 @@ function bySchoolId(a: AdminStudent, b: AdminStudent) {
   return String(a.school_student_id || '').localeCompare(String(b.school_student_id || ''))
 }
 
+const NO_CLASS = 'No class'
+
+function toExportRow(s: AdminStudent) {
+  return {
+    school_student_id: s.school_student_id,
+    nickname: s.nickname,
+    lessons: (s.lessons || []).map((l) => ({
+      lesson_number: l.lesson_number,
+      score_percentage: l.score_percentage,
+      completed: Boolean(l.completed),
+    })),
+  }
+}
+
 export default function AdminStudentsPage() {
   const router = useRouter()
   const { showNotification } = useNotification()
+  const { user } = useAuth()
+  // Teachers share this page but not the admin-only endpoints (transcripts, audio, photos, lesson toggles)
+  const isAdmin = user?.role === 'admin'
 
   const [students, setStudents] = useState<AdminStudent[]>([])
   const [trackLessons, setTrackLessons] = useState<StudentTrackLesson[]>([])
   const [loadingLessons, setLoadingLessons] = useState(true)
   const [togglingLessonId, setTogglingLessonId] = useState<string | null>(null)
+  const [contentReport, setContentReport] = useState<{ checked: number; broken: BrokenActivity[] } | null>(null)
+  const [checkingContent, setCheckingContent] = useState(false)
   const [loading, setLoading] = useState(true)
   const [expanded, setExpanded] = useState<Set<string>>(new Set())
   const [expandedLessons, setExpandedLessons] = useState<Set<string>>(new Set())
@@ -82,11 +124,18 @@ export default function AdminStudentsPage() {
   const [allPhotos, setAllPhotos] = useState<SuperheroPhotoEntry[]>([])
   const [photosPanelOpen, setPhotosPanelOpen] = useState(false)
   const [loadingAllPhotos, setLoadingAllPhotos] = useState(false)
+  const [classOptions, setClassOptions] = useState<ClassOption[]>([])
+  // Deep link from the classes page (?classId=); read once, the select owns it afterwards
+  const [classId, setClassId] = useState(() =>
+    typeof window === 'undefined' ? '' : new URLSearchParams(window.location.search).get('classId') || ''
+  )
+
+  const classQuery = classId ? `?classId=${encodeURIComponent(classId)}` : ''
 
   const loadTrackLessons = useCallback(async () => {
     try {
       setLoadingLessons(true)
-      const res = await adminApiRequest('/.netlify/functions/admin-student-lessons', { method: 'GET' })
+      const res = await adminApiRequest(`/.netlify/functions/admin-student-lessons${classQuery}`, { method: 'GET' })
       const data = await res.json()
       if (!data?.success) throw new Error(data?.error || 'Failed to load lessons')
       setTrackLessons(Array.isArray(data.lessons) ? data.lessons : [])
@@ -96,12 +145,12 @@ export default function AdminStudentsPage() {
     } finally {
       setLoadingLessons(false)
     }
-  }, [showNotification])
+  }, [classQuery, showNotification])
 
   const load = useCallback(async () => {
     try {
       setLoading(true)
-      const res = await adminApiRequest('/.netlify/functions/admin-get-students', { method: 'GET' })
+      const res = await adminApiRequest(`/.netlify/functions/admin-get-students${classQuery}`, { method: 'GET' })
       const data = await res.json()
       if (!data?.success) throw new Error(data?.error || 'Failed to load students')
       setStudents(Array.isArray(data.students) ? data.students : [])
@@ -111,6 +160,20 @@ export default function AdminStudentsPage() {
     } finally {
       setLoading(false)
     }
+  }, [classQuery, showNotification])
+
+  const loadClasses = useCallback(async () => {
+    try {
+      const res = await adminApiRequest('/.netlify/functions/admin-classes', { method: 'GET' })
+      const data = await res.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to load classes')
+      setClassOptions(
+        (Array.isArray(data.classes) ? data.classes : []).map((c: ClassOption) => ({ id: c.id, name: c.name }))
+      )
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to load classes', 'error')
+      setClassOptions([])
+    }
   }, [showNotification])
 
   useEffect(() => {
@@ -118,6 +181,10 @@ export default function AdminStudentsPage() {
     loadTrackLessons()
   }, [load, loadTrackLessons])
 
+  useEffect(() => {
+    loadClasses()
+  }, [loadClasses])
+
   const toggleLessonActive = async (lesson: StudentTrackLesson) => {
     const nextActive = !lesson.active
     setTogglingLessonId(lesson.id)
@@ -143,8 +210,49 @@ export default function AdminStudentsPage() {
     }
   }
 
-  const class115 = useMemo(() => students.filter((s) => s.class === '1/15').sort(bySchoolId), [students])
-  const class116 = useMemo(() => students.filter((s) => s.class === '1/16').sort(bySchoolId), [students])
+  const checkLessonContent = async () => {
+    setCheckingContent(true)
+    try {
+      const res = await adminApiRequest('/.netlify/functions/admin-student-lessons?report=content', { method: 'GET' })
+      const data = await res.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to check lesson content')
+      setContentReport({ checked: Number(data.checked) || 0, broken: data.broken || [] })
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to check lesson content', 'error')
+    } finally {
+      setCheckingContent(false)
+    }
+  }
+
+  const exportLessonPackage = async (lesson: StudentTrackLesson) => {
+    try {
+      const res = await adminApiRequest(
+        `/.netlify/functions/admin-student-lesson-package?lessonId=${encodeURIComponent(lesson.id)}`,
+        { method: 'GET' }
+      )
+      const data = await res.json()
+      if (!data?.success) throw new Error(data?.error || 'Failed to export lesson')
+      const blob = new Blob([JSON.stringify(data.package, null, 2)], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+      downloadDataUrl(url, `lesson-${lesson.lesson_number}-${lesson.slug || 'package'}.json`)
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+    } catch (e) {
+      showNotification((e as Error).message || 'Failed to export lesson', 'error')
+    }
+  }
+
+  const classGroups = useMemo(() => {
+    const byName = new Map<string, AdminStudent[]>()
+    for (const s of students) {
+      const name = s.class || NO_CLASS
+      const list = byName.get(name) || []
+      list.push(s)
+      byName.set(name, list)
+    }
+    return [...byName.entries()]
+      .sort(([a], [b]) => (a === NO_CLASS ? 1 : b === NO_CLASS ? -1 : a.localeCompare(b)))
+      .map(([name, list]) => ({ name, students: list.sort(bySchoolId) }))
+  }, [students])
 
   const lessonNumbers = useMemo(() => {
     const fromTrack = trackLessons.map((l) => l.lesson_number)
@@ -161,31 +269,14 @@ export default function AdminStudentsPage() {
     try {
       const { exportStudentScoresWorkbook } = await import('@/lib/exportStudentScoresXlsx')
       exportStudentScoresWorkbook({
-        class115: class115.map((s) => ({
-          school_student_id: s.school_student_id,
-          nickname: s.nickname,
-          lessons: (s.lessons || []).map((l) => ({
-            lesson_number: l.lesson_number,
-            score_percentage: l.score_percentage,
-            completed: Boolean(l.completed),
-          })),
-        })),
-        class116: class116.map((s) => ({
-          school_student_id: s.school_student_id,
-          nickname: s.nickname,
-          lessons: (s.lessons || []).map((l) => ({
-            lesson_number: l.lesson_number,
-            score_percentage: l.score_percentage,
-            completed: Boolean(l.completed),
-          })),
-        })),
+        classes: classGroups.map((g) => ({ name: g.name, students: g.students.map(toExportRow) })),
         lessonNumbers,
       })
       showNotification('Scores exported.', 'success')
     } catch (e) {
       showNotification((e as Error).message || 'Export failed', 'error')
     }
-  }, [students, class115, class116, lessonNumbers, showNotification])
+  }, [students, classGroups, lessonNumbers, showNotification])
 
   const lessonKey = (studentId: string, lessonId: string) => `${studentId}:${lessonId}`
 
@@ -196,7 +287,7 @@ export default function AdminStudentsPage() {
       const opening = !next.has(studentId)
       if (opening) {
         next.add(studentId)
-        loadTranscripts(student)
+        if (isAdmin) loadTranscripts(student)
       } else {
         next.delete(studentId)
       }
@@ -308,7 +399,7 @@ export default function AdminStudentsPage() {
   const StudentTable = ({ title, list }: { title: string; list: AdminStudent[] }) => (
     <Card className="p-5">
       <div className="flex items-center justify-between gap-3 mb-3">
-        <h2 className="text-lg font-semibold text-slate-800">Class {title}</h2>
+        <h2 className="text-lg font-semibold text-slate-800">{title === NO_CLASS ? title : `Class ${title}`}</h2>
         <div className="text-sm text-slate-600">{list.length} students</div>
       </div>
 
@@ -353,9 +444,11 @@ export default function AdminStudentsPage() {
                       <Button size="sm" variant="secondary" onClick={() => toggleExpanded(s)}>
                         {isOpen ? 'Hide' : 'View'}
                       </Button>
-                      <Button size="sm" variant="ghost" onClick={() => router.push('/admin/transcripts')}>
-                        Open transcripts
-                      </Button>
+                      {isAdmin ? (
+                        <Button size="sm" variant="ghost" onClick={() => router.push('/admin/transcripts')}>
+                          Open transcripts
+                        </Button>
+                      ) : null}
                     </div>
                   </Cell>
                 </Row>
@@ -440,44 +533,46 @@ export default function AdminStudentsPage() {
                           )}
                         </div>
 
-                        <div>
-                          <div className="text-xs font-semibold text-slate-600 mb-2">Audio recordings & transcripts</div>
-                          {loadingTranscriptsFor === s.id ? (
-                            <div className="text-sm text-slate-500">Loading…</div>
-                          ) : (transcriptsByStudent[s.id] || []).length ? (
-                            <div className="space-y-3">
-                              {(transcriptsByStudent[s.id] || []).map((it) => (
-                                <div key={it.job_id} className="rounded-lg border border-slate-200 bg-white p-3">
-                                  <div className="flex flex-wrap items-center justify-between gap-2">
-                                    <div className="text-xs text-slate-600">
-                                      <span className="font-semibold text-slate-800">{it.status}</span>
-                                      <span className="mx-2">·</span>
-                                      <span className="tabular-nums">{new Date(it.created_at).toLocaleString()}</span>
+                        {isAdmin ? (
+                          <div>
+                            <div className="text-xs font-semibold text-slate-600 mb-2">Audio recordings & transcripts</div>
+                            {loadingTranscriptsFor === s.id ? (
+                              <div className="text-sm text-slate-500">Loading…</div>
+                            ) : (transcriptsByStudent[s.id] || []).length ? (
+                              <div className="space-y-3">
+                                {(transcriptsByStudent[s.id] || []).map((it) => (
+                                  <div key={it.job_id} className="rounded-lg border border-slate-200 bg-white p-3">
+                                    <div className="flex flex-wrap items-center justify-between gap-2">
+                                      <div className="text-xs text-slate-600">
+                                        <span className="font-semibold text-slate-800">{it.status}</span>
+                                        <span className="mx-2">·</span>
+                                        <span className="tabular-nums">{new Date(it.created_at).toLocaleString()}</span>
+                                      </div>
+                                      <div className="flex items-center gap-2">
+                                        <Button
+                                          size="sm"
+                                          variant="secondary"
+                                          disabled={loadingAudioJob === it.job_id}
+                                          onClick={() => loadAudioUrl(it.job_id)}
+                                        >
+                                          {audioUrlByJob[it.job_id] ? 'Loaded' : loadingAudioJob === it.job_id ? 'Loading…' : 'Load audio'}
+                                        </Button>
+                                      </div>
                                     </div>
-                                    <div className="flex items-center gap-2">
-                                      <Button
-                                        size="sm"
-                                        variant="secondary"
-                                        disabled={loadingAudioJob === it.job_id}
-                                        onClick={() => loadAudioUrl(it.job_id)}
-                                      >
-                                        {audioUrlByJob[it.job_id] ? 'Loaded' : loadingAudioJob === it.job_id ? 'Loading…' : 'Load audio'}
-                                      </Button>
+                                    {audioUrlByJob[it.job_id] && (
+                                      <audio className="w-full mt-2" controls src={audioUrlByJob[it.job_id]} />
+                                    )}
+                                    <div className="mt-2 text-sm text-slate-800 whitespace-pre-wrap">
+                                      {it.transcript || '—'}
                                     </div>
                                   </div>
-                                  {audioUrlByJob[it.job_id] && (
-                                    <audio className="w-full mt-2" controls src={audioUrlByJob[it.job_id]} />
-                                  )}
-                                  <div className="mt-2 text-sm text-slate-800 whitespace-pre-wrap">
-                                    {it.transcript || '—'}
-                                  </div>
-                                </div>
-                              ))}
-                            </div>
-                          ) : (
-                            <div className="text-sm text-slate-500">No speech jobs found.</div>
-                          )}
-                        </div>
+                                ))}
+                              </div>
+                            ) : (
+                              <div className="text-sm text-slate-500">No speech jobs found.</div>
+                            )}
+                          </div>
+                        ) : null}
                       </div>
                     </Cell>
                   </Row>
@@ -491,22 +586,41 @@ export default function AdminStudentsPage() {
   )
 
   return (
-    <AdminProtectedRoute>
+    <AdminProtectedRoute allowTeacher>
       <main className="min-h-screen bg-slate-900 p-4 sm:p-6">
         <div className="max-w-6xl mx-auto space-y-4">
           <div className="flex items-center justify-between gap-3">
-            <Button variant="secondary" size="sm" onClick={() => router.push('/admin/dashboard')}>
-              ← Back to Dashboard
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => router.push(isAdmin ? '/admin/dashboard' : '/admin/classes')}
+            >
+              {isAdmin ? '← Back to Dashboard' : '← Back to Classes'}
             </Button>
             <div className="flex items-center gap-2">
-              <Button
-                variant="secondary"
-                size="sm"
-                onClick={togglePhotosPanel}
-                disabled={loadingAllPhotos}
+              <Select
+                value={classId}
+                onChange={(e) => setClassId(e.target.value)}
+                className="w-auto py-1 text-sm"
+                aria-label="Class"
               >
-                {loadingAllPhotos ? 'Loading photos…' : photosPanelOpen ? 'Hide photos' : 'Photos'}
-              </Button>
+                <option value="">{isAdmin ? 'All students' : 'All my classes'}</option>
+                {classOptions.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    Class {c.name}
+                  </option>
+                ))}
+              </Select>
+              {isAdmin ? (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={togglePhotosPanel}
+                  disabled={loadingAllPhotos}
+                >
+                  {loadingAllPhotos ? 'Loading photos…' : photosPanelOpen ? 'Hide photos' : 'Photos'}
+                </Button>
+              ) : null}
               <Button
                 variant="secondary"
                 size="sm"
@@ -515,7 +629,7 @@ export default function AdminStudentsPage() {
               >
                 Export scores
               </Button>
-              <Button variant="ghost" size="sm" onClick={() => { load(); loadTrackLessons() }} disabled={loading}>
+              <Button variant="ghost" size="sm" onClick={() => { load(); loadTrackLessons(); loadClasses() }} disabled={loading}>
                 Refresh
               </Button>
             </div>
@@ -524,8 +638,15 @@ export default function AdminStudentsPage() {
           <Card className="p-5 bg-gradient-to-br from-white to-purple-50 border-purple-200">
             <h1 className="text-2xl font-bold text-slate-900">Students</h1>
             <p className="text-sm text-slate-600 mt-1">
-              Nickname + student ID. Expand a student to see lesson progress and speech recordings. Use{' '}
-              <span className="font-medium text-slate-700">Photos</span> for all Lesson 4 superhero portraits.
+              Nickname + student ID, grouped by class. Expand a student to see lesson progress
+              {isAdmin ? (
+                <>
+                  {' '}and speech recordings. Use <span className="font-medium text-slate-700">Photos</span> for all
+                  Lesson 4 superhero portraits.
+                </>
+              ) : (
+                '.'
+              )}
             </p>
           </Card>
 
@@ -634,11 +755,56 @@ export default function AdminStudentsPage() {
               <div>
                 <h2 className="text-lg font-semibold text-slate-800">Student track lessons</h2>
                 <p className="text-sm text-slate-600 mt-0.5">
-                  Only <strong>active</strong> lessons appear on the student dashboard. Use <strong>Test</strong> to
-                  preview a lesson as a student (no progress saved).
+                  Only <strong>active</strong> lessons appear on the student dashboard
+                  {isAdmin ? (
+                    <>
+                      . Use <strong>Edit</strong> to change activities and publish a new version,{' '}
+                      <strong>Test</strong> to preview a lesson as a student (no progress saved) and{' '}
+                      <strong>Export</strong> to download it as an editable JSON package.
+                    </>
+                  ) : (
+                    ', and only the lessons assigned to a class when it has any.'
+                  )}
                 </p>
               </div>
+              {isAdmin ? (
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button size="sm" variant="secondary" disabled={checkingContent} onClick={checkLessonContent}>
+                    {checkingContent ? 'Checking…' : 'Check content'}
+                  </Button>
+                  <Button size="sm" onClick={() => router.push('/admin/content/student-lessons/new')}>
+                    New lesson
+                  </Button>
+                </div>
+              ) : null}
             </div>
+            {contentReport ? (
+              <div
+                className={`mb-3 rounded-lg border px-3 py-2 text-sm ${
+                  contentReport.broken.length ? 'border-red-200 bg-red-50' : 'border-green-200 bg-green-50'
+                }`}
+              >
+                <p className="font-medium text-slate-800">
+                  {contentReport.broken.length
+                    ? `${contentReport.broken.length} of ${contentReport.checked} active activities fail their content schema`
+                    : `All ${contentReport.checked} active activities pass their content schema`}
+                </p>
+                {contentReport.broken.length ? (
+                  <ul className="mt-2 space-y-1">
+                    {contentReport.broken.map((b) => (
+                      <li key={b.activity_id} className="text-xs text-red-800">
+                        <span className="font-semibold">
+                          L{b.lesson_number} #{b.activity_order}
+                        </span>{' '}
+                        {b.title || b.activity_type}
+                        {b.lesson_active ? '' : ' (lesson inactive)'} —{' '}
+                        {b.issues.map((i) => `${i.path}: ${i.message}`).join('; ')}
+                      </li>
+                    ))}
+                  </ul>
+                ) : null}
+              </div>
+            ) : null}
             {loadingLessons ? (
               <p className="text-sm text-slate-500">Loading lessons…</p>
             ) : trackLessons.length === 0 ? (
@@ -656,6 +822,7 @@ export default function AdminStudentsPage() {
                       </p>
                       <p className="text-xs text-slate-500">
                         {lesson.slug || 'no slug'} · {lesson.activity_count} activities
+                        {lesson.assigned_to_class ? ' · assigned to this class' : ''}
                       </p>
                     </div>
                     <div className="flex items-center gap-3 shrink-0">
@@ -666,29 +833,45 @@ export default function AdminStudentsPage() {
                       >
                         {lesson.active ? 'Active' : 'Inactive'}
                       </span>
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        onClick={() =>
-                          router.push(
-                            `/admin/students/test-lesson?lessonId=${encodeURIComponent(lesson.id)}`
-                          )
-                        }
-                      >
-                        Test
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant={lesson.active ? 'secondary' : 'primary'}
-                        disabled={togglingLessonId === lesson.id}
-                        onClick={() => toggleLessonActive(lesson)}
-                      >
-                        {togglingLessonId === lesson.id
-                          ? 'Saving…'
-                          : lesson.active
-                            ? 'Deactivate'
-                            : 'Activate'}
-                      </Button>
+                      {isAdmin ? (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() =>
+                              router.push(`/admin/content/student-lessons/${encodeURIComponent(lesson.id)}`)
+                            }
+                          >
+                            Edit
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() =>
+                              router.push(
+                                `/admin/students/test-lesson?lessonId=${encodeURIComponent(lesson.id)}`
+                              )
+                            }
+                          >
+                            Test
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => exportLessonPackage(lesson)}>
+                            Export
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant={lesson.active ? 'secondary' : 'primary'}
+                            disabled={togglingLessonId === lesson.id}
+                            onClick={() => toggleLessonActive(lesson)}
+                          >
+                            {togglingLessonId === lesson.id
+                              ? 'Saving…'
+                              : lesson.active
+                                ? 'Deactivate'
+                                : 'Activate'}
+                          </Button>
+                        </>
+                      ) : null}
                     </div>
                   </div>
                 ))}
@@ -696,12 +879,17 @@ export default function AdminStudentsPage() {
             )}
           </Card>
 
+          {isAdmin ? <LessonPackageImportCard onImported={loadTrackLessons} /> : null}
+
           {loading ? (
             <Card className="p-6 text-slate-700">Loading…</Card>
           ) : (
             <>
-              <StudentTable title="1/15" list={class115} />
-              <StudentTable title="1/16" list={class116} />
+              {classGroups.length === 0 ? (
+                <Card className="p-6 text-slate-700">No students{classId ? ' in this class' : ''}.</Card>
+              ) : (
+                classGroups.map((g) => <StudentTable key={g.name} title={g.name} list={g.students} />)
+              )}
             </>
           )}
         </div>
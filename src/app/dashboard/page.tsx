@@ -47,6 +47,11 @@ function DashboardContent() {
       return
     }
 
+    if (user?.role === 'teacher') {
+      window.location.href = '/admin/classes'
+      return
+    }
+
     if (user?.role === 'student') {
       window.location.href = '/student_dashboard'
       return
@@ -58,7 +63,7 @@ function DashboardContent() {
   // Only check this for platform users (not admin, not student)
   useEffect(() => {
     if (user) {
-      if (user?.role === 'admin' || user?.role === 'student') {
+      if (user?.role === 'admin' || user?.role === 'student' || user?.role === 'teacher') {
         return
       }
 
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useEffect, useCallback, useRef } from 'react'
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useRouter } from 'next/navigation'
 import { motion } from 'framer-motion'
@@ -13,6 +13,7 @@ import { useApi } from '@/hooks/useApi'
 import VocabularyTest from '@/components/evaluation/VocabularyTest'
 import GrammarTest from '@/components/evaluation/GrammarTest'
 import SpeakingTest from '@/components/evaluation/SpeakingTest'
+import WritingTest from '@/components/evaluation/WritingTest'
 import { CEFR_MAPPING, calculateCEFRLevel, calculateLevelFromScores } from '@/lib/evaluationConfig'
 
 interface EvaluationTest {
@@ -29,7 +30,10 @@ interface EvaluationTest {
     content?: any;
     correct_answer?: string;
     points: number;
+    level?: string;
   }>;
+  /** Set when the test runs in adaptive mode; `questions` then holds only the fixed part */
+  adaptive?: { max_items: number; pool_size: number } | null;
 }
 
 type EvaluationStep = 'intro' | 'test' | 'results'
@@ -54,6 +58,14 @@ function EvaluationContent() {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [submissionError, setSubmissionError] = useState<string | null>(null)
   const [submissionSuccess, setSubmissionSuccess] = useState(false)
+  // Server-side totals: writing answers are graded on submit and can change score and level
+  const [serverResult, setServerResult] = useState<{
+    calculatedLevel: string
+    overallScore: number
+    maxScore: number
+    overallPercentage: number
+    writingGrades: WritingGradeResult[]
+  } | null>(null)
   const hasSubmittedRef = useRef(false)
 
   // Local storage key for student progress
@@ -178,7 +190,8 @@ function EvaluationContent() {
             maxScore: results.maxScore,
             percentage: results.percentage,
             timeSpent: results.timeSpent,
-            answers: results.answers
+            answers: results.answers,
+            adaptive: results.adaptive
           }
         },
         calculatedLevel: finalLevel,
@@ -204,6 +217,13 @@ function EvaluationContent() {
           localStorage.removeItem(getProgressStorageKey())
         }
         
+        setServerResult({
+          calculatedLevel: result.calculatedLevel,
+          overallScore: result.overallScore,
+          maxScore: result.maxScore,
+          overallPercentage: result.overallPercentage,
+          writingGrades: result.writingGrades || []
+        })
         // Mark submission as successful - don't redirect automatically
         setSubmissionSuccess(true)
         console.log('✅ Evaluation results submitted successfully')
@@ -417,7 +437,10 @@ function EvaluationContent() {
 
     // Calculate final level using 50/50 weighted formula
     const grammarTestPercentage = evaluationResults.percentage
-    const finalLevel = calculateLevelFromScores(averageSpeakingPercentage, grammarTestPercentage)
+    const finalLevel = serverResult?.calculatedLevel || calculateLevelFromScores(averageSpeakingPercentage, grammarTestPercentage)
+    const displayScore = serverResult
+      ? { score: serverResult.overallScore, maxScore: serverResult.maxScore, percentage: serverResult.overallPercentage }
+      : { score: evaluationResults.score, maxScore: evaluationResults.maxScore, percentage: evaluationResults.percentage }
 
     return (
       <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-secondary-50 py-8">
@@ -463,14 +486,14 @@ function EvaluationContent() {
             <Card.Body>
               <div className="text-center">
                 <div className="text-4xl font-bold text-primary-600 mb-2">
-                  {evaluationResults.score}/{evaluationResults.maxScore}
+                  {displayScore.score}/{displayScore.maxScore}
                 </div>
                 <ProgressBar
-                  progress={evaluationResults.percentage}
+                  progress={displayScore.percentage}
                   color="primary"
                 />
                 <div className="text-lg text-neutral-600 mt-2">
-                  {evaluationResults.percentage}% correct
+                  {displayScore.percentage}% correct
                 </div>
                 <div className="text-sm text-neutral-500 mt-2">
                   Time spent: {Math.round(evaluationResults.timeSpent / 60)} minutes
@@ -479,6 +502,10 @@ function EvaluationContent() {
             </Card.Body>
           </Card>
 
+          {serverResult && serverResult.writingGrades.length > 0 && (
+            <WritingResultsCard grades={serverResult.writingGrades} />
+          )}
+
           {/* Next Steps */}
           <Card className="mb-8">
             <Card.Header>
@@ -659,6 +686,82 @@ function EvaluationContent() {
   )
 }
 
+const WRITING_CRITERIA_LABELS: Record<string, string> = {
+  task_achievement: 'Task achievement',
+  grammar: 'Grammar',
+  vocabulary_range: 'Vocabulary range',
+  coherence: 'Coherence'
+}
+
+type WritingGradeResult = {
+  questionId: string
+  prompt: string
+  rubric: Record<string, number>
+  estimated_cefr: string
+  percentage: number
+  word_count: number
+  min_words: number
+  off_topic: boolean
+  feedback: string
+  corrections: Array<{ mistake: string; correction: string }>
+  score: number
+  maxScore: number
+}
+
+function WritingResultsCard({ grades }: { grades: WritingGradeResult[] }) {
+  const { t } = useTranslation()
+  return (
+    <Card className="mb-8">
+      <Card.Header>
+        <h3 className="text-xl font-semibold">{t('evaluation.writing.results', 'Writing')}</h3>
+      </Card.Header>
+      <Card.Body>
+        <div className="space-y-6">
+          {grades.map((grade) => (
+            <div key={grade.questionId} className="space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <p className="text-neutral-700">{grade.prompt}</p>
+                <div className="text-right flex-shrink-0">
+                  <div className="text-lg font-bold text-primary-600">{grade.estimated_cefr}</div>
+                  <div className="text-sm text-neutral-500">{grade.score}/{grade.maxScore}</div>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {Object.entries(WRITING_CRITERIA_LABELS).map(([key, label]) => (
+                  <div key={key} className="rounded-lg bg-neutral-50 p-3 text-center">
+                    <div className="text-xs text-neutral-500">{t(`evaluation.writing.criteria.${key}`, label)}</div>
+                    <div className="text-xl font-semibold text-neutral-800">{grade.rubric?.[key] ?? 0}/10</div>
+                  </div>
+                ))}
+              </div>
+              {grade.off_topic && (
+                <p className="text-sm text-orange-600">
+                  {t('evaluation.writing.offTopic', 'This answer did not address the prompt, so its score was capped.')}
+                </p>
+              )}
+              {!grade.off_topic && grade.word_count < grade.min_words && (
+                <p className="text-sm text-orange-600">
+                  {t('evaluation.writing.tooShort', 'Shorter than the minimum length')} ({grade.word_count}/{grade.min_words})
+                </p>
+              )}
+              {grade.feedback && <p className="text-sm text-neutral-600">{grade.feedback}</p>}
+              {grade.corrections.length > 0 && (
+                <ul className="text-sm text-neutral-600 list-disc pl-5">
+                  {grade.corrections.map((c, i) => (
+                    <li key={i}>
+                      <span className="line-through text-red-500">{c.mistake}</span> → <span className="text-green-700">{c.correction}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      </Card.Body>
+    </Card>
+  )
+}
+
 const EVAL_SPEAKING_POLL_MS = 2000
 const EVAL_SPEAKING_POLL_BACKGROUND_MS = 4000
 
@@ -1461,6 +1564,14 @@ function EvaluationTestRenderer({ testData, onComplete, onCancel }: {
   const [questionStartTimes, setQuestionStartTimes] = useState<Record<string, number>>(savedProgress?.questionStartTimes || {})
   const [partialAnswers, setPartialAnswers] = useState<Record<string, any>>(savedProgress?.partialAnswers || {})
   const [startTime] = useState(savedProgress?.startTime || Date.now())
+  // Adaptive mode: items served so far (from get-evaluation-test POST) and whether the estimate has settled
+  const isAdaptive = Boolean(testData.adaptive)
+  const [adaptiveServed, setAdaptiveServed] = useState<EvaluationTest['questions']>(savedProgress?.adaptiveServed || [])
+  const [adaptiveDone, setAdaptiveDone] = useState<boolean>(savedProgress?.adaptiveDone || false)
+  const [adaptiveLoading, setAdaptiveLoading] = useState(false)
+  const questions = useMemo(() => (
+    isAdaptive ? [...adaptiveServed, ...(adaptiveDone ? testData.questions : [])] : testData.questions
+  ), [isAdaptive, adaptiveServed, adaptiveDone, testData.questions])
   
   // Use ref to store answers synchronously (for immediate access in handleFinishTest)
   // This ensures answers are available immediately even if React state hasn't updated yet
@@ -1476,14 +1587,14 @@ function EvaluationTestRenderer({ testData, onComplete, onCancel }: {
 
   // Track question start time when question changes
   useEffect(() => {
-    if (testData && testData.questions[currentQuestionIndex] && !questionStartTimes[testData.questions[currentQuestionIndex].id]) {
-      const question = testData.questions[currentQuestionIndex]
+    if (questions[currentQuestionIndex] && !questionStartTimes[questions[currentQuestionIndex].id]) {
+      const question = questions[currentQuestionIndex]
       setQuestionStartTimes(prev => ({
         ...prev,
         [question.id]: Date.now()
       }))
     }
-  }, [currentQuestionIndex, testData, questionStartTimes])
+  }, [currentQuestionIndex, questions, questionStartTimes])
 
   // Auto-save ALL progress data whenever anything changes
   useEffect(() => {
@@ -1494,13 +1605,53 @@ function EvaluationTestRenderer({ testData, onComplete, onCancel }: {
       completedQuestions: Array.from(completedQuestions),
       questionStartTimes: { ...questionStartTimes },
       startTime,
+      adaptiveServed,
+      adaptiveDone,
       lastActivity: Date.now() // Track when user was last active
     }
     saveProgress(progressData)
-  }, [currentQuestionIndex, answers, partialAnswers, completedQuestions, questionStartTimes, startTime, saveProgress])
+  }, [currentQuestionIndex, answers, partialAnswers, completedQuestions, questionStartTimes, startTime, adaptiveServed, adaptiveDone, saveProgress])
 
-  const currentQuestion = testData.questions[currentQuestionIndex]
-  const isLastQuestion = currentQuestionIndex === testData.questions.length - 1
+  const currentQuestion = questions[currentQuestionIndex]
+  // While the adaptive section is running the server decides whether another item follows
+  const isLastQuestion = (!isAdaptive || adaptiveDone) && currentQuestionIndex === questions.length - 1
+
+  const adaptiveResponses = useCallback((served: EvaluationTest['questions']) => (
+    served.map(q => ({ question_id: q.id, answer: answersRef.current[q.id]?.answer ?? '' }))
+  ), [])
+
+  // Ask get-evaluation-test for the next adaptive item; returns true when the section is finished
+  const fetchNextAdaptive = useCallback(async (served: EvaluationTest['questions']): Promise<boolean> => {
+    setAdaptiveLoading(true)
+    try {
+      const response = await fetch('/.netlify/functions/get-evaluation-test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ test_id: testData.id, responses: adaptiveResponses(served) })
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) throw new Error(result.message || 'Failed to load next question')
+      if (result.next) {
+        setAdaptiveServed([...served, result.next])
+        return false
+      }
+      setAdaptiveDone(true)
+      return true
+    } catch (error) {
+      console.error('Adaptive evaluation error:', error)
+      showNotification('Could not load the next question. Please try again.', 'error')
+      return false
+    } finally {
+      setAdaptiveLoading(false)
+    }
+  }, [testData.id, adaptiveResponses, showNotification])
+
+  // First adaptive item
+  useEffect(() => {
+    if (isAdaptive && !adaptiveDone && adaptiveServed.length === 0 && !adaptiveLoading) {
+      fetchNextAdaptive([])
+    }
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
 
   // Handle partial answer updates (for real-time saving)
   const handlePartialAnswerUpdate = useCallback((questionId: string, partialAnswer: any) => {
@@ -1518,10 +1669,10 @@ function EvaluationTestRenderer({ testData, onComplete, onCancel }: {
     console.log('🎯 Calculating final test results:', { 
       answersFromState: answers, 
       answersFromRef: currentAnswers,
-      questions: testData.questions.length 
+      questions: questions.length 
     })
 
-    testData.questions.forEach(question => {
+    questions.forEach(question => {
       // Check both ref (most up-to-date) and state, prefer ref
       const answer = currentAnswers[question.id] || answers[question.id]
       console.log(`📝 Question ${question.id} (${question.question_type}):`, answer)
@@ -1569,11 +1720,16 @@ function EvaluationTestRenderer({ testData, onComplete, onCancel }: {
       percentage,
       timeSpent,
       answers: currentAnswers, // Use ref version which has latest answers
-      testId: testData.id
+      testId: testData.id,
+      // Order matters: submit-evaluation replays it to verify the served path
+      adaptive: isAdaptive ? { responses: adaptiveResponses(adaptiveServed) } : undefined
     })
-  }, [answers, startTime, testData, onComplete])
+  }, [answers, startTime, testData, onComplete, questions, isAdaptive, adaptiveResponses, adaptiveServed])
 
   const handleQuestionComplete = useCallback((questionId: string, result: any) => {
+    // Adaptive answers are final: the next item was chosen from them and submit replays the path
+    if (isAdaptive && completedQuestions.has(questionId) && adaptiveServed.some(q => q.id === questionId)) return
+
     // Calculate time spent on this question
     const questionStartTime = questionStartTimes[questionId]
     const timeSpent = questionStartTime ? Date.now() - questionStartTime : 0
@@ -1599,6 +1755,14 @@ function EvaluationTestRenderer({ testData, onComplete, onCancel }: {
       return updated
     })
 
+    // Adaptive item answered: fetch the next one (or finish if nothing else follows)
+    if (isAdaptive && !adaptiveDone && adaptiveServed[adaptiveServed.length - 1]?.id === questionId) {
+      fetchNextAdaptive(adaptiveServed).then(done => {
+        if (done && testData.questions.length === 0) handleFinishTest()
+      })
+      return
+    }
+
     // Don't auto-advance - let user click Next button manually
     // Auto-finish only when last question is completed
     if (isLastQuestion) {
@@ -1606,7 +1770,7 @@ function EvaluationTestRenderer({ testData, onComplete, onCancel }: {
         handleFinishTest()
       }, 1500) // Brief pause to show completion
     }
-  }, [isLastQuestion, questionStartTimes, handleFinishTest, completedQuestions])
+  }, [isLastQuestion, questionStartTimes, handleFinishTest, completedQuestions, isAdaptive, adaptiveDone, adaptiveServed, fetchNextAdaptive, testData.questions.length])
 
   const renderQuestion = () => {
     if (!currentQuestion) return null
@@ -1686,6 +1850,30 @@ function EvaluationTestRenderer({ testData, onComplete, onCancel }: {
           />
         )
 
+      case 'writing':
+        // Graded server-side on submit (submit-evaluation), so the answer is recorded unscored
+        return (
+          <WritingTest
+            key={currentQuestion.id}
+            prompts={[{
+              id: currentQuestion.id,
+              prompt: currentQuestion.prompt,
+              minWords: Number(currentQuestion.content?.min_words) || 50,
+              instructions: currentQuestion.content?.instructions,
+              points: currentQuestion.points || 10
+            }]}
+            onComplete={(results) => {
+              handleQuestionComplete(currentQuestion.id, {
+                answer: results.responses?.[currentQuestion.id] || '',
+                score: 0,
+                maxScore: currentQuestion.points || 10,
+                type: 'writing',
+                pending_grading: true
+              })
+            }}
+          />
+        )
+
       case 'speaking':
         // Use SpeakingQuestion component for single question (SpeakingTest is for multiple prompts)
         return (
@@ -1702,7 +1890,19 @@ function EvaluationTestRenderer({ testData, onComplete, onCancel }: {
     }
   }
 
-  const progress = ((currentQuestionIndex + 1) / testData.questions.length) * 100
+  // Adaptive sections have no fixed length; count the cap until the estimate settles
+  const totalQuestions = isAdaptive && !adaptiveDone
+    ? Math.min(testData.adaptive?.max_items ?? adaptiveServed.length, testData.adaptive?.pool_size ?? adaptiveServed.length) + testData.questions.length
+    : questions.length
+  const progress = ((currentQuestionIndex + 1) / Math.max(totalQuestions, 1)) * 100
+
+  if (!currentQuestion) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-6 h-6 border-2 border-primary-500 border-t-transparent rounded-full"></div>
+      </div>
+    )
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-secondary-50 py-8">
@@ -1726,7 +1926,7 @@ function EvaluationTestRenderer({ testData, onComplete, onCancel }: {
 
           <div className="text-center">
             <h2 className="text-lg font-semibold">
-              Question {currentQuestionIndex + 1} of {testData.questions.length}
+              Question {currentQuestionIndex + 1} of {isAdaptive && !adaptiveDone ? `up to ${totalQuestions}` : totalQuestions}
             </h2>
           </div>
         </div>
@@ -1754,7 +1954,7 @@ function EvaluationTestRenderer({ testData, onComplete, onCancel }: {
           {!isLastQuestion && (
             <Button
               onClick={() => setCurrentQuestionIndex((prev: number) => prev + 1)}
-              disabled={!completedQuestions.has(currentQuestion.id)}
+              disabled={!completedQuestions.has(currentQuestion.id) || adaptiveLoading || currentQuestionIndex + 1 >= questions.length}
             >
               Next
             </Button>
@@ -60,6 +60,11 @@ function HomeContent() {
         return
       }
 
+      if (user?.role === 'teacher') {
+        window.location.href = '/admin/classes'
+        return
+      }
+
       if (user?.role === 'student') {
         window.location.href = '/student_dashboard'
         return
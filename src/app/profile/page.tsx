@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
 import { motion } from 'framer-motion'
+import MyDevices from '@/components/auth/MyDevices'
 import { ProtectedRoute, useUser } from '@/components/auth/ProtectedRoute'
 import { Card, Button, Input, Mascot } from '@/components/ui'
 import { useNotification } from '@/contexts/NotificationContext'
@@ -473,6 +474,24 @@ function ProfileContent() {
                 </Card.Body>
               </Card>
             </motion.div>
+
+            {/* My Devices */}
+            <motion.div
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ duration: 0.5, delay: 0.3 }}
+            >
+              <Card>
+                <Card.Header>
+                  <h3 className="text-xl font-semibold">
+                    {t('profile.myDevices', 'My Devices')}
+                  </h3>
+                </Card.Header>
+                <Card.Body>
+                  <MyDevices />
+                </Card.Body>
+              </Card>
+            </motion.div>
           </div>
 
           {/* Sidebar */}
@@ -0,0 +1,13 @@
+'use client'
+
+import React from 'react'
+import StudentProtectedRoute from '@/components/auth/StudentProtectedRoute'
+import StudentMistakeNotebook from '@/components/student/StudentMistakeNotebook'
+
+export default function StudentMistakesPage() {
+  return (
+    <StudentProtectedRoute>
+      <StudentMistakeNotebook />
+    </StudentProtectedRoute>
+  )
+}
@@ -2,6 +2,7 @@
 
 import React, { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
+import MyDevices from '@/components/auth/MyDevices'
 import StudentProtectedRoute from '@/components/auth/StudentProtectedRoute'
 import { useUser } from '@/components/auth/ProtectedRoute'
 import { Button, Card } from '@/components/ui'
@@ -67,6 +68,10 @@ function StudentProfileContent() {
             )}
           </div>
         </Card>
+        <Card className="p-4 sm:p-6 mt-4">
+          <h2 className="text-lg font-semibold text-slate-800 mb-2">My devices</h2>
+          <MyDevices />
+        </Card>
       </div>
     </div>
   )
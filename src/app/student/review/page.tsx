@@ -0,0 +1,13 @@
+'use client'
+
+import React from 'react'
+import StudentProtectedRoute from '@/components/auth/StudentProtectedRoute'
+import StudentVocabReview from '@/components/student/StudentVocabReview'
+
+export default function StudentReviewPage() {
+  return (
+    <StudentProtectedRoute>
+      <StudentVocabReview />
+    </StudentProtectedRoute>
+  )
+}
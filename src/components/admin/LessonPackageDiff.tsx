@@ -0,0 +1,83 @@
+'use client'
+
+import React from 'react'
+import { Table, Header, Body, Row, Head, Cell } from '../ui'
+
+type ActivityStatus = 'added' | 'removed' | 'changed'
+
+/** diffLessonPackage result from admin-student-lesson-package (functions/lib/lesson-package.ts) */
+export type PackageDiff = {
+  created: boolean
+  lesson_fields: Array<{ field: string; before: unknown; after: unknown }>
+  activities: Array<{
+    activity_order: number
+    status: ActivityStatus
+    activity_type: string
+    title: string | null
+    fields: string[]
+  }>
+  has_changes: boolean
+}
+
+export type PackagePreview = {
+  target: { id: string; lesson_number: number; version: number } | null
+  diff: PackageDiff
+}
+
+const STATUS_CLASS: Record<ActivityStatus, string> = {
+  added: 'bg-green-100 text-green-800',
+  changed: 'bg-blue-100 text-blue-800',
+  removed: 'bg-red-100 text-red-800',
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > 80 ? `${text.slice(0, 77)}…` : text
+}
+
+/** Lesson field changes and per-activity status of a lesson package preview. */
+export default function LessonPackageDiff({ diff }: { diff: PackageDiff }) {
+  return (
+    <>
+      {diff.lesson_fields.length ? (
+        <ul className="text-sm text-slate-700 space-y-0.5">
+          {diff.lesson_fields.map((change) => (
+            <li key={change.field}>
+              <span className="font-medium">{change.field}</span>:{' '}
+              {diff.created ? null : <span className="text-slate-500 line-through">{formatValue(change.before)}</span>}{' '}
+              {formatValue(change.after)}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {diff.activities.length ? (
+        <Table>
+          <Header>
+            <Row>
+              <Head>#</Head>
+              <Head>Activity</Head>
+              <Head>Change</Head>
+            </Row>
+          </Header>
+          <Body>
+            {diff.activities.map((a) => (
+              <Row key={a.activity_order}>
+                <Cell className="text-xs text-slate-500 tabular-nums">{a.activity_order}</Cell>
+                <Cell className="text-sm text-slate-800">
+                  {a.title || '—'}
+                  <div className="text-xs text-slate-500">{a.activity_type}</div>
+                </Cell>
+                <Cell className="text-xs">
+                  <span className={`rounded px-2 py-0.5 ${STATUS_CLASS[a.status]}`}>{a.status}</span>
+                  {a.fields.length ? <span className="ml-2 text-slate-500">{a.fields.join(', ')}</span> : null}
+                </Cell>
+              </Row>
+            ))}
+          </Body>
+        </Table>
+      ) : null}
+    </>
+  )
+}
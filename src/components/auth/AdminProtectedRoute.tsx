@@ -5,6 +5,8 @@ import { useAuth } from '@/contexts/AuthContext'
 
 interface AdminProtectedRouteProps {
   children: React.ReactNode
+  /** Also admit teachers (role 'teacher'); the page must hide admin-only calls for them. */
+  allowTeacher?: boolean
 }
 
 /**
@@ -13,7 +15,7 @@ interface AdminProtectedRouteProps {
  * (ERR_BLOCKED_BY_CLIENT), which previously left the page stuck on loading.
  * Expired admin_token is handled by adminApiRequest on the first real admin call.
  */
-const AdminProtectedRoute: React.FC<AdminProtectedRouteProps> = ({ children }) => {
+const AdminProtectedRoute: React.FC<AdminProtectedRouteProps> = ({ children, allowTeacher = false }) => {
   const { user, isLoading: authLoading } = useAuth()
   const [isAuthenticated, setIsAuthenticated] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
@@ -24,13 +26,13 @@ const AdminProtectedRoute: React.FC<AdminProtectedRouteProps> = ({ children }) =
       return
     }
 
-    if (user?.role === 'admin') {
+    if (user?.role === 'admin' || (allowTeacher && user?.role === 'teacher')) {
       setIsAuthenticated(true)
       setIsLoading(false)
       return
     }
 
-    if (user && user.role !== 'admin') {
+    if (user) {
       setIsAuthenticated(false)
       setIsLoading(false)
       window.location.href = '/'
@@ -41,7 +43,7 @@ const AdminProtectedRoute: React.FC<AdminProtectedRouteProps> = ({ children }) =
     setIsAuthenticated(false)
     setIsLoading(false)
     window.location.href = '/'
-  }, [user, authLoading])
+  }, [user, authLoading, allowTeacher])
 
   // Safety net if AuthContext never resolves (network hang)
   useEffect(() => {
@@ -15,7 +15,7 @@ interface LoginModalProps {
 const LoginModal: React.FC<LoginModalProps> = ({ onSuccess }) => {
   const { t } = useTranslation()
   const { showModal } = useModal()
-  const { refreshAuth } = useAuth()
+  const { refreshAuth, signedOutNotice } = useAuth()
   const [loginIdentifier, setLoginIdentifier] = useState('')
   const [password, setPassword] = useState('')
   const [loading, setLoading] = useState(false)
@@ -96,6 +96,12 @@ const LoginModal: React.FC<LoginModalProps> = ({ onSuccess }) => {
       </div>
 
       <div className="space-y-6">
+        {signedOutNotice && (
+          <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+            <p className="text-amber-800 text-sm">{signedOutNotice}</p>
+          </div>
+        )}
+
         <Input
           type="text"
           placeholder={t('auth.loginIdentifier', 'Username or Email')}
@@ -0,0 +1,134 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui'
+import { useAuth } from '@/contexts/AuthContext'
+import { useNotification } from '@/contexts/NotificationContext'
+import { apiClient } from '@/lib/api'
+import type { UserSession } from '@/types'
+
+function formatSeen(iso: string | null): string {
+  if (!iso) return '—'
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000)
+  if (minutes < 5) return 'Active now'
+  if (minutes < 60) return `${minutes} min ago`
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} h ago`
+  return new Date(iso).toLocaleDateString()
+}
+
+/**
+ * "My devices" list for the profile pages: active login sessions with per-device sign-out and
+ * "sign out everywhere" (functions/auth-sessions).
+ */
+export default function MyDevices() {
+  const { t } = useTranslation()
+  const { logout } = useAuth()
+  const { showNotification } = useNotification()
+  const [sessions, setSessions] = useState<UserSession[]>([])
+  const [sessionCap, setSessionCap] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    const res = await apiClient.getSessions()
+    if (res.success && res.data) {
+      setSessions(res.data.sessions)
+      setSessionCap(res.data.session_cap)
+    } else {
+      showNotification(t('devices.loadFailed', 'Could not load your devices'), 'error', res.error)
+    }
+    setLoading(false)
+  }, [showNotification, t])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const signOut = async (session: UserSession) => {
+    setBusyId(session.id)
+    const res = await apiClient.signOutSession(session.id)
+    setBusyId(null)
+    if (res.success && res.data) {
+      setSessions(res.data.sessions)
+      showNotification(t('devices.signedOut', 'Signed out {{device}}', { device: session.device }), 'success')
+    } else {
+      showNotification(t('devices.signOutFailed', 'Could not sign out that device'), 'error', res.error)
+      load()
+    }
+  }
+
+  const signOutEverywhere = async () => {
+    if (!window.confirm(t('devices.confirmEverywhere', 'Sign out on every device, including this one?'))) return
+    setBusyId('all')
+    const res = await apiClient.signOutEverywhere()
+    if (!res.success) {
+      setBusyId(null)
+      showNotification(t('devices.signOutEverywhereFailed', 'Could not sign out your devices'), 'error', res.error)
+      return
+    }
+    await logout()
+    window.location.href = '/'
+  }
+
+  if (loading) {
+    return <p className="text-sm text-neutral-500">{t('common.loading', 'Loading...')}</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="divide-y divide-neutral-200">
+        {sessions.map((session) => (
+          <li key={session.id} className="py-3 flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <p className="font-medium text-neutral-800">
+                {session.device}
+                {session.current && (
+                  <span className="ml-2 text-xs font-semibold text-green-700 bg-green-100 rounded px-1.5 py-0.5">
+                    {t('devices.thisDevice', 'This device')}
+                  </span>
+                )}
+              </p>
+              <p className="text-sm text-neutral-500">
+                {[session.ip_region, session.current ? t('devices.activeNow', 'Active now') : formatSeen(session.last_seen_at)]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </p>
+            </div>
+            {!session.current && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => signOut(session)}
+                loading={busyId === session.id}
+                disabled={busyId !== null}
+              >
+                {t('devices.signOut', 'Sign out')}
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {sessionCap !== null && (
+        <p className="text-xs text-neutral-500">
+          {t(
+            'devices.capNote',
+            'Up to {{count}} devices can stay signed in. Signing in on another device signs out the one that signed in longest ago.',
+            { count: sessionCap }
+          )}
+        </p>
+      )}
+
+      <Button
+        variant="secondary"
+        size="sm"
+        onClick={signOutEverywhere}
+        loading={busyId === 'all'}
+        disabled={busyId !== null}
+      >
+        {t('devices.signOutEverywhere', 'Sign out everywhere')}
+      </Button>
+    </div>
+  )
+}
@@ -2,12 +2,24 @@ import React, { useState, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Card, Button } from '../ui';
 
+export interface WritingPrompt {
+  id: string;
+  prompt: string;
+  minWords: number;
+  instructions?: string;
+  points?: number;
+}
+
 interface WritingTestProps {
   onComplete: (results: any) => void;
+  /** Defaults to the two sample prompts below */
+  prompts?: WritingPrompt[];
 }
 
+const DEFAULT_PROMPT_POINTS = 10;
+
 // Sample writing test prompts
-const writingPrompts = [
+const defaultWritingPrompts: WritingPrompt[] = [
   {
     id: 'prompt1',
     prompt: 'Describe your daily routine. What time do you wake up? What activities do you do during the day?',
@@ -22,8 +34,13 @@ const writingPrompts = [
   }
 ];
 
-const WritingTest: React.FC<WritingTestProps> = ({ onComplete }) => {
+const countWords = (text: string) => text.trim().split(/\s+/).filter(word => word.length > 0).length;
+
+// Responses are graded server-side (functions/lib/writing-grader.ts) when the evaluation is
+// submitted, so results carry score 0 and pending_grading until then.
+const WritingTest: React.FC<WritingTestProps> = ({ onComplete, prompts }) => {
   const { t } = useTranslation();
+  const writingPrompts = prompts && prompts.length > 0 ? prompts : defaultWritingPrompts;
   const [currentPromptIndex, setCurrentPromptIndex] = useState(0);
   const [responses, setResponses] = useState<{[key: string]: string}>({});
   const [startTime] = useState(Date.now());
@@ -38,55 +55,38 @@ const WritingTest: React.FC<WritingTestProps> = ({ onComplete }) => {
     }));
   }, [currentPrompt.id]);
 
-  const handleNext = useCallback(() => {
-    if (currentPromptIndex < writingPrompts.length - 1) {
-      setCurrentPromptIndex(prev => prev + 1);
-    } else {
-      handleComplete();
-    }
-  }, [currentPromptIndex, writingPrompts.length]);
-
   const handleComplete = useCallback(() => {
     const timeSpent = Math.round((Date.now() - startTime) / 1000);
 
-    // Basic scoring based on word count and response completeness
-    let totalScore = 0;
-    let maxScore = 0;
-
-    writingPrompts.forEach(prompt => {
-      const response = responses[prompt.id] || '';
-      const wordCount = response.trim().split(/\s+/).filter(word => word.length > 0).length;
-      maxScore += 10; // Max 10 points per prompt
-
-      // Score based on word count meeting minimum requirement
-      if (wordCount >= prompt.minWords) {
-        totalScore += 8; // 8 points for meeting word count
-      } else if (wordCount >= prompt.minWords * 0.7) {
-        totalScore += 6; // 6 points for 70% of minimum
-      } else if (wordCount >= prompt.minWords * 0.5) {
-        totalScore += 4; // 4 points for 50% of minimum
-      } else if (response.trim().length > 0) {
-        totalScore += 2; // 2 points for any attempt
-      }
-    });
+    const maxScore = writingPrompts.reduce((sum, prompt) => sum + (prompt.points ?? DEFAULT_PROMPT_POINTS), 0);
 
     onComplete({
       testType: 'writing',
-      score: totalScore,
+      score: 0,
       maxScore,
-      percentage: Math.round((totalScore / maxScore) * 100),
+      pending_grading: true,
       responses,
-      wordCounts: writingPrompts.map(prompt => ({
+      prompts: writingPrompts.map(prompt => ({
         promptId: prompt.id,
-        wordCount: (responses[prompt.id] || '').trim().split(/\s+/).filter(word => word.length > 0).length,
-        requiredWords: prompt.minWords
+        prompt: prompt.prompt,
+        wordCount: countWords(responses[prompt.id] || ''),
+        requiredWords: prompt.minWords,
+        points: prompt.points ?? DEFAULT_PROMPT_POINTS
       })),
       timeSpent,
       completedAt: new Date().toISOString()
     });
-  }, [responses, startTime, onComplete]);
+  }, [responses, startTime, onComplete, writingPrompts]);
+
+  const handleNext = useCallback(() => {
+    if (currentPromptIndex < writingPrompts.length - 1) {
+      setCurrentPromptIndex(prev => prev + 1);
+    } else {
+      handleComplete();
+    }
+  }, [currentPromptIndex, writingPrompts.length, handleComplete]);
 
-  const wordCount = currentResponse.trim().split(/\s+/).filter(word => word.length > 0).length;
+  const wordCount = countWords(currentResponse);
   const meetsRequirement = wordCount >= currentPrompt.minWords;
 
   const canProceed = currentResponse.trim().length > 0;
@@ -122,7 +122,8 @@ const WritingTest: React.FC<WritingTestProps> = ({ onComplete }) => {
           </h4>
           <p className="text-green-900 mb-3">{currentPrompt.prompt}</p>
           <div className="text-sm text-green-700 bg-green-100 p-2 rounded">
-            <strong>{t('evaluation.writing.instructions', 'Instructions')}:</strong> {currentPrompt.instructions}
+            <strong>{t('evaluation.writing.instructions', 'Instructions')}:</strong>{' '}
+            {currentPrompt.instructions || `Write at least ${currentPrompt.minWords} words.`}
           </div>
         </div>
 
@@ -163,7 +164,7 @@ const WritingTest: React.FC<WritingTestProps> = ({ onComplete }) => {
             <div className="space-y-1 text-sm text-blue-700">
               {writingPrompts.map((prompt, index) => {
                 const response = responses[prompt.id];
-                const wordCount = response ? response.trim().split(/\s+/).filter(word => word.length > 0).length : 0;
+                const wordCount = response ? countWords(response) : 0;
                 return (
                   <div key={prompt.id} className="flex justify-between">
                     <span>Prompt {index + 1}:</span>
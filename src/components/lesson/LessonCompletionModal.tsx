@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useTranslation } from 'react-i18next';
 import { useRouter } from 'next/navigation';
@@ -9,6 +9,7 @@ import { useNotification } from '@/contexts/NotificationContext';
 import { lessonProgressStorage } from '@/services/LessonProgressStorage';
 import { backgroundSaveQueue } from '@/services/BackgroundSaveQueue';
 import { useAuth } from '@/contexts/AuthContext';
+import { createIdempotencyKey } from '@/lib/idempotencyKey';
 
 interface LessonResult {
   activityType: string;
@@ -55,6 +56,8 @@ const LessonCompletionModal: React.FC<LessonCompletionModalProps> = ({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isResetByBackend, setIsResetByBackend] = useState(false);
   const [backendPassed, setBackendPassed] = useState<boolean | null>(null); // Backend's passed status
+  // One key per modal opening: the auto-finalize and the Continue button are the same request
+  const finalizeKeyRef = useRef<string>(createIdempotencyKey());
 
   const homePath = user?.role === 'student' ? '/student_dashboard' : '/dashboard';
 
@@ -79,6 +82,10 @@ const LessonCompletionModal: React.FC<LessonCompletionModalProps> = ({
       // 2. Call finalize-lesson endpoint (calculates from existing lesson_activity_results)
       const response = await makeAuthenticatedRequest('/.netlify/functions/finalize-lesson', {
         method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': finalizeKeyRef.current,
+        },
         body: JSON.stringify({ lessonId })
       });
 
@@ -144,6 +151,7 @@ const LessonCompletionModal: React.FC<LessonCompletionModalProps> = ({
 
   useEffect(() => {
     if (isOpen) {
+      finalizeKeyRef.current = createIdempotencyKey();
       setIsResetByBackend(false);
       setBackendPassed(null); // Reset backend passed status
       // Automatically finalize lesson when modal opens (lesson is complete)
@@ -157,6 +165,10 @@ const LessonCompletionModal: React.FC<LessonCompletionModalProps> = ({
           // 2. Call finalize-lesson endpoint (calculates from existing lesson_activity_results)
           const response = await makeAuthenticatedRequest('/.netlify/functions/finalize-lesson', {
             method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Idempotency-Key': finalizeKeyRef.current,
+            },
             body: JSON.stringify({ lessonId })
           });
 
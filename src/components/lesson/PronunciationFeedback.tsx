@@ -0,0 +1,104 @@
+'use client'
+
+import React, { useCallback, useRef, useState } from 'react'
+import type { PronunciationAssessment, PronunciationWordStatus } from '@/lib/pronunciation'
+
+const WORD_CLASSES: Record<PronunciationWordStatus, string> = {
+  good: 'text-slate-800',
+  unclear: 'text-amber-800 bg-amber-100 rounded px-0.5',
+  substituted: 'text-red-700 bg-red-100 rounded px-0.5',
+  missed: 'text-slate-400 line-through',
+}
+
+function wordTitle(status: PronunciationWordStatus, heard: string | null, score: number): string {
+  if (status === 'missed') return 'Not heard'
+  if (status === 'substituted') return `Sounded like “${heard}”`
+  if (status === 'unclear') return `Not clear (${score}%)`
+  return `${score}%`
+}
+
+interface PronunciationFeedbackProps {
+  assessment: PronunciationAssessment
+}
+
+/** Per-word pronunciation highlights for a read-aloud attempt, with TTS replay of problem words. */
+export default function PronunciationFeedback({ assessment }: PronunciationFeedbackProps) {
+  const [loadingWord, setLoadingWord] = useState<string | null>(null)
+  const [failedWord, setFailedWord] = useState<string | null>(null)
+  const audioUrls = useRef(new Map<string, string>())
+
+  const playWord = useCallback(async (word: string) => {
+    setFailedWord(null)
+    try {
+      let url = audioUrls.current.get(word)
+      if (!url) {
+        setLoadingWord(word)
+        const response = await fetch('/.netlify/functions/tts-generate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ text: word }),
+        })
+        const result = await response.json().catch(() => null)
+        if (!response.ok || !result?.success || !result.public_url) throw new Error(result?.error || 'TTS failed')
+        url = result.public_url as string
+        audioUrls.current.set(word, url)
+      }
+      await new Audio(url).play()
+    } catch (error) {
+      console.error('Pronunciation replay failed:', error)
+      setFailedWord(word)
+    } finally {
+      setLoadingWord(null)
+    }
+  }, [])
+
+  return (
+    <div className="p-4 bg-white rounded-lg border border-slate-200 space-y-3 text-left">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h4 className="font-semibold text-slate-800">Pronunciation</h4>
+        <p className="text-sm text-slate-600">
+          Score {assessment.overall_score}% · {assessment.accuracy}% of words recognised
+        </p>
+      </div>
+
+      <p className="text-sm md:text-lg leading-relaxed">
+        {assessment.words.map((w, i) => (
+          <React.Fragment key={i}>
+            <span className={WORD_CLASSES[w.status]} title={wordTitle(w.status, w.heard, w.score)}>
+              {w.word}
+            </span>{' '}
+          </React.Fragment>
+        ))}
+      </p>
+
+      <div className="flex flex-wrap gap-3 text-xs text-slate-500">
+        <span><span className="inline-block w-3 h-3 rounded bg-amber-100 align-middle mr-1" />Not clear</span>
+        <span><span className="inline-block w-3 h-3 rounded bg-red-100 align-middle mr-1" />Sounded different</span>
+        <span><span className="line-through">word</span> Not heard</span>
+      </div>
+
+      {assessment.problem_words.length > 0 && (
+        <div>
+          <p className="text-sm text-slate-700 mb-2">Listen and practise these words:</p>
+          <div className="flex flex-wrap gap-2">
+            {assessment.problem_words.map((word) => (
+              <button
+                key={word}
+                type="button"
+                className="px-3 py-1 rounded-full border border-purple-200 bg-purple-50 text-purple-800 text-sm hover:bg-purple-100 disabled:opacity-50"
+                onClick={() => playWord(word)}
+                disabled={loadingWord !== null}
+              >
+                🔊 {word}
+                {loadingWord === word ? '…' : ''}
+              </button>
+            ))}
+          </div>
+          {failedWord && (
+            <p className="text-xs text-red-600 mt-2">Could not play “{failedWord}”. Please try again.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
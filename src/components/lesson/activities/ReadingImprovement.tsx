@@ -9,6 +9,8 @@ import { useApi } from '../../../hooks/useApi';
 import { getAIFeedbackHelper } from '../../../utils/aiFeedbackHelper';
 import { createBrowserRhythmSampler } from '@/lib/browserRhythm'
 import { getSupportedRecordingMimeType, submitSpeechJobAndPoll } from '@/lib/speechJobFlow'
+import type { PronunciationAssessment } from '@/lib/pronunciation'
+import PronunciationFeedback from '@/components/lesson/PronunciationFeedback'
 
 interface ReadingImprovementData {
   lessonId: string;
@@ -31,6 +33,7 @@ const ReadingImprovement = memo<ReadingImprovementProps>(({ lessonData, onComple
   const [isProcessing, setIsProcessing] = useState(false);
   const [transcript, setTranscript] = useState('');
   const [similarityResult, setSimilarityResult] = useState<any>(null);
+  const [pronunciation, setPronunciation] = useState<PronunciationAssessment | null>(null);
   const [attempts, setAttempts] = useState(0);
   const [isComplete, setIsComplete] = useState(false);
   const [startTime] = useState(Date.now());
@@ -67,6 +70,7 @@ const ReadingImprovement = memo<ReadingImprovementProps>(({ lessonData, onComple
     try {
       setTranscript('');
       setSimilarityResult(null);
+      setPronunciation(null);
 
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
       streamRef.current = stream
@@ -114,6 +118,7 @@ const ReadingImprovement = memo<ReadingImprovementProps>(({ lessonData, onComple
           })
           const t = res.transcript || ''
           setTranscript(t)
+          setPronunciation(res.feedback.pronunciation ?? null)
 
           if (!t.trim()) {
             showNotification('No speech detected. Please try reading again.', 'warning')
@@ -185,7 +190,9 @@ const ReadingImprovement = memo<ReadingImprovementProps>(({ lessonData, onComple
             userTranscript: transcript,
             similarity: similarityResult?.similarity || 0,
             threshold: lessonData.similarityThreshold,
-            attempts: attempts
+            attempts: attempts,
+            pronunciationScore: pronunciation?.overall_score ?? null,
+            problemWords: pronunciation?.problem_words ?? []
           }
         })
       });
@@ -200,7 +207,7 @@ const ReadingImprovement = memo<ReadingImprovementProps>(({ lessonData, onComple
       console.error('Error submitting activity:', error);
       showNotification('Failed to submit activity', 'error');
     }
-  }, [user, lessonData, startTime, similarityResult, transcript, attempts, makeAuthenticatedRequest, showNotification, onComplete]);
+  }, [user, lessonData, startTime, similarityResult, pronunciation, transcript, attempts, makeAuthenticatedRequest, showNotification, onComplete]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -296,6 +303,13 @@ const ReadingImprovement = memo<ReadingImprovementProps>(({ lessonData, onComple
           </div>
         )}
 
+        {/* Per-word pronunciation */}
+        {pronunciation && !isProcessing && (
+          <div className="mb-6">
+            <PronunciationFeedback assessment={pronunciation} />
+          </div>
+        )}
+
         {/* Similarity Results */}
         {similarityResult && (
           <div className="mb-6 p-4 bg-purple-50 rounded-lg border-2 border-purple-200">
@@ -397,6 +411,7 @@ const ReadingImprovement = memo<ReadingImprovementProps>(({ lessonData, onComple
               onClick={() => {
                 setTranscript('');
                 setSimilarityResult(null);
+                setPronunciation(null);
               }}
               className="bg-orange-500 hover:bg-orange-600"
             >
@@ -11,6 +11,8 @@ import { getSpeakingHelper } from '@/utils/speakingHelper'
 import { lessonProgressStorage } from '@/services/LessonProgressStorage'
 import { createBrowserRhythmSampler } from '@/lib/browserRhythm'
 import { submitSpeechJobAndPoll } from '@/lib/speechJobFlow'
+import type { PronunciationAssessment } from '@/lib/pronunciation'
+import PronunciationFeedback from '@/components/lesson/PronunciationFeedback'
 
 interface SpeakingImprovementProps {
   lessonData: {
@@ -38,6 +40,7 @@ const SpeakingImprovement = memo<SpeakingImprovementProps>(({ lessonData, onComp
   const [currentStep, setCurrentStep] = useState<ProcessingStep>('idle')
   const [transcript, setTranscript] = useState('')
   const [similarityResult, setSimilarityResult] = useState<any>(null)
+  const [pronunciation, setPronunciation] = useState<PronunciationAssessment | null>(null)
   const [attempts, setAttempts] = useState(0)
   const [isComplete, setIsComplete] = useState(false)
   const [startTime] = useState(Date.now())
@@ -233,11 +236,14 @@ const SpeakingImprovement = memo<SpeakingImprovementProps>(({ lessonData, onComp
         level,
         maxWords: getTargetWordCount(level) + 20,
         segmentCount: prompts.length || Object.keys(transcripts).length,
+        lesson_id: lessonData.lessonId,
       }),
     })
 
     if (!response.ok) {
-      throw new Error('Failed to generate combined improved text')
+      // 429 ai_quota_exceeded carries a "try again tomorrow" message for the student
+      const errBody = await response.json().catch(() => null)
+      throw new Error(errBody?.code === 'ai_quota_exceeded' ? errBody.error : 'Failed to generate combined improved text')
     }
 
     const result = await response.json()
@@ -246,7 +252,7 @@ const SpeakingImprovement = memo<SpeakingImprovementProps>(({ lessonData, onComp
     }
 
     throw new Error(result.error || 'Failed to generate combined improved text')
-  }, [makeAuthenticatedRequest, getTargetWordCount])
+  }, [makeAuthenticatedRequest, getTargetWordCount, lessonData.lessonId])
 
   // Load GPT-combined improved transcript from get-lesson activity results
   const loadImprovedTranscriptFromDB = useCallback(async () => {
@@ -519,7 +525,7 @@ const SpeakingImprovement = memo<SpeakingImprovementProps>(({ lessonData, onComp
             throw new Error('No improved transcript available for comparison. Please wait for it to load or complete the speaking activity first.')
           }
 
-          const { transcript } = await submitSpeechJobAndPoll({
+          const { transcript, feedback } = await submitSpeechJobAndPoll({
             audioBlob,
             recordingDurationSec: durationSec,
             prompt: speechPrompt,
@@ -537,6 +543,7 @@ const SpeakingImprovement = memo<SpeakingImprovementProps>(({ lessonData, onComp
           })
 
           setTranscript(transcript || '')
+          setPronunciation(feedback.pronunciation ?? null)
 
           // Check similarity with improved transcript using ai-similarity endpoint
           // Use ref to get current value (closure may have stale value from when recording started)
@@ -661,7 +668,9 @@ const SpeakingImprovement = memo<SpeakingImprovementProps>(({ lessonData, onComp
         originalTranscript,
         improvedTranscript: improvedTranscript || lessonData.improvedText,
         condensedDisplayText: condensedDisplayText || condenseTextForLevel(improvedTranscript || lessonData.improvedText, lessonData.level),
-        similarity: similarityScore
+        similarity: similarityScore,
+        pronunciationScore: pronunciation?.overall_score ?? null,
+        problemWords: pronunciation?.problem_words ?? []
       },
       feedback: similarityResult
     }
@@ -670,7 +679,7 @@ const SpeakingImprovement = memo<SpeakingImprovementProps>(({ lessonData, onComp
     if (onComplete) {
       onComplete(activityResult)
     }
-  }, [user?.id, lessonData, transcript, originalTranscript, improvedTranscript, condensedDisplayText, similarityResult, attempts, startTime, onComplete, condenseTextForLevel])
+  }, [user?.id, lessonData, transcript, originalTranscript, improvedTranscript, condensedDisplayText, similarityResult, pronunciation, attempts, startTime, onComplete, condenseTextForLevel])
 
   if (isComplete) {
     return (
@@ -697,6 +706,7 @@ const SpeakingImprovement = memo<SpeakingImprovementProps>(({ lessonData, onComp
                 </p>
               )}
             </div>
+            {pronunciation && <PronunciationFeedback assessment={pronunciation} />}
             <Button 
               onClick={handleComplete} 
               size="sm" 
@@ -810,6 +820,8 @@ const SpeakingImprovement = memo<SpeakingImprovementProps>(({ lessonData, onComp
             </p>
           </div>
         )}
+
+        {pronunciation && !isComplete && !isProcessing && <PronunciationFeedback assessment={pronunciation} />}
       </Card.Body>
     </Card>
   )
@@ -505,11 +505,14 @@ const SpeakingWithFeedback = memo<SpeakingWithFeedbackProps>(({ lessonData, onCo
           // Use lesson level as the expected baseline; fallback to user level.
           cefr_level: lessonData.level || user?.level || undefined,
           detect_question_repetition: true,
+          lesson_id: lessonData.lessonId || undefined,
         })
       });
 
       if (!response.ok) {
-        throw new Error(response.status === 504 || response.status === 500 ? 'Request timed out. Please try again.' : `Server error (${response.status}). Please try again.`);
+        // Rate limit / AI quota responses explain when to try again
+        const errBody = response.status === 429 ? await response.json().catch(() => null) : null;
+        throw new Error(errBody?.error || (response.status === 504 || response.status === 500 ? 'Request timed out. Please try again.' : `Server error (${response.status}). Please try again.`));
       }
 
       let result;
@@ -904,6 +907,7 @@ const SpeakingWithFeedback = memo<SpeakingWithFeedbackProps>(({ lessonData, onCo
           vocabulary_corrections: result.vocabulary_corrections || [],
           ai_feedback: result.ai_feedback || null,
           integrity: result.integrity || null,
+          robotic_voice_warning: result.robotic_voice_warning || null,
         },
       }));
       setCurrentStep('feedback');
@@ -1339,6 +1343,7 @@ const SpeakingWithFeedback = memo<SpeakingWithFeedbackProps>(({ lessonData, onCo
           vocabulary_corrections: result.vocabulary_corrections || [],
           ai_feedback: result.ai_feedback || null,
           integrity: result.integrity || null,
+          robotic_voice_warning: result.robotic_voice_warning || null,
         },
       }));
       setCurrentStep('feedback');
@@ -1463,6 +1468,7 @@ const SpeakingWithFeedback = memo<SpeakingWithFeedbackProps>(({ lessonData, onCo
           vocabulary_corrections: result.vocabulary_corrections || [],
           ai_feedback: result.ai_feedback || null,
           integrity: result.integrity || null,
+          robotic_voice_warning: result.robotic_voice_warning || null,
         },
       }));
       setCurrentStep('feedback');
@@ -2034,6 +2040,12 @@ const SpeakingWithFeedback = memo<SpeakingWithFeedbackProps>(({ lessonData, onCo
                   AI Feedback:
                 </h5>
 
+                {currentFeedback.robotic_voice_warning && (
+                  <div className="mb-3 p-3 bg-amber-50 border border-amber-300 rounded-lg">
+                    <p className="text-amber-900 text-sm">{currentFeedback.robotic_voice_warning}</p>
+                  </div>
+                )}
+
                 {/* Topic validation */}
                 {currentFeedback.is_off_topic && (
                   <div className="mb-3 p-3 bg-red-100 border border-red-300 rounded-lg">
@@ -3,6 +3,7 @@
 import React from 'react'
 import type { StudentActivityType, StudentLesson, StudentLessonActivity } from '@/types/student'
 import type { StudentActivityProps } from './activityProps'
+import { Button } from '@/components/ui'
 import StudentPollActivity from './activities/StudentPollActivity'
 import StudentVocabularyIntro from './activities/StudentVocabularyIntro'
 import StudentPictureWordMatch from './activities/StudentPictureWordMatch'
@@ -81,6 +82,28 @@ export default function StudentActivityRenderer({
     )
   }
 
+  // A broken seed would otherwise render an empty activity; let the class move on instead
+  if (activity.content_issues?.length) {
+    return (
+      <div className="rounded-lg border border-amber-200 bg-amber-50 p-6 text-amber-900 space-y-3">
+        <p>This activity is not set up correctly yet. Tell your teacher, then continue.</p>
+        <ul className="text-xs list-disc pl-5">
+          {activity.content_issues.map((issue, i) => (
+            <li key={i}>
+              {issue.path}: {issue.message}
+            </li>
+          ))}
+        </ul>
+        <Button
+          size="sm"
+          onClick={() => onComplete({ score: 0, maxScore: 0, answers: { skipped: 'invalid_content' } })}
+        >
+          Continue
+        </Button>
+      </div>
+    )
+  }
+
   return (
     <Component
       activity={activity}
@@ -6,6 +6,8 @@ import { motion } from 'framer-motion'
 import { useUser } from '@/components/auth/ProtectedRoute'
 import { Button, Card, Mascot, ProgressBar } from '@/components/ui'
 import { apiClient } from '@/lib/api'
+import { STUDENT_MISTAKES_PATH, STUDENT_VOCAB_REVIEW_PATH } from '@/lib/studentRoutes'
+import type { VocabReviewSummary } from '@/lib/vocabReview'
 import type { StudentDashboardLesson } from '@/types/student'
 
 export default function StudentDashboardContent() {
@@ -15,6 +17,7 @@ export default function StudentDashboardContent() {
   const [progress, setProgress] = useState({ completedLessons: 0, totalLessons: 0 })
   const [restrictedToPlatform, setRestrictedToPlatform] = useState(false)
   const [allAssignedComplete, setAllAssignedComplete] = useState(false)
+  const [vocabReview, setVocabReview] = useState<VocabReviewSummary | null>(null)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -27,11 +30,13 @@ export default function StudentDashboardContent() {
             progress: { completedLessons: number; totalLessons: number }
             restricted_to_platform_lessons?: boolean
             all_assigned_complete?: boolean
+            vocabReview?: VocabReviewSummary | null
           }
           setLessons(data.lessons || [])
           setProgress(data.progress || { completedLessons: 0, totalLessons: 0 })
           setRestrictedToPlatform(Boolean(data.restricted_to_platform_lessons))
           setAllAssignedComplete(Boolean(data.all_assigned_complete))
+          setVocabReview(data.vocabReview ?? null)
         }
       } finally {
         setLoading(false)
@@ -75,9 +80,14 @@ export default function StudentDashboardContent() {
                 </p>
               </div>
             </div>
-            <Button variant="secondary" size="sm" onClick={() => router.push('/student/profile')}>
-              Profile
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="secondary" size="sm" onClick={() => router.push(STUDENT_MISTAKES_PATH)}>
+                My mistakes
+              </Button>
+              <Button variant="secondary" size="sm" onClick={() => router.push('/student/profile')}>
+                Profile
+              </Button>
+            </div>
           </div>
         </motion.div>
 
@@ -95,6 +105,29 @@ export default function StudentDashboardContent() {
           />
         </Card>
 
+        {vocabReview && vocabReview.total > 0 && (
+          <Card className="p-4 sm:p-6 mb-4 sm:mb-8">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h2 className="text-lg font-semibold text-slate-800">Review words</h2>
+                <p className="text-sm text-slate-600">
+                  {vocabReview.due > 0
+                    ? `${vocabReview.due} word${vocabReview.due === 1 ? '' : 's'} to review today`
+                    : 'All caught up — come back tomorrow'}
+                  <span className="text-slate-400"> · {vocabReview.total} in your deck</span>
+                </p>
+              </div>
+              <Button
+                variant={vocabReview.due > 0 ? 'primary' : 'secondary'}
+                disabled={vocabReview.due === 0}
+                onClick={() => router.push(STUDENT_VOCAB_REVIEW_PATH)}
+              >
+                Start review
+              </Button>
+            </div>
+          </Card>
+        )}
+
         {restrictedToPlatform && (
           <Card className="p-4 mb-4 border-amber-200 bg-amber-50/80 text-amber-900 text-sm">
             Your teacher assigned review lessons. Complete them one at a time — the next lesson
@@ -1,12 +1,14 @@
 'use client'
 
-import React, { useCallback, useEffect, useState } from 'react'
+import React, { useCallback, useEffect, useRef, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Button, Card, LoadingSpinnerModal, Modal, ProgressBar } from '@/components/ui'
 import { apiClient } from '@/lib/api'
+import { createIdempotencyKey } from '@/lib/idempotencyKey'
 import { saveStoredCharacter } from '@/lib/characterBuilder/characterStorage'
 import { getCharacterBuilderAnswers } from '@/lib/characterBuilder/lessonCharacterData'
 import { studentLessonProgressStorage } from '@/services/StudentLessonProgressStorage'
+import { studentActivityOutbox, type OutboxEntry } from '@/services/StudentActivityOutbox'
 import { useUser } from '@/components/auth/ProtectedRoute'
 import { STUDENT_DASHBOARD_PATH } from '@/lib/studentRoutes'
 import StudentActivityRenderer from './StudentActivityRenderer'
@@ -41,6 +43,33 @@ function buildCompletedOrders(
   return done
 }
 
+/** Pending outbox results replace the server copy of the same activity. */
+function mergeResults(
+  serverResults: StudentActivityResult[],
+  pending: StudentActivityResult[]
+): StudentActivityResult[] {
+  const pendingOrders = new Set(pending.map((r) => r.activityOrder))
+  return [...serverResults.filter((r) => !pendingOrders.has(r.activityOrder)), ...pending].sort(
+    (a, b) => a.activityOrder - b.activityOrder
+  )
+}
+
+type ActivitySyncState = 'not_started' | 'saved' | 'waiting' | 'rejected'
+
+const SYNC_STATE_LABEL: Record<ActivitySyncState, string> = {
+  not_started: 'Not started',
+  saved: 'Saved',
+  waiting: 'Waiting to sync',
+  rejected: 'Not saved — please redo',
+}
+
+const SYNC_STATE_DOT: Record<ActivitySyncState, string> = {
+  not_started: 'bg-slate-200',
+  saved: 'bg-green-500',
+  waiting: 'bg-amber-400 animate-pulse',
+  rejected: 'bg-red-500',
+}
+
 export default function StudentLessonRunner({ lessonId }: Props) {
   const router = useRouter()
   const { user } = useUser()
@@ -60,6 +89,40 @@ export default function StudentLessonRunner({ lessonId }: Props) {
   } | null>(null)
   const [completedOrders, setCompletedOrders] = useState<Set<number>>(new Set())
   const [activityResults, setActivityResults] = useState<StudentActivityResult[]>([])
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([])
+  const [isOnline, setIsOnline] = useState(true)
+  // Reused until finalize gets a response, so a retry after a dropped connection is a replay
+  const finalizeKeyRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!user?.id) return
+    const userId = user.id
+    let cancelled = false
+    const unsubscribe = studentActivityOutbox.subscribe((entries) => {
+      if (!cancelled) setOutboxEntries(entries.filter((e) => e.studentLessonId === lessonId))
+    })
+    studentActivityOutbox.getEntries(userId, lessonId).then((entries) => {
+      if (!cancelled) setOutboxEntries(entries)
+    })
+    const stop = studentActivityOutbox.start(userId)
+    return () => {
+      cancelled = true
+      unsubscribe()
+      stop()
+    }
+  }, [user?.id, lessonId])
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+    const update = () => setIsOnline(navigator.onLine !== false)
+    update()
+    window.addEventListener('online', update)
+    window.addEventListener('offline', update)
+    return () => {
+      window.removeEventListener('online', update)
+      window.removeEventListener('offline', update)
+    }
+  }, [])
 
   const findFirstIncompleteIndex = useCallback(
     (acts: StudentLessonActivity[], done: Set<number>) => {
@@ -90,7 +153,13 @@ export default function StudentLessonRunner({ lessonId }: Props) {
       )
       setActivities(acts)
       setUserProgress(data.userProgress ?? null)
-      setActivityResults(data.activityResults || [])
+
+      // Results saved on this device but not yet confirmed by the server
+      const pendingResults = user?.id
+        ? await studentLessonProgressStorage.loadPendingResults(user.id, lessonId)
+        : []
+      const serverResults = data.activityResults || []
+      setActivityResults(mergeResults(serverResults, pendingResults))
 
       if (user?.id && data.activityResults?.length) {
         const fromDb = getCharacterBuilderAnswers(data.activityResults, acts)
@@ -104,7 +173,7 @@ export default function StudentLessonRunner({ lessonId }: Props) {
         }
       }
 
-      const done = buildCompletedOrders(data.activityResults || [], acts)
+      const done = buildCompletedOrders([...serverResults, ...pendingResults], acts)
 
       if (user?.id) {
         const local = studentLessonProgressStorage.load(user.id, lessonId)
@@ -174,6 +243,14 @@ export default function StudentLessonRunner({ lessonId }: Props) {
   const allActivitiesDone =
     activities.length > 0 && completedOrders.size >= activities.length
 
+  const syncStateFor = (activity: StudentLessonActivity): ActivitySyncState => {
+    const entry = outboxEntries.find((e) => e.activityOrder === activity.activity_order)
+    if (entry) return entry.status === 'rejected' ? 'rejected' : 'waiting'
+    return completedOrders.has(activity.activity_order) ? 'saved' : 'not_started'
+  }
+  const waitingCount = outboxEntries.filter((e) => e.status !== 'rejected').length
+  const rejectedEntries = outboxEntries.filter((e) => e.status === 'rejected')
+
   const estimatedLessonPercentage = computeLessonPercentage(
     activityResults.map((r) =>
       effectiveActivityScore({
@@ -212,11 +289,44 @@ export default function StudentLessonRunner({ lessonId }: Props) {
     [lesson, activities, activityIndex, findFirstIncompleteIndex]
   )
 
+  const redoRejected = async (entry: OutboxEntry) => {
+    if (!user?.id) return
+    await studentActivityOutbox.discard(user.id, entry.idempotencyKey)
+    const nextDone = new Set(completedOrders)
+    nextDone.delete(entry.activityOrder)
+    setCompletedOrders(nextDone)
+    setActivityResults((prev) => prev.filter((r) => r.activityOrder !== entry.activityOrder))
+    const idx = activities.findIndex((a) => a.activity_order === entry.activityOrder)
+    if (idx >= 0) setActivityIndex(idx)
+    setPendingFinalize(false)
+    if (lesson) {
+      studentLessonProgressStorage.save(user.id, lesson.id, {
+        completedOrders: [...nextDone],
+        activityIndex: idx >= 0 ? idx : activityIndex,
+      })
+    }
+  }
+
   const runFinalize = async () => {
     if (!lesson) return
     setSubmitting(true)
     try {
-      const fin = await apiClient.finalizeStudentLesson(lesson.id)
+      if (user?.id) {
+        // The score is computed server-side, so every outbox entry must land first
+        await studentActivityOutbox.flush(user.id)
+        const unsynced = await studentActivityOutbox.getEntries(user.id, lesson.id)
+        if (unsynced.length > 0) {
+          setSaveError(
+            'Some answers are still waiting to sync. Check your internet connection — we will keep trying.'
+          )
+          return
+        }
+      }
+      if (!finalizeKeyRef.current) finalizeKeyRef.current = createIdempotencyKey()
+      const fin = await apiClient.finalizeStudentLesson(lesson.id, {
+        idempotencyKey: finalizeKeyRef.current,
+      })
+      if (fin.success) finalizeKeyRef.current = null
       const finBody = fin.data as {
         data?: { percentage: number; passed: boolean; reset?: boolean }
       }
@@ -286,11 +396,18 @@ export default function StudentLessonRunner({ lessonId }: Props) {
     }
 
     try {
-      const res = await apiClient.submitStudentLessonActivity({
+      if (!user?.id) {
+        setSaveError('Progress was not saved. Check you are logged in as a student.')
+        return
+      }
+
+      // Durable first: the outbox syncs to the server in the background and after reloads
+      await studentActivityOutbox.enqueue(user.id, {
         studentLessonId: lesson.id,
         activityId: currentActivity.id,
         activityType: currentActivity.activity_type,
         activityOrder: currentActivity.activity_order,
+        lessonVersion: lesson.version,
         score: result.score,
         maxScore: result.maxScore,
         attempts: result.attempts ?? 1,
@@ -301,14 +418,6 @@ export default function StudentLessonRunner({ lessonId }: Props) {
         isFinal: activityIndex === activities.length - 1,
       })
 
-      if (!res.success) {
-        setSaveError(
-          res.error ||
-            'Progress was not saved. Use npm run dev:netlify (port 8888) and check you are logged in as a student.'
-        )
-        return
-      }
-
       setCompletedOrders(nextDone)
       setActivityResults((prev) => {
         const next = prev.filter(
@@ -331,7 +440,7 @@ export default function StudentLessonRunner({ lessonId }: Props) {
         return next.sort((a, b) => a.activityOrder - b.activityOrder)
       })
 
-      if (currentActivity.activity_type === 'student_character_builder' && user?.id) {
+      if (currentActivity.activity_type === 'student_character_builder') {
         const saved = getCharacterBuilderAnswers(
           [
             {
@@ -355,12 +464,10 @@ export default function StudentLessonRunner({ lessonId }: Props) {
         }
       }
 
-      if (user?.id) {
-        studentLessonProgressStorage.save(user.id, lesson.id, {
-          completedOrders: [...nextDone],
-          activityIndex: nextIndex,
-        })
-      }
+      studentLessonProgressStorage.save(user.id, lesson.id, {
+        completedOrders: [...nextDone],
+        activityIndex: nextIndex,
+      })
 
       if (isLastActivity) {
         setPendingFinalize(true)
@@ -370,10 +477,8 @@ export default function StudentLessonRunner({ lessonId }: Props) {
         setPendingFinalize(false)
       }
     } catch (err) {
-      console.error('submitStudentLessonActivity failed', err)
-      setSaveError(
-        'Could not save progress. Run the app with Netlify functions (npm run dev:netlify) and try again.'
-      )
+      console.error('studentActivityOutbox.enqueue failed', err)
+      setSaveError('Could not save progress on this device. Please try again.')
     } finally {
       setSubmitting(false)
     }
@@ -419,8 +524,44 @@ export default function StudentLessonRunner({ lessonId }: Props) {
                 : 0
             }
           />
+          <div className="mt-3 flex flex-wrap gap-1.5" aria-label="Activity save status">
+            {activities.map((a, i) => {
+              const state = syncStateFor(a)
+              return (
+                <span
+                  key={a.id}
+                  title={`${i + 1}. ${a.title || 'Activity'} — ${SYNC_STATE_LABEL[state]}`}
+                  aria-label={`Activity ${i + 1}: ${SYNC_STATE_LABEL[state]}`}
+                  className={`h-2.5 w-2.5 rounded-full ${SYNC_STATE_DOT[state]}`}
+                />
+              )
+            })}
+          </div>
+          {waitingCount > 0 && (
+            <p className="mt-2 text-xs text-amber-700">
+              {waitingCount} waiting to sync
+              {!isOnline && ' — you are offline. Your answers are kept on this device.'}
+            </p>
+          )}
         </Card>
 
+        {rejectedEntries.map((entry) => (
+          <div
+            key={entry.idempotencyKey}
+            className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800"
+          >
+            Activity {entry.activityOrder} could not be saved
+            {entry.lastError ? ` (${entry.lastError})` : ''}.
+            <button
+              type="button"
+              className="block mt-2 text-red-600 underline"
+              onClick={() => redoRejected(entry)}
+            >
+              Redo this activity
+            </button>
+          </div>
+        ))}
+
         {saveError && (
           <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
             {saveError}
@@ -438,7 +579,9 @@ export default function StudentLessonRunner({ lessonId }: Props) {
           <Card className="p-4 sm:p-6 text-center">
             <h2 className="text-lg font-semibold text-slate-800 mb-2">All activities complete</h2>
             <p className="text-slate-600 mb-2">
-              Your progress is saved. Finish the lesson to save your overall score.
+              {waitingCount > 0
+                ? 'Your answers are still syncing. Finish the lesson once they are saved.'
+                : 'Your progress is saved. Finish the lesson to save your overall score.'}
             </p>
             <p className="text-4xl font-extrabold text-purple-700 tabular-nums mb-1">
               {estimatedLessonPercentage}%
@@ -0,0 +1,292 @@
+'use client'
+
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button, Card, LoadingSpinnerModal, ProgressBar } from '@/components/ui'
+import { apiClient } from '@/lib/api'
+import { createIdempotencyKey } from '@/lib/idempotencyKey'
+import {
+  buildPracticeSession,
+  groupMistakes,
+  practiceOutcomes,
+  type MistakeKind,
+  type NotebookMistake,
+  type PracticeSession,
+} from '@/lib/mistakeNotebook'
+import { STUDENT_DASHBOARD_PATH } from '@/lib/studentRoutes'
+import type { StudentLesson } from '@/types/student'
+import type { StudentActivityProps } from './activityProps'
+import StudentActivityRenderer from './StudentActivityRenderer'
+
+/** The grammar and spelling components read lesson fields only for labels; practice has no lesson row. */
+const PRACTICE_LESSON: StudentLesson = {
+  id: 'mistake-practice',
+  lesson_number: 0,
+  topic: 'My mistakes',
+  grammar_focus: {},
+  vocabulary_list: [],
+  active: true,
+  version: 1,
+  created_at: '',
+  updated_at: '',
+}
+
+/** Open mistakes per practice round, most recurring patterns first */
+const PRACTICE_SIZE = 10
+
+const SOURCE_LABELS: Record<NotebookMistake['source'], string> = {
+  speaking: 'Speaking',
+  grammar_error_fix: 'Fix the sentence',
+  grammar_mcq: 'Multiple choice',
+}
+
+type Filter = 'all' | MistakeKind
+
+interface PracticeState {
+  session: PracticeSession
+  index: number
+  outcomes: Map<string, boolean>
+}
+
+/** Personal notebook of speaking corrections and wrong grammar answers, with a re-practice round. */
+export default function StudentMistakeNotebook() {
+  const router = useRouter()
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [mistakes, setMistakes] = useState<NotebookMistake[]>([])
+  const [filter, setFilter] = useState<Filter>('all')
+  const [showResolved, setShowResolved] = useState(false)
+  const [practice, setPractice] = useState<PracticeState | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [lastRound, setLastRound] = useState<{ right: number; total: number } | null>(null)
+  // One key per round so a retried save is not counted twice toward a streak
+  const idempotencyKey = useRef(createIdempotencyKey())
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await apiClient.getMistakes()
+        if (!res.success || !res.data) throw new Error(res.error || 'Could not load your mistakes')
+        setMistakes((res.data as { mistakes: NotebookMistake[] }).mistakes || [])
+      } catch (e) {
+        setError((e as Error).message || 'Could not load your mistakes')
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [])
+
+  const groups = useMemo(
+    () =>
+      groupMistakes(
+        mistakes.filter((m) => (filter === 'all' || m.kind === filter) && (showResolved || !m.resolved_at))
+      ),
+    [mistakes, filter, showResolved]
+  )
+
+  const openMistakes = useMemo(
+    () =>
+      groupMistakes(mistakes.filter((m) => !m.resolved_at && (filter === 'all' || m.kind === filter)))
+        .flatMap((g) => g.mistakes)
+        .slice(0, PRACTICE_SIZE),
+    [mistakes, filter]
+  )
+
+  const startPractice = () => {
+    idempotencyKey.current = createIdempotencyKey()
+    setLastRound(null)
+    setError(null)
+    setPractice({ session: buildPracticeSession(openMistakes), index: 0, outcomes: new Map() })
+  }
+
+  const savePractice = async (outcomes: Map<string, boolean>) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const results = [...outcomes].map(([mistake_id, correct]) => ({ mistake_id, correct }))
+      const res = await apiClient.submitMistakePractice(results, {
+        idempotencyKey: idempotencyKey.current,
+      })
+      if (!res.success || !res.data) throw new Error(res.error || 'Your practice was not saved')
+      setMistakes((res.data as { mistakes: NotebookMistake[] }).mistakes || [])
+      setLastRound({ right: results.filter((r) => r.correct).length, total: results.length })
+      setPractice(null)
+    } catch (e) {
+      setError((e as Error).message || 'Your practice was not saved')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleComplete: StudentActivityProps['onComplete'] = (payload) => {
+    if (!practice) return
+    const activity = practice.session.activities[practice.index]
+    if (!activity) return
+    const outcomes = new Map(practice.outcomes)
+    practiceOutcomes(activity, practice.session.mistakeIds[practice.index] || [], payload.answers).forEach(
+      (correct, id) => outcomes.set(id, correct)
+    )
+    const index = practice.index + 1
+    setPractice({ ...practice, index, outcomes })
+    if (index >= practice.session.activities.length) savePractice(outcomes)
+  }
+
+  if (loading) {
+    return <LoadingSpinnerModal isOpen message="Loading your mistakes..." />
+  }
+
+  const practiceActivities = practice?.session.activities || []
+  const currentActivity = practice ? practiceActivities[practice.index] : undefined
+  const practiceFinished = practice !== null && practice.index >= practiceActivities.length
+  const openCount = mistakes.filter((m) => !m.resolved_at).length
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-sky-50 via-purple-50 to-indigo-100 py-4 px-3 sm:py-8 sm:px-4">
+      <div className="max-w-3xl mx-auto">
+        <div className="mb-6">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => (practice && !practiceFinished ? setPractice(null) : router.push(STUDENT_DASHBOARD_PATH))}
+          >
+            {practice && !practiceFinished ? '← My mistakes' : '← Dashboard'}
+          </Button>
+          <h1 className="text-2xl font-bold text-slate-800 mt-2">My mistakes</h1>
+          <p className="text-slate-600 text-sm mt-1">
+            Corrections from your speaking and wrong answers from grammar games. Get one right twice in a
+            row to tick it off.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+            {error}
+            {practiceFinished && (
+              <button
+                type="button"
+                className="block mt-2 text-red-600 underline"
+                onClick={() => practice && savePractice(practice.outcomes)}
+              >
+                Try saving again
+              </button>
+            )}
+          </div>
+        )}
+
+        {saving && <LoadingSpinnerModal isOpen message="Saving..." />}
+
+        {practice ? (
+          <>
+            <Card className="p-3 sm:p-4 mb-4 sm:mb-6">
+              <p className="text-xs text-slate-500 mb-2">
+                {practiceFinished
+                  ? `${practice.outcomes.size} mistake${practice.outcomes.size === 1 ? '' : 's'} practised`
+                  : `Part ${practice.index + 1} of ${practiceActivities.length}`}
+              </p>
+              <ProgressBar
+                progress={Math.round((Math.min(practice.index, practiceActivities.length) / practiceActivities.length) * 100)}
+              />
+            </Card>
+            {currentActivity && (
+              <StudentActivityRenderer
+                key={currentActivity.id}
+                activity={currentActivity}
+                lesson={PRACTICE_LESSON}
+                activities={practiceActivities}
+                onComplete={handleComplete}
+              />
+            )}
+          </>
+        ) : (
+          <>
+            {lastRound && (
+              <Card className="p-4 mb-4 border-green-200 bg-green-50/50">
+                <p className="text-slate-800 font-medium">
+                  {lastRound.right} of {lastRound.total} right first time.
+                </p>
+                <p className="text-slate-600 text-sm">
+                  {openCount > 0
+                    ? `${openCount} mistake${openCount === 1 ? '' : 's'} still to practise.`
+                    : 'All your mistakes are ticked off — great work!'}
+                </p>
+              </Card>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              {(['all', 'grammar', 'vocabulary'] as Filter[]).map((f) => (
+                <Button key={f} size="sm" variant={filter === f ? 'primary' : 'secondary'} onClick={() => setFilter(f)}>
+                  {f === 'all' ? 'All' : f === 'grammar' ? 'Grammar' : 'Vocabulary'}
+                </Button>
+              ))}
+              <label className="flex items-center gap-2 text-sm text-slate-600 ml-auto">
+                <input
+                  type="checkbox"
+                  checked={showResolved}
+                  onChange={(e) => setShowResolved(e.target.checked)}
+                />
+                Show ticked off
+              </label>
+            </div>
+
+            {openMistakes.length > 0 && (
+              <Card className="p-4 mb-4 flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm text-slate-700">
+                  Practise {openMistakes.length} mistake{openMistakes.length === 1 ? '' : 's'} as fill-the-gap and
+                  fix-the-sentence exercises.
+                </p>
+                <Button onClick={startPractice}>Practise now</Button>
+              </Card>
+            )}
+
+            {groups.length === 0 ? (
+              error ? null : (
+                <Card className="p-6 text-center">
+                  <div className="text-5xl mb-3">✓</div>
+                  <h2 className="text-xl font-bold text-slate-800 mb-2">No mistakes here</h2>
+                  <p className="text-slate-600 text-sm mb-4">
+                    {mistakes.length > 0
+                      ? 'Everything in this list is ticked off.'
+                      : 'Corrections from your speaking and grammar lessons will show up here.'}
+                  </p>
+                  <Button onClick={() => router.push(STUDENT_DASHBOARD_PATH)}>Back to dashboard</Button>
+                </Card>
+              )
+            ) : (
+              <div className="space-y-3">
+                {groups.map((group) => (
+                  <Card key={group.pattern_key} className="p-4">
+                    <div className="flex flex-wrap items-center gap-2 mb-2">
+                      <span className="font-semibold text-slate-800">{group.pattern_key}</span>
+                      <span className="text-xs rounded-full bg-slate-100 text-slate-600 px-2 py-0.5">
+                        {group.kind === 'grammar' ? 'Grammar' : 'Vocabulary'}
+                      </span>
+                      {group.recurring && (
+                        <span className="text-xs rounded-full bg-amber-100 text-amber-800 px-2 py-0.5">
+                          Made {group.occurrences} times
+                        </span>
+                      )}
+                    </div>
+                    <ul className="space-y-2">
+                      {group.mistakes.map((m) => (
+                        <li key={m.id} className={`text-sm ${m.resolved_at ? 'opacity-60' : ''}`}>
+                          <p className="text-red-700 line-through">{m.mistake}</p>
+                          <p className="text-green-700">{m.correction}</p>
+                          <p className="text-xs text-slate-500">
+                            {SOURCE_LABELS[m.source]}
+                            {m.context && m.context !== m.mistake ? ` · ${m.context}` : ''}
+                            {m.resolved_at ? ' · ticked off ✓' : ''}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -373,6 +373,12 @@ export default function StudentSpeakingRecorder({
           <p className="text-sm text-slate-800 mb-2">{feedback.feedback}</p>
         </div>
 
+        {feedback.robotic_voice_warning && (
+          <div className="rounded-lg border border-amber-300 bg-amber-50 p-3">
+            <p className="text-sm text-amber-900">{feedback.robotic_voice_warning}</p>
+          </div>
+        )}
+
         {transcript && (
           <div className="rounded-lg border border-slate-200 bg-slate-50 p-3">
             <p className="text-xs font-semibold text-slate-500 mb-1">What we heard</p>
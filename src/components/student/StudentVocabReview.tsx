@@ -0,0 +1,220 @@
+'use client'
+
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button, Card, LoadingSpinnerModal, ProgressBar } from '@/components/ui'
+import { apiClient } from '@/lib/api'
+import { createIdempotencyKey } from '@/lib/idempotencyKey'
+import { STUDENT_DASHBOARD_PATH } from '@/lib/studentRoutes'
+import { resolveStudentVocabImageUrl } from '@/lib/studentVocabImages'
+import {
+  activityReviewQualities,
+  buildReviewSession,
+  mergeReviewQualities,
+  type ReviewQuality,
+  type VocabReviewCard,
+  type VocabReviewSummary,
+} from '@/lib/vocabReview'
+import type { StudentLesson } from '@/types/student'
+import type { StudentActivityProps } from './activityProps'
+import StudentActivityRenderer from './StudentActivityRenderer'
+
+/** The vocab components read lesson fields only for labels; a review has no lesson row. */
+const REVIEW_LESSON: StudentLesson = {
+  id: 'vocab-review',
+  lesson_number: 0,
+  topic: 'Word review',
+  grammar_focus: {},
+  vocabulary_list: [],
+  active: true,
+  version: 1,
+  created_at: '',
+  updated_at: '',
+}
+
+/** Daily spaced-repetition session over the student's due words, using the lesson vocab games. */
+export default function StudentVocabReview() {
+  const router = useRouter()
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [cards, setCards] = useState<VocabReviewCard[]>([])
+  const [distractors, setDistractors] = useState<string[]>([])
+  const [summary, setSummary] = useState<VocabReviewSummary>({ due: 0, total: 0 })
+  const [index, setIndex] = useState(0)
+  const [results, setResults] = useState<Array<Map<string, ReviewQuality>>>([])
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  // One key per session so a retried save is not counted as a second review
+  const idempotencyKey = useRef(createIdempotencyKey())
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await apiClient.getVocabReview()
+        if (!res.success || !res.data) throw new Error(res.error || 'Could not load your review words')
+        const data = res.data as {
+          cards: VocabReviewCard[]
+          distractors: string[]
+          due: number
+          total: number
+        }
+        setCards(data.cards || [])
+        setDistractors(data.distractors || [])
+        setSummary({ due: data.due ?? 0, total: data.total ?? 0 })
+      } catch (e) {
+        setError((e as Error).message || 'Could not load your review words')
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [])
+
+  const activities = useMemo(
+    () =>
+      buildReviewSession(cards, {
+        distractors,
+        hasPicture: (card) => Boolean(resolveStudentVocabImageUrl(card.english_word, card.image_url)),
+      }),
+    [cards, distractors]
+  )
+
+  const saveReviews = async (sessionResults: Array<Map<string, ReviewQuality>>) => {
+    const dueKeys = new Set(cards.map((c) => c.word_key))
+    const reviews = [...mergeReviewQualities(sessionResults)]
+      .filter(([key]) => dueKeys.has(key))
+      .map(([word_key, quality]) => ({ word_key, quality }))
+    if (!reviews.length) {
+      setSaved(true)
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await apiClient.submitVocabReview(reviews, {
+        idempotencyKey: idempotencyKey.current,
+      })
+      if (!res.success || !res.data) throw new Error(res.error || 'Your review was not saved')
+      const data = res.data as VocabReviewSummary
+      setSummary({ due: data.due ?? 0, total: data.total ?? 0 })
+      setSaved(true)
+    } catch (e) {
+      setError((e as Error).message || 'Your review was not saved')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleComplete: StudentActivityProps['onComplete'] = (payload) => {
+    const activity = activities[index]
+    if (!activity) return
+    const nextResults = [
+      ...results,
+      activityReviewQualities(activity, payload.answers, payload.attempts ?? 1),
+    ]
+    setResults(nextResults)
+    if (index + 1 < activities.length) {
+      setIndex(index + 1)
+      return
+    }
+    setIndex(activities.length)
+    saveReviews(nextResults)
+  }
+
+  const finished = activities.length > 0 && index >= activities.length
+  const currentActivity = activities[index]
+
+  if (loading) {
+    return <LoadingSpinnerModal isOpen message="Loading your words..." />
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-sky-50 via-purple-50 to-indigo-100 py-4 px-3 sm:py-8 sm:px-4">
+      <div className="max-w-3xl mx-auto">
+        <div className="mb-6">
+          <Button variant="ghost" size="sm" onClick={() => router.push(STUDENT_DASHBOARD_PATH)}>
+            ← Dashboard
+          </Button>
+          <h1 className="text-2xl font-bold text-slate-800 mt-2">Review words</h1>
+          <p className="text-slate-600 text-sm mt-1">
+            Words from your lessons come back just before you would forget them.
+          </p>
+        </div>
+
+        {activities.length > 0 && (
+          <Card className="p-3 sm:p-4 mb-4 sm:mb-6">
+            <p className="text-xs text-slate-500 mb-2">
+              {finished
+                ? `${cards.length} word${cards.length === 1 ? '' : 's'} reviewed`
+                : `Game ${index + 1} of ${activities.length} · ${cards.length} word${cards.length === 1 ? '' : 's'}`}
+            </p>
+            <ProgressBar progress={Math.round((Math.min(index, activities.length) / activities.length) * 100)} />
+          </Card>
+        )}
+
+        {error && (
+          <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+            {error}
+            {finished && !saved && (
+              <button
+                type="button"
+                className="block mt-2 text-red-600 underline"
+                onClick={() => saveReviews(results)}
+              >
+                Try saving again
+              </button>
+            )}
+          </div>
+        )}
+
+        {saving && <LoadingSpinnerModal isOpen message="Saving..." />}
+
+        {activities.length === 0 ? (
+          error ? null : (
+            <Card className="p-6 text-center">
+              <div className="text-5xl mb-3">✓</div>
+              <h2 className="text-xl font-bold text-slate-800 mb-2">Nothing to review today</h2>
+              <p className="text-slate-600 text-sm mb-4">
+                {summary.total > 0
+                  ? `All ${summary.total} words in your deck are up to date. Come back tomorrow!`
+                  : 'Words you practise in your lessons will show up here for review.'}
+              </p>
+              <Button onClick={() => router.push(STUDENT_DASHBOARD_PATH)}>Back to dashboard</Button>
+            </Card>
+          )
+        ) : finished ? (
+          saved && (
+            <Card className="p-6 text-center border-green-200 bg-green-50/50">
+              <div className="text-5xl mb-3">✓</div>
+              <h2 className="text-xl font-bold text-slate-800 mb-2">Review complete</h2>
+              <p className="text-slate-600 text-sm mb-4">
+                {summary.due > 0
+                  ? `${summary.due} more word${summary.due === 1 ? '' : 's'} still due — you can review again.`
+                  : 'Great work! Your next words will be ready tomorrow or later.'}
+              </p>
+              <div className="flex flex-wrap justify-center gap-3">
+                {summary.due > 0 && (
+                  <Button variant="secondary" onClick={() => window.location.reload()}>
+                    Review more
+                  </Button>
+                )}
+                <Button onClick={() => router.push(STUDENT_DASHBOARD_PATH)}>Back to dashboard</Button>
+              </div>
+            </Card>
+          )
+        ) : (
+          currentActivity && (
+            <StudentActivityRenderer
+              key={currentActivity.id}
+              activity={currentActivity}
+              lesson={REVIEW_LESSON}
+              activities={activities}
+              onComplete={handleComplete}
+            />
+          )
+        )}
+      </div>
+    </div>
+  )
+}
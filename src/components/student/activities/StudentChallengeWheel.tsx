@@ -6,11 +6,12 @@ import type { StudentActivityProps } from '../activityProps'
 import StudentSpeakingRecorder, { type SpeechFeedbackPayload } from '../StudentSpeakingRecorder'
 import SpinWheel from './SpinWheel'
 import { challengeWheelTotals } from '@/lib/studentLessonScoring'
+import { activityContent } from '@/lib/studentActivityContent'
 
 export default function StudentChallengeWheel({ activity, lesson, onComplete }: StudentActivityProps) {
   const prompts = useMemo(
-    () => ((activity.content?.prompts as string[]) || []).filter(Boolean),
-    [activity.content?.prompts]
+    () => (activityContent<'student_challenge_wheel'>(activity).prompts || []).filter(Boolean),
+    [activity]
   )
   const [topic, setTopic] = useState<string | null>(null)
   const [topicIndex, setTopicIndex] = useState<number | null>(null)
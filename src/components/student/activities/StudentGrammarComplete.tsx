@@ -3,6 +3,7 @@
 import React, { useMemo, useState } from 'react'
 import { Button, Card, Select } from '@/components/ui'
 import type { StudentActivityProps } from '../activityProps'
+import { activityContent } from '@/lib/studentActivityContent'
 
 const DEFAULT_APPS = ['Instagram', 'TikTok', 'Facebook', 'YouTube']
 const DEFAULT_REASONS = [
@@ -13,21 +14,18 @@ const DEFAULT_REASONS = [
 ]
 
 export default function StudentGrammarComplete({ activity, onComplete }: StudentActivityProps) {
-  const content = activity.content || {}
-  const apps = (content.apps as string[])?.length ? (content.apps as string[]) : DEFAULT_APPS
-  const reasons = (content.reasons as string[])?.length
-    ? (content.reasons as string[])
-    : DEFAULT_REASONS
-  const template =
-    (content.template as string) || 'My favorite app is {app} because {reason}.'
+  const content = activityContent<'student_grammar_complete'>(activity)
+  const apps = content.apps?.length ? content.apps : DEFAULT_APPS
+  const reasons = content.reasons?.length ? content.reasons : DEFAULT_REASONS
+  const template = content.template || 'My favorite app is {app} because {reason}.'
   const slot1Label =
-    (content.slot1_label as string) ||
+    content.slot1_label ||
     (template.includes('{app}') && template.includes('think') ? 'Choose content' : 'Choose an app')
   const slot2Label =
-    (content.slot2_label as string) ||
+    content.slot2_label ||
     (template.includes('{reason}') && template.includes('think') ? 'Choose an adjective' : 'Choose a reason')
   const promptLine =
-    (content.prompt_line as string) ||
+    content.prompt_line ||
     template
       .replace('{app}', '______')
       .replace('{reason}', '______')
@@ -3,6 +3,7 @@
 import React, { useState } from 'react'
 import { Button, Card, Input } from '@/components/ui'
 import type { StudentActivityProps } from '../activityProps'
+import type { RecordedAnswerMistake } from '@/lib/mistakeNotebook'
 
 export default function StudentGrammarErrorFix({ activity, onComplete }: StudentActivityProps) {
   const items = activity.grammar_items || []
@@ -10,6 +11,8 @@ export default function StudentGrammarErrorFix({ activity, onComplete }: Student
   const [value, setValue] = useState('')
   const [correct, setCorrect] = useState(0)
   const [error, setError] = useState<string | null>(null)
+  /** First wrong answer per item, for the mistake notebook */
+  const [mistakes, setMistakes] = useState<RecordedAnswerMistake[]>([])
 
   const current = items[index]
   if (!current) return null
@@ -26,7 +29,7 @@ export default function StudentGrammarErrorFix({ activity, onComplete }: Student
     if (normalize(value) === normalize(current.correct_sentence || '')) {
       const next = correct + 1
       if (index + 1 >= items.length) {
-        onComplete({ score: items.length, maxScore: items.length, attempts: 1 })
+        onComplete({ score: items.length, maxScore: items.length, attempts: 1, answers: { mistakes } })
       } else {
         setCorrect(next)
         setIndex((i) => i + 1)
@@ -34,6 +37,17 @@ export default function StudentGrammarErrorFix({ activity, onComplete }: Student
         setError(null)
       }
     } else {
+      if (!mistakes.some((m) => m.item_id === current.id)) {
+        setMistakes((prev) => [
+          ...prev,
+          {
+            item_id: current.id,
+            prompt: current.original_sentence || '',
+            answer: value.trim(),
+            correct: current.correct_sentence || '',
+          },
+        ])
+      }
       setError('Not quite — check your sentence.')
     }
   }
@@ -3,6 +3,7 @@
 import React, { useMemo, useState } from 'react'
 import { Button, Card } from '@/components/ui'
 import type { StudentActivityProps } from '../activityProps'
+import type { RecordedAnswerMistake } from '@/lib/mistakeNotebook'
 
 const BLANK_LABEL = '(blank)'
 
@@ -34,6 +35,8 @@ export default function StudentGrammarMcq({ activity, onComplete }: StudentActiv
   const [selected, setSelected] = useState<string | null>(null)
   const [correct, setCorrect] = useState(0)
   const [error, setError] = useState<string | null>(null)
+  /** First wrong answer per item, for the mistake notebook */
+  const [mistakes, setMistakes] = useState<RecordedAnswerMistake[]>([])
 
   const current = items[index]
   if (!current) return null
@@ -56,7 +59,7 @@ export default function StudentGrammarMcq({ activity, onComplete }: StudentActiv
           score: items.length,
           maxScore: items.length,
           attempts: 1,
-          answers: { completed: items.length },
+          answers: { completed: items.length, mistakes },
         })
       } else {
         setCorrect(next)
@@ -65,6 +68,17 @@ export default function StudentGrammarMcq({ activity, onComplete }: StudentActiv
         setError(null)
       }
     } else {
+      if (!mistakes.some((m) => m.item_id === current.id)) {
+        setMistakes((prev) => [
+          ...prev,
+          {
+            item_id: current.id,
+            prompt: current.original_sentence || '',
+            answer,
+            correct: expected,
+          },
+        ])
+      }
       setError('Try again.')
     }
   }
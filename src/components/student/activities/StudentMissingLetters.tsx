@@ -3,8 +3,7 @@
 import React, { useState } from 'react'
 import { Button, Card, Input } from '@/components/ui'
 import type { StudentActivityProps } from '../activityProps'
-
-type SentenceItem = { template: string; answer: string }
+import { activityContent } from '@/lib/studentActivityContent'
 
 /** Case-insensitive; ignores extra spaces and punctuation (., !, ?, etc.). */
 export function normalizeSpellingAnswer(s: string): string {
@@ -23,9 +22,10 @@ function answersMatch(typed: string, expected: string): boolean {
 }
 
 export default function StudentMissingLetters({ activity, onComplete }: StudentActivityProps) {
-  const sentences = (activity.content?.sentences as SentenceItem[]) || []
+  const sentences = activityContent<'student_vocab_missing_letters'>(activity).sentences || []
   const [index, setIndex] = useState(0)
   const [inputs, setInputs] = useState<Record<number, string>>({})
+  const [missed, setMissed] = useState<Set<string>>(new Set())
   const [error, setError] = useState<string | null>(null)
 
   const current = sentences[index]
@@ -38,6 +38,7 @@ export default function StudentMissingLetters({ activity, onComplete }: StudentA
 
     const typed = inputs[index] || ''
     if (!answersMatch(typed, current.answer)) {
+      setMissed((prev) => new Set(prev).add(current.answer))
       setError('Not quite — check the spelling and try again.')
       return
     }
@@ -47,7 +48,7 @@ export default function StudentMissingLetters({ activity, onComplete }: StudentA
         score: total,
         maxScore: total,
         attempts: 1,
-        answers: { inputs },
+        answers: { inputs, missed_words: [...missed] },
       })
       return
     }
@@ -29,6 +29,8 @@ export default function StudentPictureWordMatch({ activity, onComplete }: Studen
   const [dropTargetWordId, setDropTargetWordId] = useState<string | null>(null)
   const [dropTargetImageId, setDropTargetImageId] = useState<string | null>(null)
   const [matches, setMatches] = useState<Record<string, string>>({})
+  /** Words of pictures matched wrongly at least once (graded for the review deck) */
+  const [missed, setMissed] = useState<Set<string>>(new Set())
   const [error, setError] = useState<string | null>(null)
 
   const shuffledWords = useMemo(() => {
@@ -62,6 +64,7 @@ export default function StudentPictureWordMatch({ activity, onComplete }: Studen
       return true
     }
 
+    setMissed((prev) => new Set(prev).add(imageItem.english_word))
     setError('Try again — match the picture to the correct word.')
     clearSelection()
     clearDragState()
@@ -328,7 +331,7 @@ export default function StudentPictureWordMatch({ activity, onComplete }: Studen
           score: pairs.length,
           maxScore: pairs.length,
           attempts: 1,
-          answers: { matches },
+          answers: { matches, missed_words: [...missed] },
         })
       }>
         Continue
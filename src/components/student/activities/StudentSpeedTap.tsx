@@ -3,25 +3,13 @@
 import React, { useMemo, useState } from 'react'
 import { Button, Card } from '@/components/ui'
 import type { StudentActivityProps } from '../activityProps'
+import { activityContent } from '@/lib/studentActivityContent'
 
 function readStringArray(value: unknown): string[] {
   if (!Array.isArray(value)) return []
   return value.filter((w): w is string => typeof w === 'string' && w.length > 0)
 }
 
-function parseActivityContent(content: unknown): Record<string, unknown> {
-  if (!content) return {}
-  if (typeof content === 'string') {
-    try {
-      const parsed = JSON.parse(content)
-      return typeof parsed === 'object' && parsed !== null ? (parsed as Record<string, unknown>) : {}
-    } catch {
-      return {}
-    }
-  }
-  return typeof content === 'object' ? (content as Record<string, unknown>) : {}
-}
-
 function isSelectionCorrect(
   selected: Set<string>,
   targets: string[],
@@ -42,7 +30,7 @@ function targetWordLabel(title?: string | null, description?: string | null): st
 }
 
 export default function StudentSpeedTap({ activity, onComplete }: StudentActivityProps) {
-  const content = useMemo(() => parseActivityContent(activity.content), [activity.content])
+  const content = useMemo(() => activityContent<'student_vocab_speed_tap'>(activity), [activity])
 
   const targets = useMemo(() => readStringArray(content.targets), [content.targets])
   const distractors = useMemo(() => readStringArray(content.distractors), [content.distractors])
@@ -63,6 +51,8 @@ export default function StudentSpeedTap({ activity, onComplete }: StudentActivit
   const [selected, setSelected] = useState<Set<string>>(new Set())
   const [error, setError] = useState<string | null>(null)
   const [attempts, setAttempts] = useState(0)
+  /** Targets left out or distractors tapped in a failed attempt */
+  const [missed, setMissed] = useState<Set<string>>(new Set())
   const [paused, setPaused] = useState(false)
   const [trackKey, setTrackKey] = useState(0)
 
@@ -95,13 +85,19 @@ export default function StudentSpeedTap({ activity, onComplete }: StudentActivit
         score: targets.length,
         maxScore: targets.length,
         attempts: attempts + 1,
-        answers: { selected: [...selected] },
+        answers: { selected: [...selected], missed_words: [...missed] },
         feedback: { passed: true },
       })
       return
     }
 
     setAttempts((n) => n + 1)
+    setMissed((prev) => {
+      const next = new Set(prev)
+      for (const t of targets) if (!selected.has(t)) next.add(t)
+      for (const d of distractors) if (selected.has(d)) next.add(d)
+      return next
+    })
     setError(
       `Select every ${wordLabel.slice(0, -1)}, and do not select any other words. Try again!`
     )
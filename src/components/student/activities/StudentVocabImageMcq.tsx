@@ -37,6 +37,7 @@ export default function StudentVocabImageMcq({ activity, onComplete }: StudentAc
   const [index, setIndex] = useState(0)
   const [selected, setSelected] = useState('')
   const [correctCount, setCorrectCount] = useState(0)
+  const [missed, setMissed] = useState<Set<string>>(new Set())
   const [error, setError] = useState<string | null>(null)
 
   const current = items[index]
@@ -60,7 +61,7 @@ export default function StudentVocabImageMcq({ activity, onComplete }: StudentAc
           score: items.length,
           maxScore: items.length,
           attempts: 1,
-          answers: { correct: items.length, total: items.length },
+          answers: { correct: items.length, total: items.length, missed_words: [...missed] },
         })
       } else {
         setCorrectCount(nextCorrect)
@@ -69,6 +70,7 @@ export default function StudentVocabImageMcq({ activity, onComplete }: StudentAc
         setError(null)
       }
     } else {
+      setMissed((prev) => new Set(prev).add(current.correct))
       setError('Try again — pick the word that matches the picture.')
     }
   }
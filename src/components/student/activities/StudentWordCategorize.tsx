@@ -44,6 +44,7 @@ export default function StudentWordCategorize({ activity, onComplete }: StudentA
   const [dropTarget, setDropTarget] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [resetting, setResetting] = useState(false)
+  const [missed, setMissed] = useState<Set<string>>(new Set())
 
   useEffect(() => {
     if (!error) return
@@ -104,6 +105,11 @@ export default function StudentWordCategorize({ activity, onComplete }: StudentA
       if (assignments[w.word] === w.category) correct++
     })
     if (correct < words.length) {
+      setMissed((prev) => {
+        const next = new Set(prev)
+        for (const w of words) if (assignments[w.word] !== w.category) next.add(w.word)
+        return next
+      })
       setError(`${correct}/${words.length} correct. Keep trying!`)
       return
     }
@@ -111,7 +117,7 @@ export default function StudentWordCategorize({ activity, onComplete }: StudentA
       score: words.length,
       maxScore: words.length,
       attempts: 1,
-      answers: { assignments },
+      answers: { assignments, missed_words: [...missed] },
     })
   }
 
@@ -41,14 +41,14 @@ const TableBody: React.FC<TableBodyProps> = ({ children, className = '' }) => {
   )
 }
 
-interface TableRowProps {
+interface TableRowProps extends React.HTMLAttributes<HTMLTableRowElement> {
   children: React.ReactNode
   className?: string
 }
 
-const TableRow: React.FC<TableRowProps> = ({ children, className = '' }) => {
+const TableRow: React.FC<TableRowProps> = ({ children, className = '', ...props }) => {
   return (
-    <tr className={`border-b border-neutral-200 hover:bg-neutral-50 ${className}`}>
+    <tr className={`border-b border-neutral-200 hover:bg-neutral-50 ${className}`} {...props}>
       {children}
     </tr>
   )
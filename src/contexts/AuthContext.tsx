@@ -10,6 +10,8 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<void>;
   logout: () => void;
   refreshAuth: () => Promise<void>;
+  /** Why this device was signed out (session cap or "My devices"); shown by LoginModal */
+  signedOutNotice: string | null;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -30,6 +32,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [signedOutNotice, setSignedOutNotice] = useState<string | null>(null);
 
   useEffect(() => {
     // Check for existing session on mount
@@ -45,9 +48,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       if (response.success && response.data?.user) {
         setUser(response.data.user);
         setIsAuthenticated(true);
+        setSignedOutNotice(null);
       } else {
         setUser(null);
         setIsAuthenticated(false);
+        if (response.code === 'session_signed_out' && response.error) {
+          setSignedOutNotice(response.error);
+        }
       }
     } catch (error) {
       console.error('Error checking auth status:', error);
@@ -99,7 +106,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     isLoading,
     login,
     logout,
-    refreshAuth: checkAuthStatus
+    refreshAuth: checkAuthStatus,
+    signedOutNotice
   };
 
   return (
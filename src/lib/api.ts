@@ -1,5 +1,5 @@
 // API client for TutorCat authentication and data operations
-import { User } from '@/types'
+import { User, UserSession } from '@/types'
 
 // Get API base URL
 // In production, use current origin (works for both netlify.app and custom domain)
@@ -14,9 +14,12 @@ interface ApiResponse<T = any> {
   success: boolean
   data?: T
   error?: string
+  /** Machine-readable error code from the function body, e.g. 'session_signed_out' */
+  code?: string
   message?: string
   rateLimited?: boolean
   retryAfter?: number
+  status?: number
 }
 
 class ApiClient {
@@ -65,6 +68,7 @@ class ApiClient {
           error: data.error || 'Too many attempts. Please wait before trying again.',
           rateLimited: true,
           retryAfter: data.retryAfter,
+          status: response.status,
         }
       }
 
@@ -98,6 +102,7 @@ class ApiClient {
         return {
           success: false,
           error: 'Admin session expired. Logging out...',
+          status: response.status,
         }
       }
 
@@ -105,6 +110,8 @@ class ApiClient {
         return {
           success: false,
           error: data.error || `Request failed (${response.status})`,
+          code: typeof data.code === 'string' ? data.code : undefined,
+          status: response.status,
         }
       }
 
@@ -113,6 +120,7 @@ class ApiClient {
           success: false,
           error: data.error || data.message || 'Request failed',
           data: data as T,
+          status: response.status,
         }
       }
 
@@ -182,6 +190,24 @@ class ApiClient {
     })
   }
 
+  async getSessions(): Promise<ApiResponse<{ sessions: UserSession[]; session_cap: number }>> {
+    return this.request('/auth-sessions', { method: 'GET' })
+  }
+
+  async signOutSession(sessionId: string): Promise<ApiResponse<{ sessions: UserSession[] }>> {
+    return this.request('/auth-sessions', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'sign_out', session_id: sessionId }),
+    })
+  }
+
+  async signOutEverywhere(): Promise<ApiResponse<{ signed_out: number }>> {
+    return this.request('/auth-sessions', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'sign_out_everywhere' }),
+    })
+  }
+
   // Lesson methods
   async getLesson(lessonId: string): Promise<ApiResponse<{ lesson: any }>> {
     return this.request(`/get-lesson?lessonId=${lessonId}`, {
@@ -229,9 +255,10 @@ class ApiClient {
   }
 
   // Submit complete lesson results
-  async submitLessonResults(data: any): Promise<ApiResponse> {
+  async submitLessonResults(data: any, options: { idempotencyKey?: string } = {}): Promise<ApiResponse> {
     return this.request('/.netlify/functions/submit-lesson-results', {
       method: 'POST',
+      headers: options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : undefined,
       body: JSON.stringify(data),
     })
   }
@@ -258,20 +285,58 @@ class ApiClient {
     })
   }
 
-  async submitStudentLessonActivity(payload: Record<string, unknown>): Promise<ApiResponse> {
+  async submitStudentLessonActivity(
+    payload: Record<string, unknown>,
+    options: { idempotencyKey?: string } = {}
+  ): Promise<ApiResponse> {
     return this.request('/submit-student-lesson-activity', {
       method: 'POST',
+      headers: options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : undefined,
       body: JSON.stringify(payload),
     })
   }
 
-  async finalizeStudentLesson(studentLessonId: string): Promise<ApiResponse> {
+  async finalizeStudentLesson(
+    studentLessonId: string,
+    options: { idempotencyKey?: string } = {}
+  ): Promise<ApiResponse> {
     return this.request('/finalize-student-lesson', {
       method: 'POST',
+      headers: options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : undefined,
       body: JSON.stringify({ studentLessonId }),
     })
   }
 
+  async getVocabReview(): Promise<ApiResponse> {
+    return this.request('/student-vocab-review', { method: 'GET' })
+  }
+
+  async submitVocabReview(
+    reviews: Array<{ word_key: string; quality: number }>,
+    options: { idempotencyKey?: string } = {}
+  ): Promise<ApiResponse> {
+    return this.request('/student-vocab-review', {
+      method: 'POST',
+      headers: options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : undefined,
+      body: JSON.stringify({ reviews }),
+    })
+  }
+
+  async getMistakes(): Promise<ApiResponse> {
+    return this.request('/student-mistakes', { method: 'GET' })
+  }
+
+  async submitMistakePractice(
+    results: Array<{ mistake_id: string; correct: boolean }>,
+    options: { idempotencyKey?: string } = {}
+  ): Promise<ApiResponse> {
+    return this.request('/student-mistakes', {
+      method: 'POST',
+      headers: options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : undefined,
+      body: JSON.stringify({ results }),
+    })
+  }
+
   async getLessonsByLevel(level: string): Promise<ApiResponse> {
     return this.request(`/get-lessons-by-level?level=${level}`, {
       method: 'GET',
@@ -4,6 +4,7 @@ import type { User } from '@/types'
 /** Post-login or role-based home URL (mirrors admin → /admin/dashboard). */
 export function getHomePathForRole(role: string | undefined | null): string {
   if (role === 'admin') return '/admin/dashboard'
+  if (role === 'teacher') return '/admin/classes'
   if (role === 'student') return STUDENT_DASHBOARD_PATH
   return '/dashboard'
 }
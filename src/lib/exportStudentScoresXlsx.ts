@@ -40,23 +40,36 @@ export function buildStudentScoreSheetRows(
   return [header, ...rows]
 }
 
+export type ExportStudentClass = {
+  name: string
+  students: ExportStudentRow[]
+}
+
+/** Excel sheet names: max 31 chars, no / \\ ? * [ ] : (class "1/15" → sheet "1_15"). */
+export function classSheetName(name: string, used: Set<string> = new Set()): string {
+  const base = (name.replace(/[\\/?*[\]:]/g, '_').trim() || 'Class').slice(0, 31)
+  let candidate = base
+  for (let i = 2; used.has(candidate); i++) {
+    const suffix = ` (${i})`
+    candidate = `${base.slice(0, 31 - suffix.length)}${suffix}`
+  }
+  used.add(candidate)
+  return candidate
+}
+
+/** One sheet per class, in the order given. */
 export function exportStudentScoresWorkbook(opts: {
-  class115: ExportStudentRow[]
-  class116: ExportStudentRow[]
+  classes: ExportStudentClass[]
   lessonNumbers: number[]
   filename?: string
 }): void {
   const workbook = XLSX.utils.book_new()
+  const usedNames = new Set<string>()
 
-  const sheet115 = XLSX.utils.aoa_to_sheet(
-    buildStudentScoreSheetRows(opts.class115, opts.lessonNumbers)
-  )
-  const sheet116 = XLSX.utils.aoa_to_sheet(
-    buildStudentScoreSheetRows(opts.class116, opts.lessonNumbers)
-  )
-
-  XLSX.utils.book_append_sheet(workbook, sheet115, '1_15')
-  XLSX.utils.book_append_sheet(workbook, sheet116, '1_16')
+  for (const cls of opts.classes) {
+    const sheet = XLSX.utils.aoa_to_sheet(buildStudentScoreSheetRows(cls.students, opts.lessonNumbers))
+    XLSX.utils.book_append_sheet(workbook, sheet, classSheetName(cls.name, usedNames))
+  }
 
   const filename =
     opts.filename || `student-scores-${new Date().toISOString().slice(0, 10)}.xlsx`
@@ -0,0 +1,10 @@
+/**
+ * Key for the `Idempotency-Key` header on submit/finalize requests.
+ * Generate once per logical request and reuse it for every retry of that request.
+ */
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`
+}
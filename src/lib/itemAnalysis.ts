@@ -0,0 +1,47 @@
+/** Client shapes for admin-evaluation ?item_analysis=1 (computed in functions/lib/item-analysis.ts). */
+
+export type ItemFlag =
+  | 'too_easy'
+  | 'too_hard'
+  | 'low_discrimination'
+  | 'negative_discrimination'
+  | 'distractor_beats_key'
+  | 'inverted'
+
+export type ItemReport = {
+  question_id: string
+  question_type: string
+  prompt: string
+  level: string | null
+  responses: number
+  difficulty: number | null
+  discrimination: number | null
+  distractors: Array<{ option: string; count: number; rate: number; is_key: boolean }> | null
+  level_rates: Array<{ level: string; responses: number; difficulty: number }>
+  inverted: boolean
+  flags: ItemFlag[]
+}
+
+export type ItemAnalysisResponse = {
+  success: boolean
+  test_id: string
+  results_analyzed: number
+  thresholds: { minResponses: number; tooEasy: number; tooHard: number; lowDiscrimination: number }
+  items: ItemReport[]
+}
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  too_easy: 'Too easy',
+  too_hard: 'Too hard',
+  low_discrimination: 'Low discrimination',
+  negative_discrimination: 'Negative discrimination',
+  distractor_beats_key: 'Distractor beats key',
+  inverted: 'Inverted by level',
+}
+
+/** Flags that usually mean the key or wording is wrong, not just the difficulty */
+export const ITEM_FLAG_SEVERE: ItemFlag[] = ['negative_discrimination', 'distractor_beats_key', 'inverted']
+
+export function itemAnalysisPath(testId: string, questionId?: string): string {
+  return `/admin/content/evaluation/${encodeURIComponent(testId)}/analysis${questionId ? `#item-${questionId}` : ''}`
+}
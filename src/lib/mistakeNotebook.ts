@@ -0,0 +1,374 @@
+/**
+ * Personal mistake notebook: mistakes pulled from student activity results, grouped into
+ * recurring patterns and turned back into practice items.
+ *
+ * Sources are the AI speaking feedback (grammar_corrections / vocabulary_corrections of each
+ * SpeechFeedbackPayload kept in a result's feedback) and the first wrong answer per item of the
+ * grammar error-fix and MCQ activities (answers.mistakes). Shared by the student notebook page,
+ * the teacher class view and the Netlify functions (student-mistakes, admin-classes), so keep
+ * this module free of runtime imports and path aliases.
+ */
+
+import type { StudentGrammarItem, StudentLessonActivity } from '../types/student'
+
+export type MistakeKind = 'grammar' | 'vocabulary'
+export type MistakeSource = 'speaking' | 'grammar_error_fix' | 'grammar_mcq'
+
+/** One mistake as read from an activity result */
+export interface MistakeEntry {
+  source: MistakeSource
+  kind: MistakeKind
+  mistake: string
+  correction: string
+  /** Prompt or exercise sentence the mistake was made on */
+  context: string | null
+}
+
+/** A wrong answer as the grammar components record it in answers.mistakes */
+export interface RecordedAnswerMistake {
+  item_id?: string
+  prompt: string
+  answer: string
+  correct: string
+}
+
+/** A student_mistakes row as student-mistakes returns it */
+export interface NotebookMistake {
+  id: string
+  source: MistakeSource
+  kind: MistakeKind
+  mistake: string
+  correction: string
+  context: string | null
+  pattern_key: string
+  occurrences: number
+  practice_attempts: number
+  practice_correct: number
+  first_seen_at: string
+  last_seen_at: string
+  resolved_at: string | null
+}
+
+export interface MistakeGroup {
+  pattern_key: string
+  kind: MistakeKind
+  /** Occurrences summed over the group's mistakes */
+  occurrences: number
+  /** Seen more than once, in one sentence or across several */
+  recurring: boolean
+  mistakes: NotebookMistake[]
+}
+
+export function normalizeMistakeText(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/\s+/g, ' ')
+    .replace(/[.!?,;:]+$/g, '')
+    .trim()
+}
+
+/** Identifies one mistake per student: the same wrong sentence with the same correction */
+export function mistakeKey(mistake: string, correction: string): string {
+  return `${normalizeMistakeText(mistake)} → ${normalizeMistakeText(correction)}`
+}
+
+function words(text: string): string[] {
+  return text.trim().split(/\s+/).filter(Boolean)
+}
+
+function wordKey(word: string): string {
+  return word.toLowerCase().replace(/[’‘]/g, "'").replace(/^[^a-z0-9']+|[^a-z0-9']+$/g, '')
+}
+
+/** Indices of the words of a and b that are outside their longest common subsequence. */
+function wordDiff(a: string[], b: string[]): { removed: number[]; added: number[] } {
+  const ak = a.map(wordKey)
+  const bk = b.map(wordKey)
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = ak[i] === bk[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+  const removed: number[] = []
+  const added: number[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (ak[i] === bk[j]) {
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      removed.push(i++)
+    } else {
+      added.push(j++)
+    }
+  }
+  while (i < a.length) removed.push(i++)
+  while (j < b.length) added.push(j++)
+  return { removed, added }
+}
+
+/**
+ * The words that changed, e.g. "I goes to school" → "I go to school" is "goes → go". Mistakes
+ * with the same pattern in different sentences are one recurring error. Corrections that only
+ * change case or punctuation fall back to the whole mistake key.
+ */
+export function mistakePattern(mistake: string, correction: string): string {
+  const a = words(mistake)
+  const b = words(correction)
+  const { removed, added } = wordDiff(a, b)
+  const from = removed.map((i) => wordKey(a[i])).join(' ')
+  const to = added.map((i) => wordKey(b[i])).join(' ')
+  if (!from && !to) return mistakeKey(mistake, correction)
+  return `${from || '∅'} → ${to || '∅'}`
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function parseJson(value: unknown): unknown {
+  if (typeof value !== 'string') return value
+  try {
+    return JSON.parse(value)
+  } catch {
+    return null
+  }
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+function corrections(value: unknown): Array<{ mistake: string; correction: string }> {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter(isPlainObject)
+    .map((c) => ({ mistake: text(c.mistake), correction: text(c.correction) }))
+    .filter((c) => c.mistake && c.correction && normalizeMistakeText(c.mistake) !== normalizeMistakeText(c.correction))
+}
+
+function speechPayloads(feedback: unknown): Array<{ payload: Record<string, unknown>; index: number | null }> {
+  if (!isPlainObject(feedback) && !Array.isArray(feedback)) return []
+  if (isPlainObject(feedback) && ('grammar_corrections' in feedback || 'vocabulary_corrections' in feedback)) {
+    return [{ payload: feedback, index: null }]
+  }
+  // Multi-prompt activities keep one payload per prompt (Record<number, SpeechFeedbackPayload>)
+  const entries = Array.isArray(feedback) ? feedback.map((v, i) => [String(i), v] as const) : Object.entries(feedback)
+  return entries
+    .filter(([, v]) => isPlainObject(v) && ('grammar_corrections' in v || 'vocabulary_corrections' in v))
+    .map(([k, v]) => ({ payload: v as Record<string, unknown>, index: /^\d+$/.test(k) ? Number(k) : null }))
+}
+
+function promptAt(answers: Record<string, unknown>, index: number | null): string | null {
+  if (index !== null && Array.isArray(answers.prompts)) {
+    const p = answers.prompts[index]
+    const prompt = isPlainObject(p) ? text(p.prompt) : text(p)
+    if (prompt) return prompt
+  }
+  return text(answers.topic) || null
+}
+
+/** Puts the chosen option into an MCQ prompt ("I ___ games." + "plays" → "I plays games."). */
+export function fillBlank(prompt: string, answer: string): string {
+  return prompt.replace(/_{2,}/, answer).replace(/\s+/g, ' ').replace(/\s+([.!?,;:])/g, '$1').trim()
+}
+
+/** Mistakes recorded in one activity result, in the order they were made. */
+export function extractResultMistakes(result: {
+  activity_type: string
+  answers?: unknown
+  feedback?: unknown
+}): MistakeEntry[] {
+  const answers = parseJson(result.answers)
+  const answerObject = isPlainObject(answers) ? answers : {}
+  const entries: MistakeEntry[] = []
+
+  for (const { payload, index } of speechPayloads(parseJson(result.feedback))) {
+    const context = promptAt(answerObject, index)
+    for (const c of corrections(payload.grammar_corrections)) {
+      entries.push({ source: 'speaking', kind: 'grammar', ...c, context })
+    }
+    for (const c of corrections(payload.vocabulary_corrections)) {
+      entries.push({ source: 'speaking', kind: 'vocabulary', ...c, context })
+    }
+  }
+
+  if (result.activity_type === 'student_grammar_error_fix' || result.activity_type === 'student_grammar_mcq') {
+    const mcq = result.activity_type === 'student_grammar_mcq'
+    for (const m of Array.isArray(answerObject.mistakes) ? answerObject.mistakes.filter(isPlainObject) : []) {
+      const prompt = text(m.prompt)
+      const answer = typeof m.answer === 'string' ? m.answer : ''
+      const correct = typeof m.correct === 'string' ? m.correct : ''
+      const mistake = mcq ? fillBlank(prompt, answer) : answer.trim()
+      const correction = mcq ? fillBlank(prompt, correct) : correct.trim()
+      if (!mistake || !correction || normalizeMistakeText(mistake) === normalizeMistakeText(correction)) continue
+      entries.push({
+        source: mcq ? 'grammar_mcq' : 'grammar_error_fix',
+        kind: 'grammar',
+        mistake,
+        correction,
+        context: prompt || null,
+      })
+    }
+  }
+
+  return entries
+}
+
+/** Groups by pattern, most frequent first; open mistakes sort ahead of resolved ones. */
+export function groupMistakes(mistakes: NotebookMistake[]): MistakeGroup[] {
+  const groups = new Map<string, MistakeGroup>()
+  for (const m of mistakes) {
+    const group = groups.get(m.pattern_key) || {
+      pattern_key: m.pattern_key,
+      kind: m.kind,
+      occurrences: 0,
+      recurring: false,
+      mistakes: [],
+    }
+    group.occurrences += m.occurrences
+    group.mistakes.push(m)
+    group.recurring = group.occurrences > 1
+    groups.set(m.pattern_key, group)
+  }
+  const open = (g: MistakeGroup) => g.mistakes.some((m) => !m.resolved_at)
+  return [...groups.values()]
+    .map((g) => ({ ...g, mistakes: [...g.mistakes].sort((a, b) => b.last_seen_at.localeCompare(a.last_seen_at)) }))
+    .sort(
+      (a, b) =>
+        Number(open(b)) - Number(open(a)) ||
+        b.occurrences - a.occurrences ||
+        a.pattern_key.localeCompare(b.pattern_key)
+    )
+}
+
+export type PracticeItem =
+  | { mode: 'fill_blank'; mistake_id: string; template: string; answer: string }
+  | { mode: 'error_fix'; mistake_id: string; original: string; correct: string }
+
+const MAX_BLANK_WORDS = 3
+
+/**
+ * Fill-blank when the correction changes one short run of words (the run is blanked and the
+ * wrong words shown as a hint), error-fix (rewrite the whole sentence) otherwise.
+ */
+export function practiceItem(m: Pick<NotebookMistake, 'id' | 'mistake' | 'correction'>): PracticeItem {
+  const a = words(m.mistake)
+  const b = words(m.correction)
+  const { removed, added } = wordDiff(a, b)
+  const contiguous = added.length > 0 && added[added.length - 1] - added[0] + 1 === added.length
+  if (b.length > 1 && contiguous && added.length <= MAX_BLANK_WORDS && added.length < b.length) {
+    const first = added[0]
+    const last = added[added.length - 1]
+    const answer = added.map((i) => b[i]).join(' ').replace(/[.!?,;:]+$/g, '')
+    const trailing = b[last].match(/[.!?,;:]+$/)?.[0] ?? ''
+    const blanked = [...b.slice(0, first), `___${trailing}`, ...b.slice(last + 1)].join(' ')
+    const wrong = removed.map((i) => a[i]).join(' ').replace(/[.!?,;:]+$/g, '')
+    return {
+      mode: 'fill_blank',
+      mistake_id: m.id,
+      template: wrong ? `${blanked} (not “${wrong}”)` : blanked,
+      answer,
+    }
+  }
+  return { mode: 'error_fix', mistake_id: m.id, original: m.mistake, correct: m.correction }
+}
+
+export interface PracticeSession {
+  activities: StudentLessonActivity[]
+  /** Mistake ids per activity, in item order */
+  mistakeIds: string[][]
+}
+
+const PRACTICE_LESSON_ID = 'mistake-practice'
+
+/** Missing-letters style fill-blanks first, then error-fix sentences, as lesson activities. */
+export function buildPracticeSession(mistakes: NotebookMistake[]): PracticeSession {
+  const items = mistakes.map(practiceItem)
+  const blanks = items.filter((i): i is Extract<PracticeItem, { mode: 'fill_blank' }> => i.mode === 'fill_blank')
+  const fixes = items.filter((i): i is Extract<PracticeItem, { mode: 'error_fix' }> => i.mode === 'error_fix')
+  const activities: StudentLessonActivity[] = []
+  const mistakeIds: string[][] = []
+
+  if (blanks.length) {
+    const order = activities.length + 1
+    activities.push({
+      id: `practice-${order}`,
+      student_lesson_id: PRACTICE_LESSON_ID,
+      activity_type: 'student_vocab_missing_letters',
+      activity_order: order,
+      title: 'Fill the gap',
+      description: 'Type the missing word or words.',
+      content: { sentences: blanks.map((i) => ({ template: i.template, answer: i.answer })) },
+    })
+    mistakeIds.push(blanks.map((i) => i.mistake_id))
+  }
+
+  if (fixes.length) {
+    const order = activities.length + 1
+    const activityId = `practice-${order}`
+    activities.push({
+      id: activityId,
+      student_lesson_id: PRACTICE_LESSON_ID,
+      activity_type: 'student_grammar_error_fix',
+      activity_order: order,
+      title: 'Fix the mistake',
+      description: 'Write the sentence correctly.',
+      content: {},
+      grammar_items: fixes.map(
+        (i, index): StudentGrammarItem => ({
+          id: i.mistake_id,
+          activity_id: activityId,
+          item_kind: 'error_fix',
+          original_sentence: i.original,
+          correct_sentence: i.correct,
+          sort_order: index + 1,
+        })
+      ),
+    })
+    mistakeIds.push(fixes.map((i) => i.mistake_id))
+  }
+
+  return { activities, mistakeIds }
+}
+
+/**
+ * Whether each practised mistake was answered right first time: fill-blanks from
+ * answers.missed_words, error-fix items from answers.mistakes (item_id is the mistake id).
+ */
+export function practiceOutcomes(
+  activity: StudentLessonActivity,
+  mistakeIds: string[],
+  answers: unknown
+): Map<string, boolean> {
+  const parsed = parseJson(answers)
+  const answerObject = isPlainObject(parsed) ? parsed : {}
+  const outcomes = new Map<string, boolean>()
+
+  if (activity.activity_type === 'student_vocab_missing_letters') {
+    const missed = new Set(
+      (Array.isArray(answerObject.missed_words) ? answerObject.missed_words : [])
+        .filter((w): w is string => typeof w === 'string')
+        .map(normalizeMistakeText)
+    )
+    const sentences = Array.isArray(activity.content.sentences) ? activity.content.sentences : []
+    mistakeIds.forEach((id, i) => {
+      const sentence = sentences[i]
+      const answer = isPlainObject(sentence) ? text(sentence.answer) : ''
+      outcomes.set(id, !missed.has(normalizeMistakeText(answer)))
+    })
+    return outcomes
+  }
+
+  const wrongIds = new Set(
+    (Array.isArray(answerObject.mistakes) ? answerObject.mistakes : [])
+      .filter(isPlainObject)
+      .map((m) => text(m.item_id))
+  )
+  for (const id of mistakeIds) outcomes.set(id, !wrongIds.has(id))
+  return outcomes
+}
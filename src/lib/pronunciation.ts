@@ -0,0 +1,175 @@
+/**
+ * Pronunciation assessment for read-aloud activities: the transcript's words are aligned to the
+ * reference text, and each reference word is scored from the ASR's word-level confidence
+ * (Whisper `probability`) or marked substituted / missed.
+ *
+ * Computed by run-speech-analysis-background from the speech-job features sidecar and shown by
+ * the improvement activities (PronunciationFeedback). Shared with the Netlify functions, so keep
+ * this module free of runtime imports and path aliases.
+ */
+
+/** A recognised word as the transcription providers return it (see robotic-voice-word-asr) */
+export interface AsrWord {
+  word?: string
+  probability?: number
+}
+
+export type PronunciationWordStatus = 'good' | 'unclear' | 'substituted' | 'missed'
+
+export interface PronunciationWord {
+  /** Reference word as written, punctuation included */
+  word: string
+  /** What the ASR heard in its place (null when missed) */
+  heard: string | null
+  /** ASR confidence for the heard word, 0–1, when the provider reported one */
+  confidence: number | null
+  /** 0–100 */
+  score: number
+  status: PronunciationWordStatus
+}
+
+export interface PronunciationAssessment {
+  /** Mean word score, 0–100 */
+  overall_score: number
+  /** Share of reference words recognised as read, 0–100 */
+  accuracy: number
+  words: PronunciationWord[]
+  /** Distinct words to practise, in reading order */
+  problem_words: string[]
+  /** Words heard that are not in the reference */
+  extra_words: number
+}
+
+/** Recognised words below this confidence are highlighted as unclear */
+export const LOW_CONFIDENCE = 0.6
+/** A substituted word scores at most this much, scaled by how close its spelling is */
+const SUBSTITUTION_MAX_SCORE = 50
+const MAX_PROBLEM_WORDS = 8
+
+export function pronunciationWordKey(word: string): string {
+  return word
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/^[^a-z0-9']+|[^a-z0-9']+$/g, '')
+}
+
+function tokens(text: string): string[] {
+  return text.split(/\s+/).filter((w) => pronunciationWordKey(w))
+}
+
+/** 1 − normalised Levenshtein distance between two spellings */
+function spellingSimilarity(a: string, b: string): number {
+  if (!a.length || !b.length) return 0
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    prev = row
+  }
+  return 1 - prev[b.length] / Math.max(a.length, b.length)
+}
+
+type AlignStep = { ref: number; hyp: number } | { ref: number; hyp: null } | { ref: null; hyp: number }
+
+/** Minimum edit-distance word alignment; a pair with different keys is a substitution. */
+function alignWords(ref: string[], hyp: string[]): AlignStep[] {
+  const cost: number[][] = Array.from({ length: ref.length + 1 }, (_, i) =>
+    Array.from({ length: hyp.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  )
+  for (let i = 1; i <= ref.length; i++) {
+    for (let j = 1; j <= hyp.length; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + (ref[i - 1] === hyp[j - 1] ? 0 : 1),
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      )
+    }
+  }
+  const steps: AlignStep[] = []
+  let i = ref.length
+  let j = hyp.length
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + (ref[i - 1] === hyp[j - 1] ? 0 : 1)) {
+      steps.push({ ref: --i, hyp: --j })
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      steps.push({ ref: --i, hyp: null })
+    } else {
+      steps.push({ ref: null, hyp: --j })
+    }
+  }
+  return steps.reverse()
+}
+
+function confidenceOf(word: AsrWord | undefined): number | null {
+  const p = Number(word?.probability)
+  return word && Number.isFinite(p) && p >= 0 && p <= 1 ? p : null
+}
+
+/**
+ * Scores each reference word. asrWords are the provider's word tokens; when there are none (or
+ * they don't spell the transcript) the transcript is aligned without confidences.
+ */
+export function assessPronunciation(
+  referenceText: string,
+  asrWords: AsrWord[],
+  transcript = ''
+): PronunciationAssessment {
+  const refWords = tokens(referenceText)
+  const heardWords: AsrWord[] = asrWords.filter((w) => typeof w.word === 'string' && pronunciationWordKey(w.word))
+  const heard = heardWords.length ? heardWords : tokens(transcript).map((word) => ({ word }))
+
+  const refKeys = refWords.map(pronunciationWordKey)
+  const hypKeys = heard.map((w) => pronunciationWordKey(w.word as string))
+
+  const words: PronunciationWord[] = []
+  let extra = 0
+  for (const step of alignWords(refKeys, hypKeys)) {
+    if (step.ref === null) {
+      extra++
+      continue
+    }
+    const word = refWords[step.ref]
+    if (step.hyp === null) {
+      words.push({ word, heard: null, confidence: null, score: 0, status: 'missed' })
+      continue
+    }
+    const asr = heard[step.hyp]
+    const confidence = confidenceOf(asr)
+    if (refKeys[step.ref] === hypKeys[step.hyp]) {
+      const score = confidence === null ? 100 : Math.round(confidence * 100)
+      words.push({
+        word,
+        heard: (asr.word as string).trim(),
+        confidence,
+        score,
+        status: confidence !== null && confidence < LOW_CONFIDENCE ? 'unclear' : 'good',
+      })
+    } else {
+      words.push({
+        word,
+        heard: (asr.word as string).trim(),
+        confidence,
+        score: Math.round(SUBSTITUTION_MAX_SCORE * spellingSimilarity(refKeys[step.ref], hypKeys[step.hyp])),
+        status: 'substituted',
+      })
+    }
+  }
+
+  const problems: string[] = []
+  for (const w of words) {
+    const key = pronunciationWordKey(w.word)
+    if (w.status !== 'good' && !problems.includes(key)) problems.push(key)
+  }
+
+  return {
+    overall_score: words.length ? Math.round(words.reduce((sum, w) => sum + w.score, 0) / words.length) : 0,
+    accuracy: words.length
+      ? Math.round((words.filter((w) => w.status === 'good' || w.status === 'unclear').length / words.length) * 100)
+      : 0,
+    words,
+    problem_words: problems.slice(0, MAX_PROBLEM_WORDS),
+    extra_words: extra,
+  }
+}
@@ -0,0 +1,46 @@
+import * as XLSX from 'xlsx'
+
+export type RosterCredential = {
+  school_student_id: string
+  username: string
+  password: string
+  nickname: string | null
+  honorific: string | null
+  first_name: string | null
+  last_name: string | null
+  status: 'created' | 'password_reset'
+}
+
+/**
+ * Read the first sheet of a roster XLSX/CSV (ID, Nick, Honorific, First name, Last name — the
+ * scores export and the class roster CSV both qualify) as header-keyed rows for admin-roster-import.
+ */
+export async function readRosterFile(file: File): Promise<Array<Record<string, unknown>>> {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' })
+  const firstSheet = workbook.SheetNames[0]
+  if (!firstSheet) return []
+  // raw: false keeps IDs like 052439 as typed instead of numbers
+  return XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[firstSheet], {
+    raw: false,
+    defval: '',
+  })
+}
+
+export function exportCredentialsWorkbook(credentials: RosterCredential[], filename?: string): void {
+  const rows: (string | null)[][] = [
+    ['ID', 'Nick', 'Honorific', 'First name', 'Last name', 'Username', 'Password', 'Status'],
+    ...credentials.map((c) => [
+      c.school_student_id,
+      c.nickname,
+      c.honorific,
+      c.first_name,
+      c.last_name,
+      c.username,
+      c.password,
+      c.status === 'created' ? 'New account' : 'Password reset',
+    ]),
+  ]
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Credentials')
+  XLSX.writeFile(workbook, filename || `student-credentials-${new Date().toISOString().slice(0, 10)}.xlsx`)
+}
@@ -1,6 +1,7 @@
 /** Speech-job + analysis-result flow — same backend as SpeakingWithFeedback. */
 
 import type { BrowserRhythmFeatures } from '@/lib/browserRhythm'
+import type { PronunciationAssessment } from '@/lib/pronunciation'
 
 export const SPEECH_MAX_DURATION_SECONDS = 120
 export const SPEECH_MAX_AUDIO_BYTES = 20 * 1024 * 1024
@@ -18,6 +19,10 @@ export interface SpeechFeedbackPayload {
   vocabulary_corrections?: Array<{ mistake: string; correction: string }>
   is_off_topic?: boolean
   integrity?: unknown
+  /** Set when a warn_student robotic-voice policy matched (see run-speech-analysis-background) */
+  robotic_voice_warning?: string
+  /** Per-word pronunciation scores; read-aloud tasks with a referenceText only */
+  pronunciation?: PronunciationAssessment
 }
 
 export type SpeechErrorFlags = {
@@ -328,6 +333,12 @@ export async function submitSpeechJobAndPoll(params: SubmitSpeechJobParams): Pro
       (result.vocabulary_corrections as SpeechFeedbackPayload['vocabulary_corrections']) || [],
     is_off_topic: Boolean(result.is_off_topic),
     integrity: result.integrity,
+    robotic_voice_warning:
+      typeof result.robotic_voice_warning === 'string' ? result.robotic_voice_warning : undefined,
+    pronunciation:
+      result.pronunciation && typeof result.pronunciation === 'object'
+        ? (result.pronunciation as PronunciationAssessment)
+        : undefined,
   }
 
   return { jobId, transcript, result, feedback }
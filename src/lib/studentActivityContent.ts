@@ -0,0 +1,403 @@
+/**
+ * Content schemas for student-track activities, one per StudentActivityType.
+ *
+ * Shared by the student components and the Netlify functions (admin-student-lesson-package,
+ * get-student-lesson, admin-student-lessons ?report=content), so keep this module free of
+ * runtime imports and path aliases. An activity is valid when its content matches the schema
+ * and it has the item rows its component renders from.
+ */
+
+import type { StudentActivityType } from '../types/student'
+
+export interface PollActivityContent {
+  [key: string]: unknown
+}
+
+export interface VocabularyIntroContent {
+  group_by_category?: boolean
+  show_thai?: boolean
+  tap_thai_translation?: boolean
+  study_seconds?: number
+}
+
+export interface MissingLettersContent {
+  sentences: Array<{ template: string; answer: string }>
+}
+
+export interface WordCategorizeContent {
+  buckets?: string[]
+  /** Used only when the activity has no vocabulary items */
+  words?: Array<{ word: string; category: string }>
+}
+
+export interface SpeedTapContent {
+  targets: string[]
+  distractors?: string[]
+}
+
+export interface GrammarBuilderContent {
+  study_seconds?: number
+}
+
+export interface GrammarCompleteContent {
+  template?: string
+  apps?: string[]
+  reasons?: string[]
+  slot1_label?: string
+  slot2_label?: string
+  prompt_line?: string
+}
+
+export interface SpeakingCardsContent {
+  /** Falls back to the poll item questions when empty */
+  prompts?: string[]
+}
+
+export interface ChallengeWheelContent {
+  prompts: string[]
+  duration_seconds?: number
+}
+
+export interface VocabImageMcqContent {
+  items: Array<{ image_url: string; prompt?: string; choices: string[]; correct: string }>
+}
+
+export interface CharacterDescriptionContent {
+  sentences: Array<{ template: string; slot_label?: string; options: string[] }>
+}
+
+export interface CharacterStoryContent {
+  source_activity_order?: number
+  prompts?: string[]
+}
+
+/** Empty questions use the built-in lesson 4 quiz (src/lib/lesson4SuperheroQuiz.ts) */
+export interface SuperheroBuilderContent {
+  gender_question_id?: string
+  tie_break_order?: string[]
+  heroes?: Record<string, unknown>
+  questions?: Array<{ id: string; prompt: string; options: Array<{ id: string; label: string }> }>
+}
+
+export type EmptyActivityContent = Record<string, never>
+
+export interface StudentActivityContentMap {
+  student_warmup_poll: PollActivityContent
+  student_exit_poll: PollActivityContent
+  student_vocabulary_intro: VocabularyIntroContent
+  student_vocab_picture_match: EmptyActivityContent
+  student_vocab_missing_letters: MissingLettersContent
+  student_vocab_categorize: WordCategorizeContent
+  student_vocab_speed_tap: SpeedTapContent
+  student_grammar_builder: GrammarBuilderContent
+  student_grammar_drag_order: EmptyActivityContent
+  student_grammar_mcq: EmptyActivityContent
+  student_grammar_frequency: EmptyActivityContent
+  student_grammar_complete: GrammarCompleteContent
+  student_grammar_error_fix: EmptyActivityContent
+  student_grammar_make_question: EmptyActivityContent
+  student_speaking_cards: SpeakingCardsContent
+  student_challenge_wheel: ChallengeWheelContent
+  student_character_builder: EmptyActivityContent
+  student_vocab_image_mcq: VocabImageMcqContent
+  student_character_description: CharacterDescriptionContent
+  student_character_story: CharacterStoryContent
+  student_superhero_builder: SuperheroBuilderContent
+  student_superhero_profile: EmptyActivityContent
+  student_selfie_capture: EmptyActivityContent
+  student_alignment_reveal: EmptyActivityContent
+  student_superhero_image_generate: EmptyActivityContent
+}
+
+export type StudentActivityContent<T extends StudentActivityType> = StudentActivityContentMap[T]
+
+export interface ActivityContentIssue {
+  /** Path inside the activity, e.g. content.sentences[2].answer or grammar_items */
+  path: string
+  message: string
+}
+
+/** The fields of an activity the schemas look at; rows from get-student-lesson fit as-is. */
+export interface ValidatableActivity {
+  activity_type: string
+  content: unknown
+  vocabulary_items?: unknown
+  grammar_items?: unknown
+  poll_items?: unknown
+}
+
+export type ItemList = 'vocabulary_items' | 'grammar_items' | 'poll_items'
+
+export type FieldSpec =
+  | { kind: 'string'; required?: boolean }
+  | { kind: 'boolean' }
+  | { kind: 'number'; required?: boolean; min?: number; integer?: boolean }
+  | { kind: 'string_list'; required?: boolean }
+  | { kind: 'object_list'; required?: boolean; fields: Record<string, FieldSpec> }
+  | { kind: 'object' }
+
+export interface ActivitySchema {
+  content: Record<string, FieldSpec>
+  /** Item rows the component cannot render without */
+  requires?: ItemList[]
+  /** Item rows the component reads when present (requires is implied) */
+  items?: ItemList[]
+  /** Cross-field rules the field specs cannot express */
+  check?: (activity: ValidatableActivity, content: Record<string, unknown>) => ActivityContentIssue[]
+}
+
+const POLL_SCHEMA: ActivitySchema = { content: {}, requires: ['poll_items'] }
+const GRAMMAR_ITEMS_SCHEMA: ActivitySchema = { content: {}, requires: ['grammar_items'] }
+const NO_CONTENT_SCHEMA: ActivitySchema = { content: {} }
+
+export const STUDENT_ACTIVITY_SCHEMAS: Record<StudentActivityType, ActivitySchema> = {
+  student_warmup_poll: POLL_SCHEMA,
+  student_exit_poll: POLL_SCHEMA,
+  student_vocabulary_intro: {
+    content: {
+      group_by_category: { kind: 'boolean' },
+      show_thai: { kind: 'boolean' },
+      tap_thai_translation: { kind: 'boolean' },
+      study_seconds: { kind: 'number', min: 0, integer: true },
+    },
+    requires: ['vocabulary_items'],
+  },
+  student_vocab_picture_match: { content: {}, requires: ['vocabulary_items'] },
+  student_vocab_missing_letters: {
+    content: {
+      sentences: {
+        kind: 'object_list',
+        required: true,
+        fields: { template: { kind: 'string', required: true }, answer: { kind: 'string', required: true } },
+      },
+    },
+  },
+  student_vocab_categorize: {
+    items: ['vocabulary_items'],
+    content: {
+      buckets: { kind: 'string_list' },
+      words: {
+        kind: 'object_list',
+        fields: { word: { kind: 'string', required: true }, category: { kind: 'string', required: true } },
+      },
+    },
+    check: (activity, content) =>
+      listLength(activity.vocabulary_items) === 0 && listLength(content.words) === 0
+        ? [{ path: 'vocabulary_items', message: 'needs vocabulary items or content.words to sort' }]
+        : [],
+  },
+  student_vocab_speed_tap: {
+    content: { targets: { kind: 'string_list', required: true }, distractors: { kind: 'string_list' } },
+  },
+  student_grammar_builder: {
+    content: { study_seconds: { kind: 'number', min: 0, integer: true } },
+  },
+  student_grammar_drag_order: GRAMMAR_ITEMS_SCHEMA,
+  student_grammar_mcq: GRAMMAR_ITEMS_SCHEMA,
+  student_grammar_frequency: { content: {}, items: ['grammar_items'] },
+  student_grammar_complete: {
+    content: {
+      template: { kind: 'string' },
+      apps: { kind: 'string_list' },
+      reasons: { kind: 'string_list' },
+      slot1_label: { kind: 'string' },
+      slot2_label: { kind: 'string' },
+      prompt_line: { kind: 'string' },
+    },
+  },
+  student_grammar_error_fix: GRAMMAR_ITEMS_SCHEMA,
+  student_grammar_make_question: GRAMMAR_ITEMS_SCHEMA,
+  student_speaking_cards: {
+    items: ['poll_items'],
+    content: { prompts: { kind: 'string_list' } },
+    check: (activity, content) =>
+      listLength(content.prompts) === 0 && listLength(activity.poll_items) === 0
+        ? [{ path: 'content.prompts', message: 'needs prompts or poll items to read questions from' }]
+        : [],
+  },
+  student_challenge_wheel: {
+    content: {
+      prompts: { kind: 'string_list', required: true },
+      duration_seconds: { kind: 'number', min: 1, integer: true },
+    },
+  },
+  student_character_builder: NO_CONTENT_SCHEMA,
+  student_vocab_image_mcq: {
+    content: {
+      items: {
+        kind: 'object_list',
+        required: true,
+        fields: {
+          image_url: { kind: 'string', required: true },
+          prompt: { kind: 'string' },
+          choices: { kind: 'string_list', required: true },
+          correct: { kind: 'string', required: true },
+        },
+      },
+    },
+    check: (_activity, content) =>
+      listItems(content.items).flatMap((item, i) =>
+        typeof item.correct === 'string' && Array.isArray(item.choices) && !item.choices.includes(item.correct)
+          ? [{ path: `content.items[${i}].correct`, message: 'must be one of the choices' }]
+          : []
+      ),
+  },
+  student_character_description: {
+    content: {
+      sentences: {
+        kind: 'object_list',
+        required: true,
+        fields: {
+          template: { kind: 'string', required: true },
+          slot_label: { kind: 'string' },
+          options: { kind: 'string_list', required: true },
+        },
+      },
+    },
+    check: (_activity, content) =>
+      listItems(content.sentences).flatMap((s, i) =>
+        typeof s.template === 'string' && !s.template.includes('{word}')
+          ? [{ path: `content.sentences[${i}].template`, message: 'must contain {word}' }]
+          : []
+      ),
+  },
+  student_character_story: {
+    content: {
+      source_activity_order: { kind: 'number', min: 1, integer: true },
+      prompts: { kind: 'string_list' },
+    },
+  },
+  student_superhero_builder: {
+    content: {
+      gender_question_id: { kind: 'string' },
+      tie_break_order: { kind: 'string_list' },
+      heroes: { kind: 'object' },
+      questions: {
+        kind: 'object_list',
+        fields: {
+          id: { kind: 'string', required: true },
+          prompt: { kind: 'string', required: true },
+          options: {
+            kind: 'object_list',
+            required: true,
+            fields: { id: { kind: 'string', required: true }, label: { kind: 'string', required: true } },
+          },
+        },
+      },
+    },
+    check: (_activity, content) => {
+      const questions = listItems(content.questions)
+      if (questions.length === 0) return []
+      const issues: ActivityContentIssue[] = []
+      if (!questions.some((q) => q.id === content.gender_question_id)) {
+        issues.push({ path: 'content.gender_question_id', message: 'must be the id of one of the questions' })
+      }
+      if (!isPlainObject(content.heroes)) issues.push({ path: 'content.heroes', message: 'is required with custom questions' })
+      return issues
+    },
+  },
+  student_superhero_profile: NO_CONTENT_SCHEMA,
+  student_selfie_capture: NO_CONTENT_SCHEMA,
+  student_alignment_reveal: NO_CONTENT_SCHEMA,
+  student_superhero_image_generate: NO_CONTENT_SCHEMA,
+}
+
+export const STUDENT_ACTIVITY_TYPES = Object.keys(STUDENT_ACTIVITY_SCHEMAS) as StudentActivityType[]
+
+export function isStudentActivityType(value: unknown): value is StudentActivityType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(STUDENT_ACTIVITY_SCHEMAS, value)
+}
+
+/** Item lists an activity type reads, for editors that only show the relevant ones */
+export function activityItemLists(type: StudentActivityType): ItemList[] {
+  const schema = STUDENT_ACTIVITY_SCHEMAS[type]
+  return (['vocabulary_items', 'grammar_items', 'poll_items'] as ItemList[]).filter(
+    (list) => schema.requires?.includes(list) || schema.items?.includes(list)
+  )
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** jsonb columns can arrive as JSON strings */
+function parseJson(value: unknown): unknown {
+  if (typeof value !== 'string') return value
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+function listLength(value: unknown): number {
+  const parsed = parseJson(value)
+  return Array.isArray(parsed) ? parsed.length : 0
+}
+
+function listItems(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(isPlainObject) : []
+}
+
+function checkField(value: unknown, spec: FieldSpec, path: string): ActivityContentIssue[] {
+  if (value === undefined || value === null) {
+    return 'required' in spec && spec.required ? [{ path, message: 'is required' }] : []
+  }
+  switch (spec.kind) {
+    case 'string':
+      if (typeof value !== 'string') return [{ path, message: 'must be a string' }]
+      return spec.required && value.trim() === '' ? [{ path, message: 'must not be empty' }] : []
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [{ path, message: 'must be true or false' }]
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [{ path, message: 'must be a number' }]
+      if (spec.integer && !Number.isInteger(value)) return [{ path, message: 'must be a whole number' }]
+      return spec.min !== undefined && value < spec.min ? [{ path, message: `must be at least ${spec.min}` }] : []
+    case 'string_list':
+      if (!Array.isArray(value)) return [{ path, message: 'must be a list of strings' }]
+      if (spec.required && value.length === 0) return [{ path, message: 'must not be empty' }]
+      return value.flatMap((v, i) =>
+        typeof v === 'string' && v.trim() !== '' ? [] : [{ path: `${path}[${i}]`, message: 'must be a non-empty string' }]
+      )
+    case 'object_list':
+      if (!Array.isArray(value)) return [{ path, message: 'must be a list' }]
+      if (spec.required && value.length === 0) return [{ path, message: 'must not be empty' }]
+      return value.flatMap((row, i) =>
+        isPlainObject(row)
+          ? Object.entries(spec.fields).flatMap(([key, field]) => checkField(row[key], field, `${path}[${i}].${key}`))
+          : [{ path: `${path}[${i}]`, message: 'must be an object' }]
+      )
+    case 'object':
+      return isPlainObject(value) ? [] : [{ path, message: 'must be an object' }]
+  }
+}
+
+/** Check one activity's content and item rows against its schema; an empty list means valid. */
+export function validateStudentActivity(activity: ValidatableActivity): ActivityContentIssue[] {
+  if (!isStudentActivityType(activity.activity_type)) {
+    return [{ path: 'activity_type', message: `unknown activity type "${String(activity.activity_type)}"` }]
+  }
+  const schema = STUDENT_ACTIVITY_SCHEMAS[activity.activity_type]
+  const content = parseJson(activity.content ?? {})
+  if (!isPlainObject(content)) return [{ path: 'content', message: 'must be an object' }]
+
+  const issues = Object.entries(schema.content).flatMap(([key, spec]) =>
+    checkField(content[key], spec, `content.${key}`)
+  )
+  for (const list of schema.requires || []) {
+    if (listLength(activity[list]) === 0) issues.push({ path: list, message: `needs at least one ${list.replace('_items', '')} item` })
+  }
+  if (schema.check) issues.push(...schema.check(activity, content))
+  return issues
+}
+
+/**
+ * Content typed for one activity type, e.g. activityContent<'student_vocab_speed_tap'>(activity).
+ * Fields stay optional: components keep their fallbacks for rows that predate validation.
+ */
+export function activityContent<T extends StudentActivityType>(activity: {
+  content: unknown
+}): Partial<StudentActivityContent<T>> {
+  const content = parseJson(activity.content)
+  return (isPlainObject(content) ? content : {}) as Partial<StudentActivityContent<T>>
+}
@@ -0,0 +1,283 @@
+/**
+ * Editing state for the student lesson editor (admin/content/student-lessons/[id]).
+ *
+ * The editor works on the same JSON package admin-student-lesson-package exports and imports
+ * (functions/lib/lesson-package.ts), so publishing a draft goes through the import's validation,
+ * diff and version bump. Types are mirrored here because src and functions do not share them.
+ */
+
+import type { StudentActivityType, StudentLesson, StudentLessonActivity } from '../types/student'
+import {
+  STUDENT_ACTIVITY_SCHEMAS,
+  validateStudentActivity,
+  type ActivityContentIssue,
+  type FieldSpec,
+} from './studentActivityContent'
+
+export const STUDENT_LESSON_PACKAGE_FORMAT = 'student-lesson-package'
+
+/** student_grammar_items_kind_check */
+export const GRAMMAR_ITEM_KINDS = [
+  'drag_order',
+  'mcq',
+  'frequency_select',
+  'free_completion',
+  'error_correction',
+  'make_question',
+] as const
+
+const DEFAULT_GRAMMAR_KIND: Partial<Record<StudentActivityType, string>> = {
+  student_grammar_drag_order: 'drag_order',
+  student_grammar_mcq: 'mcq',
+  student_grammar_frequency: 'frequency_select',
+  student_grammar_error_fix: 'error_correction',
+  student_grammar_make_question: 'make_question',
+}
+
+export interface DraftVocabularyItem {
+  english_word: string
+  thai_translation: string | null
+  audio_url: string | null
+  image_url: string | null
+  emoji: string | null
+  category: string | null
+}
+
+export interface DraftGrammarItem {
+  item_kind: string
+  original_sentence: string | null
+  correct_sentence: string
+  words_array: string[] | null
+  options: unknown
+  hint: string | null
+}
+
+export interface DraftPollItem {
+  question: string
+  options: Array<{ id: string; label: string }>
+  allow_multiple: boolean
+  correct_option_id: string | null
+}
+
+export interface DraftActivity {
+  activity_order: number
+  activity_type: string
+  title: string | null
+  description: string | null
+  estimated_time_seconds: number | null
+  content: Record<string, unknown>
+  vocabulary_items: DraftVocabularyItem[]
+  grammar_items: DraftGrammarItem[]
+  poll_items: DraftPollItem[]
+}
+
+export interface DraftLesson {
+  lesson_number: number
+  topic: string
+  slug: string | null
+  live_duration_minutes: number | null
+  communication_goal: string | null
+  grammar_focus: Record<string, unknown>
+  vocabulary_list: unknown[]
+}
+
+export interface StudentLessonPackage {
+  format: typeof STUDENT_LESSON_PACKAGE_FORMAT
+  format_version: number
+  exported_at: string
+  source_version: number | null
+  lesson: DraftLesson
+  activities: DraftActivity[]
+}
+
+export function blankLessonPackage(lessonNumber: number): StudentLessonPackage {
+  return {
+    format: STUDENT_LESSON_PACKAGE_FORMAT,
+    format_version: 1,
+    exported_at: new Date().toISOString(),
+    source_version: null,
+    lesson: {
+      lesson_number: lessonNumber,
+      topic: '',
+      slug: null,
+      live_duration_minutes: null,
+      communication_goal: null,
+      grammar_focus: {},
+      vocabulary_list: [],
+    },
+    activities: [],
+  }
+}
+
+/** Empty value for a content field: lists start empty, required strings blank, the rest unset. */
+export function blankFieldValue(spec: FieldSpec): unknown {
+  switch (spec.kind) {
+    case 'string':
+      return spec.required ? '' : undefined
+    case 'string_list':
+    case 'object_list':
+      return spec.required ? [] : undefined
+    default:
+      return undefined
+  }
+}
+
+export function blankContent(fields: Record<string, FieldSpec>): Record<string, unknown> {
+  const content: Record<string, unknown> = {}
+  for (const [key, spec] of Object.entries(fields)) {
+    const value = blankFieldValue(spec)
+    if (value !== undefined) content[key] = value
+  }
+  return content
+}
+
+export function blankVocabularyItem(): DraftVocabularyItem {
+  return { english_word: '', thai_translation: null, audio_url: null, image_url: null, emoji: null, category: null }
+}
+
+export function blankGrammarItem(activityType: string): DraftGrammarItem {
+  return {
+    item_kind: DEFAULT_GRAMMAR_KIND[activityType as StudentActivityType] || 'drag_order',
+    original_sentence: null,
+    correct_sentence: '',
+    words_array: null,
+    options: null,
+    hint: null,
+  }
+}
+
+export function blankPollItem(): DraftPollItem {
+  return {
+    question: '',
+    options: [
+      { id: 'a', label: '' },
+      { id: 'b', label: '' },
+    ],
+    allow_multiple: false,
+    correct_option_id: null,
+  }
+}
+
+export function blankActivity(type: StudentActivityType, order: number): DraftActivity {
+  const required = STUDENT_ACTIVITY_SCHEMAS[type].requires || []
+  return {
+    activity_order: order,
+    activity_type: type,
+    title: null,
+    description: null,
+    estimated_time_seconds: null,
+    content: blankContent(STUDENT_ACTIVITY_SCHEMAS[type].content),
+    vocabulary_items: required.includes('vocabulary_items') ? [blankVocabularyItem()] : [],
+    grammar_items: required.includes('grammar_items') ? [blankGrammarItem(type)] : [],
+    poll_items: required.includes('poll_items') ? [blankPollItem()] : [],
+  }
+}
+
+/** activity_order follows list position; publishing keys activities by it. */
+function renumber(activities: DraftActivity[]): DraftActivity[] {
+  return activities.map((a, i) => (a.activity_order === i + 1 ? a : { ...a, activity_order: i + 1 }))
+}
+
+export function insertActivity(activities: DraftActivity[], type: StudentActivityType, index: number): DraftActivity[] {
+  const next = activities.slice()
+  next.splice(index, 0, blankActivity(type, index + 1))
+  return renumber(next)
+}
+
+export function moveActivity(activities: DraftActivity[], from: number, to: number): DraftActivity[] {
+  if (to < 0 || to >= activities.length || from === to) return activities
+  const next = activities.slice()
+  const [moved] = next.splice(from, 1)
+  next.splice(to, 0, moved)
+  return renumber(next)
+}
+
+export function removeActivity(activities: DraftActivity[], index: number): DraftActivity[] {
+  return renumber(activities.filter((_, i) => i !== index))
+}
+
+/** Moves one row of any item list; used by the vocabulary / grammar / poll item editors. */
+export function moveListItem<T>(list: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= list.length || from === to) return list
+  const next = list.slice()
+  const [moved] = next.splice(from, 1)
+  next.splice(to, 0, moved)
+  return next
+}
+
+/** Blank item fields the package import would reject; caught here so the editor can point at them. */
+function itemIssues(activity: DraftActivity): ActivityContentIssue[] {
+  const issues: ActivityContentIssue[] = []
+  activity.vocabulary_items.forEach((item, i) => {
+    if (!item.english_word.trim()) issues.push({ path: `vocabulary_items[${i}].english_word`, message: 'is required' })
+  })
+  activity.grammar_items.forEach((item, i) => {
+    if (!item.correct_sentence.trim()) issues.push({ path: `grammar_items[${i}].correct_sentence`, message: 'is required' })
+  })
+  activity.poll_items.forEach((item, i) => {
+    if (!item.question.trim()) issues.push({ path: `poll_items[${i}].question`, message: 'is required' })
+    if (!item.options.length) issues.push({ path: `poll_items[${i}].options`, message: 'needs at least one option' })
+    item.options.forEach((option, j) => {
+      if (!option.id.trim() || !option.label.trim()) {
+        issues.push({ path: `poll_items[${i}].options[${j}]`, message: 'needs an id and a label' })
+      }
+    })
+  })
+  return issues
+}
+
+/** Schema and item issues per activity, keyed by list index; activities without issues are left out. */
+export function draftIssues(pkg: StudentLessonPackage): Map<number, ActivityContentIssue[]> {
+  const issues = new Map<number, ActivityContentIssue[]>()
+  pkg.activities.forEach((activity, i) => {
+    const found = [...validateStudentActivity(activity), ...itemIssues(activity)]
+    if (found.length) issues.set(i, found)
+  })
+  return issues
+}
+
+/** The draft lesson shaped like get-student-lesson's response, for StudentActivityRenderer. */
+export function previewLesson(pkg: StudentLessonPackage, lessonId: string): StudentLesson {
+  return {
+    id: lessonId,
+    ...pkg.lesson,
+    active: false,
+    version: pkg.source_version ?? 0,
+    created_at: pkg.exported_at,
+    updated_at: pkg.exported_at,
+  }
+}
+
+export function previewActivity(pkg: StudentLessonPackage, lessonId: string, index: number): StudentLessonActivity {
+  const activity = pkg.activities[index]
+  const id = `preview-${activity.activity_order}`
+  return {
+    id,
+    student_lesson_id: lessonId,
+    activity_type: activity.activity_type as StudentActivityType,
+    activity_order: activity.activity_order,
+    title: activity.title,
+    description: activity.description,
+    estimated_time_seconds: activity.estimated_time_seconds,
+    content: activity.content,
+    vocabulary_items: activity.vocabulary_items.map((item, i) => ({
+      ...item,
+      id: `${id}-vocab-${i + 1}`,
+      activity_id: id,
+      sort_order: i + 1,
+    })),
+    grammar_items: activity.grammar_items.map((item, i) => ({
+      ...item,
+      options: (item.options as Record<string, unknown> | null) ?? null,
+      id: `${id}-grammar-${i + 1}`,
+      activity_id: id,
+      sort_order: i + 1,
+    })),
+    poll_items: activity.poll_items.map((item, i) => ({
+      ...item,
+      id: `${id}-poll-${i + 1}`,
+      activity_id: id,
+      sort_order: i + 1,
+    })),
+  }
+}
@@ -1,2 +1,8 @@
 /** Canonical home for classroom (student role) users — no evaluation test. */
 export const STUDENT_DASHBOARD_PATH = '/student_dashboard'
+
+/** Daily vocabulary review session (spaced repetition deck). */
+export const STUDENT_VOCAB_REVIEW_PATH = '/student/review'
+
+/** Personal mistake notebook with re-practice. */
+export const STUDENT_MISTAKES_PATH = '/student/mistakes'
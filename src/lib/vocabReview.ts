@@ -0,0 +1,298 @@
+/**
+ * Vocabulary review deck: which words a vocab activity practises, how well the student knew
+ * them, and the daily review session built from due cards.
+ *
+ * Shared by the student review page and the Netlify functions (submit-student-lesson-activity,
+ * student-vocab-review), so keep this module free of runtime imports and path aliases.
+ * Scheduling itself lives in functions/lib/vocab-review.ts.
+ */
+
+import type {
+  StudentActivityType,
+  StudentLessonActivity,
+  StudentVocabularyItem,
+} from '../types/student'
+
+/** Vocab games whose results grade the words they practise */
+export const VOCAB_REVIEW_ACTIVITY_TYPES: StudentActivityType[] = [
+  'student_vocab_picture_match',
+  'student_vocab_missing_letters',
+  'student_vocab_categorize',
+  'student_vocab_speed_tap',
+  'student_vocab_image_mcq',
+]
+
+export function isVocabReviewActivity(type: string): boolean {
+  return VOCAB_REVIEW_ACTIVITY_TYPES.includes(type as StudentActivityType)
+}
+
+/** SM-2 response quality, 0 (blackout) to 5 (perfect) */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5
+
+export interface ReviewWord {
+  english_word: string
+  thai_translation?: string | null
+  image_url?: string | null
+  emoji?: string | null
+  audio_url?: string | null
+}
+
+/** A student_vocab_cards row as student-vocab-review returns it */
+export interface VocabReviewCard extends ReviewWord {
+  id: string
+  word_key: string
+  repetitions: number
+  interval_days: number
+  lapses: number
+  due_at: string
+}
+
+export interface VocabReviewSummary {
+  due: number
+  total: number
+}
+
+export function normalizeWordKey(word: string): string {
+  return word.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+function contentObject(value: unknown): Record<string, unknown> {
+  let parsed = value
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value)
+    } catch {
+      return {}
+    }
+  }
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+    ? (parsed as Record<string, unknown>)
+    : {}
+}
+
+function objectList(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value)
+    ? value.filter((v): v is Record<string, unknown> => !!v && typeof v === 'object')
+    : []
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+/**
+ * Words an activity practises, one per word key: its vocabulary items plus the words that only
+ * live in content (speed-tap targets, missing-letters answers, image MCQ answers, categorize
+ * words of activities without items).
+ */
+export function practicedWords(activity: {
+  activity_type: string
+  content: unknown
+  vocabulary_items?: Array<Partial<StudentVocabularyItem>> | null
+}): ReviewWord[] {
+  const content = contentObject(activity.content)
+  const words: ReviewWord[] = []
+
+  for (const item of activity.vocabulary_items || []) {
+    const english = text(item.english_word)
+    if (!english) continue
+    words.push({
+      english_word: english,
+      thai_translation: item.thai_translation ?? null,
+      image_url: item.image_url ?? null,
+      emoji: item.emoji ?? null,
+      audio_url: item.audio_url ?? null,
+    })
+  }
+
+  if (activity.activity_type === 'student_vocab_speed_tap' && Array.isArray(content.targets)) {
+    for (const target of content.targets) {
+      if (text(target)) words.push({ english_word: text(target) })
+    }
+  }
+  if (activity.activity_type === 'student_vocab_missing_letters') {
+    for (const sentence of objectList(content.sentences)) {
+      if (text(sentence.answer)) words.push({ english_word: text(sentence.answer) })
+    }
+  }
+  if (activity.activity_type === 'student_vocab_categorize' && !words.length) {
+    for (const item of objectList(content.words)) {
+      if (text(item.word)) words.push({ english_word: text(item.word) })
+    }
+  }
+  if (activity.activity_type === 'student_vocab_image_mcq') {
+    for (const item of objectList(content.items)) {
+      if (text(item.correct)) {
+        words.push({ english_word: text(item.correct), image_url: text(item.image_url) || null })
+      }
+    }
+  }
+
+  const byKey = new Map<string, ReviewWord>()
+  for (const word of words) {
+    const key = normalizeWordKey(word.english_word)
+    if (key && !byKey.has(key)) byKey.set(key, word)
+  }
+  return [...byKey.values()]
+}
+
+/** Word keys the student got wrong at least once (answers.missed_words) */
+export function missedWordKeys(answers: unknown): Set<string> {
+  const missed = contentObject(answers).missed_words
+  if (!Array.isArray(missed)) return new Set()
+  return new Set(missed.filter((w): w is string => typeof w === 'string').map(normalizeWordKey))
+}
+
+/**
+ * Quality for one word: a miss is an incorrect response the student then corrected (2), a word
+ * right first time in an activity that needed retries is a correct response with hesitation (4).
+ */
+export function reviewQuality(missed: boolean, attempts: number): ReviewQuality {
+  if (missed) return 2
+  return attempts > 1 ? 4 : 5
+}
+
+/** Quality per word key for a completed vocab game; empty for other activity types. */
+export function activityReviewQualities(
+  activity: {
+    activity_type: string
+    content: unknown
+    vocabulary_items?: Array<Partial<StudentVocabularyItem>> | null
+  },
+  answers: unknown,
+  attempts: number
+): Map<string, ReviewQuality> {
+  const qualities = new Map<string, ReviewQuality>()
+  if (!isVocabReviewActivity(activity.activity_type)) return qualities
+  const missed = missedWordKeys(answers)
+  const anyMissed = missed.size > 0
+  for (const word of practicedWords(activity)) {
+    const key = normalizeWordKey(word.english_word)
+    // Games that record misses grade each word on its own; the attempt count is for older results
+    qualities.set(key, reviewQuality(missed.has(key), anyMissed ? 1 : attempts))
+  }
+  return qualities
+}
+
+/** Blanks every other letter ("apple" → "a_p_e"), keeping spaces and the first letter. */
+export function missingLettersTemplate(word: string): string {
+  let letterIndex = 0
+  return [...word]
+    .map((ch) => {
+      if (!/[a-z]/i.test(ch)) return ch
+      const blank = letterIndex % 2 === 1
+      letterIndex += 1
+      return blank ? '_' : ch
+    })
+    .join('')
+}
+
+const REVIEW_LESSON_ID = 'vocab-review'
+const MAX_SPEED_TAP_TARGETS = 8
+
+function reviewActivity(
+  order: number,
+  type: StudentActivityType,
+  title: string,
+  description: string,
+  content: Record<string, unknown>,
+  vocabularyItems: StudentVocabularyItem[] = []
+): StudentLessonActivity {
+  return {
+    id: `review-${order}`,
+    student_lesson_id: REVIEW_LESSON_ID,
+    activity_type: type,
+    activity_order: order,
+    title,
+    description,
+    content,
+    vocabulary_items: vocabularyItems,
+  }
+}
+
+/**
+ * Today's session from due cards: picture match for the cards that have a picture (two or
+ * more), missing letters for the rest, then a speed tap with the due words as targets and other
+ * deck words as distractors. Rendered with the lesson vocab components.
+ */
+export function buildReviewSession(
+  cards: VocabReviewCard[],
+  options: { distractors: string[]; hasPicture: (card: VocabReviewCard) => boolean }
+): StudentLessonActivity[] {
+  const activities: StudentLessonActivity[] = []
+  const pictureCards = cards.filter(options.hasPicture)
+  const matchCards = pictureCards.length >= 2 ? pictureCards : []
+  const spellCards = cards.filter((c) => !matchCards.includes(c))
+
+  if (matchCards.length) {
+    activities.push(
+      reviewActivity(
+        activities.length + 1,
+        'student_vocab_picture_match',
+        'Match the pictures',
+        'Words you learned before — match each picture to its word.',
+        {},
+        matchCards.map((card, i) => ({
+          id: card.id,
+          activity_id: `review-${activities.length + 1}`,
+          english_word: card.english_word,
+          thai_translation: card.thai_translation,
+          image_url: card.image_url,
+          emoji: card.emoji,
+          audio_url: card.audio_url,
+          sort_order: i + 1,
+        }))
+      )
+    )
+  }
+
+  if (spellCards.length) {
+    activities.push(
+      reviewActivity(
+        activities.length + 1,
+        'student_vocab_missing_letters',
+        'Spell the words',
+        'Fill in the missing letters and type the whole word.',
+        {
+          sentences: spellCards.map((card) => ({
+            template: card.thai_translation
+              ? `${missingLettersTemplate(card.english_word)} (${card.thai_translation})`
+              : missingLettersTemplate(card.english_word),
+            answer: card.english_word,
+          })),
+        }
+      )
+    )
+  }
+
+  const dueKeys = new Set(cards.map((c) => c.word_key))
+  const distractors = options.distractors.filter((w) => !dueKeys.has(normalizeWordKey(w)))
+  if (cards.length && distractors.length >= 2) {
+    const targets = cards.slice(0, MAX_SPEED_TAP_TARGETS).map((c) => c.english_word)
+    activities.push(
+      reviewActivity(
+        activities.length + 1,
+        'student_vocab_speed_tap',
+        'Quick tap',
+        'Tap only the words from today’s review. Press Continue when you are done.',
+        { targets, distractors: distractors.slice(0, Math.max(2, targets.length)) }
+      )
+    )
+  }
+
+  return activities
+}
+
+/** Lowest quality per word key across the session's activities */
+export function mergeReviewQualities(
+  results: Array<Map<string, ReviewQuality>>
+): Map<string, ReviewQuality> {
+  const merged = new Map<string, ReviewQuality>()
+  for (const qualities of results) {
+    for (const [key, quality] of qualities) {
+      const prev = merged.get(key)
+      merged.set(key, prev === undefined ? quality : (Math.min(prev, quality) as ReviewQuality))
+    }
+  }
+  return merged
+}
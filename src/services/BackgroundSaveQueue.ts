@@ -5,6 +5,8 @@
  * Saves are batched and retried on failure.
  */
 
+import { createIdempotencyKey } from '@/lib/idempotencyKey';
+
 export interface ActivityResult {
   activityId?: string;
   activityType: string;
@@ -23,6 +25,7 @@ interface QueuedItem {
   activityId?: string;
   result: ActivityResult;
   retryCount: number;
+  idempotencyKey: string; // Same key for every retry so the server replays instead of re-writing
 }
 
 class BackgroundSaveQueue {
@@ -41,7 +44,8 @@ class BackgroundSaveQueue {
       lessonId,
       activityId,
       result,
-      retryCount: 0
+      retryCount: 0,
+      idempotencyKey: createIdempotencyKey()
     });
     this.scheduleSave();
   }
@@ -132,6 +136,7 @@ class BackgroundSaveQueue {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': item.idempotencyKey,
         },
         body: JSON.stringify(payload),
       });
@@ -0,0 +1,369 @@
+/**
+ * StudentActivityOutbox Service
+ *
+ * Durable outbox for student-track activity results. Every result is written to
+ * IndexedDB before it is posted to submit-student-lesson-activity, so a Wi-Fi
+ * drop, a closed tab or a reload never loses it. Entries are replayed when the
+ * browser comes back online (or on the next page load) and removed only after
+ * the server confirms. Each entry carries an idempotency key so replays are
+ * de-duplicated server-side.
+ */
+
+import { apiClient } from '@/lib/api'
+import { createIdempotencyKey } from '@/lib/idempotencyKey'
+
+export type OutboxEntryStatus = 'pending' | 'syncing' | 'rejected'
+
+export interface OutboxActivityPayload {
+  studentLessonId: string
+  activityId?: string
+  activityType: string
+  activityOrder: number
+  /** Lesson version the activity was rendered from; the server pins the attempt to it */
+  lessonVersion?: number
+  score?: number
+  maxScore?: number
+  attempts?: number
+  timeSpent?: number
+  completedAt: string
+  answers?: unknown
+  feedback?: unknown
+  isFinal?: boolean
+}
+
+export interface OutboxEntry {
+  idempotencyKey: string
+  userId: string
+  studentLessonId: string
+  activityOrder: number
+  payload: OutboxActivityPayload
+  status: OutboxEntryStatus
+  attempts: number
+  lastError?: string | null
+  createdAt: number
+  lastAttemptAt?: number | null
+}
+
+type Listener = (entries: OutboxEntry[]) => void
+
+const DB_NAME = 'tutorcat_student_outbox'
+const DB_VERSION = 1
+const STORE_NAME = 'activity_results'
+const RETRY_BASE_MS = 2000
+const RETRY_MAX_MS = 60000
+
+let db: IDBDatabase | null = null
+let idbUnavailable = false
+// Used only when IndexedDB cannot be opened (e.g. some private browsing modes)
+const memoryStore = new Map<string, OutboxEntry>()
+
+/**
+ * Initialize IndexedDB
+ */
+function initDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof window === 'undefined' || typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB not available'))
+      return
+    }
+
+    if (db) {
+      resolve(db)
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onerror = () => {
+      reject(request.error || new Error('Failed to open IndexedDB'))
+    }
+
+    request.onsuccess = () => {
+      db = request.result
+      resolve(db)
+    }
+
+    request.onupgradeneeded = (event) => {
+      const database = (event.target as IDBOpenDBRequest).result
+      if (!database.objectStoreNames.contains(STORE_NAME)) {
+        const objectStore = database.createObjectStore(STORE_NAME, { keyPath: 'idempotencyKey' })
+        objectStore.createIndex('userId', 'userId', { unique: false })
+      }
+    }
+  })
+}
+
+async function getDB(): Promise<IDBDatabase | null> {
+  if (idbUnavailable) return null
+  try {
+    return await initDB()
+  } catch (e) {
+    idbUnavailable = true
+    console.warn('StudentActivityOutbox: IndexedDB unavailable, falling back to memory', e)
+    return null
+  }
+}
+
+async function putEntry(entry: OutboxEntry): Promise<void> {
+  const database = await getDB()
+  if (!database) {
+    memoryStore.set(entry.idempotencyKey, entry)
+    return
+  }
+  await new Promise<void>((resolve, reject) => {
+    const transaction = database.transaction([STORE_NAME], 'readwrite')
+    transaction.objectStore(STORE_NAME).put(entry)
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+async function deleteEntry(idempotencyKey: string): Promise<void> {
+  const database = await getDB()
+  if (!database) {
+    memoryStore.delete(idempotencyKey)
+    return
+  }
+  await new Promise<void>((resolve, reject) => {
+    const transaction = database.transaction([STORE_NAME], 'readwrite')
+    transaction.objectStore(STORE_NAME).delete(idempotencyKey)
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+async function getEntriesForUser(userId: string): Promise<OutboxEntry[]> {
+  const database = await getDB()
+  let entries: OutboxEntry[]
+  if (!database) {
+    entries = [...memoryStore.values()].filter((e) => e.userId === userId)
+  } else {
+    entries = await new Promise<OutboxEntry[]>((resolve, reject) => {
+      const transaction = database.transaction([STORE_NAME], 'readonly')
+      const request = transaction.objectStore(STORE_NAME).index('userId').getAll(userId)
+      request.onsuccess = () => resolve((request.result as OutboxEntry[]) || [])
+      request.onerror = () => reject(request.error)
+    })
+  }
+  return entries.sort((a, b) => a.createdAt - b.createdAt)
+}
+
+/** 4xx other than auth / in-flight replay / rate limit means the server will never accept this payload. */
+function isPermanentFailure(status: number | undefined): boolean {
+  if (status == null) return false
+  if (status === 401 || status === 408 || status === 409 || status === 429) return false
+  return status >= 400 && status < 500
+}
+
+class StudentActivityOutbox {
+  private listeners = new Set<Listener>()
+  private flushing: Promise<void> | null = null
+  private flushAgain = false
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private retryDelayMs = RETRY_BASE_MS
+  private activeUserId: string | null = null
+  private onlineHandler: (() => void) | null = null
+
+  /**
+   * Persist an activity result and try to send it right away.
+   * Resolves once the entry is durable (not once it is synced).
+   */
+  async enqueue(userId: string, payload: OutboxActivityPayload): Promise<OutboxEntry> {
+    const existing = await getEntriesForUser(userId)
+    // A newer result for the same activity supersedes an unsent older one
+    for (const e of existing) {
+      if (
+        e.studentLessonId === payload.studentLessonId &&
+        e.activityOrder === payload.activityOrder &&
+        e.status !== 'syncing'
+      ) {
+        await deleteEntry(e.idempotencyKey)
+      }
+    }
+
+    const entry: OutboxEntry = {
+      idempotencyKey: createIdempotencyKey(),
+      userId,
+      studentLessonId: payload.studentLessonId,
+      activityOrder: payload.activityOrder,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      lastError: null,
+      createdAt: Date.now(),
+      lastAttemptAt: null,
+    }
+    await putEntry(entry)
+    await this.notify(userId)
+    void this.flush(userId)
+    return entry
+  }
+
+  /**
+   * Entries still waiting for server confirmation (optionally for one lesson)
+   */
+  async getEntries(userId: string, studentLessonId?: string): Promise<OutboxEntry[]> {
+    try {
+      const entries = await getEntriesForUser(userId)
+      return studentLessonId
+        ? entries.filter((e) => e.studentLessonId === studentLessonId)
+        : entries
+    } catch (e) {
+      console.warn('StudentActivityOutbox.getEntries failed', e)
+      return []
+    }
+  }
+
+  /**
+   * Send every pending entry for the user, oldest first.
+   * Concurrent callers share the same in-flight flush, which runs again before
+   * it resolves so entries queued meanwhile are sent too.
+   */
+  flush(userId: string): Promise<void> {
+    if (this.flushing) {
+      this.flushAgain = true
+      return this.flushing
+    }
+    this.flushing = (async () => {
+      try {
+        let sent: boolean
+        do {
+          this.flushAgain = false
+          sent = await this.runFlush(userId)
+        } while (sent && this.flushAgain)
+      } finally {
+        this.flushing = null
+      }
+    })()
+    return this.flushing
+  }
+
+  /**
+   * Replay pending entries now and whenever the browser reports it is back online.
+   * Call once per mounted lesson runner; returns an unsubscribe for cleanup.
+   */
+  start(userId: string): () => void {
+    this.activeUserId = userId
+    if (typeof window !== 'undefined' && !this.onlineHandler) {
+      this.onlineHandler = () => {
+        this.retryDelayMs = RETRY_BASE_MS
+        if (this.activeUserId) void this.flush(this.activeUserId)
+      }
+      window.addEventListener('online', this.onlineHandler)
+    }
+    void this.flush(userId)
+    return () => this.stop()
+  }
+
+  stop(): void {
+    if (typeof window !== 'undefined' && this.onlineHandler) {
+      window.removeEventListener('online', this.onlineHandler)
+    }
+    this.onlineHandler = null
+    this.activeUserId = null
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+  }
+
+  /**
+   * Subscribe to outbox changes; listener receives the user's current entries
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Drop an entry the server rejected (student chose to discard it)
+   */
+  async discard(userId: string, idempotencyKey: string): Promise<void> {
+    await deleteEntry(idempotencyKey)
+    await this.notify(userId)
+  }
+
+  /**
+   * One pass over the entries stored when it starts. Returns false when it
+   * stopped on a transient failure (a retry is scheduled instead).
+   */
+  private async runFlush(userId: string): Promise<boolean> {
+    const entries = (await getEntriesForUser(userId)).filter((e) => e.status !== 'rejected')
+    if (entries.length === 0) return true
+
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      this.scheduleRetry(userId)
+      return false
+    }
+
+    let hadTransientFailure = false
+
+    for (const entry of entries) {
+      const sending: OutboxEntry = {
+        ...entry,
+        status: 'syncing',
+        attempts: entry.attempts + 1,
+        lastAttemptAt: Date.now(),
+      }
+      await putEntry(sending)
+      await this.notify(userId)
+
+      const res = await apiClient.submitStudentLessonActivity(
+        entry.payload as unknown as Record<string, unknown>,
+        { idempotencyKey: entry.idempotencyKey }
+      )
+
+      if (res.success) {
+        await deleteEntry(entry.idempotencyKey)
+      } else if (isPermanentFailure(res.status)) {
+        console.error('StudentActivityOutbox: server rejected activity result', {
+          activityOrder: entry.activityOrder,
+          status: res.status,
+          error: res.error,
+        })
+        await putEntry({ ...sending, status: 'rejected', lastError: res.error || null })
+      } else {
+        hadTransientFailure = true
+        await putEntry({ ...sending, status: 'pending', lastError: res.error || null })
+        await this.notify(userId)
+        // Keep the original order: stop here and retry the rest later
+        break
+      }
+      await this.notify(userId)
+    }
+
+    if (hadTransientFailure) {
+      this.scheduleRetry(userId)
+      return false
+    }
+    this.retryDelayMs = RETRY_BASE_MS
+    return true
+  }
+
+  private scheduleRetry(userId: string): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer)
+    const delay = this.retryDelayMs
+    this.retryDelayMs = Math.min(this.retryDelayMs * 2, RETRY_MAX_MS)
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      void this.flush(userId)
+    }, delay)
+  }
+
+  private async notify(userId: string): Promise<void> {
+    if (this.listeners.size === 0) return
+    const entries = await this.getEntries(userId)
+    this.listeners.forEach((listener) => {
+      try {
+        listener(entries)
+      } catch (e) {
+        console.error('StudentActivityOutbox listener failed', e)
+      }
+    })
+  }
+}
+
+// Export singleton instance
+export const studentActivityOutbox = new StudentActivityOutbox()
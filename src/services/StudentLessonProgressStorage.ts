@@ -1,7 +1,11 @@
 /**
  * Local backup for student lesson progress (used with server saves).
+ * Unsynced activity results live in the IndexedDB outbox (StudentActivityOutbox).
  */
 
+import type { StudentActivityResult } from '@/types/student'
+import { studentActivityOutbox, type OutboxEntry } from './StudentActivityOutbox'
+
 export interface StudentLessonLocalProgress {
   studentLessonId: string
   userId: string
@@ -54,4 +58,30 @@ export const studentLessonProgressStorage = {
     if (typeof window === 'undefined') return
     localStorage.removeItem(key(userId, studentLessonId))
   },
+
+  /**
+   * Results recorded on this device that the server has not confirmed yet.
+   * Rejected entries are excluded: the student has to redo those activities.
+   */
+  async loadPendingResults(userId: string, studentLessonId: string): Promise<StudentActivityResult[]> {
+    if (typeof window === 'undefined') return []
+    const entries = await studentActivityOutbox.getEntries(userId, studentLessonId)
+    return entries.filter((e) => e.status !== 'rejected').map(outboxEntryToResult)
+  },
+}
+
+export function outboxEntryToResult(entry: OutboxEntry): StudentActivityResult {
+  const p = entry.payload
+  return {
+    activityId: p.activityId ?? null,
+    activityType: p.activityType,
+    activityOrder: p.activityOrder,
+    score: p.score ?? 0,
+    maxScore: p.maxScore ?? 0,
+    attempts: p.attempts ?? 1,
+    timeSpent: p.timeSpent,
+    completed: true,
+    answers: p.answers,
+    feedback: p.feedback,
+  }
 }
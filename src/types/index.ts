@@ -7,7 +7,7 @@ export interface User {
   firstName?: string
   lastName?: string
   level: string // 'A1', 'A2', 'B1', 'B2', 'C1', 'C2'
-  role?: string // 'user' | 'admin' | 'student'
+  role?: string // 'user' | 'admin' | 'student' | 'teacher'
   schoolStudentId?: string | null
   honorific?: string | null
   nickname?: string | null
@@ -135,6 +135,18 @@ export interface AuthState {
   isAuthenticated: boolean
 }
 
+/** An active login session as listed on "My devices" (functions/auth-sessions) */
+export interface UserSession {
+  id: string
+  /** e.g. "Chrome on Windows" */
+  device: string
+  ip_region: string | null
+  created_at: string
+  last_seen_at: string | null
+  /** The session this browser is using */
+  current: boolean
+}
+
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean
@@ -84,6 +84,8 @@ export interface StudentLessonActivity {
   vocabulary_items?: StudentVocabularyItem[]
   grammar_items?: StudentGrammarItem[]
   poll_items?: StudentPollItem[]
+  /** Set by get-student-lesson when content fails its schema (src/lib/studentActivityContent.ts) */
+  content_issues?: Array<{ path: string; message: string }>
   created_at?: string
   updated_at?: string
 }
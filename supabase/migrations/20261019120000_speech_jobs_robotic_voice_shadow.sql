@@ -0,0 +1,17 @@
+-- Versioned robotic-voice scorer: which version decided, plus a shadow candidate's result
+-- (ROBOTIC_VOICE_SHADOW_VERSION) so versions can be compared on real traffic before promotion.
+
+ALTER TABLE IF EXISTS speech_jobs
+  ADD COLUMN IF NOT EXISTS robotic_voice_scorer_version TEXT,
+  ADD COLUMN IF NOT EXISTS robotic_voice_shadow_version TEXT,
+  ADD COLUMN IF NOT EXISTS robotic_voice_shadow JSONB,
+  ADD COLUMN IF NOT EXISTS robotic_voice_shadow_disagrees BOOLEAN;
+
+CREATE INDEX IF NOT EXISTS idx_speech_jobs_robotic_voice_shadow_disagrees
+  ON speech_jobs (robotic_voice_shadow_version, created_at DESC)
+  WHERE robotic_voice_shadow_disagrees = TRUE;
+
+COMMENT ON COLUMN speech_jobs.robotic_voice_scorer_version IS 'Active robotic-voice scorer version that produced robotic_voice_* columns.';
+COMMENT ON COLUMN speech_jobs.robotic_voice_shadow_version IS 'Candidate scorer version run in shadow (log-only); NULL when no shadow ran.';
+COMMENT ON COLUMN speech_jobs.robotic_voice_shadow IS 'Full shadow scorer result (score, signals); never used to block.';
+COMMENT ON COLUMN speech_jobs.robotic_voice_shadow_disagrees IS 'True when shadow and active differ on would_flag or delivery_mode.';
@@ -0,0 +1,73 @@
+import {
+  AdaptiveSequenceError,
+  estimateToPercentage,
+  replayAdaptivePlacement,
+  splitAdaptiveQuestions,
+  type AdaptiveQuestion,
+  type AdaptiveResponse,
+} from '../functions/lib/adaptive-placement'
+
+const LEVELS = ['Pre-A1', 'A1', 'A2', 'B1', 'B2', 'C1', 'C2']
+
+// Three items per level, answer "ok" is always correct
+const bank: AdaptiveQuestion[] = LEVELS.flatMap((level) =>
+  [1, 2, 3].map((n) => ({ id: `${level}-${n}`, question_type: 'multiple_choice', level, correct_answer: 'ok', points: 1 }))
+)
+
+/** Simulate a student who answers correctly up to (and including) `trueLevel`. */
+function simulate(trueLevel: number, questions = bank) {
+  const responses: AdaptiveResponse[] = []
+  let state = replayAdaptivePlacement(questions, responses)
+  while (!state.done) {
+    const next = questions.find((q) => q.id === state.next_question_id)!
+    responses.push({ question_id: next.id, answer: LEVELS.indexOf(next.level!) <= trueLevel ? 'ok' : 'no' })
+    state = replayAdaptivePlacement(questions, responses)
+  }
+  return { state, responses }
+}
+
+describe('adaptive placement', () => {
+  it('keeps untagged and constructed-response items out of the adaptive pool', () => {
+    const { pool, fixed } = splitAdaptiveQuestions([
+      { id: 'a', question_type: 'dropdown', level: 'B1', correct_answer: 'x' },
+      { id: 'b', question_type: 'speaking', level: 'B1' },
+      { id: 'c', question_type: 'multiple_choice', correct_answer: 'x' },
+      { id: 'd', question_type: 'drag_fill', level: 'Z9', correct_answer: 'x' },
+    ])
+    expect(pool.map((q) => q.id)).toEqual(['a'])
+    expect(fixed.map((q) => q.id)).toEqual(['b', 'c', 'd'])
+  })
+
+  it('starts at A2 and converges near the student level', () => {
+    expect(replayAdaptivePlacement(bank, []).next_question_id).toBe('A2-1')
+
+    const strong = simulate(4).state
+    expect(strong.stop_reason).toBe('converged')
+    expect(strong.level).toBe('B2')
+    expect(strong.path.length).toBeLessThan(bank.length)
+
+    const weak = simulate(0).state
+    expect(['Pre-A1', 'A1']).toContain(weak.level)
+    expect(weak.path[0]).toMatchObject({ question_id: 'A2-1', correct: false, ability_before: 2, ability_after: 1 })
+  })
+
+  it('stops when the bank runs out and rejects answers off the served path', () => {
+    const small = bank.filter((q) => q.level === 'A2')
+    const { state } = simulate(6, small)
+    expect(state.stop_reason).toBe('exhausted')
+    expect(state.path).toHaveLength(3)
+
+    expect(() => replayAdaptivePlacement(bank, [{ question_id: 'C2-1', answer: 'ok' }])).toThrow(AdaptiveSequenceError)
+    const { responses } = simulate(3)
+    expect(() => replayAdaptivePlacement(bank, [...responses, { question_id: 'A1-1', answer: 'ok' }])).toThrow(
+      'Adaptive section already finished'
+    )
+  })
+
+  it('maps the boundary estimate to the CEFR percentage scale', () => {
+    expect(estimateToPercentage(0)).toBe(10)
+    expect(estimateToPercentage(3.5)).toBe(65)
+    expect(estimateToPercentage(4)).toBe(70)
+    expect(estimateToPercentage(9)).toBe(95)
+  })
+})
@@ -0,0 +1,63 @@
+import { auditRequestMetadata, auditSnapshot } from '../functions/lib/admin-audit'
+
+describe('auditSnapshot', () => {
+  it('redacts credential-like keys at any depth', () => {
+    expect(
+      auditSnapshot({
+        email: 'a@example.com',
+        password_hash: '$2b$10$abc',
+        nested: { access_token: 'jwt', level: 'A2' },
+      })
+    ).toEqual({
+      email: 'a@example.com',
+      password_hash: '[redacted]',
+      nested: { access_token: '[redacted]', level: 'A2' },
+    })
+  })
+
+  it('turns dates into ISO strings and drops undefined fields', () => {
+    const at = new Date('2026-10-19T08:00:00.000Z')
+    expect(auditSnapshot({ created_at: at, notes: undefined, active: false })).toEqual({
+      created_at: '2026-10-19T08:00:00.000Z',
+      active: false,
+    })
+    expect(auditSnapshot(undefined)).toBeNull()
+  })
+
+  it('cuts long strings and arrays', () => {
+    const snapshot = auditSnapshot({ text: 'x'.repeat(2500), ids: Array.from({ length: 205 }, (_, i) => i) }) as {
+      text: string
+      ids: unknown[]
+    }
+    expect(snapshot.text).toHaveLength(2001)
+    expect(snapshot.ids).toHaveLength(201)
+    expect(snapshot.ids[200]).toBe('… 5 more')
+  })
+})
+
+describe('auditRequestMetadata', () => {
+  it('records method, path, client IP and device', () => {
+    expect(
+      auditRequestMetadata({
+        httpMethod: 'DELETE',
+        path: '/.netlify/functions/admin-delete-user/42',
+        headers: {
+          'x-forwarded-for': '203.0.113.7, 10.0.0.1',
+          'x-country': 'TH',
+          'user-agent':
+            'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36',
+        },
+      })
+    ).toEqual({
+      method: 'DELETE',
+      path: '/.netlify/functions/admin-delete-user/42',
+      ip: '203.0.113.7',
+      region: 'TH',
+      device: 'Chrome on Windows',
+    })
+  })
+
+  it('leaves unknown fields null', () => {
+    expect(auditRequestMetadata({})).toEqual({ method: null, path: null, ip: null, region: null, device: null })
+  })
+})
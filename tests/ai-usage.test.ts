@@ -0,0 +1,131 @@
+import {
+  aiQuotaDecision,
+  aiQuotaResponse,
+  chatCompletionUsage,
+  estimateAiCostUsd,
+  estimateAudioSeconds,
+  recordAiUsage,
+  transcriptionUsage,
+} from '../functions/lib/ai-usage'
+
+const student = { dailyLimitUsd: 0.5, monthlyLimitUsd: 5 }
+const now = new Date('2026-10-19T15:00:00Z')
+
+describe('estimateAiCostUsd', () => {
+  it('prices tokens, audio minutes, characters and images', () => {
+    expect(estimateAiCostUsd(chatCompletionUsage('gpt-5-mini', { prompt_tokens: 1000, completion_tokens: 500 }))).toBe(
+      0.00125
+    )
+    expect(estimateAiCostUsd({ provider: 'openai', model: 'whisper-1', audioSeconds: 90 })).toBe(0.009)
+    expect(estimateAiCostUsd({ provider: 'openai', model: 'tts-1', characters: 2000 })).toBe(0.03)
+    expect(estimateAiCostUsd({ provider: 'openai', model: 'dall-e-3', images: 2 })).toBe(0.08)
+    expect(estimateAiCostUsd({ provider: 'openai', model: 'some-new-model', inputTokens: 1e6 })).toBe(0)
+  })
+
+  it('treats a missing usage block as zero tokens', () => {
+    expect(chatCompletionUsage('gpt-4o-mini', undefined)).toEqual({
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      inputTokens: 0,
+      outputTokens: 0,
+    })
+  })
+})
+
+describe('transcriptionUsage', () => {
+  it('skips the local provider and prefers the reported duration', () => {
+    expect(transcriptionUsage({ provider: 'local', text: 'hi' } as never)).toBeNull()
+    expect(
+      transcriptionUsage({ provider: 'openai', text: 'hi', whisper_verbose: { duration: 42 } } as never, 60)
+    ).toEqual({ provider: 'openai', model: 'whisper-1', audioSeconds: 42 })
+    expect(transcriptionUsage({ provider: 'assemblyai', text: 'hi' } as never, 12)).toEqual({
+      provider: 'assemblyai',
+      model: 'universal',
+      audioSeconds: 12,
+    })
+  })
+})
+
+describe('estimateAudioSeconds', () => {
+  it('guesses from the upload size at the recorder bitrate, or 16 kHz mono for WAV', () => {
+    expect(estimateAudioSeconds(480_000, 'audio/webm;codecs=opus')).toBe(60)
+    expect(estimateAudioSeconds(480_000, null)).toBe(60)
+    expect(estimateAudioSeconds(960_000, 'audio/wav')).toBe(30)
+    expect(estimateAudioSeconds(10, 'audio/mp4')).toBe(1)
+  })
+})
+
+describe('aiQuotaDecision', () => {
+  it('allows callers under both budgets and unlimited roles', () => {
+    expect(aiQuotaDecision({ todayUsd: 0.1, thisMonthUsd: 1 }, student, now)).toMatchObject({
+      allowed: true,
+      exceeded: null,
+      resetsAt: null,
+    })
+    expect(
+      aiQuotaDecision({ todayUsd: 50, thisMonthUsd: 500 }, { dailyLimitUsd: null, monthlyLimitUsd: null }, now).allowed
+    ).toBe(true)
+  })
+
+  it('resets a spent daily budget at the next UTC midnight', () => {
+    expect(aiQuotaDecision({ todayUsd: 0.5, thisMonthUsd: 1 }, student, now)).toMatchObject({
+      allowed: false,
+      exceeded: 'daily',
+      resetsAt: '2026-10-20T00:00:00.000Z',
+    })
+  })
+
+  it('reports the monthly budget first when both are spent', () => {
+    expect(aiQuotaDecision({ todayUsd: 0.6, thisMonthUsd: 5.2 }, student, now)).toMatchObject({
+      allowed: false,
+      exceeded: 'monthly',
+      resetsAt: '2026-11-01T00:00:00.000Z',
+    })
+  })
+})
+
+describe('aiQuotaResponse', () => {
+  it('answers 429 with a try-again-tomorrow message and Retry-After', () => {
+    const status = aiQuotaDecision({ todayUsd: 0.5, thisMonthUsd: 1 }, student, now)
+    const response = aiQuotaResponse(status, { 'Access-Control-Allow-Origin': '*' }, now)
+    expect(response.statusCode).toBe(429)
+    expect(response.headers).toMatchObject({ 'Access-Control-Allow-Origin': '*', 'Retry-After': String(9 * 3600) })
+    expect(JSON.parse(response.body)).toMatchObject({
+      success: false,
+      code: 'ai_quota_exceeded',
+      error: "You've used today's AI practice allowance. Please try again tomorrow.",
+      quota: { period: 'daily', daily_limit_usd: 0.5, resets_at: '2026-10-20T00:00:00.000Z' },
+    })
+  })
+})
+
+describe('recordAiUsage', () => {
+  it('keeps a non-UUID user id out of the user column', async () => {
+    const calls: unknown[][] = []
+    const sql = ((strings: TemplateStringsArray, ...values: unknown[]) => {
+      calls.push(values)
+      return Promise.resolve([])
+    }) as never
+    await recordAiUsage(sql, {
+      provider: 'openai',
+      model: 'whisper-1',
+      audioSeconds: 60,
+      feature: 'speech_job',
+      userId: 'anon-123',
+      role: null,
+    })
+    expect(calls).toHaveLength(1)
+    expect(calls[0]).toContain(null)
+    expect(calls[0]).toContain(0.006)
+    expect(JSON.stringify(calls[0])).toContain('anon-123')
+  })
+
+  it('never throws when the insert fails', async () => {
+    const sql = (() => Promise.reject(new Error('db down'))) as never
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => {})
+    await expect(
+      recordAiUsage(sql, { provider: 'openai', model: 'tts-1', characters: 10, feature: 'tts', userId: null, role: null })
+    ).resolves.toBeUndefined()
+    spy.mockRestore()
+  })
+})
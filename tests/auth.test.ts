@@ -0,0 +1,69 @@
+import * as jwt from 'jsonwebtoken'
+import { authenticate, readCookie, verifyAuthToken } from '../functions/lib/auth'
+
+const SECRET = 'test-secret'
+
+function sign(claims: Record<string, unknown>): string {
+  return jwt.sign(claims, SECRET, { expiresIn: '1h' })
+}
+
+describe('lib/auth', () => {
+  const originalSecret = process.env.JWT_SECRET
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = SECRET
+  })
+
+  afterAll(() => {
+    process.env.JWT_SECRET = originalSecret
+  })
+
+  it('reads a cookie by name', () => {
+    expect(readCookie('a=1; admin_token=abc.def=; b=2', 'admin_token')).toBe('abc.def=')
+    expect(readCookie('a=1', 'admin_token')).toBeNull()
+  })
+
+  it('accepts an allowed role and returns the identity', async () => {
+    const token = sign({ userId: 'u1', email: 'a@example.com', role: 'admin', type: 'admin' })
+    const result = await verifyAuthToken(token, { roles: ['admin'], requireDbCheck: false })
+
+    expect(result).toEqual({
+      ok: true,
+      identity: { userId: 'u1', email: 'a@example.com', role: 'admin', sessionId: null },
+    })
+  })
+
+  it('answers 403 for a role the function does not allow', async () => {
+    const token = sign({ userId: 'u2', role: 'teacher', type: 'admin' })
+    const result = await verifyAuthToken(token, { roles: ['admin'], requireDbCheck: false })
+
+    expect(result).toMatchObject({ ok: false, statusCode: 403, code: 'forbidden' })
+  })
+
+  it('rejects session tokens and bad signatures', async () => {
+    const sessionToken = sign({ userId: 'u3', role: 'student', type: 'session' })
+    const forged = jwt.sign({ userId: 'u3', role: 'admin' }, 'other-secret')
+
+    expect(await verifyAuthToken(sessionToken, { roles: ['student'], requireDbCheck: false })).toMatchObject({
+      ok: false,
+      statusCode: 401,
+      code: 'invalid_token',
+    })
+    expect(await verifyAuthToken(forged, { roles: ['admin'], requireDbCheck: false })).toMatchObject({
+      ok: false,
+      statusCode: 401,
+      code: 'invalid_token',
+    })
+  })
+
+  it('reads admin_token only when a staff role is allowed', async () => {
+    const token = sign({ userId: 'u4', role: 'student', type: 'access' })
+
+    expect(
+      await authenticate({ headers: { cookie: `admin_token=${token}` } }, { roles: ['student'], requireDbCheck: false })
+    ).toMatchObject({ ok: false, statusCode: 401, code: 'auth_required' })
+    expect(
+      await authenticate({ headers: { cookie: `access_token=${token}` } }, { roles: ['student'], requireDbCheck: false })
+    ).toMatchObject({ ok: true })
+  })
+})
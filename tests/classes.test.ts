@@ -0,0 +1,23 @@
+import { buildRosterCsv, canAccessClass } from '../functions/lib/classes'
+
+describe('classes', () => {
+  it('scopes teachers to their own classes and lets admins see every class', () => {
+    expect(canAccessClass(null, 'c1')).toBe(true)
+    expect(canAccessClass(['c1', 'c2'], 'c2')).toBe(true)
+    expect(canAccessClass(['c1'], 'c3')).toBe(false)
+    expect(canAccessClass([], 'c1')).toBe(false)
+  })
+
+  it('exports the roster as CSV with quoting for commas and quotes', () => {
+    const csv = buildRosterCsv([
+      { school_student_id: '52439', nickname: 'Nok', honorific: 'Ms', first_name: 'Anong', last_name: 'Sae-Lim' },
+      { school_student_id: null, nickname: 'Big "B"', honorific: null, first_name: 'Lee, Jr', last_name: null },
+    ])
+    expect(csv.split('\r\n')).toEqual([
+      'ID,Nick,Honorific,First name,Last name',
+      '52439,Nok,Ms,Anong,Sae-Lim',
+      ',"Big ""B""",,"Lee, Jr",',
+      '',
+    ])
+  })
+})
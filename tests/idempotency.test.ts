@@ -0,0 +1,146 @@
+import { startIdempotentRequest } from '../functions/idempotency'
+
+interface KeyRow {
+  id: string
+  request_hash: string
+  status: 'in_progress' | 'completed'
+  response_status: number | null
+  response_body: string | null
+  created_at: number
+  expires_at: number
+}
+
+/** In-memory idempotency_keys table answering the handful of statements the module sends. */
+function fakeSql() {
+  const rows = new Map<string, KeyRow>()
+  const clock = { now: 0 }
+  let nextId = 1
+  const find = (id: unknown) => [...rows.entries()].find(([, row]) => row.id === id)
+
+  const sql = (strings: TemplateStringsArray, ...values: unknown[]) => {
+    const text = strings.join('?')
+    if (text.includes('INSERT INTO idempotency_keys')) {
+      const [userId, endpoint, key, requestHash] = values as string[]
+      const k = `${userId}|${endpoint}|${key}`
+      if (rows.has(k)) return Promise.resolve([])
+      const id = String(nextId++)
+      rows.set(k, {
+        id,
+        request_hash: requestHash,
+        status: 'in_progress',
+        response_status: null,
+        response_body: null,
+        created_at: clock.now,
+        expires_at: clock.now + 24 * 3600_000,
+      })
+      return Promise.resolve([{ id }])
+    }
+    if (text.trim().startsWith('SELECT')) {
+      const [userId, endpoint, key] = values as string[]
+      const row = rows.get(`${userId}|${endpoint}|${key}`)
+      return Promise.resolve(row ? [{ ...row, expired: row.expires_at < clock.now }] : [])
+    }
+    if (text.includes('SET request_hash')) {
+      const [requestHash, userId, endpoint, key, staleSeconds] = values as [string, string, string, string, number]
+      const row = rows.get(`${userId}|${endpoint}|${key}`)
+      const takeOver =
+        row &&
+        (row.expires_at < clock.now ||
+          (row.status === 'in_progress' && row.created_at < clock.now - staleSeconds * 1000))
+      if (!row || !takeOver) return Promise.resolve([])
+      Object.assign(row, {
+        request_hash: requestHash,
+        status: 'in_progress',
+        response_status: null,
+        response_body: null,
+        created_at: clock.now,
+        expires_at: clock.now + 24 * 3600_000,
+      })
+      return Promise.resolve([{ id: row.id }])
+    }
+    if (text.includes("SET status = 'completed'")) {
+      const [status, body, id] = values
+      const entry = find(id)
+      if (entry) Object.assign(entry[1], { status: 'completed', response_status: status, response_body: body })
+      return Promise.resolve([])
+    }
+    if (text.includes('DELETE FROM idempotency_keys')) {
+      const entry = find(values[0])
+      if (entry) rows.delete(entry[0])
+      return Promise.resolve([])
+    }
+    throw new Error(`Unexpected query: ${text}`)
+  }
+  return { sql: sql as never, rows, clock }
+}
+
+const request = (body: string, key = 'lesson-42-attempt-1') => ({ headers: { 'idempotency-key': key }, body })
+const ok = { statusCode: 200, headers: {}, body: JSON.stringify({ success: true, saved: 1 }) }
+
+describe('startIdempotentRequest', () => {
+  it('passes requests without a usable key straight through', async () => {
+    const db = fakeSql()
+    const result = await startIdempotentRequest(db.sql, { headers: { 'idempotency-key': 'short' } }, 'u1', 'finalize-lesson')
+    expect(result.replay).toBeNull()
+    expect(await result.finish(ok)).toBe(ok)
+    expect(db.rows.size).toBe(0)
+  })
+
+  it('replays the stored response for the same key and body', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {})
+    const db = fakeSql()
+    const first = await startIdempotentRequest(db.sql, request('{"score":3}'), 'u1', 'finalize-lesson')
+    expect(first.replay).toBeNull()
+    await first.finish(ok)
+
+    const again = await startIdempotentRequest(db.sql, request('{"score":3}'), 'u1', 'finalize-lesson', {
+      'Access-Control-Allow-Origin': '*',
+    })
+    expect(again.replay).toEqual({
+      statusCode: 200,
+      headers: { 'Access-Control-Allow-Origin': '*', 'Content-Type': 'application/json', 'Idempotent-Replayed': 'true' },
+      body: ok.body,
+    })
+    // Keys are scoped per user and endpoint
+    expect((await startIdempotentRequest(db.sql, request('{"score":3}'), 'u2', 'finalize-lesson')).replay).toBeNull()
+    expect((await startIdempotentRequest(db.sql, request('{"score":3}'), 'u1', 'submit-lesson')).replay).toBeNull()
+    log.mockRestore()
+  })
+
+  it('answers 422 when the key is reused with a different body', async () => {
+    const db = fakeSql()
+    await (await startIdempotentRequest(db.sql, request('{"score":3}'), 'u1', 'finalize-lesson')).finish(ok)
+    const reused = await startIdempotentRequest(db.sql, request('{"score":9}'), 'u1', 'finalize-lesson')
+    expect(reused.replay?.statusCode).toBe(422)
+    expect(JSON.parse(reused.replay?.body || '{}')).toMatchObject({ success: false })
+  })
+
+  it('answers 409 while the first request is in flight and lets a retry take over a stale claim', async () => {
+    const db = fakeSql()
+    await startIdempotentRequest(db.sql, request('{"score":3}'), 'u1', 'finalize-lesson')
+
+    db.clock.now = 60_000
+    const early = await startIdempotentRequest(db.sql, request('{"score":3}'), 'u1', 'finalize-lesson')
+    expect(early.replay?.statusCode).toBe(409)
+    expect(early.replay?.headers).toMatchObject({ 'Retry-After': '2' })
+
+    db.clock.now = 121_000
+    const takeover = await startIdempotentRequest(db.sql, request('{"score":3}'), 'u1', 'finalize-lesson')
+    expect(takeover.replay).toBeNull()
+    await takeover.finish(ok)
+    expect([...db.rows.values()][0]).toMatchObject({ status: 'completed', response_status: 200 })
+  })
+
+  it('releases the key on 5xx and thrown errors so the client can retry', async () => {
+    const db = fakeSql()
+    const failed = await startIdempotentRequest(db.sql, request('{"score":3}'), 'u1', 'finalize-lesson')
+    const error = { statusCode: 503, headers: {}, body: '{"success":false}' }
+    expect(await failed.finish(error)).toBe(error)
+    expect(db.rows.size).toBe(0)
+
+    const retry = await startIdempotentRequest(db.sql, request('{"score":3}'), 'u1', 'finalize-lesson')
+    expect(retry.replay).toBeNull()
+    await retry.release()
+    expect(db.rows.size).toBe(0)
+  })
+})
@@ -0,0 +1,65 @@
+import { analyzeItem, analyzeItems, type ItemAnalysisResult } from '../functions/lib/item-analysis'
+
+const mc = {
+  id: 'q-1',
+  question_type: 'multiple_choice',
+  prompt: 'She ___ to school.',
+  content: { options: ['go', 'goes', 'going'] },
+  correct_answer: 'goes',
+}
+
+function result(overall: number, level: string, answers: Record<string, any>): ItemAnalysisResult {
+  return { overall_percentage: overall, calculated_level: level, answers }
+}
+
+// Strong students pick the key, weak ones the distractor; stored under the sanitized id q_1
+function discriminatingResults(): ItemAnalysisResult[] {
+  return Array.from({ length: 20 }, (_, i) => {
+    const strong = i >= 10
+    return result(strong ? 80 + i : 20 + i, strong ? 'B2' : 'A1', {
+      q_1: { answer: strong ? 'goes' : 'go', score: strong ? 1 : 0, maxScore: 1 },
+    })
+  })
+}
+
+describe('item analysis', () => {
+  it('computes difficulty, discrimination and distractor rates', () => {
+    const item = analyzeItem(mc, discriminatingResults())
+    expect(item.responses).toBe(20)
+    expect(item.difficulty).toBe(0.5)
+    expect(item.discrimination).toBe(1)
+    expect(item.distractors).toEqual([
+      { option: 'go', count: 10, rate: 0.5, is_key: false },
+      { option: 'goes', count: 10, rate: 0.5, is_key: true },
+      { option: 'going', count: 0, rate: 0, is_key: false },
+    ])
+    expect(item.level_rates).toEqual([
+      { level: 'A1', responses: 10, difficulty: 0 },
+      { level: 'B2', responses: 10, difficulty: 1 },
+    ])
+    expect(item.flags).toEqual([])
+  })
+
+  it('flags mis-keyed items that invert against placed level', () => {
+    // Same data with the key on the weak students' answer
+    const item = analyzeItem({ ...mc, correct_answer: 'go' }, discriminatingResults().map((r) => {
+      const a = r.answers!.q_1
+      return { ...r, answers: { q_1: { ...a, score: a.answer === 'go' ? 1 : 0 } } }
+    }))
+    expect(item.discrimination).toBe(-1)
+    expect(item.inverted).toBe(true)
+    expect(item.flags).toEqual(['negative_discrimination', 'inverted'])
+  })
+
+  it('skips ungraded answers and holds flags until there are enough responses', () => {
+    const results = [
+      result(90, 'C1', { 'q-2': { answer: 'x', score: 3, maxScore: 4 } }),
+      result(10, 'A1', { 'q-2': { answer: 'y', score: 0, maxScore: 4, pending_grading: true } }),
+      result(50, 'A2', {}),
+      result(40, 'A2', null as any),
+    ]
+    const report = analyzeItems([{ id: 'q-2', question_type: 'writing' }], results)
+    expect(report.results_analyzed).toBe(4)
+    expect(report.items[0]).toMatchObject({ responses: 1, difficulty: 0.75, discrimination: null, distractors: null, flags: [] })
+  })
+})
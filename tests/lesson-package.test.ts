@@ -0,0 +1,187 @@
+import {
+  applyLessonPackage,
+  buildLessonPackage,
+  diffLessonPackage,
+  parseLessonPackage,
+  type LessonPackage,
+} from '../functions/lib/lesson-package'
+
+const lessonRow = {
+  id: '00000000-0000-0000-0000-000000000001',
+  lesson_number: 1,
+  topic: 'My Online Life',
+  slug: 'my-online-life',
+  live_duration_minutes: 50,
+  communication_goal: 'Talk about apps you use',
+  grammar_focus: '{"structure":"present simple","examples":["I use TikTok."]}',
+  vocabulary_list: ['app', 'post'],
+  version: 3,
+}
+
+const activityRows = [
+  {
+    activity_type: 'student_vocabulary_intro',
+    activity_order: 2,
+    title: 'Words',
+    description: null,
+    estimated_time_seconds: 120,
+    content: { layout: 'cards' },
+    vocabulary_items: JSON.stringify([
+      { id: 'vocab-2', english_word: 'post', sort_order: 2, thai_translation: 'โพสต์' },
+      { id: 'vocab-1', english_word: 'app', sort_order: 1, emoji: '📱' },
+    ]),
+    grammar_items: [],
+    poll_items: [],
+  },
+  {
+    activity_type: 'student_warmup_poll',
+    activity_order: 1,
+    title: 'Warm-up',
+    description: 'How online are you?',
+    estimated_time_seconds: null,
+    content: {},
+    vocabulary_items: [],
+    grammar_items: [],
+    poll_items: [
+      {
+        id: 'p1',
+        question: 'How many hours online?',
+        options: [
+          { id: 'a', label: '1-2' },
+          { id: 'b', label: '3+' },
+        ],
+        allow_multiple: false,
+        correct_option_id: null,
+        sort_order: 0,
+      },
+    ],
+  },
+]
+
+function exported(): LessonPackage {
+  return buildLessonPackage(lessonRow, activityRows, new Date('2026-10-19T00:00:00Z'))
+}
+
+describe('lesson packages', () => {
+  it('exports activities in order with items by sort_order and no database ids', () => {
+    const pkg = exported()
+    expect(pkg.source_version).toBe(3)
+    expect(pkg.lesson.grammar_focus).toEqual({ structure: 'present simple', examples: ['I use TikTok.'] })
+    expect(pkg.activities.map((a) => a.activity_order)).toEqual([1, 2])
+    expect(pkg.activities[1].vocabulary_items.map((v) => v.english_word)).toEqual(['app', 'post'])
+    expect(pkg.activities[1].vocabulary_items[0]).toEqual({
+      english_word: 'app',
+      thai_translation: null,
+      audio_url: null,
+      image_url: null,
+      emoji: '📱',
+      category: null,
+    })
+    expect(JSON.stringify(pkg)).not.toMatch(/vocab-1|p1|00000000/)
+    expect(pkg.activities[0].poll_items[0].options).toEqual([
+      { id: 'a', label: '1-2' },
+      { id: 'b', label: '3+' },
+    ])
+  })
+
+  it('round-trips an exported package through JSON', () => {
+    const pkg = exported()
+    const { package: parsed, issues } = parseLessonPackage(JSON.parse(JSON.stringify(pkg)))
+    expect(issues).toEqual([])
+    expect(parsed).toEqual(pkg)
+    expect(diffLessonPackage(pkg, parsed as LessonPackage).has_changes).toBe(false)
+  })
+
+  it('reports every invalid field with its path', () => {
+    const pkg = JSON.parse(JSON.stringify(exported()))
+    pkg.format_version = 2
+    pkg.lesson.slug = 'My Lesson'
+    pkg.activities[1].activity_order = 1
+    pkg.activities[1].activity_type = 'student_unknown'
+    pkg.activities[0].poll_items[0].correct_option_id = 'z'
+    pkg.activities[0].grammar_items = [{ item_kind: 'essay', correct_sentence: '' }]
+    const { package: parsed, issues } = parseLessonPackage(pkg)
+    expect(parsed).toBeNull()
+    expect(issues.map((i) => i.path)).toEqual([
+      'format_version',
+      'lesson.slug',
+      'activities[0].grammar_items[0].item_kind',
+      'activities[0].grammar_items[0].correct_sentence',
+      'activities[0].poll_items[0].correct_option_id',
+      'activities[1].activity_order',
+      'activities[1].activity_type',
+    ])
+  })
+
+  it('diffs lesson fields and activities by activity_order', () => {
+    const live = exported()
+    const next: LessonPackage = JSON.parse(JSON.stringify(live))
+    next.lesson.topic = 'My Digital Life'
+    // jsonb comes back with its own key order
+    next.lesson.grammar_focus = { examples: ['I use TikTok.'], structure: 'present simple' }
+    next.activities[1].vocabulary_items[1].thai_translation = 'โพสต์ (n.)'
+    next.activities.splice(0, 1)
+    next.activities.push({ ...next.activities[0], activity_order: 3, title: 'Exit', vocabulary_items: [] })
+
+    const diff = diffLessonPackage(live, next)
+    expect(diff.lesson_fields).toEqual([{ field: 'topic', before: 'My Online Life', after: 'My Digital Life' }])
+    expect(diff.activities.map((a) => [a.activity_order, a.status, a.fields])).toEqual([
+      [1, 'removed', []],
+      [2, 'changed', ['vocabulary_items']],
+      [3, 'added', []],
+    ])
+    expect(diff.has_changes).toBe(true)
+  })
+
+  it('treats a package without a live lesson as a creation', () => {
+    const diff = diffLessonPackage(null, exported())
+    expect(diff.created).toBe(true)
+    expect(diff.lesson_fields.map((f) => f.field)).toContain('lesson_number')
+    expect(diff.activities.every((a) => a.status === 'added')).toBe(true)
+  })
+})
+
+interface FakeQuery {
+  text: string
+  values: unknown[]
+}
+
+/** Records the batch; the claim statement (the one calling set_config) returns `claimRows` */
+function fakeSql(claimRows: Array<{ id: string; version: number }>) {
+  const batches: FakeQuery[][] = []
+  const sql = Object.assign(
+    (strings: TemplateStringsArray, ...values: unknown[]): FakeQuery => ({ text: strings.join('$'), values }),
+    {
+      transaction: async (queries: FakeQuery[]) => {
+        batches.push(queries)
+        return queries.map((q) => (q.text.includes('set_config') ? claimRows : []))
+      },
+    }
+  )
+  return { sql: sql as never, batches }
+}
+
+const claimGuarded = (q: FakeQuery) =>
+  q.values.some((v) => typeof (v as FakeQuery)?.text === 'string' && (v as FakeQuery).text.includes('current_setting'))
+
+describe('applyLessonPackage', () => {
+  it('claims the expected version first and reports the new one', async () => {
+    const { sql, batches } = fakeSql([{ id: lessonRow.id, version: 4 }])
+    expect(await applyLessonPackage(sql, exported(), lessonRow, 3)).toEqual({ id: lessonRow.id, version: 4 })
+
+    const [batch] = batches
+    const claimAt = batch.findIndex((q) => q.text.includes('set_config'))
+    // Only the write-once outgoing snapshot runs before the claim
+    expect(claimAt).toBe(1)
+    expect(batch[claimAt].text).toMatch(/UPDATE student_lessons[\s\S]*AND version = \$[\s\S]*RETURNING id, version/)
+    expect(batch[claimAt].values).toContain(3)
+    const writes = batch.slice(claimAt + 1, -1)
+    expect(writes.length).toBeGreaterThan(0)
+    expect(writes.every(claimGuarded)).toBe(true)
+  })
+
+  it('returns null when the lesson moved past the expected version', async () => {
+    const { sql } = fakeSql([])
+    expect(await applyLessonPackage(sql, exported(), lessonRow, 3)).toBeNull()
+  })
+})
@@ -0,0 +1,61 @@
+import { buildLessonVersionReport, type VersionResultRow } from '../functions/lib/lesson-versions'
+
+const versions = [
+  {
+    version: 1,
+    created_at: '2026-09-01T00:00:00.000Z',
+    activities: [
+      { activity_order: 1, activity_type: 'student_warmup_poll', title: 'Warm-up' },
+      { activity_order: 2, activity_type: 'student_grammar_mcq', title: 'Grammar' },
+    ],
+  },
+  {
+    version: 2,
+    created_at: '2026-10-01T00:00:00.000Z',
+    activities: [
+      { activity_order: 1, activity_type: 'student_warmup_poll', title: 'Warm-up' },
+      { activity_order: 2, activity_type: 'student_grammar_drag_order', title: 'Word order' },
+      { activity_order: 3, activity_type: 'student_exit_poll', title: 'Exit' },
+    ],
+  },
+]
+
+function result(user: string, version: number | null, order: number, score: number, max: number): VersionResultRow {
+  return { user_id: user, lesson_version: version, activity_order: order, activity_type: 'student_grammar_mcq', score, max_score: max }
+}
+
+describe('lesson version report', () => {
+  it('groups results by the version they were made against, newest first', () => {
+    const report = buildLessonVersionReport(
+      versions,
+      [result('a', 1, 2, 2, 4), result('b', 1, 2, 4, 4), result('c', 2, 2, 1, 4), result('c', 2, 1, 0, 0)],
+      [
+        { user_id: 'a', lesson_version: 1, completed: true },
+        { user_id: 'b', lesson_version: 1, completed: false },
+        { user_id: 'c', lesson_version: 2, completed: false },
+        { user_id: 'd', lesson_version: 2, completed: false },
+      ]
+    )
+
+    expect(report.map((v) => [v.version, v.students, v.completed, v.average_percentage])).toEqual([
+      [2, 2, 0, 25],
+      [1, 2, 1, 75],
+    ])
+    expect(report[0].activities.map((a) => [a.activity_order, a.activity_type, a.responses, a.average_percentage])).toEqual([
+      [1, 'student_warmup_poll', 1, null],
+      [2, 'student_grammar_drag_order', 1, 25],
+      [3, 'student_exit_poll', 0, null],
+    ])
+    expect(report[1].published_at).toBe('2026-09-01T00:00:00.000Z')
+  })
+
+  it('keeps results from before versioning in their own group', () => {
+    const report = buildLessonVersionReport(versions, [result('a', null, 5, 3, 3)], [])
+    const legacy = report[report.length - 1]
+    expect(legacy.version).toBeNull()
+    expect(legacy.published_at).toBeNull()
+    expect(legacy.activities).toEqual([
+      { activity_order: 5, activity_type: 'student_grammar_mcq', title: null, responses: 1, average_percentage: 100 },
+    ])
+  })
+})
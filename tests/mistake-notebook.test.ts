@@ -0,0 +1,136 @@
+import { buildClassMistakeReport } from '../functions/lib/mistake-notebook'
+import {
+  buildPracticeSession,
+  extractResultMistakes,
+  groupMistakes,
+  mistakePattern,
+  practiceItem,
+  practiceOutcomes,
+  type NotebookMistake,
+} from '../src/lib/mistakeNotebook'
+
+function notebookMistake(id: string, mistake: string, correction: string, overrides: Partial<NotebookMistake> = {}): NotebookMistake {
+  return {
+    id,
+    source: 'speaking',
+    kind: 'grammar',
+    mistake,
+    correction,
+    context: null,
+    pattern_key: mistakePattern(mistake, correction),
+    occurrences: 1,
+    practice_attempts: 0,
+    practice_correct: 0,
+    first_seen_at: '2026-10-19T08:00:00.000Z',
+    last_seen_at: '2026-10-19T08:00:00.000Z',
+    resolved_at: null,
+    ...overrides,
+  }
+}
+
+describe('mistake patterns', () => {
+  it('keeps only the changed words so the same error groups across sentences', () => {
+    expect(mistakePattern('He goes to school yesterday.', 'He went to school yesterday.')).toBe('goes → went')
+    expect(mistakePattern('I like play games', 'I like to play games')).toBe('∅ → to')
+    expect(mistakePattern('i like games', 'I like games.')).toBe('i like games → i like games')
+  })
+
+  it('groups recurring errors, open groups first', () => {
+    const groups = groupMistakes([
+      notebookMistake('a', 'She have a cat', 'She has a cat', { resolved_at: '2026-10-19T09:00:00.000Z', occurrences: 3 }),
+      notebookMistake('b', 'He go home', 'He goes home'),
+      notebookMistake('c', 'She go out', 'She goes out'),
+    ])
+    expect(groups.map((g) => [g.pattern_key, g.occurrences, g.recurring])).toEqual([
+      ['go → goes', 2, true],
+      ['have → has', 3, true],
+    ])
+  })
+})
+
+describe('extractResultMistakes', () => {
+  it('reads per-prompt speaking corrections with their prompt as context', () => {
+    const entries = extractResultMistakes({
+      activity_type: 'student_speaking_cards',
+      answers: { prompts: [{ prompt: 'What did you do?' }, { prompt: 'What do you like?' }] },
+      feedback: JSON.stringify({
+        1: {
+          grammar_corrections: [{ mistake: 'I like play games', correction: 'I like playing games', explanation: '' }],
+          vocabulary_corrections: [{ mistake: 'funny', correction: 'fun' }, { mistake: 'same', correction: 'Same.' }],
+        },
+      }),
+    })
+    expect(entries).toEqual([
+      { source: 'speaking', kind: 'grammar', mistake: 'I like play games', correction: 'I like playing games', context: 'What do you like?' },
+      { source: 'speaking', kind: 'vocabulary', mistake: 'funny', correction: 'fun', context: 'What do you like?' },
+    ])
+  })
+
+  it('fills the chosen MCQ option into the prompt', () => {
+    const entries = extractResultMistakes({
+      activity_type: 'student_grammar_mcq',
+      answers: { completed: true, mistakes: [{ item_id: 'i1', prompt: 'She ___ tennis.', answer: 'play', correct: 'plays' }] },
+    })
+    expect(entries).toEqual([
+      { source: 'grammar_mcq', kind: 'grammar', mistake: 'She play tennis.', correction: 'She plays tennis.', context: 'She ___ tennis.' },
+    ])
+  })
+})
+
+describe('re-practice', () => {
+  it('blanks a short change and falls back to rewriting the sentence', () => {
+    expect(practiceItem(notebookMistake('a', 'I goes to school.', 'I go to school.'))).toEqual({
+      mode: 'fill_blank',
+      mistake_id: 'a',
+      template: 'I ___ to school. (not “goes”)',
+      answer: 'go',
+    })
+    expect(practiceItem(notebookMistake('b', 'Yesterday I go park and eat', 'Yesterday I went to the park and ate')).mode).toBe(
+      'error_fix'
+    )
+  })
+
+  it('maps practice answers back to mistake ids', () => {
+    const session = buildPracticeSession([
+      notebookMistake('m1', 'He go home.', 'He goes home.'),
+      notebookMistake('m2', 'Yesterday I go park and eat', 'Yesterday I went to the park and ate'),
+      notebookMistake('m3', 'They is happy', 'They are happy'),
+    ])
+    expect(session.activities.map((a) => a.activity_type)).toEqual([
+      'student_vocab_missing_letters',
+      'student_grammar_error_fix',
+    ])
+    expect(session.mistakeIds).toEqual([['m1', 'm3'], ['m2']])
+
+    const blanks = practiceOutcomes(session.activities[0], session.mistakeIds[0], { missed_words: ['are'] })
+    expect([...blanks]).toEqual([
+      ['m1', true],
+      ['m3', false],
+    ])
+    const fixes = practiceOutcomes(session.activities[1], session.mistakeIds[1], { mistakes: [] })
+    expect(fixes.get('m2')).toBe(true)
+  })
+})
+
+describe('class mistake report', () => {
+  it('ranks patterns by how many students make them', () => {
+    const report = buildClassMistakeReport(
+      [
+        { user_id: 's1', kind: 'grammar', pattern_key: 'go → goes', mistake: 'He go home', correction: 'He goes home', occurrences: 1, resolved_at: null },
+        { user_id: 's2', kind: 'grammar', pattern_key: 'go → goes', mistake: 'She go out', correction: 'She goes out', occurrences: 2, resolved_at: '2026-10-19T09:00:00.000Z' },
+        { user_id: 's1', kind: 'vocabulary', pattern_key: 'funny → fun', mistake: 'funny', correction: 'fun', occurrences: 4, resolved_at: null },
+      ],
+      ['s1', 's2', 's3']
+    )
+    expect(report.patterns.map((p) => [p.pattern_key, p.students, p.open_students, p.occurrences])).toEqual([
+      ['go → goes', 2, 1, 3],
+      ['funny → fun', 1, 1, 4],
+    ])
+    expect(report.patterns[0].examples[0].mistake).toBe('She go out')
+    expect(report.students).toEqual([
+      { user_id: 's1', open: 2, resolved: 0, occurrences: 5, top_pattern: 'funny → fun' },
+      { user_id: 's2', open: 0, resolved: 1, occurrences: 2, top_pattern: null },
+      { user_id: 's3', open: 0, resolved: 0, occurrences: 0, top_pattern: null },
+    ])
+  })
+})
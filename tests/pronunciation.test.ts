@@ -0,0 +1,45 @@
+import { assessPronunciation } from '../src/lib/pronunciation'
+
+describe('assessPronunciation', () => {
+  it('scores recognised words from ASR confidence and flags unclear ones', () => {
+    const result = assessPronunciation('I like to play football.', [
+      { word: ' I', probability: 0.95 },
+      { word: ' like', probability: 0.9 },
+      { word: ' to', probability: 0.3 },
+      { word: ' play', probability: 0.92 },
+      { word: ' football.', probability: 0.85 },
+    ])
+
+    expect(result.words.map((w) => [w.word, w.status, w.score])).toEqual([
+      ['I', 'good', 95],
+      ['like', 'good', 90],
+      ['to', 'unclear', 30],
+      ['play', 'good', 92],
+      ['football.', 'good', 85],
+    ])
+    expect(result.overall_score).toBe(78)
+    expect(result.accuracy).toBe(100)
+    expect(result.problem_words).toEqual(['to'])
+  })
+
+  it('marks substituted words, gives partial credit for close spellings and counts extra words', () => {
+    const result = assessPronunciation(
+      'The three trees are tall',
+      ['The', 'tree', 'trees', 'are', 'very', 'tall'].map((word) => ({ word, probability: 0.9 }))
+    )
+
+    expect(result.words[1]).toEqual({ word: 'three', heard: 'tree', confidence: 0.9, score: 40, status: 'substituted' })
+    expect(result.words.filter((w) => w.status === 'good')).toHaveLength(4)
+    expect(result.extra_words).toBe(1)
+    expect(result.problem_words).toEqual(['three'])
+  })
+
+  it('falls back to the transcript when the provider gave no word tokens', () => {
+    const result = assessPronunciation('She sells sea shells', [], 'She sells shells')
+
+    expect(result.words.map((w) => w.status)).toEqual(['good', 'good', 'missed', 'good'])
+    expect(result.words[0].confidence).toBeNull()
+    expect([result.overall_score, result.accuracy]).toEqual([75, 75])
+    expect(result.problem_words).toEqual(['sea'])
+  })
+})
@@ -0,0 +1,110 @@
+import {
+  MemoryRateLimitStore,
+  setRateLimitStore,
+  takeFromBucket,
+} from '../functions/lib/rate-limit-store'
+import {
+  checkRouteRateLimit,
+  createRateLimitResponse,
+  rateLimitKey,
+  recordRateLimitFailure,
+} from '../functions/rate-limit'
+
+const event = (ip: string) => ({ headers: { 'x-forwarded-for': `${ip}, 10.0.0.1` } })
+
+describe('MemoryRateLimitStore', () => {
+  it('counts a sliding window and forgets hits once they leave it', async () => {
+    const store = new MemoryRateLimitStore()
+    const opts = { limit: 2, windowMs: 1000, consume: 'if_allowed' as const }
+    expect(await store.hitSlidingWindow('k', { ...opts, now: 0 })).toEqual({ count: 0, oldest: null, consumed: true })
+    expect(await store.hitSlidingWindow('k', { ...opts, now: 100 })).toEqual({ count: 1, oldest: 0, consumed: true })
+    expect(await store.hitSlidingWindow('k', { ...opts, now: 200 })).toEqual({ count: 2, oldest: 0, consumed: false })
+    expect(await store.hitSlidingWindow('k', { ...opts, now: 1001 })).toEqual({ count: 1, oldest: 100, consumed: true })
+  })
+
+  it('refills a token bucket over time', async () => {
+    const store = new MemoryRateLimitStore()
+    const opts = { capacity: 2, refillPerMs: 1 / 1000, cost: 1 }
+    expect((await store.takeTokens('b', { ...opts, now: 0 })).consumed).toBe(true)
+    expect((await store.takeTokens('b', { ...opts, now: 0 })).consumed).toBe(true)
+    expect(await store.takeTokens('b', { ...opts, now: 500 })).toEqual({ tokens: 0.5, consumed: false })
+    expect(await store.takeTokens('b', { ...opts, now: 1000 })).toEqual({ tokens: 0, consumed: true })
+  })
+})
+
+describe('takeFromBucket', () => {
+  it('starts full and never refills past capacity', () => {
+    expect(takeFromBucket(null, { capacity: 5, refillPerMs: 1, cost: 1, now: 0 })).toEqual({ tokens: 4, consumed: true })
+    expect(
+      takeFromBucket({ tokens: 1, updatedAt: 0 }, { capacity: 5, refillPerMs: 1, cost: 0, now: 60_000 })
+    ).toEqual({ tokens: 5, consumed: true })
+  })
+})
+
+describe('route policies', () => {
+  beforeEach(() => setRateLimitStore(new MemoryRateLimitStore()))
+  afterAll(() => setRateLimitStore(null))
+
+  it('only counts failures against login', async () => {
+    for (let i = 0; i < 20; i++) {
+      expect((await checkRouteRateLimit(event('203.0.113.1'), 'login')).allowed).toBe(true)
+    }
+    for (let i = 0; i < 10; i++) await recordRateLimitFailure(event('203.0.113.1'), 'login')
+    const blocked = await checkRouteRateLimit(event('203.0.113.1'), 'login')
+    expect(blocked).toMatchObject({ allowed: false, remaining: 0, limit: 10 })
+    expect(blocked.retryAfter).toBeGreaterThan(800)
+    // Other IPs and other routes keep their own counters
+    expect((await checkRouteRateLimit(event('203.0.113.2'), 'login')).allowed).toBe(true)
+    expect((await checkRouteRateLimit(event('203.0.113.1'), 'otp_verify')).allowed).toBe(true)
+  })
+
+  it('throttles superhero images per user, not per IP', async () => {
+    for (let i = 0; i < 5; i++) {
+      expect((await checkRouteRateLimit(event('198.51.100.9'), 'superhero_image', { userId: 'u1' })).allowed).toBe(true)
+    }
+    const blocked = await checkRouteRateLimit(event('192.0.2.44'), 'superhero_image', { userId: 'u1' })
+    expect(blocked).toMatchObject({ allowed: false, remaining: 0, limit: 5 })
+    expect(blocked.retryAfter).toBe(600)
+    expect((await checkRouteRateLimit(event('198.51.100.9'), 'superhero_image', { userId: 'u2' })).allowed).toBe(true)
+  })
+
+  it('keys user policies by IP when nobody is signed in', () => {
+    expect(rateLimitKey(event('198.51.100.9'), 'speech_job_upload', { userId: null })).toBe(
+      'rl:speech_job_upload:ip:198.51.100.9'
+    )
+    expect(rateLimitKey(event('198.51.100.9'), 'recording_vote', { userId: 'u1' })).toBe(
+      'rl:recording_vote:ip:198.51.100.9'
+    )
+    expect(rateLimitKey({ headers: {} }, 'otp_send')).toBeNull()
+  })
+
+  it('answers an anonymous caller of the AI endpoints with 429 once its IP bucket is spent', async () => {
+    for (const [route, capacity] of [['ai_feedback', 20], ['improve_transcription', 20], ['tts_generate', 60]] as const) {
+      for (let i = 0; i < capacity; i++) {
+        expect((await checkRouteRateLimit(event('203.0.113.7'), route, { userId: null })).allowed).toBe(true)
+      }
+      const blocked = await checkRouteRateLimit(event('203.0.113.7'), route, { userId: null })
+      expect(blocked).toMatchObject({ allowed: false, remaining: 0, limit: capacity })
+      expect(createRateLimitResponse(blocked).statusCode).toBe(429)
+      // A signed-in student behind the same address has a bucket of their own
+      expect((await checkRouteRateLimit(event('203.0.113.7'), route, { userId: 'u1' })).allowed).toBe(true)
+    }
+  })
+
+  it('answers 429 with the fields the login form reads', () => {
+    const response = createRateLimitResponse(
+      { route: 'otp_send', allowed: false, remaining: 0, limit: 10, resetTime: 0, retryAfter: 90 },
+      { 'Access-Control-Allow-Origin': 'https://example.com' }
+    )
+    expect(response.statusCode).toBe(429)
+    expect(response.headers).toMatchObject({ 'Access-Control-Allow-Origin': 'https://example.com', 'Retry-After': '90' })
+    expect(JSON.parse(response.body)).toMatchObject({
+      success: false,
+      error: 'Too many verification codes requested. Please try again in 2 minutes.',
+      rateLimited: true,
+      retryAfter: 90,
+      maxAttempts: 10,
+      windowMinutes: 15,
+    })
+  })
+})
@@ -0,0 +1,112 @@
+import {
+  addReadVsSpeakLabel,
+  extractReadVsSpeakFeatures,
+  isReadVsSpeakModelReady,
+  labelFromVotes,
+  parseReadVsSpeakModel,
+  predictSpokenProbability,
+  sgdStep,
+  trainReadVsSpeakModel,
+  type ReadVsSpeakLabelSource,
+  type ReadVsSpeakSample,
+} from '../functions/lib/read-vs-speak-model'
+import { resolveTaskContext } from '../functions/lib/robotic-voice-task'
+
+const SEED_MODEL = {
+  feature_names: ['pause_ratio', 'filler_ratio', 'wps', 'voiced_ratio', 'pause_entropy'],
+  weights: { pause_ratio: 0, filler_ratio: 0, wps: 0, voiced_ratio: 0, pause_entropy: 0 },
+  intercept: 0,
+  learning_rate: 0.15,
+  l2: 0.001,
+  samples_seen: 0,
+}
+
+/** Spoken: pauses + fillers, slower; read: fluent, few pauses, steady entropy. */
+function samples(n: number): ReadVsSpeakSample[] {
+  const out: ReadVsSpeakSample[] = []
+  for (let i = 0; i < n; i++) {
+    const spoken = i % 2 === 0 ? 1 : 0
+    const jitter = ((i * 37) % 10) / 100
+    out.push({
+      key: `job-${i}`,
+      spoken,
+      source: 'recording_vote',
+      features: spoken
+        ? { pause_ratio: 0.35 + jitter, filler_ratio: 0.08, wps: 1.6 + jitter, voiced_ratio: 0.5, pause_entropy: 2.4 }
+        : { pause_ratio: 0.08 + jitter, filler_ratio: 0, wps: 2.6 + jitter, voiced_ratio: 0.72, pause_entropy: 1.2 },
+    })
+  }
+  return out
+}
+
+describe('read-vs-speak model', () => {
+  it('extracts features from a speech job sidecar', () => {
+    const f = extractReadVsSpeakFeatures({
+      whisper_verbose: {
+        text: 'um I like cats',
+        duration: 4,
+        segments: [
+          { start: 0, end: 1.5 },
+          { start: 2.5, end: 4 },
+        ],
+      },
+    })
+    expect(f).toEqual({ pause_ratio: 0.25, filler_ratio: 0.5, wps: 1, voiced_ratio: 0.55, pause_entropy: 2 })
+    expect(extractReadVsSpeakFeatures({ whisper_verbose: { text: '', duration: 3 } })).toBeNull()
+  })
+
+  it('takes the same SGD step the live vote trainer always did', () => {
+    const model = parseReadVsSpeakModel(SEED_MODEL)!
+    const x = { pause_ratio: 0.2, filler_ratio: 0.1, wps: 2, voiced_ratio: 0.5, pause_entropy: 2 }
+    expect(predictSpokenProbability(model, x)).toBe(0.5)
+    const next = sgdStep(model, x, 1)
+    // err = 0.5 - 1; w = 0 - 0.15 * (err * x)
+    expect(next.weights.wps).toBeCloseTo(0.15)
+    expect(next.intercept).toBeCloseTo(0.075)
+    expect(next.samples_seen).toBe(1)
+  })
+
+  it('trains deterministically, holds out by key and reports accuracy', () => {
+    const current = parseReadVsSpeakModel(SEED_MODEL)!
+    const data = samples(120)
+    const a = trainReadVsSpeakModel(current, data, { epochs: 30 })
+    const b = trainReadVsSpeakModel(current, [...data].reverse(), { epochs: 30 })
+
+    expect(a.holdout_keys.sort()).toEqual(b.holdout_keys.sort())
+    expect(a.holdout_keys.length).toBeGreaterThan(10)
+    expect(a.train_count + a.holdout_keys.length).toBe(120)
+    // Zero-weight seed predicts 0.5 for everything
+    expect(a.holdout_before.log_loss).toBeCloseTo(Math.log(2))
+    expect(a.holdout_after.accuracy).toBeGreaterThanOrEqual(0.95)
+    expect(a.holdout_after.log_loss!).toBeLessThan(a.holdout_before.log_loss!)
+    expect(a.model.version).toBe(1)
+    expect(a.model.samples_seen).toBe(a.train_count)
+    expect(isReadVsSpeakModelReady(a.model)).toBe(true)
+    expect(isReadVsSpeakModelReady(current)).toBe(false)
+  })
+
+  it('resolves labels by source priority and vote majority', () => {
+    expect(labelFromVotes(2, 3)).toBe(1)
+    expect(labelFromVotes(3, 1)).toBe(0)
+    expect(labelFromVotes(2, 2)).toBeNull()
+
+    const labels = new Map<string, { spoken: 0 | 1; source: ReadVsSpeakLabelSource }>()
+    addReadVsSpeakLabel(labels, 'job-1', 1, 'teacher_review')
+    addReadVsSpeakLabel(labels, 'job-1', 0, 'recording_vote')
+    addReadVsSpeakLabel(labels, 'job-2', 1, 'recording_vote')
+    addReadVsSpeakLabel(labels, 'job-2', 0, 'admin_tts_check')
+    expect(labels.get('job-1')).toEqual({ spoken: 1, source: 'teacher_review' })
+    expect(labels.get('job-2')).toEqual({ spoken: 0, source: 'admin_tts_check' })
+  })
+
+  it('lets a confident learned probability settle an unknown task as spontaneous', () => {
+    expect(resolveTaskContext({ learned_spoken_probability: 0.92 }, 'hello').task_reason).toBe(
+      'learned_spontaneous_delivery'
+    )
+    expect(resolveTaskContext({ learned_spoken_probability: 0.6 }, 'hello').expectation).toBe('unknown')
+    // Explicit task signals still win
+    expect(resolveTaskContext({ prompt_id: 'improvement', learned_spoken_probability: 0.95 }, 'hi').expectation).toBe(
+      'reading'
+    )
+  })
+})
@@ -0,0 +1,139 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import {
+  computeRoboticVoiceScore,
+  getActiveScorerVersion,
+  listRoboticVoiceScorerVersions,
+  type RoboticVoiceResult,
+} from '../functions/robotic-voice'
+import {
+  diffRoboticVoiceReports,
+  evaluateRoboticVoiceCorpus,
+  formatRoboticVoiceReport,
+  labelFromDeliveryMethod,
+  parseRoboticVoiceCorpus,
+  ROBOTIC_VOICE_CORPUS_FORMAT,
+  type RoboticVoiceCorpusCase,
+} from '../functions/lib/robotic-voice-corpus'
+
+/**
+ * Golden-corpus runner. Export the corpus from Admin → Robot Detect → Export corpus
+ * (admin-robot-voice-corpus) into backups/ and run `npm run test:robotic-voice-corpus`.
+ *
+ * ROBOTIC_VOICE_CORPUS           corpus path (default backups/robotic-voice-corpus.json)
+ * ROBOTIC_VOICE_CORPUS_BASELINE  report JSON from a previous scorer version; fails on newly broken cases
+ *
+ * Every registered scorer version is evaluated and diffed against the active one; each run writes
+ * backups/robotic-voice-corpus-reports/<scorer_version>.json for later diffs.
+ * Skipped when the corpus is absent (CI / fresh clones), like the backup cases in robotic-voice.test.ts.
+ */
+const CORPUS_PATH = process.env.ROBOTIC_VOICE_CORPUS || join(process.cwd(), 'backups/robotic-voice-corpus.json')
+const BASELINE_PATH = process.env.ROBOTIC_VOICE_CORPUS_BASELINE || ''
+const REPORT_DIR = join(process.cwd(), 'backups/robotic-voice-corpus-reports')
+
+function fakeResult(wouldFlag: boolean, deliveryMode: string, score = 0): RoboticVoiceResult {
+  return {
+    score,
+    flagged: false,
+    confidence: 0,
+    message: '',
+    signals: { would_flag: wouldFlag, delivery_mode: deliveryMode, rules_hit: [] },
+    _mode: 'log',
+    _scorer_version: 'test',
+  }
+}
+
+function labelled(id: string, method: string): RoboticVoiceCorpusCase {
+  return { id, source: 'admin_tts_check', label: labelFromDeliveryMethod(method)!, input: {} }
+}
+
+describe('robotic-voice corpus metrics', () => {
+  const cases = [
+    labelled('tts-hit', 'google_translate_tts'),
+    labelled('tts-miss', 'ai_voice_tts'),
+    labelled('human-ok', 'human_mic'),
+    labelled('human-fp', 'human_mic'),
+  ]
+  // Scorer stand-in keyed on case id via the input object identity
+  const predictions = new Map<object, RoboticVoiceResult>([
+    [cases[0].input, fakeResult(true, 'tts', 90)],
+    [cases[1].input, fakeResult(false, 'speaking', 10)],
+    [cases[2].input, fakeResult(false, 'speaking')],
+    [cases[3].input, fakeResult(true, 'tts', 75)],
+  ])
+
+  it('computes precision, recall and the delivery_mode confusion matrix', () => {
+    const report = evaluateRoboticVoiceCorpus(cases, (input) => predictions.get(input)!, 'vA')
+    expect(report.scorer_version).toBe('vA')
+    expect(report.would_flag).toMatchObject({ tp: 1, fp: 1, fn: 1, tn: 1, precision: 0.5, recall: 0.5 })
+    expect(report.delivery_mode.confusion.tts).toEqual({ speaking: 1, reading: 0, tts: 1 })
+    expect(report.delivery_mode.confusion.speaking).toEqual({ speaking: 1, reading: 0, tts: 1 })
+    expect(report.by_source.admin_tts_check?.tp).toBe(1)
+    expect(formatRoboticVoiceReport(report)).toContain('scorer vA')
+  })
+
+  it('diffs two scorer versions case by case', () => {
+    const before = evaluateRoboticVoiceCorpus(cases, (input) => predictions.get(input)!, 'vA')
+    const fixedFp = new Map(predictions)
+    fixedFp.set(cases[3].input, fakeResult(false, 'speaking'))
+    fixedFp.set(cases[0].input, fakeResult(false, 'speaking'))
+    const after = evaluateRoboticVoiceCorpus(cases, (input) => fixedFp.get(input)!, 'vB')
+
+    const diff = diffRoboticVoiceReports(before, after)
+    expect(diff.from_version).toBe('vA')
+    expect(diff.fixed).toBe(1)
+    expect(diff.broken).toBe(1)
+    expect(diff.changed.find((c) => c.id === 'tts-hit')?.effect).toBe('broken')
+    expect(formatRoboticVoiceReport(after, diff)).toContain('[fixed] human-fp')
+  })
+
+  it('rejects unknown formats and drops malformed cases', () => {
+    expect(() => parseRoboticVoiceCorpus({ format: 'other', cases: [] })).toThrow('Unsupported corpus format')
+    const parsed = parseRoboticVoiceCorpus({
+      format: ROBOTIC_VOICE_CORPUS_FORMAT,
+      cases: [cases[0], { id: 'no-label', input: {} }, { ...cases[1], label: { delivery_mode: 'robot', would_flag: true } }],
+    })
+    expect(parsed.cases.map((c) => c.id)).toEqual(['tts-hit'])
+  })
+
+  it('labels speaker playback as TTS and rejects unknown delivery methods', () => {
+    expect(labelFromDeliveryMethod('speaker_playback')).toEqual({ delivery_mode: 'tts', would_flag: true })
+    expect(labelFromDeliveryMethod('whisper')).toBeNull()
+  })
+})
+
+describe('robotic-voice golden corpus', () => {
+  const hasCorpus = existsSync(CORPUS_PATH)
+
+  it('reports precision / recall for every registered scorer version', () => {
+    if (!hasCorpus) return
+
+    const corpus = parseRoboticVoiceCorpus(JSON.parse(readFileSync(CORPUS_PATH, 'utf8')))
+    const activeVersion = getActiveScorerVersion()
+    const evaluate = (version: string) =>
+      evaluateRoboticVoiceCorpus(corpus.cases, (input) => computeRoboticVoiceScore(input, version), version)
+    const report = evaluate(activeVersion)
+
+    const baseline = BASELINE_PATH ? JSON.parse(readFileSync(BASELINE_PATH, 'utf8')) : null
+    const diff = baseline ? diffRoboticVoiceReports(baseline, report) : null
+    console.log(formatRoboticVoiceReport(report, diff))
+
+    const reports = [report]
+    for (const version of listRoboticVoiceScorerVersions()) {
+      if (version === activeVersion) continue
+      const candidate = evaluate(version)
+      reports.push(candidate)
+      console.log(formatRoboticVoiceReport(candidate, diffRoboticVoiceReports(report, candidate)))
+    }
+
+    mkdirSync(REPORT_DIR, { recursive: true })
+    for (const r of reports) {
+      writeFileSync(join(REPORT_DIR, `${r.scorer_version}.json`), JSON.stringify(r, null, 2))
+    }
+
+    expect(report.total).toBeGreaterThan(0)
+    if (diff) {
+      expect(diff.changed.filter((c) => c.effect === 'broken').map((c) => c.id)).toEqual([])
+    }
+  })
+})
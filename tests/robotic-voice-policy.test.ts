@@ -0,0 +1,90 @@
+import type { RoboticVoiceResult } from '../functions/robotic-voice'
+import {
+  applyRoboticVoiceEnforcement,
+  resolveRoboticVoiceEnforcement,
+  ROBOTIC_VOICE_RERECORD_MESSAGE,
+  ROBOTIC_VOICE_WARNING_MESSAGE,
+  type RoboticVoicePolicy,
+  type RoboticVoicePolicyContext,
+} from '../functions/lib/robotic-voice-policy'
+
+const CTX: RoboticVoicePolicyContext = {
+  user_id: 'user-1',
+  lesson_id: 'lesson-7',
+  class_label: '1/15',
+  level: 'a2',
+}
+
+function policy(id: string, scope_type: RoboticVoicePolicy['scope_type'], scope_value: string, mode: RoboticVoicePolicy['mode'], enabled = true): RoboticVoicePolicy {
+  return { id, scope_type, scope_value, mode, enabled }
+}
+
+describe('robotic-voice enforcement policy', () => {
+  const originalMode = process.env.ROBOTIC_VOICE_MODE
+
+  afterEach(() => {
+    if (originalMode === undefined) delete process.env.ROBOTIC_VOICE_MODE
+    else process.env.ROBOTIC_VOICE_MODE = originalMode
+  })
+
+  it('picks the most specific enabled policy: student > lesson > class > level > global', () => {
+    const policies = [
+      policy('g', 'global', '', 'log'),
+      policy('lv', 'level', 'A2', 'warn_student'),
+      policy('c', 'class', '1/15', 'require_rerecord'),
+      policy('s', 'student', 'user-1', 'block', false),
+    ]
+    const decision = resolveRoboticVoiceEnforcement(policies, CTX, true, 'log')
+    expect(decision).toMatchObject({ policy_id: 'c', scope_type: 'class', mode: 'require_rerecord', action: 'rerecord_required' })
+    expect(decision.message).toBe(ROBOTIC_VOICE_RERECORD_MESSAGE)
+
+    // Level matching is case-insensitive; class 1/16 policy does not apply to a 1/15 student
+    const levelOnly = resolveRoboticVoiceEnforcement(
+      [policy('c16', 'class', '1/16', 'block'), policy('lv', 'level', 'A2', 'warn_student')],
+      CTX,
+      true,
+      'log'
+    )
+    expect(levelOnly).toMatchObject({ policy_id: 'lv', action: 'warned', message: ROBOTIC_VOICE_WARNING_MESSAGE })
+  })
+
+  it('takes no action when the recording would not be flagged', () => {
+    const decision = resolveRoboticVoiceEnforcement([policy('s', 'student', 'user-1', 'block')], CTX, false, 'log')
+    expect(decision).toMatchObject({ policy_id: 's', mode: 'block', action: 'none', message: '' })
+  })
+
+  it('falls back to ROBOTIC_VOICE_MODE when no policy matches', () => {
+    process.env.ROBOTIC_VOICE_MODE = 'block'
+    expect(resolveRoboticVoiceEnforcement([], CTX, true)).toMatchObject({
+      scope_type: 'env',
+      policy_id: null,
+      action: 'blocked',
+    })
+    process.env.ROBOTIC_VOICE_MODE = 'nonsense'
+    expect(resolveRoboticVoiceEnforcement([], CTX, true).action).toBe('none')
+  })
+
+  it('applies the decision to the scorer result', () => {
+    const result: RoboticVoiceResult = {
+      score: 88,
+      flagged: false,
+      confidence: 0.9,
+      message: '[log] Would flag robotic voice',
+      signals: { would_flag: true, delivery_mode: 'tts', rules_hit: [] },
+      _mode: 'log',
+      _scorer_version: 'test',
+    }
+    const blocked = applyRoboticVoiceEnforcement(
+      result,
+      resolveRoboticVoiceEnforcement([policy('l', 'lesson', 'lesson-7', 'require_rerecord')], CTX, true, 'log')
+    )
+    expect(blocked).toMatchObject({ flagged: true, _mode: 'block', message: ROBOTIC_VOICE_RERECORD_MESSAGE })
+
+    const warned = applyRoboticVoiceEnforcement(
+      result,
+      resolveRoboticVoiceEnforcement([policy('g', 'global', '', 'warn_student')], CTX, true, 'log')
+    )
+    expect(warned).toMatchObject({ flagged: false, _mode: 'log', message: ROBOTIC_VOICE_WARNING_MESSAGE })
+    expect(warned._enforcement.action).toBe('warned')
+  })
+})
@@ -1,4 +1,12 @@
-import { computeRoboticVoiceScore } from '../functions/robotic-voice'
+import {
+  computeRoboticVoiceScore,
+  computeShadowRoboticVoiceScore,
+  getActiveScorerVersion,
+  getShadowScorerVersion,
+  registerRoboticVoiceScorer,
+  roboticVoiceShadowToDbColumns,
+  ROBOTIC_VOICE_SCORER_VERSION,
+} from '../functions/robotic-voice'
 import { resolveTaskContext, tokenOverlapRatio } from '../functions/lib/robotic-voice-task'
 
 function seg(
@@ -182,3 +190,66 @@ describe('robotic-voice-task', () => {
     expect(t.skip_tts_would_flag).toBe(false)
   })
 })
+
+describe('robotic-voice scorer versions', () => {
+  const input = {
+    whisper_verbose: { text: ' hello there', segments: [seg(0, ' hello there', 0, 1.2, -0.4)] },
+  }
+
+  beforeAll(() => {
+    // Candidate that would-flags everything as TTS, to exercise shadow plumbing
+    registerRoboticVoiceScorer('test-always-tts', (i) => {
+      const base = computeRoboticVoiceScore(i, ROBOTIC_VOICE_SCORER_VERSION)
+      return {
+        ...base,
+        score: 100,
+        flagged: true,
+        signals: { ...base.signals, would_flag: true, delivery_mode: 'tts' },
+      }
+    })
+  })
+
+  afterEach(() => {
+    delete process.env.ROBOTIC_VOICE_ACTIVE_VERSION
+    delete process.env.ROBOTIC_VOICE_SHADOW_VERSION
+  })
+
+  it('defaults to the built-in version and stamps it on the result', () => {
+    expect(getActiveScorerVersion()).toBe(ROBOTIC_VOICE_SCORER_VERSION)
+    const r = computeRoboticVoiceScore(input)
+    expect(r._scorer_version).toBe(ROBOTIC_VOICE_SCORER_VERSION)
+    expect(r.signals.scorer_version).toBe(ROBOTIC_VOICE_SCORER_VERSION)
+  })
+
+  it('ignores unknown versions in env and throws for unknown explicit versions', () => {
+    process.env.ROBOTIC_VOICE_ACTIVE_VERSION = 'v9.9.9'
+    process.env.ROBOTIC_VOICE_SHADOW_VERSION = 'v9.9.9'
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+    expect(getActiveScorerVersion()).toBe(ROBOTIC_VOICE_SCORER_VERSION)
+    expect(getShadowScorerVersion()).toBeNull()
+    warn.mockRestore()
+    expect(() => computeRoboticVoiceScore(input, 'v9.9.9')).toThrow('Unknown robotic voice scorer version')
+  })
+
+  it('runs the shadow version log-only and records disagreement', () => {
+    process.env.ROBOTIC_VOICE_SHADOW_VERSION = 'test-always-tts'
+    expect(getShadowScorerVersion()).toBe('test-always-tts')
+
+    const active = computeRoboticVoiceScore(input)
+    const shadow = computeShadowRoboticVoiceScore(input, 'test-always-tts')
+    expect(shadow.flagged).toBe(false)
+    expect(shadow._mode).toBe('log')
+    expect(shadow._scorer_version).toBe('test-always-tts')
+
+    const cols = roboticVoiceShadowToDbColumns(active, shadow)
+    expect(cols.scorer_version).toBe(ROBOTIC_VOICE_SCORER_VERSION)
+    expect(cols.shadow_version).toBe('test-always-tts')
+    expect(active.signals.would_flag).toBe(false)
+    expect(cols.shadow_disagrees).toBe(true)
+  })
+
+  it('does not shadow the active version against itself', () => {
+    process.env.ROBOTIC_VOICE_SHADOW_VERSION = ROBOTIC_VOICE_SCORER_VERSION
+    expect(getShadowScorerVersion()).toBeNull()
+  })
+})
@@ -0,0 +1,80 @@
+import {
+  generateInitialPassword,
+  normalizeRosterRows,
+  planRosterImport,
+  summarizeRosterPlan,
+  type ExistingRosterUser,
+} from '../functions/lib/roster-import'
+
+function user(overrides: Partial<ExistingRosterUser>): ExistingRosterUser {
+  return {
+    id: 'u1',
+    role: 'student',
+    email: null,
+    username: null,
+    school_student_id: null,
+    nickname: null,
+    honorific: null,
+    first_name: null,
+    last_name: null,
+    ...overrides,
+  }
+}
+
+describe('roster import', () => {
+  it('reads the scores export layout and flags bad or duplicate IDs', () => {
+    const { rows, errors } = normalizeRosterRows([
+      { ID: '52471', Nick: 'Pim', 'Lesson 1': 8 },
+      { ' id ': '52472', Nickname: ' Tae ', 'First name': 'Tanawat', Honorific: 'Mr' },
+      { ID: '', Nick: 'blank line' },
+      { ID: '52471', Nick: 'again' },
+      { ID: 'bad id!', Nick: 'x' },
+    ])
+    expect(rows).toEqual([
+      { row: 2, school_student_id: '52471', nickname: 'Pim', honorific: null, first_name: null, last_name: null },
+      { row: 3, school_student_id: '52472', nickname: 'Tae', honorific: 'Mr', first_name: 'Tanawat', last_name: null },
+    ])
+    expect(errors).toEqual([
+      { row: 5, message: 'Duplicate student ID 52471 (first seen on row 2)' },
+      { row: 6, message: 'Invalid student ID "bad id!"' },
+    ])
+  })
+
+  it('plans creates, updates, unchanged rows and conflicts with non-student accounts', () => {
+    const { rows } = normalizeRosterRows([
+      { ID: '52439', Nick: 'Ikki' },
+      { ID: '52440', Nick: 'Tonkow2' },
+      { ID: '52471', Nick: 'Pim' },
+      { ID: '90001', Nick: 'Staff' },
+      { ID: 'teacherbob', Nick: 'Bob' },
+    ])
+    const plan = planRosterImport(rows, [
+      user({ id: 'a', school_student_id: '52439', nickname: 'Ikki', email: '52439@mws.ac.th' }),
+      user({ id: 'b', school_student_id: '52440', nickname: 'Tonkow', first_name: 'Nuntaput' }),
+      user({ id: 'c', role: 'admin', school_student_id: '90001' }),
+      user({ id: 'd', role: 'teacher', username: 'TeacherBob' }),
+    ])
+    expect(plan.map((p) => [p.school_student_id, p.action])).toEqual([
+      ['52439', 'unchanged'],
+      ['52440', 'update'],
+      ['52471', 'create'],
+      ['90001', 'conflict'],
+      ['teacherbob', 'conflict'],
+    ])
+    const update = plan[1]
+    expect(update.changes).toEqual(['nickname'])
+    // Blank cells keep stored values
+    expect(update.first_name).toBe('Nuntaput')
+    expect(plan[2].email).toBe('52471@mws.ac.th')
+    expect(plan[4].reason).toBe('Username teacherbob is already taken')
+    expect(summarizeRosterPlan(plan)).toEqual({ create: 1, update: 1, unchanged: 1, conflict: 2 })
+  })
+
+  it('generates passwords from the unambiguous alphabet', () => {
+    let i = 0
+    const password = generateInitialPassword(6, (max) => (i++ * 7) % max)
+    expect(password).toHaveLength(6)
+    expect(password).toMatch(/^[a-zA-Z2-9]{6}$/)
+    expect(generateInitialPassword()).toMatch(/^[^0O1lI]{8}$/)
+  })
+})
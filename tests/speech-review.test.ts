@@ -0,0 +1,67 @@
+import {
+  buildClassifierLabel,
+  reviewReasonsForJob,
+  speechJobActivity,
+  suggestedDeliveryMode,
+  type SpeechReviewCandidate,
+} from '../functions/lib/speech-review'
+
+function job(overrides: Partial<SpeechReviewCandidate>): SpeechReviewCandidate {
+  return {
+    status: 'completed',
+    robotic_voice_would_flag: false,
+    result_json: { overall_score: 70 },
+    user_avg_score: 72,
+    user_scored_jobs: 10,
+    ...overrides,
+  }
+}
+
+describe('speech review queue', () => {
+  it('queues robotic-voice flags, repetition failures and low-score outliers', () => {
+    expect(reviewReasonsForJob(job({}))).toEqual([])
+    expect(reviewReasonsForJob(job({ robotic_voice_would_flag: true }))).toEqual(['would_flag'])
+    expect(
+      reviewReasonsForJob(job({ status: 'failed', result_json: { reason: 'consecutive_repetition', repeated: 'very' } }))
+    ).toEqual(['consecutive_repetition'])
+    // Absolute floor, and a drop of 30+ below the student's own average
+    expect(reviewReasonsForJob(job({ result_json: { overall_score: 15 }, user_avg_score: null }))).toEqual(['low_score'])
+    expect(reviewReasonsForJob(job({ result_json: { overall_score: 40 }, user_avg_score: 80 }))).toEqual(['low_score'])
+    // Too few jobs to call it an outlier
+    expect(reviewReasonsForJob(job({ result_json: { overall_score: 40 }, user_avg_score: 80, user_scored_jobs: 2 }))).toEqual([])
+  })
+
+  it('suggests a delivery label only for robotic-voice flags', () => {
+    expect(suggestedDeliveryMode(['would_flag', 'low_score'], 'confirmed')).toBe('tts')
+    expect(suggestedDeliveryMode(['would_flag'], 'cleared')).toBe('speaking')
+    expect(suggestedDeliveryMode(['low_score'], 'confirmed')).toBeNull()
+  })
+
+  it('builds a classifier_store label with the read-vs-speak target', () => {
+    const at = new Date('2026-10-19T08:00:00Z')
+    expect(buildClassifierLabel('cleared', 'speaking', ['would_flag'], at)).toEqual({
+      source: 'teacher_review',
+      verdict: 'cleared',
+      delivery_mode: 'speaking',
+      spoken: 1,
+      reasons: ['would_flag'],
+      reviewed_at: '2026-10-19T08:00:00.000Z',
+    })
+    expect(buildClassifierLabel('confirmed', 'reading', [], at).spoken).toBe(0)
+  })
+})
+
+describe('speechJobActivity', () => {
+  it('ties a recording to the single activity a reset should clear', () => {
+    const activityId = '4f1c2b3a-1d2e-4c5b-8a9f-0e1d2c3b4a59'
+    expect(speechJobActivity(`${activityId}-card-2`)).toEqual({ track: 'student', activityId })
+    expect(speechJobActivity(`${activityId.toUpperCase()}-wheel-Food`)).toEqual({ track: 'student', activityId })
+    expect(speechJobActivity('warmup')).toEqual({ track: 'classic', activityTypes: ['warm_up_speaking'] })
+    expect(speechJobActivity('prompt-1')).toEqual({
+      track: 'classic',
+      activityTypes: ['speaking_practice', 'speaking_with_feedback'],
+    })
+    expect(speechJobActivity(null)).toBeNull()
+    expect(speechJobActivity('  ')).toBeNull()
+  })
+})
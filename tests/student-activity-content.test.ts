@@ -0,0 +1,89 @@
+import {
+  activityContent,
+  STUDENT_ACTIVITY_TYPES,
+  validateStudentActivity,
+} from '../src/lib/studentActivityContent'
+
+const poll = { question: 'How many hours?', options: [{ id: 'a', label: '1' }] }
+
+describe('student activity content schemas', () => {
+  it('covers every activity type and accepts seed-shaped content', () => {
+    expect(STUDENT_ACTIVITY_TYPES).toHaveLength(25)
+    expect(
+      validateStudentActivity({
+        activity_type: 'student_vocabulary_intro',
+        content: { group_by_category: true, show_thai: false, tap_thai_translation: true, study_seconds: 60 },
+        vocabulary_items: [{ english_word: 'app' }],
+      })
+    ).toEqual([])
+    expect(
+      validateStudentActivity({
+        activity_type: 'student_vocab_speed_tap',
+        content: '{"targets": ["fly", "teleport"], "distractors": ["cape"]}',
+      })
+    ).toEqual([])
+    expect(validateStudentActivity({ activity_type: 'student_superhero_builder', content: {} })).toEqual([])
+  })
+
+  it('reports missing and mistyped fields with their paths', () => {
+    expect(
+      validateStudentActivity({
+        activity_type: 'student_vocab_missing_letters',
+        content: { sentences: [{ template: 'pl__ g__es', answer: 'play games' }, { template: 'scr__ll' }, 'x'] },
+      })
+    ).toEqual([
+      { path: 'content.sentences[1].answer', message: 'is required' },
+      { path: 'content.sentences[2]', message: 'must be an object' },
+    ])
+    expect(
+      validateStudentActivity({
+        activity_type: 'student_challenge_wheel',
+        content: { prompts: [], duration_seconds: 2.5 },
+      }).map((i) => i.path)
+    ).toEqual(['content.prompts', 'content.duration_seconds'])
+    expect(validateStudentActivity({ activity_type: 'student_grammar_builder', content: [] })).toEqual([
+      { path: 'content', message: 'must be an object' },
+    ])
+  })
+
+  it('requires the item rows an activity renders from', () => {
+    expect(validateStudentActivity({ activity_type: 'student_exit_poll', content: {}, poll_items: [] })).toEqual([
+      { path: 'poll_items', message: 'needs at least one poll item' },
+    ])
+    expect(validateStudentActivity({ activity_type: 'student_exit_poll', content: {}, poll_items: '[{}]' })).toEqual([])
+    expect(validateStudentActivity({ activity_type: 'student_speaking_cards', content: {}, poll_items: [poll] })).toEqual([])
+    expect(validateStudentActivity({ activity_type: 'student_speaking_cards', content: { prompts: [] } })).toHaveLength(1)
+    expect(
+      validateStudentActivity({ activity_type: 'student_vocab_categorize', content: { buckets: ['A', 'B'] } })
+    ).toEqual([{ path: 'vocabulary_items', message: 'needs vocabulary items or content.words to sort' }])
+  })
+
+  it('applies cross-field rules', () => {
+    expect(
+      validateStudentActivity({
+        activity_type: 'student_vocab_image_mcq',
+        content: { items: [{ image_url: '/a.png', choices: ['short', 'long'], correct: 'blue' }] },
+      })
+    ).toEqual([{ path: 'content.items[0].correct', message: 'must be one of the choices' }])
+    expect(
+      validateStudentActivity({
+        activity_type: 'student_character_description',
+        content: { sentences: [{ template: 'My character is kind.', options: ['kind'] }] },
+      })
+    ).toEqual([{ path: 'content.sentences[0].template', message: 'must contain {word}' }])
+    expect(
+      validateStudentActivity({
+        activity_type: 'student_superhero_builder',
+        content: { questions: [{ id: 'q1', prompt: 'Boy or girl?', options: [{ id: 'a', label: 'Boy' }] }] },
+      }).map((i) => i.path)
+    ).toEqual(['content.gender_question_id', 'content.heroes'])
+  })
+
+  it('rejects unknown types and reads typed content leniently', () => {
+    expect(validateStudentActivity({ activity_type: 'warm_up_speaking', content: {} })).toEqual([
+      { path: 'activity_type', message: 'unknown activity type "warm_up_speaking"' },
+    ])
+    expect(activityContent<'student_vocab_speed_tap'>({ content: '{"targets":["fly"]}' }).targets).toEqual(['fly'])
+    expect(activityContent<'student_vocab_speed_tap'>({ content: 'not json' })).toEqual({})
+  })
+})
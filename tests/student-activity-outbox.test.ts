@@ -0,0 +1,89 @@
+jest.mock('@/lib/api', () => ({ apiClient: { submitStudentLessonActivity: jest.fn() } }))
+
+type Outbox = typeof import('../src/services/StudentActivityOutbox').studentActivityOutbox
+
+let outbox: Outbox
+let submit = jest.fn()
+
+const payload = (activityOrder: number, score = 1) => ({
+  studentLessonId: 'lesson-1',
+  activityType: 'vocabulary',
+  activityOrder,
+  score,
+  completedAt: '2026-10-19T00:00:00.000Z',
+})
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+async function until(check: () => boolean) {
+  for (let i = 0; i < 50 && !check(); i++) await tick()
+  expect(check()).toBe(true)
+}
+
+beforeEach(() => {
+  // jsdom has no IndexedDB, so each fresh module uses its in-memory store
+  jest.isolateModules(() => {
+    outbox = require('../src/services/StudentActivityOutbox').studentActivityOutbox
+    submit = require('@/lib/api').apiClient.submitStudentLessonActivity
+  })
+  jest.spyOn(console, 'warn').mockImplementation(() => {})
+  jest.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  outbox.stop()
+  jest.restoreAllMocks()
+})
+
+describe('StudentActivityOutbox', () => {
+  it('sends an entry queued while a flush is in flight before that flush resolves', async () => {
+    let answerFirst: (value: unknown) => void = () => {}
+    submit.mockImplementationOnce(() => new Promise((resolve) => (answerFirst = resolve)))
+    submit.mockResolvedValue({ success: true, status: 200 })
+
+    await outbox.enqueue('u1', payload(1))
+    await until(() => submit.mock.calls.length === 1)
+    await outbox.enqueue('u1', payload(2))
+
+    const flushed = outbox.flush('u1')
+    answerFirst({ success: true, status: 200 })
+    await flushed
+
+    expect(submit.mock.calls.map(([body]: Array<{ activityOrder: number }>) => body.activityOrder)).toEqual([1, 2])
+    expect(await outbox.getEntries('u1')).toEqual([])
+  })
+
+  it('keeps transient failures pending with the same key and parks permanent ones', async () => {
+    submit.mockResolvedValueOnce({ success: false, status: 422, error: 'Invalid activity' })
+    await outbox.enqueue('u1', payload(1))
+    await outbox.flush('u1')
+
+    submit.mockResolvedValueOnce({ success: false, status: 503, error: 'Unavailable' })
+    const second = await outbox.enqueue('u1', payload(2))
+    await outbox.flush('u1')
+
+    const entries = await outbox.getEntries('u1')
+    expect(entries.map((e) => [e.activityOrder, e.status, e.lastError])).toEqual([
+      [1, 'rejected', 'Invalid activity'],
+      [2, 'pending', 'Unavailable'],
+    ])
+
+    submit.mockResolvedValue({ success: true, status: 200 })
+    await outbox.flush('u1')
+    expect(submit).toHaveBeenCalledTimes(3)
+    expect(submit.mock.calls[2][1]).toEqual({ idempotencyKey: second.idempotencyKey })
+    expect((await outbox.getEntries('u1')).map((e) => e.status)).toEqual(['rejected'])
+  })
+
+  it('replaces an unsent result for the same activity with the newer one', async () => {
+    submit.mockResolvedValue({ success: false, status: 503, error: 'Unavailable' })
+    await outbox.enqueue('u1', payload(1, 2))
+    await outbox.flush('u1')
+    await outbox.enqueue('u1', payload(1, 5))
+    await outbox.flush('u1')
+
+    const entries = await outbox.getEntries('u1')
+    expect(entries).toHaveLength(1)
+    expect(entries[0].payload.score).toBe(5)
+  })
+})
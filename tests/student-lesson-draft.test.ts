@@ -0,0 +1,59 @@
+import {
+  blankActivity,
+  blankLessonPackage,
+  draftIssues,
+  insertActivity,
+  moveActivity,
+  previewActivity,
+  removeActivity,
+} from '../src/lib/studentLessonDraft'
+
+function draft() {
+  const pkg = blankLessonPackage(7)
+  pkg.activities = [
+    blankActivity('student_warmup_poll', 1),
+    blankActivity('student_vocabulary_intro', 2),
+    blankActivity('student_challenge_wheel', 3),
+  ]
+  return pkg
+}
+
+describe('student lesson drafts', () => {
+  it('seeds new activities with required settings and items', () => {
+    const wheel = blankActivity('student_challenge_wheel', 1)
+    expect(wheel.content).toEqual({ prompts: [] })
+    expect(blankActivity('student_grammar_error_fix', 1).grammar_items.map((g) => g.item_kind)).toEqual([
+      'error_correction',
+    ])
+    expect(blankActivity('student_speaking_cards', 1).poll_items).toEqual([])
+  })
+
+  it('keeps activity_order in step with list position', () => {
+    const pkg = draft()
+    const moved = moveActivity(pkg.activities, 2, 0)
+    expect(moved.map((a) => [a.activity_order, a.activity_type])).toEqual([
+      [1, 'student_challenge_wheel'],
+      [2, 'student_warmup_poll'],
+      [3, 'student_vocabulary_intro'],
+    ])
+    expect(moveActivity(pkg.activities, 0, -1)).toBe(pkg.activities)
+    expect(removeActivity(moved, 0).map((a) => a.activity_order)).toEqual([1, 2])
+    expect(insertActivity(pkg.activities, 'student_exit_poll', 1).map((a) => a.activity_type)).toEqual([
+      'student_warmup_poll',
+      'student_exit_poll',
+      'student_vocabulary_intro',
+      'student_challenge_wheel',
+    ])
+  })
+
+  it('reports blank required fields per activity and builds preview rows', () => {
+    const pkg = draft()
+    expect([...draftIssues(pkg).keys()]).toEqual([0, 1, 2])
+    pkg.activities[1].vocabulary_items[0].english_word = 'app'
+    expect(draftIssues(pkg).has(1)).toBe(false)
+
+    const preview = previewActivity(pkg, 'lesson-1', 1)
+    expect(preview.id).toBe('preview-2')
+    expect(preview.vocabulary_items?.[0]).toMatchObject({ english_word: 'app', activity_id: 'preview-2', sort_order: 1 })
+  })
+})
@@ -0,0 +1,120 @@
+import { createHash } from 'crypto'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import os from 'os'
+import path from 'path'
+import { computeRoboticVoiceScore } from '../functions/robotic-voice'
+import {
+  assemblyAIToWhisperVerbose,
+  buildMinimalWhisperVerbose,
+  createLocalFixtureProvider,
+  getTranscriptionProvider,
+} from '../functions/lib/transcription-provider'
+
+const WHISPER_FIXTURE = {
+  task: 'transcribe',
+  text: ' I like playing football with my friends after school.',
+  duration: 3.4,
+  language: 'english',
+  segments: [
+    {
+      id: 0,
+      seek: 0,
+      start: 0,
+      end: 3.4,
+      text: ' I like playing football with my friends after school.',
+      tokens: [50364, 286],
+      avg_logprob: -0.41,
+      no_speech_prob: 0.02,
+      compression_ratio: 0.9,
+    },
+  ],
+  words: ['I', 'like', 'playing', 'football', 'with', 'my', 'friends', 'after', 'school.'].map((word, i) => ({
+    word,
+    start: i * 0.35,
+    end: i * 0.35 + 0.3,
+    probability: 0.7 + (i % 3) * 0.05,
+  })),
+}
+
+describe('transcription-provider', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'transcription-fixtures-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    delete process.env.TRANSCRIPTION_PROVIDER
+  })
+
+  it('buildMinimalWhisperVerbose drops fields the scorer does not use', () => {
+    const minimal = buildMinimalWhisperVerbose(WHISPER_FIXTURE)
+    expect(minimal?.segments?.[0]).not.toHaveProperty('tokens')
+    expect(minimal?.segments?.[0].avg_logprob).toBe(-0.41)
+    expect(minimal?.words).toHaveLength(9)
+    expect(buildMinimalWhisperVerbose(null)).toBeNull()
+  })
+
+  it('maps AssemblyAI words to Whisper seconds/probability and splits segments on pauses', () => {
+    const verbose = assemblyAIToWhisperVerbose({
+      text: 'Hello there. I am fine',
+      audio_duration: 4,
+      words: [
+        { text: 'Hello', start: 0, end: 400, confidence: 0.9 },
+        { text: 'there.', start: 450, end: 900, confidence: 0.8 },
+        { text: 'I', start: 2000, end: 2100, confidence: 0.95 },
+        { text: 'am', start: 2150, end: 2300, confidence: 0.99 },
+        { text: 'fine', start: 2350, end: 2700, confidence: 0.97 },
+      ],
+    })
+    expect(verbose.duration).toBe(4)
+    expect(verbose.words?.[1]).toEqual({ word: ' there.', start: 0.45, end: 0.9, probability: 0.8 })
+    expect(verbose.segments).toHaveLength(2)
+    expect(verbose.segments?.[0].text).toBe(' Hello there.')
+    expect(verbose.segments?.[0].avg_logprob).toBeCloseTo((Math.log(0.9) + Math.log(0.8)) / 2)
+    expect(verbose.segments?.[1].start).toBe(2)
+  })
+
+  it('local provider prefers the audio-hash fixture and falls back to default.json', async () => {
+    const audio = Buffer.from('fake-audio-bytes')
+    const hash = createHash('sha256').update(audio).digest('hex')
+    writeFileSync(path.join(dir, `${hash}.json`), JSON.stringify(WHISPER_FIXTURE))
+    // Features sidecar shape ({ whisper_verbose }) is accepted too
+    writeFileSync(path.join(dir, 'default.json'), JSON.stringify({ whisper_verbose: { text: ' Hi.', segments: [] } }))
+
+    const provider = createLocalFixtureProvider(dir)
+    expect(provider.isConfigured()).toBe(true)
+
+    const matched = await provider.transcribe({ audio, mimeType: 'audio/webm' })
+    expect(matched.provider).toBe('local')
+    expect(matched.text).toBe('I like playing football with my friends after school.')
+
+    const fallback = await provider.transcribe({ audio: Buffer.from('other'), mimeType: 'audio/webm' })
+    expect(fallback.text).toBe('Hi.')
+  })
+
+  it('local provider output feeds computeRoboticVoiceScore without network', async () => {
+    const file = path.join(dir, 'clip.json')
+    writeFileSync(file, JSON.stringify(WHISPER_FIXTURE))
+
+    const result = await createLocalFixtureProvider(file).transcribe({ audio: Buffer.alloc(0), mimeType: 'audio/webm' })
+    const rv = computeRoboticVoiceScore({
+      whisper_verbose: result.whisper_verbose,
+      activity_type: 'speaking_with_feedback',
+    })
+    expect(rv.signals.word_prob_count).toBe(9)
+    expect(rv.signals.segment_count).toBe(1)
+    expect(rv.signals.would_flag).toBe(false)
+  })
+
+  it('getTranscriptionProvider honours TRANSCRIPTION_PROVIDER and falls back otherwise', () => {
+    expect(getTranscriptionProvider('assemblyai').name).toBe('assemblyai')
+    process.env.TRANSCRIPTION_PROVIDER = 'local'
+    expect(getTranscriptionProvider('openai').name).toBe('local')
+    process.env.TRANSCRIPTION_PROVIDER = 'nonsense'
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+    expect(getTranscriptionProvider('openai').name).toBe('openai')
+    warn.mockRestore()
+  })
+})
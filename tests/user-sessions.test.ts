@@ -0,0 +1,55 @@
+import {
+  clientIpFromHeaders,
+  describeUserAgent,
+  regionFromHeaders,
+  signedOutMessage,
+} from '../functions/lib/user-sessions'
+
+describe('describeUserAgent', () => {
+  it('names the browser and platform', () => {
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36'
+      )
+    ).toBe('Chrome on Windows')
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1'
+      )
+    ).toBe('Safari on iPhone')
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0'
+      )
+    ).toBe('Edge on Windows')
+    expect(describeUserAgent(null)).toBe('Unknown device')
+  })
+})
+
+describe('regionFromHeaders', () => {
+  it('reads city, subdivision and country from the base64 Netlify geo header', () => {
+    const geo = { city: 'Chiang Mai', subdivision: { code: '50', name: 'Chiang Mai' }, country: { code: 'TH', name: 'Thailand' } }
+    const headers = { 'x-nf-geo': Buffer.from(JSON.stringify(geo)).toString('base64') }
+
+    expect(regionFromHeaders(headers)).toBe('Chiang Mai, TH')
+  })
+
+  it('falls back to x-country, then null', () => {
+    expect(regionFromHeaders({ 'x-country': 'JP' })).toBe('JP')
+    expect(regionFromHeaders({})).toBeNull()
+  })
+})
+
+describe('clientIpFromHeaders', () => {
+  it('takes the first forwarded address', () => {
+    expect(clientIpFromHeaders({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' })).toBe('203.0.113.7')
+    expect(clientIpFromHeaders({})).toBeNull()
+  })
+})
+
+describe('signedOutMessage', () => {
+  it('explains a sign-out caused by the session cap', () => {
+    expect(signedOutMessage('session_cap')).toMatch(/signed in on another device/)
+    expect(signedOutMessage(null)).toBe('Your session has ended. Please log in again.')
+  })
+})
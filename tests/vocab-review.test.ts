@@ -0,0 +1,123 @@
+import { scheduleCard, type CardSchedule } from '../functions/lib/vocab-review'
+import {
+  activityReviewQualities,
+  buildReviewSession,
+  missingLettersTemplate,
+  type VocabReviewCard,
+} from '../src/lib/vocabReview'
+
+const now = new Date('2026-10-19T08:00:00.000Z')
+
+function card(overrides: Partial<CardSchedule> = {}): CardSchedule {
+  return {
+    ease_factor: 2.5,
+    interval_days: 0,
+    repetitions: 0,
+    lapses: 0,
+    due_at: now.toISOString(),
+    ...overrides,
+  }
+}
+
+function deckCard(word: string, overrides: Partial<VocabReviewCard> = {}): VocabReviewCard {
+  return {
+    id: `card-${word}`,
+    word_key: word.toLowerCase(),
+    english_word: word,
+    repetitions: 0,
+    interval_days: 0,
+    lapses: 0,
+    due_at: now.toISOString(),
+    ...overrides,
+  }
+}
+
+describe('SM-2 scheduling', () => {
+  it('steps correct recalls 1 → 6 → interval × ease', () => {
+    const first = scheduleCard(card(), 5, now)
+    expect([first.repetitions, first.interval_days, first.ease_factor]).toEqual([1, 1, 2.6])
+
+    const second = scheduleCard({ ...first, due_at: now.toISOString() }, 4, now)
+    expect([second.repetitions, second.interval_days, second.ease_factor]).toEqual([2, 6, 2.6])
+
+    const third = scheduleCard({ ...second, due_at: now.toISOString() }, 4, now)
+    expect(third.interval_days).toBe(16)
+    expect(third.due_at).toBe('2026-11-04T08:00:00.000Z')
+  })
+
+  it('restarts a missed card, counts the lapse and keeps ease at or above 1.3', () => {
+    const missed = scheduleCard(card({ repetitions: 4, interval_days: 30, ease_factor: 1.35 }), 2, now)
+    expect(missed).toEqual({
+      ease_factor: 1.3,
+      interval_days: 1,
+      repetitions: 0,
+      lapses: 1,
+      due_at: '2026-10-20T08:00:00.000Z',
+    })
+  })
+
+  it('leaves a card that is not due alone on a correct answer but not on a miss', () => {
+    const notDue = card({ repetitions: 3, interval_days: 15, due_at: '2026-10-30T00:00:00.000Z' })
+    expect(scheduleCard(notDue, 5, now)).toBe(notDue)
+    expect(scheduleCard(notDue, 2, now).interval_days).toBe(1)
+  })
+})
+
+describe('review qualities', () => {
+  it('grades each practised word from missed_words', () => {
+    const qualities = activityReviewQualities(
+      {
+        activity_type: 'student_vocab_speed_tap',
+        content: { targets: ['Phone', 'watch videos'], distractors: ['table'] },
+        vocabulary_items: [],
+      },
+      { selected: ['Phone', 'watch videos'], missed_words: ['Watch  Videos'] },
+      2
+    )
+    expect([...qualities]).toEqual([
+      ['phone', 5],
+      ['watch videos', 2],
+    ])
+  })
+
+  it('falls back to the attempt count for results without missed_words', () => {
+    const activity = {
+      activity_type: 'student_vocab_missing_letters',
+      content: JSON.stringify({ sentences: [{ template: 'ch_t', answer: 'chat' }] }),
+    }
+    expect(activityReviewQualities(activity, { inputs: {} }, 3).get('chat')).toBe(4)
+    expect(activityReviewQualities({ ...activity, activity_type: 'student_exit_poll' }, {}, 1).size).toBe(0)
+  })
+})
+
+describe('review session', () => {
+  it('matches pictures, spells the rest and taps due words among other deck words', () => {
+    const cards = [
+      deckCard('phone', { image_url: 'https://example.com/phone.png' }),
+      deckCard('app', { image_url: 'https://example.com/app.png' }),
+      deckCard('download', { thai_translation: 'ดาวน์โหลด' }),
+    ]
+    const session = buildReviewSession(cards, {
+      distractors: ['boring', 'PHONE', 'fun'],
+      hasPicture: (c) => Boolean(c.image_url),
+    })
+
+    expect(session.map((a) => a.activity_type)).toEqual([
+      'student_vocab_picture_match',
+      'student_vocab_missing_letters',
+      'student_vocab_speed_tap',
+    ])
+    expect(session[0].vocabulary_items?.map((v) => v.english_word)).toEqual(['phone', 'app'])
+    expect(session[1].content).toEqual({
+      sentences: [{ template: 'd_w_l_a_ (ดาวน์โหลด)', answer: 'download' }],
+    })
+    expect(session[2].content).toEqual({
+      targets: ['phone', 'app', 'download'],
+      distractors: ['boring', 'fun'],
+    })
+  })
+
+  it('blanks every other letter but keeps spaces', () => {
+    expect(missingLettersTemplate('play games')).toBe('p_a_ g_m_s')
+  })
+})
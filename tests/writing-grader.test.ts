@@ -0,0 +1,75 @@
+import {
+  buildWritingGraderMessages,
+  countWords,
+  gradeWriting,
+  parseWritingGrade,
+  writingPercentage,
+} from '../functions/lib/writing-grader'
+
+const prompt = 'Describe your daily routine.'
+const sixtyWords = Array.from({ length: 60 }, (_, i) => (i % 2 ? 'school' : 'go')).join(' ')
+
+function modelJson(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    task_achievement: 8,
+    grammar: 7,
+    vocabulary_range: 6,
+    coherence: 7,
+    estimated_cefr: 'B1',
+    off_topic: false,
+    feedback: 'Clear routine with good linking.',
+    corrections: [{ mistake: 'I goes', correction: 'I go' }],
+    ...overrides,
+  })
+}
+
+describe('writing grader', () => {
+  it('derives the percentage from clamped rubric scores', () => {
+    const grade = parseWritingGrade(modelJson({ grammar: 14, coherence: '6.7' }), {
+      prompt,
+      text: sixtyWords,
+      min_words: 50,
+    })
+    expect(grade?.rubric).toEqual({ task_achievement: 8, grammar: 10, vocabulary_range: 6, coherence: 6.5 })
+    expect(grade?.percentage).toBe(76)
+    expect(grade?.estimated_cefr).toBe('B1')
+    expect(grade?.word_count).toBe(60)
+  })
+
+  it('caps off-topic answers and scales down short ones', () => {
+    const offTopic = parseWritingGrade(modelJson({ off_topic: true }), { prompt, text: sixtyWords, min_words: 50 })
+    expect(offTopic?.percentage).toBe(10)
+
+    const rubric = { task_achievement: 8, grammar: 8, vocabulary_range: 8, coherence: 8 }
+    expect(writingPercentage(rubric, { off_topic: false, word_count: 25, min_words: 50 })).toBe(40)
+    expect(writingPercentage(rubric, { off_topic: false, word_count: 80, min_words: 50 })).toBe(80)
+  })
+
+  it('rejects incomplete model output and falls back on unknown bands', () => {
+    expect(parseWritingGrade('not json', { prompt, text: 'hello' })).toBeNull()
+    expect(parseWritingGrade(JSON.stringify({ grammar: 5 }), { prompt, text: 'hello' })).toBeNull()
+    const grade = parseWritingGrade(modelJson({ estimated_cefr: 'B3', corrections: 'none' }), { prompt, text: sixtyWords })
+    expect(grade?.estimated_cefr).toBe('A1')
+    expect(grade?.corrections).toEqual([])
+  })
+
+  it('grades blank answers without calling the model and returns null on failures', async () => {
+    const complete = jest.fn()
+    const blank = await gradeWriting({ prompt, text: '   ' }, complete)
+    expect(complete).not.toHaveBeenCalled()
+    expect(blank?.percentage).toBe(0)
+    expect(blank?.off_topic).toBe(true)
+
+    const failing = jest.fn().mockRejectedValue(new Error('rate limited'))
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    await expect(gradeWriting({ prompt, text: sixtyWords }, failing)).resolves.toBeNull()
+  })
+
+  it('sends the prompt, answer and minimum length to the model', () => {
+    const messages = buildWritingGraderMessages({ prompt, text: 'I wake up at six.', min_words: 60, cefr_level: 'A2' })
+    expect(messages[0].content).toContain('at least 60 words at about A2 level')
+    expect(messages[1].content).toContain('"Describe your daily routine."')
+    expect(messages[1].content).toContain('(5 words)')
+    expect(countWords(' a  b\nc ')).toBe(3)
+  })
+})